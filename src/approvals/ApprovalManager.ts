@@ -0,0 +1,437 @@
+/**
+ * 部署审批管理器
+ * @module approvals/ApprovalManager
+ *
+ * @description 受保护环境的部署必须先获得批准：部署时为该版本创建待审批请求，
+ * 审批人通过 approve / reject 做出决定，满足策略（必需审批人全部批准且达到最少人数）后
+ * 请求变为 approved，下一次部署使用该批准并将其标记为已使用。批准绑定配置哈希与镜像摘要，
+ * 配置或镜像变化后需要重新审批。当前用户通过审批令牌验证，所有审批事件写入审计日志。
+ * 审批判定始终使用当前配置中的策略与审批人，请求文件中的策略快照只作记录
+ */
+
+import { createHash, randomBytes } from 'crypto'
+import { join, resolve } from 'path'
+import { FileApprovalStore } from './FileApprovalStore.js'
+import { S3ApprovalStore } from './S3ApprovalStore.js'
+import { AuditLogger } from '../utils/audit-log.js'
+import { ApprovalError, PermissionError, ConfigError } from '../utils/errors.js'
+import { logger, maskSecretValues } from '../utils/logger.js'
+import type { ApprovalStore } from './ApprovalStore.js'
+import type {
+  ApprovalConfig,
+  ApprovalPolicy,
+  ApprovalRequest,
+  ApprovalStatus,
+  ApprovalStoreConfig,
+  DeployConfig,
+  Environment,
+} from '../types/index.js'
+
+/** 默认审批有效期（小时） */
+const DEFAULT_EXPIRES_IN = 24
+
+/**
+ * 审批管理器构造选项
+ */
+export interface ApprovalManagerOptions {
+  /** 审批配置（DeployConfig.approvals），未配置时所有环境都不需要审批 */
+  config?: ApprovalConfig
+  /** 审批请求存储，默认按 config.store 创建 */
+  store?: ApprovalStore
+  auditLogger?: AuditLogger
+  workDir?: string
+  /** 审批令牌，默认取 DEPLOYER_APPROVAL_TOKEN 环境变量；与 config.identities 匹配得到当前用户 */
+  token?: string
+}
+
+/**
+ * 需要审批的部署
+ */
+export interface ApprovalTarget {
+  name: string
+  version: string
+  environment: Environment
+  /** 部署配置的哈希，见 ApprovalManager.hashConfig */
+  configHash: string
+  /** 应用或服务名称 -> 待部署的镜像摘要 */
+  digests: Record<string, string>
+}
+
+/**
+ * 根据配置创建审批存储
+ */
+export function createApprovalStore(config: ApprovalStoreConfig = {}, workDir: string = process.cwd()): ApprovalStore {
+  if (config.backend === 's3') {
+    if (!config.s3) {
+      throw new ConfigError('s3 审批存储需要配置 approvals.store.s3.bucket')
+    }
+    return new S3ApprovalStore(config.s3)
+  }
+
+  return new FileApprovalStore(config.dir ? resolve(workDir, config.dir) : join(workDir, '.deploy-approvals'))
+}
+
+/**
+ * 部署审批管理器类
+ *
+ * @example
+ * ```typescript
+ * const manager = new ApprovalManager({ config: config.approvals });
+ *
+ * // 部署前检查，未获批准时抛出 ApprovalError（并创建待审批请求）
+ * const approval = await manager.requireApproval({
+ *   ...config,
+ *   configHash: ApprovalManager.hashConfig(config),
+ *   digests: { shop: 'sha256:...' },
+ * });
+ *
+ * // 审批人批准
+ * await manager.approve(requestId, 'LGTM');
+ * ```
+ */
+export class ApprovalManager {
+  private config?: ApprovalConfig
+  private store: ApprovalStore
+  private auditLogger: AuditLogger
+  private token?: string
+
+  constructor(options: ApprovalManagerOptions = {}) {
+    this.config = options.config
+    this.store = options.store || createApprovalStore(options.config?.store, options.workDir)
+    this.auditLogger = options.auditLogger || new AuditLogger()
+    this.token = options.token ?? process.env.DEPLOYER_APPROVAL_TOKEN
+  }
+
+  /**
+   * 生成新的审批令牌，hash 写入 approvals.identities，token 只交给该用户本人
+   */
+  static createToken(): { token: string; hash: string } {
+    const token = randomBytes(32).toString('hex')
+    return { token, hash: ApprovalManager.hashToken(token) }
+  }
+
+  static hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex')
+  }
+
+  /**
+   * 计算部署配置的哈希：密钥值先遮蔽，对象键排序后序列化
+   */
+  static hashConfig(config: DeployConfig): string {
+    return createHash('sha256').update(canonicalize(maskSecretValues(config))).digest('hex')
+  }
+
+  /**
+   * 验证当前用户：审批令牌的摘要必须与 approvals.identities 中的某个用户匹配
+   *
+   * @throws {PermissionError} 未提供令牌或令牌不属于任何用户
+   */
+  getCurrentUser(): string {
+    const hash = this.token ? ApprovalManager.hashToken(this.token) : undefined
+    const user = hash && Object.entries(this.config?.identities || {}).find(([, identity]) => identity === hash)?.[0]
+
+    if (!user) {
+      throw new PermissionError(
+        this.token ? 'The approval token does not match any identity' : 'Deployment approvals require a verified identity',
+        {
+          resource: 'approvals.identities',
+          suggestion: '使用 ldesign-deployer approvals:token <user> 生成令牌，将摘要加入 approvals.identities，并设置 DEPLOYER_APPROVAL_TOKEN',
+        }
+      )
+    }
+    return user
+  }
+
+  /**
+   * 获取环境的审批策略，不需要审批时返回 undefined
+   */
+  getPolicy(environment: Environment): ApprovalPolicy | undefined {
+    return this.config?.environments[environment]
+  }
+
+  /**
+   * 检查部署是否已获批准
+   *
+   * @description 只有名称、版本、配置哈希与镜像摘要都相同的请求才对本次部署有效
+   * @returns 可用于本次部署的已批准请求；环境不需要审批时返回 null
+   * @throws {ApprovalError} 尚未获得批准，首次部署时同时创建待审批请求
+   * @throws {PermissionError} 无法验证当前用户
+   */
+  async requireApproval(target: ApprovalTarget): Promise<ApprovalRequest | null> {
+    const policy = this.getPolicy(target.environment)
+    if (!policy) {
+      return null
+    }
+
+    const user = this.getCurrentUser()
+    const digests = canonicalize(target.digests)
+    const requests = (await this.list({ environment: target.environment }))
+      .filter(request => request.name === target.name && request.version === target.version)
+      .filter(request => request.configHash === target.configHash && canonicalize(request.digests || {}) === digests)
+
+    const approved = requests.find(request => request.status === 'approved')
+    if (approved) {
+      logger.info(`✅ Using approval ${approved.id} (${this.getApprovers(approved, policy).join(', ')})`)
+      return approved
+    }
+
+    const pending = requests.find(request => request.status === 'pending')
+    if (pending) {
+      throw new ApprovalError(
+        `Deployment of ${target.name}@${target.version} to ${target.environment} is waiting for approval (${pending.id})`,
+        {
+          requestId: pending.id,
+          details: { approvals: this.getApprovers(pending, policy).length, eligibleApprovers: pending.eligibleApprovers },
+          suggestion: `请审批人执行: ldesign-deployer approve ${pending.id}`,
+        }
+      )
+    }
+
+    const request = await this.createRequest(target, policy, user)
+    throw new ApprovalError(
+      `Deployment of ${target.name}@${target.version} to ${target.environment} requires approval, created request ${request.id}`,
+      {
+        requestId: request.id,
+        details: { eligibleApprovers: request.eligibleApprovers },
+        suggestion: `请审批人执行: ldesign-deployer approve ${request.id}`,
+      }
+    )
+  }
+
+  /**
+   * 批准审批请求
+   *
+   * @throws {ApprovalError} 请求不存在或已不再等待审批
+   * @throws {PermissionError} 当前用户不能审批该请求
+   */
+  async approve(id: string, comment?: string): Promise<ApprovalRequest> {
+    return this.decide(id, 'approve', comment)
+  }
+
+  /**
+   * 拒绝审批请求
+   *
+   * @throws {ApprovalError} 请求不存在或已不再等待审批
+   * @throws {PermissionError} 当前用户不能审批该请求
+   */
+  async reject(id: string, comment?: string): Promise<ApprovalRequest> {
+    return this.decide(id, 'reject', comment)
+  }
+
+  /**
+   * 将批准标记为已使用，同一批准不能用于第二次部署
+   *
+   * @throws {PermissionError} 无法验证当前用户
+   */
+  async markUsed(request: ApprovalRequest, deploymentId: string): Promise<void> {
+    const user = this.getCurrentUser()
+    const used: ApprovalRequest = {
+      ...request,
+      status: 'used',
+      deploymentId,
+      usedAt: new Date().toISOString(),
+    }
+    await this.store.save(used)
+
+    await this.auditLogger.logApproval({
+      ...this.getAuditTarget(used),
+      event: 'used',
+      user,
+      status: used.status,
+      deploymentId,
+    })
+  }
+
+  /**
+   * 获取审批请求（状态与审批人按当前时间和配置重新计算）
+   */
+  async get(id: string): Promise<ApprovalRequest | null> {
+    const request = await this.store.get(id)
+    return request ? this.refresh(request) : null
+  }
+
+  /**
+   * 列出审批请求，按创建时间倒序
+   */
+  async list(filter: { environment?: Environment; status?: ApprovalStatus } = {}): Promise<ApprovalRequest[]> {
+    return (await this.store.list())
+      .map(request => this.refresh(request))
+      .filter(request => !filter.environment || request.environment === filter.environment)
+      .filter(request => !filter.status || request.status === filter.status)
+      .sort((a, b) => b.requestedAt.localeCompare(a.requestedAt))
+  }
+
+  /**
+   * 根据决定与当前配置中的策略计算请求状态
+   *
+   * @description 只统计当前仍有资格审批的用户的批准；请求文件中的 policy 与
+   * eligibleApprovers 可能被篡改或已过时，不参与判定
+   */
+  evaluate(request: ApprovalRequest): ApprovalStatus {
+    if (request.status === 'used' || request.status === 'rejected') {
+      return request.status
+    }
+    if (Date.parse(request.expiresAt) <= Date.now()) {
+      return 'expired'
+    }
+    if (request.decisions.some(decision => decision.decision === 'reject')) {
+      return 'rejected'
+    }
+
+    const policy = this.getPolicy(request.environment) || {}
+    const approvers = this.getApprovers(request, policy)
+    const required = policy.requiredApprovers || []
+    const minApprovals = policy.minApprovals ?? Math.max(1, required.length)
+
+    if (required.every(user => approvers.includes(user)) && approvers.length >= minApprovals) {
+      return 'approved'
+    }
+    return 'pending'
+  }
+
+  private async createRequest(target: ApprovalTarget, policy: ApprovalPolicy, user: string): Promise<ApprovalRequest> {
+    const now = Date.now()
+    const request: ApprovalRequest = {
+      id: `apr-${now}-${Math.random().toString(36).substring(2, 8)}`,
+      name: target.name,
+      version: target.version,
+      environment: target.environment,
+      configHash: target.configHash,
+      digests: target.digests,
+      requestedBy: user,
+      requestedAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + (policy.expiresIn ?? DEFAULT_EXPIRES_IN) * 3600000).toISOString(),
+      status: 'pending',
+      policy,
+      eligibleApprovers: this.getEligibleApprovers(policy),
+      decisions: [],
+    }
+    await this.store.save(request)
+
+    await this.auditLogger.logApproval({
+      ...this.getAuditTarget(request),
+      event: 'requested',
+      user,
+      status: request.status,
+    })
+
+    return request
+  }
+
+  private async decide(id: string, decision: 'approve' | 'reject', comment?: string): Promise<ApprovalRequest> {
+    const user = this.getCurrentUser()
+    const request = await this.store.get(id)
+    if (!request) {
+      throw new ApprovalError(`Approval request not found: ${id}`, {
+        requestId: id,
+        suggestion: '使用 ldesign-deployer approvals:list 查看审批请求',
+      })
+    }
+
+    const policy = this.getPolicy(request.environment) || {}
+    const eligibleApprovers = this.getEligibleApprovers(policy)
+    const status = this.evaluate(request)
+    if (status !== 'pending' && status !== 'approved') {
+      throw new ApprovalError(`Approval request ${id} is ${status}`, {
+        requestId: id,
+        suggestion: status === 'expired' ? '请重新部署以创建新的审批请求' : undefined,
+      })
+    }
+
+    if (request.requestedBy === user && !policy.allowSelfApproval) {
+      throw new PermissionError(`${user} cannot approve their own deployment request`, {
+        resource: id,
+        suggestion: '请由其他审批人处理',
+      })
+    }
+    if (eligibleApprovers && !eligibleApprovers.includes(user)) {
+      throw new PermissionError(`${user} is not an approver for ${request.environment}`, {
+        resource: id,
+        details: { eligibleApprovers },
+        suggestion: `可以审批的用户: ${eligibleApprovers.join(', ')}`,
+      })
+    }
+
+    // 同一用户的新决定覆盖之前的决定
+    request.decisions = [
+      ...request.decisions.filter(existing => existing.user !== user),
+      { user, decision, comment, at: new Date().toISOString() },
+    ]
+    request.eligibleApprovers = eligibleApprovers
+    request.status = this.evaluate(request)
+    await this.store.save(request)
+
+    await this.auditLogger.logApproval({
+      ...this.getAuditTarget(request),
+      event: decision === 'approve' ? 'approved' : 'rejected',
+      user,
+      status: request.status,
+      comment,
+    })
+
+    return request
+  }
+
+  /**
+   * 展开可以审批的用户，策略未限制审批人时返回 undefined
+   */
+  private getEligibleApprovers(policy: ApprovalPolicy): string[] | undefined {
+    if (!policy.requiredApprovers?.length && !policy.groups?.length) {
+      return undefined
+    }
+
+    const users = [
+      ...(policy.requiredApprovers || []),
+      ...(policy.groups || []).flatMap(group => this.config?.groups?.[group] || []),
+    ]
+    return [...new Set(users)]
+  }
+
+  /**
+   * 按当前配置重新计算请求的状态与可审批用户
+   */
+  private refresh(request: ApprovalRequest): ApprovalRequest {
+    return {
+      ...request,
+      eligibleApprovers: this.getEligibleApprovers(this.getPolicy(request.environment) || {}),
+      status: this.evaluate(request),
+    }
+  }
+
+  /**
+   * 获取按当前策略有效的批准人：不在可审批用户中的批准、不允许自审批时申请人自己的批准都不计入
+   */
+  private getApprovers(request: ApprovalRequest, policy: ApprovalPolicy): string[] {
+    const eligibleApprovers = this.getEligibleApprovers(policy)
+    return request.decisions
+      .filter(decision => decision.decision === 'approve')
+      .map(decision => decision.user)
+      .filter(user => !eligibleApprovers || eligibleApprovers.includes(user))
+      .filter(user => policy.allowSelfApproval || user !== request.requestedBy)
+  }
+
+  private getAuditTarget(request: ApprovalRequest) {
+    return {
+      name: request.name,
+      version: request.version,
+      environment: request.environment,
+      requestId: request.id,
+    }
+  }
+}
+
+/**
+ * 对象键排序后序列化，相同内容得到相同结果
+ */
+function canonicalize(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalize(item)).join(',')}]`
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalize(item)}`).join(',')}}`
+  }
+  return JSON.stringify(value) ?? 'null'
+}
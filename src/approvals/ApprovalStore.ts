@@ -0,0 +1,31 @@
+/**
+ * 审批请求存储
+ * @module approvals/ApprovalStore
+ */
+
+import type { ApprovalRequest } from '../types/index.js'
+
+/**
+ * 审批请求存储接口
+ */
+export interface ApprovalStore {
+  /** 存储名称 */
+  readonly name: string
+
+  /**
+   * 保存审批请求
+   *
+   * @throws {ApprovalError} 请求在读取后已被其他人修改
+   */
+  save(request: ApprovalRequest): Promise<void>
+
+  /**
+   * 获取审批请求，不存在时返回 null
+   */
+  get(id: string): Promise<ApprovalRequest | null>
+
+  /**
+   * 列出所有审批请求
+   */
+  list(): Promise<ApprovalRequest[]>
+}
@@ -0,0 +1,49 @@
+/**
+ * 文件审批存储
+ * @module approvals/FileApprovalStore
+ *
+ * @description 每个审批请求保存为审批目录中的一个 JSON 文件
+ */
+
+import { promises as fs } from 'fs'
+import { join } from 'path'
+import { readJSON, writeJSON, fileExists } from '../utils/file-system.js'
+import type { ApprovalStore } from './ApprovalStore.js'
+import type { ApprovalRequest } from '../types/index.js'
+
+export class FileApprovalStore implements ApprovalStore {
+  readonly name = 'file'
+  private dir: string
+
+  constructor(dir: string = join(process.cwd(), '.deploy-approvals')) {
+    this.dir = dir
+  }
+
+  async save(request: ApprovalRequest): Promise<void> {
+    await writeJSON(this.getPath(request.id), request)
+  }
+
+  async get(id: string): Promise<ApprovalRequest | null> {
+    const path = this.getPath(id)
+    return fileExists(path) ? readJSON<ApprovalRequest>(path) : null
+  }
+
+  async list(): Promise<ApprovalRequest[]> {
+    if (!fileExists(this.dir)) {
+      return []
+    }
+
+    const requests: ApprovalRequest[] = []
+    for (const file of await fs.readdir(this.dir)) {
+      if (file.endsWith('.json')) {
+        requests.push(await readJSON<ApprovalRequest>(join(this.dir, file)))
+      }
+    }
+
+    return requests
+  }
+
+  private getPath(id: string): string {
+    return join(this.dir, `${id.replace(/[^a-zA-Z0-9._-]/g, '_')}.json`)
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * S3 审批存储
+ * @module approvals/S3ApprovalStore
+ *
+ * @description 审批请求保存为 S3（或 S3 兼容存储）中的 JSON 对象，通过 aws s3api 读写，
+ * 多台机器上的部署与审批共享同一份请求。写入时以读取到的 ETag 作为 If-Match 条件，
+ * 两人同时审批时后写入的一方失败并提示重试，不会覆盖对方的决定
+ */
+
+import { exec } from 'child_process'
+import { promisify } from 'util'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { readFile, writeFile, removeFile } from '../utils/file-system.js'
+import { ApprovalError } from '../utils/errors.js'
+import type { ApprovalStore } from './ApprovalStore.js'
+import type { ApprovalRequest, ApprovalStoreConfig } from '../types/index.js'
+import type { CommandExecutor } from '../kubernetes/DeploymentManager.js'
+
+const execAsync = promisify(exec)
+
+export class S3ApprovalStore implements ApprovalStore {
+  readonly name = 's3'
+  private options: NonNullable<ApprovalStoreConfig['s3']>
+  private prefix: string
+  private executor: CommandExecutor
+  /** 最近读取到的对象 ETag，用于条件写入 */
+  private etags = new Map<string, string>()
+
+  constructor(options: NonNullable<ApprovalStoreConfig['s3']>, executor: CommandExecutor = execAsync) {
+    this.options = options
+    this.prefix = options.prefix ?? 'ldesign-deployer/approvals/'
+    this.executor = executor
+  }
+
+  async save(request: ApprovalRequest): Promise<void> {
+    const file = this.getTempFile()
+    await writeFile(file, JSON.stringify(request, null, 2))
+
+    const etag = this.etags.get(request.id)
+    const precondition = etag ? `--if-match ${this.quote(etag)}` : `--if-none-match '*'`
+
+    try {
+      const { stdout } = await this.executor(this.s3api(
+        `put-object --key ${this.quote(this.getObjectKey(request.id))} --body ${file} ${precondition} --content-type application/json --output json`
+      ))
+      const written = stdout.trim() ? JSON.parse(stdout).ETag : undefined
+      if (written) {
+        this.etags.set(request.id, written)
+      }
+    } catch (error: any) {
+      if (/PreconditionFailed|ConditionalRequestConflict|\(412\)|\(409\)/i.test(`${error.stderr || ''}${error.message}`)) {
+        throw new ApprovalError(`Approval request ${request.id} was modified by someone else`, {
+          requestId: request.id,
+          suggestion: '请重新执行命令',
+          cause: error,
+        })
+      }
+      throw error
+    } finally {
+      await removeFile(file)
+    }
+  }
+
+  async get(id: string): Promise<ApprovalRequest | null> {
+    return this.readObject(this.getObjectKey(id))
+  }
+
+  async list(): Promise<ApprovalRequest[]> {
+    const { stdout } = await this.executor(
+      this.s3api(`list-objects-v2 --prefix ${this.quote(this.prefix)} --output json`)
+    )
+    const objects: Array<{ Key: string }> = stdout.trim() ? JSON.parse(stdout).Contents || [] : []
+
+    const requests: ApprovalRequest[] = []
+    for (const { Key } of objects.filter(object => object.Key.endsWith('.json'))) {
+      const request = await this.readObject(Key)
+      if (request) {
+        requests.push(request)
+      }
+    }
+
+    return requests
+  }
+
+  private async readObject(objectKey: string): Promise<ApprovalRequest | null> {
+    const file = this.getTempFile()
+
+    try {
+      const { stdout } = await this.executor(
+        this.s3api(`get-object --key ${this.quote(objectKey)} ${file} --output json`)
+      )
+      const request: ApprovalRequest = JSON.parse(await readFile(file))
+      this.etags.set(request.id, JSON.parse(stdout).ETag)
+      return request
+    } catch (error: any) {
+      if (/NoSuchKey|Not Found|\(404\)/i.test(`${error.stderr || ''}${error.message}`)) {
+        return null
+      }
+      throw error
+    } finally {
+      await removeFile(file)
+    }
+  }
+
+  private getObjectKey(id: string): string {
+    return `${this.prefix}${id}.json`
+  }
+
+  private s3api(args: string): string {
+    const flags = [`--bucket ${this.quote(this.options.bucket)}`]
+    if (this.options.region) {
+      flags.push(`--region ${this.quote(this.options.region)}`)
+    }
+    if (this.options.endpoint) {
+      flags.push(`--endpoint-url ${this.quote(this.options.endpoint)}`)
+    }
+    return `aws s3api ${args} ${flags.join(' ')}`
+  }
+
+  private quote(value: string): string {
+    return `'${value.replace(/'/g, `'\\''`)}'`
+  }
+
+  private getTempFile(): string {
+    return join(tmpdir(), `deploy-approval-${process.pid}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}.json`)
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * ApprovalManager 测试（文件审批存储）
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { ApprovalManager } from '../ApprovalManager.js'
+import { FileApprovalStore } from '../FileApprovalStore.js'
+import { ApprovalError, PermissionError } from '../../utils/errors.js'
+import type { AuditLogger } from '../../utils/audit-log.js'
+import type { ApprovalConfig } from '../../types/index.js'
+
+const target = {
+  name: 'shop',
+  version: '1.2.0',
+  environment: 'production' as const,
+  configHash: 'config-1',
+  digests: { shop: 'sha256:aaa' },
+}
+
+const users = ['alice', 'bob', 'carol', 'dave', 'mallory']
+const tokens = Object.fromEntries(users.map(user => [user, `token-${user}`]))
+
+const config: ApprovalConfig = {
+  environments: {
+    production: { requiredApprovers: ['alice'], groups: ['sre'], minApprovals: 2 },
+  },
+  groups: { sre: ['bob', 'carol'] },
+  identities: Object.fromEntries(users.map(user => [user, ApprovalManager.hashToken(tokens[user])])),
+}
+
+describe('ApprovalManager', () => {
+  let workDir: string
+  let store: FileApprovalStore
+  let audited: any[]
+  let auditLogger: AuditLogger
+
+  const as = (user: string) => new ApprovalManager({ config, store, auditLogger, token: tokens[user] })
+
+  beforeEach(async () => {
+    workDir = await mkdtemp(join(tmpdir(), 'deployer-approvals-'))
+    store = new FileApprovalStore(join(workDir, '.deploy-approvals'))
+    audited = []
+    auditLogger = {
+      logApproval: async (entry: any) => {
+        audited.push(entry)
+      },
+    } as unknown as AuditLogger
+  })
+
+  afterEach(async () => {
+    await rm(workDir, { recursive: true, force: true })
+  })
+
+  it('should not require approval for unprotected environments', async () => {
+    await expect(as('dave').requireApproval({ ...target, environment: 'staging' })).resolves.toBeNull()
+  })
+
+  it('should create a pending request and approve it once the policy is satisfied', async () => {
+    const error = await as('dave').requireApproval(target).catch(e => e)
+    expect(error).toBeInstanceOf(ApprovalError)
+
+    const [request] = await as('dave').list()
+    expect(request).toMatchObject({
+      status: 'pending',
+      requestedBy: 'dave',
+      eligibleApprovers: ['alice', 'bob', 'carol'],
+    })
+
+    // 再次部署不会重复创建请求
+    await expect(as('dave').requireApproval(target)).rejects.toThrow(request.id)
+    expect(await as('dave').list()).toHaveLength(1)
+
+    // 必需审批人尚未批准时人数足够也不通过
+    await as('bob').approve(request.id)
+    expect((await as('carol').approve(request.id, 'LGTM')).status).toBe('pending')
+    expect((await as('alice').approve(request.id)).status).toBe('approved')
+
+    const approved = await as('dave').requireApproval(target)
+    expect(approved!.id).toBe(request.id)
+
+    await as('dave').markUsed(approved!, 'deploy-1')
+    expect(await as('dave').get(request.id)).toMatchObject({ status: 'used', deploymentId: 'deploy-1' })
+    await expect(as('dave').requireApproval(target)).rejects.toBeInstanceOf(ApprovalError)
+
+    expect(audited.map(entry => `${entry.event}:${entry.user}`)).toEqual([
+      'requested:dave',
+      'approved:bob',
+      'approved:carol',
+      'approved:alice',
+      'used:dave',
+      'requested:dave',
+    ])
+    expect(audited[2]).toMatchObject({ requestId: request.id, comment: 'LGTM', status: 'pending' })
+  })
+
+  it('should enforce approver permissions, rejection and expiry', async () => {
+    await as('alice').requireApproval(target).catch(() => undefined)
+    const [request] = await as('alice').list()
+
+    await expect(as('alice').approve(request.id)).rejects.toBeInstanceOf(PermissionError)
+    await expect(as('mallory').approve(request.id)).rejects.toBeInstanceOf(PermissionError)
+
+    expect((await as('bob').reject(request.id, 'failing canary')).status).toBe('rejected')
+    await expect(as('carol').approve(request.id)).rejects.toThrow('rejected')
+
+    await store.save({ ...request, id: 'apr-old', expiresAt: new Date(Date.now() - 1000).toISOString() })
+    expect(await as('bob').get('apr-old')).toMatchObject({ status: 'expired' })
+    await expect(as('bob').approve('apr-old')).rejects.toBeInstanceOf(ApprovalError)
+  })
+
+  it('should reject identities that cannot be verified', async () => {
+    const manager = (token?: string) => new ApprovalManager({ config, store, auditLogger, token })
+
+    await expect(manager(undefined).requireApproval(target)).rejects.toBeInstanceOf(PermissionError)
+    await expect(manager('forged').requireApproval(target)).rejects.toThrow('does not match any identity')
+    expect(await as('dave').list()).toHaveLength(0)
+
+    await as('dave').requireApproval(target).catch(() => undefined)
+    const [request] = await as('dave').list()
+    await expect(manager('forged').approve(request.id)).rejects.toBeInstanceOf(PermissionError)
+  })
+
+  it('should only use an approval for the same config and image digest', async () => {
+    await as('dave').requireApproval(target).catch(() => undefined)
+    const [request] = await as('dave').list()
+    await as('alice').approve(request.id)
+    await as('bob').approve(request.id)
+
+    await expect(as('dave').requireApproval({ ...target, digests: { shop: 'sha256:bbb' } })).rejects.toBeInstanceOf(ApprovalError)
+    await expect(as('dave').requireApproval({ ...target, configHash: 'config-2' })).rejects.toBeInstanceOf(ApprovalError)
+    expect((await as('dave').requireApproval(target))!.id).toBe(request.id)
+  })
+
+  it('should evaluate requests against the current config instead of the stored policy', async () => {
+    await as('mallory').requireApproval(target).catch(() => undefined)
+    const [request] = await as('mallory').list()
+
+    // 申请人篡改请求文件：放宽策略、把自己加入审批人并伪造批准
+    await store.save({
+      ...request,
+      policy: { minApprovals: 0, allowSelfApproval: true },
+      eligibleApprovers: ['mallory', 'eve'],
+      decisions: [
+        { user: 'mallory', decision: 'approve', at: new Date().toISOString() },
+        { user: 'eve', decision: 'approve', at: new Date().toISOString() },
+      ],
+    })
+    expect(await as('mallory').get(request.id)).toMatchObject({
+      status: 'pending',
+      eligibleApprovers: ['alice', 'bob', 'carol'],
+    })
+    await expect(as('mallory').approve(request.id)).rejects.toBeInstanceOf(PermissionError)
+    await expect(as('mallory').requireApproval(target)).rejects.toThrow('waiting for approval')
+
+    await as('alice').approve(request.id)
+    expect((await as('bob').approve(request.id)).status).toBe('approved')
+
+    // 收紧配置后已有请求立即按新策略判定
+    const stricter: ApprovalConfig = {
+      ...config,
+      environments: { production: { requiredApprovers: ['alice', 'carol'], minApprovals: 2 } },
+    }
+    const manager = new ApprovalManager({ config: stricter, store, auditLogger, token: tokens.mallory })
+    expect((await manager.get(request.id))!.status).toBe('pending')
+    await expect(manager.requireApproval(target)).rejects.toBeInstanceOf(ApprovalError)
+  })
+
+  it('should hash configs independently of key order', () => {
+    const base = { name: 'shop', version: '1.0.0', environment: 'production', platform: 'docker', projectType: 'node' } as const
+
+    expect(ApprovalManager.hashConfig({ ...base })).toBe(ApprovalManager.hashConfig({ projectType: 'node', ...base }))
+    expect(ApprovalManager.hashConfig({ ...base })).not.toBe(ApprovalManager.hashConfig({ ...base, version: '1.0.1' }))
+  })
+})
@@ -0,0 +1,11 @@
+/**
+ * 部署审批模块
+ * @module approvals
+ *
+ * @description 受保护环境的部署审批：审批策略、审批请求存储（本地文件、S3）与审批管理器
+ */
+
+export * from './ApprovalStore.js'
+export * from './FileApprovalStore.js'
+export * from './S3ApprovalStore.js'
+export * from './ApprovalManager.js'
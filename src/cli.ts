@@ -7,12 +7,15 @@
 
 import { cac } from 'cac'
 import { readFile } from 'fs/promises'
-import { resolve, dirname } from 'path'
+import { resolve, dirname, extname, relative } from 'path'
 import { fileURLToPath } from 'url'
 import { Deployer } from './core/Deployer.js'
 import { EnhancedDeployer } from './core/EnhancedDeployer.js'
-import { ConfigManager } from './core/ConfigManager.js'
+import { ConfigManager, CONFIG_EXTENSIONS } from './core/ConfigManager.js'
+import { ConfigMerger } from './core/ConfigMerger.js'
+import { ConfigInterpolator } from './core/ConfigInterpolator.js'
 import { VersionManager } from './core/VersionManager.js'
+import { PromotionManager } from './core/PromotionManager.js'
 import { RollbackManager } from './rollback/RollbackManager.js'
 import { GracefulShutdown } from './utils/graceful-shutdown.js'
 import { DockerfileGenerator } from './docker/DockerfileGenerator.js'
@@ -23,7 +26,10 @@ import { GitHubActions } from './cicd/GitHubActions.js'
 import { GitLabCI } from './cicd/GitLabCI.js'
 import { JenkinsPipeline } from './cicd/JenkinsPipeline.js'
 import { logger } from './utils/logger.js'
-import { writeFile } from './utils/file-system.js'
+import { writeFile, fileExists } from './utils/file-system.js'
+import { ApprovalError, FileSystemError } from './utils/errors.js'
+import type { LockTarget } from './utils/lock.js'
+import type { PluginManager } from './plugins/PluginManager.js'
 import type { Environment } from './types/index.js'
 
 const cli = cac('ldesign-deployer')
@@ -97,14 +103,20 @@ cli
  */
 cli
   .command('deploy', 'Deploy application')
-  .option('--env <environment>', 'Target environment', { default: 'development' })
+  .option('--env <environment>', 'Target environment (merges deploy.config.<env>.* overlay)')
+  .option('--region <region>', 'Target region (merges deploy.config.<env>.<region>.* overlay)')
   .option('--config <file>', 'Config file path')
   .option('--dry-run', 'Dry run mode')
   .option('--skip-health-check', 'Skip health check')
   .option('--skip-hooks', 'Skip pre/post hooks')
-  .option('--skip-pre-check', 'Skip pre-deployment checks')
+  .option('--skip-build', 'Deploy the already pushed image without building it (required for approved deployments)')
+  .option('--skip-pre-check', 'Skip environment pre-checks (deploy windows, freezes and policies are still enforced)')
   .option('--timeout <seconds>', 'Deployment timeout in seconds')
+  .option('--rollback-on-timeout', 'Roll back to the last successful deployment when the timeout cancels an applied deployment')
   .option('--retry', 'Enable retry on failure')
+  .option('--strategy <strategy>', 'Deployment strategy (rolling, bluegreen, canary)')
+  .option('--resume <deploymentId>', 'Resume an interrupted deployment from its checkpoint')
+  .option('--emergency <reason>', 'Emergency override of deploy windows and freezes (reason is required)')
   .option('--enhanced', 'Use enhanced deployer with all features', { default: true })
   .action(async (options) => {
     try {
@@ -112,6 +124,11 @@ cli
         logger.setLevel('debug')
       }
 
+      if (options.resume && !options.enhanced) {
+        logger.error('--resume requires the enhanced deployer')
+        process.exit(1)
+      }
+
       // 使用增强版或基础版
       const deployer = options.enhanced
         ? new EnhancedDeployer()
@@ -126,17 +143,23 @@ cli
 
       const deployOptions: any = {
         environment: options.env as Environment,
+        region: options.region,
         configFile: options.config,
         dryRun: options.dryRun,
         skipHealthCheck: options.skipHealthCheck,
         skipHooks: options.skipHooks,
+        skipBuild: options.skipBuild,
+        strategy: options.strategy,
       }
 
       // 增强选项
       if (deployer instanceof EnhancedDeployer) {
         deployOptions.skipPreCheck = options.skipPreCheck
         deployOptions.deploymentTimeout = options.timeout ? parseInt(options.timeout) * 1000 : undefined
+        deployOptions.rollbackOnTimeout = options.rollbackOnTimeout
         deployOptions.retryOnFailure = options.retry
+        deployOptions.resume = options.resume
+        deployOptions.emergencyReason = options.emergency === true ? '' : options.emergency
         deployOptions.enableAudit = true
         deployOptions.enableProgress = true
       }
@@ -161,7 +184,7 @@ cli
   .option('--revision <number>', 'K8s revision number')
   .action(async (version: string, options) => {
     try {
-      const rollbackManager = new RollbackManager()
+      const rollbackManager = new RollbackManager({ plugins: await loadPlugins() })
       const result = await rollbackManager.rollback({
         version,
         revision: options.revision,
@@ -177,6 +200,45 @@ cli
     }
   })
 
+/**
+ * promote 命令 - 将源环境的制品晋升到目标环境
+ */
+cli
+  .command('promote <from> <to>', 'Promote the last successful deployment to another environment')
+  .option('--config <file>', 'Config file path')
+  .option('--dry-run', 'Resolve the artifact without retagging or deploying')
+  .option('--skip-health-check', 'Skip health check')
+  .option('--skip-hooks', 'Skip pre/post hooks')
+  .option('--strategy <strategy>', 'Deployment strategy (rolling, bluegreen, canary)')
+  .option('--allow-tag-resolve', 'Resolve the digest from the image tag when the source deployment recorded none')
+  .action(async (from: string, to: string, options) => {
+    try {
+      const promotionManager = new PromotionManager({ configFile: options.config })
+      const result = await promotionManager.promote({
+        from: from as Environment,
+        to: to as Environment,
+        dryRun: options.dryRun,
+        skipHealthCheck: options.skipHealthCheck,
+        skipHooks: options.skipHooks,
+        strategy: options.strategy,
+        allowTagResolve: options.allowTagResolve,
+      })
+
+      if (result.provenance) {
+        logger.info(`Source deployment: ${result.provenance.sourceDeploymentId}`)
+        logger.info(`Image: ${result.provenance.image} (${result.provenance.digest})`)
+      }
+
+      if (!result.success) {
+        logger.error('Promotion failed')
+        process.exit(1)
+      }
+    } catch (error: any) {
+      logger.error('Promotion error:', error.message)
+      process.exit(1)
+    }
+  })
+
 /**
  * docker 命令组
  */
@@ -223,19 +285,99 @@ cli
     }
   })
 
+/**
+ * config 命令组
+ */
+cli
+  .command('config:resolve', 'Print the merged configuration and where each value comes from')
+  .option('--env <environment>', 'Target environment')
+  .option('--region <region>', 'Target region')
+  .option('--config <file>', 'Config file path')
+  .action(async (options) => {
+    try {
+      const configManager = new ConfigManager({
+        configFile: options.config,
+        environment: options.env as Environment,
+        region: options.region,
+      })
+      const resolved = await configManager.resolveConfig()
+
+      console.log(`# Files (in merge order)\n${resolved.files.join('\n')}\n`)
+      const config = ConfigInterpolator.mask(resolved.config, resolved.secretPaths)
+
+      console.log(`# Configuration\n${JSON.stringify(config, null, 2)}\n`)
+      console.log(`# Sources\n${ConfigMerger.formatSources(resolved)}`)
+    } catch (error: any) {
+      logger.error('Failed to resolve configuration:', error.message)
+      process.exit(1)
+    }
+  })
+
+/**
+ * policy:check 命令 - 部署策略检查
+ */
+cli
+  .command('policy:check', 'Evaluate deployment policies against the resolved config and manifests')
+  .option('--env <environment>', 'Target environment')
+  .option('--region <region>', 'Target region')
+  .option('--config <file>', 'Config file path')
+  .option('--sarif <file>', 'Write the results as SARIF')
+  .action(async (options) => {
+    try {
+      const { PolicyEngine, toSarif } = await import('./policy/index.js')
+      const resolved = await new ConfigManager({
+        configFile: options.config,
+        environment: options.env as Environment,
+        region: options.region,
+      }).resolveConfig()
+
+      const engine = await PolicyEngine.load(resolved.config)
+      const report = await engine.evaluate(resolved.config)
+
+      if (options.sarif) {
+        const configFile = resolved.files[0] ? relative(process.cwd(), resolved.files[0]) : undefined
+        await writeFile(options.sarif, JSON.stringify(toSarif(report, { configFile, version }), null, 2))
+        logger.info(`SARIF written to ${options.sarif}`)
+      }
+
+      if (report.rules.length === 0) {
+        logger.info('No policy rules found')
+        return
+      }
+
+      for (const violation of report.violations) {
+        const icon = violation.severity === 'error' ? '❌' : violation.severity === 'warning' ? '⚠️' : 'ℹ️'
+        const color = violation.severity === 'error' ? 'error' : violation.severity === 'warning' ? 'warn' : 'info'
+        logger[color](`${icon} [${violation.ruleId}] ${violation.message}`)
+      }
+
+      if (!report.passed) {
+        logger.error(`Policy check failed: ${report.violations.filter(v => v.severity === 'error').length} blocking violation(s)`)
+        process.exit(1)
+      }
+      logger.success(`✅ ${report.rules.length} rule(s) evaluated, no blocking violations`)
+    } catch (error: any) {
+      logger.error('Failed to check policies:', error.message)
+      process.exit(1)
+    }
+  })
+
 /**
  * k8s 命令组
  */
 cli
   .command('k8s:manifests', 'Generate Kubernetes manifests')
   .option('--config <file>', 'Config file path')
+  .option('--progressive-delivery <provider>', 'Controller for Canary/BlueGreen strategies (argo|flagger)', { default: 'argo' })
   .action(async (options) => {
     try {
       const configManager = new ConfigManager({ configFile: options.config })
       const config = await configManager.loadConfig()
 
       const generator = new ManifestGenerator()
-      const manifests = generator.generateAll(config)
+      const manifests = generator.generateAll(config, {
+        progressiveDelivery: options.progressiveDelivery,
+      })
 
       await writeFile('k8s-manifests.yml', manifests)
       logger.success('Kubernetes manifests generated')
@@ -351,25 +493,49 @@ cli
 /**
  * lock 命令组 - 锁管理
  */
+
+/**
+ * 从配置文件读取锁后端配置，没有配置文件时使用本地文件锁
+ */
+async function loadLockTarget(options: { config?: string }): Promise<LockTarget> {
+  try {
+    const { config } = await new ConfigManager({ configFile: options.config }).resolveConfig()
+    return { config: config.lock }
+  } catch (error) {
+    if (error instanceof FileSystemError && !options.config) {
+      return {}
+    }
+    throw error
+  }
+}
+
 cli
-  .command('lock:status', 'Check deployment lock status')
-  .action(async () => {
+  .command('lock:status', 'Show deployment locks and their owners')
+  .option('--config <file>', 'Config file path (selects the lock backend)')
+  .action(async (options) => {
     try {
       const { DeploymentLock } = await import('./utils/lock.js')
-      const isLocked = await DeploymentLock.isLocked()
-
-      if (isLocked) {
-        const lockInfo = await DeploymentLock.getLockInfo()
-        logger.warn('🔒 Deployment is locked')
-        if (lockInfo) {
-          logger.info(`  ID: ${lockInfo.id}`)
-          logger.info(`  PID: ${lockInfo.pid}`)
-          logger.info(`  Operation: ${lockInfo.operation}`)
-          logger.info(`  User: ${lockInfo.user}`)
-          logger.info(`  Started: ${new Date(lockInfo.timestamp).toLocaleString()}`)
-        }
-      } else {
+      const { formatLockOwner } = await import('./lock/LockBackend.js')
+      const locks = await DeploymentLock.listLocks(await loadLockTarget(options))
+
+      if (locks.length === 0) {
         logger.success('🔓 No deployment lock found')
+        return
+      }
+
+      logger.warn(`🔒 ${locks.length} deployment lock(s) held`)
+      for (const lock of locks) {
+        logger.info(`  ${lock.key}`)
+        logger.info(`    Owner: ${formatLockOwner(lock)}`)
+        logger.info(`    ID: ${lock.id}`)
+        logger.info(`    Operation: ${lock.operation}`)
+        logger.info(`    Started: ${new Date(lock.timestamp).toLocaleString()}`)
+        if (lock.expiresAt) {
+          logger.info(`    Expires: ${new Date(lock.expiresAt).toLocaleString()}`)
+        }
+        if (lock.token !== undefined) {
+          logger.info(`    Fencing token: ${lock.token}`)
+        }
       }
     } catch (error: any) {
       logger.error('Failed to check lock status:', error.message)
@@ -378,11 +544,23 @@ cli
   })
 
 cli
-  .command('lock:release', 'Force release deployment lock')
-  .action(async () => {
+  .command('lock:release', 'Force release deployment locks')
+  .option('--app <name>', 'Only release the lock of this app (requires --env)')
+  .option('--env <environment>', 'Only release the lock of this environment')
+  .option('--config <file>', 'Config file path (selects the lock backend)')
+  .action(async (options) => {
     try {
       const { DeploymentLock } = await import('./utils/lock.js')
-      await DeploymentLock.forceRelease()
+      const target = await loadLockTarget(options)
+
+      if (options.app || options.env) {
+        if (!options.app || !options.env) {
+          throw new Error('--app and --env must be used together')
+        }
+        target.scope = { app: options.app, environment: options.env }
+      }
+
+      await DeploymentLock.forceRelease(target)
       logger.success('🔓 Lock released successfully')
     } catch (error: any) {
       logger.error('Failed to release lock:', error.message)
@@ -390,6 +568,194 @@ cli
     }
   })
 
+/**
+ * approval 命令组 - 部署审批
+ */
+
+/**
+ * 根据配置文件创建审批管理器，审批请求存储由配置中的 approvals.store 决定
+ */
+async function loadApprovalManager(options: { config?: string; env?: string }) {
+  const { ApprovalManager } = await import('./approvals/ApprovalManager.js')
+  const { config } = await new ConfigManager({
+    configFile: options.config,
+    environment: options.env as Environment | undefined,
+  }).resolveConfig()
+
+  return new ApprovalManager({ config: config.approvals })
+}
+
+/**
+ * 为审批决定创建审批管理器：先读取请求，再按请求的目标环境加载配置（含环境覆盖配置中的 approvals）
+ *
+ * @throws {ApprovalError} 请求不存在
+ */
+async function loadApprovalManagerForRequest(id: string, options: { config?: string }) {
+  const request = await (await loadApprovalManager(options)).get(id)
+  if (!request) {
+    throw new ApprovalError(`Approval request not found: ${id}`, {
+      requestId: id,
+      suggestion: '使用 ldesign-deployer approvals:list 查看审批请求',
+    })
+  }
+
+  return loadApprovalManager({ ...options, env: request.environment })
+}
+
+cli
+  .command('approvals:token <user>', 'Generate an approval token for a user')
+  .action(async (user: string) => {
+    const { ApprovalManager } = await import('./approvals/ApprovalManager.js')
+    const { token, hash } = ApprovalManager.createToken()
+
+    logger.info(`Add to approvals.identities: "${user}": "${hash}"`)
+    logger.info(`Give ${user} the token (set as DEPLOYER_APPROVAL_TOKEN): ${token}`)
+  })
+
+cli
+  .command('approvals:list', 'List deployment approval requests')
+  .option('--env <environment>', 'Only show requests for this environment')
+  .option('--all', 'Include approved, rejected, expired and used requests')
+  .option('--config <file>', 'Config file path')
+  .action(async (options) => {
+    try {
+      const manager = await loadApprovalManager(options)
+      const requests = await manager.list({
+        environment: options.env as Environment | undefined,
+        status: options.all ? undefined : 'pending',
+      })
+
+      if (requests.length === 0) {
+        logger.info(options.all ? 'No approval requests found' : 'No pending approval requests')
+        return
+      }
+
+      for (const request of requests) {
+        const approvers = request.decisions.filter(decision => decision.decision === 'approve')
+        logger.info(`${request.id}  ${request.name}@${request.version} → ${request.environment}  [${request.status}]`)
+        logger.info(`  Requested by ${request.requestedBy} at ${new Date(request.requestedAt).toLocaleString()}`)
+        for (const [name, digest] of Object.entries(request.digests || {})) {
+          logger.info(`  Image ${name}: ${digest}`)
+        }
+        logger.info(`  Expires: ${new Date(request.expiresAt).toLocaleString()}`)
+        logger.info(`  Approvals: ${approvers.map(decision => decision.user).join(', ') || '-'}`)
+        if (request.eligibleApprovers) {
+          logger.info(`  Approvers: ${request.eligibleApprovers.join(', ')}`)
+        }
+        for (const decision of request.decisions.filter(decision => decision.comment)) {
+          logger.info(`  ${decision.user} (${decision.decision}): ${decision.comment}`)
+        }
+      }
+    } catch (error: any) {
+      logger.error('Failed to list approval requests:', error.message)
+      process.exit(1)
+    }
+  })
+
+cli
+  .command('approve <id>', 'Approve a deployment request')
+  .option('--comment <text>', 'Approval comment')
+  .option('--config <file>', 'Config file path')
+  .action(async (id: string, options) => {
+    try {
+      const manager = await loadApprovalManagerForRequest(id, options)
+      const request = await manager.approve(id, options.comment)
+
+      if (request.status === 'approved') {
+        logger.success(`✅ ${request.name}@${request.version} is approved for ${request.environment}`)
+      } else {
+        logger.success('👍 Approval recorded, waiting for more approvers')
+      }
+    } catch (error: any) {
+      logger.error('Failed to approve:', error.message)
+      process.exit(1)
+    }
+  })
+
+cli
+  .command('reject <id>', 'Reject a deployment request')
+  .option('--comment <text>', 'Rejection reason')
+  .option('--config <file>', 'Config file path')
+  .action(async (id: string, options) => {
+    try {
+      const manager = await loadApprovalManagerForRequest(id, options)
+      const request = await manager.reject(id, options.comment)
+      logger.warn(`⛔ Deployment of ${request.name}@${request.version} to ${request.environment} rejected`)
+    } catch (error: any) {
+      logger.error('Failed to reject:', error.message)
+      process.exit(1)
+    }
+  })
+
+/**
+ * calendar 命令 - 部署窗口与冻结期
+ */
+cli
+  .command('calendar', 'Show upcoming deploy windows and freezes')
+  .option('--env <environment>', 'Target environment (defaults to the configured environment)')
+  .option('--days <days>', 'Number of days to show', { default: 7 })
+  .option('--config <file>', 'Config file path')
+  .action(async (options) => {
+    try {
+      const { DeployCalendar } = await import('./core/DeployCalendar.js')
+      const { toZonedTime, formatZonedTime } = await import('./utils/cron.js')
+      const { config } = await new ConfigManager({
+        configFile: options.config,
+        environment: options.env as Environment | undefined,
+      }).resolveConfig()
+
+      const environment = config.environment
+      const calendar = new DeployCalendar(config)
+      const format = (date: Date) => {
+        const time = toZonedTime(date, calendar.timezone)
+        return `${date.toLocaleDateString('en-US', { weekday: 'short', timeZone: calendar.timezone })} ${formatZonedTime(time).replace('T', ' ')}`
+      }
+
+      logger.info(`📅 Deploy calendar for ${environment} (${calendar.timezone})`)
+
+      const status = calendar.check(environment)
+      if (status.allowed) {
+        logger.success(`✅ Deployments are allowed now${status.window?.name ? ` (${status.window.name})` : ''}`)
+      }
+      for (const violation of status.violations) {
+        logger[violation.enforcement === 'block' ? 'error' : 'warn'](`${violation.enforcement === 'block' ? '⛔' : '⚠️'} ${violation.message}`)
+      }
+
+      const freezes = calendar.getFreezes(environment)
+      logger.info('\nFreezes:')
+      if (freezes.length === 0) {
+        logger.info('  (none)')
+      }
+      for (const freeze of freezes) {
+        logger.info(`  ${freeze.enforcement === 'warn' ? '⚠️' : '⛔'} ${freeze.name}: ${freeze.start} → ${freeze.end}` +
+          `${freeze.timezone ? ` (${freeze.timezone})` : ''}${freeze.reason ? ` - ${freeze.reason}` : ''}`)
+      }
+
+      const windows = calendar.getWindows(environment)
+      logger.info('\nDeploy windows:')
+      if (windows.length === 0) {
+        logger.info('  (none, deployments are allowed at any time outside freezes)')
+        return
+      }
+      for (const window of windows) {
+        logger.info(`  ${window.name || 'window'}: ${window.cron}${window.timezone ? ` (${window.timezone})` : ''}`)
+      }
+
+      const days = parseInt(options.days)
+      const slots = calendar.getUpcomingSlots(environment, new Date(), days)
+      logger.info(`\nUpcoming slots (next ${days} days):`)
+      if (slots.length === 0) {
+        logger.warn('  No deploy slots available')
+      }
+      for (const slot of slots) {
+        logger.info(`  ${format(slot.start)} → ${format(slot.end)}  ${slot.windows.join(', ')}`)
+      }
+    } catch (error: any) {
+      logger.error('Failed to show calendar:', error.message)
+      process.exit(1)
+    }
+  })
+
 /**
  * audit 命令组 - 审计日志
  */
@@ -510,15 +876,12 @@ cli
       logger.info('\n📊 Deployment Status:')
       logger.info('='.repeat(60))
 
-      const isLocked = await DeploymentLock.isLocked()
-      logger.info(`Lock status: ${isLocked ? '🔒 Locked' : '🔓 Unlocked'}`)
+      const locks = await DeploymentLock.listLocks(await loadLockTarget({}))
+      logger.info(`Lock status: ${locks.length > 0 ? '🔒 Locked' : '🔓 Unlocked'}`)
 
-      if (isLocked) {
-        const lockInfo = await DeploymentLock.getLockInfo()
-        if (lockInfo) {
-          logger.info(`Current deployment: ${lockInfo.operation}`)
-          logger.info(`Started: ${new Date(lockInfo.timestamp).toLocaleString()}`)
-        }
+      for (const lock of locks) {
+        logger.info(`Current deployment: ${lock.operation} ${lock.key}`)
+        logger.info(`Started: ${new Date(lock.timestamp).toLocaleString()}`)
       }
 
       logger.info('='.repeat(60) + '\n')
@@ -619,11 +982,11 @@ cli
   .option('--name <name>', 'Application name', { default: 'my-app' })
   .option('--version <version>', 'Application version', { default: '1.0.0' })
   .option('--port <port>', 'Application port')
-  .option('--output <file>', 'Output file', { default: 'deploy.config.json' })
+  .option('--output <file>', 'Output file (.json, .yaml, .yml or .toml)', { default: 'deploy.config.json' })
   .action(async (id: string, options) => {
     try {
       const { TemplateRegistry, initializeMarketplace } = await import('./templates/index.js')
-      const { writeFile } = await import('./utils/file-system.js')
+      const { writeConfigDocument } = await import('./utils/config-format.js')
 
       // 初始化模板市场
       initializeMarketplace()
@@ -638,7 +1001,7 @@ cli
         port: options.port ? parseInt(options.port) : undefined,
       })
 
-      await writeFile(options.output, JSON.stringify(config, null, 2))
+      await writeConfigDocument(options.output, config)
       logger.success(`✅ Configuration created: ${options.output}`)
       logger.info(`📝 Application: ${config.name}`)
       logger.info(`🚀 Platform: ${config.platform}`)
@@ -827,6 +1190,113 @@ cli
     }
   })
 
+/**
+ * bluegreen 命令组 - 蓝绿发布切换
+ */
+cli
+  .command('bluegreen:status [app]', 'Show pending blue-green promotions')
+  .option('--namespace <namespace>', 'Kubernetes namespace', { default: 'default' })
+  .action(async (app: string | undefined, options) => {
+    try {
+      const { BlueGreenStrategy } = await import('./strategies/index.js')
+
+      const strategy = new BlueGreenStrategy()
+      const pending = await strategy.getPending(app, options.namespace)
+
+      if (pending.length === 0) {
+        logger.info('No pending blue-green promotions')
+        return
+      }
+
+      logger.info(`\n🔵🟢 Pending promotions (${pending.length}):\n`)
+      pending.forEach((p, i) => {
+        logger.info(`${i + 1}. ${p.namespace}/${p.appName}`)
+        logger.info(`   Active: ${p.activeColor}`)
+        logger.info(`   Pending: ${p.targetColor} (${p.targetVersion})`)
+        logger.info(`   Preview: ${p.previewService}`)
+        logger.info(`   Mode: ${p.mode}${p.scheduledAt ? ` at ${new Date(p.scheduledAt).toLocaleString()}` : ''}`)
+        logger.info(`   Created: ${new Date(p.createdAt).toLocaleString()}`)
+        logger.info('')
+      })
+    } catch (error: any) {
+      logger.error('Failed to get blue-green status:', error.message)
+      process.exit(1)
+    }
+  })
+
+cli
+  .command('bluegreen:promote <app>', 'Switch traffic to the pending blue-green environment')
+  .option('--namespace <namespace>', 'Kubernetes namespace', { default: 'default' })
+  .action(async (app: string, options) => {
+    try {
+      const { BlueGreenStrategy } = await import('./strategies/index.js')
+
+      const result = await new BlueGreenStrategy().promote(app, options.namespace)
+      // 切换完成后记录部署历史并使用批准
+      await new Deployer().completePromotion(result)
+      logger.success(`✅ ${result.message}`)
+    } catch (error: any) {
+      logger.error('Blue-green promotion failed:', error.message)
+      process.exit(1)
+    }
+  })
+
+cli
+  .command('bluegreen:run-scheduled [app]', 'Run scheduled blue-green switches that are due (e.g. from cron)')
+  .option('--namespace <namespace>', 'Kubernetes namespace', { default: 'default' })
+  .option('--wait', 'Keep running until the remaining scheduled switches are due')
+  .action(async (app: string | undefined, options) => {
+    try {
+      const { BlueGreenStrategy } = await import('./strategies/index.js')
+
+      const results = await new BlueGreenStrategy().runScheduled({
+        appName: app,
+        namespace: options.namespace,
+        wait: options.wait,
+      })
+
+      if (results.length === 0) {
+        logger.info('No scheduled blue-green switches are due')
+        return
+      }
+
+      const deployer = new Deployer()
+      for (const result of results) {
+        await deployer.completePromotion(result)
+      }
+
+      results.forEach(result => {
+        if (result.success) {
+          logger.success(`✅ ${result.message}`)
+        } else {
+          logger.error(`❌ ${result.message}`)
+        }
+      })
+
+      if (results.some(result => !result.success)) {
+        process.exit(1)
+      }
+    } catch (error: any) {
+      logger.error('Failed to run scheduled blue-green switches:', error.message)
+      process.exit(1)
+    }
+  })
+
+cli
+  .command('bluegreen:abort <app>', 'Abort the pending blue-green promotion')
+  .option('--namespace <namespace>', 'Kubernetes namespace', { default: 'default' })
+  .action(async (app: string, options) => {
+    try {
+      const { BlueGreenStrategy } = await import('./strategies/index.js')
+
+      const result = await new BlueGreenStrategy().abort(app, options.namespace)
+      logger.success(`✅ ${result.message}`)
+    } catch (error: any) {
+      logger.error('Blue-green abort failed:', error.message)
+      process.exit(1)
+    }
+  })
+
 /**
  * backup 命令组 - 备份管理
  */
@@ -984,7 +1454,7 @@ cli
   .action(async (file: string, options) => {
     try {
       const { ConfigFileEncryptor } = await import('./utils/encryption.js')
-      const { readFile, writeFile } = await import('./utils/file-system.js')
+      const { readConfigDocument, writeConfigDocument } = await import('./utils/config-format.js')
 
       const password = options.password || process.env.DEPLOY_ENCRYPT_KEY
       if (!password) {
@@ -992,14 +1462,14 @@ cli
         process.exit(1)
       }
 
-      const content = await readFile(file)
-      const config = JSON.parse(content)
+      const document = await readConfigDocument(file)
 
       const encryptor = new ConfigFileEncryptor(password)
-      const encrypted = encryptor.encryptSensitive(config)
+      const encrypted = encryptor.encryptSensitive(document.data)
 
-      const output = options.output || file.replace('.json', '.encrypted.json')
-      await writeFile(output, JSON.stringify(encrypted, null, 2))
+      const ext = extname(file)
+      const output = options.output || `${file.slice(0, file.length - ext.length)}.encrypted${ext}`
+      await writeConfigDocument(output, encrypted, document.comments)
 
       logger.success(`✅ Encrypted config saved to: ${output}`)
     } catch (error: any) {
@@ -1015,7 +1485,7 @@ cli
   .action(async (file: string, options) => {
     try {
       const { ConfigFileEncryptor } = await import('./utils/encryption.js')
-      const { readFile, writeFile } = await import('./utils/file-system.js')
+      const { readConfigDocument, writeConfigDocument } = await import('./utils/config-format.js')
 
       const password = options.password || process.env.DEPLOY_ENCRYPT_KEY
       if (!password) {
@@ -1023,14 +1493,13 @@ cli
         process.exit(1)
       }
 
-      const content = await readFile(file)
-      const config = JSON.parse(content)
+      const document = await readConfigDocument(file)
 
       const encryptor = new ConfigFileEncryptor(password)
-      const decrypted = encryptor.decryptSensitive(config)
+      const decrypted = encryptor.decryptSensitive(document.data)
 
-      const output = options.output || file.replace('.encrypted.json', '.decrypted.json')
-      await writeFile(output, JSON.stringify(decrypted, null, 2))
+      const output = options.output || file.replace(/\.encrypted(\.\w+)$/, '.decrypted$1')
+      await writeConfigDocument(output, decrypted, document.comments)
 
       logger.success(`✅ Decrypted config saved to: ${output}`)
     } catch (error: any) {
@@ -1039,6 +1508,107 @@ cli
     }
   })
 
+/**
+ * plugins 命令组 - 插件
+ */
+
+/**
+ * 加载配置文件中的插件
+ *
+ * @description 只读取基础配置文件（默认当前目录的 deploy.config.*）中的 plugins，
+ * 未找到配置文件或读取失败时返回空的插件管理器
+ */
+async function loadPlugins(options: { config?: string } = {}): Promise<PluginManager> {
+  const { PluginManager } = await import('./plugins/PluginManager.js')
+  const { readConfigDocument } = await import('./utils/config-format.js')
+  const manager = new PluginManager()
+
+  const file = options.config
+    ? resolve(options.config)
+    : CONFIG_EXTENSIONS.map(extension => resolve(`deploy.config${extension}`)).find(path => fileExists(path))
+  if (!file) {
+    return manager
+  }
+
+  try {
+    const { data } = await readConfigDocument(file)
+    const config = typeof data === 'function'
+      ? await new ConfigManager({ configFile: file }).loadConfig()
+      : data
+    await manager.load(config?.plugins)
+  } catch (error: any) {
+    logger.debug(`Failed to load plugins from ${file}: ${error.message}`)
+  }
+
+  return manager
+}
+
+/**
+ * 注册插件提供的命令，与内置命令同名的命令被跳过
+ *
+ * @description 只有命令行指定了内置命令以外的命令时才加载配置中的插件，
+ * 避免 --help、init 等命令执行项目配置
+ */
+async function registerPluginCommands(argv: string[]): Promise<void> {
+  const requested = argv.slice(2).find(arg => !arg.startsWith('-'))
+  if (!requested || cli.commands.some(existing => existing.isMatched(requested))) {
+    return
+  }
+
+  const plugins = await loadPlugins()
+
+  for (const command of plugins.getCommands()) {
+    const name = command.name.split(' ')[0]
+    if (cli.commands.some(existing => existing.name === name)) {
+      logger.warn(`Plugin command ${name} conflicts with an existing command and was skipped`)
+      continue
+    }
+
+    const registered = cli.command(command.name, command.description)
+    command.options?.forEach(option => registered.option(option.name, option.description, { default: option.default }))
+    registered.action(async (...args: any[]) => {
+      try {
+        await command.action(...args)
+      } catch (error: any) {
+        logger.error(`Command ${name} failed:`, error.message)
+        process.exit(1)
+      }
+    })
+  }
+}
+
+cli
+  .command('plugins', 'List loaded plugins and what they register')
+  .option('--config <file>', 'Config file path')
+  .action(async (options) => {
+    try {
+      const plugins = await loadPlugins(options)
+      const loaded = plugins.getPlugins()
+
+      if (loaded.length === 0 && plugins.getFailures().length === 0) {
+        logger.info('No plugins configured')
+        return
+      }
+
+      logger.info(`🔌 Plugins (${loaded.length}):`)
+      for (const plugin of loaded) {
+        logger.info(`   ${plugin.name}`)
+      }
+
+      const commands = plugins.getCommands()
+      if (commands.length > 0) {
+        logger.info(`\nCommands: ${commands.map(command => command.name.split(' ')[0]).join(', ')}`)
+      }
+
+      for (const failure of plugins.getFailures()) {
+        logger.warn(`⚠️  ${failure.plugin} (${failure.hook}): ${failure.error}`)
+      }
+    } catch (error: any) {
+      logger.error('Failed to list plugins:', error.message)
+      process.exit(1)
+    }
+  })
+
 /**
  * 运行 CLI
  */
@@ -1047,6 +1617,9 @@ export async function run(): Promise<void> {
     // 初始化优雅退出
     GracefulShutdown.init()
 
+    // 插件命令需要在解析参数前注册
+    await registerPluginCommands(process.argv)
+
     cli.parse(process.argv, { run: true })
   } catch (error: any) {
     logger.error('CLI error:', error.message)
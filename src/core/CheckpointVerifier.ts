@@ -0,0 +1,161 @@
+/**
+ * 检查点校验器
+ * @module core/CheckpointVerifier
+ *
+ * @description 记录部署阶段的产物（构建的镜像 ID、推送后的镜像摘要、已应用的 Deployment），
+ * 恢复部署时确认这些产物仍然存在，避免跳过实际上已经失效的阶段
+ */
+
+import { exec } from 'child_process'
+import { promisify } from 'util'
+import { ImageBuilder } from '../docker/ImageBuilder.js'
+import { DeploymentPhase } from '../utils/progress.js'
+import { logger } from '../utils/logger.js'
+import type { CommandExecutor } from '../kubernetes/DeploymentManager.js'
+import type { DeployConfig } from '../types/index.js'
+
+const execAsync = promisify(exec)
+
+/**
+ * 检查点校验器类
+ *
+ * @example
+ * ```typescript
+ * const verifier = new CheckpointVerifier();
+ *
+ * // 阶段完成后记录产物
+ * const artifacts = await verifier.capture(DeploymentPhase.PUSH, config);
+ *
+ * // 恢复时校验，返回失效原因，产物有效时返回 null
+ * const reason = await verifier.verify(DeploymentPhase.PUSH, config, artifacts);
+ * ```
+ */
+export class CheckpointVerifier {
+  private executor: CommandExecutor
+
+  constructor(executor: CommandExecutor = execAsync) {
+    this.executor = executor
+  }
+
+  /**
+   * 记录阶段产物
+   *
+   * @returns 产物信息，阶段没有可校验的产物或无法获取时返回 undefined
+   */
+  async capture(phase: DeploymentPhase, config: DeployConfig): Promise<Record<string, string> | undefined> {
+    try {
+      switch (phase) {
+        case DeploymentPhase.BUILD: {
+          const image = this.getLocalImage(config)
+          return { image, imageId: await this.inspectImageId(image) }
+        }
+        case DeploymentPhase.PUSH: {
+          const image = ImageBuilder.getImageReference(config)
+          const digest = await this.inspectDigest(image)
+          return digest ? { image, digest } : { image }
+        }
+        case DeploymentPhase.DEPLOY:
+          if (config.platform === 'kubernetes') {
+            return { deployment: config.name, uid: await this.getDeploymentUid(config) }
+          }
+          return undefined
+        default:
+          return undefined
+      }
+    } catch (error: any) {
+      logger.debug(`Failed to capture ${phase} artifacts: ${error.message}`)
+      return undefined
+    }
+  }
+
+  /**
+   * 校验阶段产物是否仍然有效
+   *
+   * @returns 失效原因，产物有效或没有记录产物时返回 null
+   */
+  async verify(
+    phase: DeploymentPhase,
+    config: DeployConfig,
+    artifacts?: Record<string, string>
+  ): Promise<string | null> {
+    if (!artifacts) {
+      return null
+    }
+
+    switch (phase) {
+      case DeploymentPhase.BUILD: {
+        const imageId = await this.inspectImageId(artifacts.image).catch(() => null)
+        if (!imageId) {
+          return `image ${artifacts.image} no longer exists`
+        }
+        return imageId === artifacts.imageId ? null : `image ${artifacts.image} has been rebuilt`
+      }
+      case DeploymentPhase.PUSH: {
+        const reference = artifacts.digest
+          ? `${this.getRepository(artifacts.image)}@${artifacts.digest}`
+          : artifacts.image
+        try {
+          await this.executor(`docker manifest inspect ${reference}`)
+          return null
+        } catch {
+          return `image ${reference} not found in registry`
+        }
+      }
+      case DeploymentPhase.DEPLOY: {
+        const uid = await this.getDeploymentUid(config).catch(() => null)
+        if (!uid) {
+          return `deployment ${artifacts.deployment} not found`
+        }
+        return uid === artifacts.uid ? null : `deployment ${artifacts.deployment} has been recreated`
+      }
+      default:
+        return null
+    }
+  }
+
+  /**
+   * 本地构建的镜像（与 Deployer 构建时使用的标签一致）
+   */
+  private getLocalImage(config: DeployConfig): string {
+    return `${config.docker?.image || config.name}:${config.docker?.tag || config.version}`
+  }
+
+  /**
+   * 去掉标签的仓库名（registry.example.com:5000/shop:1.0.0 → registry.example.com:5000/shop）
+   */
+  private getRepository(image: string): string {
+    const slash = image.lastIndexOf('/')
+    const colon = image.lastIndexOf(':')
+
+    return colon > slash ? image.slice(0, colon) : image
+  }
+
+  private async inspectImageId(image: string): Promise<string> {
+    const { stdout } = await this.executor(`docker image inspect -f '{{.Id}}' ${image}`)
+    return stdout.trim()
+  }
+
+  /**
+   * 推送后镜像的仓库摘要（sha256:...）
+   */
+  private async inspectDigest(image: string): Promise<string | undefined> {
+    const { stdout } = await this.executor(`docker image inspect -f '{{range .RepoDigests}}{{.}} {{end}}' ${image}`)
+    const repository = this.getRepository(image)
+    const repoDigest = stdout.split(/\s+/).find(entry => entry.startsWith(`${repository}@`))
+
+    return repoDigest?.slice(repository.length + 1)
+  }
+
+  private async getDeploymentUid(config: DeployConfig): Promise<string> {
+    const args = ['kubectl', 'get', 'deployment', config.name, '-n', config.kubernetes?.namespace || 'default']
+
+    if (config.kubernetes?.context) {
+      args.push('--context', config.kubernetes.context)
+    }
+
+    args.push('-o', `jsonpath='{.metadata.uid}'`)
+
+    const { stdout } = await this.executor(args.join(' '))
+    return stdout.trim()
+  }
+}
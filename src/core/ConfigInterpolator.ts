@@ -0,0 +1,405 @@
+/**
+ * 配置插值
+ * @module core/ConfigInterpolator
+ *
+ * @description 在验证之前解析配置字符串中的 `${...}` 占位符：
+ * - `${env:NAME}` 环境变量
+ * - `${secret:name}` 通过 SecretManager 解密的密钥
+ * - `${git.commit}` / `${git.branch}` / `${git.tag}` 当前仓库的 Git 信息
+ * - `${version}`、`${docker.image}`、`${env[0].value}` 等引用配置中的其他值
+ *
+ * 任一占位符都可以用 `:-` 指定默认值，例如 `${env:REGISTRY:-docker.io}`；`$${...}` 输出字面量 `${...}`。
+ * 字符串整体为单个引用时保留被引用值的类型。密钥及引用密钥得到的值记录在 secretPaths 中，用于遮蔽输出。
+ * 持久化配置（部署历史、检查点、待切换记录）前用 toReferences 把密钥值换回 `${secret:name}` 引用；
+ * 引用只对插值得到的配置（及用 bindReferences 派生的配置）有效，不同配置之间互不影响
+ */
+
+import { ConfigError } from '../utils/errors.js'
+import type { ConfigContext } from '../types/index.js'
+
+/**
+ * 密钥解析函数，密钥不存在时返回 null
+ */
+export type SecretResolver = (name: string) => Promise<string | null>
+
+/**
+ * 插值选项
+ */
+export interface ConfigInterpolatorOptions {
+  /** 环境变量与 Git 信息 */
+  context: Pick<ConfigContext, 'env' | 'git'>
+  /** 解析 ${secret:name}，未提供时使用密钥占位符会报错 */
+  resolveSecret?: SecretResolver
+}
+
+/**
+ * 插值结果
+ */
+export interface InterpolatedConfig {
+  config: Record<string, any>
+  /** 值来自密钥的路径（如 database.password、env[2].value） */
+  secretPaths: string[]
+  /** 解密得到的密钥值，用于在日志中遮蔽 */
+  secretValues: string[]
+}
+
+/**
+ * 遮蔽后显示的内容
+ */
+export const MASKED_VALUE = '******'
+
+/**
+ * 密钥路径上的完整字符串 -> 可持久化的引用形式（如 `postgres://app:${secret:db}@db`）
+ */
+type SecretReferences = Map<string, string>
+
+/**
+ * 插值结果中的每个对象与数组 -> 所属配置的密钥引用，配置被回收后自动释放
+ */
+const configReferences = new WeakMap<object, SecretReferences>()
+
+const PLACEHOLDER = /\$(\$)?\{([^{}]*)\}/g
+const SINGLE_PLACEHOLDER = /^\$\{([^{}]*)\}$/
+const GIT_FIELDS = ['commit', 'branch', 'tag'] as const
+
+type PathSegment = string | number
+
+/**
+ * 配置插值器类
+ *
+ * @example
+ * ```typescript
+ * const interpolator = new ConfigInterpolator({ context: { env: process.env, git } });
+ * const { config, secretPaths } = await interpolator.interpolate({
+ *   docker: { image: 'shop', tag: '${git.commit}' },
+ *   kubernetes: { deployment: { image: '${docker.image}:${docker.tag}' } },
+ * });
+ * ```
+ */
+export class ConfigInterpolator {
+  private options: ConfigInterpolatorOptions
+  private root: Record<string, any> = {}
+  private resolved = new Set<string>()
+  private resolving: string[] = []
+  private secretPaths = new Set<string>()
+  private secretValues = new Set<string>()
+  private references: SecretReferences = new Map()
+
+  constructor(options: ConfigInterpolatorOptions) {
+    this.options = options
+  }
+
+  /**
+   * 解析配置中的全部占位符，不修改传入的配置
+   *
+   * @throws {ConfigError} 引用无法解析（且没有默认值）或存在循环引用
+   */
+  async interpolate(config: Record<string, any>): Promise<InterpolatedConfig> {
+    this.root = JSON.parse(JSON.stringify(config))
+    this.resolved.clear()
+    this.resolving = []
+    this.secretPaths.clear()
+    this.secretValues.clear()
+    this.references = new Map()
+
+    for (const key of Object.keys(this.root)) {
+      await this.resolvePath([key])
+    }
+
+    bindTree(this.root, this.references)
+
+    return { config: this.root, secretPaths: [...this.secretPaths], secretValues: [...this.secretValues] }
+  }
+
+  /**
+   * 返回将指定路径替换为遮蔽内容的配置副本
+   */
+  static mask<T>(config: T, secretPaths: string[]): T {
+    const masked: any = JSON.parse(JSON.stringify(config))
+
+    for (const path of secretPaths) {
+      const segments = parsePath(path)
+      const parent = getAt(masked, segments.slice(0, -1))
+
+      if (parent && typeof parent === 'object' && segments[segments.length - 1] in parent) {
+        parent[segments[segments.length - 1]] = MASKED_VALUE
+      }
+    }
+
+    return masked
+  }
+
+  /**
+   * 让由配置派生的对象（校验后的副本、策略配置等）沿用来源配置的密钥引用
+   */
+  static bindReferences<T extends object>(target: T, source: object): T {
+    const references = configReferences.get(source)
+    if (references) {
+      bindTree(target, references)
+    }
+    return target
+  }
+
+  /**
+   * 返回可持久化的副本：与所含配置中某个密钥值完全相同的字符串替换为引用形式，其余的 `${` 转义为 `$${`
+   *
+   * @description 只替换整个字符串，不替换子串；副本再次插值（ConfigManager.resolveReferences）后与原值相同，
+   * 磁盘上只保留密钥引用
+   */
+  static toReferences<T>(value: T): T {
+    const references: SecretReferences = new Map()
+    collectReferences(value, references)
+    return replaceSecrets(value, references)
+  }
+
+  /**
+   * 解析指定路径下的所有字符串，路径出现在解析栈中时说明存在循环引用
+   */
+  private async resolvePath(segments: PathSegment[]): Promise<void> {
+    const path = formatPath(segments)
+
+    if (this.resolved.has(path)) {
+      return
+    }
+
+    if (this.resolving.includes(path)) {
+      const cycle = [...this.resolving.slice(this.resolving.indexOf(path)), path]
+      throw new ConfigError(`配置存在循环引用: ${cycle.join(' → ')}`, {
+        details: { path, cycle },
+        suggestion: '请检查 ${...} 引用，确保引用链不会回到自身',
+      })
+    }
+
+    this.resolving.push(path)
+
+    const value = getAt(this.root, segments)
+
+    if (typeof value === 'string') {
+      const parent = getAt(this.root, segments.slice(0, -1))
+      parent[segments[segments.length - 1]] = await this.resolveString(value, path)
+    } else if (Array.isArray(value)) {
+      for (let index = 0; index < value.length; index++) {
+        await this.resolvePath([...segments, index])
+      }
+    } else if (value && typeof value === 'object') {
+      for (const key of Object.keys(value)) {
+        await this.resolvePath([...segments, key])
+      }
+    }
+
+    this.resolving.pop()
+    this.resolved.add(path)
+  }
+
+  /**
+   * 解析字符串中的占位符
+   */
+  private async resolveString(value: string, path: string): Promise<any> {
+    const single = SINGLE_PLACEHOLDER.exec(value)
+    if (single) {
+      const { value: resolved, secret } = await this.resolveExpression(single[1].trim(), path)
+      if (secret && typeof resolved === 'string') {
+        this.references.set(resolved, this.toReference(single[1].trim(), resolved))
+      }
+      return resolved
+    }
+
+    // 同时拼出引用形式：密钥部分保留引用，其余部分转义
+    let result = ''
+    let reference = ''
+    let secret = false
+    let lastIndex = 0
+
+    for (const match of value.matchAll(PLACEHOLDER)) {
+      const literal = value.slice(lastIndex, match.index)
+      result += literal
+      reference += escapePlaceholders(literal)
+      lastIndex = match.index! + match[0].length
+
+      if (match[1]) {
+        result += match[0].slice(1)
+        reference += match[0]
+        continue
+      }
+
+      const expression = match[2].trim()
+      const resolved = await this.resolveExpression(expression, path)
+
+      if (resolved.value !== null && typeof resolved.value === 'object') {
+        throw new ConfigError(`无法将对象嵌入字符串: \${${expression}}`, {
+          details: { path, expression },
+          suggestion: '只能在字符串中引用字符串、数字或布尔值',
+        })
+      }
+
+      const text = String(resolved.value)
+      result += text
+      reference += resolved.secret ? this.toReference(expression, text) : escapePlaceholders(text)
+      secret ||= resolved.secret
+    }
+
+    const tail = value.slice(lastIndex)
+    result += tail
+
+    if (secret) {
+      this.references.set(result, reference + escapePlaceholders(tail))
+    }
+
+    return result
+  }
+
+  /**
+   * 密钥值的引用形式：`${secret:name}` 保持原样，引用其他密钥路径时沿用该路径的引用形式
+   */
+  private toReference(expression: string, value: string): string {
+    if (expression.startsWith('secret:')) {
+      return `\${${expression}}`
+    }
+    return this.references.get(value) ?? escapePlaceholders(value)
+  }
+
+  /**
+   * 解析单个占位符表达式
+   */
+  private async resolveExpression(expression: string, path: string): Promise<{ value: any; secret: boolean }> {
+    const defaultIndex = expression.indexOf(':-')
+    const name = defaultIndex >= 0 ? expression.slice(0, defaultIndex).trim() : expression
+    const fallback = defaultIndex >= 0 ? expression.slice(defaultIndex + 2) : undefined
+
+    let value: any
+    let secret = false
+    let suggestion: string
+
+    if (name.startsWith('env:')) {
+      value = this.options.context.env[name.slice(4)]
+      suggestion = `请设置环境变量 ${name.slice(4)}，或使用 \${${name}:-默认值}`
+    } else if (name.startsWith('secret:')) {
+      value = await this.resolveSecret(name.slice(7), path)
+      secret = value !== undefined
+      suggestion = `请使用 SecretManager 存储密钥 '${name.slice(7)}'`
+    } else if (name.startsWith('git.') && (GIT_FIELDS as readonly string[]).includes(name.slice(4))) {
+      value = this.options.context.git[name.slice(4) as typeof GIT_FIELDS[number]]
+      suggestion = '请在 Git 仓库中运行，或使用 ${git.commit:-默认值}'
+    } else {
+      const segments = parsePath(name)
+      await this.resolvePath(segments)
+      value = getAt(this.root, segments)
+      secret = this.isSecretPath(name)
+      suggestion = `请检查配置中是否存在 ${name}`
+    }
+
+    if (value === undefined || value === null || value === '') {
+      if (fallback !== undefined) {
+        return { value: fallback, secret: false }
+      }
+
+      throw new ConfigError(`无法解析配置引用: \${${expression}}`, {
+        details: { path, expression },
+        suggestion,
+      })
+    }
+
+    if (secret) {
+      this.secretPaths.add(path)
+    }
+
+    return { value, secret }
+  }
+
+  /**
+   * 解析密钥
+   */
+  private async resolveSecret(name: string, path: string): Promise<string | undefined> {
+    if (!this.options.resolveSecret) {
+      throw new ConfigError(`无法解析密钥引用: \${secret:${name}}`, {
+        details: { path, secret: name },
+        suggestion: '请设置 DEPLOYER_MASTER_KEY 以解密密钥',
+      })
+    }
+
+    const value = await this.options.resolveSecret(name)
+    if (value) {
+      this.secretValues.add(value)
+    }
+
+    return value ?? undefined
+  }
+
+  /**
+   * 判断路径本身或其下的任一值是否来自密钥
+   */
+  private isSecretPath(path: string): boolean {
+    for (const secretPath of this.secretPaths) {
+      if (secretPath === path || secretPath.startsWith(`${path}.`) || secretPath.startsWith(`${path}[`)) {
+        return true
+      }
+    }
+    return false
+  }
+}
+
+/**
+ * 转义字符串中的 `${`，再次插值后得到原字符串
+ */
+function escapePlaceholders(text: string): string {
+  return text.replace(/\$\{/g, () => '$${')
+}
+
+/**
+ * 把对象树中的每个对象与数组登记到配置的密钥引用
+ */
+function bindTree(value: unknown, references: SecretReferences): void {
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    configReferences.set(value, references)
+    Object.values(value).forEach(item => bindTree(item, references))
+  }
+}
+
+/**
+ * 汇总值中出现的配置的密钥引用
+ */
+function collectReferences(value: unknown, references: SecretReferences): void {
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    configReferences.get(value)?.forEach((reference, secret) => references.set(secret, reference))
+    Object.values(value).forEach(item => collectReferences(item, references))
+  }
+}
+
+function replaceSecrets<T>(value: T, references: SecretReferences): T {
+  if (typeof value === 'string') {
+    return (references.get(value) ?? escapePlaceholders(value)) as T
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => replaceSecrets(item, references)) as T
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, replaceSecrets(item, references)])
+    ) as T
+  }
+  return value
+}
+
+/**
+ * 解析 docker.image、env[0].value 形式的路径
+ */
+function parsePath(path: string): PathSegment[] {
+  const segments: PathSegment[] = []
+
+  for (const match of path.matchAll(/([^.[\]]+)|\[(\d+)\]/g)) {
+    segments.push(match[2] !== undefined ? Number(match[2]) : match[1])
+  }
+
+  return segments
+}
+
+function formatPath(segments: PathSegment[]): string {
+  return segments.reduce<string>(
+    (path, segment) => typeof segment === 'number' ? `${path}[${segment}]` : path ? `${path}.${segment}` : segment,
+    ''
+  )
+}
+
+function getAt(value: any, segments: PathSegment[]): any {
+  return segments.reduce((current, segment) => current == null ? undefined : current[segment], value)
+}
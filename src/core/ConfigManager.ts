@@ -2,19 +2,70 @@
  * 配置管理器
  */
 
-import { readFile, writeFile, fileExists, findFileUp } from '../utils/file-system.js'
+import { writeFile, fileExists, findFileUp } from '../utils/file-system.js'
+import { readConfigDocument, writeConfigDocument, CONFIG_FORMAT_EXTENSIONS } from '../utils/config-format.js'
 import { validateDeployConfig as legacyValidateDeployConfig } from '../utils/validator.js'
 import { validateDeployConfig, safeValidateDeployConfig, formatZodError } from '../utils/schema.js'
 import { ConfigCache } from '../utils/cache.js'
 import { ConfigError, ValidationError, FileSystemError } from '../utils/errors.js'
-import { logger } from '../utils/logger.js'
-import type { DeployConfig, Environment, SecretConfig } from '../types/index.js'
-import { resolve } from 'path'
+import { logger, maskInLogs } from '../utils/logger.js'
+import { ConfigMerger } from './ConfigMerger.js'
+import type { ConfigLayer } from './ConfigMerger.js'
+import { ConfigInterpolator } from './ConfigInterpolator.js'
+import { SecretManager } from '../security/SecretManager.js'
+import { VersionManager } from './VersionManager.js'
+import type { ConfigContext, ConfigFactory, DeployConfig, Environment, SecretConfig } from '../types/index.js'
+import { resolve, relative, extname } from 'path'
 
 export interface ConfigManagerOptions {
   configFile?: string
   workDir?: string
   environment?: Environment
+  /** 区域，合并 deploy.config.<env>.<region>.* 覆盖配置 */
+  region?: string
+  /** 解析 ${secret:name} 使用的密钥管理器，默认读取工作目录下的 .deployer-secrets.json 与 DEPLOYER_MASTER_KEY */
+  secretManager?: SecretManager
+}
+
+/**
+ * 配置解析结果
+ */
+export interface ResolvedConfig {
+  config: DeployConfig
+  /** 每个配置值的来源文件（或 env:DEPLOY_*） */
+  sources: Record<string, string>
+  /** 按合并顺序参与合并的配置文件 */
+  files: string[]
+  /** 值来自密钥的路径，输出配置时需要遮蔽 */
+  secretPaths: string[]
+}
+
+/**
+ * 支持的配置文件扩展名，用于查找覆盖配置
+ */
+export const CONFIG_EXTENSIONS = Object.keys(CONFIG_FORMAT_EXTENSIONS)
+
+/**
+ * 定义配置，为 deploy.config.ts 提供完整的类型提示
+ *
+ * @example
+ * ```typescript
+ * // deploy.config.ts
+ * import { defineConfig } from '@ldesign/deployer'
+ *
+ * export default defineConfig(({ environment, git }) => ({
+ *   name: 'shop',
+ *   version: git.tag || '0.0.0',
+ *   environment,
+ *   platform: 'kubernetes',
+ *   projectType: 'node',
+ * }))
+ * ```
+ */
+export function defineConfig(config: DeployConfig): DeployConfig
+export function defineConfig(config: ConfigFactory): ConfigFactory
+export function defineConfig(config: DeployConfig | ConfigFactory): DeployConfig | ConfigFactory {
+  return config
 }
 
 export class ConfigManager {
@@ -22,11 +73,18 @@ export class ConfigManager {
   private configFile: string
   private workDir: string
   private environment: Environment
+  private overlayEnvironment?: Environment
+  private region?: string
+  private context?: Promise<ConfigContext>
+  private secretManager?: SecretManager
   private useCache: boolean
 
   constructor(options: ConfigManagerOptions = {}) {
     this.workDir = options.workDir || process.cwd()
     this.environment = options.environment || 'development'
+    this.overlayEnvironment = options.environment
+    this.region = options.region
+    this.secretManager = options.secretManager
     this.configFile = options.configFile || 'deploy.config.json'
     this.useCache = true // 默认启用缓存
   }
@@ -36,20 +94,12 @@ export class ConfigManager {
    */
   async loadConfig(): Promise<DeployConfig> {
     try {
-      // 查找配置文件
-      const configPath = await this.findConfigFile()
-
-      if (!configPath) {
-        throw new FileSystemError(`配置文件未找到: ${this.configFile}`, {
-          path: this.configFile,
-          operation: 'find',
-          suggestion: '请运行 ldesign-deployer init 创建配置文件',
-        })
-      }
+      const configPath = await this.requireConfigFile()
+      const cacheKey = [configPath, this.overlayEnvironment, this.region].filter(Boolean).join('#')
 
       // 尝试从缓存获取
       if (this.useCache) {
-        const cached = ConfigCache.get<DeployConfig>(configPath)
+        const cached = ConfigCache.get<DeployConfig>(cacheKey)
         if (cached) {
           logger.debug(`使用缓存的配置: ${configPath}`)
           this.config = cached
@@ -59,55 +109,11 @@ export class ConfigManager {
 
       logger.debug(`从文件加载配置: ${configPath}`)
 
-      // 读取配置
-      const content = await readFile(configPath)
-      let rawConfig: any
-
-      if (configPath.endsWith('.json')) {
-        try {
-          rawConfig = JSON.parse(content)
-        } catch (error: any) {
-          throw new ConfigError(`配置文件 JSON 解析失败`, {
-            details: { path: configPath, error: error.message },
-            suggestion: '请检查 JSON 格式是否正确',
-            cause: error,
-          })
-        }
-      } else if (configPath.endsWith('.js') || configPath.endsWith('.mjs')) {
-        // 动态导入 JS 配置
-        const module = await import(configPath)
-        rawConfig = module.default || module
-      } else {
-        throw new ConfigError(`不支持的配置文件格式`, {
-          details: { path: configPath },
-          suggestion: '支持的格式: .json, .js, .mjs',
-        })
-      }
-
-      // 合并环境变量
-      rawConfig = this.mergeEnvVariables(rawConfig)
-
-      // 使用 Zod 验证配置
-      const validationResult = safeValidateDeployConfig(rawConfig)
-
-      if (!validationResult.success) {
-        const errorMessage = formatZodError(validationResult.error!)
-        throw new ValidationError(
-          '配置验证失败',
-          undefined,
-          {
-            errors: validationResult.error!.errors,
-            details: { path: configPath },
-            suggestion: '请根据错误信息修正配置文件',
-          }
-        )
-      }
-
-      const config = validationResult.data!
+      const { config } = await this.buildConfig(configPath)
 
       // 缓存配置
       if (this.useCache) {
-        ConfigCache.set(configPath, config)
+        ConfigCache.set(cacheKey, config)
       }
 
       this.config = config
@@ -124,6 +130,41 @@ export class ConfigManager {
     }
   }
 
+  /**
+   * 解析配置
+   *
+   * @description 不使用缓存，重新合并基础配置与覆盖配置，并返回每个值的来源
+   */
+  async resolveConfig(): Promise<ResolvedConfig> {
+    try {
+      const resolved = await this.buildConfig(await this.requireConfigFile())
+      this.config = resolved.config
+      return resolved
+    } catch (error: any) {
+      if (error instanceof ValidationError || error instanceof ConfigError) {
+        logger.error(error.format())
+      }
+      throw error
+    }
+  }
+
+  /**
+   * 解析持久化记录（部署历史、检查点、待切换记录）中的密钥引用
+   *
+   * @description 记录由 ConfigInterpolator.toReferences 生成，重新部署前用当前的密钥重新解密；
+   * 解密得到的值登记到日志遮蔽
+   * @throws {ConfigError} 密钥无法解析
+   */
+  async resolveReferences<T extends object>(record: T): Promise<T> {
+    const { config, secretValues } = await new ConfigInterpolator({
+      context: await this.getConfigContext(),
+      resolveSecret: name => this.resolveSecret(name),
+    }).interpolate(record as Record<string, any>)
+    secretValues.forEach(maskInLogs)
+
+    return config as T
+  }
+
   /**
    * 保存配置
    */
@@ -145,9 +186,9 @@ export class ConfigManager {
       }
 
       const configPath = resolve(this.workDir, this.configFile)
-      const content = JSON.stringify(config, null, 2)
 
-      await writeFile(configPath, content)
+      // 按扩展名写入对应格式，保留已有文件中的注释
+      await writeConfigDocument(configPath, config)
       logger.success(`✅ 配置已保存: ${configPath}`)
 
       this.config = config
@@ -159,6 +200,8 @@ export class ConfigManager {
     } catch (error: any) {
       if (error instanceof ValidationError) {
         logger.error(error.format())
+      } else if (error instanceof ConfigError) {
+        logger.error(error.format())
       } else {
         logger.error('保存配置失败:', error.message)
       }
@@ -270,6 +313,23 @@ export class ConfigManager {
     }
   }
 
+  /**
+   * 查找配置文件，未找到时抛出错误
+   */
+  private async requireConfigFile(): Promise<string> {
+    const configPath = await this.findConfigFile()
+
+    if (!configPath) {
+      throw new FileSystemError(`配置文件未找到: ${this.configFile}`, {
+        path: this.configFile,
+        operation: 'find',
+        suggestion: '请运行 ldesign-deployer init 创建配置文件',
+      })
+    }
+
+    return configPath
+  }
+
   /**
    * 查找配置文件
    */
@@ -283,9 +343,16 @@ export class ConfigManager {
     // 向上查找
     const possibleNames = [
       'deploy.config.json',
+      'deploy.config.yaml',
+      'deploy.config.yml',
+      'deploy.config.toml',
+      'deploy.config.ts',
+      'deploy.config.mts',
       'deploy.config.js',
       'deploy.config.mjs',
       '.deployrc.json',
+      '.deployrc.yaml',
+      '.deployrc.yml',
       '.deployrc',
     ]
 
@@ -299,6 +366,143 @@ export class ConfigManager {
     return null
   }
 
+  /**
+   * 解析配置文件
+   */
+  private async parseConfigFile(configPath: string): Promise<any> {
+    const document = await readConfigDocument(configPath)
+
+    // 函数式配置：以目标环境、Git 信息与环境变量为上下文求值
+    if (typeof document.data === 'function') {
+      return document.data(await this.getConfigContext())
+    }
+
+    return document.data
+  }
+
+  /**
+   * 获取函数式配置的上下文（Git 信息只读取一次）
+   */
+  private async getConfigContext(): Promise<ConfigContext> {
+    if (!this.context) {
+      this.context = new VersionManager({ workDir: this.workDir }).getGitInfo().then(git => ({
+        environment: this.environment,
+        git,
+        env: process.env,
+      }))
+    }
+
+    return this.context
+  }
+
+  /**
+   * 合并配置层并验证
+   */
+  private async buildConfig(configPath: string): Promise<ResolvedConfig> {
+    const files = [configPath, ...this.findOverlayFiles(configPath)]
+    const layers: ConfigLayer[] = []
+
+    for (const file of files) {
+      logger.debug(`合并配置文件: ${file}`)
+      layers.push({
+        source: relative(this.workDir, file) || file,
+        config: await this.parseConfigFile(file),
+      })
+    }
+
+    const { config: rawConfig, sources } = new ConfigMerger().merge(layers)
+
+    // 覆盖配置中的 environment 固定为目标环境
+    if (this.overlayEnvironment) {
+      rawConfig.environment = this.overlayEnvironment
+    }
+
+    // 合并环境变量
+    const environment = rawConfig.environment
+    if (this.mergeEnvVariables(rawConfig as DeployConfig).environment !== environment) {
+      sources.environment = 'env:DEPLOY_ENVIRONMENT'
+    }
+
+    // 解析 ${...} 占位符，密钥值登记到日志遮蔽
+    const { config: interpolated, secretPaths, secretValues } = await new ConfigInterpolator({
+      context: await this.getConfigContext(),
+      resolveSecret: name => this.resolveSecret(name),
+    }).interpolate(rawConfig)
+    secretValues.forEach(maskInLogs)
+
+    // 使用 Zod 验证配置
+    const validationResult = safeValidateDeployConfig(interpolated)
+
+    if (!validationResult.success) {
+      throw new ValidationError(
+        '配置验证失败',
+        undefined,
+        {
+          errors: validationResult.error!.errors,
+          details: { path: configPath },
+          suggestion: '请根据错误信息修正配置文件',
+        }
+      )
+    }
+
+    // 校验得到的是新对象，沿用插值结果的密钥引用
+    const config = ConfigInterpolator.bindReferences(validationResult.data!, interpolated)
+
+    return { config, sources, files, secretPaths }
+  }
+
+  /**
+   * 解密 ${secret:name} 引用的密钥
+   *
+   * @throws {ConfigError} 未配置主密钥
+   */
+  private async resolveSecret(name: string): Promise<string | null> {
+    if (!this.secretManager) {
+      const secretManager = new SecretManager(resolve(this.workDir, '.deployer-secrets.json'))
+
+      if (!secretManager.loadMasterKeyFromEnv()) {
+        throw new ConfigError(`无法解析密钥引用: \${secret:${name}}`, {
+          details: { secret: name },
+          suggestion: '请设置环境变量 DEPLOYER_MASTER_KEY',
+        })
+      }
+
+      this.secretManager = secretManager
+    }
+
+    return this.secretManager.getSecret(name)
+  }
+
+  /**
+   * 查找覆盖配置文件
+   *
+   * @description 按 deploy.config.<env>.* → deploy.config.<env>.<region>.* 的顺序，
+   * 在基础配置所在目录查找任一支持格式的覆盖文件
+   */
+  private findOverlayFiles(configPath: string): string[] {
+    const ext = extname(configPath)
+    const stem = configPath.slice(0, configPath.length - ext.length)
+    const suffixes = [
+      this.overlayEnvironment,
+      this.region && (this.overlayEnvironment ? `${this.overlayEnvironment}.${this.region}` : this.region),
+    ].filter(Boolean)
+
+    const files: string[] = []
+
+    for (const suffix of suffixes) {
+      const candidates = [...new Set([ext, ...CONFIG_EXTENSIONS])].map(candidate => `${stem}.${suffix}${candidate}`)
+      const found = candidates.find(candidate => fileExists(candidate))
+
+      if (found) {
+        files.push(found)
+      } else {
+        logger.debug(`未找到覆盖配置: ${stem}.${suffix}.*`)
+      }
+    }
+
+    return files
+  }
+
   /**
    * 合并环境变量
    */
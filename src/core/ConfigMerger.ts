@@ -0,0 +1,219 @@
+/**
+ * 配置分层合并
+ * @module core/ConfigMerger
+ *
+ * @description 按顺序合并基础配置与环境/区域覆盖配置：对象逐层合并，标量由后面的层覆盖，
+ * 数组按合并策略处理（replace / append / prepend / 按键合并），并记录每个值来自哪个文件。
+ * 覆盖文件可以通过 $merge 为指定路径声明数组合并策略，例如
+ * `{ "$merge": { "hooks.preDeploy": "append", "kubernetes.ingress.hosts": { "mergeByKey": "host" } } }`
+ */
+
+/**
+ * 数组合并策略
+ */
+export type ArrayMergeStrategy = 'replace' | 'append' | 'prepend' | { mergeByKey: string }
+
+/**
+ * 配置层
+ */
+export interface ConfigLayer {
+  /** 来源（文件名等） */
+  source: string
+  config: Record<string, any>
+}
+
+/**
+ * 合并结果
+ */
+export interface MergedConfig {
+  config: Record<string, any>
+  /** 叶子值路径（如 docker.image、env[0].value）到来源的映射 */
+  sources: Record<string, string>
+}
+
+/**
+ * 默认数组合并策略：环境变量与密钥按 name 合并，其余数组整体替换
+ */
+export const DEFAULT_ARRAY_STRATEGIES: Record<string, ArrayMergeStrategy> = {
+  env: { mergeByKey: 'name' },
+  secrets: { mergeByKey: 'name' },
+}
+
+const MERGE_KEY = '$merge'
+
+/**
+ * 与值结构相同、叶子为来源的树
+ */
+type SourceTree = string | SourceTree[] | { [key: string]: SourceTree }
+
+/**
+ * 配置合并器类
+ *
+ * @example
+ * ```typescript
+ * const merger = new ConfigMerger();
+ * const { config, sources } = merger.merge([
+ *   { source: 'deploy.config.json', config: base },
+ *   { source: 'deploy.config.production.json', config: overlay },
+ * ]);
+ *
+ * console.log(sources['docker.registry']); // deploy.config.production.json
+ * ```
+ */
+export class ConfigMerger {
+  private strategies: Record<string, ArrayMergeStrategy>
+
+  constructor(strategies: Record<string, ArrayMergeStrategy> = {}) {
+    this.strategies = { ...DEFAULT_ARRAY_STRATEGIES, ...strategies }
+  }
+
+  /**
+   * 按顺序合并配置层，层中的 $merge 对该层及之后的层生效
+   */
+  merge(layers: ConfigLayer[]): MergedConfig {
+    const strategies = { ...this.strategies }
+    let config: any = {}
+    let tree: SourceTree = {}
+
+    for (const layer of layers) {
+      const { [MERGE_KEY]: declared, ...overlay } = layer.config || {}
+      Object.assign(strategies, declared || {})
+
+      ;[config, tree] = this.mergeValue(config, tree, overlay, layer.source, '', strategies)
+    }
+
+    const sources: Record<string, string> = {}
+    this.flatten(tree, '', sources)
+
+    return { config, sources }
+  }
+
+  /**
+   * 格式化来源报告
+   */
+  static formatSources(merged: MergedConfig): string {
+    const entries = Object.entries(merged.sources)
+    const width = Math.max(0, ...entries.map(([path]) => path.length))
+
+    return entries
+      .map(([path, source]) => `${path.padEnd(width)}  ← ${source}`)
+      .join('\n')
+  }
+
+  private mergeValue(
+    base: any,
+    baseTree: SourceTree | undefined,
+    overlay: any,
+    source: string,
+    path: string,
+    strategies: Record<string, ArrayMergeStrategy>
+  ): [any, SourceTree] {
+    if (overlay === undefined) {
+      return [base, baseTree as SourceTree]
+    }
+
+    if (this.isPlainObject(base) && this.isPlainObject(overlay) && this.isPlainObject(baseTree)) {
+      const branch = baseTree as Record<string, SourceTree>
+      const value: Record<string, any> = { ...base }
+      const tree: Record<string, SourceTree> = { ...branch }
+
+      for (const [key, child] of Object.entries(overlay)) {
+        ;[value[key], tree[key]] = this.mergeValue(
+          base[key],
+          branch[key],
+          child,
+          source,
+          path ? `${path}.${key}` : key,
+          strategies
+        )
+      }
+
+      return [value, tree]
+    }
+
+    if (Array.isArray(base) && Array.isArray(overlay) && Array.isArray(baseTree)) {
+      return this.mergeArray(base, baseTree, overlay, source, path, strategies)
+    }
+
+    return [this.clone(overlay), this.annotate(overlay, source)]
+  }
+
+  private mergeArray(
+    base: any[],
+    baseTree: SourceTree[],
+    overlay: any[],
+    source: string,
+    path: string,
+    strategies: Record<string, ArrayMergeStrategy>
+  ): [any[], SourceTree[]] {
+    const strategy = strategies[path] || 'replace'
+    const added = overlay.map(item => this.clone(item))
+    const addedTree = overlay.map(item => this.annotate(item, source))
+
+    if (strategy === 'append') {
+      return [[...base, ...added], [...baseTree, ...addedTree]]
+    }
+
+    if (strategy === 'prepend') {
+      return [[...added, ...base], [...addedTree, ...baseTree]]
+    }
+
+    if (typeof strategy === 'object') {
+      const key = strategy.mergeByKey
+      const value = [...base]
+      const tree = [...baseTree]
+
+      for (const item of overlay) {
+        const index = this.isPlainObject(item) && item[key] !== undefined
+          ? value.findIndex(existing => this.isPlainObject(existing) && existing[key] === item[key])
+          : -1
+
+        if (index > -1) {
+          ;[value[index], tree[index]] = this.mergeValue(value[index], tree[index], item, source, path, strategies)
+        } else {
+          value.push(this.clone(item))
+          tree.push(this.annotate(item, source))
+        }
+      }
+
+      return [value, tree]
+    }
+
+    return [added, addedTree]
+  }
+
+  /**
+   * 为值的每个叶子标记来源
+   */
+  private annotate(value: any, source: string): SourceTree {
+    if (Array.isArray(value) && value.length > 0) {
+      return value.map(item => this.annotate(item, source))
+    }
+
+    if (this.isPlainObject(value) && Object.keys(value).length > 0) {
+      return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, this.annotate(child, source)]))
+    }
+
+    return source
+  }
+
+  private flatten(tree: SourceTree, path: string, sources: Record<string, string>): void {
+    if (typeof tree === 'string') {
+      sources[path] = tree
+    } else if (Array.isArray(tree)) {
+      tree.forEach((child, index) => this.flatten(child, `${path}[${index}]`, sources))
+    } else {
+      for (const [key, child] of Object.entries(tree)) {
+        this.flatten(child, path ? `${path}.${key}` : key, sources)
+      }
+    }
+  }
+
+  private clone<T>(value: T): T {
+    return value === undefined ? value : JSON.parse(JSON.stringify(value))
+  }
+
+  private isPlainObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+  }
+}
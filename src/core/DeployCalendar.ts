@@ -0,0 +1,216 @@
+/**
+ * 部署日历
+ * @module core/DeployCalendar
+ *
+ * @description 根据配置中的部署窗口（deployWindows）与冻结期（freezes）判断某一时刻能否部署，
+ * 并计算即将到来的可部署时段。窗口与冻结期都按各自的时区解释，可以限定适用的环境
+ */
+
+import { CronExpression, toZonedTime, formatZonedTime } from '../utils/cron.js'
+import type {
+  CalendarEnforcement,
+  DeployConfig,
+  DeployWindow,
+  Environment,
+  FreezePeriod,
+} from '../types/index.js'
+
+const MINUTE = 60000
+
+/**
+ * 违反部署窗口或冻结期的情况
+ */
+export interface CalendarViolation {
+  type: 'freeze' | 'window'
+  enforcement: CalendarEnforcement
+  message: string
+  /** 生效中的冻结期 */
+  freeze?: FreezePeriod
+}
+
+/**
+ * 部署时间检查结果
+ */
+export interface CalendarCheck {
+  /** 没有任何违反时为 true */
+  allowed: boolean
+  violations: CalendarViolation[]
+  /** 当前所在的部署窗口 */
+  window?: DeployWindow
+}
+
+/**
+ * 可部署时段
+ */
+export interface CalendarSlot {
+  start: Date
+  /** 结束时间（不含） */
+  end: Date
+  /** 时段所属的窗口名称 */
+  windows: string[]
+}
+
+/**
+ * 部署日历类
+ *
+ * @example
+ * ```typescript
+ * const calendar = new DeployCalendar(config);
+ * const { allowed, violations } = calendar.check('production');
+ * const slots = calendar.getUpcomingSlots('production', new Date(), 7);
+ * ```
+ */
+export class DeployCalendar {
+  private config: Pick<DeployConfig, 'deployWindows' | 'freezes'>
+  private crons = new Map<string, CronExpression>()
+
+  /**
+   * @throws {ConfigError} cron 表达式或时区无效
+   */
+  constructor(config: Pick<DeployConfig, 'deployWindows' | 'freezes'>) {
+    this.config = config
+
+    // 提前解析 cron 并验证时区，配置错误时在创建日历时报告
+    for (const window of config.deployWindows?.windows || []) {
+      this.crons.set(window.cron, new CronExpression(window.cron))
+      toZonedTime(new Date(), this.getTimeZone(window))
+    }
+    for (const freeze of config.freezes || []) {
+      toZonedTime(new Date(), this.getTimeZone(freeze))
+    }
+  }
+
+  /**
+   * 默认时区（deployWindows.timezone，未配置时为系统时区）
+   */
+  get timezone(): string {
+    return this.config.deployWindows?.timezone || Intl.DateTimeFormat().resolvedOptions().timeZone
+  }
+
+  /**
+   * 检查某一时刻能否部署到指定环境
+   */
+  check(environment: Environment, at: Date = new Date()): CalendarCheck {
+    const violations: CalendarViolation[] = this.getActiveFreezes(environment, at).map(freeze => ({
+      type: 'freeze' as const,
+      enforcement: freeze.enforcement || 'block',
+      message: `Deployment freeze "${freeze.name}" (${freeze.start} → ${freeze.end}` +
+        `${freeze.reason ? `: ${freeze.reason}` : ''})`,
+      freeze,
+    }))
+
+    const windows = this.getWindows(environment)
+    const window = windows.find(window => this.inWindow(window, at))
+
+    if (windows.length > 0 && !window) {
+      const next = this.getUpcomingSlots(environment, at, 7)[0]
+      violations.push({
+        type: 'window',
+        enforcement: this.config.deployWindows?.enforcement || 'block',
+        message: 'Outside of deploy windows' +
+          (next ? ` (next window: ${formatZonedTime(toZonedTime(next.start, this.timezone)).replace('T', ' ')} ${this.timezone})` : ''),
+      })
+    }
+
+    return { allowed: violations.length === 0, violations, window }
+  }
+
+  /**
+   * 获取适用于环境的部署窗口
+   */
+  getWindows(environment: Environment): DeployWindow[] {
+    return (this.config.deployWindows?.windows || []).filter(window => this.appliesTo(window, environment))
+  }
+
+  /**
+   * 获取适用于环境、生效中或尚未开始的冻结期
+   */
+  getFreezes(environment: Environment, from: Date = new Date()): FreezePeriod[] {
+    return (this.config.freezes || []).filter(freeze =>
+      this.appliesTo(freeze, environment) && this.getLocalTime(freeze, from) < this.getFreezeBounds(freeze).end
+    )
+  }
+
+  /**
+   * 获取生效中的冻结期
+   */
+  getActiveFreezes(environment: Environment, at: Date = new Date()): FreezePeriod[] {
+    return (this.config.freezes || []).filter(freeze => this.appliesTo(freeze, environment) && this.isFrozen(freeze, at))
+  }
+
+  /**
+   * 计算即将到来的可部署时段（在窗口内且不在阻止部署的冻结期内）
+   *
+   * @param days - 向后计算的天数
+   * @returns 环境没有配置部署窗口时返回空数组
+   */
+  getUpcomingSlots(environment: Environment, from: Date = new Date(), days = 7): CalendarSlot[] {
+    const windows = this.getWindows(environment)
+    if (windows.length === 0) {
+      return []
+    }
+
+    const freezes = this.getFreezes(environment, from).filter(freeze => (freeze.enforcement || 'block') === 'block')
+    const start = Math.floor(from.getTime() / MINUTE) * MINUTE
+    const slots: CalendarSlot[] = []
+    let current: CalendarSlot | undefined
+
+    for (let time = start; time < start + days * 24 * 60 * MINUTE; time += MINUTE) {
+      const at = new Date(time)
+      const open = freezes.some(freeze => this.isFrozen(freeze, at))
+        ? []
+        : windows.filter(window => this.inWindow(window, at))
+
+      if (open.length === 0) {
+        current = undefined
+        continue
+      }
+
+      if (!current) {
+        current = { start: at, end: at, windows: [] }
+        slots.push(current)
+      }
+      current.end = new Date(time + MINUTE)
+      for (const window of open) {
+        const name = window.name || window.cron
+        if (!current.windows.includes(name)) {
+          current.windows.push(name)
+        }
+      }
+    }
+
+    return slots
+  }
+
+  private inWindow(window: DeployWindow, at: Date): boolean {
+    return this.crons.get(window.cron)!.matches(toZonedTime(at, this.getTimeZone(window)))
+  }
+
+  private isFrozen(freeze: FreezePeriod, at: Date): boolean {
+    const local = this.getLocalTime(freeze, at)
+    const { start, end } = this.getFreezeBounds(freeze)
+    return local >= start && local < end
+  }
+
+  /**
+   * 冻结期的起止时间（本地时间字符串），只有日期的结束时间包含当天
+   */
+  private getFreezeBounds(freeze: FreezePeriod): { start: string; end: string } {
+    return {
+      start: freeze.start.includes('T') ? freeze.start : `${freeze.start}T00:00`,
+      end: freeze.end.includes('T') ? freeze.end : `${freeze.end}T24:00`,
+    }
+  }
+
+  private getLocalTime(freeze: FreezePeriod, at: Date): string {
+    return formatZonedTime(toZonedTime(at, this.getTimeZone(freeze)))
+  }
+
+  private getTimeZone(item: DeployWindow | FreezePeriod): string | undefined {
+    return item.timezone || this.config.deployWindows?.timezone
+  }
+
+  private appliesTo(item: DeployWindow | FreezePeriod, environment: Environment): boolean {
+    return !item.environments || item.environments.includes(environment)
+  }
+}
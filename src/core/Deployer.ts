@@ -9,14 +9,42 @@ import { ConfigManager } from './ConfigManager.js'
 import { VersionManager } from './VersionManager.js'
 import { HealthChecker } from './HealthChecker.js'
 import { DockerfileGenerator, ImageBuilder, ComposeGenerator } from '../docker/index.js'
+import { HookRunner, type HookContext } from './HookRunner.js'
+import { StrategyDispatcher, type DispatchableStrategy } from '../strategies/StrategyDispatcher.js'
+import { VersionHistory } from '../rollback/VersionHistory.js'
+import { MetricsCollector } from '../metrics/MetricsCollector.js'
+import { PipelineExecutor } from './PipelineExecutor.js'
+import { ServiceOrchestrator } from './ServiceOrchestrator.js'
+import { ProgressTracker, DeploymentPhase } from '../utils/progress.js'
+import { AuditLogger } from '../utils/audit-log.js'
+import { PluginManager } from '../plugins/PluginManager.js'
+import { ApprovalManager } from '../approvals/ApprovalManager.js'
+import { PromotionStore } from '../strategies/PromotionStore.js'
+import { ConfigInterpolator } from './ConfigInterpolator.js'
 import { logger, createLogger } from '../utils/logger.js'
 import { writeFile } from '../utils/file-system.js'
-import type { DeployConfig, DeployResult, Environment, HookConfig } from '../types/index.js'
+import { ApprovalError, PermissionError, createCancellationError } from '../utils/errors.js'
+import type {
+  ApprovalRequest,
+  DeployConfig,
+  DeployerPlugin,
+  DeployResult,
+  DeploymentHistory,
+  DeploymentProvenance,
+  Environment,
+  HookConfig,
+  PendingPromotion,
+  StrategyResult,
+} from '../types/index.js'
 import { exec } from 'child_process'
 import { promisify } from 'util'
+import { join, resolve } from 'path'
 
 const execAsync = promisify(exec)
 
+/** 部署容器镜像的平台，审批时需要绑定镜像摘要 */
+const IMAGE_PLATFORMS = ['docker', 'docker-compose', 'kubernetes']
+
 /**
  * 部署选项接口
  */
@@ -25,14 +53,24 @@ export interface DeployOptions {
   config?: DeployConfig
   /** 配置文件路径 */
   configFile?: string
-  /** 目标环境 */
+  /** 目标环境（合并 deploy.config.<env>.* 覆盖配置） */
   environment?: Environment
+  /** 目标区域（合并 deploy.config.<env>.<region>.* 覆盖配置） */
+  region?: string
   /** 试运行模式（不实际执行部署） */
   dryRun?: boolean
   /** 跳过健康检查 */
   skipHealthCheck?: boolean
   /** 跳过钩子脚本执行 */
   skipHooks?: boolean
+  /** 发布策略（rolling/bluegreen/canary），优先于配置中的 kubernetes.deployment.strategy / docker.strategy */
+  strategy?: string
+  /** 跳过镜像构建与推送（镜像已存在） */
+  skipBuild?: boolean
+  /** 制品来源（环境晋升时记录到部署结果与部署历史） */
+  provenance?: DeploymentProvenance
+  /** 中止信号：触发时终止正在执行的构建、推送、kubectl、钩子与健康检查 */
+  signal?: AbortSignal
 }
 
 /**
@@ -56,6 +94,17 @@ export class Deployer {
   private dockerfileGenerator: DockerfileGenerator
   private imageBuilder: ImageBuilder
   private composeGenerator: ComposeGenerator
+  private versionHistory: VersionHistory
+  private metricsCollector: MetricsCollector
+  protected progressTracker: ProgressTracker
+  protected auditLogger: AuditLogger
+  protected plugins: PluginManager
+  protected hookRunner: HookRunner
+  /** 本次进程中推送的镜像摘要（按应用名称），传给钩子 */
+  private imageDigests = new Map<string, string>()
+  private programmaticPlugins: DeployerPlugin[]
+  protected workDir?: string
+  private resolvedConfigs = new WeakSet<DeployConfig>()
   private deployLogger = createLogger('Deployer')
 
   /**
@@ -63,14 +112,23 @@ export class Deployer {
    * 
    * @param options - 构造选项
    * @param options.workDir - 工作目录，默认为当前目录
+   * @param options.plugins - 插件对象，与配置中的 plugins 一起加载
    */
-  constructor(options: { workDir?: string } = {}) {
+  constructor(options: { workDir?: string; plugins?: DeployerPlugin[] } = {}) {
     this.configManager = new ConfigManager({ workDir: options.workDir })
     this.versionManager = new VersionManager({ workDir: options.workDir })
     this.healthChecker = new HealthChecker()
     this.dockerfileGenerator = new DockerfileGenerator()
     this.imageBuilder = new ImageBuilder()
     this.composeGenerator = new ComposeGenerator()
+    this.versionHistory = new VersionHistory()
+    this.metricsCollector = new MetricsCollector()
+    this.progressTracker = new ProgressTracker()
+    this.auditLogger = new AuditLogger()
+    this.plugins = new PluginManager({ workDir: options.workDir })
+    this.hookRunner = new HookRunner({ workDir: options.workDir, auditLogger: this.auditLogger })
+    this.programmaticPlugins = options.plugins || []
+    this.workDir = options.workDir
   }
 
   /**
@@ -78,6 +136,9 @@ export class Deployer {
    * 
    * @param options - 部署选项
    * @returns 部署结果
+   * @throws {DeploymentError} 中止信号触发时抛出（phase 为 cancelled），取消的部署仍记录到部署历史
+   * @throws {ApprovalError} 受保护环境的部署尚未获得批准时抛出，部署不会开始
+   * @throws {PermissionError} 受保护环境的部署无法验证当前用户时抛出
    * 
    * @example
    * ```typescript
@@ -95,66 +156,513 @@ export class Deployer {
   async deploy(options: DeployOptions = {}): Promise<DeployResult> {
     const startTime = Date.now()
     this.deployLogger.info('🚀 Starting deployment...')
+    this.imageDigests.clear()
+
+    let config: DeployConfig | undefined
 
     try {
+      options.signal?.throwIfAborted()
+
       // 加载配置
-      const config = await this.loadConfig(options)
+      config = await this.loadConfig(options)
+      await this.initPlugins(config)
       this.deployLogger.info(`Environment: ${config.environment}`)
       this.deployLogger.info(`Platform: ${config.platform}`)
 
+      // 受保护环境必须获得批准（试运行不需要），批准绑定配置哈希与镜像摘要
+      const approvalManager = this.getApprovalManager(config)
+      const approval = options.dryRun ? null : await this.requireApproval(approvalManager, config, options)
+
       // Dry run 检查
       if (options.dryRun) {
         this.deployLogger.info('🔍 Dry run mode - no actual deployment will be performed')
       }
 
+      await this.plugins.runHook('beforeDeploy', { config, dryRun: Boolean(options.dryRun) })
+
       // 执行 pre-deploy 钩子
       if (!options.skipHooks) {
-        await this.runHooks(config.hooks?.preDeploy, 'pre-deploy')
+        await this.runPhase(DeploymentPhase.PRE_HOOKS, config, () => this.hookRunner.run('preDeploy', this.getHookContext(config!, options)))
       }
 
-      // 根据平台执行部署
       let result: DeployResult
 
-      switch (config.platform) {
-        case 'docker':
-          result = await this.deployDocker(config, options)
-          break
-        case 'docker-compose':
-          result = await this.deployDockerCompose(config, options)
-          break
-        case 'kubernetes':
-          result = await this.deployKubernetes(config, options)
-          break
-        default:
-          throw new Error(`Unsupported platform: ${config.platform}`)
+      if (config.pipeline) {
+        // 按流水线定义执行各阶段
+        result = await this.deployWithPipeline(config, options)
+      } else {
+        // 根据平台执行部署
+        result = await this.deployApplication(config, options)
+
+        // 健康检查（多服务应用在部署每个服务后检查；等待切换时流量仍在旧版本上）
+        if (!options.skipHealthCheck && !config.services && !result.pending && config.healthCheck?.enabled) {
+          await this.runPhase(DeploymentPhase.HEALTH_CHECK, config, () => this.performHealthCheck(config!, options.signal))
+        }
       }
 
-      // 健康检查
-      if (!options.skipHealthCheck && config.healthCheck?.enabled) {
-        await this.performHealthCheck(config)
+      // 发布策略与流水线在中止后返回失败结果，统一按取消处理
+      options.signal?.throwIfAborted()
+
+      // 等待手动或定时切换：由 bluegreen:promote / bluegreen:run-scheduled 完成部署
+      if (result.pending && !options.dryRun) {
+        return await this.deferDeployment(config, result, approval, startTime, options)
       }
 
       // 执行 post-deploy 钩子
       if (!options.skipHooks) {
-        await this.runHooks(config.hooks?.postDeploy, 'post-deploy')
+        await this.runPhase(DeploymentPhase.POST_HOOKS, config, () => this.hookRunner.run('postDeploy', this.getHookContext(config!, options)))
+      }
+
+      // 记录实际部署的镜像摘要，晋升时按摘要发布
+      const provenance = options.dryRun ? options.provenance : await this.resolveProvenance(config, options)
+      if (provenance) {
+        result = { ...result, provenance }
       }
 
       const duration = Date.now() - startTime
-      this.deployLogger.success(`✅ Deployment completed in ${(duration / 1000).toFixed(2)}s`)
+      if (result.success) {
+        this.deployLogger.success(`✅ Deployment completed in ${(duration / 1000).toFixed(2)}s`)
+      } else {
+        this.deployLogger.error(`❌ Deployment failed after ${(duration / 1000).toFixed(2)}s: ${result.message}`)
+      }
+
+      if (!options.dryRun) {
+        await this.recordDeployment(config, result, startTime)
+      }
+
+      // 批准只能使用一次
+      if (approval && result.success) {
+        await this.useApproval(approvalManager, approval, result.deploymentId || `deploy-${startTime}`)
+      }
+
+      await this.finishPlugins(config, result, duration, options)
 
       return result
-    } catch (error: any) {
+    } catch (caught: any) {
+      // 未通过审批的部署没有开始执行，不记录部署历史
+      if (caught instanceof ApprovalError || caught instanceof PermissionError) {
+        throw caught
+      }
+
+      const cancelled = Boolean(options.signal?.aborted)
+      const error = cancelled ? createCancellationError(options.signal!.reason) : caught
       const duration = Date.now() - startTime
       this.deployLogger.error(`❌ Deployment failed after ${(duration / 1000).toFixed(2)}s`)
       this.deployLogger.error(error.message)
 
-      return {
+      const result: DeployResult = {
         success: false,
         message: error.message,
         timestamp: new Date().toISOString(),
         environment: options.environment || 'development',
         platform: 'docker',
+        provenance: options.provenance,
+      }
+
+      await this.plugins.runHook('onError', { error, config })
+
+      if (config) {
+        const failed = { ...result, environment: config.environment, platform: config.platform }
+        if (!options.dryRun) {
+          await this.recordDeployment(config, failed, startTime)
+        }
+        await this.finishPlugins(config, failed, duration, options)
+      }
+
+      if (cancelled) {
+        throw error
+      }
+
+      return result
+    }
+  }
+
+  /**
+   * 创建部署审批管理器，审批事件写入部署器的审计日志
+   * 
+   * @private
+   */
+  private getApprovalManager(config: DeployConfig): ApprovalManager {
+    return new ApprovalManager({
+      config: config.approvals,
+      auditLogger: this.auditLogger,
+      workDir: this.workDir,
+    })
+  }
+
+  /**
+   * 检查受保护环境的部署审批
+   * 
+   * @private
+   * @returns 本次部署使用的批准，环境不需要审批时返回 null
+   * @throws {ApprovalError} 尚未获得批准、镜像需要在本次部署中构建或无法解析镜像摘要时抛出
+   * @throws {PermissionError} 无法验证当前用户时抛出
+   */
+  private async requireApproval(
+    manager: ApprovalManager,
+    config: DeployConfig,
+    options: DeployOptions
+  ): Promise<ApprovalRequest | null> {
+    if (!manager.getPolicy(config.environment)) {
+      return null
+    }
+
+    return manager.requireApproval({
+      name: config.name,
+      version: config.version,
+      environment: config.environment,
+      configHash: ApprovalManager.hashConfig(config),
+      digests: await this.resolveImageDigests(config, options),
+    })
+  }
+
+  /**
+   * 解析待部署镜像的摘要（应用或服务名称 -> 摘要）
+   * 
+   * @private
+   * @description 批准绑定镜像摘要，受保护环境因此只能部署已经构建好的镜像
+   * @throws {ApprovalError} 镜像需要在本次部署中构建或镜像不存在时抛出
+   */
+  private async resolveImageDigests(config: DeployConfig, options: DeployOptions): Promise<Record<string, string>> {
+    if (options.provenance?.digest) {
+      return { [config.name]: options.provenance.digest }
+    }
+
+    const targets = config.services
+      ? ServiceOrchestrator.resolve(config).map(service => ({ name: service.name, config: service.config }))
+      : [{ name: config.name, config }]
+    const digests: Record<string, string> = {}
+
+    for (const target of targets.filter(target => IMAGE_PLATFORMS.includes(target.config.platform))) {
+      if (target.config.platform === 'docker' && !options.skipBuild) {
+        throw new ApprovalError(
+          `Deployments to ${config.environment} must use a built image, but ${target.name} would be rebuilt`,
+          { suggestion: '请先构建并推送镜像，再使用 --skip-build 部署；批准绑定该镜像的摘要' }
+        )
       }
+
+      const image = ImageBuilder.getImageReference(target.config)
+      const digest = await this.imageBuilder.getDigest(image, Boolean(target.config.docker?.registry))
+      if (!digest) {
+        throw new ApprovalError(`Cannot resolve the digest of ${image}`, {
+          suggestion: '请确认镜像已推送到镜像仓库，或存在于本地',
+        })
+      }
+      digests[target.name] = digest
+      // 批准的摘要同时写入部署结果
+      this.imageDigests.set(target.name, digest)
+    }
+
+    return digests
+  }
+
+  /**
+   * 本次部署的镜像与摘要
+   * 
+   * @private
+   * @description 摘要优先取自晋升来源、审批时解析或推送后读取的摘要，否则按镜像标签解析；
+   * 多服务应用与不使用镜像的平台返回 undefined
+   */
+  private async resolveProvenance(config: DeployConfig, options: DeployOptions): Promise<DeploymentProvenance | undefined> {
+    if (options.provenance) {
+      return options.provenance
+    }
+    if (config.services || !IMAGE_PLATFORMS.includes(config.platform)) {
+      return undefined
+    }
+
+    const image = ImageBuilder.getImageReference(config)
+    const digest = this.imageDigests.get(config.name)
+      || await this.imageBuilder.getDigest(image, Boolean(config.docker?.registry))
+
+    return digest ? { image, digest } : undefined
+  }
+
+  /**
+   * 保存等待切换的部署，切换完成前不记录部署历史、不使用批准，也不执行 post-deploy 与 afterDeploy 钩子
+   * 
+   * @private
+   */
+  private async deferDeployment(
+    config: DeployConfig,
+    result: DeployResult,
+    approval: ApprovalRequest | null,
+    startTime: number,
+    options: DeployOptions
+  ): Promise<DeployResult> {
+    const provenance = await this.resolveProvenance(config, options)
+    const pending: PendingPromotion | undefined = result.strategy?.details?.pending
+
+    if (pending) {
+      await new PromotionStore().save({
+        ...pending,
+        deployment: {
+          deploymentId: result.deploymentId || `deploy-${startTime}`,
+          startedAt: new Date(startTime).toISOString(),
+          config: ConfigInterpolator.toReferences(config),
+          approvalId: approval?.id,
+          provenance,
+        },
+      })
+    }
+
+    this.deployLogger.info(`⏸️  Deployment is awaiting traffic switch: ${result.message}`)
+
+    return provenance ? { ...result, provenance } : result
+  }
+
+  /**
+   * 完成等待切换的部署：记录部署历史，并将部署使用的批准标记为已使用
+   * 
+   * @param result - bluegreen:promote / bluegreen:run-scheduled 的切换结果
+   * @returns 部署结果，切换未成功或记录不属于某次部署时返回 null
+   */
+  async completePromotion(result: StrategyResult): Promise<DeployResult | null> {
+    const pending: PendingPromotion | undefined = result.details?.pending
+    if (!result.success || !pending?.deployment) {
+      return null
+    }
+
+    const { deploymentId, startedAt, approvalId, provenance } = pending.deployment
+    const config = await this.configManager.resolveReferences(pending.deployment.config)
+    const deployResult: DeployResult = {
+      success: true,
+      message: result.message,
+      version: config.version,
+      deploymentId,
+      timestamp: result.timestamp,
+      environment: config.environment,
+      platform: config.platform,
+      // 待切换记录已写入部署配置，不再重复保存
+      strategy: { ...result, details: { ...result.details, pending: undefined } },
+      provenance,
+    }
+
+    await this.recordDeployment(config, deployResult, Date.parse(startedAt))
+
+    if (approvalId) {
+      const manager = this.getApprovalManager(config)
+      const approval = await manager.get(approvalId)
+      if (approval) {
+        await this.useApproval(manager, approval, deploymentId)
+      }
+    }
+
+    return deployResult
+  }
+
+  /**
+   * 将批准标记为已使用
+   * 
+   * @private
+   * @description 部署已经成功，标记失败只记录警告
+   */
+  private async useApproval(manager: ApprovalManager, approval: ApprovalRequest, deploymentId: string): Promise<void> {
+    try {
+      await manager.markUsed(approval, deploymentId)
+    } catch (error: any) {
+      this.deployLogger.warn(`Failed to mark approval ${approval.id} as used: ${error.message}`)
+    }
+  }
+
+  /**
+   * 根据平台执行部署
+   * 
+   * @private
+   * @param config - 部署配置
+   * @param options - 部署选项
+   * @returns 部署结果
+   */
+  private async deployToPlatform(config: DeployConfig, options: DeployOptions): Promise<DeployResult> {
+    switch (config.platform) {
+      case 'docker':
+        return this.deployDocker(config, options)
+      case 'docker-compose':
+        return this.deployDockerCompose(config, options)
+      case 'kubernetes':
+        return this.deployKubernetes(config, options)
+      default: {
+        // 插件注册的平台
+        const provider = this.plugins.getPlatform(config.platform)
+        if (!provider) {
+          throw new Error(`Unsupported platform: ${config.platform}`)
+        }
+
+        this.deployLogger.info(`🔌 Deploying with plugin platform: ${provider.name}`)
+        return provider.deploy(config, { dryRun: options.dryRun, skipBuild: options.skipBuild, signal: options.signal })
+      }
+    }
+  }
+
+  /**
+   * 部署应用：多服务应用交由 ServiceOrchestrator 编排，否则按平台部署
+   * 
+   * @private
+   * @param config - 部署配置
+   * @param options - 部署选项
+   * @returns 部署结果
+   */
+  private async deployApplication(config: DeployConfig, options: DeployOptions): Promise<DeployResult> {
+    if (config.services) {
+      return this.deployServices(config, options)
+    }
+
+    return this.runPhase(DeploymentPhase.DEPLOY, config, () => this.deployToPlatform(config, options))
+  }
+
+  /**
+   * 多服务部署
+   * 
+   * @private
+   * @param config - 部署配置（包含 services）
+   * @param options - 部署选项
+   * @returns 汇总的部署结果，services 中保存各服务的结果
+   * 
+   * @description 各服务部署前记录上一次成功的部署，后续服务失败时重新部署该版本完成回滚
+   */
+  private async deployServices(config: DeployConfig, options: DeployOptions): Promise<DeployResult> {
+    this.deployLogger.info(`🧱 Deploying ${Object.keys(config.services!).length} services...`)
+
+    const previous = new Map<string, DeploymentHistory | null>()
+
+    const orchestrator = new ServiceOrchestrator({
+      build: async (service) => {
+        if (service.config.platform === 'docker' && !options.skipBuild) {
+          await this.buildImage(service.config, options)
+        }
+      },
+      deploy: async (service) => {
+        const startTime = Date.now()
+        previous.set(service.name, await this.getLastSuccessfulDeployment(service.config))
+
+        const result = await this.runPhase(DeploymentPhase.DEPLOY, service.config, () =>
+          this.deployToPlatform(service.config, { ...options, skipBuild: true })
+        )
+
+        if (!options.dryRun) {
+          await this.recordDeployment(service.config, result, startTime)
+        }
+        return result
+      },
+      healthCheck: async (service) => {
+        if (!options.skipHealthCheck && service.config.healthCheck?.enabled) {
+          await this.runPhase(DeploymentPhase.HEALTH_CHECK, service.config, () => this.performHealthCheck(service.config, options.signal))
+        }
+      },
+      rollback: async (service) => {
+        const record = previous.get(service.name)
+        if (!record?.config) {
+          throw new Error(`No previous successful deployment of ${service.config.name}`)
+        }
+        // 历史记录中只保存密钥引用，重新部署前解析
+        const target = await this.configManager.resolveReferences(record)
+
+        this.deployLogger.info(`Rolling back ${service.config.name} to version ${target.version}`)
+
+        const hookContext = { config: target.config, digest: target.result?.provenance?.digest, rollbackFrom: service.config.version }
+        if (!options.skipHooks && !options.dryRun) {
+          await this.hookRunner.run('preRollback', hookContext)
+        }
+
+        const startTime = Date.now()
+        // 回滚不受中止信号影响
+        const result = await this.deployToPlatform(target.config, { ...options, strategy: undefined, skipBuild: true, signal: undefined })
+
+        if (!options.dryRun) {
+          await this.recordDeployment(target.config, result, startTime)
+        }
+        if (!options.skipHooks && !options.dryRun) {
+          await this.hookRunner.run('postRollback', hookContext)
+        }
+        await this.plugins.runHook('onRollback', { version: target.version, result, config: target.config })
+        return result
+      },
+    })
+
+    const multi = await orchestrator.run(config)
+    const failed = multi.services.find(service => service.name === multi.failedService)
+
+    return {
+      success: multi.success,
+      message: multi.success
+        ? `Deployed ${multi.services.length} services`
+        : `Service ${multi.failedService} failed: ${failed?.error}`,
+      version: config.version,
+      timestamp: new Date().toISOString(),
+      environment: config.environment,
+      platform: config.platform,
+      services: multi.services,
+    }
+  }
+
+  /**
+   * 执行部署阶段
+   * 
+   * @protected
+   * @param phase - 部署阶段
+   * @param config - 部署配置
+   * @param task - 阶段任务
+   * @returns 阶段任务的返回值
+   * 
+   * @description 基础部署器直接执行任务，子类可覆盖以记录检查点或跳过已完成的阶段
+   */
+  protected async runPhase<T>(phase: DeploymentPhase, config: DeployConfig, task: () => Promise<T>): Promise<T> {
+    this.deployLogger.debug(`Phase ${phase}: ${config.name}@${config.version}`)
+    return task()
+  }
+
+  /**
+   * 通过流水线部署
+   * 
+   * @private
+   * @param config - 部署配置（包含 pipeline）
+   * @param options - 部署选项
+   * @returns 部署结果，deploy 阶段的平台部署结果与各阶段结果合并
+   * 
+   * @description 未配置 commands 的 deploy 阶段执行平台部署，verify 阶段执行健康检查
+   */
+  private async deployWithPipeline(config: DeployConfig, options: DeployOptions): Promise<DeployResult> {
+    this.deployLogger.info('🧩 Deploying with pipeline...')
+
+    let deployResult: DeployResult | undefined
+
+    const executor = new PipelineExecutor({
+      name: config.name,
+      version: config.version,
+      environment: config.environment,
+      dryRun: options.dryRun,
+      signal: options.signal,
+      progressTracker: this.progressTracker,
+      auditLogger: this.auditLogger,
+      handlers: {
+        deploy: async (_stage, signal) => {
+          deployResult = await this.deployApplication(config, { ...options, signal })
+          if (!deployResult.success) {
+            throw new Error(deployResult.message)
+          }
+        },
+        verify: async (_stage, signal) => {
+          if (!options.skipHealthCheck) {
+            await this.runPhase(DeploymentPhase.HEALTH_CHECK, config, () => this.performHealthCheck(config, signal))
+          }
+        },
+      },
+    })
+
+    const pipeline = await executor.run(config.pipeline!)
+    const failed = pipeline.stages.filter(stage => stage.status === 'failed').map(stage => stage.name)
+
+    return {
+      version: config.version,
+      environment: config.environment,
+      platform: config.platform,
+      ...deployResult,
+      success: pipeline.success,
+      message: pipeline.success
+        ? deployResult?.message || 'Pipeline completed'
+        : `Pipeline failed at stage(s): ${failed.join(', ')}`,
+      timestamp: new Date().toISOString(),
+      pipeline,
     }
   }
 
@@ -169,6 +677,38 @@ export class Deployer {
   private async deployDocker(config: DeployConfig, options: DeployOptions): Promise<DeployResult> {
     this.deployLogger.info('🐳 Deploying with Docker...')
 
+    // 先解析策略，避免构建后才发现策略不受支持
+    const strategy = StrategyDispatcher.resolve(config, options.strategy)
+
+    if (!options.skipBuild) {
+      await this.buildImage(config, options)
+    }
+
+    // 配置或命令行指定了发布策略时，新旧版本容器在反向代理后逐步切换
+    if (strategy) {
+      return this.deployWithStrategy(strategy, config, options)
+    }
+
+    return {
+      success: true,
+      message: 'Docker deployment completed',
+      version: config.version,
+      timestamp: new Date().toISOString(),
+      environment: config.environment,
+      platform: 'docker',
+    }
+  }
+
+  /**
+   * 生成 Dockerfile（未配置时）、构建并推送镜像
+   * 
+   * @private
+   * @param config - 部署配置
+   * @param options - 部署选项
+   */
+  private async buildImage(config: DeployConfig, options: DeployOptions): Promise<void> {
+    const context = resolve(config.docker?.context || '.')
+
     // 生成 Dockerfile
     if (!config.docker?.dockerfile) {
       this.deployLogger.info('Generating Dockerfile...')
@@ -181,40 +721,47 @@ export class Deployer {
       })
 
       if (!options.dryRun) {
-        await writeFile('Dockerfile', dockerfile)
+        await writeFile(join(context, 'Dockerfile'), dockerfile)
         this.deployLogger.success('Dockerfile generated')
       }
     }
 
+    if (options.dryRun) {
+      return
+    }
+
     // 构建镜像
-    if (!options.dryRun) {
-      const image = config.docker?.image || config.name
-      const tag = config.docker?.tag || config.version
-
-      await this.imageBuilder.build({
-        context: '.',
-        tag: `${image}:${tag}`,
-        buildArgs: config.docker?.buildArgs,
-        cache: config.docker?.cache !== false,
-      })
+    const image = config.docker?.image || config.name
+    const tag = config.docker?.tag || config.version
 
-      // 推送镜像（如果配置了 registry）
-      if (config.docker?.registry) {
-        await this.imageBuilder.push({
-          image,
-          tag,
-          registry: config.docker.registry,
-        })
-      }
-    }
+    const build = { config, image: `${image}:${tag}`, context }
+    await this.plugins.runHook('beforeBuild', build)
 
-    return {
-      success: true,
-      message: 'Docker deployment completed',
-      version: config.version,
-      timestamp: new Date().toISOString(),
-      environment: config.environment,
-      platform: 'docker',
+    await this.runPhase(DeploymentPhase.BUILD, config, () => this.imageBuilder.build({
+      context,
+      dockerfile: config.docker?.dockerfile ? resolve(config.docker.dockerfile) : undefined,
+      tag: `${image}:${tag}`,
+      buildArgs: config.docker?.buildArgs,
+      cache: config.docker?.cache !== false,
+      signal: options.signal,
+    }))
+
+    await this.plugins.runHook('afterBuild', build)
+
+    // 推送镜像（如果配置了 registry）
+    const registry = config.docker?.registry
+    if (registry) {
+      await this.runPhase(DeploymentPhase.PUSH, config, () => this.imageBuilder.push({
+        image,
+        tag,
+        registry,
+        signal: options.signal,
+      }))
+
+      const info = await this.imageBuilder.getImageInfo(ImageBuilder.getImageReference(config))
+      if (info?.digest) {
+        this.imageDigests.set(config.name, info.digest)
+      }
     }
   }
 
@@ -229,6 +776,12 @@ export class Deployer {
   private async deployDockerCompose(config: DeployConfig, options: DeployOptions): Promise<DeployResult> {
     this.deployLogger.info('🐳 Deploying with Docker Compose...')
 
+    // 发布策略由反向代理管理的 compose 项目执行
+    const strategy = StrategyDispatcher.resolve(config, options.strategy)
+    if (strategy) {
+      return this.deployWithStrategy(strategy, config, options)
+    }
+
     // 生成 docker-compose.yml
     if (config.docker?.compose) {
       this.deployLogger.info('Generating docker-compose.yml...')
@@ -243,7 +796,7 @@ export class Deployer {
     // 启动服务
     if (!options.dryRun) {
       this.deployLogger.info('Starting Docker Compose services...')
-      await execAsync('docker-compose up -d')
+      await execAsync('docker-compose up -d', { signal: options.signal })
       this.deployLogger.success('Services started')
     }
 
@@ -270,6 +823,12 @@ export class Deployer {
   private async deployKubernetes(config: DeployConfig, options: DeployOptions): Promise<DeployResult> {
     this.deployLogger.info('☸️  Deploying to Kubernetes...')
 
+    // 配置或命令行指定了发布策略时交由策略执行
+    const strategy = StrategyDispatcher.resolve(config, options.strategy)
+    if (strategy) {
+      return this.deployWithStrategy(strategy, config, options)
+    }
+
     // TODO: K8s 部署将在后续实现
     this.deployLogger.warn('Kubernetes deployment not yet implemented')
 
@@ -284,19 +843,145 @@ export class Deployer {
   }
 
   /**
-   * 加载配置
+   * 通过发布策略部署
    * 
    * @private
+   * @param strategy - 发布策略
+   * @param config - 部署配置
+   * @param options - 部署选项
+   * @returns 部署结果
+   */
+  private async deployWithStrategy(
+    strategy: DispatchableStrategy,
+    config: DeployConfig,
+    options: DeployOptions
+  ): Promise<DeployResult> {
+    this.deployLogger.info(`Strategy: ${strategy}`)
+
+    const base = {
+      version: config.version,
+      environment: config.environment,
+      platform: config.platform,
+    }
+
+    if (options.dryRun) {
+      return {
+        ...base,
+        success: true,
+        message: `Dry run: ${strategy} strategy would be executed`,
+        timestamp: new Date().toISOString(),
+      }
+    }
+
+    const previous = await this.getLastSuccessfulDeployment(config)
+    const result = await new StrategyDispatcher().execute(strategy, config, {
+      previousVersion: previous?.version,
+      signal: options.signal,
+    })
+
+    return {
+      ...base,
+      success: result.success,
+      pending: result.pending,
+      message: result.message,
+      timestamp: result.timestamp,
+      strategy: result,
+    }
+  }
+
+  /**
+   * 获取同一应用在同一环境中最近一次成功的部署
+   * 
+   * @protected
+   */
+  protected async getLastSuccessfulDeployment(config: DeployConfig): Promise<DeploymentHistory | null> {
+    const history = await this.versionHistory.getByEnvironment(config.environment)
+    return history.find(record => record.status === 'success' && record.config?.name === config.name) || null
+  }
+
+  /**
+   * 记录部署历史与部署指标，失败只输出警告
+   * 
+   * @private
+   * @param config - 部署配置
+   * @param result - 部署结果
+   * @param startTime - 开始时间（毫秒时间戳）
+   */
+  private async recordDeployment(config: DeployConfig, result: DeployResult, startTime: number): Promise<void> {
+    try {
+      await this.versionHistory.addDeployment({
+        id: `${config.name}-${startTime}`,
+        version: config.version,
+        environment: config.environment,
+        platform: config.platform,
+        status: result.success ? 'success' : 'failed',
+        timestamp: result.timestamp,
+        config,
+        result,
+      })
+
+      await this.metricsCollector.record({
+        appName: config.name,
+        version: config.version,
+        environment: config.environment,
+        platform: config.platform,
+        success: result.success,
+        startTime: new Date(startTime),
+        endTime: new Date(),
+        error: result.success ? undefined : result.message,
+        metadata: result.strategy ? { strategy: result.strategy.strategy } : undefined,
+      })
+    } catch (error: any) {
+      this.deployLogger.warn(`Failed to record deployment: ${error.message}`)
+    }
+  }
+
+  /**
+   * 加载构造时传入的插件与配置中的插件，并对每个配置对象执行一次 configResolved 钩子
+   * 
+   * @protected
+   * @param config - 已加载的部署配置
+   */
+  protected async initPlugins(config: DeployConfig): Promise<void> {
+    await this.plugins.load([...this.programmaticPlugins, ...(config.plugins || [])])
+
+    if (!this.resolvedConfigs.has(config)) {
+      this.resolvedConfigs.add(config)
+      await this.plugins.runHook('configResolved', config)
+    }
+  }
+
+  /**
+   * 部署结束：执行 afterDeploy 钩子并向插件通知器发送部署通知（试运行不通知）
+   * 
+   * @private
+   */
+  private async finishPlugins(config: DeployConfig, result: DeployResult, duration: number, options: DeployOptions): Promise<void> {
+    await this.plugins.runHook('afterDeploy', { config, dryRun: Boolean(options.dryRun), result, duration })
+
+    if (!options.dryRun) {
+      await this.plugins.notifyDeployment(config, result, duration)
+    }
+  }
+
+  /**
+   * 加载配置
+   * 
    * @param options - 部署选项
    * @returns 部署配置对象
    */
-  private async loadConfig(options: DeployOptions): Promise<DeployConfig> {
+  protected async loadConfig(options: DeployOptions): Promise<DeployConfig> {
     if (options.config) {
       return options.config
     }
 
-    if (options.configFile) {
-      this.configManager = new ConfigManager({ configFile: options.configFile })
+    if (options.configFile || options.environment || options.region) {
+      this.configManager = new ConfigManager({
+        configFile: options.configFile,
+        workDir: this.workDir,
+        environment: options.environment,
+        region: options.region,
+      })
     }
 
     return this.configManager.loadConfig()
@@ -307,14 +992,15 @@ export class Deployer {
    * 
    * @private
    * @param config - 部署配置
+   * @param signal - 中止信号
    * @throws {Error} 当健康检查失败时抛出
    */
-  private async performHealthCheck(config: DeployConfig): Promise<void> {
+  private async performHealthCheck(config: DeployConfig, signal?: AbortSignal): Promise<void> {
     if (!config.healthCheck) return
 
     this.deployLogger.info('🏥 Performing health check...')
 
-    const result = await this.healthChecker.check(config.healthCheck)
+    const result = await this.healthChecker.check(config.healthCheck, signal)
 
     if (result.healthy) {
       this.deployLogger.success(`Health check passed (${result.duration}ms)`)
@@ -324,31 +1010,16 @@ export class Deployer {
   }
 
   /**
-   * 执行钩子脚本
+   * 钩子执行上下文：镜像摘要取自晋升的制品来源或本次推送的镜像
    * 
    * @private
-   * @param hooks - 钩子脚本命令列表
-   * @param type - 钩子类型（pre-deploy/post-deploy 等）
-   * @throws {Error} 当钩子执行失败时抛出
    */
-  private async runHooks(hooks: string[] | undefined, type: string): Promise<void> {
-    if (!hooks || hooks.length === 0) return
-
-    this.deployLogger.info(`Running ${type} hooks...`)
-
-    for (const hook of hooks) {
-      this.deployLogger.debug(`Executing: ${hook}`)
-      try {
-        const { stdout, stderr } = await execAsync(hook)
-        if (stdout) this.deployLogger.debug(stdout)
-        if (stderr) this.deployLogger.warn(stderr)
-      } catch (error: any) {
-        this.deployLogger.error(`Hook failed: ${hook}`)
-        throw error
-      }
+  private getHookContext(config: DeployConfig, options: DeployOptions): HookContext {
+    return {
+      config,
+      digest: options.provenance?.digest || this.imageDigests.get(config.name),
+      signal: options.signal,
     }
-
-    this.deployLogger.success(`${type} hooks completed`)
   }
 
   /**
@@ -370,7 +1041,7 @@ export class Deployer {
     // TODO: 回滚实现将在后续完成
     this.deployLogger.warn('Rollback not yet implemented')
 
-    return {
+    const result: DeployResult = {
       success: false,
       message: 'Rollback not implemented',
       version,
@@ -378,6 +1049,10 @@ export class Deployer {
       environment: 'development',
       platform: 'docker',
     }
+
+    await this.plugins.runHook('onRollback', { version, result })
+
+    return result
   }
 
   /**
@@ -406,6 +1081,15 @@ export class Deployer {
   getHealthChecker(): HealthChecker {
     return this.healthChecker
   }
+
+  /**
+   * 获取插件管理器
+   * 
+   * @returns 插件管理器实例
+   */
+  getPluginManager(): PluginManager {
+    return this.plugins
+  }
 }
 
 
@@ -7,30 +7,42 @@
 
 import { Deployer, DeployOptions } from './Deployer.js'
 import { PreDeploymentChecker } from './PreDeploymentChecker.js'
-import { DeploymentLock } from '../utils/lock.js'
+import { StrategyDispatcher } from '../strategies/StrategyDispatcher.js'
+import { CheckpointVerifier } from './CheckpointVerifier.js'
+import { DeploymentLock, type LockTarget } from '../utils/lock.js'
+import { RollbackManager } from '../rollback/RollbackManager.js'
+import { DeploymentCheckpoint, type CheckpointInfo } from '../utils/checkpoint.js'
 import { GracefulShutdown } from '../utils/graceful-shutdown.js'
 import { ProgressTracker, DeploymentPhase } from '../utils/progress.js'
 import { AuditLogger } from '../utils/audit-log.js'
-import { withRetry, withTimeout } from '../utils/retry.js'
+import { withRetry } from '../utils/retry.js'
+import { ApprovalError, DeploymentError, PermissionError, TimeoutError, isCancellationError } from '../utils/errors.js'
 import { logger } from '../utils/logger.js'
-import type { DeployResult, DeployConfig } from '../types/index.js'
+import type { DeployResult, DeployConfig, DeployerPlugin } from '../types/index.js'
+import { hostname } from 'os'
 
 /**
  * 增强版部署选项接口
  */
 export interface EnhancedDeployOptions extends DeployOptions {
-  /** 跳过部署前置检查 */
+  /** 跳过环境前置检查（部署窗口、冻结期与部署策略仍然检查） */
   skipPreCheck?: boolean
   /** 锁获取超时时间（毫秒） */
   lockTimeout?: number
-  /** 部署超时时间（毫秒） */
+  /** 部署超时时间（毫秒），超时后中止正在执行的操作 */
   deploymentTimeout?: number
+  /** 部署超时时已开始应用变更时，自动回滚到同一环境中上一次成功的部署 */
+  rollbackOnTimeout?: boolean
   /** 启用审计日志 */
   enableAudit?: boolean
   /** 启用进度追踪 */
   enableProgress?: boolean
   /** 失败时自动重试 */
   retryOnFailure?: boolean
+  /** 从检查点恢复的部署 ID，跳过已完成的阶段 */
+  resume?: string
+  /** 紧急覆盖原因：在冻结期或部署窗口外强制部署 */
+  emergencyReason?: string
 }
 
 /**
@@ -58,21 +70,24 @@ export interface EnhancedDeployOptions extends DeployOptions {
  */
 export class EnhancedDeployer extends Deployer {
   private preChecker: PreDeploymentChecker
-  private progressTracker: ProgressTracker
-  private auditLogger: AuditLogger
+  private checkpointVerifier: CheckpointVerifier
   private lockId?: string
+  private checkpoint?: CheckpointInfo
+  private abortController?: AbortController
+  /** 本次部署是否已进入部署阶段（开始应用变更） */
+  private applyStarted = false
 
   /**
    * 创建增强版部署器实例
    * 
    * @param options - 构造选项
    * @param options.workDir - 工作目录，默认为当前目录
+   * @param options.plugins - 插件对象，与配置中的 plugins 一起加载
    */
-  constructor(options: { workDir?: string } = {}) {
+  constructor(options: { workDir?: string; plugins?: DeployerPlugin[] } = {}) {
     super(options)
     this.preChecker = new PreDeploymentChecker()
-    this.progressTracker = new ProgressTracker()
-    this.auditLogger = new AuditLogger()
+    this.checkpointVerifier = new CheckpointVerifier()
 
     // 初始化优雅退出
     GracefulShutdown.init()
@@ -86,15 +101,23 @@ export class EnhancedDeployer extends Deployer {
    * @returns 部署结果
    * 
    * @description 执行完整的部署流程，包括：
-   * 1. 获取部署锁
-   * 2. 加载配置
-   * 3. 前置检查
-   * 4. 执行部署（支持超时和重试）
-   * 5. 记录审计日志
+   * 1. 加载配置与插件
+   * 2. 获取当前应用与环境的部署锁（后端由配置中的 lock 决定）
+   * 3. 检查部署窗口、冻结期与部署策略（skipPreCheck 与 resume 都不会跳过）
+   * 4. 环境前置检查
+   * 5. 执行部署（支持超时和重试），每完成一个阶段写入检查点；
+   *    基础部署器在执行前检查受保护环境的部署审批，未获批准时创建审批请求并中止
+   * 6. 记录审计日志
    * 
-   * @throws {DeploymentError} 当部署失败时抛出
+   * 指定 resume 时沿用检查点中的部署选项，跳过产物仍然有效的已完成阶段。
+   * 调用方的 signal、部署超时与进程退出信号都会中止部署：正在执行的子进程被终止，
+   * 部署以 phase 为 cancelled 的 DeploymentError 结束；开启 rollbackOnTimeout 时，
+   * 超时中止已开始应用的部署会回滚到上一次成功的部署
+   * 
+   * @throws {DeploymentError} 当部署失败或被取消时抛出
+   * @throws {ApprovalError} 当部署尚未获得批准时抛出
+   * @throws {PermissionError} 当受保护环境的部署无法验证当前用户时抛出
    * @throws {LockError} 当无法获取部署锁时抛出
-   * @throws {TimeoutError} 当部署超时时抛出
    * 
    * @example
    * ```typescript
@@ -110,6 +133,13 @@ export class EnhancedDeployer extends Deployer {
   async deploy(options: EnhancedDeployOptions = {}): Promise<DeployResult> {
     const startTime = Date.now()
     this.lockId = `deploy-${Date.now()}`
+    this.checkpoint = undefined
+    this.applyStarted = false
+    let resolvedConfig: DeployConfig | undefined
+    let timer: NodeJS.Timeout | undefined
+    // 调用方的中止信号、部署超时、锁丢失与进程退出合并为一个信号，传给所有耗时操作
+    const controller = new AbortController()
+    this.abortController = controller
 
     try {
       // 0. 初始化
@@ -117,21 +147,69 @@ export class EnhancedDeployer extends Deployer {
         this.progressTracker.update(DeploymentPhase.INIT, 0, 'Initializing deployment')
       }
 
-      // 1. 获取部署锁
-      logger.info('🔒 Acquiring deployment lock...')
-      await DeploymentLock.acquire(this.lockId, 'deploy')
+      // 检查点中只保存密钥引用，恢复前重新解析
+      const saved = options.resume
+        ? await this.getConfigManager().resolveReferences(await DeploymentCheckpoint.load(options.resume, this.workDir))
+        : undefined
+      if (saved) {
+        logger.info(`⏯️  Resuming deployment ${saved.deploymentId} (${saved.phases.length} phase(s) completed)`)
+        options = { ...options, ...saved.options }
+      }
 
-      // 2. 加载配置
+      // 1. 加载配置与插件
       this.progressTracker.update(DeploymentPhase.VALIDATE, 5, 'Loading configuration')
-      const config = await this.getConfigManager().loadConfig()
+      const config = await this.loadConfig(options)
+      await this.initPlugins(config)
+      resolvedConfig = config
+      const lockTarget = this.getLockTarget(config)
+
+      // 2. 获取部署锁
+      if (saved) {
+        await this.releaseStaleLock(saved, lockTarget)
+      }
+      logger.info(`🔒 Acquiring deployment lock for ${config.name}/${config.environment}...`)
+      // 锁被其他进程接管时中止部署
+      await DeploymentLock.acquire(this.lockId, 'deploy', lockTarget, error => controller.abort(error))
+
+      if (saved && (saved.name !== config.name || saved.version !== config.version)) {
+        throw new DeploymentError(
+          `Checkpoint ${saved.deploymentId} was created for ${saved.name}@${saved.version}, ` +
+          `but the configuration is now ${config.name}@${config.version}`,
+          'resume',
+          { suggestion: 'Start a new deployment instead of resuming' }
+        )
+      }
+
+      if (!options.dryRun) {
+        this.checkpoint = this.createCheckpoint(config, options, saved)
+        await DeploymentCheckpoint.save(this.checkpoint, this.workDir)
+      }
 
-      // 3. 部署前置检查
+      // 3. 部署窗口、冻结期与部署策略：不受 skipPreCheck 影响，恢复部署时按当前时间重新检查
+      this.progressTracker.update(DeploymentPhase.PRE_CHECK, 10, 'Running pre-deployment checks')
+      const checkOptions = { emergencyReason: options.emergencyReason, workDir: this.workDir }
+      const guards = await this.preChecker.checkGuards(config, checkOptions)
+
+      // 紧急覆盖写入审计日志
+      const override = options.emergencyReason && guards.find(check => check.details?.emergencyOverride)
+      if (override && options.enableAudit !== false) {
+        await this.auditLogger.logEmergencyOverride({
+          name: config.name,
+          version: config.version,
+          environment: config.environment,
+          reason: override.details!.emergencyOverride,
+          violations: override.details!.violations.map((v: { message: string }) => v.message),
+        })
+      }
+
+      // 4. 环境前置检查
       if (!options.skipPreCheck) {
-        this.progressTracker.update(DeploymentPhase.PRE_CHECK, 10, 'Running pre-deployment checks')
-        await this.preChecker.checkAll(config)
+        await this.runPhase(DeploymentPhase.PRE_CHECK, config, () =>
+          this.preChecker.checkAll(config, { ...checkOptions, skipGuards: true })
+        )
       }
 
-      // 4. 审计日志 - 开始
+      // 5. 审计日志 - 开始
       if (options.enableAudit !== false) {
         await this.auditLogger.logDeploymentStart({
           name: config.name,
@@ -141,39 +219,53 @@ export class EnhancedDeployer extends Deployer {
         })
       }
 
-      // 5. 执行部署（带超时）
-      this.progressTracker.update(DeploymentPhase.DEPLOY, 20, 'Starting deployment')
+      // 6. 执行部署（带超时），审批由基础部署器检查
+      const strategy = StrategyDispatcher.resolve(config, options.strategy)
+      this.progressTracker.update(
+        DeploymentPhase.DEPLOY,
+        20,
+        strategy ? `Starting deployment (${strategy} strategy)` : 'Starting deployment'
+      )
+
+      const timeout = options.deploymentTimeout
+      if (timeout) {
+        timer = setTimeout(() => {
+          controller.abort(new TimeoutError(`Deployment timed out after ${timeout}ms`, 'Deployment', timeout))
+        }, timeout)
+      }
+      const signal = options.signal ? AbortSignal.any([options.signal, controller.signal]) : controller.signal
 
+      // 沿用已加载的配置，插件的 configResolved 钩子不会重复执行
+      const deployOptions = { ...options, config, signal }
       let result: DeployResult
 
-      if (options.deploymentTimeout) {
-        result = await withTimeout(
-          super.deploy(options),
-          options.deploymentTimeout,
-          'Deployment'
-        )
-      } else if (options.retryOnFailure) {
+      if (options.retryOnFailure) {
         result = await withRetry(
-          () => super.deploy(options),
+          () => super.deploy(deployOptions),
           {
             maxAttempts: 3,
             delay: 5000,
-            timeout: options.deploymentTimeout,
+            signal,
+            shouldRetry: error => !isCancellationError(error) &&
+              !(error instanceof ApprovalError) && !(error instanceof PermissionError),
             onRetry: (attempt, error) => {
               logger.warn(`Deployment attempt ${attempt} failed: ${error.message}`)
             },
           }
         )
       } else {
-        result = await super.deploy(options)
+        result = await super.deploy(deployOptions)
       }
 
-      // 6. 完成
+      // 7. 完成
       const duration = Date.now() - startTime
-      this.progressTracker.complete('Deployment completed successfully')
+      await this.finishCheckpoint(result.success ? undefined : result.message)
+      this.progressTracker.complete(
+        result.pending ? 'Deployment is awaiting traffic switch' : 'Deployment completed successfully'
+      )
 
-      // 7. 审计日志 - 成功
-      if (options.enableAudit !== false) {
+      // 8. 审计日志 - 成功（等待切换的部署尚未完成）
+      if (options.enableAudit !== false && !result.pending) {
         await this.auditLogger.logDeploymentSuccess({
           name: config.name,
           version: config.version,
@@ -185,11 +277,24 @@ export class EnhancedDeployer extends Deployer {
       return result
     } catch (error: any) {
       const duration = Date.now() - startTime
+      await this.finishCheckpoint(error.message)
       this.progressTracker.fail(error.message)
+      // 取消错误由基础部署器抛出，onError 已经执行
+      if (!isCancellationError(error)) {
+        await this.plugins.runHook('onError', { error, config: resolvedConfig })
+      }
+
+      // 超时中止了已开始应用的部署时回滚
+      if (
+        isCancellationError(error) && error.details?.timedOut &&
+        options.rollbackOnTimeout && this.applyStarted && resolvedConfig && !options.dryRun
+      ) {
+        await this.rollbackAfterTimeout(resolvedConfig, options)
+      }
 
       // 审计日志 - 失败
       if (options.enableAudit !== false) {
-        const config = await this.getConfigManager().loadConfig().catch(() => ({
+        const config = resolvedConfig || await this.getConfigManager().loadConfig().catch(() => ({
           name: 'unknown',
           version: 'unknown',
           environment: 'development' as const,
@@ -206,6 +311,9 @@ export class EnhancedDeployer extends Deployer {
 
       throw error
     } finally {
+      clearTimeout(timer)
+      this.abortController = undefined
+
       // 释放锁
       if (this.lockId) {
         await DeploymentLock.release(this.lockId)
@@ -231,6 +339,73 @@ export class EnhancedDeployer extends Deployer {
     return this.auditLogger
   }
 
+  /**
+   * 获取当前部署的检查点
+   * 
+   * @returns 检查点，未开始部署或试运行时返回 undefined
+   */
+  getCheckpoint(): CheckpointInfo | undefined {
+    return this.checkpoint
+  }
+
+  /**
+   * 执行部署阶段并记录检查点
+   * 
+   * @protected
+   * @description 已完成且产物仍然有效的阶段直接返回记录的结果；
+   * 产物失效时从该阶段起重新执行。返回 success: false 的部署结果不视为完成
+   */
+  protected async runPhase<T>(phase: DeploymentPhase, config: DeployConfig, task: () => Promise<T>): Promise<T> {
+    // 写入检查点或应用变更前确认锁仍由本次部署持有
+    if (this.lockId) {
+      await DeploymentLock.verify(this.lockId)
+    }
+
+    if (phase === DeploymentPhase.DEPLOY) {
+      this.applyStarted = true
+    }
+
+    const checkpoint = this.checkpoint
+    if (!checkpoint) {
+      return super.runPhase(phase, config, task)
+    }
+
+    const index = checkpoint.phases.findIndex(completed =>
+      completed.phase === phase && completed.target === config.name
+    )
+    if (index > -1) {
+      const completed = checkpoint.phases[index]
+      const reason = await this.checkpointVerifier.verify(phase, config, completed.artifacts)
+
+      if (!reason) {
+        logger.info(`⏭️  Skipping completed phase: ${phase} (${config.name})`)
+        return completed.output as T
+      }
+
+      logger.warn(`Checkpoint of phase ${phase} is no longer valid (${reason}), re-running from here`)
+      checkpoint.phases = checkpoint.phases.slice(0, index)
+    }
+
+    checkpoint.currentPhase = phase
+    await DeploymentCheckpoint.save(checkpoint, this.workDir)
+
+    const output = await super.runPhase(phase, config, task)
+
+    if ((output as any)?.success !== false) {
+      checkpoint.phases.push({
+        phase,
+        target: config.name,
+        completedAt: new Date().toISOString(),
+        output,
+        artifacts: await this.checkpointVerifier.capture(phase, config),
+      })
+    }
+    checkpoint.currentPhase = undefined
+    await DeploymentCheckpoint.save(checkpoint, this.workDir)
+
+    return output
+  }
+
   /**
    * 获取前置检查器
    * 
@@ -250,6 +425,16 @@ export class EnhancedDeployer extends Deployer {
     GracefulShutdown.register(async () => {
       logger.info('Cleaning up deployment resources...')
 
+      // 终止正在执行的构建、kubectl 与钩子进程
+      this.abortController?.abort(new Error('Deployment interrupted by shutdown signal'))
+
+      // 保存检查点，之后可通过 deploy --resume 继续
+      if (this.checkpoint) {
+        this.checkpoint.status = 'interrupted'
+        await DeploymentCheckpoint.save(this.checkpoint, this.workDir)
+        logger.info(`Checkpoint saved, resume with: ldesign-deployer deploy --resume ${this.checkpoint.deploymentId}`)
+      }
+
       // 释放锁
       if (this.lockId) {
         await DeploymentLock.release(this.lockId)
@@ -259,6 +444,142 @@ export class EnhancedDeployer extends Deployer {
     })
   }
 
+  /**
+   * 部署超时中止后回滚到同一环境中上一次成功的部署
+   * 
+   * @private
+   * @description 回滚失败只输出错误，部署仍以取消错误结束
+   */
+  private async rollbackAfterTimeout(config: DeployConfig, options: EnhancedDeployOptions): Promise<void> {
+    const previous = await this.getLastSuccessfulDeployment(config)
+    if (!previous) {
+      logger.warn(`No previous successful deployment of ${config.name} in ${config.environment}, skipping rollback`)
+      return
+    }
+
+    logger.warn(`⏪ Deployment timed out after changes were applied, rolling back to ${previous.version}...`)
+    const startTime = Date.now()
+    // 回滚同一应用与环境的记录，钩子沿用部署器配置的执行器
+    const result = await new RollbackManager({
+      plugins: this.plugins,
+      hookRunner: this.hookRunner,
+      configManager: this.getConfigManager(),
+    }).rollback({
+      target: previous,
+      rollbackFrom: config.version,
+    })
+
+    if (result.success) {
+      logger.success(`Rolled back to ${previous.version}`)
+    } else {
+      logger.error(`Rollback after timeout failed: ${result.message}`)
+    }
+
+    if (options.enableAudit !== false) {
+      await this.auditLogger.logRollback({
+        name: config.name,
+        fromVersion: config.version,
+        toVersion: previous.version,
+        environment: config.environment,
+        duration: Date.now() - startTime,
+        result: result.success ? 'success' : 'failure',
+      })
+    }
+  }
+
+  /**
+   * 创建检查点，恢复时沿用已完成的阶段
+   * 
+   * @private
+   */
+  private createCheckpoint(
+    config: DeployConfig,
+    options: EnhancedDeployOptions,
+    saved?: CheckpointInfo
+  ): CheckpointInfo {
+    const now = new Date().toISOString()
+
+    return {
+      deploymentId: saved?.deploymentId || this.lockId!,
+      name: config.name,
+      version: config.version,
+      environment: config.environment,
+      platform: config.platform,
+      pid: process.pid,
+      status: 'running',
+      phases: saved?.phases || [],
+      options: {
+        environment: options.environment,
+        region: options.region,
+        configFile: options.configFile,
+        strategy: options.strategy,
+        skipHealthCheck: options.skipHealthCheck,
+        skipHooks: options.skipHooks,
+        skipPreCheck: options.skipPreCheck,
+      },
+      createdAt: saved?.createdAt || now,
+      updatedAt: now,
+    }
+  }
+
+  /**
+   * 部署结束：成功时删除检查点，失败时保留以便恢复
+   * 
+   * @private
+   * @param error - 失败原因，成功时为 undefined
+   */
+  private async finishCheckpoint(error?: string): Promise<void> {
+    const checkpoint = this.checkpoint
+    if (!checkpoint) {
+      return
+    }
+
+    this.checkpoint = undefined
+
+    if (!error) {
+      await DeploymentCheckpoint.clear(checkpoint, this.workDir)
+      return
+    }
+
+    checkpoint.status = 'failed'
+    checkpoint.error = error
+    await DeploymentCheckpoint.save(checkpoint, this.workDir)
+    logger.info(`Resume with: ldesign-deployer deploy --resume ${checkpoint.deploymentId}`)
+  }
+
+  /**
+   * 获取部署锁目标：按应用与环境加锁
+   * 
+   * @private
+   */
+  private getLockTarget(config: DeployConfig): LockTarget {
+    return {
+      scope: { app: config.name, environment: config.environment },
+      config: config.lock,
+      workDir: this.workDir,
+    }
+  }
+
+  /**
+   * 释放崩溃进程遗留的部署锁
+   * 
+   * @private
+   * @description 只有锁属于本机上检查点记录的进程且该进程已不存在时才释放
+   */
+  private async releaseStaleLock(saved: CheckpointInfo, target: LockTarget): Promise<void> {
+    const lock = await DeploymentLock.getLockInfo(target)
+    if (!lock || lock.pid !== saved.pid || lock.pid === process.pid || (lock.host && lock.host !== hostname())) {
+      return
+    }
+
+    try {
+      process.kill(lock.pid, 0)
+    } catch {
+      logger.warn(`Releasing lock left by crashed process ${lock.pid}`)
+      await DeploymentLock.forceRelease(target)
+    }
+  }
+
   /**
    * 监听部署进度
    * 
@@ -280,6 +601,7 @@ export class EnhancedDeployer extends Deployer {
   /**
    * 强制释放部署锁
    * 
+   * @param config - 指定时只释放该应用与环境的锁（使用其锁后端），否则释放本地文件锁
    * @description ⚠️ 仅在调试或异常情况下使用，可能导致部署冲突
    * 
    * @example
@@ -287,14 +609,15 @@ export class EnhancedDeployer extends Deployer {
    * await deployer.forceReleaseLock();
    * ```
    */
-  async forceReleaseLock(): Promise<void> {
-    await DeploymentLock.forceRelease()
+  async forceReleaseLock(config?: DeployConfig): Promise<void> {
+    await DeploymentLock.forceRelease(config ? this.getLockTarget(config) : { workDir: this.workDir })
     logger.warn('Deployment lock forcefully released')
   }
 
   /**
    * 检查是否有部署正在进行
    * 
+   * @param config - 指定时只检查该应用与环境的锁（使用其锁后端）
    * @returns 如果有部署正在进行则返回 true
    * 
    * @example
@@ -305,8 +628,8 @@ export class EnhancedDeployer extends Deployer {
    * }
    * ```
    */
-  async isDeploymentInProgress(): Promise<boolean> {
-    return DeploymentLock.isLocked()
+  async isDeploymentInProgress(config?: DeployConfig): Promise<boolean> {
+    return DeploymentLock.isLocked(config ? this.getLockTarget(config) : { workDir: this.workDir })
   }
 }
 
@@ -315,6 +638,7 @@ export class EnhancedDeployer extends Deployer {
  * 
  * @param options - 配置选项
  * @param options.workDir - 工作目录
+ * @param options.plugins - 插件对象
  * @returns 增强版部署器实例
  * 
  * @example
@@ -324,7 +648,7 @@ export class EnhancedDeployer extends Deployer {
  * });
  * ```
  */
-export function createEnhancedDeployer(options?: { workDir?: string }): EnhancedDeployer {
+export function createEnhancedDeployer(options?: { workDir?: string; plugins?: DeployerPlugin[] }): EnhancedDeployer {
   return new EnhancedDeployer(options)
 }
 
@@ -17,8 +17,10 @@ export interface HealthCheckResult {
 export class HealthChecker {
   /**
    * 执行健康检查
+   *
+   * @param signal - 中止信号，触发时中断请求并以信号的原因拒绝
    */
-  async check(config: HealthCheckConfig): Promise<HealthCheckResult> {
+  async check(config: HealthCheckConfig, signal?: AbortSignal): Promise<HealthCheckResult> {
     if (!config.enabled) {
       return {
         healthy: true,
@@ -31,7 +33,7 @@ export class HealthChecker {
     const startTime = Date.now()
 
     try {
-      const healthy = await this.performCheck(config)
+      const healthy = await this.performCheck(config, signal)
       const duration = Date.now() - startTime
 
       return {
@@ -41,6 +43,10 @@ export class HealthChecker {
         duration,
       }
     } catch (error: any) {
+      if (signal?.aborted) {
+        throw signal.reason
+      }
+
       const duration = Date.now() - startTime
 
       return {
@@ -55,21 +61,25 @@ export class HealthChecker {
   /**
    * 执行 HTTP 健康检查
    */
-  async checkHttp(url: string, timeout = 5000): Promise<boolean> {
-    return new Promise((resolve) => {
+  async checkHttp(url: string, timeout = 5000, signal?: AbortSignal): Promise<boolean> {
+    return new Promise((resolve, reject) => {
       const client = url.startsWith('https') ? https : http
       const timer = setTimeout(() => {
         resolve(false)
       }, timeout)
 
       client
-        .get(url, (res) => {
+        .get(url, { signal }, (res) => {
           clearTimeout(timer)
           resolve(res.statusCode === 200)
         })
         .on('error', () => {
           clearTimeout(timer)
-          resolve(false)
+          if (signal?.aborted) {
+            reject(signal.reason)
+          } else {
+            resolve(false)
+          }
         })
     })
   }
@@ -124,18 +134,19 @@ export class HealthChecker {
   /**
    * 执行健康检查
    */
-  private async performCheck(config: HealthCheckConfig): Promise<boolean> {
+  private async performCheck(config: HealthCheckConfig, signal?: AbortSignal): Promise<boolean> {
     const url = `http://localhost:${config.port || 3000}${config.path || '/health'}`
-    return this.checkHttp(url, config.timeout || 5000)
+    return this.checkHttp(url, config.timeout || 5000, signal)
   }
 
   /**
-   * 持续健康检查（用于监控）
+   * 持续健康检查（用于监控），中止信号触发时停止
    */
   async monitor(
     config: HealthCheckConfig,
     onResult: (result: HealthCheckResult) => void,
-    intervalMs?: number
+    intervalMs?: number,
+    signal?: AbortSignal
   ): Promise<() => void> {
     const interval = intervalMs || (config.interval || 30) * 1000
 
@@ -148,8 +159,11 @@ export class HealthChecker {
       }
     }, interval)
 
+    const stop = () => clearInterval(intervalId)
+    signal?.addEventListener('abort', stop, { once: true })
+
     // 返回停止函数
-    return () => clearInterval(intervalId)
+    return stop
   }
 }
 
@@ -0,0 +1,390 @@
+/**
+ * 钩子执行器
+ * @module core/HookRunner
+ *
+ * @description 执行配置中的部署与回滚钩子：按 when 过滤环境与平台，支持工作目录、环境变量、
+ * 超时、重试与 continueOnError。部署上下文以 DEPLOY_* 环境变量传给命令，
+ * 每个钩子的输出（遮蔽密钥后）写入审计日志。
+ * 命令在独立的进程组中运行，超时或中止时终止整个进程组，脚本启动的子进程不会残留
+ */
+
+import { spawn } from 'child_process'
+import { resolve } from 'path'
+import { ImageBuilder } from '../docker/ImageBuilder.js'
+import { AuditLogger } from '../utils/audit-log.js'
+import { DeploymentError } from '../utils/errors.js'
+import { logger, maskSecrets } from '../utils/logger.js'
+import { withRetry } from '../utils/retry.js'
+import type { DeployConfig, HookDefinition, HookEntry, HookType } from '../types/index.js'
+
+const DEFAULT_RETRY_DELAY = 5
+
+/** 命令输出上限（字节），超出时终止命令 */
+const MAX_OUTPUT_BUFFER = 10 * 1024 * 1024
+
+/** 发送 SIGTERM 后等待进程组退出的时间，超时后发送 SIGKILL */
+const KILL_GRACE_PERIOD = 5000
+
+/** 写入审计日志的输出上限（字符），超出时保留末尾 */
+const MAX_AUDIT_OUTPUT = 4096
+
+/**
+ * 钩子命令执行选项
+ */
+export interface HookExecOptions {
+  cwd: string
+  env: NodeJS.ProcessEnv
+  /** 超时（毫秒） */
+  timeout?: number
+  shell?: string
+  /** 中止信号，触发时终止命令 */
+  signal?: AbortSignal
+}
+
+/**
+ * 执行钩子命令的函数，失败时抛出的错误可以带有 stdout、stderr、code、killed
+ * 与 failure（进程被终止的原因：timed out、aborted 或超出输出上限）
+ */
+export type HookExecutor = (command: string, options: HookExecOptions) => Promise<{ stdout: string; stderr: string }>
+
+/**
+ * 钩子执行上下文
+ */
+export interface HookContext {
+  config: DeployConfig
+  /** 镜像引用，默认由配置推导 */
+  image?: string
+  /** 镜像仓库摘要 */
+  digest?: string
+  /** 回滚前的版本（回滚钩子） */
+  rollbackFrom?: string
+  /** 中止信号，触发时终止正在执行的钩子，不再执行后续钩子 */
+  signal?: AbortSignal
+}
+
+/**
+ * 钩子执行结果
+ */
+export interface HookResult {
+  name: string
+  command: string
+  status: 'success' | 'failed' | 'skipped'
+  attempts: number
+  /** 耗时（毫秒） */
+  duration: number
+  exitCode?: number
+  stdout?: string
+  stderr?: string
+  error?: string
+  /** 跳过原因 */
+  reason?: string
+}
+
+/**
+ * 钩子执行器构造选项
+ */
+export interface HookRunnerOptions {
+  /** 工作目录，钩子的 cwd 相对该目录，默认为当前目录 */
+  workDir?: string
+  executor?: HookExecutor
+  auditLogger?: AuditLogger
+}
+
+/**
+ * 钩子执行器类
+ *
+ * @example
+ * ```typescript
+ * const runner = new HookRunner({ auditLogger });
+ * await runner.run('preDeploy', { config });
+ * ```
+ */
+export class HookRunner {
+  private workDir: string
+  private executor: HookExecutor
+  private auditLogger?: AuditLogger
+
+  constructor(options: HookRunnerOptions = {}) {
+    this.workDir = options.workDir || process.cwd()
+    this.executor = options.executor || execHook
+    this.auditLogger = options.auditLogger
+  }
+
+  /**
+   * 依次执行配置中某一类型的钩子
+   *
+   * @returns 每个钩子的执行结果
+   * @throws {DeploymentError} 未设置 continueOnError 的钩子失败时抛出，后续钩子不再执行
+   * @throws 中止信号触发时抛出信号的原因
+   */
+  async run(type: HookType, context: HookContext): Promise<HookResult[]> {
+    const hooks = context.config.hooks?.[type]
+    if (!hooks || hooks.length === 0) {
+      return []
+    }
+
+    logger.info(`Running ${type} hooks...`)
+
+    const results: HookResult[] = []
+    for (const entry of hooks) {
+      const hook = normalizeHook(entry)
+      const result = await this.runHook(type, hook, context)
+      results.push(result)
+      context.signal?.throwIfAborted()
+
+      if (result.status !== 'failed') {
+        continue
+      }
+      if (!hook.continueOnError) {
+        throw new DeploymentError(`Hook ${result.name} failed: ${result.error}`, type, {
+          details: { hook: result.name, exitCode: result.exitCode },
+          suggestion: '查看审计日志中的钩子输出，或为该钩子设置 continueOnError',
+        })
+      }
+      logger.warn(`Hook ${result.name} failed (continueOnError): ${result.error}`)
+    }
+
+    logger.success(`${type} hooks completed`)
+    return results
+  }
+
+  /**
+   * 执行单个钩子并写入审计日志
+   */
+  private async runHook(type: HookType, hook: HookDefinition, context: HookContext): Promise<HookResult> {
+    const { config } = context
+    const name = hook.name || hook.run
+    const result: HookResult = { name, command: hook.run, status: 'success', attempts: 0, duration: 0 }
+
+    const reason = this.getSkipReason(hook, config)
+    if (reason) {
+      logger.debug(`Skipping hook ${name}: ${reason}`)
+      return { ...result, status: 'skipped', reason }
+    }
+
+    const start = Date.now()
+    const options: HookExecOptions = {
+      cwd: resolve(this.workDir, hook.cwd || '.'),
+      env: { ...process.env, ...this.getContextEnv(type, context), ...hook.env },
+      timeout: hook.timeout ? hook.timeout * 1000 : undefined,
+      shell: hook.shell,
+      signal: context.signal,
+    }
+
+    try {
+      const output = await withRetry(
+        async () => {
+          result.attempts++
+          logger.debug(`Executing: ${hook.run}`)
+          return this.executor(hook.run, options)
+        },
+        {
+          maxAttempts: (hook.retries || 0) + 1,
+          delay: (hook.retryDelay ?? DEFAULT_RETRY_DELAY) * 1000,
+          backoff: 1,
+          signal: context.signal,
+          onRetry: (attempt, error) => {
+            logger.warn(`Hook ${name} attempt ${attempt} failed: ${describeFailure(error, hook)}, retrying...`)
+          },
+        }
+      )
+
+      if (output.stdout) logger.debug(output.stdout)
+      if (output.stderr) logger.warn(output.stderr)
+      result.stdout = output.stdout
+      result.stderr = output.stderr
+      result.exitCode = 0
+    } catch (error: any) {
+      logger.error(`Hook failed: ${name}`)
+      result.status = 'failed'
+      result.error = context.signal?.aborted ? 'cancelled' : describeFailure(error, hook)
+      result.stdout = error.stdout
+      result.stderr = error.stderr
+      result.exitCode = typeof error.code === 'number' ? error.code : undefined
+    } finally {
+      result.duration = Date.now() - start
+    }
+
+    await this.auditLogger?.logHook({
+      name: config.name,
+      version: config.version,
+      environment: config.environment,
+      type,
+      hook: name,
+      command: hook.run,
+      status: result.status as 'success' | 'failed',
+      attempts: result.attempts,
+      duration: result.duration,
+      exitCode: result.exitCode,
+      stdout: truncateOutput(result.stdout),
+      stderr: truncateOutput(result.stderr),
+      error: result.error,
+    })
+
+    return result
+  }
+
+  /**
+   * 判断钩子是否需要跳过
+   *
+   * @returns 跳过原因，需要执行时返回 null
+   */
+  private getSkipReason(hook: HookDefinition, config: DeployConfig): string | null {
+    const when = hook.when || {}
+
+    if (when.environments && !when.environments.includes(config.environment)) {
+      return `environment ${config.environment} not in ${when.environments.join(', ')}`
+    }
+    if (when.platforms && !when.platforms.includes(config.platform)) {
+      return `platform ${config.platform} not in ${when.platforms.join(', ')}`
+    }
+
+    return null
+  }
+
+  /**
+   * 以环境变量传给钩子的部署上下文
+   */
+  private getContextEnv(type: HookType, context: HookContext): Record<string, string> {
+    const { config } = context
+    const env: Record<string, string> = {
+      DEPLOY_HOOK: type,
+      DEPLOY_APP: config.name,
+      DEPLOY_VERSION: config.version,
+      DEPLOY_ENVIRONMENT: config.environment,
+      DEPLOY_PLATFORM: config.platform,
+      DEPLOY_IMAGE: context.image || ImageBuilder.getDeployReference(config),
+    }
+
+    if (context.digest) {
+      env.DEPLOY_IMAGE_DIGEST = context.digest
+    }
+    if (context.rollbackFrom) {
+      env.DEPLOY_ROLLBACK_FROM = context.rollbackFrom
+    }
+
+    return env
+  }
+}
+
+/**
+ * 默认执行器：在独立进程组中通过 shell 执行命令
+ *
+ * @description 失败时抛出的错误与 child_process.exec 一致，带有 stdout、stderr、code 与 killed，
+ * 被终止时 failure 记录原因
+ */
+function execHook(command: string, options: HookExecOptions): Promise<{ stdout: string; stderr: string }> {
+  return new Promise((resolvePromise, reject) => {
+    const groupKill = process.platform !== 'win32'
+    const child = spawn(command, {
+      cwd: options.cwd,
+      env: options.env,
+      shell: options.shell || true,
+      detached: groupKill,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    })
+
+    let stdout = ''
+    let stderr = ''
+    let killed = false
+    let failure: string | undefined
+    let forceKillTimer: NodeJS.Timeout | undefined
+
+    const kill = (reason: string) => {
+      if (killed) {
+        return
+      }
+      killed = true
+      failure = reason
+      signalGroup('SIGTERM')
+      forceKillTimer = setTimeout(() => signalGroup('SIGKILL'), KILL_GRACE_PERIOD)
+    }
+
+    const signalGroup = (signal: NodeJS.Signals) => {
+      try {
+        if (groupKill && child.pid) {
+          process.kill(-child.pid, signal)
+        } else {
+          child.kill(signal)
+        }
+      } catch {
+        // 进程组已退出
+      }
+    }
+
+    const collect = (chunk: Buffer, stream: 'stdout' | 'stderr') => {
+      if (stream === 'stdout') {
+        stdout += chunk
+      } else {
+        stderr += chunk
+      }
+      if (stdout.length + stderr.length > MAX_OUTPUT_BUFFER) {
+        kill(`${stream} maxBuffer length exceeded`)
+      }
+    }
+
+    child.stdout!.on('data', chunk => collect(chunk, 'stdout'))
+    child.stderr!.on('data', chunk => collect(chunk, 'stderr'))
+
+    const timer = options.timeout ? setTimeout(() => kill('timed out'), options.timeout) : undefined
+    const onAbort = () => kill('aborted')
+    if (options.signal?.aborted) {
+      onAbort()
+    } else {
+      options.signal?.addEventListener('abort', onAbort, { once: true })
+    }
+
+    const cleanup = () => {
+      clearTimeout(timer)
+      clearTimeout(forceKillTimer)
+      options.signal?.removeEventListener('abort', onAbort)
+    }
+
+    child.on('error', error => {
+      cleanup()
+      reject(Object.assign(error, { stdout, stderr }))
+    })
+
+    child.on('close', (code, signal) => {
+      cleanup()
+
+      if (code === 0 && !killed) {
+        resolvePromise({ stdout, stderr })
+        return
+      }
+
+      const detail = failure || stderr.trim()
+      const error = new Error(`Command failed: ${command}${detail ? `\n${detail}` : ''}`)
+      reject(Object.assign(error, { stdout, stderr, code: code ?? undefined, signal, killed, failure }))
+    })
+  })
+}
+
+/**
+ * 命令字符串等同于 { run: 命令 }
+ */
+function normalizeHook(entry: HookEntry): HookDefinition {
+  return typeof entry === 'string' ? { run: entry } : entry
+}
+
+/**
+ * 描述钩子失败的原因，被终止时使用执行器记录的 failure
+ */
+function describeFailure(error: any, hook: HookDefinition): string {
+  if (error?.failure === 'timed out' && hook.timeout) {
+    return `timed out after ${hook.timeout}s`
+  }
+  return error?.failure || error?.message || String(error)
+}
+
+/**
+ * 遮蔽密钥并截断输出，保留末尾
+ */
+function truncateOutput(output?: string): string | undefined {
+  if (!output) {
+    return undefined
+  }
+
+  const masked = maskSecrets(output)
+  return masked.length > MAX_AUDIT_OUTPUT ? `...${masked.slice(-MAX_AUDIT_OUTPUT)}` : masked
+}
@@ -0,0 +1,489 @@
+/**
+ * 部署流水线执行器
+ * @module core/PipelineExecutor
+ *
+ * @description 按 dependsOn 构成的有向无环图执行流水线阶段，
+ * 依赖均已结束的阶段并行执行，支持条件、重试与超时，
+ * 阶段状态通过 ProgressTracker 与审计日志上报
+ */
+
+import { exec } from 'child_process'
+import { promisify } from 'util'
+import { logger } from '../utils/logger.js'
+import { ConfigError, TimeoutError } from '../utils/errors.js'
+import { withRetry } from '../utils/retry.js'
+import { DeploymentPhase, type ProgressTracker } from '../utils/progress.js'
+import type { AuditLogger } from '../utils/audit-log.js'
+import type { CommandExecutor } from '../kubernetes/DeploymentManager.js'
+import type {
+  Environment,
+  PipelineConfig,
+  PipelineResult,
+  PipelineStageConfig,
+  PipelineStageResult,
+  PipelineStageType,
+} from '../types/index.js'
+
+const execAsync = promisify(exec)
+
+const STAGE_TYPES: PipelineStageType[] = ['build', 'test', 'migrate', 'deploy', 'verify', 'notify', 'custom']
+
+const DEFAULT_RETRY_DELAY = 5
+
+/**
+ * 阶段类型对应的进度阶段
+ */
+const STAGE_PHASES: Partial<Record<PipelineStageType, DeploymentPhase>> = {
+  build: DeploymentPhase.BUILD,
+  deploy: DeploymentPhase.DEPLOY,
+  verify: DeploymentPhase.HEALTH_CHECK,
+}
+
+/**
+ * 内置阶段处理函数
+ *
+ * @param signal - 本次尝试的中止信号，阶段超时或流水线中止时触发
+ */
+export type PipelineStageHandler = (stage: PipelineStageConfig, signal: AbortSignal) => Promise<void>
+
+/**
+ * 流水线执行选项
+ */
+export interface PipelineExecutorOptions {
+  /** 应用名称（审计日志资源） */
+  name: string
+  version: string
+  environment: Environment
+  /** 未配置 commands 时按阶段类型调用的处理函数（如 deploy、verify） */
+  handlers?: Partial<Record<PipelineStageType, PipelineStageHandler>>
+  /** 执行阶段命令的函数 */
+  executor?: CommandExecutor
+  progressTracker?: ProgressTracker
+  auditLogger?: AuditLogger
+  /** 试运行：只解析执行顺序，不执行阶段 */
+  dryRun?: boolean
+  /** 中止信号：终止正在执行的命令，未开始的阶段不再执行 */
+  signal?: AbortSignal
+}
+
+/**
+ * 流水线执行器类
+ *
+ * @example
+ * ```typescript
+ * const executor = new PipelineExecutor({
+ *   name: 'shop',
+ *   version: '1.1.0',
+ *   environment: 'production',
+ *   handlers: { deploy: async () => { ... } },
+ * });
+ *
+ * const result = await executor.run({
+ *   stages: [
+ *     { name: 'build', commands: ['npm run build'] },
+ *     { name: 'test', commands: ['npm test'] },
+ *     { name: 'deploy', dependsOn: ['build', 'test'] },
+ *     { name: 'notify', dependsOn: ['deploy'], when: { status: 'failure' }, commands: ['./notify.sh'] },
+ *   ],
+ * });
+ * ```
+ */
+export class PipelineExecutor {
+  private options: PipelineExecutorOptions
+  private executor: CommandExecutor
+
+  constructor(options: PipelineExecutorOptions) {
+    this.options = options
+    this.executor = options.executor || execAsync
+  }
+
+  /**
+   * 校验流水线：阶段名称唯一、依赖存在且无环
+   *
+   * @throws {ConfigError} 校验失败时抛出
+   */
+  static validate(pipeline: PipelineConfig): void {
+    const names = new Set<string>()
+
+    for (const stage of pipeline.stages) {
+      if (names.has(stage.name)) {
+        throw new ConfigError(`Duplicate pipeline stage: ${stage.name}`, { field: 'pipeline.stages' })
+      }
+      names.add(stage.name)
+    }
+
+    for (const stage of pipeline.stages) {
+      for (const dependency of stage.dependsOn || []) {
+        if (!names.has(dependency)) {
+          throw new ConfigError(`Stage ${stage.name} depends on unknown stage: ${dependency}`, {
+            field: `pipeline.stages.${stage.name}.dependsOn`,
+          })
+        }
+      }
+    }
+
+    const cycle = PipelineExecutor.findCycle(pipeline.stages)
+    if (cycle) {
+      throw new ConfigError(`Pipeline contains a dependency cycle: ${cycle.join(' -> ')}`, {
+        field: 'pipeline.stages',
+      })
+    }
+  }
+
+  /**
+   * 执行流水线
+   *
+   * @throws {ConfigError} 流水线无效或阶段既没有命令也没有处理函数时抛出
+   */
+  async run(pipeline: PipelineConfig): Promise<PipelineResult> {
+    PipelineExecutor.validate(pipeline)
+
+    for (const stage of pipeline.stages) {
+      const type = this.getStageType(stage)
+      if (!stage.commands?.length && !this.options.handlers?.[type]) {
+        throw new ConfigError(`Stage ${stage.name} has no commands`, {
+          field: `pipeline.stages.${stage.name}.commands`,
+          suggestion: '只有 deploy 与 verify 阶段可以省略 commands',
+        })
+      }
+    }
+
+    const startTime = Date.now()
+    const concurrency = pipeline.concurrency || Infinity
+    const failFast = pipeline.failFast !== false
+
+    const results = new Map<string, PipelineStageResult>(
+      pipeline.stages.map(stage => [stage.name, {
+        name: stage.name,
+        type: this.getStageType(stage),
+        status: 'pending',
+        attempts: 0,
+        duration: 0,
+      }])
+    )
+    const running = new Map<string, Promise<void>>()
+    // 因上游失败而跳过的阶段，其下游按失败处理
+    const blocked = new Set<string>()
+    let halted = false
+
+    logger.info(`Running pipeline with ${pipeline.stages.length} stages`)
+
+    while (true) {
+      let changed: boolean
+
+      do {
+        changed = false
+
+        for (const stage of pipeline.stages) {
+          const result = results.get(stage.name)!
+          if (result.status !== 'pending' || running.size >= concurrency) {
+            continue
+          }
+
+          const dependencies = stage.dependsOn || []
+          if (dependencies.some(name => !this.isFinished(results.get(name)!))) {
+            continue
+          }
+
+          const upstreamFailed = dependencies.some(name =>
+            blocked.has(name) || this.isHardFailure(results.get(name)!, pipeline)
+          )
+          const skip = this.getSkipReason(stage, upstreamFailed, halted)
+
+          if (skip) {
+            result.status = 'skipped'
+            result.reason = skip.reason
+            if (skip.blocked) {
+              blocked.add(stage.name)
+            }
+            logger.info(`Skipping stage ${stage.name}: ${skip.reason}`)
+            await this.report(result, results)
+            changed = true
+            continue
+          }
+
+          result.status = 'running'
+          running.set(stage.name, this.runStage(stage, result, results).then(async () => {
+            running.delete(stage.name)
+            if (this.options.signal?.aborted || (result.status === 'failed' && !stage.continueOnError && failFast)) {
+              halted = true
+            }
+            await this.report(result, results)
+          }))
+          changed = true
+        }
+      } while (changed)
+
+      if (running.size === 0) {
+        break
+      }
+
+      await Promise.race(running.values())
+    }
+
+    const stages = pipeline.stages.map(stage => results.get(stage.name)!)
+    const success = stages.every(result => !this.isHardFailure(result, pipeline))
+
+    const duration = Date.now() - startTime
+    if (success) {
+      logger.success(`Pipeline completed in ${(duration / 1000).toFixed(2)}s`)
+    } else {
+      const failed = stages.filter(result => result.status === 'failed').map(result => result.name)
+      logger.error(`Pipeline failed: ${failed.join(', ')}`)
+    }
+
+    return { success, stages, duration }
+  }
+
+  /**
+   * 执行单个阶段（含重试与超时）
+   */
+  private async runStage(
+    stage: PipelineStageConfig,
+    result: PipelineStageResult,
+    results: Map<string, PipelineStageResult>
+  ): Promise<void> {
+    const start = Date.now()
+    result.startedAt = new Date(start).toISOString()
+
+    if (this.options.dryRun) {
+      logger.info(`[dry run] Would run stage ${stage.name}`)
+      result.status = 'skipped'
+      result.reason = 'dry run'
+      result.finishedAt = new Date().toISOString()
+      return
+    }
+
+    this.options.progressTracker?.update(
+      STAGE_PHASES[result.type] || DeploymentPhase.STAGE,
+      this.getProgress(results),
+      `Stage ${stage.name} started`,
+      { stage: stage.name, status: 'running' }
+    )
+
+    try {
+      await withRetry(
+        async () => {
+          result.attempts++
+          await this.runAttempt(stage, result.type)
+        },
+        {
+          maxAttempts: (stage.retries || 0) + 1,
+          delay: (stage.retryDelay ?? DEFAULT_RETRY_DELAY) * 1000,
+          backoff: 1,
+          signal: this.options.signal,
+          onRetry: (attempt, error) => {
+            logger.warn(`Stage ${stage.name} attempt ${attempt} failed: ${error.message}, retrying...`)
+          },
+        }
+      )
+
+      result.status = 'success'
+      logger.success(`Stage ${stage.name} completed`)
+    } catch (error: any) {
+      result.status = 'failed'
+      result.error = error.message
+      logger.error(`Stage ${stage.name} failed: ${error.message}`)
+    } finally {
+      result.duration = Date.now() - start
+      result.finishedAt = new Date().toISOString()
+    }
+  }
+
+  /**
+   * 执行一次阶段尝试
+   *
+   * @description 每次尝试使用独立的中止信号（与流水线信号合并），超时时中止正在执行的命令，
+   * 下一次重试开始前上一次尝试已经结束
+   * @throws {TimeoutError} 阶段超时时抛出
+   */
+  private async runAttempt(stage: PipelineStageConfig, type: PipelineStageType): Promise<void> {
+    const controller = new AbortController()
+    const signal = this.options.signal ? AbortSignal.any([this.options.signal, controller.signal]) : controller.signal
+    const timeout = stage.timeout ? stage.timeout * 1000 : undefined
+
+    const timer = timeout
+      ? setTimeout(() => {
+        controller.abort(new TimeoutError(`Stage ${stage.name} timed out after ${timeout}ms`, stage.name, timeout))
+      }, timeout)
+      : undefined
+
+    try {
+      await this.executeStage(stage, type, signal)
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  /**
+   * 执行阶段命令或内置处理函数
+   *
+   * @description 信号触发时立即以信号的原因结束，不等待忽略信号的处理函数
+   */
+  private async executeStage(stage: PipelineStageConfig, type: PipelineStageType, signal: AbortSignal): Promise<void> {
+    signal.throwIfAborted()
+
+    let onAbort!: () => void
+    const aborted = new Promise<never>((_, reject) => {
+      onAbort = () => reject(signal.reason)
+      signal.addEventListener('abort', onAbort, { once: true })
+    })
+
+    const run = async () => {
+      if (stage.commands?.length) {
+        for (const command of stage.commands) {
+          // 已超时的尝试不再启动后续命令
+          signal.throwIfAborted()
+          logger.debug(`[${stage.name}] ${command}`)
+          const { stdout, stderr } = await this.executor(command, { signal })
+          if (stdout) logger.debug(stdout)
+          if (stderr) logger.debug(stderr)
+        }
+        return
+      }
+
+      await this.options.handlers![type]!(stage, signal)
+    }
+
+    try {
+      await Promise.race([run(), aborted])
+    } finally {
+      signal.removeEventListener('abort', onAbort)
+    }
+  }
+
+  /**
+   * 判断阶段是否需要跳过
+   *
+   * @returns 跳过原因；blocked 表示因上游失败跳过，其下游同样视为失败
+   */
+  private getSkipReason(
+    stage: PipelineStageConfig,
+    upstreamFailed: boolean,
+    halted: boolean
+  ): { reason: string; blocked: boolean } | null {
+    const when = stage.when || {}
+    const status = when.status || 'success'
+
+    if (status === 'success' && upstreamFailed) {
+      return { reason: 'dependency failed', blocked: true }
+    }
+    if (status === 'success' && halted) {
+      return { reason: 'pipeline halted after a failure', blocked: true }
+    }
+    if (status === 'failure' && !upstreamFailed) {
+      return { reason: 'no dependency failed', blocked: false }
+    }
+
+    if (when.environments && !when.environments.includes(this.options.environment)) {
+      return { reason: `environment ${this.options.environment} not in ${when.environments.join(', ')}`, blocked: false }
+    }
+
+    const missing = (when.env || []).filter(name => !process.env[name])
+    if (missing.length > 0) {
+      return { reason: `environment variables not set: ${missing.join(', ')}`, blocked: false }
+    }
+
+    return null
+  }
+
+  /**
+   * 上报阶段状态到进度追踪与审计日志
+   */
+  private async report(result: PipelineStageResult, results: Map<string, PipelineStageResult>): Promise<void> {
+    if (result.status === 'pending' || result.status === 'running') {
+      return
+    }
+
+    this.options.progressTracker?.update(
+      STAGE_PHASES[result.type] || DeploymentPhase.STAGE,
+      this.getProgress(results),
+      `Stage ${result.name} ${result.status}${result.error ? `: ${result.error}` : ''}`,
+      { stage: result.name, status: result.status }
+    )
+
+    await this.options.auditLogger?.logPipelineStage({
+      name: this.options.name,
+      version: this.options.version,
+      environment: this.options.environment,
+      stage: result.name,
+      status: result.status,
+      attempts: result.attempts,
+      duration: result.duration,
+      error: result.error,
+      reason: result.reason,
+    })
+  }
+
+  /**
+   * 已结束阶段占比（0-99，完成由调用方标记）
+   */
+  private getProgress(results: Map<string, PipelineStageResult>): number {
+    const all = [...results.values()]
+    const finished = all.filter(result => this.isFinished(result)).length
+    return Math.min(99, Math.round((finished / all.length) * 100))
+  }
+
+  /**
+   * 查找依赖环
+   *
+   * @returns 环上的阶段名称（首尾相同），无环时返回 null
+   */
+  private static findCycle(stages: PipelineStageConfig[]): string[] | null {
+    const dependencies = new Map(stages.map(stage => [stage.name, stage.dependsOn || []]))
+    const visited = new Set<string>()
+    const path: string[] = []
+
+    const visit = (name: string): string[] | null => {
+      const index = path.indexOf(name)
+      if (index !== -1) {
+        return [...path.slice(index), name]
+      }
+      if (visited.has(name)) {
+        return null
+      }
+
+      visited.add(name)
+      path.push(name)
+      for (const dependency of dependencies.get(name) || []) {
+        const cycle = visit(dependency)
+        if (cycle) {
+          return cycle
+        }
+      }
+      path.pop()
+
+      return null
+    }
+
+    for (const stage of stages) {
+      const cycle = visit(stage.name)
+      if (cycle) {
+        return cycle
+      }
+    }
+
+    return null
+  }
+
+  private getStageType(stage: PipelineStageConfig): PipelineStageType {
+    if (stage.type) {
+      return stage.type
+    }
+    return STAGE_TYPES.includes(stage.name as PipelineStageType) ? stage.name as PipelineStageType : 'custom'
+  }
+
+  private isFinished(result: PipelineStageResult): boolean {
+    return result.status === 'success' || result.status === 'failed' || result.status === 'skipped'
+  }
+
+  /**
+   * 失败且未设置 continueOnError
+   */
+  private isHardFailure(result: PipelineStageResult, pipeline: PipelineConfig): boolean {
+    if (result.status !== 'failed') {
+      return false
+    }
+    return !pipeline.stages.find(stage => stage.name === result.name)?.continueOnError
+  }
+}
@@ -8,6 +8,8 @@
 import { exec } from 'child_process'
 import { promisify } from 'util'
 import { logger } from '../utils/logger.js'
+import { DeployCalendar } from './DeployCalendar.js'
+import { PolicyEngine } from '../policy/PolicyEngine.js'
 import type { DeployConfig } from '../types/index.js'
 import { DeploymentError } from '../utils/errors.js'
 import {
@@ -31,6 +33,20 @@ export interface CheckResult {
   message: string
   /** 严重程度 */
   severity?: 'critical' | 'warning' | 'info'
+  /** 附加信息 */
+  details?: Record<string, any>
+}
+
+/**
+ * 前置检查选项
+ */
+export interface PreCheckOptions {
+  /** 紧急覆盖原因：在冻结期或部署窗口外强制部署，必须填写原因 */
+  emergencyReason?: string
+  /** 工作目录，用于查找策略文件 */
+  workDir?: string
+  /** 不检查部署窗口、冻结期与部署策略（已由 checkGuards 单独检查） */
+  skipGuards?: boolean
 }
 
 /**
@@ -49,10 +65,11 @@ export class PreDeploymentChecker {
    * 执行所有检查
    * 
    * @param config - 部署配置
+   * @param options - 检查选项
    * @returns 检查结果列表
    * @throws {DeploymentError} 当有严重问题时抛出
    */
-  async checkAll(config: DeployConfig): Promise<CheckResult[]> {
+  async checkAll(config: DeployConfig, options: PreCheckOptions = {}): Promise<CheckResult[]> {
     logger.info('🔍 Running pre-deployment checks...')
 
     const checks: CheckResult[] = []
@@ -84,17 +101,65 @@ export class PreDeploymentChecker {
     // 6. Git 仓库检查
     checks.push(await this.checkGitStatus())
 
-    // 汇总结果
+    // 7. 部署窗口、冻结期与部署策略检查
+    if (!options.skipGuards) {
+      checks.push(...await this.collectGuards(config, options))
+    }
+
+    this.summarize(checks, 'Pre-deployment checks failed')
+
+    return checks
+  }
+
+  /**
+   * 检查部署窗口、冻结期与部署策略
+   * 
+   * @param config - 部署配置
+   * @param options - 检查选项
+   * @returns 检查结果列表，没有配置窗口、冻结期和策略时为空
+   * @throws {DeploymentError} 处于冻结期（且没有紧急覆盖）或违反 error 级别的策略时抛出
+   * 
+   * @description 这些检查决定部署是否被允许，跳过前置检查或恢复部署时也必须执行
+   */
+  async checkGuards(config: DeployConfig, options: PreCheckOptions = {}): Promise<CheckResult[]> {
+    const checks = await this.collectGuards(config, options)
+
+    if (checks.length > 0) {
+      this.summarize(checks, 'Deployment blocked')
+    }
+
+    return checks
+  }
+
+  private async collectGuards(config: DeployConfig, options: PreCheckOptions): Promise<CheckResult[]> {
+    const checks: CheckResult[] = []
+
+    if (config.deployWindows || config.freezes) {
+      checks.push(this.checkDeployWindow(config, options))
+    }
+
+    const policy = await this.checkPolicies(config, options)
+    if (policy) {
+      checks.push(policy)
+    }
+
+    return checks
+  }
+
+  /**
+   * 显示检查结果，有严重问题时抛出错误
+   * 
+   * @private
+   */
+  private summarize(checks: CheckResult[], failure: string): void {
     const critical = checks.filter(c => !c.passed && c.severity === 'critical')
     const warnings = checks.filter(c => !c.passed && c.severity === 'warning')
 
-    // 显示结果
     this.displayResults(checks)
 
-    // 如果有严重问题，抛出错误
     if (critical.length > 0) {
       throw new DeploymentError(
-        `Pre-deployment checks failed: ${critical.map(c => c.name).join(', ')}`,
+        `${failure}: ${critical.map(c => c.name).join(', ')}`,
         'pre-check',
         { critical, warnings }
       )
@@ -103,8 +168,6 @@ export class PreDeploymentChecker {
     if (warnings.length > 0) {
       logger.warn(`Found ${warnings.length} warnings, but continuing deployment`)
     }
-
-    return checks
   }
 
   /**
@@ -391,6 +454,99 @@ export class PreDeploymentChecker {
     }
   }
 
+  /**
+   * 检查部署窗口与冻结期
+   * 
+   * @private
+   * @description 阻止部署的违反项在提供紧急覆盖原因时降级为警告，覆盖原因记录在 details 中
+   */
+  private checkDeployWindow(config: DeployConfig, options: PreCheckOptions): CheckResult {
+    const { violations } = new DeployCalendar(config).check(config.environment)
+    const blocking = violations.filter(v => v.enforcement === 'block')
+    const override = options.emergencyReason !== undefined
+
+    if (violations.length === 0) {
+      return {
+        name: 'Deploy Window',
+        passed: true,
+        message: 'Within deploy window',
+        severity: 'info',
+      }
+    }
+
+    const message = violations.map(v => v.message).join('; ')
+
+    if (blocking.length === 0) {
+      return {
+        name: 'Deploy Window',
+        passed: false,
+        message,
+        severity: 'warning',
+      }
+    }
+
+    if (override && !String(options.emergencyReason).trim()) {
+      return {
+        name: 'Deploy Window',
+        passed: false,
+        message: `${message}; emergency override requires a reason`,
+        severity: 'critical',
+      }
+    }
+
+    if (override) {
+      return {
+        name: 'Deploy Window',
+        passed: false,
+        message: `${message}; emergency override: ${options.emergencyReason}`,
+        severity: 'warning',
+        details: { emergencyOverride: options.emergencyReason, violations },
+      }
+    }
+
+    return {
+      name: 'Deploy Window',
+      passed: false,
+      message: `${message} (use --emergency <reason> to override)`,
+      severity: 'critical',
+    }
+  }
+
+  /**
+   * 检查部署策略
+   * 
+   * @private
+   * @returns 没有策略规则时返回 null；error 级别的违反为严重问题，其余为警告
+   */
+  private async checkPolicies(config: DeployConfig, options: PreCheckOptions): Promise<CheckResult | null> {
+    const engine = await PolicyEngine.load(config, { workDir: options.workDir })
+    if (engine.getRules().length === 0) {
+      return null
+    }
+
+    const report = await engine.evaluate(config)
+    const errors = report.violations.filter(v => v.severity === 'error')
+    const warnings = report.violations.filter(v => v.severity === 'warning')
+
+    if (errors.length === 0 && warnings.length === 0) {
+      return {
+        name: 'Policies',
+        passed: true,
+        message: `${report.rules.length} rule(s) passed`,
+        severity: 'info',
+        details: { report },
+      }
+    }
+
+    return {
+      name: 'Policies',
+      passed: false,
+      message: [...errors, ...warnings].map(v => v.message).join('; '),
+      severity: errors.length > 0 ? 'critical' : 'warning',
+      details: { report },
+    }
+  }
+
   /**
    * 显示检查结果
    */
@@ -0,0 +1,342 @@
+/**
+ * 环境晋升管理器
+ * @module core/PromotionManager
+ *
+ * @description 将源环境最近一次成功部署的镜像晋升到目标环境：
+ * 取源部署记录的镜像摘要 → 检查目标环境的审批 → 按目标环境配置重新打标签（不重新构建）→ 通过增强版部署器按摘要部署，
+ * 保证“测试过的就是发布的”，并在部署历史与审计日志中记录制品来源
+ */
+
+import { exec } from 'child_process'
+import { promisify } from 'util'
+import { EnhancedDeployer } from './EnhancedDeployer.js'
+import { ConfigManager } from './ConfigManager.js'
+import { ImageBuilder } from '../docker/ImageBuilder.js'
+import { ApprovalManager } from '../approvals/ApprovalManager.js'
+import { VersionHistory } from '../rollback/VersionHistory.js'
+import { AuditLogger } from '../utils/audit-log.js'
+import { ApprovalError, ConfigError, DeploymentError, PermissionError } from '../utils/errors.js'
+import { EnvironmentSchema } from '../utils/schema.js'
+import { logger } from '../utils/logger.js'
+import type { CommandExecutor } from '../kubernetes/DeploymentManager.js'
+import type { DeployConfig, DeployResult, DeploymentHistory, DeploymentProvenance, Environment } from '../types/index.js'
+
+const execAsync = promisify(exec)
+
+/**
+ * 环境晋升选项
+ */
+export interface PromoteOptions {
+  /** 源环境 */
+  from: Environment
+  /** 目标环境 */
+  to: Environment
+  /** 试运行：解析来源与镜像，不打标签也不部署 */
+  dryRun?: boolean
+  skipHealthCheck?: boolean
+  skipHooks?: boolean
+  /** 发布策略，优先于目标环境配置 */
+  strategy?: string
+  /** 源部署没有记录镜像摘要时按镜像标签解析（标签可能已指向其他镜像） */
+  allowTagResolve?: boolean
+}
+
+/**
+ * 环境晋升管理器构造选项
+ */
+export interface PromotionManagerOptions {
+  /** 配置文件路径，目标环境使用其 deploy.config.<env>.* 覆盖配置 */
+  configFile?: string
+  workDir?: string
+  deployer?: EnhancedDeployer
+  versionHistory?: VersionHistory
+  auditLogger?: AuditLogger
+  /** 执行 docker 命令的函数 */
+  executor?: CommandExecutor
+}
+
+/**
+ * 环境晋升管理器类
+ *
+ * @example
+ * ```typescript
+ * const manager = new PromotionManager();
+ *
+ * // 将 staging 最近一次成功部署的镜像发布到 production
+ * const result = await manager.promote({ from: 'staging', to: 'production' });
+ * console.log(result.provenance?.digest);
+ * ```
+ */
+export class PromotionManager {
+  private options: PromotionManagerOptions
+  private deployer: EnhancedDeployer
+  private versionHistory: VersionHistory
+  private auditLogger: AuditLogger
+  private executor: CommandExecutor
+
+  constructor(options: PromotionManagerOptions = {}) {
+    this.options = options
+    this.deployer = options.deployer || new EnhancedDeployer({ workDir: options.workDir })
+    this.versionHistory = options.versionHistory || new VersionHistory()
+    this.auditLogger = options.auditLogger || new AuditLogger()
+    this.executor = options.executor || execAsync
+  }
+
+  /**
+   * 晋升部署
+   *
+   * @returns 目标环境的部署结果，provenance 记录源部署与镜像摘要
+   * @throws {ConfigError} 环境无效或应用包含多个服务时抛出
+   * @throws {DeploymentError} 源环境没有成功的部署、源部署没有记录摘要或镜像不存在时抛出
+   * @throws {ApprovalError} 目标环境的部署尚未获得批准时抛出
+   */
+  async promote(options: PromoteOptions): Promise<DeployResult> {
+    const startTime = Date.now()
+    this.validateEnvironments(options.from, options.to)
+
+    const target = await new ConfigManager({
+      configFile: this.options.configFile,
+      workDir: this.options.workDir,
+      environment: options.to,
+    }).loadConfig()
+
+    if (target.services) {
+      throw new ConfigError('Promoting multi-service applications is not supported', {
+        field: 'services',
+        suggestion: 'Deploy each service to the target environment instead',
+      })
+    }
+
+    const source = await this.findSource(target.name, options.from)
+    logger.info(`⏫ Promoting ${target.name}@${source.version} from ${options.from} to ${options.to}`)
+    logger.info(`Source deployment: ${source.id} (${source.timestamp})`)
+
+    const sourceImage = ImageBuilder.getImageReference(source.config)
+    const digest = await this.getSourceDigest(source, sourceImage, options.allowTagResolve)
+    logger.info(`Source image: ${sourceImage} (${digest})`)
+
+    const config = this.createTargetConfig(target, source, digest)
+    const image = ImageBuilder.getImageReference(config)
+
+    const provenance: DeploymentProvenance = {
+      sourceDeploymentId: source.id,
+      sourceEnvironment: options.from,
+      sourceImage,
+      image,
+      digest,
+    }
+
+    // 未获批准时不打标签，目标仓库中不会留下未批准的标签
+    if (!options.dryRun) {
+      await this.requireApproval(config, digest)
+    }
+
+    let result: DeployResult
+
+    try {
+      if (image !== sourceImage) {
+        await this.retag(config, sourceImage, image, digest, options.dryRun)
+      }
+
+      result = await this.deployer.deploy({
+        config,
+        environment: options.to,
+        dryRun: options.dryRun,
+        skipHealthCheck: options.skipHealthCheck,
+        skipHooks: options.skipHooks,
+        strategy: options.strategy,
+        skipBuild: true,
+        provenance,
+      })
+    } catch (error: any) {
+      // 目标环境需要审批时与直接部署一样中止，由审批人批准后重新晋升
+      if (error instanceof ApprovalError || error instanceof PermissionError) {
+        throw error
+      }
+
+      result = {
+        success: false,
+        message: error.message,
+        version: source.version,
+        timestamp: new Date().toISOString(),
+        environment: options.to,
+        platform: config.platform,
+        provenance,
+      }
+    }
+
+    if (!options.dryRun) {
+      await this.auditLogger.logPromotion({
+        name: config.name,
+        version: config.version,
+        from: options.from,
+        to: options.to,
+        sourceDeploymentId: source.id,
+        image,
+        digest,
+        duration: Date.now() - startTime,
+        result: result.success ? 'success' : 'failure',
+        error: result.success ? undefined : result.message,
+      })
+    }
+
+    if (result.success) {
+      logger.success(`✅ Promoted ${config.name}@${config.version} to ${options.to}`)
+    } else {
+      logger.error(`❌ Promotion to ${options.to} failed: ${result.message}`)
+    }
+
+    return result
+  }
+
+  /**
+   * 查找源环境中该应用最近一次成功的部署
+   *
+   * @description 历史记录中只保存密钥引用与转义后的 `$${...}`，返回前用 ConfigManager.resolveReferences 解析
+   * @throws {DeploymentError} 没有成功的部署时抛出
+   * @throws {ConfigError} 密钥引用无法解析时抛出
+   */
+  async findSource(name: string, environment: Environment): Promise<DeploymentHistory> {
+    const history = await this.versionHistory.getByEnvironment(environment)
+    const source = history.find(record => record.status === 'success' && record.config?.name === name)
+
+    if (!source) {
+      throw new DeploymentError(`No successful deployment of ${name} found in ${environment}`, 'promote', {
+        suggestion: `Deploy to ${environment} before promoting from it`,
+      })
+    }
+
+    return new ConfigManager({
+      configFile: this.options.configFile,
+      workDir: this.options.workDir,
+      environment,
+    }).resolveReferences(source)
+  }
+
+  /**
+   * 检查目标环境的部署审批，与部署器使用相同的配置哈希与镜像摘要，部署时复用同一批准
+   *
+   * @throws {ApprovalError} 尚未获得批准时抛出
+   * @throws {PermissionError} 无法验证当前用户时抛出
+   */
+  private async requireApproval(config: DeployConfig, digest: string): Promise<void> {
+    await new ApprovalManager({
+      config: config.approvals,
+      auditLogger: this.auditLogger,
+      workDir: this.options.workDir,
+    }).requireApproval({
+      name: config.name,
+      version: config.version,
+      environment: config.environment,
+      configHash: ApprovalManager.hashConfig(config),
+      digests: { [config.name]: digest },
+    })
+  }
+
+  /**
+   * 目标环境配置：沿用源部署的版本与镜像标签，并按摘要固定镜像，部署期间标签被覆盖也不影响发布的制品
+   */
+  private createTargetConfig(target: DeployConfig, source: DeploymentHistory, digest: string): DeployConfig {
+    return {
+      ...target,
+      version: source.version,
+      docker: {
+        ...target.docker,
+        image: target.docker?.image || source.config.docker?.image || source.config.name,
+        tag: source.config.docker?.tag || source.version,
+        digest,
+      },
+    }
+  }
+
+  /**
+   * 源部署的镜像摘要：使用部署时记录的摘要，标签之后被覆盖也能发布测试过的制品
+   *
+   * @throws {DeploymentError} 没有记录摘要且不允许按标签解析时抛出
+   */
+  private async getSourceDigest(source: DeploymentHistory, image: string, allowTagResolve?: boolean): Promise<string> {
+    const digest = source.result?.provenance?.digest
+    if (digest) {
+      return digest
+    }
+
+    if (!allowTagResolve) {
+      throw new DeploymentError(`Source deployment ${source.id} did not record an image digest`, 'promote', {
+        suggestion: 'Redeploy the source environment, or pass --allow-tag-resolve to resolve the digest from the image tag',
+      })
+    }
+
+    logger.warn(`Source deployment ${source.id} did not record an image digest, resolving it from ${image}`)
+    return this.resolveDigest(source.config, image)
+  }
+
+  /**
+   * 按标签解析镜像摘要
+   *
+   * @description 推送到镜像仓库的镜像从仓库读取 manifest 摘要，仅存在于本地的镜像使用镜像 ID
+   * @throws {DeploymentError} 镜像不存在时抛出
+   */
+  private async resolveDigest(config: DeployConfig, image: string): Promise<string> {
+    try {
+      if (config.docker?.registry) {
+        const { stdout } = await this.executor(`docker buildx imagetools inspect ${image} --format '{{json .Manifest}}'`)
+        return JSON.parse(stdout).digest
+      }
+
+      const { stdout } = await this.executor(`docker image inspect -f '{{.Id}}' ${image}`)
+      return stdout.trim()
+    } catch (error: any) {
+      throw new DeploymentError(`Image ${image} of the source deployment was not found`, 'promote', {
+        suggestion: 'The image may have been deleted from the registry; redeploy the source environment first',
+        cause: error,
+      })
+    }
+  }
+
+  /**
+   * 为目标环境打标签：镜像仓库中按摘要直接创建新标签，本地镜像按镜像 ID 使用 docker tag
+   */
+  private async retag(
+    config: DeployConfig,
+    sourceImage: string,
+    image: string,
+    digest: string,
+    dryRun?: boolean
+  ): Promise<void> {
+    const command = config.docker?.registry
+      ? `docker buildx imagetools create --tag ${image} ${this.getRepository(sourceImage)}@${digest}`
+      : `docker tag ${digest} ${image}`
+
+    if (dryRun) {
+      logger.info(`Dry run: would retag ${sourceImage} as ${image}`)
+      return
+    }
+
+    logger.info(`Retagging ${sourceImage} as ${image}...`)
+    await this.executor(command)
+  }
+
+  /**
+   * 去掉标签的仓库名
+   */
+  private getRepository(image: string): string {
+    const slash = image.lastIndexOf('/')
+    const colon = image.lastIndexOf(':')
+
+    return colon > slash ? image.slice(0, colon) : image
+  }
+
+  private validateEnvironments(from: string, to: string): void {
+    for (const environment of [from, to]) {
+      if (!EnvironmentSchema.safeParse(environment).success) {
+        throw new ConfigError(`Invalid environment: ${environment}`, {
+          suggestion: `Use one of: ${EnvironmentSchema.options.join(', ')}`,
+        })
+      }
+    }
+
+    if (from === to) {
+      throw new ConfigError('Source and target environments must be different')
+    }
+  }
+}
@@ -0,0 +1,265 @@
+/**
+ * 多服务编排器
+ * @module core/ServiceOrchestrator
+ *
+ * @description 将 DeployConfig.services 展开为各服务的部署配置，
+ * 先并行构建全部服务，再按 dependsOn 的拓扑顺序逐个部署并等待健康检查通过；
+ * 某个服务失败时停止部署后续服务，并按相反顺序回滚已部署的服务
+ */
+
+import { logger } from '../utils/logger.js'
+import { ConfigError } from '../utils/errors.js'
+import type { DeployConfig, DeployResult, ServiceDeployResult } from '../types/index.js'
+
+/**
+ * 展开后的服务
+ */
+export interface ResolvedService {
+  /** 服务键 */
+  name: string
+  /** 合并应用级配置后的部署配置 */
+  config: DeployConfig
+  dependsOn: string[]
+}
+
+/**
+ * 服务处理函数，由部署器提供
+ */
+export interface ServiceHandlers {
+  /** 构建服务镜像 */
+  build: (service: ResolvedService) => Promise<void>
+  /** 部署服务，返回 success: false 视为失败 */
+  deploy: (service: ResolvedService) => Promise<DeployResult>
+  /** 健康检查，不通过时抛出 */
+  healthCheck: (service: ResolvedService) => Promise<void>
+  /** 回滚到部署前的版本 */
+  rollback: (service: ResolvedService) => Promise<DeployResult>
+}
+
+/**
+ * 多服务部署结果
+ */
+export interface MultiServiceResult {
+  success: boolean
+  services: ServiceDeployResult[]
+  /** 首个失败的服务 */
+  failedService?: string
+  /** 耗时（毫秒） */
+  duration: number
+}
+
+/**
+ * 多服务编排器类
+ *
+ * @example
+ * ```typescript
+ * const orchestrator = new ServiceOrchestrator({
+ *   build: async (service) => { ... },
+ *   deploy: async (service) => deployer.deploy({ config: service.config }),
+ *   healthCheck: async (service) => { ... },
+ *   rollback: async (service) => { ... },
+ * });
+ *
+ * const result = await orchestrator.run(config);
+ * ```
+ */
+export class ServiceOrchestrator {
+  private handlers: ServiceHandlers
+
+  constructor(handlers: ServiceHandlers) {
+    this.handlers = handlers
+  }
+
+  /**
+   * 展开服务配置
+   *
+   * @description 服务的 docker / kubernetes 按顶层字段覆盖应用级配置，healthCheck 整体替换；
+   * 镜像名不继承应用级配置，未指定时与服务名称（<name>-<服务键>）相同
+   */
+  static resolve(config: DeployConfig): ResolvedService[] {
+    return Object.entries(config.services || {}).map(([key, service]) => {
+      const name = `${config.name}-${key}`
+
+      return {
+        name: key,
+        dependsOn: service.dependsOn || [],
+        config: {
+          ...config,
+          name,
+          docker: config.docker || service.docker
+            ? { ...config.docker, ...service.docker, image: service.docker?.image || name }
+            : undefined,
+          kubernetes: config.kubernetes || service.kubernetes
+            ? { ...config.kubernetes, ...service.kubernetes }
+            : undefined,
+          healthCheck: service.healthCheck || config.healthCheck,
+          services: undefined,
+          pipeline: undefined,
+        },
+      }
+    })
+  }
+
+  /**
+   * 按依赖关系排序，依赖在前；没有依赖关系的服务保持声明顺序
+   *
+   * @throws {ConfigError} 依赖不存在或存在循环依赖时抛出
+   */
+  static sort(services: ResolvedService[]): ResolvedService[] {
+    const byName = new Map(services.map(service => [service.name, service]))
+
+    for (const service of services) {
+      for (const dependency of service.dependsOn) {
+        if (!byName.has(dependency)) {
+          throw new ConfigError(`Service ${service.name} depends on unknown service: ${dependency}`, {
+            field: `services.${service.name}.dependsOn`,
+          })
+        }
+      }
+    }
+
+    const sorted: ResolvedService[] = []
+    const done = new Set<string>()
+
+    while (sorted.length < services.length) {
+      const next = services.find(service =>
+        !done.has(service.name) && service.dependsOn.every(dependency => done.has(dependency))
+      )
+
+      if (!next) {
+        const remaining = services.filter(service => !done.has(service.name)).map(service => service.name)
+        throw new ConfigError(`Services contain a dependency cycle: ${remaining.join(', ')}`, {
+          field: 'services',
+        })
+      }
+
+      sorted.push(next)
+      done.add(next.name)
+    }
+
+    return sorted
+  }
+
+  /**
+   * 部署全部服务
+   *
+   * @throws {ConfigError} 服务配置无效时抛出
+   */
+  async run(config: DeployConfig): Promise<MultiServiceResult> {
+    const startTime = Date.now()
+    const services = ServiceOrchestrator.sort(ServiceOrchestrator.resolve(config))
+    const results = new Map<string, ServiceDeployResult>()
+
+    // 1. 并行构建
+    logger.info(`Building ${services.length} service(s): ${services.map(service => service.name).join(', ')}`)
+
+    const builds = await Promise.allSettled(services.map(service => this.handlers.build(service)))
+    const buildFailures = services.filter((_, index) => builds[index].status === 'rejected')
+
+    if (buildFailures.length > 0) {
+      services.forEach((service, index) => {
+        const build = builds[index]
+        results.set(service.name, build.status === 'rejected'
+          ? { name: service.name, status: 'failed', duration: 0, error: `Build failed: ${build.reason?.message || build.reason}` }
+          : { name: service.name, status: 'skipped', duration: 0, reason: 'another service failed to build' })
+      })
+
+      return this.createResult(services, results, buildFailures[0].name, startTime)
+    }
+
+    // 2. 按拓扑顺序部署并等待健康检查
+    const deployed: ResolvedService[] = []
+    let failedService: string | undefined
+
+    for (const service of services) {
+      if (failedService) {
+        results.set(service.name, {
+          name: service.name,
+          status: 'skipped',
+          duration: 0,
+          reason: `service ${failedService} failed`,
+        })
+        continue
+      }
+
+      const serviceStart = Date.now()
+      let result: DeployResult | undefined
+
+      try {
+        logger.info(`🚢 Deploying service ${service.name}...`)
+        result = await this.handlers.deploy(service)
+        if (!result.success) {
+          throw new Error(result.message)
+        }
+
+        deployed.push(service)
+        await this.handlers.healthCheck(service)
+
+        results.set(service.name, {
+          name: service.name,
+          status: 'success',
+          duration: Date.now() - serviceStart,
+          result,
+        })
+        logger.success(`Service ${service.name} deployed`)
+      } catch (error: any) {
+        failedService = service.name
+        results.set(service.name, {
+          name: service.name,
+          status: 'failed',
+          duration: Date.now() - serviceStart,
+          result,
+          error: error.message,
+        })
+        logger.error(`Service ${service.name} failed: ${error.message}`)
+      }
+    }
+
+    // 3. 回滚已部署的服务（包括部署成功但健康检查失败的服务）
+    if (failedService) {
+      await this.rollback(deployed.reverse(), results)
+    }
+
+    return this.createResult(services, results, failedService, startTime)
+  }
+
+  /**
+   * 按顺序回滚服务，单个服务回滚失败不影响其余服务
+   */
+  private async rollback(services: ResolvedService[], results: Map<string, ServiceDeployResult>): Promise<void> {
+    for (const service of services) {
+      const entry = results.get(service.name)!
+      logger.info(`⏪ Rolling back service ${service.name}...`)
+
+      try {
+        const result = await this.handlers.rollback(service)
+        entry.rollback = { success: result.success, message: result.message }
+      } catch (error: any) {
+        entry.rollback = { success: false, message: error.message }
+      }
+
+      if (entry.rollback.success) {
+        if (entry.status === 'success') {
+          entry.status = 'rolledBack'
+        }
+        logger.success(`Service ${service.name} rolled back`)
+      } else {
+        logger.error(`Failed to roll back service ${service.name}: ${entry.rollback.message}`)
+      }
+    }
+  }
+
+  private createResult(
+    services: ResolvedService[],
+    results: Map<string, ServiceDeployResult>,
+    failedService: string | undefined,
+    startTime: number
+  ): MultiServiceResult {
+    return {
+      success: !failedService,
+      services: services.map(service => results.get(service.name)!),
+      failedService,
+      duration: Date.now() - startTime,
+    }
+  }
+}
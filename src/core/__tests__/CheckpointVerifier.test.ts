@@ -0,0 +1,101 @@
+/**
+ * CheckpointVerifier 测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import { CheckpointVerifier } from '../CheckpointVerifier.js'
+import { DeploymentPhase } from '../../utils/progress.js'
+import type { DeployConfig } from '../../types/index.js'
+
+const config: DeployConfig = {
+  name: 'shop',
+  version: '1.1.0',
+  platform: 'kubernetes',
+  environment: 'production',
+  docker: {
+    registry: 'registry.example.com:5000',
+  },
+  kubernetes: {
+    namespace: 'apps',
+  },
+}
+
+/**
+ * 按命令前缀返回输出的伪执行器，未匹配的命令失败
+ */
+function createExecutor(responses: Record<string, string>) {
+  const commands: string[] = []
+
+  const executor = async (command: string) => {
+    commands.push(command)
+    const prefix = Object.keys(responses).find(key => command.startsWith(key))
+    if (prefix === undefined) {
+      throw new Error(`command failed: ${command}`)
+    }
+    return { stdout: responses[prefix], stderr: '' }
+  }
+
+  return { executor, commands }
+}
+
+describe('CheckpointVerifier', () => {
+  it('should capture and verify the built image id', async () => {
+    const { executor } = createExecutor({ 'docker image inspect': 'sha256:abc\n' })
+    const verifier = new CheckpointVerifier(executor)
+
+    const artifacts = await verifier.capture(DeploymentPhase.BUILD, config)
+
+    expect(artifacts).toEqual({ image: 'shop:1.1.0', imageId: 'sha256:abc' })
+    expect(await verifier.verify(DeploymentPhase.BUILD, config, artifacts)).toBeNull()
+    expect(await verifier.verify(DeploymentPhase.BUILD, config, { ...artifacts!, imageId: 'sha256:old' }))
+      .toBe('image shop:1.1.0 has been rebuilt')
+  })
+
+  it('should verify the pushed digest exists in the registry', async () => {
+    const { executor, commands } = createExecutor({
+      'docker image inspect': 'other/shop@sha256:000 registry.example.com:5000/shop@sha256:def ',
+      'docker manifest inspect': '{}',
+    })
+    const verifier = new CheckpointVerifier(executor)
+
+    const artifacts = await verifier.capture(DeploymentPhase.PUSH, config)
+
+    expect(artifacts).toEqual({ image: 'registry.example.com:5000/shop:1.1.0', digest: 'sha256:def' })
+    expect(await verifier.verify(DeploymentPhase.PUSH, config, artifacts)).toBeNull()
+    expect(commands[commands.length - 1]).toBe('docker manifest inspect registry.example.com:5000/shop@sha256:def')
+  })
+
+  it('should report a missing pushed image', async () => {
+    const verifier = new CheckpointVerifier(createExecutor({}).executor)
+
+    const reason = await verifier.verify(DeploymentPhase.PUSH, config, {
+      image: 'registry.example.com:5000/shop:1.1.0',
+      digest: 'sha256:def',
+    })
+
+    expect(reason).toBe('image registry.example.com:5000/shop@sha256:def not found in registry')
+  })
+
+  it('should verify the applied deployment', async () => {
+    const { executor, commands } = createExecutor({ 'kubectl get deployment': 'uid-1' })
+    const verifier = new CheckpointVerifier(executor)
+
+    const artifacts = await verifier.capture(DeploymentPhase.DEPLOY, config)
+
+    expect(artifacts).toEqual({ deployment: 'shop', uid: 'uid-1' })
+    expect(commands[0]).toBe(`kubectl get deployment shop -n apps -o jsonpath='{.metadata.uid}'`)
+    expect(await verifier.verify(DeploymentPhase.DEPLOY, config, { deployment: 'shop', uid: 'uid-0' }))
+      .toBe('deployment shop has been recreated')
+
+    const missing = new CheckpointVerifier(createExecutor({}).executor)
+    expect(await missing.verify(DeploymentPhase.DEPLOY, config, artifacts)).toBe('deployment shop not found')
+  })
+
+  it('should trust phases without recorded artifacts', async () => {
+    const verifier = new CheckpointVerifier(createExecutor({}).executor)
+
+    expect(await verifier.capture(DeploymentPhase.PRE_HOOKS, config)).toBeUndefined()
+    expect(await verifier.capture(DeploymentPhase.DEPLOY, { ...config, platform: 'docker' })).toBeUndefined()
+    expect(await verifier.verify(DeploymentPhase.DEPLOY, config, undefined)).toBeNull()
+  })
+})
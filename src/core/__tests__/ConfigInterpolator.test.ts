@@ -0,0 +1,122 @@
+/**
+ * ConfigInterpolator 测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import { ConfigInterpolator, MASKED_VALUE } from '../ConfigInterpolator.js'
+import { ConfigError } from '../../utils/errors.js'
+
+const context = {
+  env: { REGISTRY: 'registry.example.com', EMPTY: '' },
+  git: { commit: 'abc1234', branch: 'main' },
+}
+
+const secrets: Record<string, string> = { 'db-password': 's3cr3t', 'shard': '1' }
+
+function createInterpolator(): ConfigInterpolator {
+  return new ConfigInterpolator({
+    context,
+    resolveSecret: async name => secrets[name] ?? null,
+  })
+}
+
+describe('ConfigInterpolator', () => {
+  it('should resolve env, git and cross-references', async () => {
+    const { config } = await createInterpolator().interpolate({
+      version: '1.2.0',
+      docker: { image: 'shop', tag: '${git.commit}', registry: '${env:REGISTRY}' },
+      kubernetes: { deployment: { image: '${docker.registry}/${docker.image}:${version}' } },
+      healthCheck: { port: 3000 },
+      env: [{ name: 'PORT', value: '${healthCheck.port}' }, { name: 'BRANCH', value: 'branch-${git.branch}' }],
+    })
+
+    expect(config.docker).toEqual({ image: 'shop', tag: 'abc1234', registry: 'registry.example.com' })
+    expect(config.kubernetes.deployment.image).toBe('registry.example.com/shop:1.2.0')
+    expect(config.env[0].value).toBe(3000)
+    expect(config.env[1].value).toBe('branch-main')
+  })
+
+  it('should use defaults and keep escaped placeholders', async () => {
+    const { config } = await createInterpolator().interpolate({
+      registry: '${env:MISSING:-docker.io}',
+      empty: '${env:EMPTY:-fallback}',
+      tag: '${git.tag:-latest}',
+      literal: 'echo $${HOME}',
+    })
+
+    expect(config).toEqual({ registry: 'docker.io', empty: 'fallback', tag: 'latest', literal: 'echo ${HOME}' })
+  })
+
+  it('should report unresolved references', async () => {
+    await expect(createInterpolator().interpolate({ tag: '${env:MISSING}' })).rejects.toThrow(ConfigError)
+    await expect(createInterpolator().interpolate({ image: '${docker.image}' })).rejects.toMatchObject({
+      details: { path: 'image', expression: 'docker.image' },
+    })
+  })
+
+  it('should detect reference cycles', async () => {
+    const result = createInterpolator().interpolate({
+      a: '${b}',
+      b: 'x-${c}',
+      c: '${a}',
+    })
+
+    await expect(result).rejects.toThrow('配置存在循环引用: a → b → c → a')
+  })
+
+  it('should track and mask secret-derived values', async () => {
+    const { config, secretPaths, secretValues } = await createInterpolator().interpolate({
+      database: { password: '${secret:db-password}' },
+      env: [{ name: 'DATABASE_URL', value: 'postgres://app:${database.password}@db/app' }],
+    })
+
+    expect(config.env[0].value).toBe('postgres://app:s3cr3t@db/app')
+    expect(secretPaths).toEqual(['database.password', 'env[0].value'])
+    expect(secretValues).toEqual(['s3cr3t'])
+
+    const masked = ConfigInterpolator.mask(config, secretPaths)
+    expect(masked.database.password).toBe(MASKED_VALUE)
+    expect(masked.env[0]).toEqual({ name: 'DATABASE_URL', value: MASKED_VALUE })
+    expect(config.database.password).toBe('s3cr3t')
+  })
+
+  it('should swap secret values back to references that resolve to the same config', async () => {
+    const { config } = await createInterpolator().interpolate({
+      env: [
+        { name: 'DATABASE_URL', value: 'postgres://app:${secret:db-password}@db/app' },
+        { name: 'TEMPLATE', value: '$${literal}' },
+      ],
+    })
+
+    const stored = ConfigInterpolator.toReferences(config)
+    expect(JSON.stringify(stored)).not.toContain('s3cr3t')
+    expect(stored.env[0].value).toBe('postgres://app:${secret:db-password}@db/app')
+
+    const { config: restored } = await createInterpolator().interpolate(stored)
+    expect(restored).toEqual(config)
+  })
+  it('should only swap whole secret values of the config they came from', async () => {
+    const { config } = await createInterpolator().interpolate({
+      version: '1.2.1',
+      env: [{ name: 'SHARD', value: '${secret:shard}' }, { name: 'RELEASE', value: 'v1' }],
+    })
+    const other = await createInterpolator().interpolate({ token: '${secret:db-password}' })
+
+    const stored = ConfigInterpolator.toReferences({ config, note: 's3cr3t' })
+    expect(stored.config.version).toBe('1.2.1')
+    expect(stored.config.env).toEqual([
+      { name: 'SHARD', value: '${secret:shard}' },
+      { name: 'RELEASE', value: 'v1' },
+    ])
+    // 其他配置解密的值不影响本记录
+    expect(stored.note).toBe('s3cr3t')
+    expect(ConfigInterpolator.toReferences(other.config).token).toBe('${secret:db-password}')
+  })
+
+  it('should keep the references of a config in objects derived from it', async () => {
+    const { config } = await createInterpolator().interpolate({ password: '${secret:db-password}' })
+
+    const derived = ConfigInterpolator.bindReferences({ env: { DB_PASSWORD: config.password } }, config)
+    expect(ConfigInterpolator.toReferences({ ...derived }).env.DB_PASSWORD).toBe('${secret:db-password}')
+  })
+})
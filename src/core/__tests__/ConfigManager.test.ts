@@ -2,9 +2,14 @@
  * ConfigManager 测试
  */
 
-import { describe, it, expect, beforeEach, afterEach } from 'vitest'
-import { ConfigManager } from '../ConfigManager.js'
-import { writeFile, removeFile } from '../../utils/file-system.js'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { ConfigManager, defineConfig } from '../ConfigManager.js'
+import { writeFile, readFile, removeFile } from '../../utils/file-system.js'
+import { SecretManager } from '../../security/SecretManager.js'
+import { logger } from '../../utils/logger.js'
 import type { DeployConfig } from '../../types/index.js'
 
 describe('ConfigManager', () => {
@@ -52,6 +57,103 @@ describe('ConfigManager', () => {
       await expect(manager.loadConfig()).rejects.toThrow('Config file not found')
     })
 
+    it('should merge the environment overlay', async () => {
+      const overlayFile = 'test-deploy.config.production.json'
+      await writeFile(overlayFile, JSON.stringify({
+        docker: { tag: '1.0.0', registry: 'registry.example.com' },
+        healthCheck: { path: '/ready' },
+      }))
+
+      try {
+        const manager = new ConfigManager({ configFile: testConfigFile, environment: 'production' })
+        const config = await manager.loadConfig()
+
+        expect(config.environment).toBe('production')
+        expect(config.docker).toMatchObject({ image: 'test-app', tag: '1.0.0', registry: 'registry.example.com' })
+        expect(config.healthCheck).toMatchObject({ enabled: true, path: '/ready', port: 3000 })
+      } finally {
+        await removeFile(overlayFile)
+      }
+    })
+
+    it('should resolve region overlays and value sources', async () => {
+      const overlayFile = 'test-deploy.config.production.json'
+      const regionFile = 'test-deploy.config.production.eu-west-1.json'
+      await writeFile(overlayFile, JSON.stringify({ docker: { tag: '1.0.0' } }))
+      await writeFile(regionFile, JSON.stringify({ docker: { registry: 'eu.registry.example.com' } }))
+
+      try {
+        const manager = new ConfigManager({ configFile: testConfigFile, environment: 'production', region: 'eu-west-1' })
+        const { config, sources, files } = await manager.resolveConfig()
+
+        expect(files).toHaveLength(3)
+        expect(config.docker).toMatchObject({ image: 'test-app', tag: '1.0.0', registry: 'eu.registry.example.com' })
+        expect(sources['docker.image']).toBe(testConfigFile)
+        expect(sources['docker.tag']).toBe(overlayFile)
+        expect(sources['docker.registry']).toBe(regionFile)
+      } finally {
+        await removeFile(overlayFile)
+        await removeFile(regionFile)
+      }
+    })
+
+    it('should load YAML config and keep its comments when saving', async () => {
+      const yamlFile = 'test-deploy.config.yaml'
+      await writeFile(yamlFile, [
+        '# Shop deployment',
+        'name: test-app',
+        'version: 1.0.0 # bumped by CI',
+        'environment: development',
+        'platform: docker',
+        'projectType: node',
+        '',
+      ].join('\n'))
+
+      try {
+        const manager = new ConfigManager({ configFile: yamlFile })
+        const config = await manager.loadConfig()
+        expect(config.version).toBe('1.0.0')
+
+        await manager.saveConfig({ ...config, version: '1.1.0' })
+        expect(await readFile(yamlFile)).toContain('# Shop deployment\nname: test-app\nversion: 1.1.0 # bumped by CI\n')
+      } finally {
+        await removeFile(yamlFile)
+      }
+    })
+
+    it('should interpolate placeholders and mask secret values in logs', async () => {
+      const workDir = await mkdtemp(join(tmpdir(), 'deployer-config-'))
+      const secretManager = new SecretManager(join(workDir, '.deployer-secrets.json'))
+      secretManager.initMasterKey('test-master-password')
+      await secretManager.storeSecret('registry-token', 'tok-123456')
+
+      await writeFile(join(workDir, 'deploy.config.json'), JSON.stringify({
+        ...testConfig,
+        docker: { image: '${name}', tag: '${version}' },
+        env: [{ name: 'REGISTRY_TOKEN', value: '${secret:registry-token}' }],
+      }))
+
+      try {
+        const manager = new ConfigManager({ workDir, secretManager })
+        const { config, secretPaths } = await manager.resolveConfig()
+
+        expect(config.docker).toMatchObject({ image: 'test-app', tag: '1.0.0' })
+        expect(config.env![0].value).toBe('tok-123456')
+        expect(secretPaths).toEqual(['env[0].value'])
+
+        const lines: string[] = []
+        const spy = vi.spyOn(console, 'log').mockImplementation((line: string) => { lines.push(line) })
+        try {
+          logger.info('token', config.env![0].value)
+        } finally {
+          spy.mockRestore()
+        }
+        expect(lines.join('\n')).not.toContain('tok-123456')
+      } finally {
+        await rm(workDir, { recursive: true, force: true })
+      }
+    })
+
     it('should validate config after loading', async () => {
       // 创建无效配置
       const invalidConfig = { name: '', version: '' }
@@ -65,6 +167,66 @@ describe('ConfigManager', () => {
     })
   })
 
+  describe('TypeScript config', () => {
+    let workDir: string
+
+    beforeEach(async () => {
+      workDir = await mkdtemp(join(tmpdir(), 'deployer-config-'))
+      await writeFile(join(workDir, 'shared.ts'), `export const registry: string = 'registry.example.com'\n`)
+    })
+
+    afterEach(async () => {
+      await rm(workDir, { recursive: true, force: true })
+    })
+
+    it('should transpile a TS config that exports a function', async () => {
+      await writeFile(join(workDir, 'deploy.config.ts'), [
+        `import { registry } from './shared'`,
+        `import type { ConfigContext, DeployConfig } from '@ldesign/deployer'`,
+        ``,
+        `export default ({ environment, env }: ConfigContext): DeployConfig => ({`,
+        `  name: 'shop',`,
+        `  version: env.SHOP_VERSION || '0.0.0',`,
+        `  environment,`,
+        `  platform: 'kubernetes',`,
+        `  projectType: 'node',`,
+        `  docker: { image: 'shop', registry },`,
+        `})`,
+      ].join('\n'))
+      process.env.SHOP_VERSION = '2.1.0'
+
+      try {
+        const manager = new ConfigManager({ workDir, configFile: 'deploy.config.ts', environment: 'staging' })
+        const config = await manager.loadConfig()
+
+        expect(config).toMatchObject({
+          version: '2.1.0',
+          environment: 'staging',
+          docker: { registry: 'registry.example.com' },
+        })
+      } finally {
+        delete process.env.SHOP_VERSION
+      }
+    })
+
+    it('should report TS compile errors with line and column', async () => {
+      await writeFile(join(workDir, 'deploy.config.ts'), `export default {\n  name: 'shop',,\n}\n`)
+
+      const manager = new ConfigManager({ workDir, configFile: 'deploy.config.ts' })
+
+      await expect(manager.loadConfig()).rejects.toMatchObject({
+        details: { line: 2, column: 16 },
+      })
+    })
+
+    it('should return the config from defineConfig unchanged', () => {
+      const factory = () => testConfig
+
+      expect(defineConfig(testConfig)).toBe(testConfig)
+      expect(defineConfig(factory)).toBe(factory)
+    })
+  })
+
   describe('saveConfig', () => {
     it('should save config to file', async () => {
       const manager = new ConfigManager({ configFile: 'new-config.json' })
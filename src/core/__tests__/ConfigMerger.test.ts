@@ -0,0 +1,88 @@
+/**
+ * ConfigMerger 测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import { ConfigMerger } from '../ConfigMerger.js'
+
+const base = {
+  name: 'shop',
+  docker: { image: 'shop', tag: 'latest' },
+  env: [
+    { name: 'LOG_LEVEL', value: 'debug' },
+    { name: 'PORT', value: '3000' },
+  ],
+  hooks: { preDeploy: ['npm test'] },
+}
+
+describe('ConfigMerger', () => {
+  it('should deep merge objects and track value sources', () => {
+    const { config, sources } = new ConfigMerger().merge([
+      { source: 'deploy.config.json', config: base },
+      { source: 'deploy.config.production.json', config: { docker: { registry: 'registry.example.com' } } },
+    ])
+
+    expect(config.docker).toEqual({ image: 'shop', tag: 'latest', registry: 'registry.example.com' })
+    expect(sources['docker.image']).toBe('deploy.config.json')
+    expect(sources['docker.registry']).toBe('deploy.config.production.json')
+  })
+
+  it('should merge env and secrets by name by default', () => {
+    const { config, sources } = new ConfigMerger().merge([
+      { source: 'base', config: base },
+      { source: 'production', config: { env: [{ name: 'LOG_LEVEL', value: 'warn' }, { name: 'REGION', value: 'eu' }] } },
+    ])
+
+    expect(config.env).toEqual([
+      { name: 'LOG_LEVEL', value: 'warn' },
+      { name: 'PORT', value: '3000' },
+      { name: 'REGION', value: 'eu' },
+    ])
+    expect(sources['env[1].value']).toBe('base')
+    expect(sources['env[0].value']).toBe('production')
+    expect(sources['env[2].value']).toBe('production')
+  })
+
+  it('should replace other arrays unless the overlay declares a strategy', () => {
+    const replaced = new ConfigMerger().merge([
+      { source: 'base', config: base },
+      { source: 'production', config: { hooks: { preDeploy: ['npm run smoke'] } } },
+    ])
+    expect(replaced.config.hooks.preDeploy).toEqual(['npm run smoke'])
+
+    const appended = new ConfigMerger().merge([
+      { source: 'base', config: base },
+      { source: 'production', config: { $merge: { 'hooks.preDeploy': 'append' }, hooks: { preDeploy: ['npm run smoke'] } } },
+    ])
+    expect(appended.config).not.toHaveProperty('$merge')
+    expect(appended.config.hooks.preDeploy).toEqual(['npm test', 'npm run smoke'])
+    expect(appended.sources['hooks.preDeploy[1]']).toBe('production')
+  })
+
+  it('should apply strategies to later layers', () => {
+    const { config, sources } = new ConfigMerger().merge([
+      { source: 'base', config: { ...base, $merge: { env: 'prepend' } } },
+      { source: 'production', config: { env: [{ name: 'NODE_ENV', value: 'production' }] } },
+      { source: 'production.eu', config: { $merge: { env: { mergeByKey: 'name' } }, env: [{ name: 'PORT', value: '8080' }] } },
+    ])
+
+    expect(config.env.map((item: any) => `${item.name}=${item.value}`)).toEqual([
+      'NODE_ENV=production',
+      'LOG_LEVEL=debug',
+      'PORT=8080',
+    ])
+    expect(sources['env[2].value']).toBe('production.eu')
+  })
+
+  it('should format sources', () => {
+    const report = ConfigMerger.formatSources({
+      config: {},
+      sources: { name: 'deploy.config.json', 'docker.registry': 'deploy.config.production.json' },
+    })
+
+    expect(report).toBe([
+      'name             ← deploy.config.json',
+      'docker.registry  ← deploy.config.production.json',
+    ].join('\n'))
+  })
+})
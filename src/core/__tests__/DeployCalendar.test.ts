@@ -0,0 +1,98 @@
+/**
+ * DeployCalendar 测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import { DeployCalendar } from '../DeployCalendar.js'
+import { CronExpression, toZonedTime } from '../../utils/cron.js'
+import { ConfigError } from '../../utils/errors.js'
+import { DeployConfigSchema } from '../../utils/schema.js'
+import type { DeployConfig } from '../../types/index.js'
+
+const calendarConfig: Pick<DeployConfig, 'deployWindows' | 'freezes'> = {
+  deployWindows: {
+    timezone: 'Asia/Shanghai',
+    windows: [
+      { name: 'business-hours', cron: '* 9-17 * * mon-fri', environments: ['production'] },
+      { name: 'berlin-morning', cron: '0-29 9 * * 1-5', environments: ['staging'], timezone: 'Europe/Berlin' },
+    ],
+  },
+  freezes: [
+    { name: 'National Day', start: '2026-10-01', end: '2026-10-07', reason: 'holiday', environments: ['production'] },
+    { name: 'Audit', start: '2026-10-20T12:00', end: '2026-10-20T14:00', enforcement: 'warn' },
+  ],
+}
+
+describe('DeployCalendar', () => {
+  const calendar = new DeployCalendar(calendarConfig)
+
+  it('should parse cron expressions with names, ranges and steps', () => {
+    const cron = new CronExpression('*/15 9-17 * jan-jun mon,wed,7')
+    const time = { year: 2026, month: 3, day: 1, hour: 9, minute: 30, weekday: 0 }
+
+    expect(cron.matches(time)).toBe(true)
+    expect(cron.matches({ ...time, minute: 31 })).toBe(false)
+    expect(cron.matches({ ...time, weekday: 2 })).toBe(false)
+    expect(cron.matches({ ...time, month: 7 })).toBe(false)
+
+    // 日与星期同时受限时满足其一即可
+    expect(new CronExpression('0 0 1 * mon').matches({ ...time, hour: 0, minute: 0, day: 1, weekday: 3 })).toBe(true)
+
+    expect(() => new CronExpression('* * * *')).toThrow(ConfigError)
+    expect(() => new CronExpression('* 24 * * *')).toThrow('hour')
+    expect(() => toZonedTime(new Date(), 'Mars/Olympus')).toThrow(ConfigError)
+  })
+
+  it('should check windows in their own timezone and per environment', () => {
+    // 2026-10-19 是周一，UTC 02:00 = 上海 10:00 = 柏林 04:00
+    const monday = new Date('2026-10-19T02:00:00Z')
+
+    expect(calendar.check('production', monday)).toMatchObject({ allowed: true, window: { name: 'business-hours' } })
+
+    const staging = calendar.check('staging', monday)
+    expect(staging.allowed).toBe(false)
+    expect(staging.violations[0]).toMatchObject({ type: 'window', enforcement: 'block' })
+    expect(staging.violations[0].message).toContain('next window: 2026-10-19 15:00')
+
+    expect(calendar.check('staging', new Date('2026-10-19T07:10:00Z')).allowed).toBe(true)
+    expect(calendar.check('development', monday).allowed).toBe(true)
+  })
+
+  it('should apply freezes with inclusive end dates', () => {
+    const frozen = calendar.check('production', new Date('2026-10-07T08:00:00Z'))
+    expect(frozen.violations).toMatchObject([{ type: 'freeze', enforcement: 'block', freeze: { name: 'National Day' } }])
+
+    expect(calendar.check('production', new Date('2026-10-08T02:00:00Z')).allowed).toBe(true)
+
+    const audit = calendar.check('development', new Date('2026-10-20T04:30:00Z'))
+    expect(audit.violations).toMatchObject([{ type: 'freeze', enforcement: 'warn' }])
+
+    expect(calendar.getFreezes('production', new Date('2026-10-05T00:00:00Z')).map(f => f.name))
+      .toEqual(['National Day', 'Audit'])
+  })
+
+  it('should list upcoming slots outside of blocking freezes', () => {
+    // 周五 2026-10-02 上海 00:00，假期冻结到 10-07 结束
+    const slots = calendar.getUpcomingSlots('production', new Date('2026-10-01T16:00:00Z'), 7)
+
+    expect(slots).toHaveLength(1)
+    expect(slots[0].start.toISOString()).toBe('2026-10-08T01:00:00.000Z')
+    expect(slots[0].end.toISOString()).toBe('2026-10-08T10:00:00.000Z')
+    expect(slots[0].windows).toEqual(['business-hours'])
+  })
+
+  it('should validate calendar config in the schema', () => {
+    const base = { name: 'shop', version: '1.0.0', environment: 'production', platform: 'docker', projectType: 'node' }
+
+    expect(DeployConfigSchema.safeParse({ ...base, ...calendarConfig }).success).toBe(true)
+    expect(DeployConfigSchema.safeParse({
+      ...base,
+      deployWindows: { timezone: 'Nowhere/City', windows: [{ cron: '* * * * * *' }] },
+      freezes: [{ name: 'x', start: '2026-10-02', end: '2026-10-01' }],
+    }).error!.issues.map(issue => issue.path.join('.'))).toEqual([
+      'deployWindows.timezone',
+      'deployWindows.windows.0.cron',
+      'freezes.0.end',
+    ])
+  })
+})
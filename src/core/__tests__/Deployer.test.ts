@@ -0,0 +1,317 @@
+/**
+ * Deployer 测试
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { exec } from 'child_process'
+import { promisify } from 'util'
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { Deployer } from '../Deployer.js'
+import { ConfigManager } from '../ConfigManager.js'
+import { SecretManager } from '../../security/SecretManager.js'
+import { ApprovalManager } from '../../approvals/ApprovalManager.js'
+import { ImageBuilder } from '../../docker/ImageBuilder.js'
+import { VersionHistory } from '../../rollback/VersionHistory.js'
+import { ApprovalError, DeploymentError, PermissionError, TimeoutError } from '../../utils/errors.js'
+import { PromotionStore } from '../../strategies/PromotionStore.js'
+import type { DeployConfig, DeployerPlugin, PendingPromotion, StrategyResult } from '../../types/index.js'
+
+const execAsync = promisify(exec)
+
+const config: DeployConfig = {
+  name: 'shop',
+  version: '2.0.0',
+  environment: 'staging',
+  platform: 'slow',
+  projectType: 'node',
+  plugins: [],
+}
+
+describe('Deployer cancellation', () => {
+  let workDir: string
+  let events: string[]
+  let plugin: DeployerPlugin
+
+  beforeEach(async () => {
+    workDir = await mkdtemp(join(tmpdir(), 'deployer-cancel-'))
+    events = []
+    plugin = {
+      name: 'slow-platform',
+      setup(ctx) {
+        ctx.registerPlatform({
+          name: 'slow',
+          deploy: async (_config, { signal }) => {
+            events.push('deploy')
+            await execAsync('sleep 5', { signal })
+            throw new Error('sleep was not killed')
+          },
+        })
+      },
+      onError: ({ error }) => { events.push(`onError:${(error as DeploymentError).phase}`) },
+    }
+  })
+
+  afterEach(async () => {
+    await rm(workDir, { recursive: true, force: true })
+  })
+
+  it('should kill running commands and throw a cancelled DeploymentError', async () => {
+    const deployer = new Deployer({ workDir, plugins: [plugin] })
+    const controller = new AbortController()
+    setTimeout(() => controller.abort(new TimeoutError('Deployment timed out after 100ms', 'Deployment', 100)), 100)
+
+    const start = Date.now()
+    const error = await deployer.deploy({ config, dryRun: true, signal: controller.signal }).catch(e => e)
+
+    expect(Date.now() - start).toBeLessThan(4000)
+    expect(error).toBeInstanceOf(DeploymentError)
+    expect(error).toMatchObject({
+      phase: 'cancelled',
+      message: 'Deployment cancelled: Deployment timed out after 100ms',
+      details: { timedOut: true },
+    })
+    expect(events).toEqual(['deploy', 'onError:cancelled'])
+  })
+
+  it('should not start when the signal is already aborted', async () => {
+    const deployer = new Deployer({ workDir, plugins: [plugin] })
+
+    const deploying = deployer.deploy({ config, dryRun: true, signal: AbortSignal.abort() })
+
+    await expect(deploying).rejects.toMatchObject({ phase: 'cancelled', details: { timedOut: false } })
+    expect(events).toEqual([])
+  })
+})
+
+describe('Deployer history', () => {
+  let workDir: string
+
+  beforeEach(async () => {
+    workDir = await mkdtemp(join(tmpdir(), 'deployer-history-'))
+    vi.spyOn(process, 'cwd').mockReturnValue(workDir)
+  })
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    await rm(workDir, { recursive: true, force: true })
+  })
+
+  it('should not write decrypted secret values to the deployment history', async () => {
+    const secretManager = new SecretManager(join(workDir, '.deployer-secrets.json'))
+    secretManager.initMasterKey('test-master-password')
+    await secretManager.storeSecret('db-password', 'pw-9f8e7d6c')
+    await writeFile(join(workDir, 'deploy.config.json'), JSON.stringify({
+      ...config,
+      platform: 'docker',
+      plugins: undefined,
+      env: [{ name: 'DB_PASSWORD', value: '${secret:db-password}' }],
+    }))
+
+    const { config: resolved } = await new ConfigManager({ workDir, secretManager }).resolveConfig()
+    expect(resolved.env![0].value).toBe('pw-9f8e7d6c')
+
+    const result = await new Deployer({ workDir }).deploy({ config: resolved, skipBuild: true })
+    expect(result.success).toBe(true)
+
+    const history = await readFile(join(workDir, '.deploy-history.json'), 'utf-8')
+    expect(history).not.toContain('pw-9f8e7d6c')
+    expect(JSON.parse(history)[0]).toMatchObject({
+      status: 'success',
+      config: { env: [{ name: 'DB_PASSWORD', value: '${secret:db-password}' }] },
+    })
+  })
+
+  it('should record the deployed image digest for later promotions', async () => {
+    const digest = `sha256:${'7e6d5c4b'.repeat(8)}`
+    const getDigest = vi.spyOn(ImageBuilder.prototype, 'getDigest').mockResolvedValue(digest)
+
+    const result = await new Deployer({ workDir }).deploy({
+      config: { ...config, platform: 'docker', plugins: undefined, docker: { image: 'shop' } },
+      skipBuild: true,
+    })
+
+    expect(getDigest).toHaveBeenCalledWith('shop:2.0.0', false)
+    expect(result.provenance).toEqual({ image: 'shop:2.0.0', digest })
+    const history = JSON.parse(await readFile(join(workDir, '.deploy-history.json'), 'utf-8'))
+    expect(history[0].result.provenance.digest).toBe(digest)
+  })
+})
+
+describe('Deployer approvals', () => {
+  let workDir: string
+  let deployed: number
+
+  const plugin: DeployerPlugin = {
+    name: 'static-platform',
+    setup(ctx) {
+      ctx.registerPlatform({
+        name: 'slow',
+        deploy: async () => {
+          deployed++
+          return { success: true, message: 'deployed', timestamp: new Date().toISOString(), environment: 'production', platform: 'slow' }
+        },
+      })
+    },
+  }
+
+  const protectedConfig: DeployConfig = {
+    ...config,
+    environment: 'production',
+    approvals: {
+      environments: { production: { requiredApprovers: ['alice'] } },
+      identities: {
+        alice: ApprovalManager.hashToken('token-alice'),
+        dave: ApprovalManager.hashToken('token-dave'),
+      },
+    },
+  }
+
+  beforeEach(async () => {
+    workDir = await mkdtemp(join(tmpdir(), 'deployer-approvals-'))
+    deployed = 0
+    vi.spyOn(process, 'cwd').mockReturnValue(workDir)
+  })
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    vi.unstubAllEnvs()
+    await rm(workDir, { recursive: true, force: true })
+  })
+
+  it('should require approval without the enhanced deployer', async () => {
+    vi.stubEnv('DEPLOYER_APPROVAL_TOKEN', 'token-dave')
+    const deployer = new Deployer({ workDir, plugins: [plugin] })
+
+    await expect(deployer.deploy({ config: protectedConfig })).rejects.toBeInstanceOf(ApprovalError)
+    expect(deployed).toBe(0)
+
+    const manager = new ApprovalManager({ config: protectedConfig.approvals, workDir, token: 'token-alice' })
+    const [request] = await manager.list()
+    await manager.approve(request.id)
+
+    const result = await new Deployer({ workDir, plugins: [plugin] }).deploy({ config: protectedConfig })
+    expect(result.success).toBe(true)
+    expect(deployed).toBe(1)
+    expect(await manager.get(request.id)).toMatchObject({ status: 'used' })
+  })
+
+  it('should record the deployment and use the approval only after a pending switch completes', async () => {
+    const events: string[] = []
+    const pending = {
+      appName: 'shop',
+      namespace: 'default',
+      mode: 'manual',
+      activeColor: 'blue',
+      targetColor: 'green',
+      targetVersion: '2.0.0',
+      previewService: 'shop-preview',
+      createdAt: new Date().toISOString(),
+      config: {},
+    } as PendingPromotion
+    const pendingPlugin: DeployerPlugin = {
+      name: 'pending-platform',
+      setup(ctx) {
+        ctx.registerPlatform({
+          name: 'slow',
+          deploy: async () => {
+            const strategy: StrategyResult = {
+              success: true,
+              pending: true,
+              strategy: 'bluegreen',
+              message: 'green environment is ready and awaiting manual promotion',
+              details: { pending },
+              timestamp: new Date().toISOString(),
+            }
+            return { ...strategy, environment: 'production', platform: 'slow', strategy }
+          },
+        })
+      },
+      afterDeploy: () => { events.push('afterDeploy') },
+    }
+    const manager = new ApprovalManager({ config: protectedConfig.approvals, workDir, token: 'token-alice' })
+    vi.stubEnv('DEPLOYER_APPROVAL_TOKEN', 'token-dave')
+    await expect(new Deployer({ workDir, plugins: [pendingPlugin] }).deploy({ config: protectedConfig }))
+      .rejects.toBeInstanceOf(ApprovalError)
+    const [request] = await manager.list()
+    await manager.approve(request.id)
+
+    const result = await new Deployer({ workDir, plugins: [pendingPlugin] }).deploy({ config: protectedConfig })
+
+    expect(result).toMatchObject({ success: true, pending: true })
+    expect(events).toEqual([])
+    expect(await new VersionHistory().getAll()).toEqual([])
+    expect(await manager.get(request.id)).toMatchObject({ status: 'approved' })
+
+    const record = await new PromotionStore().get('shop')
+    expect(record?.deployment).toMatchObject({ approvalId: request.id, config: { name: 'shop', version: '2.0.0' } })
+
+    const completed = await new Deployer({ workDir }).completePromotion({
+      success: true,
+      strategy: 'bluegreen',
+      message: 'Traffic switched to green',
+      details: { activeColor: 'green', version: '2.0.0', pending: record },
+      timestamp: new Date().toISOString(),
+    })
+
+    expect(completed).toMatchObject({ success: true, version: '2.0.0', environment: 'production' })
+    expect(await new VersionHistory().getAll()).toMatchObject([{ version: '2.0.0', status: 'success' }])
+    expect(await manager.get(request.id)).toMatchObject({ status: 'used' })
+  })
+
+  it('should reject deployments from unverified identities', async () => {
+    // 用户名环境变量不再作为身份
+    vi.stubEnv('USER', 'alice')
+    const deployer = new Deployer({ workDir, plugins: [plugin] })
+
+    await expect(deployer.deploy({ config: protectedConfig })).rejects.toBeInstanceOf(PermissionError)
+    expect(deployed).toBe(0)
+  })
+
+  it('should not approve images that the deployment would rebuild', async () => {
+    vi.stubEnv('DEPLOYER_APPROVAL_TOKEN', 'token-dave')
+    const deployer = new Deployer({ workDir })
+
+    await expect(deployer.deploy({ config: { ...protectedConfig, platform: 'docker', plugins: undefined } }))
+      .rejects.toThrow('must use a built image')
+  })
+})
+
+describe('Deployer config loading', () => {
+  let workDir: string
+
+  beforeEach(async () => {
+    workDir = await mkdtemp(join(tmpdir(), 'deployer-workdir-'))
+  })
+
+  afterEach(async () => {
+    await rm(workDir, { recursive: true, force: true })
+    delete (globalThis as any).deployedConfigs
+  })
+
+  it('should load the config, environment overlay and plugins from workDir', async () => {
+    await writeFile(join(workDir, 'record-platform.mjs'), `
+      export default () => ({
+        name: 'record-platform',
+        setup(ctx) {
+          ctx.registerPlatform({
+            name: 'slow',
+            deploy: async config => {
+              (globalThis.deployedConfigs ||= []).push(config)
+              return { success: true, message: 'deployed', timestamp: new Date().toISOString(), environment: config.environment, platform: 'slow' }
+            },
+          })
+        },
+      })
+    `)
+    await writeFile(join(workDir, 'deploy.config.json'), JSON.stringify({ ...config, plugins: ['./record-platform.mjs'] }))
+    await writeFile(join(workDir, 'deploy.config.production.json'), JSON.stringify({ version: '2.1.0' }))
+
+    expect(process.cwd()).not.toBe(workDir)
+    const result = await new Deployer({ workDir }).deploy({ environment: 'production', skipBuild: true })
+
+    expect(result.success).toBe(true)
+    expect((globalThis as any).deployedConfigs[0]).toMatchObject({ name: 'shop', version: '2.1.0', environment: 'production' })
+  })
+})
@@ -0,0 +1,167 @@
+/**
+ * EnhancedDeployer 测试
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { EnhancedDeployer } from '../EnhancedDeployer.js'
+import { sleep } from '../../utils/retry.js'
+import { SecretManager } from '../../security/SecretManager.js'
+import type { DeployConfig, DeployerPlugin, DeploymentHistory } from '../../types/index.js'
+
+describe('EnhancedDeployer freezes', () => {
+  let workDir: string
+  let deployed: number
+
+  const plugin: DeployerPlugin = {
+    name: 'static-platform',
+    setup(ctx) {
+      ctx.registerPlatform({
+        name: 'static',
+        deploy: async () => {
+          deployed++
+          return { success: true, message: 'deployed', timestamp: new Date().toISOString(), environment: 'production', platform: 'static' }
+        },
+      })
+    },
+  }
+
+  const config: DeployConfig = {
+    name: 'shop',
+    version: '2.0.0',
+    environment: 'production',
+    platform: 'static',
+    projectType: 'node',
+    plugins: [],
+    freezes: [{ name: 'incident freeze', start: '2000-01-01', end: '2999-12-31' }],
+  }
+
+  beforeEach(async () => {
+    workDir = await mkdtemp(join(tmpdir(), 'deployer-enhanced-'))
+    deployed = 0
+    vi.spyOn(process, 'cwd').mockReturnValue(workDir)
+  })
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    await rm(workDir, { recursive: true, force: true })
+  })
+
+  it('should enforce freezes when pre-checks are skipped', async () => {
+    const deployer = new EnhancedDeployer({ workDir, plugins: [plugin] })
+
+    await expect(deployer.deploy({ config, skipPreCheck: true, enableProgress: false }))
+      .rejects.toThrow('Deployment blocked: Deploy Window')
+    expect(deployed).toBe(0)
+  })
+
+  it('should audit emergency overrides when pre-checks are skipped', async () => {
+    const deployer = new EnhancedDeployer({ workDir, plugins: [plugin] })
+
+    const result = await deployer.deploy({ config, skipPreCheck: true, emergencyReason: 'hotfix', enableProgress: false })
+
+    expect(result.success).toBe(true)
+    expect(deployed).toBe(1)
+    expect(await readFile(join(workDir, '.deploy-logs', 'audit.jsonl'), 'utf-8')).toContain('hotfix')
+  })
+})
+
+describe('EnhancedDeployer timeout rollback', () => {
+  let workDir: string
+  let rolledBack: DeployConfig[]
+
+  const plugin: DeployerPlugin = {
+    name: 'slow-platform',
+    setup(ctx) {
+      ctx.registerPlatform({
+        name: 'slow',
+        deploy: async (_config, { signal }) => {
+          await sleep(5000, signal)
+          throw new Error('deploy was not aborted')
+        },
+        rollback: async config => {
+          rolledBack.push(config)
+        },
+      })
+    },
+  }
+
+  const config: DeployConfig = {
+    name: 'shop',
+    version: '2.0.0',
+    environment: 'production',
+    platform: 'slow',
+    projectType: 'node',
+    plugins: [],
+  }
+
+  const record = (name: string, environment: 'staging' | 'production'): DeploymentHistory => ({
+    id: `${name}-${environment}`,
+    version: '1.0.0',
+    environment,
+    platform: 'slow',
+    status: 'success',
+    timestamp: '2026-10-01T08:00:00.000Z',
+    config: { ...config, name, version: '1.0.0', environment },
+  })
+
+  beforeEach(async () => {
+    workDir = await mkdtemp(join(tmpdir(), 'deployer-timeout-'))
+    rolledBack = []
+    vi.spyOn(process, 'cwd').mockReturnValue(workDir)
+  })
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    await rm(workDir, { recursive: true, force: true })
+  })
+
+  it('should roll back to the previous deployment of the same app and environment', async () => {
+    // 其他应用的同名版本排在前面，按版本号全局查找会选错记录
+    await writeFile(join(workDir, '.deploy-history.json'), JSON.stringify([
+      record('billing', 'staging'),
+      record('shop', 'production'),
+    ]))
+    const deployer = new EnhancedDeployer({ workDir, plugins: [plugin] })
+
+    await expect(deployer.deploy({
+      config,
+      deploymentTimeout: 100,
+      rollbackOnTimeout: true,
+      enableProgress: false,
+    })).rejects.toMatchObject({ phase: 'cancelled' })
+
+    expect(rolledBack).toHaveLength(1)
+    expect(rolledBack[0]).toMatchObject({ name: 'shop', environment: 'production', version: '1.0.0' })
+  })
+
+  it('should resolve secret references of the history record before rolling back', async () => {
+    vi.stubEnv('DEPLOYER_MASTER_KEY', '11'.repeat(32))
+    const secretManager = new SecretManager(join(workDir, '.deployer-secrets.json'))
+    secretManager.loadMasterKeyFromEnv()
+    await secretManager.storeSecret('db-password', 's3cr3t-value')
+
+    const previous = record('shop', 'production')
+    previous.config.env = [{ name: 'DB_PASSWORD', value: '${secret:db-password}' }]
+    await writeFile(join(workDir, '.deploy-history.json'), JSON.stringify([previous]))
+    const deployer = new EnhancedDeployer({ workDir, plugins: [plugin] })
+
+    try {
+      await expect(deployer.deploy({
+        config,
+        deploymentTimeout: 100,
+        rollbackOnTimeout: true,
+        enableProgress: false,
+      })).rejects.toMatchObject({ phase: 'cancelled' })
+    } finally {
+      vi.unstubAllEnvs()
+    }
+
+    expect(rolledBack).toHaveLength(1)
+    expect(rolledBack[0].env).toEqual([{ name: 'DB_PASSWORD', value: 's3cr3t-value' }])
+    // 写回历史的仍然只是引用
+    expect(await readFile(join(workDir, '.deploy-history.json'), 'utf-8')).not.toContain('s3cr3t-value')
+  })
+})
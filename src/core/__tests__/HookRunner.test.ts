@@ -0,0 +1,176 @@
+/**
+ * HookRunner 测试
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, mkdir, rm } from 'fs/promises'
+import { existsSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { HookRunner, type HookExecutor } from '../HookRunner.js'
+import { DeploymentError } from '../../utils/errors.js'
+import { maskInLogs } from '../../utils/logger.js'
+import type { AuditLogger } from '../../utils/audit-log.js'
+import type { DeployConfig, HookConfig } from '../../types/index.js'
+
+function createConfig(hooks: HookConfig): DeployConfig {
+  return {
+    name: 'shop',
+    version: '1.4.0',
+    environment: 'staging',
+    platform: 'kubernetes',
+    projectType: 'node',
+    docker: { image: 'shop', registry: 'registry.example.com' },
+    hooks,
+  }
+}
+
+describe('HookRunner', () => {
+  let workDir: string
+  let audited: any[]
+  let auditLogger: AuditLogger
+
+  beforeEach(async () => {
+    workDir = await mkdtemp(join(tmpdir(), 'deployer-hooks-'))
+    audited = []
+    auditLogger = { logHook: async (entry: any) => { audited.push(entry) } } as unknown as AuditLogger
+  })
+
+  afterEach(async () => {
+    await rm(workDir, { recursive: true, force: true })
+  })
+
+  it('should pass the deployment context as env vars and capture output into the audit log', async () => {
+    await mkdir(join(workDir, 'scripts'))
+    maskInLogs('s3cr3t-token')
+
+    const runner = new HookRunner({ workDir, auditLogger })
+    const results = await runner.run('preDeploy', {
+      config: createConfig({
+        preDeploy: [
+          'echo "$DEPLOY_HOOK $DEPLOY_APP@$DEPLOY_VERSION $DEPLOY_ENVIRONMENT $DEPLOY_PLATFORM $DEPLOY_IMAGE $DEPLOY_IMAGE_DIGEST"',
+          { name: 'migrate', run: 'pwd && echo "token=$TOKEN"', cwd: 'scripts', env: { TOKEN: 's3cr3t-token' } },
+        ],
+      }),
+      digest: 'sha256:abc',
+    })
+
+    expect(results.map(result => [result.name, result.status, result.exitCode])).toEqual([
+      [expect.stringContaining('echo'), 'success', 0],
+      ['migrate', 'success', 0],
+    ])
+    expect(results[0].stdout?.trim()).toBe('preDeploy shop@1.4.0 staging kubernetes registry.example.com/shop:1.4.0 sha256:abc')
+    expect(results[1].stdout).toContain(join(workDir, 'scripts'))
+
+    expect(audited[1]).toMatchObject({
+      name: 'shop',
+      type: 'preDeploy',
+      hook: 'migrate',
+      status: 'success',
+      attempts: 1,
+      stdout: expect.stringContaining('token=******'),
+    })
+    expect(audited[1].stdout).not.toContain('s3cr3t-token')
+  })
+
+  it('should filter, retry and apply the failure policy', async () => {
+    const calls: string[] = []
+    const executor: HookExecutor = async (command) => {
+      calls.push(command)
+      if (command === 'flaky' && calls.filter(call => call === 'flaky').length < 3) {
+        throw Object.assign(new Error('flaky exited with code 1'), { code: 1, stderr: 'not yet' })
+      }
+      if (command.startsWith('fail')) {
+        throw Object.assign(new Error(`${command} exited with code 2`), { code: 2 })
+      }
+      return { stdout: 'ok', stderr: '' }
+    }
+    const runner = new HookRunner({ workDir, executor, auditLogger })
+
+    const results = await runner.run('postDeploy', {
+      config: createConfig({
+        postDeploy: [
+          { run: 'prod-only', when: { environments: ['production'] } },
+          { run: 'docker-only', when: { platforms: ['docker'] } },
+          { run: 'flaky', retries: 2, retryDelay: 0 },
+          { run: 'fail-soft', continueOnError: true },
+        ],
+      }),
+    })
+
+    expect(results.map(result => [result.command, result.status, result.attempts])).toEqual([
+      ['prod-only', 'skipped', 0],
+      ['docker-only', 'skipped', 0],
+      ['flaky', 'success', 3],
+      ['fail-soft', 'failed', 1],
+    ])
+    expect(results[0].reason).toBe('environment staging not in production')
+    expect(audited.map(entry => [entry.hook, entry.status, entry.exitCode])).toEqual([
+      ['flaky', 'success', 0],
+      ['fail-soft', 'failed', 2],
+    ])
+
+    calls.length = 0
+    const failing = runner.run('preRollback', {
+      config: createConfig({ preRollback: ['fail-hard', 'never'] }),
+    })
+    await expect(failing).rejects.toThrow(DeploymentError)
+    await expect(failing).rejects.toThrow('Hook fail-hard failed: fail-hard exited with code 2')
+    expect(calls).toEqual(['fail-hard'])
+  })
+
+  it('should kill hooks that exceed their timeout', async () => {
+    const runner = new HookRunner({ workDir, auditLogger })
+
+    const results = await runner.run('postRollback', {
+      config: createConfig({ postRollback: [{ run: 'sleep 5', timeout: 0.2, continueOnError: true }] }),
+      rollbackFrom: '1.5.0',
+    })
+
+    expect(results[0]).toMatchObject({ status: 'failed', error: 'timed out after 0.2s' })
+    expect(results[0].duration).toBeLessThan(4000)
+  })
+
+  it('should not report hooks killed for too much output as timed out', async () => {
+    const runner = new HookRunner({ workDir, auditLogger })
+
+    const results = await runner.run('preDeploy', {
+      config: createConfig({
+        preDeploy: [{ run: 'head -c 11000000 /dev/zero; sleep 5', timeout: 30, continueOnError: true }],
+      }),
+    })
+
+    expect(results[0]).toMatchObject({ status: 'failed', error: 'stdout maxBuffer length exceeded' })
+  })
+
+  it('should kill processes started by the hook when it times out', async () => {
+    const runner = new HookRunner({ workDir, auditLogger })
+
+    const results = await runner.run('preDeploy', {
+      config: createConfig({
+        preDeploy: [{ run: '(sleep 1; echo late > late.txt) & wait', timeout: 0.2, continueOnError: true }],
+      }),
+    })
+
+    expect(results[0]).toMatchObject({ status: 'failed', error: 'timed out after 0.2s' })
+    expect(results[0].duration).toBeLessThan(1000)
+
+    await new Promise(resolve => setTimeout(resolve, 1500))
+    expect(existsSync(join(workDir, 'late.txt'))).toBe(false)
+  })
+
+  it('should kill the running hook and stop when the signal is aborted', async () => {
+    const runner = new HookRunner({ workDir, auditLogger })
+    const controller = new AbortController()
+    setTimeout(() => controller.abort(new Error('stop')), 100)
+
+    const running = runner.run('preDeploy', {
+      config: createConfig({ preDeploy: [{ run: 'sleep 5', continueOnError: true }, 'echo never'] }),
+      signal: controller.signal,
+    })
+
+    await expect(running).rejects.toThrow('stop')
+    expect(audited.map(entry => [entry.command, entry.status, entry.error])).toEqual([['sleep 5', 'failed', 'cancelled']])
+    expect(audited[0].duration).toBeLessThan(4000)
+  })
+})
@@ -0,0 +1,251 @@
+/**
+ * PipelineExecutor 测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import { PipelineExecutor, type PipelineExecutorOptions } from '../PipelineExecutor.js'
+import { ProgressTracker, type ProgressEvent } from '../../utils/progress.js'
+import type { AuditLogger } from '../../utils/audit-log.js'
+import type { PipelineConfig } from '../../types/index.js'
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+/**
+ * 记录命令开始/结束顺序的伪执行器，命令形如 "<name>:<耗时毫秒>"，"fail" 开头的命令失败
+ */
+function createExecutor() {
+  const events: string[] = []
+
+  const executor = async (command: string) => {
+    const [name, ms] = command.split(':')
+    events.push(`start ${name}`)
+    await sleep(Number(ms || 0))
+    events.push(`end ${name}`)
+
+    if (name.startsWith('fail')) {
+      throw new Error(`${name} exited with code 1`)
+    }
+    return { stdout: '', stderr: '' }
+  }
+
+  return { executor, events }
+}
+
+function createPipeline(overrides: Partial<PipelineExecutorOptions> = {}) {
+  const { executor, events } = createExecutor()
+  const pipeline = new PipelineExecutor({
+    name: 'shop',
+    version: '1.1.0',
+    environment: 'staging',
+    executor,
+    ...overrides,
+  })
+
+  return { pipeline, events }
+}
+
+describe('PipelineExecutor', () => {
+  describe('validate', () => {
+    it('should reject unknown dependencies, duplicates and cycles', () => {
+      expect(() => PipelineExecutor.validate({
+        stages: [{ name: 'deploy', dependsOn: ['build'] }],
+      })).toThrow('unknown stage: build')
+
+      expect(() => PipelineExecutor.validate({
+        stages: [{ name: 'build' }, { name: 'build' }],
+      })).toThrow('Duplicate pipeline stage')
+
+      expect(() => PipelineExecutor.validate({
+        stages: [
+          { name: 'build', dependsOn: ['verify'] },
+          { name: 'deploy', dependsOn: ['build'] },
+          { name: 'verify', dependsOn: ['deploy'] },
+        ],
+      })).toThrow('build -> verify -> deploy -> build')
+    })
+
+    it('should require commands for stages without a handler', async () => {
+      const { pipeline } = createPipeline()
+
+      await expect(pipeline.run({ stages: [{ name: 'migrate' }] })).rejects.toThrow('has no commands')
+    })
+  })
+
+  describe('run', () => {
+    it('should run independent stages in parallel and respect dependsOn', async () => {
+      const { pipeline, events } = createPipeline()
+
+      const result = await pipeline.run({
+        stages: [
+          { name: 'build', commands: ['build:20'] },
+          { name: 'test', commands: ['test:5'] },
+          { name: 'deploy', commands: ['deploy:0'], dependsOn: ['build', 'test'] },
+        ],
+      })
+
+      expect(result.success).toBe(true)
+      expect(events.slice(0, 2)).toEqual(['start build', 'start test'])
+      expect(events.indexOf('start deploy')).toBeGreaterThan(events.indexOf('end build'))
+      expect(result.stages.map(stage => stage.status)).toEqual(['success', 'success', 'success'])
+    })
+
+    it('should limit concurrency', async () => {
+      const { pipeline, events } = createPipeline()
+
+      await pipeline.run({
+        concurrency: 1,
+        stages: [
+          { name: 'build', commands: ['build:5'] },
+          { name: 'test', commands: ['test:0'] },
+        ],
+      })
+
+      expect(events).toEqual(['start build', 'end build', 'start test', 'end test'])
+    })
+
+    it('should skip dependents of a failed stage and run failure handlers', async () => {
+      const { pipeline, events } = createPipeline()
+
+      const result = await pipeline.run({
+        stages: [
+          { name: 'test', commands: ['fail-test:0'] },
+          { name: 'deploy', commands: ['deploy:0'], dependsOn: ['test'] },
+          { name: 'verify', commands: ['verify:0'], dependsOn: ['deploy'] },
+          { name: 'notify', commands: ['notify:0'], dependsOn: ['verify'], when: { status: 'failure' } },
+        ],
+      })
+
+      expect(result.success).toBe(false)
+      expect(result.stages.map(stage => stage.status)).toEqual(['failed', 'skipped', 'skipped', 'success'])
+      expect(result.stages[0].error).toBe('fail-test exited with code 1')
+      expect(events).not.toContain('start deploy')
+      expect(events).toContain('start notify')
+    })
+
+    it('should keep going when a failed stage allows it', async () => {
+      const { pipeline } = createPipeline()
+
+      const result = await pipeline.run({
+        stages: [
+          { name: 'lint', commands: ['fail-lint:0'], continueOnError: true },
+          { name: 'deploy', commands: ['deploy:0'], dependsOn: ['lint'] },
+        ],
+      })
+
+      expect(result.success).toBe(true)
+      expect(result.stages.map(stage => stage.status)).toEqual(['failed', 'success'])
+    })
+
+    it('should skip stages whose conditions do not match without blocking dependents', async () => {
+      const { pipeline } = createPipeline()
+
+      const result = await pipeline.run({
+        stages: [
+          { name: 'migrate', commands: ['migrate:0'], when: { environments: ['production'] } },
+          { name: 'deploy', commands: ['deploy:0'], dependsOn: ['migrate'] },
+          { name: 'notify', commands: ['notify:0'], when: { env: ['PIPELINE_TEST_UNSET_WEBHOOK'] } },
+        ],
+      })
+
+      expect(result.success).toBe(true)
+      expect(result.stages.map(stage => stage.status)).toEqual(['skipped', 'success', 'skipped'])
+      expect(result.stages[0].reason).toContain('environment staging')
+    })
+
+    it('should retry failed attempts and enforce timeouts', async () => {
+      let calls = 0
+      const { pipeline } = createPipeline({
+        handlers: {
+          deploy: async () => {
+            calls++
+            if (calls < 3) {
+              throw new Error('registry unavailable')
+            }
+          },
+          verify: () => sleep(200),
+        },
+      })
+
+      const result = await pipeline.run({
+        failFast: false,
+        stages: [
+          { name: 'deploy', retries: 2, retryDelay: 0 },
+          { name: 'verify', timeout: 0.05 },
+        ],
+      })
+
+      expect(result.stages[0]).toMatchObject({ status: 'success', attempts: 3 })
+      expect(result.stages[1].status).toBe('failed')
+      expect(result.stages[1].error).toContain('timed out')
+    })
+
+    it('should abort timed out attempts before retrying', async () => {
+      const events: string[] = []
+      const { pipeline } = createPipeline({
+        executor: async (command, options) => {
+          events.push(`start ${command}`)
+          await new Promise((resolve, reject) => {
+            const timer = setTimeout(resolve, 500)
+            options?.signal?.addEventListener('abort', () => {
+              clearTimeout(timer)
+              events.push(`abort ${command}`)
+              reject(options.signal!.reason)
+            })
+          })
+          events.push(`end ${command}`)
+          return { stdout: '', stderr: '' }
+        },
+      })
+
+      const result = await pipeline.run({
+        stages: [{ name: 'migrate', commands: ['migrate'], timeout: 0.05, retries: 1, retryDelay: 0 }],
+      })
+
+      expect(result.stages[0]).toMatchObject({ status: 'failed', attempts: 2 })
+      expect(result.stages[0].error).toContain('Stage migrate timed out after 50ms')
+      expect(events).toEqual(['start migrate', 'abort migrate', 'start migrate', 'abort migrate'])
+    })
+
+    it('should not execute stages in dry run', async () => {
+      const { pipeline, events } = createPipeline({ dryRun: true })
+
+      const result = await pipeline.run({ stages: [{ name: 'build', commands: ['build:0'] }] })
+
+      expect(events).toEqual([])
+      expect(result.stages[0]).toMatchObject({ status: 'skipped', reason: 'dry run' })
+    })
+
+    it('should report stage status to the progress tracker and audit log', async () => {
+      const progressTracker = new ProgressTracker()
+      const progress: ProgressEvent[] = []
+      progressTracker.on(event => progress.push(event))
+
+      const audited: any[] = []
+      const auditLogger = {
+        logPipelineStage: async (entry: any) => {
+          audited.push(entry)
+        },
+      } as unknown as AuditLogger
+
+      const { pipeline } = createPipeline({ progressTracker, auditLogger })
+      const config: PipelineConfig = {
+        stages: [
+          { name: 'build', commands: ['build:0'] },
+          { name: 'deploy', commands: ['fail-deploy:0'], dependsOn: ['build'] },
+        ],
+      }
+
+      await pipeline.run(config)
+
+      expect(progress.map(event => event.message)).toEqual([
+        'Stage build started',
+        'Stage build success',
+        'Stage deploy started',
+        'Stage deploy failed: fail-deploy exited with code 1',
+      ])
+      expect(progress[1]).toMatchObject({ phase: 'build', progress: 50 })
+      expect(audited.map(entry => [entry.stage, entry.status])).toEqual([['build', 'success'], ['deploy', 'failed']])
+      expect(audited[0]).toMatchObject({ name: 'shop', version: '1.1.0', environment: 'staging', attempts: 1 })
+    })
+  })
+})
@@ -0,0 +1,262 @@
+/**
+ * PromotionManager 测试
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { PromotionManager } from '../PromotionManager.js'
+import { VersionHistory } from '../../rollback/VersionHistory.js'
+import { ApprovalManager } from '../../approvals/ApprovalManager.js'
+import { SecretManager } from '../../security/SecretManager.js'
+import { ApprovalError } from '../../utils/errors.js'
+import { writeFile } from '../../utils/file-system.js'
+import type { DeployOptions } from '../Deployer.js'
+import type { EnhancedDeployer } from '../EnhancedDeployer.js'
+import type { AuditLogger } from '../../utils/audit-log.js'
+import type { DeployConfig, DeployResult } from '../../types/index.js'
+
+const baseConfig: DeployConfig = {
+  name: 'shop',
+  version: '1.3.0',
+  environment: 'development',
+  platform: 'kubernetes',
+  projectType: 'node',
+  docker: {
+    image: 'shop',
+    registry: 'registry.example.com',
+  },
+}
+
+const DIGEST = `sha256:${'4f1c0d9e'.repeat(8)}`
+const RETAGGED_DIGEST = `sha256:${'9a8b7c6d'.repeat(8)}`
+
+describe('PromotionManager', () => {
+  let workDir: string
+  let history: VersionHistory
+  let commands: string[]
+  let deployOptions: DeployOptions | undefined
+  let audited: any[]
+
+  function createManager() {
+    const deployer = {
+      deploy: vi.fn(async (options: DeployOptions): Promise<DeployResult> => {
+        deployOptions = options
+        return {
+          success: true,
+          message: 'deployed',
+          version: options.config!.version,
+          timestamp: new Date().toISOString(),
+          environment: options.config!.environment,
+          platform: options.config!.platform,
+          provenance: options.provenance,
+        }
+      }),
+    } as unknown as EnhancedDeployer
+
+    const auditLogger = {
+      logPromotion: async (entry: any) => {
+        audited.push(entry)
+      },
+      logApproval: async () => {},
+    } as unknown as AuditLogger
+
+    return new PromotionManager({
+      workDir,
+      configFile: 'deploy.config.json',
+      deployer,
+      versionHistory: history,
+      auditLogger,
+      executor: async (command: string) => {
+        commands.push(command)
+        if (command.startsWith('docker buildx imagetools inspect')) {
+          return { stdout: JSON.stringify({ mediaType: 'application/vnd.oci.image.index.v1+json', digest: DIGEST }), stderr: '' }
+        }
+        return { stdout: '', stderr: '' }
+      },
+    })
+  }
+
+  async function addStagingDeployment(config: Partial<DeployConfig> = {}, digest: string | null = DIGEST) {
+    await history.addDeployment({
+      id: 'shop-1700000000000',
+      version: '1.2.0',
+      environment: 'staging',
+      platform: 'kubernetes',
+      status: 'success',
+      timestamp: '2026-10-01T08:00:00.000Z',
+      config: { ...baseConfig, version: '1.2.0', environment: 'staging', ...config },
+      result: {
+        success: true,
+        message: 'deployed',
+        timestamp: '2026-10-01T08:00:00.000Z',
+        environment: 'staging',
+        platform: 'kubernetes',
+        provenance: digest ? { image: 'registry.example.com/shop:1.2.0', digest } : undefined,
+      },
+    })
+  }
+
+  beforeEach(async () => {
+    workDir = await mkdtemp(join(tmpdir(), 'deployer-promote-'))
+    history = new VersionHistory(join(workDir, '.deploy-history.json'))
+    commands = []
+    deployOptions = undefined
+    audited = []
+
+    await writeFile(join(workDir, 'deploy.config.json'), JSON.stringify(baseConfig))
+  })
+
+  afterEach(async () => {
+    vi.unstubAllEnvs()
+    await rm(workDir, { recursive: true, force: true })
+  })
+
+  it('should deploy the source artifact with the target environment overlay', async () => {
+    await addStagingDeployment()
+    await writeFile(join(workDir, 'deploy.config.production.json'), JSON.stringify({
+      kubernetes: { namespace: 'prod' },
+    }))
+
+    const result = await createManager().promote({ from: 'staging', to: 'production' })
+
+    expect(result.success).toBe(true)
+    expect(commands).toEqual([])
+    expect(deployOptions).toMatchObject({ skipBuild: true, environment: 'production' })
+    expect(deployOptions!.config).toMatchObject({
+      version: '1.2.0',
+      environment: 'production',
+      kubernetes: { namespace: 'prod' },
+      docker: { image: 'shop', tag: '1.2.0', digest: DIGEST },
+    })
+    expect(result.provenance).toEqual({
+      sourceDeploymentId: 'shop-1700000000000',
+      sourceEnvironment: 'staging',
+      sourceImage: 'registry.example.com/shop:1.2.0',
+      image: 'registry.example.com/shop:1.2.0',
+      digest: DIGEST,
+    })
+    expect(audited[0]).toMatchObject({
+      from: 'staging',
+      to: 'production',
+      sourceDeploymentId: 'shop-1700000000000',
+      digest: DIGEST,
+      result: 'success',
+    })
+  })
+
+  it('should retag the image by digest when the target registry differs', async () => {
+    await addStagingDeployment({ docker: { image: 'shop', registry: 'staging.registry.example.com' } })
+    await writeFile(join(workDir, 'deploy.config.production.json'), JSON.stringify({
+      docker: { registry: 'prod.registry.example.com' },
+    }))
+
+    const result = await createManager().promote({ from: 'staging', to: 'production' })
+
+    expect(commands[0]).toBe(
+      `docker buildx imagetools create --tag prod.registry.example.com/shop:1.2.0 staging.registry.example.com/shop@${DIGEST}`
+    )
+    expect(result.provenance?.image).toBe('prod.registry.example.com/shop:1.2.0')
+  })
+
+  it('should not retag or audit in dry run', async () => {
+    await addStagingDeployment({ docker: { image: 'shop' } })
+
+    await createManager().promote({ from: 'staging', to: 'production', dryRun: true })
+
+    expect(commands).toEqual([])
+    expect(deployOptions?.dryRun).toBe(true)
+    expect(audited).toEqual([])
+  })
+
+  it('should promote the recorded digest even if the tag was overwritten', async () => {
+    // 仓库中的标签已指向其他镜像（inspect 返回 DIGEST）
+    await addStagingDeployment({}, RETAGGED_DIGEST)
+
+    const result = await createManager().promote({ from: 'staging', to: 'production' })
+
+    expect(commands).toEqual([])
+    expect(deployOptions!.config!.docker?.digest).toBe(RETAGGED_DIGEST)
+    expect(result.provenance?.digest).toBe(RETAGGED_DIGEST)
+  })
+
+  it('should require --allow-tag-resolve when the source recorded no digest', async () => {
+    await addStagingDeployment({}, null)
+    const manager = createManager()
+
+    await expect(manager.promote({ from: 'staging', to: 'production' }))
+      .rejects.toThrow('Source deployment shop-1700000000000 did not record an image digest')
+    expect(deployOptions).toBeUndefined()
+
+    const result = await manager.promote({ from: 'staging', to: 'production', allowTagResolve: true })
+    expect(commands).toEqual([`docker buildx imagetools inspect registry.example.com/shop:1.2.0 --format '{{json .Manifest}}'`])
+    expect(result.provenance?.digest).toBe(DIGEST)
+  })
+
+  it('should fail without a successful source deployment', async () => {
+    const manager = createManager()
+
+    await expect(manager.promote({ from: 'staging', to: 'production' }))
+      .rejects.toThrow('No successful deployment of shop found in staging')
+    await expect(manager.promote({ from: 'staging', to: 'staging' }))
+      .rejects.toThrow('Source and target environments must be different')
+    await expect(manager.promote({ from: 'qa' as any, to: 'production' }))
+      .rejects.toThrow('Invalid environment: qa')
+  })
+  it('should check the target approval before retagging', async () => {
+    vi.stubEnv('DEPLOYER_APPROVAL_TOKEN', 'token-dave')
+    const approvals = {
+      environments: { production: { requiredApprovers: ['alice'] } },
+      identities: {
+        alice: ApprovalManager.hashToken('token-alice'),
+        dave: ApprovalManager.hashToken('token-dave'),
+      },
+    }
+    await addStagingDeployment({ docker: { image: 'shop', registry: 'staging.registry.example.com' } })
+    await writeFile(join(workDir, 'deploy.config.production.json'), JSON.stringify({
+      docker: { registry: 'prod.registry.example.com' },
+      approvals,
+    }))
+    const manager = createManager()
+
+    await expect(manager.promote({ from: 'staging', to: 'production' })).rejects.toBeInstanceOf(ApprovalError)
+    expect(commands).toEqual([])
+    expect(deployOptions).toBeUndefined()
+
+    const approver = new ApprovalManager({
+      config: approvals,
+      workDir,
+      token: 'token-alice',
+      auditLogger: { logApproval: async () => {} } as unknown as AuditLogger,
+    })
+    const [request] = await approver.list()
+    expect(request.digests).toEqual({ shop: DIGEST })
+    await approver.approve(request.id)
+
+    const result = await manager.promote({ from: 'staging', to: 'production' })
+    expect(result.success).toBe(true)
+    expect(commands[0]).toContain('docker buildx imagetools create --tag prod.registry.example.com/shop:1.2.0')
+  })
+
+  it('should resolve secret references and escapes of the source deployment', async () => {
+    vi.stubEnv('DEPLOYER_MASTER_KEY', '11'.repeat(32))
+    const secretManager = new SecretManager(join(workDir, '.deployer-secrets.json'))
+    secretManager.loadMasterKeyFromEnv()
+    await secretManager.storeSecret('db-password', 's3cr3t-value')
+    await addStagingDeployment({
+      env: [{ name: 'DB_PASSWORD', value: 'placeholder' }, { name: 'GREETING', value: 'hello ${USER}' }],
+    })
+    // 历史中保存的是引用
+    const [stored] = await history.getAll()
+    stored.config.env![0].value = '${secret:db-password}'
+    await history.save()
+
+    const source = await createManager().findSource('shop', 'staging')
+
+    expect(source.config.env).toEqual([
+      { name: 'DB_PASSWORD', value: 's3cr3t-value' },
+      { name: 'GREETING', value: 'hello ${USER}' },
+    ])
+  })
+})
@@ -0,0 +1,195 @@
+/**
+ * ServiceOrchestrator 测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import { ServiceOrchestrator, type ServiceHandlers, type ResolvedService } from '../ServiceOrchestrator.js'
+import type { DeployConfig, DeployResult } from '../../types/index.js'
+
+const config: DeployConfig = {
+  name: 'shop',
+  version: '2.0.0',
+  platform: 'kubernetes',
+  environment: 'production',
+  projectType: 'node',
+  docker: {
+    image: 'shop',
+    registry: 'registry.example.com',
+  },
+  kubernetes: {
+    namespace: 'apps',
+  },
+  healthCheck: {
+    enabled: true,
+    path: '/health',
+    port: 3000,
+  },
+  services: {
+    web: { dependsOn: ['api'], healthCheck: { enabled: true, path: '/', port: 80 } },
+    api: { docker: { image: 'shop-backend', tag: '2.0.1' } },
+    worker: { dependsOn: ['api'], kubernetes: { namespace: 'jobs' } },
+  },
+}
+
+function createResult(service: ResolvedService, success = true): DeployResult {
+  return {
+    success,
+    message: success ? `${service.name} deployed` : `${service.name} rollout failed`,
+    version: service.config.version,
+    timestamp: new Date().toISOString(),
+    environment: service.config.environment,
+    platform: service.config.platform,
+  }
+}
+
+/**
+ * 记录调用顺序的处理函数
+ */
+function createHandlers(overrides: Partial<ServiceHandlers> = {}) {
+  const calls: string[] = []
+
+  const handlers: ServiceHandlers = {
+    build: async (service) => {
+      calls.push(`build ${service.name}`)
+    },
+    deploy: async (service) => {
+      calls.push(`deploy ${service.name}`)
+      return createResult(service)
+    },
+    healthCheck: async (service) => {
+      calls.push(`health ${service.name}`)
+    },
+    rollback: async (service) => {
+      calls.push(`rollback ${service.name}`)
+      return createResult(service)
+    },
+    ...overrides,
+  }
+
+  return { handlers, calls }
+}
+
+describe('ServiceOrchestrator', () => {
+  describe('resolve', () => {
+    it('should merge service overrides into the application config', () => {
+      const services = ServiceOrchestrator.resolve(config)
+      const [web, api, worker] = services
+
+      expect(services.map(service => service.config.name)).toEqual(['shop-web', 'shop-api', 'shop-worker'])
+      expect(web.config.docker).toMatchObject({ image: 'shop-web', registry: 'registry.example.com' })
+      expect(web.config.healthCheck?.port).toBe(80)
+      expect(api.config.docker).toMatchObject({ image: 'shop-backend', tag: '2.0.1' })
+      expect(api.config.healthCheck?.port).toBe(3000)
+      expect(worker.config.kubernetes?.namespace).toBe('jobs')
+      expect(worker.config.services).toBeUndefined()
+    })
+  })
+
+  describe('sort', () => {
+    it('should order services after their dependencies', () => {
+      const sorted = ServiceOrchestrator.sort(ServiceOrchestrator.resolve(config))
+
+      expect(sorted.map(service => service.name)).toEqual(['api', 'web', 'worker'])
+    })
+
+    it('should reject unknown dependencies and cycles', () => {
+      expect(() => ServiceOrchestrator.sort(ServiceOrchestrator.resolve({
+        ...config,
+        services: { web: { dependsOn: ['api'] } },
+      }))).toThrow('unknown service: api')
+
+      expect(() => ServiceOrchestrator.sort(ServiceOrchestrator.resolve({
+        ...config,
+        services: { web: { dependsOn: ['api'] }, api: { dependsOn: ['web'] }, db: {} },
+      }))).toThrow('dependency cycle: web, api')
+    })
+  })
+
+  describe('run', () => {
+    it('should build in parallel and deploy in dependency order with health gating', async () => {
+      const { handlers, calls } = createHandlers()
+
+      const result = await new ServiceOrchestrator(handlers).run(config)
+
+      expect(result.success).toBe(true)
+      expect(calls).toEqual([
+        'build api', 'build web', 'build worker',
+        'deploy api', 'health api',
+        'deploy web', 'health web',
+        'deploy worker', 'health worker',
+      ])
+      expect(result.services.map(service => [service.name, service.status])).toEqual([
+        ['api', 'success'],
+        ['web', 'success'],
+        ['worker', 'success'],
+      ])
+    })
+
+    it('should not deploy anything when a build fails', async () => {
+      const { handlers, calls } = createHandlers({
+        build: async (service) => {
+          if (service.name === 'web') {
+            throw new Error('npm ci failed')
+          }
+        },
+      })
+
+      const result = await new ServiceOrchestrator(handlers).run(config)
+
+      expect(result).toMatchObject({ success: false, failedService: 'web' })
+      expect(calls).toEqual([])
+      expect(result.services.find(service => service.name === 'web')).toMatchObject({
+        status: 'failed',
+        error: 'Build failed: npm ci failed',
+      })
+      expect(result.services.find(service => service.name === 'api')?.status).toBe('skipped')
+    })
+
+    it('should roll back deployed services in reverse order when a later service fails', async () => {
+      const { handlers, calls } = createHandlers({
+        healthCheck: async (service) => {
+          calls.push(`health ${service.name}`)
+          if (service.name === 'web') {
+            throw new Error('Health check failed: 502')
+          }
+        },
+      })
+
+      const result = await new ServiceOrchestrator(handlers).run(config)
+
+      expect(result).toMatchObject({ success: false, failedService: 'web' })
+      expect(calls.slice(7)).toEqual(['rollback web', 'rollback api'])
+      expect(result.services.map(service => [service.name, service.status])).toEqual([
+        ['api', 'rolledBack'],
+        ['web', 'failed'],
+        ['worker', 'skipped'],
+      ])
+      expect(result.services[1]).toMatchObject({
+        error: 'Health check failed: 502',
+        rollback: { success: true, message: 'web deployed' },
+      })
+    })
+
+    it('should not roll back a service whose deployment did not succeed', async () => {
+      const { handlers, calls } = createHandlers({
+        deploy: async (service) => {
+          calls.push(`deploy ${service.name}`)
+          return createResult(service, service.name !== 'web')
+        },
+        rollback: async () => {
+          throw new Error('No previous successful deployment of shop-api')
+        },
+      })
+
+      const result = await new ServiceOrchestrator(handlers).run(config)
+
+      expect(calls).not.toContain('health web')
+      expect(result.services[0]).toMatchObject({
+        status: 'success',
+        rollback: { success: false, message: 'No previous successful deployment of shop-api' },
+      })
+      expect(result.services[1]).toMatchObject({ status: 'failed', error: 'web rollout failed' })
+      expect(result.services[1].rollback).toBeUndefined()
+    })
+  })
+})
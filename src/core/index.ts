@@ -10,4 +10,11 @@ export * from './PreDeploymentChecker.js'
 export * from './EnhancedDeployer.js'
 export * from './ParallelDeployer.js'
 export * from './BackupManager.js'
-
+export * from './PipelineExecutor.js'
+export * from './CheckpointVerifier.js'
+export * from './ServiceOrchestrator.js'
+export * from './PromotionManager.js'
+export * from './ConfigMerger.js'
+export * from './ConfigInterpolator.js'
+export * from './DeployCalendar.js'
+export * from './HookRunner.js'
@@ -4,7 +4,8 @@
 
 import { toYaml } from '../utils/template-engine.js'
 import { logger } from '../utils/logger.js'
-import type { ComposeConfig, ComposeService } from '../types/index.js'
+import { PROXY_LISTEN_PORT, PROXY_PREVIEW_PORT } from './ProxyConfigGenerator.js'
+import type { ComposeConfig, ComposeService, ContainerProxyProvider } from '../types/index.js'
 
 export interface ComposeGeneratorOptions {
   version?: string
@@ -98,6 +99,52 @@ export class ComposeGenerator {
     return service
   }
 
+  /**
+   * 生成渐进式发布使用的反向代理服务
+   *
+   * @description 代理配置目录以只读方式挂载，重新生成配置后
+   * NGINX 需执行 reload，Traefik 通过文件监听自动生效
+   */
+  generateProxyService(options: {
+    appName: string
+    provider?: ContainerProxyProvider
+    /** 宿主机上的代理配置目录 */
+    configPath: string
+    port?: number
+    previewPort?: number
+    image?: string
+    depends_on?: string[]
+  }): ComposeService {
+    const provider = options.provider || 'nginx'
+    const ports = [`${options.port || 80}:${PROXY_LISTEN_PORT}`]
+    if (options.previewPort) {
+      ports.push(`${options.previewPort}:${PROXY_PREVIEW_PORT}`)
+    }
+
+    const service: ComposeService = {
+      container_name: `${options.appName}-proxy`,
+      ports,
+      depends_on: options.depends_on,
+      restart: 'unless-stopped',
+    }
+
+    if (provider === 'traefik') {
+      service.image = options.image || 'traefik:v3.0'
+      service.command = [
+        '--providers.file.directory=/etc/traefik/dynamic',
+        '--providers.file.watch=true',
+        `--entrypoints.web.address=:${PROXY_LISTEN_PORT}`,
+        `--entrypoints.preview.address=:${PROXY_PREVIEW_PORT}`,
+      ]
+      service.volumes = [`${options.configPath}:/etc/traefik/dynamic:ro`]
+    } else {
+      service.image = options.image || 'nginx:alpine'
+      service.volumes = [`${options.configPath}:/etc/nginx/conf.d:ro`]
+    }
+
+    return service
+  }
+
   /**
    * 生成完整的应用栈
    */
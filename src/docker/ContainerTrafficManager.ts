@@ -0,0 +1,452 @@
+/**
+ * 容器流量管理器
+ * @module docker/ContainerTrafficManager
+ *
+ * @description 在 Docker 主机上并行运行同一应用的多个版本，
+ * 通过生成的 NGINX/Traefik 反向代理按权重分配流量。
+ * 每次 apply 描述期望状态：启动缺失的容器 → 更新代理权重并重新加载 → 删除不再需要的容器。
+ * 应用容器的环境变量写入配置目录下权限为 0600 的 env 文件，通过 --env-file / env_file 传入，不出现在命令行中
+ */
+
+import { exec } from 'child_process'
+import { createHash } from 'crypto'
+import { writeFile as writeNewFile } from 'fs/promises'
+import { promisify } from 'util'
+import { join, resolve } from 'path'
+import { logger } from '../utils/logger.js'
+import { sleep } from '../utils/retry.js'
+import { writeFile, writeJSON, readJSON, fileExists, ensureDir, removeFile } from '../utils/file-system.js'
+import { ComposeGenerator } from './ComposeGenerator.js'
+import { ProxyConfigGenerator } from './ProxyConfigGenerator.js'
+import type { CommandExecutor } from '../kubernetes/DeploymentManager.js'
+import type { ComposeService, ContainerProxyConfig } from '../types/index.js'
+
+const execAsync = promisify(exec)
+
+/**
+ * 容器标签：标记由部署器管理的应用容器
+ */
+const APP_LABEL = 'ldesign.deployer.app'
+
+/**
+ * 容器标签：环境变量摘要，环境变量变化时重新创建容器
+ */
+const ENV_LABEL = 'ldesign.deployer.env'
+
+const HEALTH_POLL_INTERVAL = 2000
+
+/**
+ * 应用版本容器
+ */
+export interface ContainerVariant {
+  /** 变体名称（如 blue、green 或版本号），容器名为 <appName>-<name> */
+  name: string
+  /** 完整镜像引用（含标签） */
+  image: string
+  /** 流量权重（0-100） */
+  weight: number
+}
+
+/**
+ * 最近一次应用的流量状态
+ */
+export interface ContainerTrafficState {
+  variants: ContainerVariant[]
+  preview?: string
+  updatedAt: string
+}
+
+/**
+ * 容器流量管理选项
+ */
+export interface ContainerTrafficOptions {
+  appName: string
+  platform: 'docker' | 'docker-compose'
+  /** 容器端口，默认 8080 */
+  port?: number
+  /** 应用容器的环境变量（含密钥） */
+  env?: Record<string, string>
+  proxy?: ContainerProxyConfig
+}
+
+/**
+ * 容器流量管理器类
+ *
+ * @example
+ * ```typescript
+ * const traffic = new ContainerTrafficManager({ appName: 'shop', platform: 'docker' });
+ *
+ * await traffic.apply([
+ *   { name: '1.0.0', image: 'shop:1.0.0', weight: 90 },
+ *   { name: '1.1.0', image: 'shop:1.1.0', weight: 10 },
+ * ]);
+ * ```
+ */
+export class ContainerTrafficManager {
+  private options: ContainerTrafficOptions
+  private executor: CommandExecutor
+  private proxyGenerator: ProxyConfigGenerator
+  private composeGenerator: ComposeGenerator
+
+  constructor(options: ContainerTrafficOptions, executor: CommandExecutor = execAsync) {
+    this.options = options
+    this.executor = executor
+    this.proxyGenerator = new ProxyConfigGenerator()
+    this.composeGenerator = new ComposeGenerator()
+  }
+
+  /**
+   * 应用期望状态
+   *
+   * @param variants - 需要运行的版本及权重，未列出的容器会被删除
+   * @param preview - 预览入口路由到的变体（需配置 proxy.previewPort）
+   */
+  async apply(variants: ContainerVariant[], preview?: string): Promise<void> {
+    const proxyConfig = this.proxyGenerator.generate(this.getProvider(), {
+      name: this.options.appName,
+      backends: variants.map(variant => ({
+        name: variant.name,
+        host: this.getContainerName(variant.name),
+        port: this.options.port || 8080,
+        weight: variant.weight,
+      })),
+      preview: this.options.proxy?.previewPort ? preview : undefined,
+    })
+
+    const weights = variants.map(variant => `${variant.name}=${variant.weight}%`).join(', ')
+    logger.info(`Applying container traffic: ${weights}`)
+
+    if (this.options.platform === 'docker-compose') {
+      await this.applyCompose(variants, proxyConfig)
+    } else {
+      await this.applyDocker(variants, proxyConfig)
+    }
+
+    await writeJSON(this.getStatePath(), {
+      variants,
+      preview,
+      updatedAt: new Date().toISOString(),
+    } satisfies ContainerTrafficState)
+
+    logger.success('Container traffic applied')
+  }
+
+  /**
+   * 获取最近一次应用的流量状态
+   */
+  async getState(): Promise<ContainerTrafficState | null> {
+    const statePath = this.getStatePath()
+    return fileExists(statePath) ? readJSON<ContainerTrafficState>(statePath) : null
+  }
+
+  /**
+   * 检查容器是否运行且健康（未配置 HEALTHCHECK 时只检查运行状态）
+   */
+  async isHealthy(name: string): Promise<boolean> {
+    const status = await this.inspect(name, '{{.State.Running}} {{if .State.Health}}{{.State.Health.Status}}{{end}}')
+    if (!status) {
+      return false
+    }
+
+    const [running, health] = status.split(' ')
+    return running === 'true' && (!health || health === 'healthy')
+  }
+
+  /**
+   * 等待容器健康
+   *
+   * @param name - 变体名称
+   * @param timeout - 超时时间（秒），默认 120
+   * @param signal - 中止信号，触发时停止等待
+   * @throws {Error} 容器退出、健康检查失败或超时时抛出
+   */
+  async waitForHealthy(name: string, timeout = 120, signal?: AbortSignal): Promise<void> {
+    const containerName = this.getContainerName(name)
+    const deadline = Date.now() + timeout * 1000
+
+    logger.info(`Waiting for container ${containerName} to become healthy...`)
+
+    while (true) {
+      const status = await this.inspect(name, '{{.State.Status}} {{if .State.Health}}{{.State.Health.Status}}{{end}}')
+      const [state, health] = (status || '').split(' ')
+
+      if (state === 'running' && (!health || health === 'healthy')) {
+        logger.success(`Container ${containerName} is healthy`)
+        return
+      }
+
+      if (state === 'exited' || state === 'dead' || health === 'unhealthy') {
+        throw new Error(`Container ${containerName} is ${health === 'unhealthy' ? 'unhealthy' : state}`)
+      }
+
+      if (Date.now() >= deadline) {
+        throw new Error(`Timed out waiting for container ${containerName} to become healthy`)
+      }
+
+      await sleep(HEALTH_POLL_INTERVAL, signal)
+    }
+  }
+
+  /**
+   * 获取变体的容器名称
+   */
+  getContainerName(name: string): string {
+    return `${this.options.appName}-${name}`
+  }
+
+  /**
+   * 获取代理容器名称
+   */
+  getProxyName(): string {
+    return `${this.options.appName}-proxy`
+  }
+
+  /**
+   * docker 平台：docker run 管理容器
+   */
+  private async applyDocker(variants: ContainerVariant[], proxyConfig: string): Promise<void> {
+    const network = this.options.proxy?.network || `${this.options.appName}-net`
+    await this.ensureNetwork(network)
+    const envFile = await this.writeEnvFile()
+
+    // 1. 启动新版本
+    for (const variant of variants) {
+      await this.ensureContainer(variant, network, envFile)
+    }
+
+    // 2. 更新代理
+    await this.writeProxyConfig(proxyConfig)
+    await this.ensureProxy(network)
+    await this.reloadProxy()
+
+    // 3. 删除不再需要的版本
+    const desired = new Set(variants.map(variant => this.getContainerName(variant.name)))
+    const { stdout } = await this.executor(
+      `docker ps -a --filter label=${APP_LABEL}=${this.options.appName} --format '{{.Names}}'`
+    )
+
+    for (const name of stdout.split('\n').map(line => line.trim()).filter(Boolean)) {
+      if (!desired.has(name)) {
+        logger.info(`Removing container ${name}...`)
+        await this.executor(`docker rm -f ${name}`)
+      }
+    }
+  }
+
+  /**
+   * docker-compose 平台：重新生成 compose 文件并 up
+   */
+  private async applyCompose(variants: ContainerVariant[], proxyConfig: string): Promise<void> {
+    const services: Record<string, ComposeService> = {}
+    const envFile = await this.writeEnvFile()
+
+    for (const variant of variants) {
+      services[variant.name] = {
+        image: variant.image,
+        container_name: this.getContainerName(variant.name),
+        env_file: envFile ? [envFile] : undefined,
+        restart: 'unless-stopped',
+      }
+    }
+
+    services.proxy = this.getProxyService(variants.map(variant => variant.name))
+
+    const composeFile = join(this.getConfigDir(), 'docker-compose.yml')
+    await writeFile(composeFile, this.composeGenerator.generate({ services }))
+
+    const compose = `docker-compose -p ${this.options.appName} -f ${this.quote(composeFile)}`
+
+    // 1. 启动新版本
+    await this.executor(`${compose} up -d --no-deps ${variants.map(variant => variant.name).join(' ')}`)
+
+    // 2. 更新代理
+    await this.writeProxyConfig(proxyConfig)
+    await this.executor(`${compose} up -d --no-deps proxy`)
+    await this.reloadProxy()
+
+    // 3. 删除不再需要的版本
+    await this.executor(`${compose} up -d --remove-orphans`)
+  }
+
+  private async ensureNetwork(network: string): Promise<void> {
+    try {
+      await this.executor(`docker network inspect ${network}`)
+    } catch {
+      logger.info(`Creating network ${network}...`)
+      await this.executor(`docker network create ${network}`)
+    }
+  }
+
+  /**
+   * 镜像、环境变量一致且正在运行的容器保持不变，否则重新创建
+   */
+  private async ensureContainer(variant: ContainerVariant, network: string, envFile: string | null): Promise<void> {
+    const name = this.getContainerName(variant.name)
+    const envHash = this.getEnvHash()
+    const current = await this.inspect(
+      variant.name,
+      `{{.Config.Image}} {{.State.Running}} {{index .Config.Labels "${ENV_LABEL}"}}`
+    )
+
+    if (current === [variant.image, 'true', envHash].filter(Boolean).join(' ')) {
+      logger.debug(`Container ${name} is up to date`)
+      return
+    }
+
+    if (current) {
+      await this.executor(`docker rm -f ${name}`)
+    }
+
+    const args = ['docker', 'run', '-d', '--name', name, '--network', network, '--restart', 'unless-stopped',
+      '--label', `${APP_LABEL}=${this.options.appName}`]
+
+    if (envFile) {
+      args.push('--label', `${ENV_LABEL}=${envHash}`, '--env-file', this.quote(envFile))
+    }
+
+    args.push(variant.image)
+
+    logger.info(`Starting container ${name} (${variant.image})...`)
+    await this.executor(args.join(' '))
+  }
+
+  /**
+   * 写入应用容器的 env 文件，未配置环境变量时返回 null
+   *
+   * @throws {Error} 变量值包含换行时抛出（env 文件不支持多行值）
+   */
+  private async writeEnvFile(): Promise<string | null> {
+    const entries = Object.entries(this.options.env || {})
+    if (entries.length === 0) {
+      return null
+    }
+
+    const lines = entries.map(([key, value]) => {
+      if (/[\r\n]/.test(value)) {
+        throw new Error(`Environment variable ${key} contains a line break, which container env files do not support`)
+      }
+      return `${key}=${value}`
+    })
+
+    // 重新创建文件，创建时即为 0600，内容不会以默认权限短暂可读
+    const envFile = join(this.getConfigDir(), `${this.options.appName}.env`)
+    await ensureDir(this.getConfigDir())
+    await removeFile(envFile)
+    await writeNewFile(envFile, `${lines.join('\n')}\n`, { mode: 0o600, flag: 'wx' })
+    return envFile
+  }
+
+  /**
+   * 环境变量摘要，记录在容器标签上
+   */
+  private getEnvHash(): string {
+    const entries = Object.entries(this.options.env || {})
+    if (entries.length === 0) {
+      return ''
+    }
+
+    return createHash('sha256').update(JSON.stringify(entries)).digest('hex').slice(0, 12)
+  }
+
+  /**
+   * 代理容器不存在时创建
+   */
+  private async ensureProxy(network: string): Promise<void> {
+    const name = this.getProxyName()
+    const running = await this.inspectContainer(name, '{{.State.Running}}')
+
+    if (running === 'true') {
+      return
+    }
+
+    if (running) {
+      await this.executor(`docker rm -f ${name}`)
+    }
+
+    const service = this.getProxyService()
+    const args = ['docker', 'run', '-d', '--name', name, '--network', network, '--restart', 'unless-stopped']
+
+    for (const port of service.ports || []) {
+      args.push('-p', port)
+    }
+    for (const volume of service.volumes || []) {
+      args.push('-v', this.quote(volume))
+    }
+
+    args.push(service.image!)
+
+    if (service.command) {
+      args.push(...(Array.isArray(service.command) ? service.command : [service.command]))
+    }
+
+    logger.info(`Starting proxy ${name}...`)
+    await this.executor(args.join(' '))
+  }
+
+  /**
+   * 重新加载代理配置（Traefik 监听文件变化，无需处理）
+   */
+  private async reloadProxy(): Promise<void> {
+    if (this.getProvider() === 'nginx') {
+      await this.executor(`docker exec ${this.getProxyName()} nginx -s reload`)
+    }
+  }
+
+  private async writeProxyConfig(content: string): Promise<void> {
+    const fileName = this.proxyGenerator.getConfigFileName(this.getProvider())
+    await writeFile(join(this.getProxyConfigDir(), fileName), content)
+  }
+
+  private getProxyService(dependsOn?: string[]): ComposeService {
+    const proxy = this.options.proxy || {}
+
+    return this.composeGenerator.generateProxyService({
+      appName: this.options.appName,
+      provider: this.getProvider(),
+      configPath: this.getProxyConfigDir(),
+      port: proxy.port,
+      previewPort: proxy.previewPort,
+      image: proxy.image,
+      depends_on: dependsOn,
+    })
+  }
+
+  private async inspect(name: string, format: string): Promise<string | null> {
+    return this.inspectContainer(this.getContainerName(name), format)
+  }
+
+  /**
+   * docker inspect，容器不存在时返回 null
+   */
+  private async inspectContainer(containerName: string, format: string): Promise<string | null> {
+    try {
+      const { stdout } = await this.executor(`docker inspect -f '${format}' ${containerName}`)
+      return stdout.trim()
+    } catch {
+      return null
+    }
+  }
+
+  private getProvider() {
+    return this.options.proxy?.provider || 'nginx'
+  }
+
+  private getConfigDir(): string {
+    return resolve(process.cwd(), this.options.proxy?.configDir || join('.deployer', 'proxy', this.options.appName))
+  }
+
+  private getProxyConfigDir(): string {
+    return join(this.getConfigDir(), 'proxy')
+  }
+
+  private getStatePath(): string {
+    return join(this.getConfigDir(), 'state.json')
+  }
+
+  /**
+   * Shell 单引号转义
+   */
+  private quote(value: string): string {
+    return `'${value.replace(/'/g, `'\\''`)}'`
+  }
+}
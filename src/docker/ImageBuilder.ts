@@ -5,7 +5,7 @@
 import { exec } from 'child_process'
 import { promisify } from 'util'
 import { logger } from '../utils/logger.js'
-import type { BuildOptions, PushOptions, ImageInfo } from '../types/index.js'
+import type { BuildOptions, PushOptions, ImageInfo, DeployConfig } from '../types/index.js'
 
 const execAsync = promisify(exec)
 
@@ -16,6 +16,34 @@ export interface BuildProgress {
 }
 
 export class ImageBuilder {
+  /**
+   * 部署配置对应的镜像引用（配置了 registry 时与推送使用的标签一致）
+   */
+  static getImageReference(config: DeployConfig): string {
+    const image = `${config.docker?.image || config.name}:${config.docker?.tag || config.version}`
+    const registry = config.docker?.registry
+
+    return registry && !image.includes('/') ? `${registry}/${image}` : image
+  }
+
+  /**
+   * 部署使用的镜像引用：配置了 docker.digest 时按摘要固定（repository@sha256:...，本地镜像直接使用镜像 ID），
+   * 否则与 getImageReference 相同
+   */
+  static getDeployReference(config: DeployConfig): string {
+    const digest = config.docker?.digest
+    if (!digest) {
+      return ImageBuilder.getImageReference(config)
+    }
+
+    if (!config.docker?.registry) {
+      return digest
+    }
+
+    const image = config.docker.image || config.name
+    return image.includes('/') ? `${image}@${digest}` : `${config.docker.registry}/${image}@${digest}`
+  }
+
   /**
    * 构建镜像
    */
@@ -31,6 +59,7 @@ export class ImageBuilder {
       const { stdout, stderr } = await execAsync(command, {
         cwd: options.context,
         maxBuffer: 10 * 1024 * 1024, // 10MB
+        signal: options.signal,
       })
 
       if (stderr && !stderr.includes('WARNING')) {
@@ -47,6 +76,9 @@ export class ImageBuilder {
 
       return imageId || options.tag
     } catch (error: any) {
+      if (options.signal?.aborted) {
+        throw options.signal.reason
+      }
       logger.error('Failed to build image:', error.message)
       throw new Error(`Docker build failed: ${error.message}`)
     }
@@ -71,7 +103,7 @@ export class ImageBuilder {
       }
 
       // 推送镜像
-      const { stdout, stderr } = await execAsync(`docker push ${fullTag}`)
+      const { stdout, stderr } = await execAsync(`docker push ${fullTag}`, { signal: options.signal })
 
       if (stderr && !stderr.includes('Pushed')) {
         logger.warn('Push warnings:', stderr)
@@ -79,6 +111,9 @@ export class ImageBuilder {
 
       logger.success(`Image pushed successfully: ${fullTag}`)
     } catch (error: any) {
+      if (options.signal?.aborted) {
+        throw options.signal.reason
+      }
       logger.error('Failed to push image:', error.message)
       throw new Error(`Docker push failed: ${error.message}`)
     }
@@ -129,6 +164,7 @@ export class ImageBuilder {
       return {
         id: data.Id,
         tags: data.RepoTags || [],
+        digest: data.RepoDigests?.[0]?.split('@')[1],
         size: data.Size,
         created: data.Created,
       }
@@ -137,6 +173,25 @@ export class ImageBuilder {
     }
   }
 
+  /**
+   * 获取镜像摘要：推送到镜像仓库的镜像读取仓库中的 manifest 摘要，仅存在于本地的镜像使用镜像 ID
+   *
+   * @returns 镜像不存在时返回 null
+   */
+  async getDigest(image: string, remote: boolean): Promise<string | null> {
+    try {
+      if (remote) {
+        const { stdout } = await execAsync(`docker buildx imagetools inspect ${image} --format '{{json .Manifest}}'`)
+        return JSON.parse(stdout).digest || null
+      }
+
+      const { stdout } = await execAsync(`docker image inspect -f '{{.Id}}' ${image}`)
+      return stdout.trim() || null
+    } catch {
+      return null
+    }
+  }
+
   /**
    * 删除镜像
    */
@@ -0,0 +1,173 @@
+/**
+ * 反向代理配置生成器
+ * @module docker/ProxyConfigGenerator
+ *
+ * @description 为容器平台的金丝雀/蓝绿发布生成加权路由配置：
+ * - NGINX: upstream 加权 server + 主入口（可选预览入口）
+ * - Traefik: 文件 provider 动态配置，weighted service 按权重分流
+ */
+
+import { toYaml } from '../utils/template-engine.js'
+import type { ContainerProxyProvider, ProxyBackend } from '../types/index.js'
+
+/**
+ * 代理容器内主入口端口
+ */
+export const PROXY_LISTEN_PORT = 80
+
+/**
+ * 代理容器内预览入口端口
+ */
+export const PROXY_PREVIEW_PORT = 8081
+
+/**
+ * 代理配置渲染选项
+ */
+export interface ProxyRenderOptions {
+  /** 应用名称（作为 upstream / service 名称） */
+  name: string
+  backends: ProxyBackend[]
+  /** 预览入口 100% 路由到的后端名称 */
+  preview?: string
+}
+
+export class ProxyConfigGenerator {
+  /**
+   * 按实现生成代理配置
+   */
+  generate(provider: ContainerProxyProvider, options: ProxyRenderOptions): string {
+    this.validate(options)
+
+    return provider === 'traefik'
+      ? this.generateTraefik(options)
+      : this.generateNginx(options)
+  }
+
+  /**
+   * 获取配置文件名
+   */
+  getConfigFileName(provider: ContainerProxyProvider): string {
+    return provider === 'traefik' ? 'dynamic.yml' : 'default.conf'
+  }
+
+  /**
+   * 生成 NGINX conf.d 配置
+   *
+   * @description NGINX 不接受 weight=0，权重为 0 的后端不会写入 upstream
+   */
+  generateNginx(options: ProxyRenderOptions): string {
+    const upstream = this.getUpstreamName(options.name)
+    const servers = options.backends
+      .filter(backend => backend.weight > 0)
+      .map(backend => `    server ${backend.host}:${backend.port} weight=${backend.weight};`)
+
+    const blocks = [
+      `upstream ${upstream} {\n${servers.join('\n')}\n}`,
+      this.nginxServer(PROXY_LISTEN_PORT, upstream),
+    ]
+
+    const preview = this.getPreviewBackend(options)
+    if (preview) {
+      const previewUpstream = `${upstream}_preview`
+      blocks.push(
+        `upstream ${previewUpstream} {\n    server ${preview.host}:${preview.port};\n}`,
+        this.nginxServer(PROXY_PREVIEW_PORT, previewUpstream)
+      )
+    }
+
+    return `${blocks.join('\n\n')}\n`
+  }
+
+  /**
+   * 生成 Traefik 文件 provider 动态配置
+   */
+  generateTraefik(options: ProxyRenderOptions): string {
+    const routers: Record<string, any> = {
+      [options.name]: {
+        entryPoints: ['web'],
+        rule: 'PathPrefix(`/`)',
+        service: options.name,
+      },
+    }
+
+    const services: Record<string, any> = {
+      [options.name]: {
+        weighted: {
+          services: options.backends
+            .filter(backend => backend.weight > 0)
+            .map(backend => ({ name: this.getBackendServiceName(options.name, backend), weight: backend.weight })),
+        },
+      },
+    }
+
+    for (const backend of options.backends) {
+      services[this.getBackendServiceName(options.name, backend)] = {
+        loadBalancer: {
+          servers: [{ url: `http://${backend.host}:${backend.port}` }],
+        },
+      }
+    }
+
+    const preview = this.getPreviewBackend(options)
+    if (preview) {
+      routers[`${options.name}-preview`] = {
+        entryPoints: ['preview'],
+        rule: 'PathPrefix(`/`)',
+        service: this.getBackendServiceName(options.name, preview),
+      }
+    }
+
+    return toYaml({ http: { routers, services } }, 0)
+  }
+
+  /**
+   * 校验后端权重
+   */
+  private validate(options: ProxyRenderOptions): void {
+    if (options.backends.length === 0) {
+      throw new Error('Proxy requires at least one backend')
+    }
+
+    for (const backend of options.backends) {
+      if (backend.weight < 0 || backend.weight > 100) {
+        throw new Error(`Backend weight must be between 0 and 100, got ${backend.weight} for ${backend.name}`)
+      }
+    }
+
+    if (!options.backends.some(backend => backend.weight > 0)) {
+      throw new Error('At least one backend must receive traffic')
+    }
+
+    if (options.preview && !options.backends.some(backend => backend.name === options.preview)) {
+      throw new Error(`Unknown preview backend: ${options.preview}`)
+    }
+  }
+
+  private getPreviewBackend(options: ProxyRenderOptions): ProxyBackend | undefined {
+    return options.preview
+      ? options.backends.find(backend => backend.name === options.preview)
+      : undefined
+  }
+
+  private getUpstreamName(name: string): string {
+    return name.replace(/[^a-zA-Z0-9_]/g, '_')
+  }
+
+  private getBackendServiceName(name: string, backend: ProxyBackend): string {
+    return `${name}-${backend.name}`
+  }
+
+  private nginxServer(port: number, upstream: string): string {
+    return `server {
+    listen ${port};
+
+    location / {
+        proxy_pass http://${upstream};
+        proxy_set_header Host $host;
+        proxy_set_header X-Real-IP $remote_addr;
+        proxy_set_header X-Forwarded-For $proxy_add_x_forwarded_for;
+        proxy_set_header X-Forwarded-Proto $scheme;
+    }
+}`
+  }
+}
@@ -0,0 +1,215 @@
+/**
+ * ContainerTrafficManager 测试（使用伪 docker 执行器）
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, readFile, rm, stat, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { ContainerTrafficManager } from '../ContainerTrafficManager.js'
+
+/**
+ * 模拟 docker 主机上的容器：名称 -> 镜像
+ */
+function createFakeDocker(containers: Map<string, string>) {
+  const commands: string[] = []
+  const envLabels = new Map<string, string>()
+
+  const executor = async (command: string) => {
+    commands.push(command)
+
+    const inspect = /^docker inspect -f '(.+)' (\S+)$/.exec(command)
+    if (inspect) {
+      const image = containers.get(inspect[2])
+      if (!image) {
+        throw new Error(`No such object: ${inspect[2]}`)
+      }
+      const stdout = inspect[1]
+        .replace('{{.Config.Image}}', image)
+        .replace('{{.State.Running}}', 'true')
+        .replace('{{.State.Status}}', 'running')
+        .replace(/\{\{index \.Config\.Labels .*\}\}/, envLabels.get(inspect[2]) || '')
+        .replace(/\{\{if \.State\.Health\}\}.*\{\{end\}\}/, '')
+      return { stdout, stderr: '' }
+    }
+
+    const run = /^docker run -d --name (\S+) .* (\S+)$/.exec(command)
+    if (run) {
+      containers.set(run[1], command.includes('nginx:alpine') ? 'nginx:alpine' : run[2])
+      envLabels.set(run[1], /--label ldesign\.deployer\.env=(\S+)/.exec(command)?.[1] || '')
+      return { stdout: '', stderr: '' }
+    }
+
+    const remove = /^docker rm -f (\S+)$/.exec(command)
+    if (remove) {
+      containers.delete(remove[1])
+      return { stdout: '', stderr: '' }
+    }
+
+    if (command.startsWith('docker ps -a')) {
+      const names = [...containers.keys()].filter(name => name !== 'shop-proxy')
+      return { stdout: names.join('\n'), stderr: '' }
+    }
+
+    return { stdout: '', stderr: '' }
+  }
+
+  return { executor, commands }
+}
+
+describe('ContainerTrafficManager', () => {
+  let configDir: string
+
+  beforeEach(async () => {
+    configDir = await mkdtemp(join(tmpdir(), 'deployer-proxy-'))
+  })
+
+  afterEach(async () => {
+    await rm(configDir, { recursive: true, force: true })
+  })
+
+  it('should start new versions before shifting traffic and remove stale containers last', async () => {
+    const containers = new Map([['shop-0.9.0', 'shop:0.9.0'], ['shop-1.0.0', 'shop:1.0.0']])
+    const { executor, commands } = createFakeDocker(containers)
+    const traffic = new ContainerTrafficManager(
+      { appName: 'shop', platform: 'docker', port: 3000, proxy: { configDir } },
+      executor
+    )
+
+    await traffic.apply([
+      { name: '1.0.0', image: 'shop:1.0.0', weight: 90 },
+      { name: '1.1.0', image: 'shop:1.1.0', weight: 10 },
+    ])
+
+    const runCanary = commands.indexOf(
+      'docker run -d --name shop-1.1.0 --network shop-net --restart unless-stopped --label ldesign.deployer.app=shop shop:1.1.0'
+    )
+    const reload = commands.indexOf('docker exec shop-proxy nginx -s reload')
+    const removeStale = commands.indexOf('docker rm -f shop-0.9.0')
+
+    expect(runCanary).toBeGreaterThan(-1)
+    expect(reload).toBeGreaterThan(runCanary)
+    expect(removeStale).toBeGreaterThan(reload)
+    expect(commands.some(command => command.includes('--name shop-1.0.0'))).toBe(false)
+    expect(commands.some(command => command.startsWith('docker run -d --name shop-proxy') && command.includes('-p 80:80'))).toBe(true)
+
+    const conf = await readFile(join(configDir, 'proxy', 'default.conf'), 'utf-8')
+    expect(conf).toContain('server shop-1.0.0:3000 weight=90;')
+    expect(conf).toContain('server shop-1.1.0:3000 weight=10;')
+
+    const state = await traffic.getState()
+    expect(state?.variants.map(variant => variant.weight)).toEqual([90, 10])
+  })
+
+  it('should recreate containers running a different image', async () => {
+    const containers = new Map([['shop-blue', 'shop:1.0.0']])
+    const { executor, commands } = createFakeDocker(containers)
+    const traffic = new ContainerTrafficManager(
+      { appName: 'shop', platform: 'docker', proxy: { configDir, provider: 'traefik' } },
+      executor
+    )
+
+    await traffic.apply([{ name: 'blue', image: 'shop:2.0.0', weight: 100 }])
+
+    expect(commands).toContain('docker rm -f shop-blue')
+    expect(containers.get('shop-blue')).toBe('shop:2.0.0')
+    expect(commands.some(command => command.includes('nginx -s reload'))).toBe(false)
+    expect(await readFile(join(configDir, 'proxy', 'dynamic.yml'), 'utf-8')).toContain('http://shop-blue:8080')
+  })
+
+  it('should pass environment variables through a private env file', async () => {
+    const { executor, commands } = createFakeDocker(new Map())
+    const createTraffic = (env: Record<string, string>) => new ContainerTrafficManager(
+      { appName: 'shop', platform: 'docker', env, proxy: { configDir } },
+      executor
+    )
+
+    // 旧版本留下的 env 文件权限过宽，重新写入时收紧
+    const envFile = join(configDir, 'shop.env')
+    await writeFile(envFile, 'STALE=1\n', { mode: 0o644 })
+
+    await createTraffic({ NODE_ENV: 'production', API_KEY: 's3cret' }).apply([{ name: 'blue', image: 'shop:1.0.0', weight: 100 }])
+
+    const run = commands.find(command => command.startsWith('docker run -d --name shop-blue'))
+    expect(run).toContain(`--env-file '${envFile}'`)
+    expect(run).not.toContain('s3cret')
+    expect(await readFile(envFile, 'utf-8')).toBe('NODE_ENV=production\nAPI_KEY=s3cret\n')
+    expect((await stat(envFile)).mode & 0o777).toBe(0o600)
+
+    // 环境变量不变时保留容器，变化时重新创建
+    commands.length = 0
+    await createTraffic({ NODE_ENV: 'production', API_KEY: 's3cret' }).apply([{ name: 'blue', image: 'shop:1.0.0', weight: 100 }])
+    expect(commands).not.toContain('docker rm -f shop-blue')
+
+    await createTraffic({ NODE_ENV: 'production', API_KEY: 'rotated' }).apply([{ name: 'blue', image: 'shop:1.0.0', weight: 100 }])
+    expect(commands).toContain('docker rm -f shop-blue')
+    expect(await readFile(envFile, 'utf-8')).toBe('NODE_ENV=production\nAPI_KEY=rotated\n')
+    expect((await stat(envFile)).mode & 0o777).toBe(0o600)
+  })
+
+  it('should reject environment values the env file cannot represent', async () => {
+    const { executor } = createFakeDocker(new Map())
+    const traffic = new ContainerTrafficManager(
+      { appName: 'shop', platform: 'docker', env: { CERT: 'line1\nline2' }, proxy: { configDir } },
+      executor
+    )
+
+    await expect(traffic.apply([{ name: 'blue', image: 'shop:1.0.0', weight: 100 }])).rejects.toThrow('CERT contains a line break')
+  })
+
+  it('should regenerate the compose project for docker-compose', async () => {
+    const { executor, commands } = createFakeDocker(new Map())
+    const traffic = new ContainerTrafficManager(
+      { appName: 'shop', platform: 'docker-compose', proxy: { configDir, previewPort: 8081 } },
+      executor
+    )
+
+    await traffic.apply([
+      { name: 'blue', image: 'shop:1.0.0', weight: 100 },
+      { name: 'green', image: 'shop:1.1.0', weight: 0 },
+    ], 'green')
+
+    const compose = `docker-compose -p shop -f '${join(configDir, 'docker-compose.yml')}'`
+    expect(commands).toEqual([
+      `${compose} up -d --no-deps blue green`,
+      `${compose} up -d --no-deps proxy`,
+      'docker exec shop-proxy nginx -s reload',
+      `${compose} up -d --remove-orphans`,
+    ])
+
+    const file = await readFile(join(configDir, 'docker-compose.yml'), 'utf-8')
+    expect(file).toContain('container_name: shop-green')
+    expect(file).toContain('"8081:8081"')
+
+    const conf = await readFile(join(configDir, 'proxy', 'default.conf'), 'utf-8')
+    expect(conf).toContain('server shop-green:8080;')
+  })
+
+  it('should report container health', async () => {
+    const { executor } = createFakeDocker(new Map([['shop-green', 'shop:1.1.0']]))
+    const traffic = new ContainerTrafficManager({ appName: 'shop', platform: 'docker', proxy: { configDir } }, executor)
+
+    expect(await traffic.isHealthy('green')).toBe(true)
+    expect(await traffic.isHealthy('blue')).toBe(false)
+    await expect(traffic.waitForHealthy('green')).resolves.toBeUndefined()
+  })
+
+  it('should stop waiting for health when aborted', async () => {
+    const { executor } = createFakeDocker(new Map())
+    const traffic = new ContainerTrafficManager(
+      { appName: 'shop', platform: 'docker', proxy: { configDir } },
+      async (command: string) => {
+        if (command.startsWith('docker inspect')) {
+          return { stdout: 'created ', stderr: '' }
+        }
+        return executor(command)
+      }
+    )
+    const controller = new AbortController()
+    setTimeout(() => controller.abort(new Error('deployment cancelled')), 20)
+
+    const start = Date.now()
+    await expect(traffic.waitForHealthy('green', 120, controller.signal)).rejects.toThrow('deployment cancelled')
+    expect(Date.now() - start).toBeLessThan(1000)
+  })
+})
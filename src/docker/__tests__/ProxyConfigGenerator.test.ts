@@ -0,0 +1,77 @@
+/**
+ * ProxyConfigGenerator 测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import { ProxyConfigGenerator } from '../ProxyConfigGenerator.js'
+import type { ProxyBackend } from '../../types/index.js'
+
+const backends: ProxyBackend[] = [
+  { name: '1.0.0', host: 'shop-1.0.0', port: 3000, weight: 80 },
+  { name: '1.1.0', host: 'shop-1.1.0', port: 3000, weight: 20 },
+]
+
+describe('ProxyConfigGenerator', () => {
+  const generator = new ProxyConfigGenerator()
+
+  describe('generateNginx', () => {
+    it('should render weighted upstream servers', () => {
+      const conf = generator.generate('nginx', { name: 'shop', backends })
+
+      expect(conf).toContain('upstream shop {')
+      expect(conf).toContain('server shop-1.0.0:3000 weight=80;')
+      expect(conf).toContain('server shop-1.1.0:3000 weight=20;')
+      expect(conf).toContain('listen 80;')
+      expect(conf).toContain('proxy_pass http://shop;')
+    })
+
+    it('should omit backends without traffic', () => {
+      const conf = generator.generate('nginx', {
+        name: 'shop',
+        backends: [{ ...backends[0], weight: 100 }, { ...backends[1], weight: 0 }],
+      })
+
+      expect(conf).not.toContain('shop-1.1.0')
+    })
+
+    it('should route the preview port to a single backend', () => {
+      const conf = generator.generate('nginx', {
+        name: 'shop-web',
+        backends: [{ ...backends[0], weight: 100 }, { ...backends[1], weight: 0 }],
+        preview: '1.1.0',
+      })
+
+      expect(conf).toContain('upstream shop_web_preview {\n    server shop-1.1.0:3000;\n}')
+      expect(conf).toContain('listen 8081;')
+      expect(conf).toContain('proxy_pass http://shop_web_preview;')
+    })
+  })
+
+  describe('generateTraefik', () => {
+    it('should render a weighted service', () => {
+      const conf = generator.generate('traefik', { name: 'shop', backends, preview: '1.1.0' })
+
+      expect(conf).toContain('weighted:')
+      expect(conf).toContain('name: shop-1.0.0')
+      expect(conf).toContain('weight: 80')
+      expect(conf).toContain('http://shop-1.1.0:3000')
+      expect(conf).toContain('shop-preview:')
+      expect(conf).toContain('- preview')
+    })
+  })
+
+  describe('validate', () => {
+    it('should reject invalid weights', () => {
+      expect(() => generator.generate('nginx', { name: 'shop', backends: [] })).toThrow('at least one backend')
+      expect(() => generator.generate('nginx', {
+        name: 'shop',
+        backends: [{ ...backends[0], weight: 120 }],
+      })).toThrow('between 0 and 100')
+      expect(() => generator.generate('nginx', {
+        name: 'shop',
+        backends: [{ ...backends[0], weight: 0 }],
+      })).toThrow('must receive traffic')
+      expect(() => generator.generate('nginx', { name: 'shop', backends, preview: '2.0.0' })).toThrow('Unknown preview backend')
+    })
+  })
+})
@@ -6,6 +6,8 @@ export * from './DockerfileGenerator.js'
 export * from './ImageBuilder.js'
 export * from './ComposeGenerator.js'
 export * from './ImageOptimizer.js'
+export * from './ProxyConfigGenerator.js'
+export * from './ContainerTrafficManager.js'
 
 
 
@@ -54,6 +54,18 @@ export * from './ssh/index.js'
 // 云平台部署
 export * from './cloud/index.js'
 
+// 部署锁
+export * from './lock/index.js'
+
+// 部署审批
+export * from './approvals/index.js'
+
+// 部署策略
+export * from './policy/index.js'
+
+// 插件
+export * from './plugins/index.js'
+
 // 部署指标（使用命名空间避免冲突）
 export * as Metrics from './metrics/index.js'
 
@@ -6,11 +6,39 @@ import { exec } from 'child_process'
 import { promisify } from 'util'
 import { logger } from '../utils/logger.js'
 import { writeFile } from '../utils/file-system.js'
+import { sleep } from '../utils/retry.js'
 import type { K8sDeployOptions } from '../types/index.js'
 
 const execAsync = promisify(exec)
 
+/**
+ * 命令执行器，默认通过 child_process 执行 kubectl；测试时可注入伪实现。
+ * 中止信号触发时应终止正在执行的命令；传入 env 时以它作为命令的完整环境变量
+ */
+export type CommandExecutor = (
+  command: string,
+  options?: { signal?: AbortSignal; env?: NodeJS.ProcessEnv }
+) => Promise<{ stdout: string; stderr: string }>
+
+/**
+ * 导致 Pod 无法恢复的容器等待原因
+ */
+const FATAL_WAITING_REASONS = [
+  'CrashLoopBackOff',
+  'ImagePullBackOff',
+  'ErrImagePull',
+  'InvalidImageName',
+  'CreateContainerConfigError',
+  'CreateContainerError',
+]
+
 export class DeploymentManager {
+  private executor: CommandExecutor
+
+  constructor(executor: CommandExecutor = execAsync) {
+    this.executor = executor
+  }
+
   /**
    * 应用清单
    */
@@ -40,7 +68,7 @@ export class DeploymentManager {
       const command = `kubectl ${args.join(' ')}`
       logger.debug(`Executing: ${command}`)
 
-      const { stdout, stderr } = await execAsync(command)
+      const { stdout, stderr } = await this.executor(command, { signal: options.signal })
 
       if (stdout) {
         logger.info(stdout)
@@ -80,7 +108,7 @@ export class DeploymentManager {
       }
 
       const command = `kubectl ${args.join(' ')}`
-      await execAsync(command)
+      await this.executor(command, { signal: options.signal })
 
       logger.success(`${resourceType}/${name} deleted`)
     } catch (error: any) {
@@ -104,7 +132,7 @@ export class DeploymentManager {
         args.push('--context', options.context)
       }
 
-      const { stdout } = await execAsync(`kubectl ${args.join(' ')}`)
+      const { stdout } = await this.executor(`kubectl ${args.join(' ')}`, { signal: options.signal })
       return JSON.parse(stdout)
     } catch (error: any) {
       logger.error('Failed to get deployment status:', error.message)
@@ -112,6 +140,20 @@ export class DeploymentManager {
     }
   }
 
+  /**
+   * 获取 Service，不存在时返回 null
+   */
+  async getService(name: string, options: K8sDeployOptions): Promise<any | null> {
+    try {
+      const args: string[] = ['get', 'service', name, '-o', 'json']
+      const { stdout } = await this.executor(`kubectl ${this.withTarget(args, options).join(' ')}`, { signal: options.signal })
+      return JSON.parse(stdout)
+    } catch (error: any) {
+      logger.debug(`Service ${name} not found: ${error.message}`)
+      return null
+    }
+  }
+
   /**
    * 等待部署就绪
    */
@@ -129,7 +171,7 @@ export class DeploymentManager {
         args.push(`--timeout=${options.timeout}s`)
       }
 
-      await execAsync(`kubectl ${args.join(' ')}`)
+      await this.executor(`kubectl ${args.join(' ')}`, { signal: options.signal })
       logger.success('Deployment is ready')
     } catch (error: any) {
       logger.error('Deployment did not become ready:', error.message)
@@ -152,7 +194,7 @@ export class DeploymentManager {
         args.push('--context', options.context)
       }
 
-      const { stdout } = await execAsync(`kubectl ${args.join(' ')}`)
+      const { stdout } = await this.executor(`kubectl ${args.join(' ')}`, { signal: options.signal })
       const result = JSON.parse(stdout)
       return result.items || []
     } catch (error: any) {
@@ -207,6 +249,7 @@ export class DeploymentManager {
     let attempts = 0
 
     while (attempts < maxAttempts) {
+      options.signal?.throwIfAborted()
       const status = await this.getStatus(deploymentName, options)
       
       if (!status) {
@@ -236,7 +279,7 @@ export class DeploymentManager {
       }
 
       attempts++
-      await new Promise(resolve => setTimeout(resolve, 5000)) // 等待 5 秒
+      await sleep(5000, options.signal) // 等待 5 秒
     }
 
     throw new Error('Rollout timeout')
@@ -255,7 +298,7 @@ export class DeploymentManager {
         args.push('-n', options.namespace)
       }
 
-      await execAsync(`kubectl ${args.join(' ')}`)
+      await this.executor(`kubectl ${args.join(' ')}`, { signal: options.signal })
       logger.success(`Scaled to ${replicas} replicas`)
     } catch (error: any) {
       logger.error('Failed to scale deployment:', error.message)
@@ -263,6 +306,86 @@ export class DeploymentManager {
     }
   }
 
+  /**
+   * 以 strategic merge patch 方式更新 Deployment
+   */
+  async patch(name: string, patch: Record<string, any>, options: K8sDeployOptions): Promise<void> {
+    logger.info(`Patching deployment ${name}...`)
+
+    try {
+      const args: string[] = ['patch', 'deployment', name, '--type=strategic', '-p', this.quote(JSON.stringify(patch))]
+      await this.executor(`kubectl ${this.withTarget(args, options).join(' ')}`, { signal: options.signal })
+      logger.success(`Deployment ${name} patched`)
+    } catch (error: any) {
+      logger.error('Failed to patch deployment:', error.message)
+      throw error
+    }
+  }
+
+  /**
+   * 更新容器镜像
+   */
+  async setImage(name: string, container: string, image: string, options: K8sDeployOptions): Promise<void> {
+    logger.info(`Setting image of ${name}/${container} to ${image}...`)
+
+    try {
+      const args: string[] = ['set', 'image', `deployment/${name}`, `${container}=${image}`]
+      await this.executor(`kubectl ${this.withTarget(args, options).join(' ')}`, { signal: options.signal })
+      logger.success('Image updated')
+    } catch (error: any) {
+      logger.error('Failed to set image:', error.message)
+      throw error
+    }
+  }
+
+  /**
+   * 暂停滚动更新
+   */
+  async pauseRollout(name: string, options: K8sDeployOptions): Promise<void> {
+    await this.rollout('pause', name, options)
+    logger.info(`Rollout of ${name} paused`)
+  }
+
+  /**
+   * 恢复滚动更新
+   */
+  async resumeRollout(name: string, options: K8sDeployOptions): Promise<void> {
+    await this.rollout('resume', name, options)
+    logger.info(`Rollout of ${name} resumed`)
+  }
+
+  /**
+   * 回滚到上一个（或指定）修订版本
+   */
+  async undoRollout(name: string, options: K8sDeployOptions, revision?: number): Promise<void> {
+    logger.warn(`Undoing rollout of ${name}...`)
+    await this.rollout('undo', name, options, revision !== undefined ? [`--to-revision=${revision}`] : [])
+    logger.success('Rollout undone')
+  }
+
+  /**
+   * 获取处于不可恢复状态的 Pod（如 CrashLoopBackOff、ImagePullBackOff）
+   */
+  async getFailingPods(deploymentName: string, options: K8sDeployOptions): Promise<Array<{ name: string; reason: string }>> {
+    const pods = await this.getPods(deploymentName, options)
+    const failing: Array<{ name: string; reason: string }> = []
+
+    for (const pod of pods) {
+      const statuses = pod.status?.containerStatuses || []
+      const fatal = statuses
+        .map((c: any) => c.state?.waiting?.reason)
+        .find((reason: string | undefined) => reason && FATAL_WAITING_REASONS.includes(reason))
+
+      if (fatal) {
+        failing.push({ name: pod.metadata?.name, reason: fatal })
+      } else if (pod.status?.phase === 'Failed') {
+        failing.push({ name: pod.metadata?.name, reason: pod.status.reason || 'Failed' })
+      }
+    }
+
+    return failing
+  }
+
   /**
    * 重启部署
    */
@@ -276,7 +399,7 @@ export class DeploymentManager {
         args.push('-n', options.namespace)
       }
 
-      await execAsync(`kubectl ${args.join(' ')}`)
+      await this.executor(`kubectl ${args.join(' ')}`, { signal: options.signal })
       logger.success('Deployment restarted')
     } catch (error: any) {
       logger.error('Failed to restart deployment:', error.message)
@@ -299,7 +422,7 @@ export class DeploymentManager {
         args.push(`--tail=${options.tail}`)
       }
 
-      const { stdout } = await execAsync(`kubectl ${args.join(' ')}`)
+      const { stdout } = await this.executor(`kubectl ${args.join(' ')}`, { signal: options.signal })
       return stdout
     } catch (error: any) {
       logger.error('Failed to get logs:', error.message)
@@ -307,12 +430,52 @@ export class DeploymentManager {
     }
   }
 
+  /**
+   * 执行 kubectl rollout 子命令
+   */
+  private async rollout(
+    action: 'pause' | 'resume' | 'undo',
+    name: string,
+    options: K8sDeployOptions,
+    extra: string[] = []
+  ): Promise<void> {
+    try {
+      const args: string[] = ['rollout', action, `deployment/${name}`, ...extra]
+      await this.executor(`kubectl ${this.withTarget(args, options).join(' ')}`, { signal: options.signal })
+    } catch (error: any) {
+      logger.error(`Failed to ${action} rollout:`, error.message)
+      throw error
+    }
+  }
+
+  /**
+   * 追加命名空间与上下文参数
+   */
+  private withTarget(args: string[], options: K8sDeployOptions): string[] {
+    if (options.namespace) {
+      args.push('-n', options.namespace)
+    }
+
+    if (options.context) {
+      args.push('--context', options.context)
+    }
+
+    return args
+  }
+
+  /**
+   * Shell 单引号转义
+   */
+  private quote(value: string): string {
+    return `'${value.replace(/'/g, `'\\''`)}'`
+  }
+
   /**
    * 检查 kubectl 是否可用
    */
   async checkKubectl(): Promise<boolean> {
     try {
-      await execAsync('kubectl version --client')
+      await this.executor('kubectl version --client')
       return true
     } catch {
       return false
@@ -324,7 +487,7 @@ export class DeploymentManager {
    */
   async getCurrentContext(): Promise<string> {
     try {
-      const { stdout } = await execAsync('kubectl config current-context')
+      const { stdout } = await this.executor('kubectl config current-context')
       return stdout.trim()
     } catch {
       return ''
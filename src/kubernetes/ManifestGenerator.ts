@@ -2,23 +2,265 @@
  * Kubernetes 清单生成器
  */
 
-import { toYaml } from '../utils/template-engine.js'
+import { indent, toYaml } from '../utils/template-engine.js'
 import { logger } from '../utils/logger.js'
+import { ConfigError } from '../utils/errors.js'
+import { PrometheusClient } from '../monitoring/PrometheusClient.js'
 import type {
   K8sDeploymentSpec,
   K8sServiceSpec,
   K8sIngressSpec,
   K8sContainer,
+  AnalysisConfig,
   DeployConfig,
+  ProgressiveDeliveryProvider,
+  StrategyTargetConfig,
 } from '../types/index.js'
 
+export interface ManifestGenerateOptions {
+  /** Canary / BlueGreen 策略使用的渐进式发布控制器，默认 argo */
+  progressiveDelivery?: ProgressiveDeliveryProvider
+}
+
+const PROGRESSIVE_DELIVERY_PROVIDERS: ProgressiveDeliveryProvider[] = ['argo', 'flagger']
+
+const DEFAULT_ANALYSIS_INTERVAL = 60
+
+/**
+ * Flagger 蓝绿发布未设置 autoPromoteSeconds 时的检查次数
+ */
+const DEFAULT_FLAGGER_ITERATIONS = 10
+
+/**
+ * Flagger 未设置 failureThreshold 时允许的失败检查次数，达到后回滚
+ */
+const DEFAULT_FLAGGER_THRESHOLD = 5
+
 export class ManifestGenerator {
   /**
    * 生成 Deployment 清单
+   *
+   * @description Canary / BlueGreen 不是 Kubernetes 原生策略，不写入 Deployment.spec.strategy
    */
   generateDeployment(config: DeployConfig): string {
+    const { labels, spec } = this.buildWorkloadSpec(config)
+    const strategy = config.kubernetes?.deployment?.strategy
+
+    if (strategy && (strategy.type === 'RollingUpdate' || strategy.type === 'Recreate')) {
+      spec.strategy = { type: strategy.type, rollingUpdate: strategy.rollingUpdate }
+    }
+
+    const deployment = {
+      apiVersion: 'apps/v1',
+      kind: 'Deployment',
+      metadata: {
+        name: config.name,
+        namespace: config.kubernetes?.namespace || 'default',
+        labels,
+      },
+      spec,
+    }
+
+    return this.toYamlString(deployment)
+  }
+
+  /**
+   * 生成 Argo Rollouts 的 Rollout 清单
+   *
+   * @description 金丝雀步骤转换为 setWeight / pause，配置了分析时以后台分析引用 AnalysisTemplate；
+   * 蓝绿使用 activeService / previewService，autoPromote / autoPromoteSeconds 对应自动切换设置
+   * @throws {ConfigError} 策略不是 Canary 或 BlueGreen 时抛出
+   */
+  generateRollout(config: DeployConfig): string {
+    const { labels, spec } = this.buildWorkloadSpec(config)
+    const strategy = this.getProgressiveStrategy(config)
+
+    let rolloutStrategy: Record<string, any>
+    if (strategy.type === 'Canary') {
+      const canary = strategy.canary!
+      const steps: Record<string, any>[] = []
+
+      for (const step of canary.steps) {
+        steps.push({ setWeight: step.weight })
+        if (step.pause) {
+          steps.push({ pause: { duration: step.pause } })
+        }
+      }
+
+      rolloutStrategy = { canary: { steps } }
+
+      if (this.hasAnalysisMetrics(canary.analysis)) {
+        rolloutStrategy.canary.analysis = {
+          templates: [{ templateName: this.getAnalysisTemplateName(config) }],
+          startingStep: 1,
+        }
+      }
+    } else {
+      const blueGreen = strategy.blueGreen!
+
+      rolloutStrategy = {
+        blueGreen: {
+          activeService: blueGreen.activeService,
+          previewService: blueGreen.previewService,
+          autoPromotionEnabled: blueGreen.autoPromote !== false,
+          autoPromotionSeconds: blueGreen.autoPromote !== false ? blueGreen.autoPromoteSeconds : undefined,
+        },
+      }
+    }
+
+    const rollout = {
+      apiVersion: 'argoproj.io/v1alpha1',
+      kind: 'Rollout',
+      metadata: {
+        name: config.name,
+        namespace: config.kubernetes?.namespace || 'default',
+        labels,
+      },
+      spec: {
+        ...spec,
+        strategy: rolloutStrategy,
+      },
+    }
+
+    return this.toYamlString(rollout)
+  }
+
+  /**
+   * 生成 Argo Rollouts 的 AnalysisTemplate 清单
+   *
+   * @description 成功率/错误率/P95 延迟阈值转换为 Prometheus 指标，查询范围为新版本的 Pod
+   * @returns 未配置分析阈值或 Prometheus 时返回 null
+   */
+  generateAnalysisTemplate(config: DeployConfig): string | null {
+    const analysis = this.getProgressiveStrategy(config).canary?.analysis
+    if (!analysis || !this.hasAnalysisMetrics(analysis)) {
+      return null
+    }
+
+    if (!analysis.prometheus) {
+      logger.warn('No Prometheus endpoint configured, skipping AnalysisTemplate')
+      return null
+    }
+
+    const interval = analysis.interval || DEFAULT_ANALYSIS_INTERVAL
+    const labels = analysis.prometheus.labels || { app: config.name, version: config.version }
+    const queries = new PrometheusClient(analysis.prometheus).buildMetricQueries(labels, interval)
+
+    const metric = (name: string, successCondition: string, query: string) => ({
+      name,
+      interval: `${interval}s`,
+      successCondition,
+      provider: {
+        prometheus: {
+          address: analysis.prometheus!.url,
+          query,
+        },
+      },
+    })
+
+    const metrics = []
+    const successRate = this.toRatio(analysis.successRate)
+    const errorRate = this.toRatio(analysis.errorRate)
+
+    if (successRate !== undefined) {
+      metrics.push(metric('success-rate', `result[0] >= ${successRate}`, `1 - (${queries.errorRate})`))
+    }
+    if (errorRate !== undefined) {
+      metrics.push(metric('error-rate', `result[0] <= ${errorRate}`, queries.errorRate))
+    }
+    if (analysis.latency !== undefined) {
+      // histogram_quantile 结果为秒
+      metrics.push(metric('latency-p95', `result[0] <= ${analysis.latency / 1000}`, queries.latencyP95))
+    }
+
+    const template = {
+      apiVersion: 'argoproj.io/v1alpha1',
+      kind: 'AnalysisTemplate',
+      metadata: {
+        name: this.getAnalysisTemplateName(config),
+        namespace: config.kubernetes?.namespace || 'default',
+      },
+      spec: { metrics },
+    }
+
+    return this.toYamlString(template)
+  }
+
+  /**
+   * 生成 Flagger 的 Canary 清单
+   *
+   * @description 指向同名 Deployment；金丝雀步骤权重转换为 stepWeights，
+   * 成功率/错误率/延迟阈值使用 Flagger 内置的 request-success-rate / request-duration 指标；
+   * 蓝绿按 autoPromoteSeconds 计算检查次数（iterations）
+   * @throws {ConfigError} 策略不是 Canary 或 BlueGreen 时抛出
+   */
+  generateFlaggerCanary(config: DeployConfig): string {
+    const strategy = this.getProgressiveStrategy(config)
+    const analysisConfig = strategy.canary?.analysis
+    const interval = analysisConfig?.interval || DEFAULT_ANALYSIS_INTERVAL
+
+    const analysis: Record<string, any> = {
+      interval: `${interval}s`,
+      threshold: analysisConfig?.failureThreshold ?? DEFAULT_FLAGGER_THRESHOLD,
+    }
+
+    if (strategy.type === 'Canary') {
+      analysis.stepWeights = strategy.canary!.steps
+        .map(step => step.weight)
+        .filter(weight => weight > 0 && weight < 100)
+    } else {
+      const blueGreen = strategy.blueGreen!
+      analysis.iterations = blueGreen.autoPromoteSeconds
+        ? Math.max(1, Math.ceil(blueGreen.autoPromoteSeconds / interval))
+        : DEFAULT_FLAGGER_ITERATIONS
+
+      if (blueGreen.autoPromote === false) {
+        logger.warn('Flagger has no manual promotion setting, add a confirm-promotion webhook to gate the switch')
+      }
+    }
+
+    const metrics = this.toFlaggerMetrics(analysisConfig, interval)
+    if (metrics.length > 0) {
+      analysis.metrics = metrics
+    }
+
+    const canary = {
+      apiVersion: 'flagger.app/v1beta1',
+      kind: 'Canary',
+      metadata: {
+        name: config.name,
+        namespace: config.kubernetes?.namespace || 'default',
+      },
+      spec: {
+        targetRef: {
+          apiVersion: 'apps/v1',
+          kind: 'Deployment',
+          name: config.name,
+        },
+        service: {
+          port: config.kubernetes?.service?.port || 80,
+          targetPort: config.kubernetes?.service?.targetPort || config.healthCheck?.port || 3000,
+        },
+        analysis,
+      },
+    }
+
+    return this.toYamlString(canary)
+  }
+
+  /**
+   * 是否为需要渐进式发布控制器的策略（Canary / BlueGreen）
+   */
+  isProgressive(config: DeployConfig): boolean {
+    const type = config.kubernetes?.deployment?.strategy?.type
+    return type === 'Canary' || type === 'BlueGreen'
+  }
+
+  /**
+   * 构建 Deployment / Rollout 共用的工作负载规范
+   */
+  private buildWorkloadSpec(config: DeployConfig): { labels: Record<string, string>; spec: K8sDeploymentSpec } {
     const name = config.name
-    const namespace = config.kubernetes?.namespace || 'default'
     const replicas = config.kubernetes?.deployment?.replicas || 3
     const image = `${config.docker?.image || name}:${config.version}`
 
@@ -57,38 +299,59 @@ export class ManifestGenerator {
           containers: [container],
         },
       },
-      strategy: config.kubernetes?.deployment?.strategy,
     }
 
-    const deployment = {
-      apiVersion: 'apps/v1',
-      kind: 'Deployment',
-      metadata: {
-        name,
-        namespace,
-        labels,
-      },
-      spec,
+    return { labels, spec }
+  }
+
+  /**
+   * 生成发布策略（金丝雀、蓝绿、影子、A/B）工作负载的容器，作为列表项嵌入策略清单的 containers
+   *
+   * @description 环境变量（含 secrets）、资源与探针来自部署配置（见 StrategyDispatcher），与 generateDeployment 一致；
+   * 未配置存活、就绪探针时按 healthCheck.path 检查
+   * @param indentation - 列表项的缩进（空格数）
+   */
+  generateStrategyContainer(target: StrategyTargetConfig, image: string, indentation = 6): string {
+    const port = target.port || 8080
+    const httpProbe = (initialDelaySeconds: number, periodSeconds: number) => ({
+      httpGet: { path: target.healthCheck?.path || '/health', port },
+      initialDelaySeconds,
+      periodSeconds,
+    })
+
+    const container = {
+      name: target.appName,
+      image,
+      ports: [{ containerPort: port }],
+      env: target.env && Object.keys(target.env).length > 0
+        ? Object.entries(target.env).map(([name, value]) => ({ name, value: String(value) }))
+        : undefined,
+      resources: target.resources,
+      livenessProbe: target.livenessProbe || httpProbe(30, 10),
+      readinessProbe: target.readinessProbe || httpProbe(5, 5),
+      startupProbe: target.startupProbe,
     }
 
-    return this.toYamlString(deployment)
+    // 去掉未设置的字段，toYaml 会把 undefined 输出为空值
+    return indent(toYaml([JSON.parse(JSON.stringify(container))]), indentation).trimEnd()
   }
 
   /**
    * 生成 Service 清单
+   *
+   * @param name - Service 名称，默认应用名称
    */
-  generateService(config: DeployConfig): string {
-    const name = config.name
+  generateService(config: DeployConfig, name = config.name): string {
     const namespace = config.kubernetes?.namespace || 'default'
     const port = config.healthCheck?.port || 3000
 
     const labels = {
-      app: name,
+      app: config.name,
     }
 
     const spec: K8sServiceSpec = {
       type: config.kubernetes?.service?.type || 'ClusterIP',
-      selector: { app: name },
+      selector: { app: config.name },
       ports: [{
         name: 'http',
         protocol: 'TCP',
@@ -113,8 +376,10 @@ export class ManifestGenerator {
 
   /**
    * 生成 Ingress 清单
+   *
+   * @param serviceName - 后端 Service 名称，默认应用名称
    */
-  generateIngress(config: DeployConfig): string | null {
+  generateIngress(config: DeployConfig, serviceName = config.name): string | null {
     if (!config.kubernetes?.ingress?.enabled) {
       return null
     }
@@ -134,7 +399,7 @@ export class ManifestGenerator {
             pathType: 'Prefix',
             backend: {
               service: {
-                name,
+                name: serviceName,
                 port: {
                   number: config.kubernetes.service?.port || 80,
                 },
@@ -210,21 +475,71 @@ export class ManifestGenerator {
 
   /**
    * 生成完整的 K8s 清单
+   *
+   * @description 策略为 Canary / BlueGreen 时：
+   * - argo: Rollout 替代 Deployment，附带 AnalysisTemplate；蓝绿生成 active / preview Service
+   * - flagger: Deployment + Canary，Service 由 Flagger 创建
+   * @throws {ConfigError} 渐进式发布控制器不受支持时抛出
    */
-  generateAll(config: DeployConfig): string {
+  generateAll(config: DeployConfig, options: ManifestGenerateOptions = {}): string {
     const manifests: string[] = []
+    const provider = options.progressiveDelivery || 'argo'
 
-    // Deployment
-    manifests.push('---')
-    manifests.push(this.generateDeployment(config))
+    if (!PROGRESSIVE_DELIVERY_PROVIDERS.includes(provider)) {
+      throw new ConfigError(`Unsupported progressive delivery provider: ${provider}`, {
+        field: 'progressiveDelivery',
+        suggestion: `可选值: ${PROGRESSIVE_DELIVERY_PROVIDERS.join(', ')}`,
+      })
+    }
 
-    // Service
-    manifests.push('---')
-    manifests.push(this.generateService(config))
+    const progressive = this.isProgressive(config)
+    const blueGreen = config.kubernetes?.deployment?.strategy?.blueGreen
+    let serviceName = config.name
+
+    if (progressive && provider === 'argo') {
+      // Rollout
+      manifests.push('---')
+      manifests.push(this.generateRollout(config))
+
+      const template = this.generateAnalysisTemplate(config)
+      if (template) {
+        manifests.push('---')
+        manifests.push(template)
+      }
+
+      // Service（Argo Rollouts 会向蓝绿 Service 的选择器注入 Pod 模板哈希）
+      if (config.kubernetes?.deployment?.strategy?.type === 'BlueGreen' && blueGreen) {
+        serviceName = blueGreen.activeService
+        manifests.push('---')
+        manifests.push(this.generateService(config, blueGreen.activeService))
+
+        if (blueGreen.previewService) {
+          manifests.push('---')
+          manifests.push(this.generateService(config, blueGreen.previewService))
+        }
+      } else {
+        manifests.push('---')
+        manifests.push(this.generateService(config))
+      }
+    } else if (progressive) {
+      // Deployment + Flagger Canary（Flagger 生成 <name>、<name>-primary、<name>-canary Service）
+      manifests.push('---')
+      manifests.push(this.generateDeployment(config))
+      manifests.push('---')
+      manifests.push(this.generateFlaggerCanary(config))
+    } else {
+      // Deployment
+      manifests.push('---')
+      manifests.push(this.generateDeployment(config))
+
+      // Service
+      manifests.push('---')
+      manifests.push(this.generateService(config))
+    }
 
     // Ingress
     if (config.kubernetes?.ingress?.enabled) {
-      const ingress = this.generateIngress(config)
+      const ingress = this.generateIngress(config, serviceName)
       if (ingress) {
         manifests.push('---')
         manifests.push(ingress)
@@ -250,6 +565,82 @@ export class ManifestGenerator {
     return manifests.join('\n')
   }
 
+  /**
+   * 获取 Canary / BlueGreen 策略配置
+   *
+   * @throws {ConfigError} 策略不是 Canary / BlueGreen 或缺少对应配置时抛出
+   */
+  private getProgressiveStrategy(config: DeployConfig) {
+    const strategy = config.kubernetes?.deployment?.strategy
+
+    if (strategy?.type === 'Canary' && strategy.canary) {
+      return strategy
+    }
+    if (strategy?.type === 'BlueGreen' && strategy.blueGreen) {
+      return strategy
+    }
+
+    throw new ConfigError('Progressive delivery requires a Canary or BlueGreen strategy', {
+      field: 'kubernetes.deployment.strategy',
+      suggestion: 'Canary 需要配置 canary.steps，BlueGreen 需要配置 blueGreen.activeService',
+    })
+  }
+
+  private getAnalysisTemplateName(config: DeployConfig): string {
+    return `${config.name}-analysis`
+  }
+
+  private hasAnalysisMetrics(analysis?: AnalysisConfig): boolean {
+    return !!analysis && (
+      analysis.successRate !== undefined ||
+      analysis.errorRate !== undefined ||
+      analysis.latency !== undefined
+    )
+  }
+
+  /**
+   * 转换为 Flagger 内置指标，成功率使用百分比
+   */
+  private toFlaggerMetrics(analysis: AnalysisConfig | undefined, interval: number): Record<string, any>[] {
+    if (!analysis) {
+      return []
+    }
+
+    const metrics: Record<string, any>[] = []
+    const successRate = this.toRatio(analysis.successRate)
+    const errorRate = this.toRatio(analysis.errorRate)
+
+    // 同时配置时取更严格的成功率
+    const minSuccess = Math.max(
+      successRate ?? 0,
+      errorRate !== undefined ? 1 - errorRate : 0
+    )
+    if (successRate !== undefined || errorRate !== undefined) {
+      metrics.push({
+        name: 'request-success-rate',
+        thresholdRange: { min: Math.round(minSuccess * 10000) / 100 },
+        interval: `${interval}s`,
+      })
+    }
+
+    if (analysis.latency !== undefined) {
+      metrics.push({
+        name: 'request-duration',
+        thresholdRange: { max: analysis.latency },
+        interval: `${interval}s`,
+      })
+    }
+
+    return metrics
+  }
+
+  /**
+   * 成功率/错误率大于 1 时按百分比处理
+   */
+  private toRatio(value?: number): number | undefined {
+    return value !== undefined && value > 1 ? value / 100 : value
+  }
+
   /**
    * 生成环境变量
    */
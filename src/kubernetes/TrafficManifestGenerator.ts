@@ -0,0 +1,434 @@
+/**
+ * 流量路由清单生成器
+ * @module kubernetes/TrafficManifestGenerator
+ *
+ * @description 将 TrafficConfig 渲染为服务网格 / Ingress 路由资源：
+ * - Istio: DestinationRule（按版本划分 subset）+ VirtualService（匹配规则与权重）
+ * - NGINX Ingress: 每个目标一个 Service，主 Ingress + canary 注解 Ingress
+ */
+
+import { toYaml } from '../utils/template-engine.js'
+import { logger } from '../utils/logger.js'
+import type {
+  TrafficConfig,
+  TrafficMatch,
+  TrafficProvider,
+  TrafficRoute,
+  TrafficStringMatch,
+} from '../types/index.js'
+
+/**
+ * 路由渲染选项
+ */
+export interface TrafficRenderOptions {
+  /** 应用名称（同时作为 Istio host / 主 Service 名称） */
+  name: string
+  namespace?: string
+  /** 对外域名 */
+  host?: string
+  /** Service 端口，默认 80 */
+  port?: number
+  /** 容器端口，默认 8080 */
+  targetPort?: number
+  /** 目标名称 -> Pod 标签选择器 */
+  subsets: Record<string, Record<string, string>>
+  /**
+   * 目标名称 -> 已有的 Service 名称，指定后直接路由到该 Service：
+   * Istio 不再为其生成 subset，NGINX 不再为其生成 Service
+   */
+  services?: Record<string, string>
+  /** Istio Gateway 列表 */
+  gateways?: string[]
+  /** NGINX IngressClass，默认 nginx */
+  ingressClassName?: string
+  /** NGINX Ingress 路径，默认 / */
+  path?: string
+}
+
+const NGINX_ANNOTATION_PREFIX = 'nginx.ingress.kubernetes.io'
+
+export class TrafficManifestGenerator {
+  /**
+   * 按实现生成路由清单
+   */
+  generate(traffic: TrafficConfig, provider: TrafficProvider, options: TrafficRenderOptions): string {
+    this.validate(traffic, options)
+
+    return provider === 'nginx'
+      ? this.generateNginxCanary(traffic, options)
+      : this.generateIstio(traffic, options)
+  }
+
+  /**
+   * 生成 Istio DestinationRule + VirtualService
+   */
+  generateIstio(traffic: TrafficConfig, options: TrafficRenderOptions): string {
+    const namespace = options.namespace || 'default'
+    const serviceHost = options.name
+
+    const destinationRule = {
+      apiVersion: 'networking.istio.io/v1beta1',
+      kind: 'DestinationRule',
+      metadata: {
+        name: options.name,
+        namespace,
+      },
+      spec: {
+        host: serviceHost,
+        subsets: Object.entries(options.subsets)
+          .filter(([name]) => !options.services?.[name])
+          .map(([name, labels]) => ({ name, labels })),
+      },
+    }
+
+    const http: any[] = []
+
+    // 带匹配条件的路由优先（Istio 按顺序匹配）
+    for (const route of traffic.routing.filter(r => r.match && r.match.length > 0)) {
+      http.push({
+        name: `match-${route.destination}`,
+        match: route.match!.map(match => this.toIstioMatch(match)),
+        route: [{
+          destination: this.toIstioDestination(route.destination, options),
+          weight: 100,
+        }],
+      })
+    }
+
+    // 默认按权重分流
+    const weighted = traffic.routing.filter(r => !r.match || r.match.length === 0)
+    const defaultRoute: any = {
+      name: 'default',
+      route: weighted.map(route => ({
+        destination: this.toIstioDestination(route.destination, options),
+        weight: route.weight,
+      })),
+    }
+
+    if (traffic.mirror?.enabled) {
+      defaultRoute.mirror = this.toIstioDestination(traffic.mirror.destination, options)
+      defaultRoute.mirrorPercentage = { value: traffic.mirror.percentage ?? 100 }
+    }
+
+    http.push(defaultRoute)
+
+    const virtualService = {
+      apiVersion: 'networking.istio.io/v1beta1',
+      kind: 'VirtualService',
+      metadata: {
+        name: options.name,
+        namespace,
+      },
+      spec: {
+        hosts: options.host ? [serviceHost, options.host] : [serviceHost],
+        gateways: options.gateways && options.gateways.length > 0
+          ? [...options.gateways, 'mesh']
+          : undefined,
+        http,
+      },
+    }
+
+    return this.joinDocuments([destinationRule, virtualService])
+  }
+
+  /**
+   * 生成 NGINX Ingress canary 路由
+   *
+   * @description NGINX canary 只能表达「主版本 + 一个 canary 版本」，
+   * 且只支持单个 header 或 cookie 条件；无法表达的规则会被忽略并输出警告。
+   * 镜像通过主 Ingress 的 mirror-target 注解实现
+   */
+  generateNginxCanary(traffic: TrafficConfig, options: TrafficRenderOptions): string {
+    const namespace = options.namespace || 'default'
+    const weighted = traffic.routing.filter(r => !r.match || r.match.length === 0)
+    const destinations = Object.keys(options.subsets)
+
+    const primary = weighted[0]?.destination || destinations[0]
+    const canary = destinations.find(d => d !== primary)
+
+    if (!canary || destinations.length > 2) {
+      throw new Error('NGINX canary routing requires exactly two destinations')
+    }
+
+    // 已指定 Service 的目标沿用已有 Service
+    const ownServices = destinations.filter(destination => !options.services?.[destination])
+    const services = ownServices.map(destination => ({
+      apiVersion: 'v1',
+      kind: 'Service',
+      metadata: {
+        name: this.getServiceName(options.name, destination),
+        namespace,
+        labels: { app: options.name },
+      },
+      spec: {
+        type: 'ClusterIP',
+        selector: options.subsets[destination],
+        ports: [{
+          name: 'http',
+          protocol: 'TCP',
+          port: options.port || 80,
+          targetPort: options.targetPort || 8080,
+        }],
+      },
+    }))
+
+    const canaryWeight = weighted.find(r => r.destination === canary)?.weight ?? 0
+    const annotations: Record<string, string> = {
+      [`${NGINX_ANNOTATION_PREFIX}/canary`]: 'true',
+      [`${NGINX_ANNOTATION_PREFIX}/canary-weight`]: String(canaryWeight),
+    }
+
+    Object.assign(annotations, this.toNginxCanaryMatch(traffic.routing, primary, canary))
+
+    // 镜像注解只在主 Ingress 上生效，canary Ingress 上的会被忽略
+    const primaryAnnotations = traffic.mirror?.enabled
+      ? this.toNginxMirror(traffic.mirror, options)
+      : {}
+
+    const primaryIngress = this.buildIngress(`${options.name}`, primary, options, primaryAnnotations)
+
+    // 目标仅作为镜像目的地（无权重、无匹配规则）时不生成 canary Ingress
+    const mirrorOnly = traffic.mirror?.enabled
+      && traffic.mirror.destination === canary
+      && canaryWeight === 0
+      && annotations[`${NGINX_ANNOTATION_PREFIX}/canary-by-header`] === undefined
+      && annotations[`${NGINX_ANNOTATION_PREFIX}/canary-by-cookie`] === undefined
+
+    if (mirrorOnly) {
+      return this.joinDocuments([...services, primaryIngress])
+    }
+
+    const canaryIngress = this.buildIngress(`${options.name}-canary`, canary, options, annotations)
+
+    return this.joinDocuments([...services, primaryIngress, canaryIngress])
+  }
+
+  /**
+   * 获取 NGINX 路由下某个目标对应的 Service 名称
+   */
+  getServiceName(name: string, destination: string): string {
+    return `${name}-${destination}`
+  }
+
+  /**
+   * 目标实际路由到的 Service 名称，优先使用 options.services 指定的已有 Service
+   */
+  private resolveServiceName(options: TrafficRenderOptions, destination: string): string {
+    return options.services?.[destination] || this.getServiceName(options.name, destination)
+  }
+
+  /**
+   * 目标转 Istio Destination：指定了已有 Service 时直接路由到该 host，否则使用主 Service 的 subset
+   */
+  private toIstioDestination(destination: string, options: TrafficRenderOptions): { host: string; subset?: string } {
+    const service = options.services?.[destination]
+    return service ? { host: service } : { host: options.name, subset: destination }
+  }
+
+  /**
+   * 校验路由配置
+   */
+  private validate(traffic: TrafficConfig, options: TrafficRenderOptions): void {
+    if (!traffic.routing || traffic.routing.length === 0) {
+      throw new Error('Traffic routing must contain at least one route')
+    }
+
+    const weighted = traffic.routing.filter(r => !r.match || r.match.length === 0)
+    const totalWeight = weighted.reduce((sum, r) => sum + r.weight, 0)
+
+    if (weighted.length > 0 && totalWeight !== 100) {
+      throw new Error(`Traffic weights must add up to 100, got ${totalWeight}`)
+    }
+
+    const destinations = [
+      ...traffic.routing.map(r => r.destination),
+      ...(traffic.mirror?.enabled ? [traffic.mirror.destination] : []),
+    ]
+
+    for (const destination of destinations) {
+      if (!options.subsets[destination]) {
+        throw new Error(`Unknown traffic destination: ${destination}`)
+      }
+    }
+  }
+
+  /**
+   * TrafficMatch 转 Istio HTTPMatchRequest
+   */
+  private toIstioMatch(match: TrafficMatch): any {
+    const headers: Record<string, TrafficStringMatch> = {}
+
+    for (const [name, value] of Object.entries(match.headers || {})) {
+      headers[name.toLowerCase()] = this.toStringMatch(value)
+    }
+
+    // Istio 不支持直接匹配 cookie，转换为 Cookie 头的正则匹配
+    const cookies = Object.entries(match.cookies || {})
+    if (cookies.length > 0) {
+      if (cookies.length > 1) {
+        logger.warn('Only one cookie condition per match is supported by Istio, using the first one')
+      }
+      const [name, value] = cookies[0]
+      headers.cookie = { regex: this.cookieRegex(name, this.toStringMatch(value)) }
+    }
+
+    const queryParams: Record<string, TrafficStringMatch> = {}
+    for (const [name, value] of Object.entries(match.queryParams || {})) {
+      queryParams[name] = this.toStringMatch(value)
+    }
+
+    return {
+      headers: Object.keys(headers).length > 0 ? headers : undefined,
+      queryParams: Object.keys(queryParams).length > 0 ? queryParams : undefined,
+      uri: match.uri,
+      method: match.method ? { exact: match.method.toUpperCase() } : undefined,
+    }
+  }
+
+  /**
+   * 转换为 NGINX canary 匹配注解
+   */
+  private toNginxCanaryMatch(routes: TrafficRoute[], primary: string, canary: string): Record<string, string> {
+    const annotations: Record<string, string> = {}
+    const matchRoutes = routes.filter(r => r.match && r.match.length > 0)
+
+    for (const route of matchRoutes) {
+      if (route.destination === primary) {
+        logger.warn(`NGINX canary cannot route matched traffic to the primary destination "${primary}", ignoring rule`)
+      }
+    }
+
+    const conditions = matchRoutes
+      .filter(r => r.destination === canary)
+      .flatMap(r => r.match!)
+
+    if (conditions.length === 0) {
+      return annotations
+    }
+
+    if (conditions.length > 1) {
+      logger.warn('NGINX canary supports a single match condition, only the first one is applied')
+    }
+
+    const match = conditions[0]
+    const headers = Object.entries(match.headers || {})
+    const cookies = Object.entries(match.cookies || {})
+
+    if (headers.length > 0) {
+      const [name, value] = headers[0]
+      const stringMatch = this.toStringMatch(value)
+      annotations[`${NGINX_ANNOTATION_PREFIX}/canary-by-header`] = name
+
+      if (stringMatch.exact !== undefined) {
+        annotations[`${NGINX_ANNOTATION_PREFIX}/canary-by-header-value`] = stringMatch.exact
+      } else if (stringMatch.prefix !== undefined) {
+        annotations[`${NGINX_ANNOTATION_PREFIX}/canary-by-header-pattern`] = `^${this.escapeRegex(stringMatch.prefix)}.*`
+      } else if (stringMatch.regex !== undefined) {
+        annotations[`${NGINX_ANNOTATION_PREFIX}/canary-by-header-pattern`] = stringMatch.regex
+      }
+    } else if (cookies.length > 0) {
+      const [name, value] = cookies[0]
+      const stringMatch = this.toStringMatch(value)
+      // NGINX 仅在 cookie 值为 always 时路由到 canary
+      if (stringMatch.exact !== 'always') {
+        logger.warn(`NGINX canary-by-cookie only matches the value "always", cookie "${name}" must be set to it`)
+      }
+      annotations[`${NGINX_ANNOTATION_PREFIX}/canary-by-cookie`] = name
+    } else {
+      logger.warn('NGINX canary only supports header or cookie conditions, ignoring match rule')
+    }
+
+    return annotations
+  }
+
+  /**
+   * 转换为 NGINX mirror 注解
+   *
+   * @description NGINX 的 mirror 指令会复制全部请求，不支持按比例镜像
+   */
+  private toNginxMirror(mirror: NonNullable<TrafficConfig['mirror']>, options: TrafficRenderOptions): Record<string, string> {
+    const percentage = mirror.percentage ?? 100
+    if (percentage < 100) {
+      logger.warn(`NGINX mirror does not support partial mirroring, all requests will be mirrored instead of ${percentage}%`)
+    }
+
+    const namespace = options.namespace || 'default'
+    const service = this.resolveServiceName(options, mirror.destination)
+
+    return {
+      [`${NGINX_ANNOTATION_PREFIX}/mirror-target`]:
+        `http://${service}.${namespace}.svc.cluster.local:${options.port || 80}$request_uri`,
+    }
+  }
+
+  /**
+   * 构建 Ingress 资源
+   */
+  private buildIngress(
+    name: string,
+    destination: string,
+    options: TrafficRenderOptions,
+    annotations: Record<string, string>
+  ): any {
+    return {
+      apiVersion: 'networking.k8s.io/v1',
+      kind: 'Ingress',
+      metadata: {
+        name,
+        namespace: options.namespace || 'default',
+        annotations: Object.keys(annotations).length > 0 ? annotations : undefined,
+      },
+      spec: {
+        ingressClassName: options.ingressClassName || 'nginx',
+        rules: [{
+          host: options.host,
+          http: {
+            paths: [{
+              path: options.path || '/',
+              pathType: 'Prefix',
+              backend: {
+                service: {
+                  name: this.resolveServiceName(options, destination),
+                  port: { number: options.port || 80 },
+                },
+              },
+            }],
+          },
+        }],
+      },
+    }
+  }
+
+  /**
+   * 构建匹配指定 cookie 的 Cookie 头正则（Istio 使用完整匹配）
+   */
+  private cookieRegex(name: string, match: TrafficStringMatch): string {
+    let value: string
+    if (match.exact !== undefined) {
+      value = this.escapeRegex(match.exact)
+    } else if (match.prefix !== undefined) {
+      value = `${this.escapeRegex(match.prefix)}[^;]*`
+    } else {
+      value = `(${match.regex || '[^;]*'})`
+    }
+
+    return `^(.*;\\s*)?${this.escapeRegex(name)}=${value}(;.*)?$`
+  }
+
+  private toStringMatch(value: string | TrafficStringMatch): TrafficStringMatch {
+    return typeof value === 'string' ? { exact: value } : value
+  }
+
+  private escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  }
+
+  /**
+   * 移除 undefined 字段并拼接为多文档 YAML
+   */
+  private joinDocuments(documents: any[]): string {
+    return documents
+      .map(doc => `---\n${toYaml(JSON.parse(JSON.stringify(doc)), 0)}`)
+      .join('\n')
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * ManifestGenerator 测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import { ManifestGenerator } from '../ManifestGenerator.js'
+import type { DeployConfig, DeploymentStrategy } from '../../types/index.js'
+
+function createConfig(strategy?: DeploymentStrategy): DeployConfig {
+  return {
+    name: 'shop',
+    version: '1.1.0',
+    environment: 'production',
+    platform: 'kubernetes',
+    projectType: 'node',
+    docker: { image: 'registry.example.com/shop' },
+    healthCheck: { enabled: true, port: 3000 },
+    kubernetes: {
+      namespace: 'prod',
+      deployment: { replicas: 4, strategy },
+      service: { port: 80, targetPort: 3000 },
+    },
+  }
+}
+
+const canary: DeploymentStrategy = {
+  type: 'Canary',
+  canary: {
+    steps: [{ weight: 20, pause: 300 }, { weight: 50, pause: 600 }, { weight: 100 }],
+    analysis: {
+      successRate: 99,
+      latency: 500,
+      interval: 120,
+      prometheus: { url: 'http://prometheus.monitoring:9090' },
+    },
+  },
+}
+
+const blueGreen: DeploymentStrategy = {
+  type: 'BlueGreen',
+  blueGreen: { activeService: 'shop-active', previewService: 'shop-preview', autoPromoteSeconds: 600 },
+}
+
+describe('ManifestGenerator', () => {
+  const generator = new ManifestGenerator()
+
+  describe('generateDeployment', () => {
+    it('should only write native strategies to the Deployment', () => {
+      expect(generator.generateDeployment(createConfig(canary))).not.toContain('strategy:')
+      expect(generator.generateDeployment(createConfig({
+        type: 'RollingUpdate',
+        rollingUpdate: { maxSurge: 1, maxUnavailable: 0 },
+      }))).toContain('type: RollingUpdate')
+    })
+  })
+
+  describe('generateRollout', () => {
+    it('should translate canary steps into setWeight and pause', () => {
+      const rollout = generator.generateRollout(createConfig(canary))
+
+      expect(rollout).toContain('apiVersion: argoproj.io/v1alpha1')
+      expect(rollout).toContain('kind: Rollout')
+      expect(rollout).toContain('setWeight: 20')
+      expect(rollout).toContain('duration: 300')
+      expect(rollout).toContain('setWeight: 100')
+      expect(rollout).toContain('templateName: shop-analysis')
+      expect(rollout).toContain('image: "registry.example.com/shop:1.1.0"')
+    })
+
+    it('should translate blue-green services and auto promotion', () => {
+      const rollout = generator.generateRollout(createConfig(blueGreen))
+
+      expect(rollout).toContain('activeService: shop-active')
+      expect(rollout).toContain('previewService: shop-preview')
+      expect(rollout).toContain('autoPromotionEnabled: true')
+      expect(rollout).toContain('autoPromotionSeconds: 600')
+    })
+
+    it('should reject non-progressive strategies', () => {
+      expect(() => generator.generateRollout(createConfig({ type: 'RollingUpdate' }))).toThrow('Canary or BlueGreen')
+    })
+  })
+
+  describe('generateAnalysisTemplate', () => {
+    it('should translate thresholds into Prometheus metrics', () => {
+      const template = generator.generateAnalysisTemplate(createConfig(canary))!
+
+      expect(template).toContain('kind: AnalysisTemplate')
+      expect(template).toContain('name: shop-analysis')
+      expect(template).toContain('result[0] >= 0.99')
+      expect(template).toContain('result[0] <= 0.5')
+      expect(template).toContain('interval: 120s')
+      expect(template).toContain('address: "http://prometheus.monitoring:9090"')
+      expect(template).toContain('version=\\"1.1.0\\"')
+    })
+
+    it('should skip the template without Prometheus', () => {
+      const config = createConfig({
+        type: 'Canary',
+        canary: { steps: [{ weight: 100 }], analysis: { successRate: 99 } },
+      })
+
+      expect(generator.generateAnalysisTemplate(config)).toBeNull()
+    })
+  })
+
+  describe('generateFlaggerCanary', () => {
+    it('should map step weights and builtin metrics', () => {
+      const manifest = generator.generateFlaggerCanary(createConfig(canary))
+
+      expect(manifest).toContain('apiVersion: flagger.app/v1beta1')
+      expect(manifest).toContain('kind: Deployment')
+      expect(manifest).toContain('stepWeights:\n      - 20\n      - 50\n')
+      expect(manifest).toContain('name: request-success-rate')
+      expect(manifest).toContain('min: 99')
+      expect(manifest).toContain('max: 500')
+      expect(manifest).toContain('threshold: 5')
+    })
+
+    it('should take the failure threshold from the analysis config', () => {
+      const manifest = generator.generateFlaggerCanary(createConfig({
+        ...canary,
+        canary: { ...canary.canary!, analysis: { ...canary.canary!.analysis, failureThreshold: 2 } },
+      }))
+
+      expect(manifest).toContain('threshold: 2')
+    })
+
+    it('should derive blue-green iterations from autoPromoteSeconds', () => {
+      const manifest = generator.generateFlaggerCanary(createConfig(blueGreen))
+
+      expect(manifest).toContain('iterations: 10')
+      expect(manifest).not.toContain('stepWeights')
+    })
+  })
+
+  describe('generateAll', () => {
+    it('should replace the Deployment with a Rollout for argo', () => {
+      const manifests = generator.generateAll(createConfig(blueGreen))
+
+      expect(manifests).toContain('kind: Rollout')
+      expect(manifests).not.toContain('kind: Deployment')
+      expect(manifests).toContain('name: shop-active')
+      expect(manifests).toContain('name: shop-preview')
+    })
+
+    it('should emit a Deployment and Flagger Canary for flagger', () => {
+      const manifests = generator.generateAll(createConfig(canary), { progressiveDelivery: 'flagger' })
+
+      expect(manifests).toContain('kind: Deployment')
+      expect(manifests).toContain('kind: Canary')
+      expect(manifests).not.toContain('kind: Service')
+    })
+
+    it('should reject unknown providers', () => {
+      expect(() => generator.generateAll(createConfig(canary), { progressiveDelivery: 'spinnaker' as any }))
+        .toThrow('Unsupported progressive delivery provider')
+    })
+  })
+})
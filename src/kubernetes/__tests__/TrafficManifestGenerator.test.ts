@@ -0,0 +1,137 @@
+/**
+ * TrafficManifestGenerator 测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import { TrafficManifestGenerator } from '../TrafficManifestGenerator.js'
+import type { TrafficConfig } from '../../types/index.js'
+
+describe('TrafficManifestGenerator', () => {
+  const generator = new TrafficManifestGenerator()
+  const options = {
+    name: 'shop',
+    namespace: 'prod',
+    subsets: {
+      a: { app: 'shop', version: '1.0.0' },
+      b: { app: 'shop', version: '1.1.0' },
+    },
+  }
+
+  const traffic: TrafficConfig = {
+    routing: [
+      { destination: 'b', weight: 100, match: [{ headers: { 'X-Beta': 'true' } }] },
+      { destination: 'a', weight: 90 },
+      { destination: 'b', weight: 10 },
+    ],
+  }
+
+  describe('generateIstio', () => {
+    it('should generate destination rule subsets', () => {
+      const manifest = generator.generate(traffic, 'istio', options)
+
+      expect(manifest).toContain('kind: DestinationRule')
+      expect(manifest).toContain('version: 1.1.0')
+      expect(manifest).toContain('namespace: prod')
+    })
+
+    it('should put matched routes before the weighted default route', () => {
+      const manifest = generator.generate(traffic, 'istio', options)
+
+      expect(manifest).toContain('kind: VirtualService')
+      expect(manifest.indexOf('name: match-b')).toBeLessThan(manifest.indexOf('name: default'))
+      expect(manifest).toContain('x-beta:')
+      expect(manifest).toContain('exact: "true"')
+      expect(manifest).toContain('weight: 90')
+      expect(manifest).toContain('weight: 10')
+    })
+
+    it('should translate cookie matches into cookie header regex', () => {
+      const manifest = generator.generate({
+        routing: [
+          { destination: 'b', weight: 100, match: [{ cookies: { group: 'beta' } }] },
+          { destination: 'a', weight: 100 },
+          { destination: 'b', weight: 0 },
+        ],
+      }, 'istio', options)
+
+      expect(manifest).toContain('cookie:')
+      expect(manifest).toContain('group=beta(;.*)?$')
+    })
+
+    it('should add mirror settings to the default route', () => {
+      const manifest = generator.generate({
+        routing: [{ destination: 'a', weight: 100 }],
+        mirror: { enabled: true, destination: 'b', percentage: 20 },
+      }, 'istio', options)
+
+      expect(manifest).toContain('mirror:')
+      expect(manifest).toContain('value: 20')
+    })
+
+    it('should route destinations with an existing service to that host', () => {
+      const manifest = generator.generate({
+        routing: [{ destination: 'a', weight: 100 }],
+        mirror: { enabled: true, destination: 'b' },
+      }, 'istio', { ...options, services: { b: 'shop-shadow' } })
+
+      expect(manifest).toContain('host: shop-shadow')
+      expect(manifest).not.toContain('name: b')
+    })
+  })
+
+  describe('generateNginxCanary', () => {
+    it('should generate per-version services and canary ingress', () => {
+      const manifest = generator.generate(traffic, 'nginx', options)
+
+      expect(manifest).toContain('name: shop-a')
+      expect(manifest).toContain('name: shop-b')
+      expect(manifest).toContain('name: shop-canary')
+      expect(manifest).toContain('nginx.ingress.kubernetes.io/canary: "true"')
+      expect(manifest).toContain('nginx.ingress.kubernetes.io/canary-weight: "10"')
+      expect(manifest).toContain('nginx.ingress.kubernetes.io/canary-by-header: X-Beta')
+      expect(manifest).toContain('nginx.ingress.kubernetes.io/canary-by-header-value: "true"')
+    })
+
+    it('should mirror to the shadow service without a canary ingress', () => {
+      const manifest = generator.generate({
+        routing: [{ destination: 'a', weight: 100 }],
+        mirror: { enabled: true, destination: 'b' },
+      }, 'nginx', options)
+
+      expect(manifest).toContain('nginx.ingress.kubernetes.io/mirror-target: "http://shop-b.prod.svc.cluster.local:80$request_uri"')
+      expect(manifest).not.toContain('name: shop-canary')
+    })
+
+    it('should reuse existing services instead of generating them', () => {
+      const manifest = generator.generate({
+        routing: [{ destination: 'a', weight: 100 }],
+        mirror: { enabled: true, destination: 'b' },
+      }, 'nginx', { ...options, services: { a: 'shop', b: 'shop-shadow' } })
+
+      expect(manifest).not.toContain('kind: Service')
+      expect(manifest).toContain('name: shop\n')
+      expect(manifest).toContain('http://shop-shadow.prod.svc.cluster.local:80$request_uri')
+    })
+
+    it('should reject more than two destinations', () => {
+      expect(() => generator.generate(traffic, 'nginx', {
+        ...options,
+        subsets: { ...options.subsets, c: { app: 'shop', version: '1.2.0' } },
+      })).toThrow('exactly two destinations')
+    })
+  })
+
+  describe('validation', () => {
+    it('should reject weights that do not add up to 100', () => {
+      expect(() => generator.generate({
+        routing: [{ destination: 'a', weight: 50 }, { destination: 'b', weight: 20 }],
+      }, 'istio', options)).toThrow('add up to 100')
+    })
+
+    it('should reject unknown destinations', () => {
+      expect(() => generator.generate({
+        routing: [{ destination: 'c', weight: 100 }],
+      }, 'istio', options)).toThrow('Unknown traffic destination')
+    })
+  })
+})
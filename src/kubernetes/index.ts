@@ -5,6 +5,7 @@
 export * from './ManifestGenerator.js'
 export * from './DeploymentManager.js'
 export * from './HelmGenerator.js'
+export * from './TrafficManifestGenerator.js'
 
 
 
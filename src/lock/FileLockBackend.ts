@@ -0,0 +1,162 @@
+/**
+ * 文件锁后端
+ * @module lock/FileLockBackend
+ *
+ * @description 每把锁对应锁目录中的一个文件，以独占方式（wx）创建，只能协调同一台机器上的部署
+ */
+
+import { promises as fs } from 'fs'
+import { join } from 'path'
+import { readJSON, fileExists, removeFile, ensureDir } from '../utils/file-system.js'
+import { isLockExpired } from './LockBackend.js'
+import type { LockBackend, LockInfo } from './LockBackend.js'
+
+export interface FileLockBackendOptions {
+  /** 锁文件目录，默认 <cwd>/.deploy-locks */
+  dir?: string
+}
+
+export class FileLockBackend implements LockBackend {
+  readonly name = 'file'
+  private dir?: string
+
+  constructor(options: FileLockBackendOptions = {}) {
+    this.dir = options.dir
+  }
+
+  async tryAcquire(lock: LockInfo): Promise<LockInfo | null> {
+    const path = this.getPath(lock.key)
+    await ensureDir(this.getDir())
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        await fs.writeFile(path, JSON.stringify(lock, null, 2), { flag: 'wx' })
+        return lock
+      } catch (error: any) {
+        if (error.code !== 'EEXIST') {
+          throw error
+        }
+      }
+
+      const current = await this.read(path)
+      if (current && !isLockExpired(current)) {
+        return null
+      }
+
+      // 过期的锁先原子地移走，确认移走的仍是过期的那把锁再重新创建
+      if (!(await this.removeStale(path, current))) {
+        return null
+      }
+    }
+
+    return null
+  }
+
+  /**
+   * 续期：先写入临时文件，确认锁仍属于该持有者后原子地替换锁文件，
+   * 避免覆盖其他进程接管后创建的锁，也不会留下写了一半的锁文件
+   */
+  async renew(lock: LockInfo): Promise<LockInfo | null> {
+    const path = this.getPath(lock.key)
+    const renewing = `${path}.${process.pid}.${Date.now()}.renew`
+    try {
+      await fs.writeFile(renewing, JSON.stringify(lock, null, 2), { flag: 'wx' })
+    } catch (error: any) {
+      // 锁目录已被删除
+      if (error.code === 'ENOENT') {
+        return null
+      }
+      throw error
+    }
+
+    try {
+      const current = await this.read(path)
+      if (!current || current.id !== lock.id) {
+        return null
+      }
+
+      await fs.rename(renewing, path)
+    } finally {
+      await removeFile(renewing)
+    }
+
+    return (await this.read(path))?.id === lock.id ? lock : null
+  }
+
+  async release(lock: LockInfo): Promise<void> {
+    const path = this.getPath(lock.key)
+    const current = await this.read(path)
+
+    if (current?.id === lock.id) {
+      await removeFile(path)
+    }
+  }
+
+  async get(key: string): Promise<LockInfo | null> {
+    return this.read(this.getPath(key))
+  }
+
+  async list(): Promise<LockInfo[]> {
+    const dir = this.getDir()
+    if (!fileExists(dir)) {
+      return []
+    }
+
+    const locks: LockInfo[] = []
+    for (const file of await fs.readdir(dir)) {
+      if (file.endsWith('.lock')) {
+        const lock = await this.read(join(dir, file))
+        if (lock) {
+          locks.push(lock)
+        }
+      }
+    }
+
+    return locks
+  }
+
+  async forceRelease(key: string): Promise<void> {
+    await removeFile(this.getPath(key))
+  }
+
+  private getDir(): string {
+    return this.dir || join(process.cwd(), '.deploy-locks')
+  }
+
+  private getPath(key: string): string {
+    return join(this.getDir(), `${key.replace(/[^a-zA-Z0-9._-]/g, '_')}.lock`)
+  }
+
+  private async read(path: string): Promise<LockInfo | null> {
+    if (!fileExists(path)) {
+      return null
+    }
+
+    try {
+      return await readJSON<LockInfo>(path)
+    } catch {
+      return null
+    }
+  }
+
+  private async removeStale(path: string, stale: LockInfo | null): Promise<boolean> {
+    const moved = `${path}.${process.pid}.${Date.now()}.stale`
+
+    try {
+      await fs.rename(path, moved)
+    } catch (error: any) {
+      // 已被其他进程移走，重新尝试创建
+      return error.code === 'ENOENT'
+    }
+
+    const removed = await this.read(moved)
+    if (stale && removed && removed.id !== stale.id) {
+      // 移走的是其他进程刚创建的锁，放回原处
+      await fs.rename(moved, path)
+      return false
+    }
+
+    await removeFile(moved)
+    return true
+  }
+}
@@ -0,0 +1,234 @@
+/**
+ * Kubernetes Lease 锁后端
+ * @module lock/KubernetesLeaseLockBackend
+ *
+ * @description 每把锁对应一个 coordination.k8s.io/v1 Lease 对象，通过 kubectl 读写。
+ * 接管与续期使用 kubectl replace 携带 resourceVersion，并发修改时以 Conflict 失败；
+ * 释放（包括强制释放）时清空 holderIdentity 而不删除对象，leaseTransitions 作为 fencing token 保持递增
+ */
+
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { writeFile, removeFile } from '../utils/file-system.js'
+import { LockError } from '../utils/errors.js'
+import { CommandLockBackend, isLockExpired } from './LockBackend.js'
+import type { LockInfo } from './LockBackend.js'
+import type { CommandExecutor } from '../kubernetes/DeploymentManager.js'
+
+export interface KubernetesLeaseLockBackendOptions {
+  /** 命名空间，默认 default */
+  namespace?: string
+  /** kubectl 上下文 */
+  context?: string
+}
+
+const LOCK_ANNOTATION = 'deployer.ldesign.dev/lock'
+const MANAGED_BY_LABEL = 'app.kubernetes.io/managed-by=ldesign-deployer'
+
+interface Lease {
+  apiVersion: string
+  kind: string
+  metadata: {
+    name: string
+    namespace?: string
+    resourceVersion?: string
+    labels?: Record<string, string>
+    annotations?: Record<string, string>
+  }
+  spec: {
+    holderIdentity?: string
+    leaseDurationSeconds?: number
+    acquireTime?: string
+    renewTime?: string
+    leaseTransitions?: number
+  }
+}
+
+export class KubernetesLeaseLockBackend extends CommandLockBackend {
+  readonly name = 'kubernetes'
+  private namespace: string
+  private context?: string
+
+  constructor(options: KubernetesLeaseLockBackendOptions = {}, executor?: CommandExecutor) {
+    super(executor)
+    this.namespace = options.namespace || 'default'
+    this.context = options.context
+  }
+
+  async tryAcquire(lock: LockInfo): Promise<LockInfo | null> {
+    const lease = await this.readLease(lock.key)
+
+    if (!lease) {
+      const acquired = { ...lock, token: 1 }
+      return (await this.writeLease('create', this.buildLease(acquired))) ? acquired : null
+    }
+
+    const current = this.toLockInfo(lease)
+    if (current && !isLockExpired(current)) {
+      return null
+    }
+
+    const acquired = { ...lock, token: (lease.spec.leaseTransitions || 0) + 1 }
+    return (await this.writeLease('replace', this.buildLease(acquired, lease))) ? acquired : null
+  }
+
+  async renew(lock: LockInfo): Promise<LockInfo | null> {
+    const lease = await this.readLease(lock.key)
+
+    if (!lease || lease.spec.holderIdentity !== lock.id) {
+      return null
+    }
+
+    return (await this.writeLease('replace', this.buildLease(lock, lease))) ? lock : null
+  }
+
+  async release(lock: LockInfo): Promise<void> {
+    const lease = await this.readLease(lock.key)
+
+    if (!lease || lease.spec.holderIdentity !== lock.id) {
+      return
+    }
+
+    await this.writeLease('replace', this.clearHolder(lease))
+  }
+
+  async get(key: string): Promise<LockInfo | null> {
+    const lease = await this.readLease(key)
+    return lease ? this.toLockInfo(lease) : null
+  }
+
+  async list(): Promise<LockInfo[]> {
+    const { stdout } = await this.executor(this.kubectl(`get leases -l ${MANAGED_BY_LABEL} -o json`))
+    const leases: Lease[] = JSON.parse(stdout).items || []
+
+    return leases
+      .map(lease => this.toLockInfo(lease))
+      .filter((lock): lock is LockInfo => lock !== null)
+  }
+
+  /**
+   * 强制释放：同样清空持有者而不删除 Lease，保留 leaseTransitions 计数
+   *
+   * @throws {LockError} Lease 在多次尝试中都被其他进程修改
+   */
+  async forceRelease(key: string): Promise<void> {
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const lease = await this.readLease(key)
+      if (!lease || !lease.spec.holderIdentity) {
+        return
+      }
+
+      if (await this.writeLease('replace', this.clearHolder(lease))) {
+        return
+      }
+    }
+
+    throw new LockError(`Failed to release lock ${key}: the lease keeps changing`, {
+      details: { key },
+      suggestion: '稍后重试 lock:release',
+    })
+  }
+
+  /**
+   * 获取 Lease 名称（DNS-1123 标签，最长 63 个字符）
+   */
+  private getLeaseName(key: string): string {
+    const name = `deploy-lock-${key.toLowerCase().replace(/[^a-z0-9-]+/g, '-')}`
+    return name.slice(0, 63).replace(/-+$/, '')
+  }
+
+  private kubectl(args: string): string {
+    const flags = [`-n ${this.namespace}`]
+    if (this.context) {
+      flags.push(`--context ${this.quote(this.context)}`)
+    }
+    return `kubectl ${args} ${flags.join(' ')}`
+  }
+
+  private async readLease(key: string): Promise<Lease | null> {
+    try {
+      const { stdout } = await this.executor(this.kubectl(`get lease ${this.getLeaseName(key)} -o json`))
+      return JSON.parse(stdout)
+    } catch (error: any) {
+      if (/NotFound|not found/i.test(this.errorOutput(error))) {
+        return null
+      }
+      throw error
+    }
+  }
+
+  /**
+   * 创建或替换 Lease，对象已存在（create）或已被修改（replace）时返回 false
+   */
+  private async writeLease(action: 'create' | 'replace', lease: Lease): Promise<boolean> {
+    const file = join(tmpdir(), `${lease.metadata.name}-${process.pid}-${Date.now()}.json`)
+    await writeFile(file, JSON.stringify(lease))
+
+    try {
+      await this.executor(this.kubectl(`${action} -f ${this.quote(file)}`))
+      return true
+    } catch (error: any) {
+      if (/AlreadyExists|Conflict|the object has been modified/i.test(this.errorOutput(error))) {
+        return false
+      }
+      throw error
+    } finally {
+      await removeFile(file)
+    }
+  }
+
+  private buildLease(lock: LockInfo, existing?: Lease): Lease {
+    const ttl = (lock.expiresAt || lock.timestamp) - (lock.renewedAt || lock.timestamp)
+
+    return {
+      apiVersion: 'coordination.k8s.io/v1',
+      kind: 'Lease',
+      metadata: {
+        name: this.getLeaseName(lock.key),
+        namespace: this.namespace,
+        resourceVersion: existing?.metadata.resourceVersion,
+        labels: { ...existing?.metadata.labels, 'app.kubernetes.io/managed-by': 'ldesign-deployer' },
+        annotations: { ...existing?.metadata.annotations, [LOCK_ANNOTATION]: JSON.stringify(lock) },
+      },
+      spec: {
+        holderIdentity: lock.id,
+        leaseDurationSeconds: Math.max(1, Math.ceil(ttl / 1000)),
+        acquireTime: toMicroTime(lock.timestamp),
+        renewTime: toMicroTime(lock.renewedAt || lock.timestamp),
+        leaseTransitions: lock.token,
+      },
+    }
+  }
+
+  /**
+   * 清空持有者与锁注解，只保留 leaseTransitions
+   */
+  private clearHolder(lease: Lease): Lease {
+    const { [LOCK_ANNOTATION]: _removed, ...annotations } = lease.metadata.annotations || {}
+    return {
+      ...lease,
+      metadata: { ...lease.metadata, annotations },
+      spec: { leaseTransitions: lease.spec.leaseTransitions },
+    }
+  }
+
+  private toLockInfo(lease: Lease): LockInfo | null {
+    const annotation = lease.metadata.annotations?.[LOCK_ANNOTATION]
+    if (!lease.spec.holderIdentity || !annotation) {
+      return null
+    }
+
+    try {
+      return JSON.parse(annotation)
+    } catch {
+      return null
+    }
+  }
+}
+
+/**
+ * 转换为 Kubernetes MicroTime（微秒精度的 RFC 3339）
+ */
+function toMicroTime(timestamp: number): string {
+  return new Date(timestamp).toISOString().replace(/Z$/, '000Z')
+}
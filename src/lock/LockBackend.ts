@@ -0,0 +1,139 @@
+/**
+ * 锁后端
+ * @module lock/LockBackend
+ *
+ * @description 定义部署锁的存储接口。锁按键（<应用>/<环境>）隔离，每把锁都有有效期，
+ * 持有者通过心跳续期；超过有效期未续期的锁可以被其他进程接管
+ */
+
+import { exec } from 'child_process'
+import { promisify } from 'util'
+import type { CommandExecutor } from '../kubernetes/DeploymentManager.js'
+
+const execAsync: CommandExecutor = promisify(exec)
+
+/**
+ * 锁信息
+ */
+export interface LockInfo {
+  /** 持有者 ID（每次部署唯一） */
+  id: string
+  /** 锁键，如 shop/production */
+  key: string
+  app?: string
+  environment?: string
+  pid: number
+  host?: string
+  user?: string
+  operation: string
+  /** 获取时间 */
+  timestamp: number
+  /** 最近一次续期时间 */
+  renewedAt?: number
+  /** 过期时间 */
+  expiresAt?: number
+  /** 单调递增的 fencing token，由支持的后端生成 */
+  token?: number
+}
+
+/**
+ * 锁的作用范围
+ */
+export interface LockScope {
+  app: string
+  environment: string
+}
+
+/**
+ * 锁后端接口
+ */
+export interface LockBackend {
+  /** 后端名称 */
+  readonly name: string
+
+  /**
+   * 尝试获取锁，锁空闲或已过期时写入并返回实际存储的锁信息（可能附带 token），
+   * 被其他持有者占用时返回 null
+   */
+  tryAcquire(lock: LockInfo): Promise<LockInfo | null>
+
+  /**
+   * 续期，锁已不属于该持有者时返回 null
+   */
+  renew(lock: LockInfo): Promise<LockInfo | null>
+
+  /**
+   * 释放锁，只释放属于该持有者的锁
+   */
+  release(lock: LockInfo): Promise<void>
+
+  /**
+   * 获取锁信息（可能已过期），不存在时返回 null
+   */
+  get(key: string): Promise<LockInfo | null>
+
+  /**
+   * 列出后端中的所有锁
+   */
+  list(): Promise<LockInfo[]>
+
+  /**
+   * 强制删除锁（危险操作）
+   */
+  forceRelease(key: string): Promise<void>
+}
+
+/**
+ * 获取锁键
+ */
+export function getLockKey(scope?: LockScope): string {
+  return scope ? `${scope.app}/${scope.environment}` : 'default'
+}
+
+/**
+ * 判断锁是否已过期
+ */
+export function isLockExpired(lock: LockInfo, now = Date.now()): boolean {
+  return lock.expiresAt !== undefined && lock.expiresAt <= now
+}
+
+/**
+ * 格式化锁的持有者，如 ci@runner-1 (PID 4242)
+ */
+export function formatLockOwner(lock: LockInfo): string {
+  const owner = [lock.user, lock.host].filter(Boolean).join('@')
+  return `${owner || 'unknown'} (PID ${lock.pid})`
+}
+
+/**
+ * 通过命令行工具访问存储的锁后端基类
+ */
+export abstract class CommandLockBackend implements LockBackend {
+  abstract readonly name: string
+  protected executor: CommandExecutor
+
+  constructor(executor: CommandExecutor = execAsync) {
+    this.executor = executor
+  }
+
+  abstract tryAcquire(lock: LockInfo): Promise<LockInfo | null>
+  abstract renew(lock: LockInfo): Promise<LockInfo | null>
+  abstract release(lock: LockInfo): Promise<void>
+  abstract get(key: string): Promise<LockInfo | null>
+  abstract list(): Promise<LockInfo[]>
+  abstract forceRelease(key: string): Promise<void>
+
+  /**
+   * 为 shell 参数加引号
+   */
+  protected quote(value: string): string {
+    return `'${value.replace(/'/g, `'\\''`)}'`
+  }
+
+  /**
+   * 获取命令失败的输出，用于识别 NotFound、Conflict 等错误
+   */
+  protected errorOutput(error: any): string {
+    return `${error?.stderr || ''}\n${error?.message || ''}`
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Redis 锁后端
+ * @module lock/RedisLockBackend
+ *
+ * @description 通过 redis-cli 访问 Redis：获取锁前先 INCR 计数键得到单调递增的 fencing token，
+ * 再以 SET NX PX 写入锁；续期与释放使用 Lua 脚本比较持有者后原子地更新或删除。
+ * URL 中的密码通过 REDISCLI_AUTH 环境变量传给 redis-cli，不出现在进程的命令行参数中
+ */
+
+import { CommandLockBackend } from './LockBackend.js'
+import type { LockInfo } from './LockBackend.js'
+import type { CommandExecutor } from '../kubernetes/DeploymentManager.js'
+
+export interface RedisLockBackendOptions {
+  /** redis://[user:password@]host:port[/db]，默认 redis://127.0.0.1:6379 */
+  url?: string
+  /** 键前缀，默认 ldesign-deployer:lock: */
+  keyPrefix?: string
+}
+
+const FENCE_SUFFIX = ':fence'
+
+/**
+ * 持有者匹配时更新锁并重置过期时间
+ */
+const RENEW_SCRIPT =
+  'local v = redis.call("GET", KEYS[1]) ' +
+  'if v and cjson.decode(v).id == ARGV[1] then redis.call("SET", KEYS[1], ARGV[2], "PX", ARGV[3]) return 1 end ' +
+  'return 0'
+
+/**
+ * 持有者匹配时删除锁
+ */
+const RELEASE_SCRIPT =
+  'local v = redis.call("GET", KEYS[1]) ' +
+  'if v and cjson.decode(v).id == ARGV[1] then return redis.call("DEL", KEYS[1]) end ' +
+  'return 0'
+
+export class RedisLockBackend extends CommandLockBackend {
+  readonly name = 'redis'
+  /** 去掉凭据的 URL */
+  private url: string
+  private user?: string
+  private password?: string
+  private keyPrefix: string
+
+  constructor(options: RedisLockBackendOptions = {}, executor?: CommandExecutor) {
+    super(executor)
+    const url = new URL(options.url || 'redis://127.0.0.1:6379')
+    this.user = decodeURIComponent(url.username) || undefined
+    this.password = decodeURIComponent(url.password) || undefined
+    url.username = ''
+    url.password = ''
+    this.url = url.toString()
+    this.keyPrefix = options.keyPrefix || 'ldesign-deployer:lock:'
+  }
+
+  async tryAcquire(lock: LockInfo): Promise<LockInfo | null> {
+    const key = this.getKey(lock.key)
+    const token = Number(await this.redis('INCR', `${key}${FENCE_SUFFIX}`))
+    const acquired = { ...lock, token }
+
+    const result = await this.redis('SET', key, JSON.stringify(acquired), 'NX', 'PX', String(this.getTtl(lock)))
+    return result === 'OK' ? acquired : null
+  }
+
+  async renew(lock: LockInfo): Promise<LockInfo | null> {
+    const result = await this.redis(
+      'EVAL', RENEW_SCRIPT, '1', this.getKey(lock.key), lock.id, JSON.stringify(lock), String(this.getTtl(lock))
+    )
+    return result === '1' ? lock : null
+  }
+
+  async release(lock: LockInfo): Promise<void> {
+    await this.redis('EVAL', RELEASE_SCRIPT, '1', this.getKey(lock.key), lock.id)
+  }
+
+  async get(key: string): Promise<LockInfo | null> {
+    return this.parse(await this.redis('GET', this.getKey(key)))
+  }
+
+  async list(): Promise<LockInfo[]> {
+    const keys = (await this.redis('--scan', '--pattern', `${this.keyPrefix}*`))
+      .split('\n')
+      .map(key => key.trim())
+      .filter(key => key && !key.endsWith(FENCE_SUFFIX))
+
+    const locks: LockInfo[] = []
+    for (const key of keys) {
+      const lock = this.parse(await this.redis('GET', key))
+      if (lock) {
+        locks.push(lock)
+      }
+    }
+
+    return locks
+  }
+
+  async forceRelease(key: string): Promise<void> {
+    await this.redis('DEL', this.getKey(key))
+  }
+
+  private getKey(key: string): string {
+    return `${this.keyPrefix}${key}`
+  }
+
+  private getTtl(lock: LockInfo): number {
+    return Math.max(1, (lock.expiresAt || 0) - (lock.renewedAt || lock.timestamp))
+  }
+
+  private async redis(...args: string[]): Promise<string> {
+    const connection = ['redis-cli', '--no-auth-warning', '-u', this.url]
+    if (this.user) {
+      connection.push('--user', this.user)
+    }
+
+    const command = [...connection, ...args].map(arg => this.quote(arg)).join(' ')
+    const { stdout } = await this.executor(
+      command,
+      this.password ? { env: { ...process.env, REDISCLI_AUTH: this.password } } : undefined
+    )
+    return stdout.trim()
+  }
+
+  private parse(value: string): LockInfo | null {
+    if (!value) {
+      return null
+    }
+
+    try {
+      return JSON.parse(value)
+    } catch {
+      return null
+    }
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * S3 锁后端
+ * @module lock/S3LockBackend
+ *
+ * @description 每把锁对应一个 JSON 对象，通过 aws s3api 的条件写入实现互斥：
+ * 首次创建使用 If-None-Match: *，接管过期锁、续期与释放使用 If-Match: <ETag>，
+ * 其他进程同时写入时以 412 PreconditionFailed 失败。释放（包括强制释放）时写入 released 标记而不删除对象，
+ * 使 fencing token 保持递增。适用于 AWS S3 及支持条件写入的 S3 兼容存储（MinIO、R2 等）
+ */
+
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { readFile, writeFile, removeFile } from '../utils/file-system.js'
+import { LockError } from '../utils/errors.js'
+import { CommandLockBackend, isLockExpired } from './LockBackend.js'
+import type { LockInfo } from './LockBackend.js'
+import type { CommandExecutor } from '../kubernetes/DeploymentManager.js'
+
+export interface S3LockBackendOptions {
+  bucket: string
+  /** 对象键前缀，默认 ldesign-deployer/locks/ */
+  prefix?: string
+  region?: string
+  /** S3 兼容存储的地址 */
+  endpoint?: string
+}
+
+/**
+ * 存储的锁对象
+ */
+interface LockObject extends LockInfo {
+  released?: boolean
+}
+
+export class S3LockBackend extends CommandLockBackend {
+  readonly name = 's3'
+  private options: S3LockBackendOptions
+  private prefix: string
+
+  constructor(options: S3LockBackendOptions, executor?: CommandExecutor) {
+    super(executor)
+    this.options = options
+    this.prefix = options.prefix ?? 'ldesign-deployer/locks/'
+  }
+
+  async tryAcquire(lock: LockInfo): Promise<LockInfo | null> {
+    const current = await this.readObject(this.getObjectKey(lock.key))
+
+    if (!current) {
+      const acquired = { ...lock, token: 1 }
+      return (await this.writeObject(acquired, { ifNoneMatch: true })) ? acquired : null
+    }
+
+    if (!current.data.released && !isLockExpired(current.data)) {
+      return null
+    }
+
+    const acquired = { ...lock, token: (current.data.token || 0) + 1 }
+    return (await this.writeObject(acquired, { ifMatch: current.etag })) ? acquired : null
+  }
+
+  async renew(lock: LockInfo): Promise<LockInfo | null> {
+    const current = await this.readObject(this.getObjectKey(lock.key))
+
+    if (!current || current.data.released || current.data.id !== lock.id) {
+      return null
+    }
+
+    return (await this.writeObject(lock, { ifMatch: current.etag })) ? lock : null
+  }
+
+  async release(lock: LockInfo): Promise<void> {
+    const current = await this.readObject(this.getObjectKey(lock.key))
+
+    if (current && !current.data.released && current.data.id === lock.id) {
+      await this.writeObject({ ...current.data, released: true }, { ifMatch: current.etag })
+    }
+  }
+
+  async get(key: string): Promise<LockInfo | null> {
+    const current = await this.readObject(this.getObjectKey(key))
+    return current && !current.data.released ? this.toLockInfo(current.data) : null
+  }
+
+  async list(): Promise<LockInfo[]> {
+    const { stdout } = await this.executor(
+      this.s3api(`list-objects-v2 --prefix ${this.quote(this.prefix)} --output json`)
+    )
+    const objects: Array<{ Key: string }> = stdout.trim() ? JSON.parse(stdout).Contents || [] : []
+
+    const locks: LockInfo[] = []
+    for (const { Key } of objects.filter(object => object.Key.endsWith('.json'))) {
+      const current = await this.readObject(Key)
+      if (current && !current.data.released) {
+        locks.push(this.toLockInfo(current.data))
+      }
+    }
+
+    return locks
+  }
+
+  /**
+   * 强制释放：同样写入 released 标记而不删除对象，保留 fencing token 计数
+   *
+   * @throws {LockError} 锁对象在多次尝试中都被其他进程修改
+   */
+  async forceRelease(key: string): Promise<void> {
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const current = await this.readObject(this.getObjectKey(key))
+      if (!current || current.data.released) {
+        return
+      }
+
+      if (await this.writeObject({ ...current.data, released: true }, { ifMatch: current.etag })) {
+        return
+      }
+    }
+
+    throw new LockError(`Failed to release lock ${key}: the lock object keeps changing`, {
+      details: { key },
+      suggestion: '稍后重试 lock:release',
+    })
+  }
+
+  private getObjectKey(key: string): string {
+    return `${this.prefix}${key}.json`
+  }
+
+  private s3api(args: string): string {
+    const flags = [`--bucket ${this.quote(this.options.bucket)}`]
+    if (this.options.region) {
+      flags.push(`--region ${this.quote(this.options.region)}`)
+    }
+    if (this.options.endpoint) {
+      flags.push(`--endpoint-url ${this.quote(this.options.endpoint)}`)
+    }
+    return `aws s3api ${args} ${flags.join(' ')}`
+  }
+
+  private async readObject(objectKey: string): Promise<{ data: LockObject; etag: string } | null> {
+    const file = this.getTempFile()
+
+    try {
+      const { stdout } = await this.executor(
+        this.s3api(`get-object --key ${this.quote(objectKey)} ${this.quote(file)} --output json`)
+      )
+      return { data: JSON.parse(await readFile(file)), etag: JSON.parse(stdout).ETag }
+    } catch (error: any) {
+      if (/NoSuchKey|Not Found|\(404\)/i.test(this.errorOutput(error))) {
+        return null
+      }
+      throw error
+    } finally {
+      await removeFile(file)
+    }
+  }
+
+  /**
+   * 条件写入锁对象，条件不满足（已存在或已被修改）时返回 false
+   */
+  private async writeObject(
+    data: LockObject,
+    condition: { ifNoneMatch: true } | { ifMatch: string }
+  ): Promise<boolean> {
+    const file = this.getTempFile()
+    await writeFile(file, JSON.stringify(data))
+
+    const precondition = 'ifMatch' in condition
+      ? `--if-match ${this.quote(condition.ifMatch)}`
+      : `--if-none-match '*'`
+
+    try {
+      await this.executor(this.s3api(
+        `put-object --key ${this.quote(this.getObjectKey(data.key))} --body ${this.quote(file)} ${precondition} --content-type application/json --output json`
+      ))
+      return true
+    } catch (error: any) {
+      if (/PreconditionFailed|ConditionalRequestConflict|\(412\)|\(409\)/i.test(this.errorOutput(error))) {
+        return false
+      }
+      throw error
+    } finally {
+      await removeFile(file)
+    }
+  }
+
+  private toLockInfo(data: LockObject): LockInfo {
+    const { released: _released, ...lock } = data
+    return lock
+  }
+
+  private getTempFile(): string {
+    return join(tmpdir(), `deploy-lock-${process.pid}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}.json`)
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * DeploymentLock 测试（文件锁后端）
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { DeploymentLock, type LockTarget } from '../../utils/lock.js'
+import { FileLockBackend } from '../FileLockBackend.js'
+import { LockError } from '../../utils/errors.js'
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+describe('DeploymentLock', () => {
+  let workDir: string
+  let production: LockTarget
+  let staging: LockTarget
+
+  beforeEach(async () => {
+    workDir = await mkdtemp(join(tmpdir(), 'deployer-lock-'))
+    production = { scope: { app: 'shop', environment: 'production' }, workDir }
+    staging = { scope: { app: 'shop', environment: 'staging' }, workDir }
+  })
+
+  afterEach(async () => {
+    await DeploymentLock.release('deploy-a')
+    await DeploymentLock.release('deploy-b')
+    await rm(workDir, { recursive: true, force: true })
+  })
+
+  it('should scope locks per app and environment', async () => {
+    await DeploymentLock.acquire('deploy-a', 'deploy', production)
+    await DeploymentLock.acquire('deploy-b', 'deploy', staging)
+
+    const locks = await DeploymentLock.listLocks({ workDir })
+    expect(locks.map(lock => lock.key).sort()).toEqual(['shop/production', 'shop/staging'])
+    expect(await DeploymentLock.isLocked(production)).toBe(true)
+  })
+
+  it('should reject a second holder and report the owner', async () => {
+    await DeploymentLock.acquire('deploy-a', 'deploy', production)
+
+    const error = await DeploymentLock.acquire('deploy-b', 'deploy', production).catch(e => e)
+    expect(error).toBeInstanceOf(LockError)
+    expect(error.message).toContain('shop/production')
+    expect(error.message).toContain(`PID ${process.pid}`)
+
+    await DeploymentLock.release('deploy-a')
+    await expect(DeploymentLock.acquire('deploy-b', 'deploy', production)).resolves.toMatchObject({ id: 'deploy-b' })
+  })
+
+  it('should renew the lock by heartbeat and take over expired locks', async () => {
+    const config = { ttl: 1000, heartbeatInterval: 100 }
+    const first = await DeploymentLock.acquire('deploy-a', 'deploy', { ...production, config: { ...config, file: { dir: '.deploy-locks' } } })
+
+    await sleep(250)
+    const renewed = await DeploymentLock.getLockInfo(production)
+    expect(renewed!.expiresAt!).toBeGreaterThan(first.expiresAt!)
+
+    // 模拟崩溃进程遗留的过期锁
+    const backend = new FileLockBackend({ dir: join(workDir, '.deploy-locks') })
+    await DeploymentLock.release('deploy-a')
+    await backend.tryAcquire({ ...first, id: 'crashed', expiresAt: Date.now() - 1 })
+
+    expect(await DeploymentLock.isLocked(production)).toBe(false)
+    await expect(DeploymentLock.acquire('deploy-b', 'deploy', production)).resolves.toMatchObject({ id: 'deploy-b' })
+  })
+
+  it('should notify the holder and fail verification when the lock is taken over', async () => {
+    const target = { ...production, config: { ttl: 1000, heartbeatInterval: 100, file: { dir: '.deploy-locks' } } }
+    const lost: LockError[] = []
+    const first = await DeploymentLock.acquire('deploy-a', 'deploy', target, error => lost.push(error))
+    await expect(DeploymentLock.verify('deploy-a')).resolves.toBeUndefined()
+
+    // 其他进程强制释放后接管
+    const backend = new FileLockBackend({ dir: join(workDir, '.deploy-locks') })
+    await backend.forceRelease(first.key)
+    await backend.tryAcquire({ ...first, id: 'other' })
+
+    await expect(DeploymentLock.verify('deploy-a')).rejects.toThrow('shop/production was lost')
+    expect(lost).toHaveLength(1)
+    expect(lost[0]).toBeInstanceOf(LockError)
+  })
+
+  it('should abort the holder when a heartbeat finds the lock lost', async () => {
+    const target = { ...production, config: { ttl: 1000, heartbeatInterval: 50, file: { dir: '.deploy-locks' } } }
+    const controller = new AbortController()
+    const first = await DeploymentLock.acquire('deploy-a', 'deploy', target, error => controller.abort(error))
+
+    const backend = new FileLockBackend({ dir: join(workDir, '.deploy-locks') })
+    await backend.forceRelease(first.key)
+    await backend.tryAcquire({ ...first, id: 'other' })
+    await sleep(200)
+
+    expect(controller.signal.aborted).toBe(true)
+    expect(controller.signal.reason).toBeInstanceOf(LockError)
+  })
+})
@@ -0,0 +1,14 @@
+/**
+ * 部署锁模块
+ * @module lock
+ *
+ * @description 部署锁的可插拔后端：本地文件、Kubernetes Lease、Redis、S3 条件写入
+ */
+
+export * from './LockBackend.js'
+export * from './FileLockBackend.js'
+export * from './KubernetesLeaseLockBackend.js'
+export * from './RedisLockBackend.js'
+export * from './S3LockBackend.js'
+export { DeploymentLock, createLockBackend } from '../utils/lock.js'
+export type { LockTarget } from '../utils/lock.js'
@@ -0,0 +1,169 @@
+/**
+ * 基线指标对比
+ * @module monitoring/BaselineComparator
+ *
+ * @description 在同一时间窗口内采样基线与候选版本的指标序列，
+ * 使用单侧 Mann-Whitney U 检验判断候选版本是否相对基线显著劣化；
+ * 允许的上限取相对增幅与绝对容差中的较大者，基线为 0 时不会因零星的错误判定失败；
+ * 错误率无法得出结论时视为失败
+ */
+
+import { logger } from '../utils/logger.js'
+import { mannWhitneyUTest, median } from '../utils/statistics.js'
+import { PrometheusClient } from './PrometheusClient.js'
+import type {
+  CanaryComparisonConfig,
+  CanaryComparisonMetric,
+  CanaryMetricVerdict,
+} from '../types/index.js'
+
+/**
+ * 默认对比指标及允许的相对增幅
+ */
+const DEFAULT_COMPARISON_METRICS: Partial<Record<CanaryComparisonMetric, number>> = {
+  latencyP95: 0.1,
+  errorRate: 0.1,
+}
+
+/**
+ * 默认绝对容差：延迟 10ms，错误率 1 个百分点
+ */
+const DEFAULT_TOLERANCES: Partial<Record<CanaryComparisonMetric, number>> = {
+  latencyP95: 10,
+  errorRate: 0.01,
+}
+
+/**
+ * 基线对比器类
+ *
+ * @example
+ * ```typescript
+ * const comparator = new BaselineComparator(new PrometheusClient({ url }));
+ * const verdicts = await comparator.compare(
+ *   { app: 'shop', version: '1.0.0' },
+ *   { app: 'shop', version: '1.1.0' },
+ *   300,
+ *   { metrics: { latencyP95: 0.1 } }
+ * );
+ * ```
+ */
+export class BaselineComparator {
+  private client: PrometheusClient
+
+  constructor(client: PrometheusClient) {
+    this.client = client
+  }
+
+  /**
+   * 对比基线与候选版本
+   *
+   * @description 对每个指标检验 H1：候选样本随机大于
+   * max(基线样本 ×（1 + 允许增幅），基线样本 + 绝对容差)，
+   * p 值低于 1 - confidence 判定为失败；样本不足时判定为 inconclusive
+   *
+   * @param baselineLabels - 基线标签选择器
+   * @param candidateLabels - 候选版本标签选择器
+   * @param windowSeconds - 采样窗口（秒），截止到当前
+   * @param config - 对比配置
+   * @param signal - 中止信号
+   * @returns 各指标结论
+   */
+  async compare(
+    baselineLabels: Record<string, string>,
+    candidateLabels: Record<string, string>,
+    windowSeconds: number,
+    config: CanaryComparisonConfig,
+    signal?: AbortSignal
+  ): Promise<CanaryMetricVerdict[]> {
+    const increases = config.metrics || DEFAULT_COMPARISON_METRICS
+    const tolerances = { ...DEFAULT_TOLERANCES, ...config.tolerances }
+    const metrics = Object.keys(increases) as CanaryComparisonMetric[]
+    const alpha = 1 - (config.confidence ?? 0.95)
+    const minSamples = config.minSamples ?? 5
+    const step = config.step ?? 10
+
+    const end = new Date()
+    const start = new Date(end.getTime() - windowSeconds * 1000)
+
+    const [baseline, candidate] = await Promise.all([
+      this.client.collectMetricSamples(baselineLabels, metrics, start, end, step, signal),
+      this.client.collectMetricSamples(candidateLabels, metrics, start, end, step, signal),
+    ])
+
+    return metrics.map(metric => {
+      const maxIncrease = increases[metric]!
+      const tolerance = tolerances[metric] ?? 0
+      const baselineSamples = baseline[metric]
+      const candidateSamples = candidate[metric]
+      const baselineMedian = median(baselineSamples)
+      const candidateMedian = median(candidateSamples)
+
+      const verdict: CanaryMetricVerdict = {
+        metric,
+        verdict: 'inconclusive',
+        baselineMedian,
+        canaryMedian: candidateMedian,
+        relativeChange: this.relativeChange(baselineMedian, candidateMedian),
+        maxIncrease,
+        tolerance,
+        pValue: 1,
+        samples: {
+          baseline: baselineSamples.length,
+          canary: candidateSamples.length,
+        },
+      }
+
+      if (baselineSamples.length < minSamples || candidateSamples.length < minSamples) {
+        logger.warn(`Not enough samples to compare ${metric} (baseline=${baselineSamples.length}, candidate=${candidateSamples.length})`)
+        return verdict
+      }
+
+      const allowed = baselineSamples.map(value => Math.max(value * (1 + maxIncrease), value + tolerance))
+      verdict.pValue = mannWhitneyUTest(candidateSamples, allowed, 'greater').pValue
+      verdict.verdict = verdict.pValue < alpha ? 'fail' : 'pass'
+
+      logger.info(
+        `Compare ${metric}: baseline=${baselineMedian}, candidate=${candidateMedian}, ` +
+        `p=${verdict.pValue.toFixed(4)} -> ${verdict.verdict}`
+      )
+
+      return verdict
+    })
+  }
+
+  /**
+   * 中位数相对变化；基线为 0 时无法计算比例，金丝雀也为 0 时视为没有变化
+   */
+  private relativeChange(baseline: number, candidate: number): number | null {
+    if (baseline > 0) {
+      return (candidate - baseline) / baseline
+    }
+    return candidate > 0 ? null : 0
+  }
+
+  /**
+   * 将失败结论格式化为原因描述
+   *
+   * @description 错误率为 inconclusive 时同样视为失败，避免样本缺失掩盖金丝雀的错误
+   */
+  static describeFailures(verdicts: CanaryMetricVerdict[]): string | undefined {
+    const failed = verdicts.filter(
+      v => v.verdict === 'fail' || (v.verdict === 'inconclusive' && v.metric === 'errorRate')
+    )
+    if (failed.length === 0) {
+      return undefined
+    }
+
+    return failed
+      .map(v => {
+        if (v.verdict === 'inconclusive') {
+          return `${v.metric} inconclusive (samples: baseline=${v.samples.baseline}, canary=${v.samples.canary})`
+        }
+        const allowed = `allowed ${(v.maxIncrease * 100).toFixed(1)}% or +${v.tolerance}, p=${v.pValue.toFixed(4)}`
+        return v.relativeChange === null
+          ? `${v.metric} ${v.canaryMedian} above zero baseline (${allowed})`
+          : `${v.metric} ${(v.relativeChange * 100).toFixed(1)}% above baseline (${allowed})`
+      })
+      .join('; ')
+  }
+}
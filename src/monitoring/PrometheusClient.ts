@@ -0,0 +1,303 @@
+/**
+ * Prometheus 查询客户端
+ * @module monitoring/PrometheusClient
+ *
+ * @description 通过 Prometheus HTTP API 执行 PromQL 查询，并汇总为部署监控指标
+ */
+
+import { NetworkError } from '../utils/errors.js'
+import { logger } from '../utils/logger.js'
+import type {
+  CanaryComparisonMetric,
+  DeploymentMetrics,
+  PrometheusSourceConfig,
+} from '../types/index.js'
+
+/**
+ * 即时查询样本
+ */
+export interface PrometheusSample {
+  metric: Record<string, string>
+  value: number
+  timestamp: number
+}
+
+/**
+ * 区间查询时间序列
+ */
+export interface PrometheusSeries {
+  metric: Record<string, string>
+  values: Array<{ timestamp: number; value: number }>
+}
+
+const DEFAULT_REQUEST_METRIC = 'http_requests_total'
+const DEFAULT_LATENCY_METRIC = 'http_request_duration_seconds_bucket'
+const DEFAULT_STATUS_LABEL = 'status'
+
+/**
+ * Prometheus 客户端类
+ *
+ * @example
+ * ```typescript
+ * const client = new PrometheusClient({ url: 'http://prometheus:9090' });
+ * const metrics = await client.collectDeploymentMetrics({ app: 'shop', version: '1.1.0' }, 60);
+ * console.log(metrics.errorRate, metrics.latency.p95);
+ * ```
+ */
+export class PrometheusClient {
+  private config: PrometheusSourceConfig
+
+  constructor(config: PrometheusSourceConfig) {
+    this.config = config
+  }
+
+  /**
+   * 执行即时查询
+   *
+   * @param promql - PromQL 表达式
+   * @param time - 查询时间点，默认当前
+   * @param signal - 中止信号
+   */
+  async query(promql: string, time?: Date, signal?: AbortSignal): Promise<PrometheusSample[]> {
+    const params = new URLSearchParams({ query: promql })
+    if (time) {
+      params.set('time', String(time.getTime() / 1000))
+    }
+
+    const data = await this.request('/api/v1/query', params, signal)
+
+    switch (data.resultType) {
+      case 'vector':
+        return (data.result as any[]).map(item => this.toSample(item.metric || {}, item.value))
+      case 'scalar':
+        return [this.toSample({}, data.result)]
+      default:
+        throw new NetworkError(`Unsupported Prometheus result type: ${data.resultType}`, {
+          url: this.config.url,
+        })
+    }
+  }
+
+  /**
+   * 执行区间查询
+   *
+   * @param promql - PromQL 表达式
+   * @param start - 起始时间
+   * @param end - 结束时间
+   * @param stepSeconds - 采样间隔（秒）
+   * @param signal - 中止信号
+   */
+  async queryRange(
+    promql: string,
+    start: Date,
+    end: Date,
+    stepSeconds: number,
+    signal?: AbortSignal
+  ): Promise<PrometheusSeries[]> {
+    const params = new URLSearchParams({
+      query: promql,
+      start: String(start.getTime() / 1000),
+      end: String(end.getTime() / 1000),
+      step: `${Math.max(1, Math.round(stepSeconds))}s`,
+    })
+
+    const data = await this.request('/api/v1/query_range', params, signal)
+
+    if (data.resultType !== 'matrix') {
+      throw new NetworkError(`Unsupported Prometheus result type: ${data.resultType}`, {
+        url: this.config.url,
+      })
+    }
+
+    return (data.result as any[]).map(item => ({
+      metric: item.metric || {},
+      values: (item.values as Array<[number, string]>).map(([timestamp, value]) => ({
+        timestamp,
+        value: parseFloat(value),
+      })),
+    }))
+  }
+
+  /**
+   * 查询单个数值（取第一个样本），无数据或 NaN 时返回 null
+   */
+  async queryValue(promql: string, signal?: AbortSignal): Promise<number | null> {
+    const samples = await this.query(promql, undefined, signal)
+    const value = samples[0]?.value
+
+    return value === undefined || Number.isNaN(value) ? null : value
+  }
+
+  /**
+   * 收集指定工作负载在窗口期内的部署指标
+   *
+   * @description 窗口期内没有请求时 noData 为 true（错误率查询为 0/0）；
+   * 有请求但没有 5xx 序列时错误率为 0
+   *
+   * @param labels - 标签选择器
+   * @param windowSeconds - rate 窗口（秒）
+   * @param signal - 中止信号
+   */
+  async collectDeploymentMetrics(
+    labels: Record<string, string>,
+    windowSeconds: number,
+    signal?: AbortSignal
+  ): Promise<DeploymentMetrics> {
+    const queries = this.buildMetricQueries(labels, windowSeconds)
+
+    const [requestRate, errorRate, p50, p95, p99] = await Promise.all([
+      this.queryValue(queries.requestRate, signal),
+      this.queryValue(queries.errorRate, signal),
+      this.queryValue(queries.latencyP50, signal),
+      this.queryValue(queries.latencyP95, signal),
+      this.queryValue(queries.latencyP99, signal),
+    ])
+
+    const noData = !requestRate
+    if (noData) {
+      logger.warn(`No traffic observed for ${PrometheusClient.buildSelector(labels)} in the last ${windowSeconds}s`)
+    }
+
+    return {
+      requestRate: requestRate ?? 0,
+      errorRate: errorRate ?? 0,
+      latency: {
+        p50: this.toMs(p50),
+        p95: this.toMs(p95),
+        p99: this.toMs(p99),
+      },
+      availability: 1 - (errorRate ?? 0),
+      noData: noData || undefined,
+      timestamp: new Date().toISOString(),
+    }
+  }
+
+  /**
+   * 采样指定工作负载在时间区间内的指标序列，用于统计对比
+   *
+   * @description 延迟单位为毫秒；NaN 样本（如无流量时的错误率）会被丢弃
+   *
+   * @param labels - 标签选择器
+   * @param metrics - 需要采样的指标
+   * @param start - 起始时间
+   * @param end - 结束时间
+   * @param stepSeconds - 采样间隔（秒），同时作为 rate 窗口
+   * @param signal - 中止信号
+   */
+  async collectMetricSamples(
+    labels: Record<string, string>,
+    metrics: CanaryComparisonMetric[],
+    start: Date,
+    end: Date,
+    stepSeconds: number,
+    signal?: AbortSignal
+  ): Promise<Record<CanaryComparisonMetric, number[]>> {
+    const queries = this.buildMetricQueries(labels, stepSeconds)
+    const samples = {} as Record<CanaryComparisonMetric, number[]>
+
+    await Promise.all(metrics.map(async metric => {
+      const series = await this.queryRange(queries[metric], start, end, stepSeconds, signal)
+      const values = (series[0]?.values || [])
+        .map(sample => sample.value)
+        .filter(value => !Number.isNaN(value))
+
+      samples[metric] = metric === 'errorRate' ? values : values.map(value => this.toMs(value))
+    }))
+
+    return samples
+  }
+
+  /**
+   * 构建 PromQL 标签选择器，例如 {app="shop",version="1.1.0"}
+   */
+  static buildSelector(labels: Record<string, string>, extra: string[] = []): string {
+    const matchers = Object.entries(labels).map(
+      ([name, value]) => `${name}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+    )
+    return `{${[...matchers, ...extra].join(',')}}`
+  }
+
+  /**
+   * 调用 Prometheus HTTP API
+   *
+   * @description 请求超时或中止信号触发时中断请求；因中止信号失败时以信号的原因拒绝
+   */
+  private async request(path: string, params: URLSearchParams, signal?: AbortSignal): Promise<any> {
+    const url = `${this.config.url.replace(/\/$/, '')}${path}?${params.toString()}`
+    const timeout = AbortSignal.timeout(this.config.timeout || 10000)
+
+    let response: Response
+    try {
+      response = await fetch(url, {
+        headers: this.config.headers,
+        signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+      })
+    } catch (error: any) {
+      if (signal?.aborted) {
+        throw signal.reason
+      }
+      throw new NetworkError(`Prometheus request failed: ${error.message}`, {
+        url: this.config.url,
+        cause: error,
+      })
+    }
+
+    const body: any = await response.json().catch(() => null)
+
+    if (!response.ok || !body || body.status !== 'success') {
+      throw new NetworkError(`Prometheus query failed: ${body?.error || response.statusText}`, {
+        url: this.config.url,
+        statusCode: response.status,
+        details: { query: params.get('query') },
+      })
+    }
+
+    return body.data
+  }
+
+  /**
+   * 构建请求量、错误率与延迟分位数查询（延迟单位为秒）
+   *
+   * @description 错误率分子在没有 5xx 序列时补 0（有流量无错误得到 0），
+   * 分母仍为原始请求量，无流量时结果为 NaN 或空
+   */
+  buildMetricQueries(
+    labels: Record<string, string>,
+    windowSeconds: number
+  ): Record<CanaryComparisonMetric | 'requestRate', string> {
+    const requestMetric = this.config.requestMetric || DEFAULT_REQUEST_METRIC
+    const latencyMetric = this.config.latencyMetric || DEFAULT_LATENCY_METRIC
+    const statusLabel = this.config.statusLabel || DEFAULT_STATUS_LABEL
+
+    const selector = PrometheusClient.buildSelector(labels)
+    const errorSelector = PrometheusClient.buildSelector(labels, [`${statusLabel}=~"5.."`])
+    const window = `${Math.max(1, Math.round(windowSeconds))}s`
+
+    const requestRate = `sum(rate(${requestMetric}${selector}[${window}]))`
+    const latency = (quantile: number) =>
+      `histogram_quantile(${quantile}, sum by (le) (rate(${latencyMetric}${selector}[${window}])))`
+
+    return {
+      requestRate,
+      errorRate: `(sum(rate(${requestMetric}${errorSelector}[${window}])) or vector(0)) / ${requestRate}`,
+      latencyP50: latency(0.5),
+      latencyP95: latency(0.95),
+      latencyP99: latency(0.99),
+    }
+  }
+
+  /**
+   * 秒转毫秒（保留两位小数）
+   */
+  private toMs(seconds: number | null): number {
+    return seconds === null ? 0 : Math.round(seconds * 1000 * 100) / 100
+  }
+
+  private toSample(metric: Record<string, string>, value: [number, string]): PrometheusSample {
+    return {
+      metric,
+      value: parseFloat(value[1]),
+      timestamp: value[0],
+    }
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * BaselineComparator 测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import { BaselineComparator } from '../BaselineComparator.js'
+import { PrometheusClient } from '../PrometheusClient.js'
+import type { CanaryComparisonMetric } from '../../types/index.js'
+
+/**
+ * 按 version 标签返回固定样本的 Prometheus 客户端
+ */
+function createClient(samples: Record<string, Partial<Record<CanaryComparisonMetric, number[]>>>): PrometheusClient {
+  const client = new PrometheusClient({ url: 'http://prometheus.invalid' })
+  client.collectMetricSamples = async (labels, metrics) =>
+    Object.fromEntries(metrics.map(metric => [metric, samples[labels.version]?.[metric] || []])) as any
+  return client
+}
+
+const baseline = { app: 'shop', version: '1.0.0' }
+const candidate = { app: 'shop', version: '1.1.0' }
+const noErrors = [0, 0, 0, 0, 0, 0, 0, 0]
+
+describe('BaselineComparator', () => {
+  it('should tolerate sporadic errors against a zero baseline', async () => {
+    const comparator = new BaselineComparator(createClient({
+      '1.0.0': { errorRate: noErrors },
+      '1.1.0': { errorRate: [0, 0, 0.004, 0, 0, 0.002, 0, 0.003] },
+    }))
+
+    const [verdict] = await comparator.compare(baseline, candidate, 300, { metrics: { errorRate: 0.1 } })
+
+    expect(verdict).toMatchObject({ verdict: 'pass', baselineMedian: 0, relativeChange: 0, tolerance: 0.01 })
+  })
+
+  it('should fail and describe errors above the tolerance of a zero baseline', async () => {
+    const comparator = new BaselineComparator(createClient({
+      '1.0.0': { errorRate: noErrors },
+      '1.1.0': { errorRate: [0.05, 0.04, 0.06, 0.05, 0.05, 0.04, 0.06, 0.05] },
+    }))
+
+    const verdicts = await comparator.compare(baseline, candidate, 300, {
+      metrics: { errorRate: 0.1 },
+      tolerances: { errorRate: 0.02 },
+    })
+
+    expect(verdicts[0]).toMatchObject({ verdict: 'fail', relativeChange: null, tolerance: 0.02 })
+    expect(BaselineComparator.describeFailures(verdicts)).toMatch(
+      /^errorRate 0\.05 above zero baseline \(allowed 10\.0% or \+0\.02, p=0\.0\d+\)$/
+    )
+  })
+})
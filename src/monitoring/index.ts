@@ -3,6 +3,8 @@
  */
 
 export * from './PrometheusIntegration.js'
+export * from './PrometheusClient.js'
+export * from './BaselineComparator.js'
 export * from './ResourceMonitor.js'
 
 
@@ -0,0 +1,262 @@
+/**
+ * 插件管理器
+ * @module plugins/PluginManager
+ *
+ * @description 加载配置中的插件（包名或模块路径）与以编程方式传入的插件对象，
+ * 插件在 setup 中注册 CLI 命令、通知器、模板与部署平台，并通过生命周期钩子参与部署。
+ * 插件加载失败或钩子抛出错误只记录警告，不会中断部署
+ */
+
+import { createRequire } from 'module'
+import { isAbsolute, join, resolve } from 'path'
+import { pathToFileURL } from 'url'
+import { NotificationManager } from '../notifications/NotificationManager.js'
+import { TemplateRegistry } from '../templates/TemplateRegistry.js'
+import { readConfigDocument } from '../utils/config-format.js'
+import { ConfigError } from '../utils/errors.js'
+import { logger } from '../utils/logger.js'
+import type {
+  DeployConfig,
+  DeployResult,
+  DeployerPlugin,
+  PlatformProvider,
+  PluginCommand,
+  PluginContext,
+  PluginFailure,
+  PluginHookName,
+  PluginHooks,
+  PluginSpec,
+} from '../types/index.js'
+
+const BUILTIN_PLATFORMS = ['docker', 'kubernetes', 'docker-compose']
+
+/**
+ * 插件管理器构造选项
+ */
+export interface PluginManagerOptions {
+  /** 工作目录，插件包与相对路径从这里解析，默认为当前目录 */
+  workDir?: string
+  /** 插件通知器注册到的通知管理器，默认新建 */
+  notificationManager?: NotificationManager
+  /** 插件模板注册到的模板注册表，默认为全局注册表 */
+  templateRegistry?: TemplateRegistry
+}
+
+/**
+ * 插件管理器类
+ *
+ * @example
+ * ```typescript
+ * const plugins = new PluginManager();
+ * await plugins.load(['@acme/deployer-plugin-x', myPlugin]);
+ * await plugins.runHook('configResolved', config);
+ * ```
+ */
+export class PluginManager {
+  private workDir: string
+  private notificationManager: NotificationManager
+  private templateRegistry: TemplateRegistry
+  private plugins: DeployerPlugin[] = []
+  /** 已加载的插件配置项（包名或路径），重复加载时跳过 */
+  private loadedSpecs = new Set<string>()
+  private commands: PluginCommand[] = []
+  private platforms = new Map<string, PlatformProvider>()
+  private failures: PluginFailure[] = []
+
+  constructor(options: PluginManagerOptions = {}) {
+    this.workDir = options.workDir || process.cwd()
+    this.notificationManager = options.notificationManager || new NotificationManager()
+    this.templateRegistry = options.templateRegistry || TemplateRegistry.getInstance()
+  }
+
+  /**
+   * 加载插件
+   *
+   * @param plugins - 配置中的插件（包名、模块路径或 [名称, 选项]）或插件对象
+   * @description 已加载的包名或路径不会重复加载；单个插件加载失败只记录警告
+   */
+  async load(plugins: Array<PluginSpec | DeployerPlugin> = []): Promise<void> {
+    for (const item of plugins) {
+      if (typeof item === 'string' || Array.isArray(item)) {
+        const [id, options] = typeof item === 'string' ? [item, {}] : item
+        if (this.loadedSpecs.has(id)) {
+          continue
+        }
+        this.loadedSpecs.add(id)
+
+        try {
+          await this.use(await this.resolvePlugin(id, options))
+        } catch (error: any) {
+          this.recordFailure(id, 'load', error)
+        }
+      } else {
+        await this.use(item)
+      }
+    }
+  }
+
+  /**
+   * 注册插件对象并执行其 setup
+   *
+   * @description 同一插件对象只注册一次；setup 失败时记录警告，已注册的钩子仍然生效
+   */
+  async use(plugin: DeployerPlugin): Promise<void> {
+    if (this.plugins.includes(plugin)) {
+      return
+    }
+    if (!plugin?.name) {
+      throw new ConfigError('插件缺少 name', { field: 'plugins' })
+    }
+
+    this.plugins.push(plugin)
+    logger.debug(`Plugin loaded: ${plugin.name}`)
+
+    if (plugin.setup) {
+      try {
+        await plugin.setup(this.createContext(plugin))
+      } catch (error: any) {
+        this.recordFailure(plugin.name, 'setup', error)
+      }
+    }
+  }
+
+  /**
+   * 依次执行所有插件的钩子
+   *
+   * @description 钩子之间互不影响：某个插件的钩子抛出错误时记录警告并继续执行其余插件
+   */
+  async runHook<K extends PluginHookName>(hook: K, ...args: Parameters<NonNullable<PluginHooks[K]>>): Promise<void> {
+    for (const plugin of this.plugins) {
+      const handler = plugin[hook] as ((...params: any[]) => void | Promise<void>) | undefined
+      if (!handler) {
+        continue
+      }
+
+      try {
+        await handler.apply(plugin, args)
+      } catch (error: any) {
+        this.recordFailure(plugin.name, hook, error)
+      }
+    }
+  }
+
+  /**
+   * 向插件注册的通知器发送部署通知，发送失败只记录警告
+   */
+  async notifyDeployment(config: DeployConfig, result: DeployResult, duration: number): Promise<void> {
+    if (this.notificationManager.count() === 0) {
+      return
+    }
+
+    try {
+      await this.notificationManager.sendDeployment({
+        title: `${config.name}@${config.version} → ${config.environment}`,
+        message: result.message,
+        level: result.success ? 'success' : 'error',
+        appName: config.name,
+        version: config.version,
+        environment: config.environment,
+        success: result.success,
+        duration,
+        error: result.success ? undefined : result.message,
+      })
+    } catch (error: any) {
+      logger.warn(`Failed to send plugin notifications: ${error.message}`)
+    }
+  }
+
+  /**
+   * 获取插件注册的部署平台
+   */
+  getPlatform(name: string): PlatformProvider | undefined {
+    return this.platforms.get(name)
+  }
+
+  /**
+   * 获取插件注册的 CLI 命令
+   */
+  getCommands(): PluginCommand[] {
+    return [...this.commands]
+  }
+
+  /**
+   * 获取已加载的插件
+   */
+  getPlugins(): DeployerPlugin[] {
+    return [...this.plugins]
+  }
+
+  /**
+   * 获取插件加载与钩子执行的失败记录
+   */
+  getFailures(): PluginFailure[] {
+    return [...this.failures]
+  }
+
+  /**
+   * 获取插件通知器所在的通知管理器
+   */
+  getNotificationManager(): NotificationManager {
+    return this.notificationManager
+  }
+
+  /**
+   * 解析插件模块：相对路径从工作目录加载（支持 TS），包名从工作目录的 node_modules 解析。
+   * 默认导出可以是插件对象，也可以是接收插件选项的工厂函数
+   */
+  private async resolvePlugin(id: string, options: Record<string, any>): Promise<DeployerPlugin> {
+    let exported: any
+
+    if (id.startsWith('.') || isAbsolute(id)) {
+      exported = (await readConfigDocument(resolve(this.workDir, id))).data
+    } else {
+      const path = createRequire(join(this.workDir, 'package.json')).resolve(id)
+      const module = await import(pathToFileURL(path).href)
+      exported = module.default || module
+    }
+
+    const plugin = typeof exported === 'function' ? await exported(options) : exported
+    if (!plugin || typeof plugin !== 'object' || !plugin.name) {
+      throw new ConfigError(`插件 ${id} 没有导出有效的插件对象`, {
+        field: 'plugins',
+        suggestion: '插件模块的默认导出应为包含 name 的插件对象，或返回插件对象的函数',
+      })
+    }
+
+    return plugin
+  }
+
+  /**
+   * 创建 setup 阶段的注册接口
+   */
+  private createContext(plugin: DeployerPlugin): PluginContext {
+    return {
+      workDir: this.workDir,
+      registerCommand: command => {
+        this.commands.push(command)
+      },
+      registerNotifier: notifier => {
+        this.notificationManager.addNotifier(notifier)
+      },
+      registerTemplate: template => {
+        this.templateRegistry.register(template)
+      },
+      registerPlatform: platform => {
+        if (BUILTIN_PLATFORMS.includes(platform.name)) {
+          throw new ConfigError(`插件 ${plugin.name} 不能覆盖内置平台: ${platform.name}`, { field: 'plugins' })
+        }
+        const existing = this.platforms.get(platform.name)
+        if (existing && existing !== platform) {
+          throw new ConfigError(`部署平台 ${platform.name} 已被其他插件注册`, { field: 'plugins' })
+        }
+        this.platforms.set(platform.name, platform)
+      },
+    }
+  }
+
+  private recordFailure(plugin: string, hook: PluginFailure['hook'], error: any): void {
+    const message = error?.message || String(error)
+    this.failures.push({ plugin, hook, error: message })
+    logger.warn(`Plugin ${plugin} failed in ${hook}: ${message}`)
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * PluginManager 测试
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtemp, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { PluginManager } from '../PluginManager.js'
+import { Deployer } from '../../core/Deployer.js'
+import { ConsoleNotifier } from '../../notifications/ConsoleNotifier.js'
+import { DeployConfigSchema } from '../../utils/schema.js'
+import type { TemplateRegistry } from '../../templates/TemplateRegistry.js'
+import type { DeployConfig, DeployerPlugin } from '../../types/index.js'
+
+const config: DeployConfig = {
+  name: 'shop',
+  version: '1.2.0',
+  environment: 'staging',
+  platform: 'fly',
+  projectType: 'node',
+  plugins: [['./deployer-plugin-fly.mjs', { region: 'fra' }]],
+}
+
+const PLUGIN_MODULE = `
+export default (options) => ({
+  name: 'deployer-plugin-fly',
+  setup(ctx) {
+    ctx.registerCommand({ name: 'fly:status', description: 'Show Fly.io status', action: () => {} })
+    ctx.registerPlatform({
+      name: 'fly',
+      deploy: async (config, { dryRun }) => ({
+        success: true,
+        message: \`deployed to \${options.region}\${dryRun ? ' (dry run)' : ''}\`,
+        version: config.version,
+        timestamp: new Date().toISOString(),
+        environment: config.environment,
+        platform: 'fly',
+      }),
+    })
+  },
+})
+`
+
+describe('PluginManager', () => {
+  let workDir: string
+
+  beforeEach(async () => {
+    workDir = await mkdtemp(join(tmpdir(), 'deployer-plugins-'))
+    await writeFile(join(workDir, 'deployer-plugin-fly.mjs'), PLUGIN_MODULE)
+  })
+
+  afterEach(async () => {
+    await rm(workDir, { recursive: true, force: true })
+  })
+
+  it('should load plugin modules and objects and collect their registrations', async () => {
+    const templates = { register: vi.fn() }
+    const manager = new PluginManager({ workDir, templateRegistry: templates as unknown as TemplateRegistry })
+    const template = { metadata: { id: 'fly-node' }, generate: () => ({}) } as any
+
+    const local: DeployerPlugin = {
+      name: 'local',
+      setup(ctx) {
+        ctx.registerNotifier(new ConsoleNotifier())
+        ctx.registerTemplate(template)
+      },
+    }
+
+    await manager.load([['./deployer-plugin-fly.mjs', { region: 'fra' }], local, '@acme/deployer-plugin-missing'])
+    await manager.load(['./deployer-plugin-fly.mjs', local])
+
+    expect(manager.getPlugins().map(plugin => plugin.name)).toEqual(['deployer-plugin-fly', 'local'])
+    expect(manager.getCommands().map(command => command.name)).toEqual(['fly:status'])
+    expect(manager.getPlatform('fly')).toBeDefined()
+    expect(manager.getNotificationManager().count()).toBe(1)
+    expect(templates.register).toHaveBeenCalledWith(template)
+    expect(manager.getFailures()).toEqual([
+      { plugin: '@acme/deployer-plugin-missing', hook: 'load', error: expect.stringContaining('@acme/deployer-plugin-missing') },
+    ])
+  })
+
+  it('should isolate failing hooks and setup', async () => {
+    const manager = new PluginManager({ workDir })
+    const calls: string[] = []
+
+    await manager.load([
+      {
+        name: 'broken',
+        setup: ctx => ctx.registerPlatform({ name: 'docker', deploy: async () => ({}) as any }),
+        beforeDeploy: () => {
+          throw new Error('boom')
+        },
+      },
+      { name: 'healthy', beforeDeploy: ({ config }) => { calls.push(config.name) } },
+    ])
+
+    await manager.runHook('beforeDeploy', { config, dryRun: false })
+
+    expect(calls).toEqual(['shop'])
+    expect(manager.getPlatform('docker')).toBeUndefined()
+    expect(manager.getFailures().map(failure => [failure.plugin, failure.hook])).toEqual([
+      ['broken', 'setup'],
+      ['broken', 'beforeDeploy'],
+    ])
+  })
+
+  it('should run lifecycle hooks and deploy to plugin platforms', async () => {
+    const events: string[] = []
+    const plugin: DeployerPlugin = {
+      name: 'recorder',
+      configResolved: resolved => { events.push(`configResolved:${resolved.name}`) },
+      beforeDeploy: ({ dryRun }) => { events.push(`beforeDeploy:${dryRun}`) },
+      afterDeploy: ({ result }) => { events.push(`afterDeploy:${result.message}`) },
+      onError: ({ error }) => { events.push(`onError:${error.message}`) },
+    }
+
+    const deployer = new Deployer({ workDir, plugins: [plugin] })
+    const result = await deployer.deploy({ config, dryRun: true })
+
+    expect(result).toMatchObject({ success: true, message: 'deployed to fra (dry run)', platform: 'fly' })
+    expect(events).toEqual([
+      'configResolved:shop',
+      'beforeDeploy:true',
+      'afterDeploy:deployed to fra (dry run)',
+    ])
+
+    events.length = 0
+    const failed = await deployer.deploy({ config: { ...config, platform: 'render', plugins: [] }, dryRun: true })
+
+    expect(failed.success).toBe(false)
+    expect(events).toEqual([
+      'configResolved:shop',
+      'beforeDeploy:true',
+      'onError:Unsupported platform: render',
+      'afterDeploy:Unsupported platform: render',
+    ])
+  })
+
+  it('should only accept custom platforms when plugins are configured', () => {
+    expect(DeployConfigSchema.safeParse(config).success).toBe(true)
+
+    const result = DeployConfigSchema.safeParse({ ...config, plugins: undefined })
+    expect(result.success).toBe(false)
+    expect(result.error?.errors[0]).toMatchObject({ path: ['platform'], message: expect.stringContaining('fly') })
+  })
+})
@@ -0,0 +1,8 @@
+/**
+ * 插件模块
+ * @module plugins
+ *
+ * @description 第三方扩展：插件加载、生命周期钩子，以及命令、通知器、模板与部署平台的注册
+ */
+
+export * from './PluginManager.js'
@@ -0,0 +1,254 @@
+/**
+ * 部署策略引擎
+ * @module policy/PolicyEngine
+ *
+ * @description 团队以策略文件声明部署规则（如“生产环境必须设置资源限制”“禁止 latest 标签”），
+ * 规则可以是声明式断言，也可以是 JS/TS 模块中的 evaluate 函数。规则针对解析后的 DeployConfig
+ * 与生成的 Kubernetes 清单执行，error 级别的违反会阻止部署
+ */
+
+import { join, relative, resolve } from 'path'
+import { ManifestGenerator } from '../kubernetes/ManifestGenerator.js'
+import { readConfigDocument, CONFIG_FORMAT_EXTENSIONS } from '../utils/config-format.js'
+import { fileExists } from '../utils/file-system.js'
+import { parseYaml } from '../utils/yaml.js'
+import { ConfigError } from '../utils/errors.js'
+import { checkAssertions } from './assertions.js'
+import type {
+  DeployConfig,
+  PolicyContext,
+  PolicyFinding,
+  PolicyReport,
+  PolicyRuleDefinition,
+  PolicySeverity,
+  PolicyViolation,
+} from '../types/index.js'
+
+const SEVERITIES: PolicySeverity[] = ['error', 'warning', 'info']
+
+/**
+ * 已加载的规则
+ */
+export interface PolicyRule extends PolicyRuleDefinition {
+  /** 规则所在的策略文件 */
+  source?: string
+}
+
+/**
+ * 策略加载选项
+ */
+export interface PolicyLoadOptions {
+  workDir?: string
+}
+
+/**
+ * 策略检查选项
+ */
+export interface PolicyEvaluateOptions {
+  /** 参与检查的清单，默认在平台为 kubernetes 时由 ManifestGenerator 生成 */
+  manifests?: Record<string, any>[]
+}
+
+/**
+ * 部署策略引擎类
+ *
+ * @example
+ * ```typescript
+ * const engine = await PolicyEngine.load(config);
+ * const report = await engine.evaluate(config);
+ * if (!report.passed) {
+ *   console.log(report.violations);
+ * }
+ * ```
+ */
+export class PolicyEngine {
+  private rules: PolicyRule[] = []
+  private disabled: string[]
+
+  constructor(rules: PolicyRule[] = [], options: { disabled?: string[] } = {}) {
+    this.disabled = options.disabled || []
+    rules.forEach(rule => this.addRule(rule))
+  }
+
+  /**
+   * 加载配置中的策略文件（policy.files，默认 <workDir>/deploy.policy.*）
+   *
+   * @throws {ConfigError} 策略文件不存在或规则无效
+   */
+  static async load(config: DeployConfig, options: PolicyLoadOptions = {}): Promise<PolicyEngine> {
+    const workDir = options.workDir || process.cwd()
+    const engine = new PolicyEngine([], { disabled: config.policy?.disabled })
+
+    for (const file of this.findPolicyFiles(config, workDir)) {
+      const { data } = await readConfigDocument(file)
+      const rules: PolicyRuleDefinition[] | undefined = Array.isArray(data) ? data : data?.rules
+
+      if (!Array.isArray(rules)) {
+        throw new ConfigError(`策略文件缺少 rules 数组: ${relative(workDir, file)}`, {
+          details: { path: file },
+        })
+      }
+
+      rules.forEach(rule => engine.addRule({ ...rule, source: relative(workDir, file) }))
+    }
+
+    return engine
+  }
+
+  /**
+   * 添加规则
+   *
+   * @throws {ConfigError} 规则无效或 ID 重复
+   */
+  addRule(rule: PolicyRule): void {
+    const location = { ruleId: rule.id, path: rule.source }
+
+    if (!rule.id) {
+      throw new ConfigError('策略规则缺少 id', { details: location })
+    }
+    if (!rule.assert && typeof rule.evaluate !== 'function') {
+      throw new ConfigError(`策略规则 ${rule.id} 需要 assert 或 evaluate`, { details: location })
+    }
+    if (rule.severity && !SEVERITIES.includes(rule.severity)) {
+      throw new ConfigError(`策略规则 ${rule.id} 的 severity 无效: ${rule.severity}`, {
+        details: location,
+        suggestion: `可选值: ${SEVERITIES.join(', ')}`,
+      })
+    }
+    if (this.rules.some(existing => existing.id === rule.id)) {
+      throw new ConfigError(`策略规则 ID 重复: ${rule.id}`, { details: location })
+    }
+
+    this.rules.push(rule)
+  }
+
+  /**
+   * 获取启用的规则
+   */
+  getRules(): PolicyRule[] {
+    return this.rules.filter(rule => !this.disabled.includes(rule.id))
+  }
+
+  /**
+   * 针对配置与清单执行所有规则
+   */
+  async evaluate(config: DeployConfig, options: PolicyEvaluateOptions = {}): Promise<PolicyReport> {
+    const rules = this.getRules().filter(rule => !rule.environments || rule.environments.includes(config.environment))
+    const context: PolicyContext = {
+      config,
+      environment: config.environment,
+      manifests: options.manifests || (rules.length > 0 ? this.generateManifests(config) : []),
+    }
+
+    const violations: PolicyViolation[] = []
+    for (const rule of rules) {
+      const findings = rule.evaluate ? await this.runEvaluate(rule, context) : this.runAssertions(rule, context)
+
+      violations.push(...findings.map(finding => ({
+        ruleId: rule.id,
+        severity: rule.severity || 'error',
+        source: rule.source,
+        ...finding,
+      })))
+    }
+
+    return {
+      passed: !violations.some(violation => violation.severity === 'error'),
+      environment: config.environment,
+      rules: rules.map(rule => ({
+        id: rule.id,
+        description: rule.description,
+        severity: rule.severity || 'error',
+        source: rule.source,
+      })),
+      violations,
+    }
+  }
+
+  /**
+   * 查找策略文件：配置的 policy.files，否则使用工作目录下的 deploy.policy.*
+   */
+  private static findPolicyFiles(config: DeployConfig, workDir: string): string[] {
+    if (config.policy?.files) {
+      return config.policy.files.map(file => {
+        const path = resolve(workDir, file)
+        if (!fileExists(path)) {
+          throw new ConfigError(`策略文件不存在: ${file}`, { field: 'policy.files', details: { path } })
+        }
+        return path
+      })
+    }
+
+    const file = Object.keys(CONFIG_FORMAT_EXTENSIONS)
+      .map(extension => join(workDir, `deploy.policy${extension}`))
+      .find(path => fileExists(path))
+
+    return file ? [file] : []
+  }
+
+  private runAssertions(rule: PolicyRule, context: PolicyContext): PolicyFinding[] {
+    const describe = (reason: string) => rule.message || `${rule.description || rule.id}: ${reason}`
+
+    if (rule.target !== 'manifest') {
+      if (rule.when && checkAssertions(context.config, rule.when).length > 0) {
+        return []
+      }
+      return checkAssertions(context.config, rule.assert).map(failure => ({
+        message: describe(`${failure.path} ${failure.reason}`),
+        path: failure.path,
+      }))
+    }
+
+    const kinds = rule.kind ? [rule.kind].flat() : undefined
+
+    return context.manifests
+      .filter(manifest => !kinds || kinds.includes(manifest.kind))
+      .filter(manifest => !rule.when || checkAssertions(manifest, rule.when).length === 0)
+      .flatMap(manifest => {
+        const resource = `${manifest.kind}/${manifest.metadata?.name}`
+        return checkAssertions(manifest, rule.assert).map(failure => ({
+          message: describe(`${resource} ${failure.path} ${failure.reason}`),
+          path: failure.path,
+          resource,
+        }))
+      })
+  }
+
+  private async runEvaluate(rule: PolicyRule, context: PolicyContext): Promise<PolicyFinding[]> {
+    let result: Awaited<ReturnType<NonNullable<PolicyRule['evaluate']>>>
+
+    try {
+      result = await rule.evaluate!(context)
+    } catch (error: any) {
+      return [{ message: `${rule.id}: rule failed to evaluate: ${error.message}` }]
+    }
+
+    const fallback = rule.message || rule.description || rule.id
+
+    if (result === undefined || result === true) {
+      return []
+    }
+    if (result === false) {
+      return [{ message: fallback }]
+    }
+    if (typeof result === 'string') {
+      return [{ message: result }]
+    }
+    return result.map(finding => typeof finding === 'string' ? { message: finding } : finding)
+  }
+
+  /**
+   * 生成 Kubernetes 清单并解析为对象
+   */
+  private generateManifests(config: DeployConfig): Record<string, any>[] {
+    if (config.platform !== 'kubernetes') {
+      return []
+    }
+
+    return new ManifestGenerator()
+      .generateAll(config)
+      .split(/^---$/m)
+      .filter(document => document.trim())
+      .map(document => parseYaml(document).data)
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * PolicyEngine 测试
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { PolicyEngine } from '../PolicyEngine.js'
+import { resolvePath } from '../assertions.js'
+import { toSarif } from '../sarif.js'
+import { ConfigError } from '../../utils/errors.js'
+import type { DeployConfig } from '../../types/index.js'
+
+const config: DeployConfig = {
+  name: 'shop',
+  version: '1.2.0',
+  environment: 'production',
+  platform: 'kubernetes',
+  projectType: 'node',
+  docker: { image: 'shop', tag: 'latest' },
+  kubernetes: {
+    namespace: 'prod',
+    deployment: { replicas: 1 },
+    ingress: { enabled: true, host: 'shop.example.com' },
+  },
+}
+
+const POLICY_YAML = `
+rules:
+  - id: prod-replicas
+    description: production needs at least 2 replicas
+    environments: [production]
+    assert:
+      path: kubernetes.deployment.replicas
+      min: 2
+  - id: no-latest-tag
+    severity: warning
+    assert:
+      path: docker.tag
+      notEquals: latest
+  - id: resource-limits
+    target: manifest
+    kind: Deployment
+    assert:
+      path: spec.template.spec.containers[*].resources.limits
+      exists: true
+  - id: ingress-tls
+    target: manifest
+    kind: Ingress
+    assert:
+      path: spec.tls
+      exists: true
+  - id: staging-only
+    environments: [staging]
+    assert:
+      path: name
+      equals: nothing
+`
+
+describe('PolicyEngine', () => {
+  let workDir: string
+
+  beforeEach(async () => {
+    workDir = await mkdtemp(join(tmpdir(), 'deployer-policy-'))
+  })
+
+  afterEach(async () => {
+    await rm(workDir, { recursive: true, force: true })
+  })
+
+  it('should resolve paths with wildcards', () => {
+    const target = { items: [{ a: 1 }, { a: 2 }, {}] }
+
+    expect(resolvePath(target, 'items[*].a')).toEqual([
+      { path: 'items[0].a', value: 1 },
+      { path: 'items[1].a', value: 2 },
+      { path: 'items[2].a', value: undefined },
+    ])
+    expect(resolvePath(target, 'missing[*].a')).toEqual([{ path: 'missing[*].a', value: undefined }])
+  })
+
+  it('should evaluate declarative rules against the config and generated manifests', async () => {
+    await writeFile(join(workDir, 'deploy.policy.yaml'), POLICY_YAML)
+
+    const engine = await PolicyEngine.load(config, { workDir })
+    const report = await engine.evaluate(config)
+
+    expect(report.passed).toBe(false)
+    expect(report.rules.map(rule => rule.id)).not.toContain('staging-only')
+    expect(report.violations.map(v => [v.ruleId, v.severity, v.resource, v.path])).toEqual([
+      ['prod-replicas', 'error', undefined, 'kubernetes.deployment.replicas'],
+      ['no-latest-tag', 'warning', undefined, 'docker.tag'],
+      ['resource-limits', 'error', 'Deployment/shop', 'spec.template.spec.containers[0].resources.limits'],
+      ['ingress-tls', 'error', 'Ingress/shop', 'spec.tls'],
+    ])
+    expect(report.violations[0]).toMatchObject({
+      message: 'production needs at least 2 replicas: kubernetes.deployment.replicas expected >= 2, got 1',
+      source: 'deploy.policy.yaml',
+    })
+
+    const disabled = await PolicyEngine.load(
+      { ...config, policy: { files: ['deploy.policy.yaml'], disabled: ['prod-replicas', 'resource-limits', 'ingress-tls'] } },
+      { workDir }
+    )
+    expect((await disabled.evaluate(config)).passed).toBe(true)
+  })
+
+  it('should run JS rules and validate rule definitions', async () => {
+    const engine = new PolicyEngine([
+      {
+        id: 'namespace-matches-env',
+        evaluate: ({ config, environment }) =>
+          config.kubernetes?.namespace === environment || `namespace must be ${environment}`,
+      },
+      {
+        id: 'deployments-labelled',
+        severity: 'info',
+        evaluate: ({ manifests }) => manifests
+          .filter(manifest => !manifest.metadata.labels?.team)
+          .map(manifest => ({ message: 'missing team label', resource: `${manifest.kind}/${manifest.metadata.name}` })),
+      },
+      { id: 'broken', evaluate: () => { throw new Error('boom') } },
+    ])
+
+    const report = await engine.evaluate(config, { manifests: [{ kind: 'Deployment', metadata: { name: 'shop' } }] })
+    expect(report.violations.map(v => [v.ruleId, v.message])).toEqual([
+      ['namespace-matches-env', 'namespace must be production'],
+      ['deployments-labelled', 'missing team label'],
+      ['broken', 'broken: rule failed to evaluate: boom'],
+    ])
+
+    expect(() => engine.addRule({ id: 'broken', evaluate: () => true })).toThrow(ConfigError)
+    expect(() => engine.addRule({ id: 'empty' })).toThrow('assert 或 evaluate')
+    await expect(PolicyEngine.load({ ...config, policy: { files: ['missing.yaml'] } }, { workDir }))
+      .rejects.toThrow('missing.yaml')
+  })
+
+  it('should export reports as SARIF', async () => {
+    const engine = new PolicyEngine([
+      { id: 'no-latest-tag', description: 'Pin image tags', severity: 'warning', assert: { path: 'docker.tag', notEquals: 'latest' } },
+      { id: 'ingress-tls', target: 'manifest', kind: 'Ingress', assert: { path: 'spec.tls', exists: true } },
+    ])
+    const report = await engine.evaluate(config)
+
+    const sarif = toSarif(report, { configFile: 'deploy.config.json', version: '0.4.0' })
+    const run = sarif.runs[0]
+
+    expect(sarif.version).toBe('2.1.0')
+    expect(run.tool.driver.rules.map((rule: any) => [rule.id, rule.defaultConfiguration.level]))
+      .toEqual([['no-latest-tag', 'warning'], ['ingress-tls', 'error']])
+    expect(run.results[1]).toMatchObject({
+      ruleId: 'ingress-tls',
+      ruleIndex: 1,
+      level: 'error',
+      locations: [{
+        physicalLocation: { artifactLocation: { uri: 'deploy.config.json' } },
+        logicalLocations: [{ fullyQualifiedName: 'Ingress/shop:spec.tls', kind: 'resource' }],
+      }],
+    })
+  })
+})
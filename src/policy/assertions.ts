@@ -0,0 +1,121 @@
+/**
+ * 策略断言
+ * @module policy/assertions
+ *
+ * @description 按路径取值（支持 `[*]` 通配）并检查声明式断言
+ */
+
+import type { PolicyAssertion } from '../types/index.js'
+
+/**
+ * 路径上的值
+ */
+export interface ResolvedValue {
+  /** 展开通配后的具体路径，如 spec.containers[0].image */
+  path: string
+  value: any
+}
+
+/**
+ * 断言失败
+ */
+export interface AssertionFailure {
+  path: string
+  /** 失败原因，如 "expected >= 2, got 1" */
+  reason: string
+}
+
+/**
+ * 按路径取值，`[*]` 展开为数组的每个元素；路径中途不存在时返回该路径上的 undefined
+ */
+export function resolvePath(target: any, path: string): ResolvedValue[] {
+  const segments = path.match(/[^.[\]]+|\[(\d+|\*)\]/g) || []
+  let results: ResolvedValue[] = [{ path: '', value: target }]
+
+  for (const segment of segments) {
+    const next: ResolvedValue[] = []
+
+    for (const { path: current, value } of results) {
+      if (segment === '[*]') {
+        if (Array.isArray(value)) {
+          value.forEach((item, index) => next.push({ path: `${current}[${index}]`, value: item }))
+        } else if (value === undefined || value === null) {
+          next.push({ path: `${current}[*]`, value: undefined })
+        }
+      } else if (segment.startsWith('[')) {
+        next.push({ path: `${current}${segment}`, value: value?.[Number(segment.slice(1, -1))] })
+      } else {
+        next.push({ path: current ? `${current}.${segment}` : segment, value: value?.[segment] })
+      }
+    }
+
+    results = next
+  }
+
+  return results
+}
+
+/**
+ * 检查断言，返回所有失败项（全部满足时为空数组）
+ */
+export function checkAssertion(target: any, assertion: PolicyAssertion): AssertionFailure[] {
+  const failures: AssertionFailure[] = []
+
+  for (const { path, value } of resolvePath(target, assertion.path)) {
+    const reason = getFailureReason(value, assertion)
+    if (reason) {
+      failures.push({ path, reason })
+    }
+  }
+
+  return failures
+}
+
+/**
+ * 检查多个断言（全部满足）
+ */
+export function checkAssertions(target: any, assertions: PolicyAssertion | PolicyAssertion[] = []): AssertionFailure[] {
+  return (Array.isArray(assertions) ? assertions : [assertions]).flatMap(assertion => checkAssertion(target, assertion))
+}
+
+function getFailureReason(value: any, assertion: PolicyAssertion): string | undefined {
+  const exists = value !== undefined && value !== null
+
+  if (assertion.exists !== undefined && exists !== assertion.exists) {
+    return assertion.exists ? 'is not set' : `must not be set, got ${format(value)}`
+  }
+  if ('equals' in assertion && !isEqual(value, assertion.equals)) {
+    return `expected ${format(assertion.equals)}, got ${format(value)}`
+  }
+  if ('notEquals' in assertion && isEqual(value, assertion.notEquals)) {
+    return `must not be ${format(value)}`
+  }
+  if (assertion.oneOf && !assertion.oneOf.some(item => isEqual(value, item))) {
+    return `expected one of ${assertion.oneOf.map(format).join(', ')}, got ${format(value)}`
+  }
+  if (assertion.notOneOf?.some(item => isEqual(value, item))) {
+    return `must not be ${format(value)}`
+  }
+  if (assertion.matches !== undefined && !new RegExp(assertion.matches).test(String(value ?? ''))) {
+    return `${format(value)} does not match /${assertion.matches}/`
+  }
+  if (assertion.notMatches !== undefined && new RegExp(assertion.notMatches).test(String(value ?? ''))) {
+    return `${format(value)} must not match /${assertion.notMatches}/`
+  }
+  if (assertion.min !== undefined && !(Number(value) >= assertion.min)) {
+    return `expected >= ${assertion.min}, got ${format(value)}`
+  }
+  if (assertion.max !== undefined && !(Number(value) <= assertion.max)) {
+    return `expected <= ${assertion.max}, got ${format(value)}`
+  }
+
+  return undefined
+}
+
+function isEqual(a: any, b: any): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+function format(value: any): string {
+  return value === undefined ? 'undefined' : JSON.stringify(value)
+}
@@ -0,0 +1,10 @@
+/**
+ * 部署策略模块
+ * @module policy
+ *
+ * @description policy-as-code：声明式或 JS 规则，针对配置与生成的清单检查，结果可导出为 SARIF
+ */
+
+export * from './assertions.js'
+export * from './PolicyEngine.js'
+export * from './sarif.js'
@@ -0,0 +1,74 @@
+/**
+ * SARIF 导出
+ * @module policy/sarif
+ *
+ * @description 将策略检查报告转换为 SARIF 2.1.0，可上传到 GitHub Code Scanning 等平台
+ */
+
+import type { PolicyReport, PolicySeverity } from '../types/index.js'
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json'
+
+const SARIF_LEVELS: Record<PolicySeverity, 'error' | 'warning' | 'note'> = {
+  error: 'error',
+  warning: 'warning',
+  info: 'note',
+}
+
+/**
+ * SARIF 导出选项
+ */
+export interface SarifOptions {
+  /** 配置文件（相对仓库根目录），配置规则的违反定位到该文件 */
+  configFile?: string
+  /** 工具版本 */
+  version?: string
+}
+
+/**
+ * 转换为 SARIF 日志
+ */
+export function toSarif(report: PolicyReport, options: SarifOptions = {}): Record<string, any> {
+  const ruleIndex = new Map(report.rules.map((rule, index) => [rule.id, index]))
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'ldesign-deployer',
+            version: options.version,
+            rules: report.rules.map(rule => ({
+              id: rule.id,
+              shortDescription: { text: rule.description || rule.id },
+              defaultConfiguration: { level: SARIF_LEVELS[rule.severity || 'error'] },
+              properties: rule.source ? { source: rule.source } : undefined,
+            })),
+          },
+        },
+        results: report.violations.map(violation => ({
+          ruleId: violation.ruleId,
+          ruleIndex: ruleIndex.get(violation.ruleId),
+          level: SARIF_LEVELS[violation.severity],
+          message: { text: violation.message },
+          locations: [
+            {
+              physicalLocation: options.configFile
+                ? { artifactLocation: { uri: options.configFile.replace(/\\/g, '/') } }
+                : undefined,
+              logicalLocations: [
+                {
+                  fullyQualifiedName: [violation.resource, violation.path].filter(Boolean).join(':') || violation.ruleId,
+                  kind: violation.resource ? 'resource' : 'member',
+                },
+              ],
+            },
+          ],
+          properties: { environment: report.environment },
+        })),
+      },
+    ],
+  }
+}
@@ -5,39 +5,69 @@
 import { logger } from '../utils/logger.js'
 import { VersionHistory } from './VersionHistory.js'
 import { DeploymentManager } from '../kubernetes/DeploymentManager.js'
+import { HookRunner } from '../core/HookRunner.js'
+import { ConfigManager } from '../core/ConfigManager.js'
+import { AuditLogger } from '../utils/audit-log.js'
+import type { PluginManager } from '../plugins/PluginManager.js'
 import { exec } from 'child_process'
 import { promisify } from 'util'
-import type { DeployConfig, DeployResult, RollbackConfig } from '../types/index.js'
+import type { DeployConfig, DeployResult, DeploymentHistory, RollbackConfig } from '../types/index.js'
 
 const execAsync = promisify(exec)
 
 export class RollbackManager {
   private versionHistory: VersionHistory
   private k8sManager: DeploymentManager
+  private plugins?: PluginManager
+  private hookRunner: HookRunner
+  private configManager: ConfigManager
 
-  constructor() {
+  /**
+   * @param options.plugins - 插件管理器：回滚插件注册的平台，并在回滚后执行 onRollback 钩子
+   * @param options.hookRunner - 执行目标版本配置中 preRollback / postRollback 钩子的执行器
+   * @param options.configManager - 解析历史记录中密钥引用的配置管理器，默认使用当前目录
+   */
+  constructor(options: { plugins?: PluginManager; hookRunner?: HookRunner; configManager?: ConfigManager } = {}) {
     this.versionHistory = new VersionHistory()
     this.k8sManager = new DeploymentManager()
+    this.plugins = options.plugins
+    this.hookRunner = options.hookRunner || new HookRunner({ auditLogger: new AuditLogger() })
+    this.configManager = options.configManager || new ConfigManager()
   }
 
   /**
    * 回滚到指定版本
    */
   async rollback(config: RollbackConfig): Promise<DeployResult> {
-    logger.info(`⏪ Rolling back to version: ${config.version || 'previous'}`)
+    logger.info(`⏪ Rolling back to version: ${config.target?.version || config.version || 'previous'}`)
+
+    let target: DeploymentHistory | null = null
+    let result: DeployResult
 
     try {
       // 获取目标版本
-      const targetVersion = config.version
-        ? await this.versionHistory.getVersion(config.version)
-        : await this.versionHistory.getPreviousVersion()
+      const record = config.target
+        || (config.version
+          ? await this.versionHistory.getVersion(config.version)
+          : await this.versionHistory.getPreviousVersion())
 
-      if (!targetVersion) {
+      if (!record) {
         throw new Error('Target version not found in history')
       }
 
+      // 历史记录中只保存密钥引用，重新部署前解析
+      const targetVersion = await this.configManager.resolveReferences(record)
+      target = targetVersion
+
       logger.info(`Target version: ${targetVersion.version}`)
 
+      const hookContext = {
+        config: targetVersion.config,
+        digest: targetVersion.result?.provenance?.digest,
+        rollbackFrom: config.rollbackFrom ?? (await this.versionHistory.getLastSuccessfulDeployment())?.version,
+      }
+      await this.hookRunner.run('preRollback', hookContext)
+
       // 执行回滚
       logger.info('Executing rollback...')
 
@@ -49,16 +79,23 @@ export class RollbackManager {
         case 'kubernetes':
           await this.rollbackKubernetes(targetVersion.config, config.revision)
           break
-        default:
-          throw new Error(`Unsupported platform for rollback: ${targetVersion.config.platform}`)
+        default: {
+          const provider = this.plugins?.getPlatform(targetVersion.config.platform)
+          if (!provider?.rollback) {
+            throw new Error(`Unsupported platform for rollback: ${targetVersion.config.platform}`)
+          }
+          await provider.rollback(targetVersion.config)
+        }
       }
 
       // 记录回滚
       await this.versionHistory.recordRollback(targetVersion.version)
 
+      await this.hookRunner.run('postRollback', hookContext)
+
       logger.success('Rollback completed successfully')
 
-      return {
+      result = {
         success: true,
         message: `Rolled back to version ${targetVersion.version}`,
         version: targetVersion.version,
@@ -69,7 +106,7 @@ export class RollbackManager {
     } catch (error: any) {
       logger.error('Rollback failed:', error.message)
 
-      return {
+      result = {
         success: false,
         message: error.message,
         timestamp: new Date().toISOString(),
@@ -77,6 +114,14 @@ export class RollbackManager {
         platform: 'docker',
       }
     }
+
+    await this.plugins?.runHook('onRollback', {
+      version: target?.version || config.version,
+      result,
+      config: target?.config,
+    })
+
+    return result
   }
 
   /**
@@ -4,6 +4,7 @@
 
 import { readJSON, writeJSON, fileExists } from '../utils/file-system.js'
 import { logger } from '../utils/logger.js'
+import { ConfigInterpolator } from '../core/ConfigInterpolator.js'
 import type { DeploymentHistory } from '../types/index.js'
 import { resolve } from 'path'
 
@@ -33,11 +34,11 @@ export class VersionHistory {
   }
 
   /**
-   * 添加部署记录
+   * 添加部署记录，配置与结果中的密钥值换回 ${secret:name} 引用，重新部署前需用 ConfigManager.resolveReferences 解析
    */
   async addDeployment(record: DeploymentHistory): Promise<void> {
     await this.load()
-    this.history.unshift(record) // 最新的在前面
+    this.history.unshift(ConfigInterpolator.toReferences(record)) // 最新的在前面
 
     // 只保留最近 50 条记录
     if (this.history.length > 50) {
@@ -86,6 +86,7 @@ export class SSHClient {
    * 
    * @param options - 执行选项
    * @returns 执行结果
+   * @throws 中止信号触发时抛出信号的原因
    * 
    * @example
    * ```typescript
@@ -105,6 +106,7 @@ export class SSHClient {
       const { stdout, stderr } = await execAsync(sshCommand, {
         timeout: options.timeout || this.config.timeout,
         maxBuffer: 50 * 1024 * 1024, // 50MB buffer
+        signal: options.signal,
       })
 
       return {
@@ -115,6 +117,11 @@ export class SSHClient {
         duration: Date.now() - startTime,
       }
     } catch (error: any) {
+      // 中止不作为命令失败返回，调用方需要停止后续操作
+      if (options.signal?.aborted) {
+        throw options.signal.reason
+      }
+
       return {
         success: false,
         exitCode: error.code || 1,
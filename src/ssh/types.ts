@@ -83,6 +83,8 @@ export interface SSHExecOptions {
   timeout?: number
   /** 是否实时输出 */
   stream?: boolean
+  /** 中止信号，触发时终止 ssh 进程 */
+  signal?: AbortSignal
 }
 
 /**
@@ -0,0 +1,269 @@
+/**
+ * A/B 测试评估器
+ * @module strategies/ABTestEvaluator
+ *
+ * @description 汇总两个版本的指标，按成功标准做显著性检验并判定胜出版本：
+ * - 比例型指标（转化率等）：两比例 z 检验
+ * - 连续型指标（客单价、延迟等）：Welch t 检验
+ */
+
+import { logger } from '../utils/logger.js'
+import { renderTemplate } from '../utils/template-engine.js'
+import { PrometheusClient } from '../monitoring/PrometheusClient.js'
+import {
+  meanConfidenceInterval,
+  normalQuantile,
+  proportionConfidenceInterval,
+  studentTQuantile,
+  twoProportionZTest,
+  welchTTest,
+} from '../utils/statistics.js'
+import type {
+  ABTestConfig,
+  ABTestEvaluation,
+  ABTestMetricsConfig,
+  ABTestSuccessCriteria,
+  ABTestVariantStats,
+} from '../types/index.js'
+
+/**
+ * A/B 测试指标数据源
+ */
+export interface ABTestMetricsSource {
+  getVariantStats(variant: 'a' | 'b', config: ABTestConfig): Promise<ABTestVariantStats>
+}
+
+const DEFAULT_EXPERIMENT_DURATION = 3600
+
+/**
+ * 基于 Prometheus 查询的指标数据源
+ */
+export class PrometheusABTestMetricsSource implements ABTestMetricsSource {
+  private metrics: ABTestMetricsConfig
+  private client: PrometheusClient
+
+  constructor(metrics: ABTestMetricsConfig) {
+    this.metrics = metrics
+    this.client = new PrometheusClient(metrics.prometheus)
+  }
+
+  async getVariantStats(variant: 'a' | 'b', config: ABTestConfig): Promise<ABTestVariantStats> {
+    const labels = {
+      ...(this.metrics.prometheus.labels || { app: config.appName }),
+      version: variant === 'a' ? config.versionA : config.versionB,
+    }
+    const variables = {
+      selector: PrometheusClient.buildSelector(labels),
+      duration: `${Math.max(1, Math.round(config.duration || DEFAULT_EXPERIMENT_DURATION))}s`,
+    }
+
+    const run = async (query?: string): Promise<number | undefined> => {
+      if (!query) return undefined
+      return (await this.client.queryValue(renderTemplate(query, variables), config.signal)) ?? 0
+    }
+
+    const { queries } = this.metrics
+    const [count, successes, mean, variance] = await Promise.all([
+      run(queries.count),
+      run(queries.successes),
+      run(queries.mean),
+      run(queries.variance),
+    ])
+
+    return { count: count ?? 0, successes, mean, variance }
+  }
+}
+
+/**
+ * A/B 测试评估器类
+ *
+ * @example
+ * ```typescript
+ * const evaluator = new ABTestEvaluator(new PrometheusABTestMetricsSource(config.metrics));
+ * const evaluation = await evaluator.evaluate(config);
+ * console.log(evaluation.winner, evaluation.pValue);
+ * ```
+ */
+export class ABTestEvaluator {
+  private source: ABTestMetricsSource
+
+  constructor(source: ABTestMetricsSource) {
+    this.source = source
+  }
+
+  /**
+   * 从数据源获取指标并评估
+   */
+  async evaluate(config: ABTestConfig): Promise<ABTestEvaluation> {
+    if (!config.successCriteria) {
+      throw new Error('A/B test successCriteria is not configured')
+    }
+
+    const [a, b] = await Promise.all([
+      this.source.getVariantStats('a', config),
+      this.source.getVariantStats('b', config),
+    ])
+
+    const evaluation = this.analyze(config.successCriteria, a, b)
+
+    logger.info(
+      `A/B ${evaluation.metric}: A=${evaluation.variants.a.value}, B=${evaluation.variants.b.value}, ` +
+      `change=${(evaluation.relativeChange * 100).toFixed(2)}%, p=${evaluation.pValue.toFixed(4)} -> ${evaluation.winner}`
+    )
+
+    return evaluation
+  }
+
+  /**
+   * 根据两个版本的指标汇总计算显著性并判定胜出版本
+   */
+  analyze(criteria: ABTestSuccessCriteria, a: ABTestVariantStats, b: ABTestVariantStats): ABTestEvaluation {
+    const type = criteria.type || 'proportion'
+    const confidence = criteria.confidence ?? 0.95
+    const minSamples = criteria.minSamples ?? 100
+
+    const evaluation = type === 'proportion'
+      ? this.analyzeProportion(criteria, a, b, confidence)
+      : this.analyzeContinuous(criteria, a, b, confidence)
+
+    if (a.count < minSamples || b.count < minSamples) {
+      evaluation.winner = 'inconclusive'
+      evaluation.reason = `Not enough samples (A=${a.count}, B=${b.count}, required ${minSamples})`
+      return evaluation
+    }
+
+    this.decide(criteria, evaluation)
+    return evaluation
+  }
+
+  /**
+   * 比例型指标：两比例 z 检验
+   */
+  private analyzeProportion(
+    criteria: ABTestSuccessCriteria,
+    a: ABTestVariantStats,
+    b: ABTestVariantStats,
+    confidence: number
+  ): ABTestEvaluation {
+    if (a.successes === undefined || b.successes === undefined) {
+      throw new Error(`Proportion metric "${criteria.metric}" requires success counts`)
+    }
+
+    const pA = a.count > 0 ? a.successes / a.count : 0
+    const pB = b.count > 0 ? b.successes / b.count : 0
+    const result = a.count > 0 && b.count > 0
+      ? twoProportionZTest(a.successes, a.count, b.successes, b.count)
+      : { statistic: 0, pValue: 1 }
+
+    const se = Math.sqrt(
+      (a.count > 0 ? pA * (1 - pA) / a.count : 0) +
+      (b.count > 0 ? pB * (1 - pB) / b.count : 0)
+    )
+    const margin = normalQuantile(1 - (1 - confidence) / 2) * se
+
+    return this.buildEvaluation(criteria, 'proportion', 'two-proportion-z-test', confidence, {
+      a: { ...a, value: pA, confidenceInterval: proportionConfidenceInterval(a.successes, a.count, confidence) },
+      b: { ...b, value: pB, confidenceInterval: proportionConfidenceInterval(b.successes, b.count, confidence) },
+    }, margin, result.statistic, result.pValue)
+  }
+
+  /**
+   * 连续型指标：Welch t 检验
+   */
+  private analyzeContinuous(
+    criteria: ABTestSuccessCriteria,
+    a: ABTestVariantStats,
+    b: ABTestVariantStats,
+    confidence: number
+  ): ABTestEvaluation {
+    if (a.mean === undefined || b.mean === undefined || a.variance === undefined || b.variance === undefined) {
+      throw new Error(`Continuous metric "${criteria.metric}" requires mean and variance`)
+    }
+
+    const enough = a.count >= 2 && b.count >= 2
+    const result = enough
+      ? welchTTest(a.mean, a.variance, a.count, b.mean, b.variance, b.count)
+      : { statistic: 0, pValue: 1, df: 1 }
+
+    const se = enough ? Math.sqrt(a.variance / a.count + b.variance / b.count) : 0
+    const margin = se > 0 ? studentTQuantile(1 - (1 - confidence) / 2, result.df!) * se : 0
+
+    return this.buildEvaluation(criteria, 'continuous', 'welch-t-test', confidence, {
+      a: { ...a, value: a.mean, confidenceInterval: meanConfidenceInterval(a.mean, a.variance, a.count, confidence) },
+      b: { ...b, value: b.mean, confidenceInterval: meanConfidenceInterval(b.mean, b.variance, b.count, confidence) },
+    }, margin, result.statistic, result.pValue)
+  }
+
+  private buildEvaluation(
+    criteria: ABTestSuccessCriteria,
+    type: ABTestEvaluation['type'],
+    test: ABTestEvaluation['test'],
+    confidence: number,
+    variants: ABTestEvaluation['variants'],
+    margin: number,
+    statistic: number,
+    pValue: number
+  ): ABTestEvaluation {
+    const difference = variants.b.value - variants.a.value
+    const base = Math.abs(variants.a.value)
+
+    return {
+      metric: criteria.metric,
+      type,
+      test,
+      variants,
+      difference,
+      differenceInterval: { lower: difference - margin, upper: difference + margin },
+      relativeChange: base > 0 ? difference / base : (difference === 0 ? 0 : Math.sign(difference) * Infinity),
+      statistic,
+      pValue,
+      confidence,
+      significant: pValue < 1 - confidence,
+      winner: 'inconclusive',
+      reason: '',
+    }
+  }
+
+  /**
+   * 按 comparison 判定胜出版本
+   */
+  private decide(criteria: ABTestSuccessCriteria, evaluation: ABTestEvaluation): void {
+    const { significant, relativeChange, difference, differenceInterval } = evaluation
+    const change = `${(relativeChange * 100).toFixed(2)}%`
+
+    switch (criteria.comparison) {
+      case 'greater':
+      case 'less': {
+        // less 时 B 降低才是改进
+        const improvement = criteria.comparison === 'greater' ? relativeChange : -relativeChange
+
+        if (significant && improvement >= criteria.threshold) {
+          evaluation.winner = 'b'
+          evaluation.reason = `B improves ${criteria.metric} by ${change} (threshold ${criteria.threshold * 100}%)`
+        } else if (significant && improvement < 0) {
+          evaluation.winner = 'a'
+          evaluation.reason = `B is significantly worse on ${criteria.metric} (${change})`
+        } else {
+          evaluation.reason = significant
+            ? `Change ${change} is significant but below threshold ${criteria.threshold * 100}%`
+            : `No significant difference in ${criteria.metric} (${change})`
+        }
+        break
+      }
+      case 'equal': {
+        const bound = criteria.threshold * Math.abs(evaluation.variants.a.value)
+
+        if (differenceInterval.lower >= -bound && differenceInterval.upper <= bound) {
+          evaluation.winner = 'b'
+          evaluation.reason = `B is equivalent to A within ±${criteria.threshold * 100}%`
+        } else if (significant) {
+          evaluation.winner = 'a'
+          evaluation.reason = `B differs significantly from A (${difference > 0 ? '+' : ''}${change})`
+        } else {
+          evaluation.reason = 'Confidence interval is too wide to establish equivalence'
+        }
+        break
+      }
+    }
+  }
+}
@@ -1,43 +1,144 @@
 /**
  * A/B 测试部署策略
+ * @module strategies/ABTestStrategy
+ *
+ * @description 部署版本 B，并通过服务网格（Istio）或 NGINX Ingress
+ * 按权重和定向规则在 A/B 两个版本之间分流；实验结束后按 successCriteria 评估胜出版本
  */
 
 import { logger } from '../utils/logger.js'
-import type { ABTestConfig, StrategyResult } from '../types/index.js'
+import { sleep } from '../utils/retry.js'
+import { DeploymentManager } from '../kubernetes/DeploymentManager.js'
+import { TrafficManifestGenerator } from '../kubernetes/TrafficManifestGenerator.js'
+import { ManifestGenerator } from '../kubernetes/ManifestGenerator.js'
+import { ABTestEvaluator, PrometheusABTestMetricsSource, type ABTestMetricsSource } from './ABTestEvaluator.js'
+import type {
+  ABTestConfig,
+  ABTestEvaluation,
+  ABTestRule,
+  StrategyResult,
+  TrafficConfig,
+  TrafficMatch,
+  TrafficStringMatch,
+} from '../types/index.js'
 
+/**
+ * 用户定向规则默认使用的请求头前缀，例如 key 为 id 时匹配 x-user-id（可通过 userHeaderPrefix 修改）
+ */
+const DEFAULT_USER_HEADER_PREFIX = 'x-user-'
+
+/**
+ * IP 定向规则匹配的请求头
+ */
+const CLIENT_IP_HEADER = 'x-forwarded-for'
+
+/**
+ * 实验等待的最大单次间隔，避免 setTimeout 溢出（超过约 24.8 天时会立即触发）
+ */
+const MAX_WAIT_CHUNK = 60 * 1000
+
+/**
+ * A/B 测试策略类
+ *
+ * @example
+ * ```typescript
+ * const strategy = new ABTestStrategy();
+ *
+ * const result = await strategy.deploy({
+ *   appName: 'shop',
+ *   image: 'registry.example.com/shop',
+ *   versionA: '1.0.0',
+ *   versionB: '1.1.0',
+ *   trafficSplit: { a: 90, b: 10 },
+ *   targetingRules: [
+ *     { type: 'header', key: 'x-beta', value: 'true', operator: 'equals', version: 'b' }
+ *   ],
+ *   provider: 'istio',
+ *   duration: 86400,
+ *   successCriteria: { metric: 'conversion', threshold: 0.02, comparison: 'greater' },
+ *   metrics: {
+ *     prometheus: { url: 'http://prometheus:9090' },
+ *     queries: {
+ *       count: 'sum(increase(checkout_visits_total{{selector}}[{{duration}}]))',
+ *       successes: 'sum(increase(checkout_orders_total{{selector}}[{{duration}}]))'
+ *     }
+ *   },
+ *   autoPromote: true
+ * });
+ * ```
+ */
 export class ABTestStrategy {
+  private k8sManager: DeploymentManager
+  private trafficGenerator: TrafficManifestGenerator
+  private manifestGenerator: ManifestGenerator
+  private metricsSource?: ABTestMetricsSource
+
+  constructor(
+    k8sManager: DeploymentManager = new DeploymentManager(),
+    metricsSource?: ABTestMetricsSource
+  ) {
+    this.k8sManager = k8sManager
+    this.trafficGenerator = new TrafficManifestGenerator()
+    this.manifestGenerator = new ManifestGenerator()
+    this.metricsSource = metricsSource
+  }
+
   /**
    * 执行 A/B 测试部署
    */
   async deploy(config: ABTestConfig): Promise<StrategyResult> {
     logger.info('🔀 Executing A/B Test deployment...')
 
+    let deployed = false
+    let routed = false
+
     try {
       // 1. 部署版本 B
       logger.info(`Deploying version B: ${config.versionB}`)
+      deployed = true
+      await this.deployVersionB(config)
 
-      // 2. 配置流量分割
+      // 2. 配置流量分割与定向规则
       logger.info(`Configuring traffic split: A=${config.trafficSplit.a}%, B=${config.trafficSplit.b}%`)
-      await this.configureTrafficSplit(config)
+      const traffic = this.buildTrafficConfig(config)
+      routed = true
+      await this.configureTrafficSplit(config, traffic)
+
+      // 3. 实验结束后评估
+      let evaluation: ABTestEvaluation | undefined
+      let promoted: 'a' | 'b' | undefined
+
+      if (config.successCriteria) {
+        evaluation = await this.runExperiment(config)
 
-      // 3. 应用定向规则
-      if (config.targetingRules) {
-        logger.info('Applying targeting rules...')
-        await this.applyTargetingRules(config)
+        if (evaluation && config.autoPromote && evaluation.winner !== 'inconclusive') {
+          await this.promoteWinner(config, evaluation.winner)
+          promoted = evaluation.winner
+        }
       }
 
-      // 4. 收集指标
-      logger.info('Collecting A/B test metrics...')
+      // 版本 A 胜出说明 B 显著更差，实验结果为失败
+      const failed = evaluation?.winner === 'a'
+      if (failed) {
+        logger.warn(`Version B (${config.versionB}) performed worse than version A: ${evaluation!.reason}`)
+      }
 
       return {
-        success: true,
+        success: !failed,
         strategy: 'abtest',
-        message: 'A/B test deployment completed successfully',
+        message: evaluation
+          ? `A/B test ${failed ? 'failed' : 'completed'}: ${evaluation.reason}`
+          : 'A/B test deployment completed successfully',
+        details: { provider: config.provider || 'istio', traffic, evaluation, promoted },
         timestamp: new Date().toISOString(),
       }
     } catch (error: any) {
       logger.error('A/B test deployment failed:', error.message)
 
+      if (deployed) {
+        await this.cleanup(config, routed)
+      }
+
       return {
         success: false,
         strategy: 'abtest',
@@ -47,15 +148,238 @@ export class ABTestStrategy {
     }
   }
 
-  private async configureTrafficSplit(config: ABTestConfig): Promise<void> {
-    logger.debug('Traffic split configuration placeholder')
+  /**
+   * 将 A/B 配置转换为流量路由模型
+   *
+   * @description 定向规则在前，命中后 100% 路由到指定版本；其余流量按 trafficSplit 分配
+   */
+  buildTrafficConfig(config: ABTestConfig): TrafficConfig {
+    if (config.trafficSplit.a + config.trafficSplit.b !== 100) {
+      throw new Error(
+        `Traffic split must add up to 100, got A=${config.trafficSplit.a}, B=${config.trafficSplit.b}`
+      )
+    }
+
+    const routing: TrafficConfig['routing'] = (config.targetingRules || []).map(rule => ({
+      destination: rule.version,
+      weight: 100,
+      match: [this.toTrafficMatch(rule, config.userHeaderPrefix ?? DEFAULT_USER_HEADER_PREFIX)],
+    }))
+
+    routing.push(
+      { destination: 'a', weight: config.trafficSplit.a },
+      { destination: 'b', weight: config.trafficSplit.b }
+    )
+
+    return { routing }
+  }
+
+  /**
+   * 等待实验结束并评估成功标准
+   *
+   * @returns 评估结果，未配置指标数据源时返回 undefined
+   */
+  private async runExperiment(config: ABTestConfig): Promise<ABTestEvaluation | undefined> {
+    const source = this.metricsSource
+      || (config.metrics ? new PrometheusABTestMetricsSource(config.metrics) : undefined)
+
+    if (!source) {
+      logger.warn('No metrics source configured, skipping A/B test evaluation')
+      return undefined
+    }
+
+    if (config.duration && config.duration > 0) {
+      logger.info(`Running experiment for ${config.duration}s...`)
+      await this.waitFor(config.duration * 1000, config.signal)
+    }
+
+    logger.info('Evaluating A/B test success criteria...')
+    return new ABTestEvaluator(source).evaluate(config)
   }
 
-  private async applyTargetingRules(config: ABTestConfig): Promise<void> {
-    logger.debug('Targeting rules placeholder')
+  /**
+   * 分段等待指定时长，中止信号触发时立即结束
+   */
+  private async waitFor(ms: number, signal?: AbortSignal): Promise<void> {
+    const until = Date.now() + ms
+    let remaining = ms
+
+    while (remaining > 0) {
+      await sleep(Math.min(remaining, MAX_WAIT_CHUNK), signal)
+      remaining = until - Date.now()
+    }
   }
-}
 
+  /**
+   * 将全部流量切换到胜出版本
+   */
+  private async promoteWinner(config: ABTestConfig, winner: 'a' | 'b'): Promise<void> {
+    const version = winner === 'a' ? config.versionA : config.versionB
+    logger.info(`Promoting version ${winner.toUpperCase()} (${version}) to 100% traffic...`)
+
+    const promotedConfig = this.toSingleVersion(config, winner)
+    await this.configureTrafficSplit(promotedConfig, this.buildTrafficConfig(promotedConfig))
+    logger.success(`Version ${winner.toUpperCase()} promoted`)
+  }
+
+  /**
+   * 实验失败后清理：流量切回版本 A 并删除版本 B，失败只输出警告
+   *
+   * @param routed - 是否已经应用过路由资源
+   */
+  private async cleanup(config: ABTestConfig, routed: boolean): Promise<void> {
+    logger.info('Cleaning up A/B test...')
+
+    // 清理不受中止信号影响
+    const restored: ABTestConfig = { ...this.toSingleVersion(config, 'a'), signal: undefined }
+
+    try {
+      if (routed) {
+        await this.configureTrafficSplit(restored, this.buildTrafficConfig(restored))
+      }
+      await this.k8sManager.delete('deployment', `${config.appName}-b`, { namespace: config.namespace || 'default' })
+
+      logger.success('Version B removed')
+    } catch (error: any) {
+      logger.warn(`Failed to clean up A/B test: ${error.message}`)
+    }
+  }
+
+  /**
+   * 全部流量路由到指定版本的配置，不再应用定向规则
+   */
+  private toSingleVersion(config: ABTestConfig, version: 'a' | 'b'): ABTestConfig {
+    return {
+      ...config,
+      trafficSplit: version === 'a' ? { a: 100, b: 0 } : { a: 0, b: 100 },
+      targetingRules: [],
+    }
+  }
+
+  /**
+   * 渲染并应用路由资源
+   */
+  private async configureTrafficSplit(config: ABTestConfig, traffic: TrafficConfig): Promise<void> {
+    const provider = config.provider || 'istio'
+
+    if (config.targetingRules?.length) {
+      logger.info(`Applying ${config.targetingRules.length} targeting rules via ${provider}...`)
+    }
+
+    const manifest = this.trafficGenerator.generate(traffic, provider, {
+      name: config.appName,
+      namespace: config.namespace || 'default',
+      host: config.host,
+      targetPort: config.port || 8080,
+      gateways: config.gateways,
+      ingressClassName: config.ingressClassName,
+      subsets: {
+        a: { app: config.appName, version: config.versionA },
+        b: { app: config.appName, version: config.versionB },
+      },
+    })
 
+    await this.k8sManager.apply(manifest, {
+      namespace: config.namespace || 'default',
+      signal: config.signal,
+    })
 
+    logger.success(`Traffic routing applied (${provider})`)
+  }
+
+  /**
+   * 定向规则转换为流量匹配条件
+   */
+  private toTrafficMatch(rule: ABTestRule, userHeaderPrefix: string): TrafficMatch {
+    const value = this.toStringMatch(rule)
+
+    switch (rule.type) {
+      case 'header':
+        return { headers: { [rule.key]: value } }
+      case 'cookie':
+        return { cookies: { [rule.key]: value } }
+      case 'query':
+        return { queryParams: { [rule.key]: value } }
+      case 'user':
+        return { headers: { [`${userHeaderPrefix}${rule.key}`]: value } }
+      case 'ip':
+        // X-Forwarded-For 可能包含代理链，精确匹配其中任意一段
+        return {
+          headers: {
+            [CLIENT_IP_HEADER]: rule.operator === 'equals'
+              ? { regex: `^(.*,\\s*)?${this.escapeRegex(rule.value)}(\\s*,.*)?$` }
+              : value,
+          },
+        }
+      default:
+        throw new Error(`Unsupported targeting rule type: ${(rule as ABTestRule).type}`)
+    }
+  }
+
+  private toStringMatch(rule: ABTestRule): TrafficStringMatch {
+    switch (rule.operator) {
+      case 'equals':
+        return { exact: rule.value }
+      case 'contains':
+        return { regex: `.*${this.escapeRegex(rule.value)}.*` }
+      case 'regex':
+        return { regex: rule.value }
+      default:
+        throw new Error(`Unsupported targeting rule operator: ${rule.operator}`)
+    }
+  }
+
+  private escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  }
+
+  /**
+   * 部署版本 B
+   */
+  private async deployVersionB(config: ABTestConfig): Promise<void> {
+    await this.k8sManager.deployWithMonitoring(
+      this.buildVariantManifest(config),
+      `${config.appName}-b`,
+      {
+        namespace: config.namespace || 'default',
+        timeout: 300,
+        wait: true,
+        signal: config.signal,
+      }
+    )
 
+    logger.success('Version B deployed')
+  }
+
+  /**
+   * 构建版本 B 的 Deployment 清单
+   */
+  private buildVariantManifest(config: ABTestConfig): string {
+    return `
+apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: ${config.appName}-b
+  namespace: ${config.namespace || 'default'}
+  labels:
+    app: ${config.appName}
+    version: "${config.versionB}"
+    variant: b
+spec:
+  replicas: ${config.replicas || 1}
+  selector:
+    matchLabels:
+      app: ${config.appName}
+      version: "${config.versionB}"
+  template:
+    metadata:
+      labels:
+        app: ${config.appName}
+        version: "${config.versionB}"
+        variant: b
+    spec:
+      containers:
+${this.manifestGenerator.generateStrategyContainer(config, `${config.image}:${config.versionB}`)}
+`
+  }
+}
@@ -6,9 +6,25 @@
  */
 
 import { logger } from '../utils/logger.js'
-import { DeploymentManager } from '../kubernetes/DeploymentManager.js'
+import { sleep } from '../utils/retry.js'
+import { DeploymentManager, type CommandExecutor } from '../kubernetes/DeploymentManager.js'
+import { ManifestGenerator } from '../kubernetes/ManifestGenerator.js'
+import { ContainerTrafficManager, type ContainerVariant } from '../docker/ContainerTrafficManager.js'
 import { HealthChecker } from '../core/HealthChecker.js'
-import type { BlueGreenDeployConfig, StrategyResult } from '../types/index.js'
+import { PromotionStore } from './PromotionStore.js'
+import { ConfigInterpolator } from '../core/ConfigInterpolator.js'
+import { ConfigManager } from '../core/ConfigManager.js'
+import type {
+  BlueGreenColor,
+  BlueGreenDeployConfig,
+  PendingPromotion,
+  StrategyResult,
+} from '../types/index.js'
+
+/**
+ * 定时等待的最大单次间隔，避免 setTimeout 溢出
+ */
+const MAX_WAIT_CHUNK = 60 * 1000
 
 /**
  * 蓝绿部署策略类
@@ -17,19 +33,31 @@ import type { BlueGreenDeployConfig, StrategyResult } from '../types/index.js'
  * 在部署新版本时先部署到当前未激活的环境，验证无误后切换流量，
  * 实现零停机部署。如果出现问题可以快速回滚。
  * 
+ * 切换前新环境可通过预览 Service（<appName>-preview）访问；
+ * docker / docker-compose 平台上两个环境以容器（<appName>-blue / <appName>-green）并行运行，
+ * 由反向代理切换权重，预览通过代理的 previewPort 访问。
+ * 手动或定时切换时会持久化待切换状态，可通过 promote / abort 完成或放弃；
+ * 状态中的密钥值保存为 ${secret:name} 引用，切换或放弃时重新解析。
+ * 
  * @example
  * ```typescript
  * const strategy = new BlueGreenStrategy();
  * 
  * const result = await strategy.deploy({
+ *   appName: 'shop',
+ *   image: 'registry.example.com/shop',
+ *   platform: 'kubernetes',
  *   blueVersion: '1.0.0',
  *   greenVersion: '1.1.0',
  *   activeColor: 'blue',
  *   trafficSwitch: {
- *     immediate: true
+ *     manual: true
  *   },
  *   rollbackOnError: true
  * });
+ * 
+ * // 验证预览环境后
+ * await strategy.promote('shop');
  * ```
  * 
  * @see https://martinfowler.com/bliki/BlueGreenDeployment.html
@@ -37,10 +65,23 @@ import type { BlueGreenDeployConfig, StrategyResult } from '../types/index.js'
 export class BlueGreenStrategy {
   private k8sManager: DeploymentManager
   private healthChecker: HealthChecker
-
-  constructor() {
-    this.k8sManager = new DeploymentManager()
+  private manifestGenerator: ManifestGenerator
+  private store: PromotionStore
+  private containerExecutor?: CommandExecutor
+  private configManager?: ConfigManager
+
+  constructor(
+    k8sManager: DeploymentManager = new DeploymentManager(),
+    store: PromotionStore = new PromotionStore(),
+    containerExecutor?: CommandExecutor,
+    configManager?: ConfigManager
+  ) {
+    this.k8sManager = k8sManager
     this.healthChecker = new HealthChecker()
+    this.manifestGenerator = new ManifestGenerator()
+    this.store = store
+    this.containerExecutor = containerExecutor
+    this.configManager = configManager
   }
 
   /**
@@ -50,49 +91,66 @@ export class BlueGreenStrategy {
    * @returns 部署结果
    * 
    * @description 部署流程：
-   * 1. 部署新版本到绿色环境
-   * 2. 健康检查绿色环境
-   * 3. 切换流量到绿色环境
-   * 4. 监控新版本运行状态
-   * 5. 停止蓝色环境（可选）
-   * 
-   * @todo 完整实现蓝绿部署逻辑
+   * 1. 部署新版本到未激活的环境
+   * 2. 健康检查新环境
+   * 3. 创建预览 Service 指向新环境
+   * 4. 按 trafficSwitch 立即切换，或保存待手动 / 定时切换状态（结果的 pending 为 true）
    */
   async deploy(config: BlueGreenDeployConfig): Promise<StrategyResult> {
     logger.info('🔵🟢 Executing Blue-Green deployment...')
 
+    const target = this.getTargetColor(config)
+    const targetVersion = this.getVersion(config, target)
+    // 失败回滚时恢复线上 Service 原来的选择器
+    const originalSelector = config.rollbackOnError ? await this.getServiceSelector(config) : null
+
     try {
-      // 1. 部署绿色版本（不接收流量）
-      logger.info(`Deploying green version: ${config.greenVersion}`)
-      await this.deployGreen(config)
+      // 1. 部署新版本（不接收流量）
+      logger.info(`Deploying ${target} version: ${targetVersion}`)
+      await this.deployTarget(config, target)
 
-      // 2. 健康检查绿色版本
-      logger.info('Performing health check on green version...')
-      const healthy = await this.healthCheck(config)
+      // 2. 健康检查新版本
+      logger.info(`Performing health check on ${target} version...`)
+      const healthy = await this.healthCheck(config, target)
 
       if (!healthy) {
-        throw new Error('Green version health check failed')
+        throw new Error(`${target} version health check failed`)
       }
 
-      // 3. 切换流量到绿色
-      if (config.trafficSwitch.immediate) {
-        logger.info('Switching traffic to green version...')
-        await this.switchTraffic(config)
-      } else if (config.trafficSwitch.manual) {
-        logger.info('Waiting for manual traffic switch...')
-        // 手动切换需要外部触发
+      // 3. 预览 Service
+      await this.applyPreviewService(config, target)
+
+      // 4. 切换流量
+      const { scheduled, manual } = config.trafficSwitch
+
+      if (scheduled) {
+        return await this.runScheduledSwitch(config, target, scheduled.time)
       }
 
-      // 4. 监控一段时间
-      logger.info('Monitoring green version...')
+      if (manual && !config.trafficSwitch.immediate) {
+        const pending = await this.savePending(config, target, 'manual')
+        logger.info(`Waiting for manual traffic switch (preview service: ${pending.previewService})`)
+        logger.info(`Run "ldesign-deployer bluegreen:promote ${config.appName}" to switch traffic`)
+
+        return {
+          success: true,
+          pending: true,
+          strategy: 'bluegreen',
+          message: `${target} environment is ready and awaiting manual promotion`,
+          details: { pending },
+          timestamp: new Date().toISOString(),
+        }
+      }
 
-      // 5. 停止蓝色版本
-      logger.info('Stopping blue version...')
+      logger.info(`Switching traffic to ${target} version...`)
+      await this.switchTraffic(config, target)
+      await this.deletePreviewService(config)
 
       return {
         success: true,
         strategy: 'bluegreen',
         message: 'Blue-Green deployment completed successfully',
+        details: { activeColor: target, version: targetVersion },
         timestamp: new Date().toISOString(),
       }
     } catch (error: any) {
@@ -100,8 +158,8 @@ export class BlueGreenStrategy {
 
       // 回滚
       if (config.rollbackOnError) {
-        logger.info('Rolling back to blue version...')
-        await this.rollback(config)
+        logger.info(`Rolling back to ${config.activeColor} version...`)
+        await this.rollback(config, target, originalSelector)
       }
 
       return {
@@ -114,31 +172,284 @@ export class BlueGreenStrategy {
   }
 
   /**
-   * 部署绿色版本
+   * 切换流量到待切换的环境
+   * 
+   * @param appName - 应用名称
+   * @param namespace - 命名空间
+   */
+  async promote(appName: string, namespace = 'default'): Promise<StrategyResult> {
+    const pending = await this.store.get(appName, namespace)
+    if (!pending) {
+      throw new Error(`No pending blue-green promotion for ${namespace}/${appName}`)
+    }
+
+    return this.promotePending(pending)
+  }
+
+  /**
+   * 放弃待切换的发布，删除新环境与预览 Service
+   * 
+   * @param appName - 应用名称
+   * @param namespace - 命名空间
+   */
+  async abort(appName: string, namespace = 'default'): Promise<StrategyResult> {
+    const pending = await this.store.get(appName, namespace)
+    if (!pending) {
+      throw new Error(`No pending blue-green promotion for ${namespace}/${appName}`)
+    }
+
+    logger.warn(`Aborting promotion of ${pending.targetColor} (${pending.targetVersion})...`)
+
+    const config = await this.resolvePendingConfig(pending)
+    if (config.platform === 'kubernetes') {
+      await this.k8sManager.delete('deployment', `${appName}-${pending.targetColor}`, { namespace })
+    } else if (this.isContainerPlatform(config)) {
+      await this.getContainerTraffic(config).apply(
+        this.getContainerVariants(config, pending.targetColor, 0, false)
+      )
+    }
+    await this.deletePreviewService(config)
+    await this.store.remove(appName, namespace)
+
+    logger.success(`Promotion aborted, traffic stays on ${pending.activeColor}`)
+
+    return {
+      success: true,
+      strategy: 'bluegreen',
+      message: `Promotion aborted, traffic stays on ${pending.activeColor}`,
+      details: { pending },
+      timestamp: new Date().toISOString(),
+    }
+  }
+
+  /**
+   * 获取待切换记录
+   * 
+   * @param appName - 应用名称，不传则返回全部
+   * @param namespace - 命名空间
+   */
+  async getPending(appName?: string, namespace = 'default'): Promise<PendingPromotion[]> {
+    if (!appName) {
+      return this.store.list()
+    }
+
+    const pending = await this.store.get(appName, namespace)
+    return pending ? [pending] : []
+  }
+
+  /**
+   * 执行到期的定时切换
+   * 
+   * @description 部署只保存定时切换记录，由 bluegreen:run-scheduled（可放在 cron 中）执行已到期的记录
+   * @param options.appName - 应用名称，不传则处理全部
+   * @param options.wait - 是否继续等待未到期的记录
+   */
+  async runScheduled(options: {
+    appName?: string
+    namespace?: string
+    wait?: boolean
+    signal?: AbortSignal
+  } = {}): Promise<StrategyResult[]> {
+    const scheduled = (await this.getPending(options.appName, options.namespace))
+      .filter(pending => pending.mode === 'scheduled' && pending.scheduledAt)
+      .sort((a, b) => Date.parse(a.scheduledAt!) - Date.parse(b.scheduledAt!))
+
+    const results: StrategyResult[] = []
+
+    for (const pending of scheduled) {
+      const switchAt = new Date(pending.scheduledAt!)
+      if (switchAt.getTime() > Date.now()) {
+        if (!options.wait) {
+          continue
+        }
+        await this.waitUntil(switchAt, options.signal)
+      }
+
+      try {
+        results.push(await this.promoteScheduled(pending))
+      } catch (error: any) {
+        logger.error(`Scheduled promotion of ${pending.namespace}/${pending.appName} failed:`, error.message)
+        results.push({
+          success: false,
+          strategy: 'bluegreen',
+          message: error.message,
+          details: { pending },
+          timestamp: new Date().toISOString(),
+        })
+      }
+    }
+
+    return results
+  }
+
+  /**
+   * 定时切换：持久化待切换状态，时间已到时立即切换
+   * 
+   * @private
+   * @description 部署进程不等待（也不持有部署锁），到期后由 bluegreen:run-scheduled 执行；
+   * 到期前可通过 bluegreen:abort 取消，或 bluegreen:promote 提前切换
+   */
+  private async runScheduledSwitch(
+    config: BlueGreenDeployConfig,
+    target: BlueGreenColor,
+    time: string
+  ): Promise<StrategyResult> {
+    const switchAt = new Date(time)
+    if (Number.isNaN(switchAt.getTime())) {
+      throw new Error(`Invalid scheduled switch time: ${time}`)
+    }
+
+    const pending = await this.savePending(config, target, 'scheduled', switchAt.toISOString())
+
+    if (switchAt.getTime() <= Date.now()) {
+      return this.promoteScheduled(pending)
+    }
+
+    logger.info(`Traffic switch to ${target} scheduled at ${switchAt.toLocaleString()}`)
+    logger.info('Run "ldesign-deployer bluegreen:run-scheduled" (e.g. from cron) to switch traffic after that time')
+
+    return {
+      success: true,
+      pending: true,
+      strategy: 'bluegreen',
+      message: `${target} environment is ready, traffic switch scheduled at ${pending.scheduledAt}`,
+      details: { pending },
+      timestamp: new Date().toISOString(),
+    }
+  }
+
+  /**
+   * 执行定时切换记录，记录已被放弃或替换时跳过
+   * 
+   * @private
+   */
+  private async promoteScheduled(pending: PendingPromotion): Promise<StrategyResult> {
+    // 等待期间可能已被手动切换或放弃
+    const current = await this.store.get(pending.appName, pending.namespace)
+    if (!current || current.createdAt !== pending.createdAt) {
+      logger.warn('Scheduled promotion is no longer pending, skipping traffic switch')
+
+      return {
+        success: false,
+        strategy: 'bluegreen',
+        message: 'Scheduled promotion was aborted or already promoted',
+        details: { pending },
+        timestamp: new Date().toISOString(),
+      }
+    }
+
+    return this.promotePending(current)
+  }
+
+  /**
+   * 执行待切换记录的流量切换
+   * 
+   * @private
+   */
+  private async promotePending(pending: PendingPromotion): Promise<StrategyResult> {
+    const { targetColor } = pending
+    const config = await this.resolvePendingConfig(pending)
+
+    logger.info(`Promoting ${targetColor} (${pending.targetVersion})...`)
+
+    if (config.platform === 'kubernetes') {
+      const healthy = await this.k8sManager.checkPodHealth(`${config.appName}-${targetColor}`, {
+        namespace: pending.namespace,
+      })
+      if (!healthy) {
+        throw new Error(`${targetColor} environment is unhealthy, refusing to promote`)
+      }
+    } else if (this.isContainerPlatform(config)) {
+      if (!await this.getContainerTraffic(config).isHealthy(targetColor)) {
+        throw new Error(`${targetColor} environment is unhealthy, refusing to promote`)
+      }
+    }
+
+    await this.switchTraffic(config, targetColor)
+    await this.deletePreviewService(config)
+    await this.store.remove(pending.appName, pending.namespace)
+
+    return {
+      success: true,
+      strategy: 'bluegreen',
+      message: `Traffic switched to ${targetColor}`,
+      details: { activeColor: targetColor, version: pending.targetVersion, pending },
+      timestamp: new Date().toISOString(),
+    }
+  }
+
+  /**
+   * 保存待切换记录
+   * 
+   * @private
+   */
+  private async savePending(
+    config: BlueGreenDeployConfig,
+    target: BlueGreenColor,
+    mode: PendingPromotion['mode'],
+    scheduledAt?: string
+  ): Promise<PendingPromotion> {
+    const pending: PendingPromotion = {
+      appName: config.appName,
+      namespace: config.namespace || 'default',
+      mode,
+      activeColor: config.activeColor,
+      targetColor: target,
+      targetVersion: this.getVersion(config, target),
+      previewService: this.getPreviewServiceName(config),
+      scheduledAt,
+      createdAt: new Date().toISOString(),
+      // 中止信号只对本次发布有效，不写入存储；密钥值只保存引用
+      config: ConfigInterpolator.toReferences({ ...config, signal: undefined }),
+    }
+
+    await this.store.save(pending)
+    return pending
+  }
+
+  /**
+   * 解析待切换记录配置中的密钥引用
+   * 
+   * @private
+   */
+  private async resolvePendingConfig(pending: PendingPromotion): Promise<BlueGreenDeployConfig> {
+    this.configManager ??= new ConfigManager()
+    return this.configManager.resolveReferences(pending.config)
+  }
+
+  /**
+   * 部署新版本到目标环境
    * 
    * @private
    * @param config - 部署配置
+   * @param target - 目标环境
    */
-  private async deployGreen(config: BlueGreenDeployConfig): Promise<void> {
-    logger.info(`Deploying green environment with version ${config.greenVersion}`)
+  private async deployTarget(config: BlueGreenDeployConfig, target: BlueGreenColor): Promise<void> {
+    logger.info(`Deploying ${target} environment with version ${this.getVersion(config, target)}`)
 
-    // 构建绿色环境的清单
-    const greenManifest = this.buildGreenManifest(config)
+    // 构建目标环境的清单
+    const manifest = this.buildTargetManifest(config, target)
 
     // 部署到 K8s
     if (config.platform === 'kubernetes') {
       await this.k8sManager.deployWithMonitoring(
-        greenManifest,
-        `${config.appName}-green`,
+        manifest,
+        `${config.appName}-${target}`,
         {
           namespace: config.namespace || 'default',
+          signal: config.signal,
           timeout: 300,
           wait: true,
         }
       )
+    } else if (this.isContainerPlatform(config)) {
+      // 新环境容器启动，暂不分配流量
+      const traffic = this.getContainerTraffic(config)
+      await traffic.apply(this.getContainerVariants(config, target, 0))
+      await traffic.waitForHealthy(target, undefined, config.signal)
     }
 
-    logger.success('Green environment deployed successfully')
+    logger.success(`${target} environment deployed successfully`)
   }
 
   /**
@@ -146,14 +457,15 @@ export class BlueGreenStrategy {
    * 
    * @private
    * @param config - 部署配置
+   * @param target - 目标环境
    * @returns 健康检查是否通过
    */
-  private async healthCheck(config: BlueGreenDeployConfig): Promise<boolean> {
-    logger.info('Running health check on green environment...')
+  private async healthCheck(config: BlueGreenDeployConfig, target: BlueGreenColor): Promise<boolean> {
+    logger.info(`Running health check on ${target} environment...`)
 
     // 如果配置了健康检查
     if (config.healthCheck) {
-      const result = await this.healthChecker.check(config.healthCheck)
+      const result = await this.healthChecker.check(config.healthCheck, config.signal)
       if (!result.healthy) {
         logger.error(`Health check failed: ${result.message}`)
         return false
@@ -163,7 +475,7 @@ export class BlueGreenStrategy {
     // K8s Pod 健康检查
     if (config.platform === 'kubernetes') {
       const healthy = await this.k8sManager.checkPodHealth(
-        `${config.appName}-green`,
+        `${config.appName}-${target}`,
         {
           namespace: config.namespace || 'default',
         }
@@ -171,16 +483,22 @@ export class BlueGreenStrategy {
       if (!healthy) {
         return false
       }
+    } else if (this.isContainerPlatform(config)) {
+      if (!await this.getContainerTraffic(config).isHealthy(target)) {
+        return false
+      }
     }
 
     // 等待稳定期（默认 30 秒）
-    const stabilityPeriod = config.stabilityPeriod || 30
-    logger.info(`Waiting ${stabilityPeriod}s for stability...`)
-    await new Promise(resolve => setTimeout(resolve, stabilityPeriod * 1000))
+    const stabilityPeriod = config.stabilityPeriod ?? 30
+    if (stabilityPeriod > 0) {
+      logger.info(`Waiting ${stabilityPeriod}s for stability...`)
+      await sleep(stabilityPeriod * 1000, config.signal)
+    }
 
     // 再次检查
     if (config.healthCheck) {
-      const result = await this.healthChecker.check(config.healthCheck)
+      const result = await this.healthChecker.check(config.healthCheck, config.signal)
       if (!result.healthy) {
         logger.error('Health check failed after stability period')
         return false
@@ -196,105 +514,241 @@ export class BlueGreenStrategy {
    * 
    * @private
    * @param config - 部署配置
+   * @param target - 目标环境
    */
-  private async switchTraffic(config: BlueGreenDeployConfig): Promise<void> {
-    logger.info('Switching traffic from blue to green...')
+  private async switchTraffic(config: BlueGreenDeployConfig, target: BlueGreenColor): Promise<void> {
+    logger.info(`Switching traffic from ${config.activeColor} to ${target}...`)
 
     if (config.platform === 'kubernetes') {
-      // 更新 Service selector 指向绿色环境
-      const serviceManifest = this.buildServiceManifest(config, 'green')
+      // 更新 Service selector 指向目标环境
+      const serviceManifest = this.buildServiceManifest(config, target)
       
       await this.k8sManager.apply(serviceManifest, {
         namespace: config.namespace || 'default',
       })
 
-      logger.success('Traffic switched to green environment')
+      logger.success(`Traffic switched to ${target} environment`)
+    } else if (this.isContainerPlatform(config)) {
+      // 旧环境保留但不接收流量，便于快速回滚；同时移除预览入口
+      await this.getContainerTraffic(config).apply(this.getContainerVariants(config, target, 100))
+
+      logger.success(`Traffic switched to ${target} environment`)
     } else {
       logger.warn('Traffic switching not implemented for this platform')
     }
   }
 
   /**
-   * 回滚到蓝色版本
+   * 创建指向目标环境的预览 Service
+   * 
+   * @private
+   */
+  private async applyPreviewService(config: BlueGreenDeployConfig, target: BlueGreenColor): Promise<void> {
+    if (this.isContainerPlatform(config) && config.proxy?.previewPort) {
+      await this.getContainerTraffic(config).apply(this.getContainerVariants(config, target, 0), target)
+      logger.info(`Preview port ${config.proxy.previewPort} -> ${target}`)
+      return
+    }
+
+    if (config.platform !== 'kubernetes') {
+      return
+    }
+
+    await this.k8sManager.apply(
+      this.buildServiceManifest(config, target, this.getPreviewServiceName(config)),
+      { namespace: config.namespace || 'default' }
+    )
+
+    logger.info(`Preview service ${this.getPreviewServiceName(config)} -> ${target}`)
+  }
+
+  /**
+   * 删除预览 Service
+   * 
+   * @private
+   */
+  private async deletePreviewService(config: BlueGreenDeployConfig): Promise<void> {
+    if (config.platform !== 'kubernetes') {
+      return
+    }
+
+    try {
+      await this.k8sManager.delete('service', this.getPreviewServiceName(config), {
+        namespace: config.namespace || 'default',
+      })
+    } catch (error: any) {
+      logger.warn(`Failed to delete preview service: ${error.message}`)
+    }
+  }
+
+  /**
+   * 读取线上 Service 的选择器，Service 不存在或非 Kubernetes 平台时返回 null
+   * 
+   * @private
+   */
+  private async getServiceSelector(config: BlueGreenDeployConfig): Promise<Record<string, string> | null> {
+    if (config.platform !== 'kubernetes') {
+      return null
+    }
+
+    const service = await this.k8sManager.getService(config.activeService || config.appName, {
+      namespace: config.namespace || 'default',
+    })
+    return service?.spec?.selector || null
+  }
+
+  /**
+   * 回滚到当前激活环境
    * 
    * @private
    * @param config - 部署配置
+   * @param target - 新版本所在环境
+   * @param originalSelector - 部署前线上 Service 的选择器
    */
-  private async rollback(config: BlueGreenDeployConfig): Promise<void> {
-    logger.warn('Rolling back to blue environment...')
+  private async rollback(
+    config: BlueGreenDeployConfig,
+    target: BlueGreenColor,
+    originalSelector: Record<string, string> | null = null
+  ): Promise<void> {
+    logger.warn(`Rolling back to ${config.activeColor} environment...`)
+
+    await this.store.remove(config.appName, config.namespace || 'default')
 
     if (config.platform === 'kubernetes') {
-      // 恢复 Service 指向蓝色环境
-      const serviceManifest = this.buildServiceManifest(config, 'blue')
+      // 恢复 Service 指向当前激活环境；首次迁移到蓝绿时原选择器没有 environment 标签，
+      // 当前颜色的 Deployment 并不存在，原样恢复原选择器
+      const selector = originalSelector && !originalSelector.environment ? originalSelector : undefined
+      const serviceManifest = this.buildServiceManifest(config, config.activeColor, undefined, selector)
       
       await this.k8sManager.apply(serviceManifest, {
         namespace: config.namespace || 'default',
       })
 
-      // 删除绿色环境
-      await this.k8sManager.delete('deployment', `${config.appName}-green`, {
+      // 删除新环境与预览 Service
+      await this.k8sManager.delete('deployment', `${config.appName}-${target}`, {
         namespace: config.namespace || 'default',
       })
+      await this.deletePreviewService(config)
+
+      logger.success(`Rolled back to ${config.activeColor} environment`)
+    } else if (this.isContainerPlatform(config)) {
+      // 流量回到当前环境，删除新环境容器
+      await this.getContainerTraffic(config).apply(this.getContainerVariants(config, target, 0, false))
 
-      logger.success('Rolled back to blue environment')
+      logger.success(`Rolled back to ${config.activeColor} environment`)
     }
   }
 
   /**
-   * 构建绿色环境清单
+   * 等待到指定时间
+   * 
+   * @private
+   */
+  private async waitUntil(time: Date, signal?: AbortSignal): Promise<void> {
+    let remaining = time.getTime() - Date.now()
+
+    while (remaining > 0) {
+      await sleep(Math.min(remaining, MAX_WAIT_CHUNK), signal)
+      remaining = time.getTime() - Date.now()
+    }
+  }
+
+  private getTargetColor(config: BlueGreenDeployConfig): BlueGreenColor {
+    return config.activeColor === 'blue' ? 'green' : 'blue'
+  }
+
+  private getVersion(config: BlueGreenDeployConfig, color: BlueGreenColor): string {
+    return color === 'green' ? config.greenVersion : config.blueVersion
+  }
+
+  /**
+   * 环境使用的镜像：目标环境优先使用按摘要固定的镜像
+   */
+  private getImage(config: BlueGreenDeployConfig, color: BlueGreenColor): string {
+    return color !== config.activeColor && config.pinnedImage
+      ? config.pinnedImage
+      : `${config.image}:${this.getVersion(config, color)}`
+  }
+
+  private getPreviewServiceName(config: BlueGreenDeployConfig): string {
+    return config.previewService || `${config.appName}-preview`
+  }
+
+  private isContainerPlatform(config: BlueGreenDeployConfig): boolean {
+    return config.platform === 'docker' || config.platform === 'docker-compose'
+  }
+
+  private getContainerTraffic(config: BlueGreenDeployConfig): ContainerTrafficManager {
+    return new ContainerTrafficManager(
+      {
+        appName: config.appName,
+        platform: config.platform as 'docker' | 'docker-compose',
+        port: config.port,
+        env: config.env,
+        proxy: config.proxy,
+      },
+      this.containerExecutor
+    )
+  }
+
+  /**
+   * 蓝绿容器，目标环境获得 targetWeight% 流量
+   * 
+   * @private
+   * @param includeTarget - 是否保留目标环境容器，false 时仅运行当前环境
+   */
+  private getContainerVariants(
+    config: BlueGreenDeployConfig,
+    target: BlueGreenColor,
+    targetWeight: number,
+    includeTarget = true
+  ): ContainerVariant[] {
+    const variant = (color: BlueGreenColor, weight: number): ContainerVariant => ({
+      name: color,
+      image: this.getImage(config, color),
+      weight,
+    })
+
+    const active = variant(config.activeColor, 100 - targetWeight)
+    return includeTarget ? [active, variant(target, targetWeight)] : [active]
+  }
+
+  /**
+   * 构建目标环境清单
    * 
    * @private
    * @param config - 部署配置
+   * @param target - 目标环境
    * @returns Kubernetes 清单 YAML
    */
-  private buildGreenManifest(config: BlueGreenDeployConfig): string {
+  private buildTargetManifest(config: BlueGreenDeployConfig, target: BlueGreenColor): string {
+    const version = this.getVersion(config, target)
+
     return `
 apiVersion: apps/v1
 kind: Deployment
 metadata:
-  name: ${config.appName}-green
+  name: ${config.appName}-${target}
   namespace: ${config.namespace || 'default'}
   labels:
     app: ${config.appName}
-    version: ${config.greenVersion}
-    environment: green
+    version: "${version}"
+    environment: ${target}
 spec:
   replicas: ${config.replicas || 3}
   selector:
     matchLabels:
       app: ${config.appName}
-      environment: green
+      environment: ${target}
   template:
     metadata:
       labels:
         app: ${config.appName}
-        version: ${config.greenVersion}
-        environment: green
+        version: "${version}"
+        environment: ${target}
     spec:
       containers:
-      - name: ${config.appName}
-        image: ${config.image}:${config.greenVersion}
-        ports:
-        - containerPort: ${config.port || 8080}
-        resources:
-          requests:
-            cpu: 100m
-            memory: 128Mi
-          limits:
-            cpu: 500m
-            memory: 512Mi
-        livenessProbe:
-          httpGet:
-            path: ${config.healthCheck?.path || '/health'}
-            port: ${config.port || 8080}
-          initialDelaySeconds: 30
-          periodSeconds: 10
-        readinessProbe:
-          httpGet:
-            path: ${config.healthCheck?.path || '/health'}
-            port: ${config.port || 8080}
-          initialDelaySeconds: 5
-          periodSeconds: 5
+${this.manifestGenerator.generateStrategyContainer(config, this.getImage(config, target))}
 `
   }
 
@@ -304,19 +758,29 @@ spec:
    * @private
    * @param config - 部署配置
    * @param targetEnvironment - 目标环境（blue/green）
+   * @param name - Service 名称，默认 activeService 或 appName
+   * @param selector - 替换默认选择器（app + environment）
    * @returns Kubernetes Service YAML
    */
-  private buildServiceManifest(config: BlueGreenDeployConfig, targetEnvironment: 'blue' | 'green'): string {
+  private buildServiceManifest(
+    config: BlueGreenDeployConfig,
+    targetEnvironment: BlueGreenColor,
+    name = config.activeService || config.appName,
+    selector: Record<string, string> = { app: config.appName, environment: targetEnvironment }
+  ): string {
+    const selectorLines = Object.entries(selector)
+      .map(([key, value]) => `    ${key}: ${JSON.stringify(value)}`)
+      .join('\n')
+
     return `
 apiVersion: v1
 kind: Service
 metadata:
-  name: ${config.appName}
+  name: ${name}
   namespace: ${config.namespace || 'default'}
 spec:
   selector:
-    app: ${config.appName}
-    environment: ${targetEnvironment}
+${selectorLines}
   ports:
   - protocol: TCP
     port: 80
@@ -6,9 +6,33 @@
  */
 
 import { logger } from '../utils/logger.js'
-import { DeploymentManager } from '../kubernetes/DeploymentManager.js'
+import { sleep } from '../utils/retry.js'
+import { DeploymentManager, type CommandExecutor } from '../kubernetes/DeploymentManager.js'
+import { ManifestGenerator } from '../kubernetes/ManifestGenerator.js'
+import { ContainerTrafficManager } from '../docker/ContainerTrafficManager.js'
 import { HealthChecker } from '../core/HealthChecker.js'
-import type { CanaryDeployConfig, StrategyResult } from '../types/index.js'
+import { PrometheusClient } from '../monitoring/PrometheusClient.js'
+import { renderTemplate } from '../utils/template-engine.js'
+import { BaselineComparator } from '../monitoring/BaselineComparator.js'
+import type {
+  CanaryDeployConfig,
+  CanaryMetricVerdict,
+  DeploymentMetrics,
+  StrategyResult,
+} from '../types/index.js'
+
+/**
+ * 指标分析结果
+ */
+export interface CanaryAnalysisResult {
+  passed: boolean
+  reason?: string
+  metrics?: DeploymentMetrics
+  custom?: Record<string, number | null>
+  comparison?: CanaryMetricVerdict[]
+  /** 金丝雀没有流量，指标无法判定 */
+  noData?: boolean
+}
 
 /**
  * 金丝雀发布策略类
@@ -36,7 +60,8 @@ import type { CanaryDeployConfig, StrategyResult } from '../types/index.js'
  *       successRate: 0.99,
  *       errorRate: 0.01,
  *       latency: 1000
- *     }
+ *     },
+ *     prometheus: { url: 'http://prometheus:9090' }
  *   }
  * });
  * ```
@@ -46,10 +71,18 @@ import type { CanaryDeployConfig, StrategyResult } from '../types/index.js'
 export class CanaryStrategy {
   private k8sManager: DeploymentManager
   private healthChecker: HealthChecker
+  private manifestGenerator: ManifestGenerator
+  private containerExecutor?: CommandExecutor
 
-  constructor() {
-    this.k8sManager = new DeploymentManager()
+  /**
+   * @param k8sManager - Kubernetes 部署管理器
+   * @param containerExecutor - docker / docker-compose 平台执行 docker 命令的函数
+   */
+  constructor(k8sManager: DeploymentManager = new DeploymentManager(), containerExecutor?: CommandExecutor) {
+    this.k8sManager = k8sManager
     this.healthChecker = new HealthChecker()
+    this.manifestGenerator = new ManifestGenerator()
+    this.containerExecutor = containerExecutor
   }
 
   /**
@@ -70,6 +103,8 @@ export class CanaryStrategy {
   async deploy(config: CanaryDeployConfig): Promise<StrategyResult> {
     logger.info('🐤 Executing Canary deployment...')
 
+    const analyses: Array<{ weight: number } & CanaryAnalysisResult> = []
+
     try {
       // 1. 部署金丝雀版本
       logger.info(`Deploying canary version: ${config.canaryVersion}`)
@@ -80,18 +115,16 @@ export class CanaryStrategy {
         logger.info(`Increasing canary traffic to ${step.weight}%`)
         await this.adjustTraffic(step.weight, config)
 
-        // 等待一段时间
-        if (step.duration > 0) {
-          logger.info(`Waiting ${step.duration}s before next step...`)
-          await this.wait(step.duration * 1000)
-        }
-
-        // 分析指标
         if (config.analysis) {
-          const metrics = await this.analyzeMetrics(config)
-          if (!metrics.passed) {
-            throw new Error('Canary metrics analysis failed')
+          // 在步骤持续时间内按 interval 周期分析指标
+          const analysis = await this.runStepAnalysis(config, step.duration)
+          analyses.push({ weight: step.weight, ...analysis })
+          if (!analysis.passed) {
+            throw new Error(`Canary metrics analysis failed at ${step.weight}%: ${analysis.reason}`)
           }
+        } else if (step.duration > 0) {
+          logger.info(`Waiting ${step.duration}s before next step...`)
+          await this.wait(step.duration * 1000, config.signal)
         }
 
         // 是否暂停
@@ -109,6 +142,7 @@ export class CanaryStrategy {
         success: true,
         strategy: 'canary',
         message: 'Canary deployment completed successfully',
+        details: analyses.length > 0 ? { analyses } : undefined,
         timestamp: new Date().toISOString(),
       }
     } catch (error: any) {
@@ -124,6 +158,7 @@ export class CanaryStrategy {
         success: false,
         strategy: 'canary',
         message: error.message,
+        details: analyses.length > 0 ? { analyses } : undefined,
         timestamp: new Date().toISOString(),
       }
     }
@@ -141,6 +176,18 @@ export class CanaryStrategy {
     // 构建金丝雀部署清单（初始权重 0%）
     const canaryManifest = this.buildCanaryManifest(config, 0)
 
+    // 容器平台：基线与金丝雀并行运行，代理先不分配流量
+    if (this.isContainerPlatform(config)) {
+      // 容器按版本命名，基线与金丝雀版本相同时无法并行运行
+      if (config.baselineVersion === config.canaryVersion) {
+        throw new Error(`Canary version ${config.canaryVersion} is the same as the baseline version`)
+      }
+
+      const traffic = this.getContainerTraffic(config)
+      await traffic.apply(this.getContainerVariants(config, 0))
+      await traffic.waitForHealthy(config.canaryVersion, undefined, config.signal)
+    }
+
     // 部署到 K8s
     if (config.platform === 'kubernetes') {
       await this.k8sManager.deployWithMonitoring(
@@ -148,6 +195,7 @@ export class CanaryStrategy {
         `${config.appName}-canary`,
         {
           namespace: config.namespace || 'default',
+          signal: config.signal,
           timeout: 300,
           wait: true,
         }
@@ -166,6 +214,10 @@ export class CanaryStrategy {
   private async adjustTraffic(weight: number, config?: CanaryDeployConfig): Promise<void> {
     logger.info(`Adjusting canary traffic to ${weight}%`)
 
+    if (config && this.isContainerPlatform(config)) {
+      await this.getContainerTraffic(config).apply(this.getContainerVariants(config, weight))
+    }
+
     if (config && config.platform === 'kubernetes') {
       // 计算基线和金丝雀的副本数
       const totalReplicas = config.replicas || 3
@@ -180,6 +232,7 @@ export class CanaryStrategy {
         canaryReplicas,
         {
           namespace: config.namespace || 'default',
+          signal: config.signal,
         }
       )
 
@@ -189,6 +242,7 @@ export class CanaryStrategy {
         baselineReplicas,
         {
           namespace: config.namespace || 'default',
+          signal: config.signal,
         }
       )
     }
@@ -196,6 +250,40 @@ export class CanaryStrategy {
     logger.success(`Traffic adjusted to ${weight}%`)
   }
 
+  /**
+   * 在一个步骤内周期性分析指标
+   * 
+   * @private
+   * @param config - 部署配置
+   * @param duration - 步骤持续时间（秒）
+   * @returns 最后一次分析结果，任一次失败即返回失败；没有流量时继续等待，步骤结束仍没有流量则失败
+   */
+  private async runStepAnalysis(config: CanaryDeployConfig, duration: number): Promise<CanaryAnalysisResult> {
+    const interval = Math.max(1, config.analysis!.interval)
+    let remaining = duration
+    let result: CanaryAnalysisResult
+
+    do {
+      const waitSeconds = Math.min(interval, remaining)
+      if (waitSeconds > 0) {
+        logger.info(`Waiting ${waitSeconds}s before analysis...`)
+        await this.wait(waitSeconds * 1000, config.signal)
+        remaining -= waitSeconds
+      }
+
+      result = await this.analyzeMetrics(config)
+      if (result.noData && remaining > 0) {
+        logger.warn(`${result.reason}, waiting for traffic...`)
+        continue
+      }
+      if (!result.passed) {
+        return result
+      }
+    } while (remaining > 0)
+
+    return result
+  }
+
   /**
    * 分析指标
    * 
@@ -203,18 +291,25 @@ export class CanaryStrategy {
    * @param config - 部署配置
    * @returns 分析结果
    */
-  private async analyzeMetrics(config: CanaryDeployConfig): Promise<{ passed: boolean; reason?: string }> {
+  private async analyzeMetrics(config: CanaryDeployConfig): Promise<CanaryAnalysisResult> {
     logger.info('Analyzing canary metrics...')
 
     // 1. 健康检查
     if (config.healthCheck) {
-      const result = await this.healthChecker.check(config.healthCheck)
+      const result = await this.healthChecker.check(config.healthCheck, config.signal)
       if (!result.healthy) {
         return { passed: false, reason: `Health check failed: ${result.message}` }
       }
     }
 
-    // 2. Pod 健康状态
+    // 2. Pod / 容器健康状态
+    if (this.isContainerPlatform(config)) {
+      const healthy = await this.getContainerTraffic(config).isHealthy(config.canaryVersion)
+      if (!healthy) {
+        return { passed: false, reason: 'Canary container is unhealthy' }
+      }
+    }
+
     if (config.platform === 'kubernetes') {
       const healthy = await this.k8sManager.checkPodHealth(
         `${config.appName}-canary`,
@@ -227,42 +322,118 @@ export class CanaryStrategy {
       }
     }
 
-    // 3. 分析配置的阈值
-    if (config.analysis?.threshold) {
-      const threshold = config.analysis.threshold
-      
-      // 这里可以集成 Prometheus/Grafana 等监控系统
-      // 模拟指标检查
-      const mockMetrics = {
-        successRate: 0.995,
-        errorRate: 0.005,
-        latency: 150,
+    const analysis = config.analysis
+    if (!analysis) {
+      return { passed: true }
+    }
+
+    if (!analysis.prometheus) {
+      logger.warn('No Prometheus endpoint configured, skipping metric threshold analysis')
+      return { passed: true }
+    }
+
+    // 3. 从 Prometheus 查询金丝雀指标
+    const client = new PrometheusClient(analysis.prometheus)
+    const labels = analysis.prometheus.labels || {
+      app: config.appName,
+      version: config.canaryVersion,
+    }
+    const metrics = await client.collectDeploymentMetrics(labels, analysis.interval, config.signal)
+
+    if (metrics.noData) {
+      return { passed: false, reason: `No canary traffic observed in the last ${analysis.interval}s`, metrics, noData: true }
+    }
+
+    logger.info(
+      `Canary metrics: success=${(metrics.availability * 100).toFixed(2)}%, ` +
+      `errors=${(metrics.errorRate * 100).toFixed(2)}%, p95=${metrics.latency.p95}ms, p99=${metrics.latency.p99}ms`
+    )
+
+    // 4. 阈值判断
+    const threshold = analysis.threshold
+    const failure = this.checkThresholds(metrics, threshold)
+    if (failure) {
+      return { passed: false, reason: failure, metrics }
+    }
+
+    // 5. 自定义命名查询
+    const custom: Record<string, number | null> = {}
+    for (const name of analysis.metrics || []) {
+      const definition = analysis.queries?.[name]
+      if (!definition) {
+        return { passed: false, reason: `Custom metric "${name}" has no query defined`, metrics }
       }
 
-      if (threshold.successRate && mockMetrics.successRate < threshold.successRate) {
-        return { 
-          passed: false, 
-          reason: `Success rate ${mockMetrics.successRate} below threshold ${threshold.successRate}` 
-        }
+      const query = renderTemplate(definition.query, {
+        selector: PrometheusClient.buildSelector(labels),
+        interval: `${Math.max(1, Math.round(analysis.interval))}s`,
+      })
+      const value = await client.queryValue(query, config.signal)
+      custom[name] = value
+
+      if (value === null) {
+        return { passed: false, reason: `Custom metric "${name}" returned no data`, metrics, custom }
+      }
+      if (definition.min !== undefined && value < definition.min) {
+        return { passed: false, reason: `Metric ${name} ${value} below minimum ${definition.min}`, metrics, custom }
       }
+      if (definition.max !== undefined && value > definition.max) {
+        return { passed: false, reason: `Metric ${name} ${value} above maximum ${definition.max}`, metrics, custom }
+      }
+    }
 
-      if (threshold.errorRate && mockMetrics.errorRate > threshold.errorRate) {
-        return { 
-          passed: false, 
-          reason: `Error rate ${mockMetrics.errorRate} above threshold ${threshold.errorRate}` 
-        }
+    // 6. 与基线对比
+    let comparison: CanaryMetricVerdict[] | undefined
+    if (analysis.comparison) {
+      const baselineLabels = analysis.comparison.baselineLabels || {
+        ...labels,
+        version: config.baselineVersion,
       }
+      comparison = await new BaselineComparator(client).compare(
+        baselineLabels,
+        labels,
+        analysis.interval,
+        analysis.comparison,
+        config.signal
+      )
 
-      if (threshold.latency && mockMetrics.latency > threshold.latency) {
-        return { 
-          passed: false, 
-          reason: `Latency ${mockMetrics.latency}ms above threshold ${threshold.latency}ms` 
-        }
+      const reason = BaselineComparator.describeFailures(comparison)
+      if (reason) {
+        return { passed: false, reason: `Canary degraded compared to baseline: ${reason}`, metrics, custom, comparison }
       }
     }
 
     logger.success('Metrics analysis passed')
-    return { passed: true }
+    return { passed: true, metrics, custom, comparison }
+  }
+
+  /**
+   * 检查内置指标阈值
+   * 
+   * @private
+   * @returns 失败原因，全部通过时返回 undefined
+   */
+  private checkThresholds(
+    metrics: DeploymentMetrics,
+    threshold: NonNullable<CanaryDeployConfig['analysis']>['threshold']
+  ): string | undefined {
+    if (threshold.successRate !== undefined && metrics.availability < threshold.successRate) {
+      return `Success rate ${metrics.availability} below threshold ${threshold.successRate}`
+    }
+
+    if (threshold.errorRate !== undefined && metrics.errorRate > threshold.errorRate) {
+      return `Error rate ${metrics.errorRate} above threshold ${threshold.errorRate}`
+    }
+
+    if (threshold.latency !== undefined && metrics.latency.p95 > threshold.latency) {
+      return `P95 latency ${metrics.latency.p95}ms above threshold ${threshold.latency}ms`
+    }
+
+    if (threshold.latencyP99 !== undefined && metrics.latency.p99 > threshold.latencyP99) {
+      return `P99 latency ${metrics.latency.p99}ms above threshold ${threshold.latencyP99}ms`
+    }
+
+    return undefined
   }
 
   /**
@@ -270,9 +441,10 @@ export class CanaryStrategy {
    * 
    * @private
    * @param ms - 等待时间（毫秒）
+   * @param signal - 中止信号
    */
-  private async wait(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms))
+  private async wait(ms: number, signal?: AbortSignal): Promise<void> {
+    return sleep(ms, signal)
   }
 
   /**
@@ -284,6 +456,14 @@ export class CanaryStrategy {
   private async rollback(config: CanaryDeployConfig): Promise<void> {
     logger.warn('Rolling back canary deployment...')
 
+    if (this.isContainerPlatform(config)) {
+      // 流量全部回到基线，删除金丝雀容器
+      await this.getContainerTraffic(config).apply([
+        { name: config.baselineVersion, image: `${config.image}:${config.baselineVersion}`, weight: 100 },
+      ])
+      logger.success('Rolled back to baseline version')
+    }
+
     if (config.platform === 'kubernetes') {
       // 删除金丝雀部署
       await this.k8sManager.delete('deployment', `${config.appName}-canary`, {
@@ -312,6 +492,14 @@ export class CanaryStrategy {
   private async promoteCanary(config: CanaryDeployConfig): Promise<void> {
     logger.info('Promoting canary to production...')
 
+    if (this.isContainerPlatform(config)) {
+      // 金丝雀成为唯一版本，删除基线容器
+      await this.getContainerTraffic(config).apply([
+        { name: config.canaryVersion, image: this.getCanaryImage(config), weight: 100 },
+      ])
+      logger.success('Canary promoted to production')
+    }
+
     if (config.platform === 'kubernetes') {
       // 更新主部署到金丝雀版本
       const productionManifest = this.buildProductionManifest(config)
@@ -335,6 +523,55 @@ export class CanaryStrategy {
     }
   }
 
+  /**
+   * 是否为容器平台（通过反向代理分配流量）
+   * 
+   * @private
+   */
+  private isContainerPlatform(config: CanaryDeployConfig): boolean {
+    return config.platform === 'docker' || config.platform === 'docker-compose'
+  }
+
+  /**
+   * 创建容器流量管理器
+   * 
+   * @private
+   * @param config - 部署配置
+   */
+  private getContainerTraffic(config: CanaryDeployConfig): ContainerTrafficManager {
+    return new ContainerTrafficManager(
+      {
+        appName: config.appName,
+        platform: config.platform as 'docker' | 'docker-compose',
+        port: config.port,
+        env: config.env,
+        proxy: config.proxy,
+      },
+      this.containerExecutor
+    )
+  }
+
+  /**
+   * 基线与金丝雀容器（按版本命名），金丝雀获得 weight% 流量
+   * 
+   * @private
+   */
+  private getContainerVariants(config: CanaryDeployConfig, weight: number) {
+    return [
+      { name: config.baselineVersion, image: `${config.image}:${config.baselineVersion}`, weight: 100 - weight },
+      { name: config.canaryVersion, image: this.getCanaryImage(config), weight },
+    ]
+  }
+
+  /**
+   * 金丝雀镜像：优先使用按摘要固定的镜像
+   *
+   * @private
+   */
+  private getCanaryImage(config: CanaryDeployConfig): string {
+    return config.pinnedImage || `${config.image}:${config.canaryVersion}`
+  }
+
   /**
    * 构建金丝雀部署清单
    * 
@@ -370,29 +607,7 @@ spec:
         deployment-type: canary
     spec:
       containers:
-      - name: ${config.appName}
-        image: ${config.image}:${config.canaryVersion}
-        ports:
-        - containerPort: ${config.port || 8080}
-        resources:
-          requests:
-            cpu: 100m
-            memory: 128Mi
-          limits:
-            cpu: 500m
-            memory: 512Mi
-        livenessProbe:
-          httpGet:
-            path: ${config.healthCheck?.path || '/health'}
-            port: ${config.port || 8080}
-          initialDelaySeconds: 30
-          periodSeconds: 10
-        readinessProbe:
-          httpGet:
-            path: ${config.healthCheck?.path || '/health'}
-            port: ${config.port || 8080}
-          initialDelaySeconds: 5
-          periodSeconds: 5
+${this.manifestGenerator.generateStrategyContainer(config, this.getCanaryImage(config))}
 `
   }
 
@@ -425,29 +640,7 @@ spec:
         version: ${config.canaryVersion}
     spec:
       containers:
-      - name: ${config.appName}
-        image: ${config.image}:${config.canaryVersion}
-        ports:
-        - containerPort: ${config.port || 8080}
-        resources:
-          requests:
-            cpu: 100m
-            memory: 128Mi
-          limits:
-            cpu: 500m
-            memory: 512Mi
-        livenessProbe:
-          httpGet:
-            path: ${config.healthCheck?.path || '/health'}
-            port: ${config.port || 8080}
-          initialDelaySeconds: 30
-          periodSeconds: 10
-        readinessProbe:
-          httpGet:
-            path: ${config.healthCheck?.path || '/health'}
-            port: ${config.port || 8080}
-          initialDelaySeconds: 5
-          periodSeconds: 5
+${this.manifestGenerator.generateStrategyContainer(config, this.getCanaryImage(config))}
 `
   }
 }
@@ -0,0 +1,62 @@
+/**
+ * 蓝绿待切换状态存储
+ * @module strategies/PromotionStore
+ *
+ * @description 以 JSON 文件持久化手动/定时切换的蓝绿发布，
+ * 使部署进程退出后仍可通过 CLI 查看、切换或放弃
+ */
+
+import { resolve } from 'path'
+import { readJSON, writeJSON, fileExists } from '../utils/file-system.js'
+import type { PendingPromotion } from '../types/index.js'
+
+export class PromotionStore {
+  private storeFile: string
+
+  constructor(storeFile = '.deploy-promotions.json') {
+    this.storeFile = resolve(process.cwd(), storeFile)
+  }
+
+  /**
+   * 获取所有待切换记录
+   */
+  async list(): Promise<PendingPromotion[]> {
+    if (!fileExists(this.storeFile)) {
+      return []
+    }
+
+    return readJSON<PendingPromotion[]>(this.storeFile)
+  }
+
+  /**
+   * 获取指定应用的待切换记录
+   */
+  async get(appName: string, namespace = 'default'): Promise<PendingPromotion | null> {
+    const records = await this.list()
+    return records.find(r => r.appName === appName && r.namespace === namespace) || null
+  }
+
+  /**
+   * 保存记录（同一应用 + 命名空间只保留一条）
+   */
+  async save(record: PendingPromotion): Promise<void> {
+    const records = (await this.list()).filter(
+      r => !(r.appName === record.appName && r.namespace === record.namespace)
+    )
+
+    records.push(record)
+    await writeJSON(this.storeFile, records)
+  }
+
+  /**
+   * 删除记录
+   */
+  async remove(appName: string, namespace = 'default'): Promise<void> {
+    const records = await this.list()
+    const remaining = records.filter(r => !(r.appName === appName && r.namespace === namespace))
+
+    if (remaining.length !== records.length) {
+      await writeJSON(this.storeFile, remaining)
+    }
+  }
+}
@@ -1,48 +1,323 @@
 /**
  * 滚动更新策略
+ * @module strategies/RollingStrategy
+ *
+ * @description 更新 Deployment 的 rollingUpdate 参数并替换镜像，
+ * 按批次暂停/恢复滚动更新，周期性检查健康状态，失败时执行 rollout undo
  */
 
 import { logger } from '../utils/logger.js'
-import type { RollingUpdateConfig, StrategyResult } from '../types/index.js'
+import { sleep } from '../utils/retry.js'
+import { DeploymentManager } from '../kubernetes/DeploymentManager.js'
+import { HealthChecker } from '../core/HealthChecker.js'
+import type { K8sDeployOptions, RollingUpdateConfig, StrategyResult } from '../types/index.js'
 
+/**
+ * 单批次记录
+ */
+export interface RollingBatchRecord {
+  batch: number
+  updatedReplicas: number
+  desiredReplicas: number
+  timestamp: string
+}
+
+/**
+ * 滚动过程状态
+ */
+interface RolloutState {
+  started: boolean
+  paused: boolean
+  batches: RollingBatchRecord[]
+}
+
+const DEFAULT_HEALTH_CHECK_INTERVAL = 5
+const DEFAULT_TIMEOUT = 600
+
+/**
+ * 滚动更新策略类
+ *
+ * @example
+ * ```typescript
+ * const strategy = new RollingStrategy();
+ *
+ * const result = await strategy.deploy({
+ *   appName: 'shop',
+ *   image: 'registry.example.com/shop',
+ *   version: '1.1.0',
+ *   namespace: 'prod',
+ *   maxSurge: '25%',
+ *   maxUnavailable: 0,
+ *   pauseBetweenBatches: 30,
+ *   healthCheckInterval: 5
+ * });
+ * ```
+ */
 export class RollingStrategy {
+  private k8sManager: DeploymentManager
+  private healthChecker: HealthChecker
+
+  constructor(k8sManager: DeploymentManager = new DeploymentManager()) {
+    this.k8sManager = k8sManager
+    this.healthChecker = new HealthChecker()
+  }
+
   /**
    * 执行滚动更新
    */
   async deploy(config: RollingUpdateConfig): Promise<StrategyResult> {
     logger.info('🔄 Executing Rolling Update...')
 
+    const options: K8sDeployOptions = {
+      namespace: config.namespace || 'default',
+      signal: config.signal,
+    }
+    const state: RolloutState = { started: false, paused: false, batches: [] }
+    const image = config.pinnedImage || (config.version ? `${config.image}:${config.version}` : config.image)
+
     try {
-      // Kubernetes 默认支持滚动更新，这里主要是配置和监控
-      logger.info('Configuring rolling update parameters...')
-      logger.info(`Max surge: ${config.maxSurge}`)
-      logger.info(`Max unavailable: ${config.maxUnavailable}`)
+      if (config.platform && config.platform !== 'kubernetes') {
+        throw new Error(`Rolling update is only supported on kubernetes, got ${config.platform}`)
+      }
 
-      // 执行更新
-      logger.info('Applying rolling update...')
+      // 1. 配置滚动更新参数
+      logger.info(`Configuring rolling update: maxSurge=${config.maxSurge}, maxUnavailable=${config.maxUnavailable}`)
+      await this.k8sManager.patch(config.appName, {
+        spec: {
+          strategy: {
+            type: 'RollingUpdate',
+            rollingUpdate: {
+              maxSurge: config.maxSurge,
+              maxUnavailable: config.maxUnavailable,
+            },
+          },
+        },
+      }, options)
 
-      // 监控更新进度
+      // 2. 更新镜像（分批时先暂停，避免镜像更新后立即全部滚动）
+      const batching = (config.pauseBetweenBatches ?? 0) > 0
+      if (batching) {
+        await this.k8sManager.pauseRollout(config.appName, options)
+        state.paused = true
+      }
+
+      logger.info(`Applying rolling update to ${image}...`)
+      await this.k8sManager.setImage(config.appName, config.container || config.appName, image, options)
+      state.started = true
+
+      if (batching) {
+        await this.k8sManager.resumeRollout(config.appName, options)
+        state.paused = false
+      }
+
+      // 3. 监控更新进度
       logger.info('Monitoring rollout progress...')
+      await this.supervise(config, options, state)
+
+      logger.success('Rolling update completed')
 
       return {
         success: true,
         strategy: 'rolling',
         message: 'Rolling update completed successfully',
+        details: { image, batches: state.batches },
         timestamp: new Date().toISOString(),
       }
     } catch (error: any) {
       logger.error('Rolling update failed:', error.message)
 
+      // 回滚不受中止信号影响；镜像尚未更新时只恢复暂停的 Deployment
+      const restoreOptions = { ...options, signal: undefined }
+      let rolledBack = false
+      if (state.started) {
+        rolledBack = await this.rollback(config, restoreOptions, state)
+      } else if (state.paused) {
+        await this.resume(config, restoreOptions, state)
+      }
+
       return {
         success: false,
         strategy: 'rolling',
         message: error.message,
+        details: { image, batches: state.batches, rolledBack },
         timestamp: new Date().toISOString(),
       }
     }
   }
-}
 
+  /**
+   * 监控滚动进度，按批次暂停并周期性检查健康状态
+   *
+   * @private
+   */
+  private async supervise(config: RollingUpdateConfig, options: K8sDeployOptions, state: RolloutState): Promise<void> {
+    const interval = (config.healthCheckInterval ?? DEFAULT_HEALTH_CHECK_INTERVAL) * 1000
+    const timeout = config.timeout ?? DEFAULT_TIMEOUT
+    const deadline = Date.now() + timeout * 1000
+    const pauseSeconds = config.pauseBetweenBatches ?? 0
+    let batchStart = 0
+
+    while (true) {
+      if (Date.now() > deadline) {
+        throw new Error(`Rolling update timed out after ${timeout}s`)
+      }
+
+      const deployment = await this.k8sManager.getStatus(config.appName, options)
+      if (!deployment) {
+        throw new Error('Failed to get deployment status')
+      }
+
+      const status = deployment.status || {}
+      const desired = deployment.spec?.replicas ?? config.replicas ?? 1
+      const updated = status.updatedReplicas || 0
+      const available = status.availableReplicas || 0
+      const ready = status.readyReplicas || 0
+
+      logger.info(`Rollout status: ${updated}/${desired} updated, ${available}/${desired} available, ${ready}/${desired} ready`)
+
+      const progressing = (status.conditions || []).find((c: any) => c.type === 'Progressing')
+      if (progressing?.reason === 'ProgressDeadlineExceeded') {
+        throw new Error(`Rollout exceeded its progress deadline: ${progressing.message || ''}`.trim())
+      }
+
+      await this.checkHealth(config, options)
+
+      const observed = (status.observedGeneration ?? 0) >= (deployment.metadata?.generation ?? 0)
+      if (observed && updated === desired && available === desired && ready === desired && (status.replicas ?? desired) === desired) {
+        return
+      }
+
+      // 批次完成：暂停滚动，观察一段时间后继续
+      const batchSize = this.getBatchSize(config, desired)
+      if (pauseSeconds > 0 && updated < desired && updated - batchStart >= batchSize) {
+        state.batches.push({
+          batch: state.batches.length + 1,
+          updatedReplicas: updated,
+          desiredReplicas: desired,
+          timestamp: new Date().toISOString(),
+        })
+
+        await this.k8sManager.pauseRollout(config.appName, options)
+        state.paused = true
+
+        logger.info(`Batch ${state.batches.length} done (${updated}/${desired}), pausing ${pauseSeconds}s...`)
+        await this.watchDuringPause(config, options, pauseSeconds * 1000, interval)
+
+        await this.k8sManager.resumeRollout(config.appName, options)
+        state.paused = false
+        batchStart = updated
+        continue
+      }
+
+      await this.wait(interval, config.signal)
+    }
+  }
+
+  /**
+   * 批次间暂停期间继续检查健康状态
+   *
+   * @private
+   */
+  private async watchDuringPause(
+    config: RollingUpdateConfig,
+    options: K8sDeployOptions,
+    duration: number,
+    interval: number
+  ): Promise<void> {
+    const end = Date.now() + duration
+
+    while (Date.now() < end) {
+      await this.wait(Math.min(Math.max(interval, 1), end - Date.now()), config.signal)
+      await this.checkHealth(config, options)
+    }
+  }
 
+  /**
+   * 健康检查：Pod 不可恢复状态 + 可选的 HTTP 健康检查
+   *
+   * @private
+   */
+  private async checkHealth(config: RollingUpdateConfig, options: K8sDeployOptions): Promise<void> {
+    const failing = await this.k8sManager.getFailingPods(config.appName, options)
+    if (failing.length > 0) {
+      throw new Error(
+        `Unhealthy pods detected: ${failing.map(pod => `${pod.name} (${pod.reason})`).join(', ')}`
+      )
+    }
 
+    if (config.healthCheck?.enabled) {
+      const result = await this.healthChecker.check(config.healthCheck, config.signal)
+      if (!result.healthy) {
+        throw new Error(`Health check failed: ${result.message}`)
+      }
+    }
+  }
+
+  /**
+   * 每批次更新的 Pod 数量（maxSurge 向上取整 + maxUnavailable 向下取整，与 Kubernetes 一致）
+   *
+   * @private
+   */
+  private getBatchSize(config: RollingUpdateConfig, desired: number): number {
+    const surge = this.resolveValue(config.maxSurge, desired, Math.ceil)
+    const unavailable = this.resolveValue(config.maxUnavailable, desired, Math.floor)
+
+    return Math.max(1, surge + unavailable)
+  }
+
+  private resolveValue(value: number | string, total: number, round: (n: number) => number): number {
+    if (typeof value === 'number') {
+      return value
+    }
+
+    if (value.endsWith('%')) {
+      return round((parseFloat(value) / 100) * total)
+    }
 
+    return parseInt(value, 10) || 0
+  }
+
+  /**
+   * 回滚到上一个修订版本（暂停状态下需先恢复，否则无法 undo）
+   *
+   * @private
+   * @returns 是否回滚成功
+   */
+  private async rollback(config: RollingUpdateConfig, options: K8sDeployOptions, state: RolloutState): Promise<boolean> {
+    try {
+      if (state.paused) {
+        await this.k8sManager.resumeRollout(config.appName, options)
+        state.paused = false
+      }
+
+      await this.k8sManager.undoRollout(config.appName, options)
+      return true
+    } catch (error: any) {
+      logger.error('Failed to roll back rolling update:', error.message)
+      return false
+    }
+  }
+
+  /**
+   * 恢复暂停的滚动，失败只输出错误
+   *
+   * @private
+   */
+  private async resume(config: RollingUpdateConfig, options: K8sDeployOptions, state: RolloutState): Promise<void> {
+    try {
+      await this.k8sManager.resumeRollout(config.appName, options)
+      state.paused = false
+    } catch (error: any) {
+      logger.error('Failed to resume paused rollout:', error.message)
+    }
+  }
+
+  /**
+   * 等待指定时间
+   *
+   * @private
+   */
+  private async wait(ms: number, signal?: AbortSignal): Promise<void> {
+    return sleep(ms, signal)
+  }
+}
@@ -0,0 +1,416 @@
+/**
+ * 影子发布策略
+ * @module strategies/ShadowStrategy
+ *
+ * @description 部署不对外服务的影子版本，通过 Istio mirror 或 NGINX mirror
+ * 将生产流量复制给它，对比影子版本与生产版本的错误率和延迟，
+ * 判断新版本是否可以安全发布；影子版本的响应会被丢弃，不影响用户。
+ * 影子 Pod 使用独立的 app 标签（<app>-shadow）和 Service，不会被生产 Service 选中
+ */
+
+import { logger } from '../utils/logger.js'
+import { sleep } from '../utils/retry.js'
+import { DeploymentManager } from '../kubernetes/DeploymentManager.js'
+import { TrafficManifestGenerator } from '../kubernetes/TrafficManifestGenerator.js'
+import { ManifestGenerator } from '../kubernetes/ManifestGenerator.js'
+import { PrometheusClient } from '../monitoring/PrometheusClient.js'
+import { BaselineComparator } from '../monitoring/BaselineComparator.js'
+import type {
+  DeploymentMetrics,
+  ShadowCheck,
+  ShadowDeployConfig,
+  ShadowReport,
+  StrategyResult,
+  TrafficConfig,
+} from '../types/index.js'
+
+/**
+ * 影子发布策略类
+ *
+ * @description 影子版本会真实处理镜像请求，存在写操作的服务需自行隔离下游依赖
+ * （如使用独立数据库或只读模式），避免重复写入
+ *
+ * @example
+ * ```typescript
+ * const strategy = new ShadowStrategy();
+ *
+ * const result = await strategy.deploy({
+ *   appName: 'shop',
+ *   image: 'registry.example.com/shop',
+ *   platform: 'kubernetes',
+ *   productionVersion: '1.0.0',
+ *   shadowVersion: '1.1.0',
+ *   mirrorPercentage: 50,
+ *   duration: 900,
+ *   analysis: {
+ *     prometheus: { url: 'http://prometheus:9090' },
+ *     maxErrorRateIncrease: 0.005,
+ *     maxLatencyIncrease: 0.2
+ *   }
+ * });
+ *
+ * console.log(result.details.safeToPromote);
+ * ```
+ */
+export class ShadowStrategy {
+  private k8sManager: DeploymentManager
+  private trafficGenerator: TrafficManifestGenerator
+  private manifestGenerator: ManifestGenerator
+
+  constructor(k8sManager: DeploymentManager = new DeploymentManager()) {
+    this.k8sManager = k8sManager
+    this.trafficGenerator = new TrafficManifestGenerator()
+    this.manifestGenerator = new ManifestGenerator()
+  }
+
+  /**
+   * 执行影子发布
+   *
+   * @description 流程：
+   * 1. 部署影子版本
+   * 2. 配置流量镜像
+   * 3. 观察 duration 秒
+   * 4. 对比影子与生产指标
+   * 5. 撤销镜像并删除影子版本（cleanup 为 false 时保留）
+   *
+   * @returns success 表示影子版本可以安全发布
+   */
+  async deploy(config: ShadowDeployConfig): Promise<StrategyResult> {
+    logger.info('👥 Executing Shadow deployment...')
+
+    const percentage = config.mirrorPercentage ?? 100
+    let report: ShadowReport | undefined
+
+    try {
+      if (percentage <= 0 || percentage > 100) {
+        throw new Error(`Mirror percentage must be between 1 and 100, got ${percentage}`)
+      }
+
+      // 1. 部署影子版本
+      logger.info(`Deploying shadow version: ${config.shadowVersion}`)
+      await this.deployShadow(config)
+
+      // 2. 镜像生产流量
+      logger.info(`Mirroring ${percentage}% of production traffic to shadow...`)
+      await this.applyTraffic(config, this.buildTrafficConfig(config, true))
+
+      // 3. 观察
+      if (config.duration > 0) {
+        logger.info(`Observing shadow for ${config.duration}s...`)
+        await sleep(config.duration * 1000, config.signal)
+      }
+
+      // 4. 对比
+      report = await this.analyze(config)
+
+      if (report.safeToPromote) {
+        logger.success(`Shadow version ${config.shadowVersion} is safe to promote`)
+      } else {
+        logger.warn(`Shadow version ${config.shadowVersion} is not safe to promote: ${report.reason}`)
+      }
+
+      return {
+        success: report.safeToPromote,
+        strategy: 'shadow',
+        message: report.reason,
+        details: report,
+        timestamp: new Date().toISOString(),
+      }
+    } catch (error: any) {
+      logger.error('Shadow deployment failed:', error.message)
+
+      return {
+        success: false,
+        strategy: 'shadow',
+        message: error.message,
+        details: report,
+        timestamp: new Date().toISOString(),
+      }
+    } finally {
+      // 5. 清理
+      if (config.cleanup !== false) {
+        await this.cleanup(config)
+      }
+    }
+  }
+
+  /**
+   * 构建流量配置：用户流量全部路由到生产版本，按比例镜像到影子版本
+   */
+  buildTrafficConfig(config: ShadowDeployConfig, mirror: boolean): TrafficConfig {
+    return {
+      routing: [{ destination: 'production', weight: 100 }],
+      mirror: mirror
+        ? { enabled: true, destination: 'shadow', percentage: config.mirrorPercentage ?? 100 }
+        : undefined,
+    }
+  }
+
+  /**
+   * 对比影子版本与生产版本
+   */
+  async analyze(config: ShadowDeployConfig): Promise<ShadowReport> {
+    const { analysis } = config
+    const client = new PrometheusClient(analysis.prometheus)
+    const window = Math.max(1, config.duration)
+
+    const productionLabels = this.getLabels(config, config.appName, config.productionVersion)
+    const shadowLabels = this.getLabels(config, this.getShadowName(config), config.shadowVersion, true)
+
+    const [production, shadow] = await Promise.all([
+      client.collectDeploymentMetrics(productionLabels, window, config.signal),
+      client.collectDeploymentMetrics(shadowLabels, window, config.signal),
+    ])
+
+    logger.info(
+      `Production: errors=${(production.errorRate * 100).toFixed(2)}%, p95=${production.latency.p95}ms; ` +
+      `Shadow: errors=${(shadow.errorRate * 100).toFixed(2)}%, p95=${shadow.latency.p95}ms`
+    )
+
+    const checks = this.checkMetrics(config, production, shadow)
+    const report: ShadowReport = {
+      safeToPromote: true,
+      reason: `Shadow version ${config.shadowVersion} matches production`,
+      production,
+      shadow,
+      checks,
+    }
+
+    if (!checks.find(check => check.metric === 'requestRate')!.passed) {
+      report.safeToPromote = false
+      report.reason = 'Shadow received no mirrored traffic'
+      return report
+    }
+
+    const failed = checks.filter(check => !check.passed)
+    if (failed.length > 0) {
+      report.safeToPromote = false
+      report.reason = `Shadow degraded compared to production: ${failed.map(check => this.describeCheck(check)).join('; ')}`
+      return report
+    }
+
+    if (analysis.comparison) {
+      report.comparison = await new BaselineComparator(client).compare(
+        analysis.comparison.baselineLabels || productionLabels,
+        shadowLabels,
+        window,
+        analysis.comparison,
+        config.signal
+      )
+
+      const reason = BaselineComparator.describeFailures(report.comparison)
+      if (reason) {
+        report.safeToPromote = false
+        report.reason = `Shadow degraded compared to production: ${reason}`
+      }
+    }
+
+    return report
+  }
+
+  /**
+   * 阈值检查：影子版本需有流量，错误率增量与延迟增幅不超过上限
+   */
+  private checkMetrics(
+    config: ShadowDeployConfig,
+    production: DeploymentMetrics,
+    shadow: DeploymentMetrics
+  ): ShadowCheck[] {
+    const maxErrorRateIncrease = config.analysis.maxErrorRateIncrease ?? 0.01
+    const maxLatencyIncrease = config.analysis.maxLatencyIncrease ?? 0.1
+
+    const latencyCheck = (metric: 'latencyP95' | 'latencyP99', prod: number, candidate: number): ShadowCheck => {
+      const limit = prod * (1 + maxLatencyIncrease)
+      // 生产版本无延迟数据时无法对比，不判定为失败
+      return { metric, production: prod, shadow: candidate, limit, passed: prod <= 0 || candidate <= limit }
+    }
+
+    const errorLimit = production.errorRate + maxErrorRateIncrease
+
+    return [
+      {
+        metric: 'requestRate',
+        production: production.requestRate,
+        shadow: shadow.requestRate,
+        limit: 0,
+        passed: shadow.requestRate > 0,
+      },
+      {
+        metric: 'errorRate',
+        production: production.errorRate,
+        shadow: shadow.errorRate,
+        limit: errorLimit,
+        passed: shadow.errorRate <= errorLimit,
+      },
+      latencyCheck('latencyP95', production.latency.p95, shadow.latency.p95),
+      latencyCheck('latencyP99', production.latency.p99, shadow.latency.p99),
+    ]
+  }
+
+  private describeCheck(check: ShadowCheck): string {
+    if (check.metric === 'errorRate') {
+      return `errorRate ${(check.shadow * 100).toFixed(2)}% (production ${(check.production * 100).toFixed(2)}%, limit ${(check.limit * 100).toFixed(2)}%)`
+    }
+
+    return `${check.metric} ${check.shadow}ms (production ${check.production}ms, limit ${check.limit.toFixed(0)}ms)`
+  }
+
+  /**
+   * Prometheus 标签选择器，在自定义标签基础上按版本区分
+   *
+   * @param shadow - 影子版本的选择器始终使用影子 Pod 的 app 标签，自定义标签中的 app 只适用于生产版本
+   */
+  private getLabels(config: ShadowDeployConfig, app: string, version: string, shadow = false): Record<string, string> {
+    const labels = config.analysis.prometheus.labels
+
+    return {
+      ...(labels || { app }),
+      ...(labels && shadow ? { app } : {}),
+      version,
+    }
+  }
+
+  /**
+   * 渲染并应用路由资源
+   *
+   * @description 影子目标始终路由到影子 Service；restore 为 true 时生产目标路由回主 Service，
+   * 不再依赖 NGINX 下生成的 <app>-production Service
+   */
+  private async applyTraffic(config: ShadowDeployConfig, traffic: TrafficConfig, restore = false): Promise<void> {
+    const provider = config.provider || 'istio'
+    const shadowName = this.getShadowName(config)
+
+    const manifest = this.trafficGenerator.generate(traffic, provider, {
+      name: config.appName,
+      namespace: config.namespace || 'default',
+      host: config.host,
+      targetPort: config.port || 8080,
+      gateways: config.gateways,
+      ingressClassName: config.ingressClassName,
+      subsets: {
+        production: { app: config.appName, version: config.productionVersion },
+        shadow: { app: shadowName, version: config.shadowVersion },
+      },
+      services: restore
+        ? { production: config.appName, shadow: shadowName }
+        : { shadow: shadowName },
+    })
+
+    // 清理时恢复路由不受中止信号影响
+    await this.k8sManager.apply(manifest, {
+      namespace: config.namespace || 'default',
+      signal: restore ? undefined : config.signal,
+    })
+
+    logger.success(`Traffic routing applied (${provider})`)
+  }
+
+  /**
+   * 撤销镜像，删除影子版本及路由用的 Service，失败只输出警告
+   */
+  private async cleanup(config: ShadowDeployConfig): Promise<void> {
+    logger.info('Cleaning up shadow deployment...')
+
+    const options = { namespace: config.namespace || 'default' }
+
+    try {
+      await this.applyTraffic(config, this.buildTrafficConfig(config, false), true)
+      await this.k8sManager.delete('deployment', this.getShadowName(config), options)
+      await this.k8sManager.delete('service', this.trafficGenerator.getServiceName(config.appName, 'shadow'), options)
+
+      // 仅 NGINX 会为生产目标生成独立 Service
+      if (config.provider === 'nginx') {
+        await this.k8sManager.delete('service', this.trafficGenerator.getServiceName(config.appName, 'production'), options)
+      }
+
+      logger.success('Shadow deployment removed')
+    } catch (error: any) {
+      logger.warn(`Failed to clean up shadow deployment: ${error.message}`)
+    }
+  }
+
+  /**
+   * 部署影子版本
+   */
+  private async deployShadow(config: ShadowDeployConfig): Promise<void> {
+    await this.k8sManager.deployWithMonitoring(
+      this.buildShadowManifest(config),
+      this.getShadowName(config),
+      {
+        namespace: config.namespace || 'default',
+        timeout: 300,
+        wait: true,
+        signal: config.signal,
+      }
+    )
+
+    logger.success('Shadow version deployed')
+  }
+
+  private getShadowName(config: ShadowDeployConfig): string {
+    return `${config.appName}-shadow`
+  }
+
+  /**
+   * 影子镜像：优先使用按摘要固定的镜像
+   */
+  private getShadowImage(config: ShadowDeployConfig): string {
+    return config.pinnedImage || `${config.image}:${config.shadowVersion}`
+  }
+
+  /**
+   * 构建影子版本的 Deployment 与 Service 清单
+   *
+   * @description 影子 Pod 的 app 标签为 <app>-shadow，生产 Service 和 Deployment 的 app 选择器都匹配不到它，
+   * 镜像流量经由同名的影子 Service 到达；容器环境变量与生产版本相同
+   */
+  buildShadowManifest(config: ShadowDeployConfig): string {
+    const shadowName = this.getShadowName(config)
+
+    return `
+apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: ${shadowName}
+  namespace: ${config.namespace || 'default'}
+  labels:
+    app: ${shadowName}
+    version: "${config.shadowVersion}"
+    track: shadow
+spec:
+  replicas: ${config.replicas || 1}
+  selector:
+    matchLabels:
+      app: ${shadowName}
+      track: shadow
+  template:
+    metadata:
+      labels:
+        app: ${shadowName}
+        version: "${config.shadowVersion}"
+        track: shadow
+    spec:
+      containers:
+${this.manifestGenerator.generateStrategyContainer(config, this.getShadowImage(config))}
+---
+apiVersion: v1
+kind: Service
+metadata:
+  name: ${shadowName}
+  namespace: ${config.namespace || 'default'}
+  labels:
+    app: ${shadowName}
+    track: shadow
+spec:
+  type: ClusterIP
+  selector:
+    app: ${shadowName}
+    track: shadow
+  ports:
+  - name: http
+    protocol: TCP
+    port: 80
+    targetPort: ${config.port || 8080}
+`
+  }
+}
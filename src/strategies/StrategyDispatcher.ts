@@ -0,0 +1,329 @@
+/**
+ * 发布策略分发
+ * @module strategies/StrategyDispatcher
+ *
+ * @description 将 DeployConfig 中的部署策略配置（kubernetes.deployment.strategy，
+ * docker / docker-compose 平台为 docker.strategy）转换为各策略的执行配置，并调用对应的策略完成发布
+ */
+
+import { logger } from '../utils/logger.js'
+import { ConfigError } from '../utils/errors.js'
+import { DeploymentManager, type CommandExecutor } from '../kubernetes/DeploymentManager.js'
+import { ContainerTrafficManager } from '../docker/ContainerTrafficManager.js'
+import { ImageBuilder } from '../docker/ImageBuilder.js'
+import { ConfigInterpolator } from '../core/ConfigInterpolator.js'
+import { BlueGreenStrategy } from './BlueGreenStrategy.js'
+import { CanaryStrategy } from './CanaryStrategy.js'
+import { RollingStrategy } from './RollingStrategy.js'
+import type {
+  AnalysisConfig,
+  BlueGreenColor,
+  BlueGreenDeployConfig,
+  CanaryDeployConfig,
+  DeployConfig,
+  DeploymentStrategy,
+  DeploymentStrategyType,
+  RollingUpdateConfig,
+  StrategyResult,
+  StrategyTargetConfig,
+  StrategyType,
+} from '../types/index.js'
+
+/**
+ * 可由 DeployConfig 驱动的策略
+ */
+export type DispatchableStrategy = Extract<StrategyType, 'rolling' | 'bluegreen' | 'canary'>
+
+/**
+ * 策略执行上下文
+ */
+export interface StrategyDispatchContext {
+  /** 上一次成功部署的版本，作为金丝雀基线和蓝绿当前环境的版本 */
+  previousVersion?: string
+  /** 当前承载流量的蓝绿环境，未设置时从线上 Service 的选择器（容器平台为代理状态）中读取 */
+  activeColor?: BlueGreenColor
+  /** 中止信号，传给策略的发布过程 */
+  signal?: AbortSignal
+}
+
+const DISPATCHABLE_STRATEGIES: DispatchableStrategy[] = ['rolling', 'bluegreen', 'canary']
+
+/**
+ * docker / docker-compose 平台通过反向代理支持的策略
+ */
+const CONTAINER_STRATEGIES: DispatchableStrategy[] = ['bluegreen', 'canary']
+
+/**
+ * 配置中的策略类型 -> 策略
+ *
+ * @description Recreate 由 Kubernetes 原生处理，不经过发布策略
+ */
+const CONFIG_STRATEGY_MAP: Partial<Record<DeploymentStrategyType, DispatchableStrategy>> = {
+  RollingUpdate: 'rolling',
+  BlueGreen: 'bluegreen',
+  Canary: 'canary',
+}
+
+const DEFAULT_ANALYSIS_INTERVAL = 60
+
+/**
+ * 策略分发器类
+ *
+ * @example
+ * ```typescript
+ * const dispatcher = new StrategyDispatcher();
+ * const strategy = StrategyDispatcher.resolve(config, 'canary');
+ *
+ * if (strategy) {
+ *   const result = await dispatcher.execute(strategy, config, { previousVersion: '1.0.0' });
+ * }
+ * ```
+ */
+export class StrategyDispatcher {
+  private k8sManager: DeploymentManager
+  private containerExecutor?: CommandExecutor
+
+  constructor(k8sManager: DeploymentManager = new DeploymentManager(), containerExecutor?: CommandExecutor) {
+    this.k8sManager = k8sManager
+    this.containerExecutor = containerExecutor
+  }
+
+  /**
+   * 解析需要执行的策略
+   *
+   * @param config - 部署配置
+   * @param override - 命令行指定的策略（--strategy），优先于配置
+   * @returns 策略，未配置或为 Recreate 时返回 undefined
+   * @throws {ConfigError} 当策略不支持由 DeployConfig 驱动或当前平台不支持时抛出
+   */
+  static resolve(config: DeployConfig, override?: string): DispatchableStrategy | undefined {
+    const supported = config.platform === 'kubernetes' ? DISPATCHABLE_STRATEGIES : CONTAINER_STRATEGIES
+
+    let strategy: DispatchableStrategy | undefined
+    if (override) {
+      if (!DISPATCHABLE_STRATEGIES.includes(override as DispatchableStrategy)) {
+        throw new ConfigError(`Unsupported deployment strategy: ${override}`, {
+          field: 'strategy',
+          suggestion: `可选值: ${DISPATCHABLE_STRATEGIES.join(', ')}`,
+        })
+      }
+      strategy = override as DispatchableStrategy
+    } else {
+      const type = StrategyDispatcher.getStrategyConfig(config)?.type
+      strategy = type ? CONFIG_STRATEGY_MAP[type] : undefined
+    }
+
+    if (strategy && !supported.includes(strategy)) {
+      throw new ConfigError(`Strategy ${strategy} is not supported on platform ${config.platform}`, {
+        field: 'strategy',
+        suggestion: `可选值: ${supported.join(', ')}`,
+      })
+    }
+
+    return strategy
+  }
+
+  /**
+   * 获取当前平台的策略配置
+   */
+  static getStrategyConfig(config: DeployConfig): DeploymentStrategy | undefined {
+    return config.platform === 'kubernetes'
+      ? config.kubernetes?.deployment?.strategy
+      : config.docker?.strategy
+  }
+
+  /**
+   * 执行策略
+   */
+  async execute(
+    strategy: DispatchableStrategy,
+    config: DeployConfig,
+    context: StrategyDispatchContext = {}
+  ): Promise<StrategyResult> {
+    logger.info(`Dispatching to ${strategy} strategy`)
+
+    switch (strategy) {
+      case 'rolling':
+        return new RollingStrategy(this.k8sManager).deploy({ ...this.toRollingConfig(config), signal: context.signal })
+      case 'canary':
+        return new CanaryStrategy(this.k8sManager, this.containerExecutor).deploy({
+          ...this.toCanaryConfig(config, context),
+          signal: context.signal,
+        })
+      case 'bluegreen': {
+        const activeColor = context.activeColor || await this.detectActiveColor(config)
+        return new BlueGreenStrategy(this.k8sManager, undefined, this.containerExecutor).deploy({
+          ...this.toBlueGreenConfig(config, { ...context, activeColor }),
+          signal: context.signal,
+        })
+      }
+    }
+  }
+
+  /**
+   * 转换为滚动更新配置
+   */
+  toRollingConfig(config: DeployConfig): RollingUpdateConfig {
+    const rollingUpdate = StrategyDispatcher.getStrategyConfig(config)?.rollingUpdate
+
+    return {
+      ...this.toTarget(config),
+      version: config.version,
+      maxSurge: rollingUpdate?.maxSurge ?? '25%',
+      maxUnavailable: rollingUpdate?.maxUnavailable ?? '25%',
+    }
+  }
+
+  /**
+   * 转换为金丝雀配置
+   *
+   * @description 步骤的 pause（秒）作为该步骤的持续时间；上一次成功部署的版本作为基线
+   * @throws {ConfigError} 缺少 canary 配置或基线版本时抛出
+   */
+  toCanaryConfig(config: DeployConfig, context: StrategyDispatchContext = {}): CanaryDeployConfig {
+    const canary = StrategyDispatcher.getStrategyConfig(config)?.canary
+    if (!canary || canary.steps.length === 0) {
+      const field = `${this.getStrategyField(config)}.canary`
+      throw new ConfigError(`Canary strategy requires ${field}.steps`, { field })
+    }
+
+    if (!context.previousVersion) {
+      throw new ConfigError('Canary strategy requires a previous successful deployment as baseline', {
+        suggestion: '首次部署请使用 rolling 策略',
+      })
+    }
+
+    return {
+      ...this.toTarget(config),
+      baselineVersion: context.previousVersion,
+      canaryVersion: config.version,
+      steps: canary.steps.map(step => ({ weight: step.weight, duration: step.pause ?? 0 })),
+      analysis: canary.analysis ? this.toCanaryAnalysis(canary.analysis) : undefined,
+      autoRollback: true,
+    }
+  }
+
+  /**
+   * 转换为蓝绿配置
+   *
+   * @description autoPromote 为 false 时等待手动切换；设置 autoPromoteSeconds 时定时切换；否则立即切换
+   * @throws {ConfigError} 缺少 blueGreen 配置时抛出
+   */
+  toBlueGreenConfig(config: DeployConfig, context: StrategyDispatchContext = {}): BlueGreenDeployConfig {
+    const blueGreen = StrategyDispatcher.getStrategyConfig(config)?.blueGreen
+    if (!blueGreen) {
+      const field = `${this.getStrategyField(config)}.blueGreen`
+      throw new ConfigError(`Blue-green strategy requires ${field}`, { field })
+    }
+
+    const activeColor = context.activeColor || 'blue'
+    const activeVersion = context.previousVersion || config.version
+
+    let trafficSwitch: BlueGreenDeployConfig['trafficSwitch']
+    if (blueGreen.autoPromote === false) {
+      trafficSwitch = { manual: true }
+    } else if (blueGreen.autoPromoteSeconds) {
+      trafficSwitch = {
+        scheduled: { time: new Date(Date.now() + blueGreen.autoPromoteSeconds * 1000).toISOString() },
+      }
+    } else {
+      trafficSwitch = { immediate: true }
+    }
+
+    return {
+      ...this.toTarget(config),
+      blueVersion: activeColor === 'blue' ? activeVersion : config.version,
+      greenVersion: activeColor === 'green' ? activeVersion : config.version,
+      activeColor,
+      trafficSwitch,
+      rollbackOnError: true,
+      activeService: blueGreen.activeService,
+      previewService: blueGreen.previewService,
+    }
+  }
+
+  /**
+   * 从线上 Service 的选择器读取当前承载流量的环境
+   *
+   * @description 容器平台从最近一次应用的代理状态中读取获得流量的颜色
+   */
+  async detectActiveColor(config: DeployConfig): Promise<BlueGreenColor> {
+    if (config.platform !== 'kubernetes') {
+      const traffic = new ContainerTrafficManager(
+        { appName: config.name, platform: config.platform as 'docker' | 'docker-compose', proxy: config.docker?.proxy },
+        this.containerExecutor
+      )
+      const state = await traffic.getState()
+      const active = state?.variants.find(variant => variant.weight > 0 && (variant.name === 'blue' || variant.name === 'green'))
+      return active?.name === 'green' ? 'green' : 'blue'
+    }
+
+    const serviceName = config.kubernetes?.deployment?.strategy?.blueGreen?.activeService || config.name
+    const service = await this.k8sManager.getService(serviceName, {
+      namespace: config.kubernetes?.namespace || 'default',
+    })
+
+    const environment = service?.spec?.selector?.environment
+    return environment === 'green' ? 'green' : 'blue'
+  }
+
+  /**
+   * 公共部署目标
+   */
+  private toTarget(config: DeployConfig): StrategyTargetConfig {
+    const image = config.docker?.image || config.name
+
+    // 环境变量重新组装，持久化（蓝绿待切换记录）时仍需换回密钥引用
+    return ConfigInterpolator.bindReferences({
+      appName: config.name,
+      image: config.docker?.registry && !image.includes('/')
+        ? `${config.docker.registry}/${image}`
+        : image,
+      pinnedImage: config.docker?.digest ? ImageBuilder.getDeployReference(config) : undefined,
+      platform: config.platform,
+      namespace: config.kubernetes?.namespace,
+      replicas: config.kubernetes?.deployment?.replicas,
+      port: config.kubernetes?.service?.targetPort || config.healthCheck?.port,
+      healthCheck: config.healthCheck,
+      env: this.toContainerEnv(config),
+      resources: config.kubernetes?.deployment?.resources,
+      livenessProbe: config.kubernetes?.deployment?.livenessProbe,
+      readinessProbe: config.kubernetes?.deployment?.readinessProbe,
+      startupProbe: config.kubernetes?.deployment?.startupProbe,
+      proxy: config.docker?.proxy,
+    }, config)
+  }
+
+  /**
+   * 容器环境变量：env 与 secrets 合并，同名时 secrets 优先
+   */
+  private toContainerEnv(config: DeployConfig): Record<string, string> | undefined {
+    const entries = [...(config.env || []), ...(config.secrets || [])]
+    if (entries.length === 0) {
+      return undefined
+    }
+
+    return Object.fromEntries(entries.map(entry => [entry.name, entry.value]))
+  }
+
+  private getStrategyField(config: DeployConfig): string {
+    return config.platform === 'kubernetes' ? 'kubernetes.deployment.strategy' : 'docker.strategy'
+  }
+
+  /**
+   * 转换分析配置，成功率/错误率大于 1 时按百分比处理
+   */
+  private toCanaryAnalysis(analysis: AnalysisConfig): CanaryDeployConfig['analysis'] {
+    const ratio = (value?: number) => (value !== undefined && value > 1 ? value / 100 : value)
+
+    return {
+      interval: analysis.interval || DEFAULT_ANALYSIS_INTERVAL,
+      threshold: {
+        successRate: ratio(analysis.successRate),
+        errorRate: ratio(analysis.errorRate),
+        latency: analysis.latency,
+      },
+      prometheus: analysis.prometheus,
+    }
+  }
+}
@@ -0,0 +1,244 @@
+/**
+ * ABTestEvaluator 测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import { ABTestEvaluator, type ABTestMetricsSource } from '../ABTestEvaluator.js'
+import { ABTestStrategy } from '../ABTestStrategy.js'
+import { DeploymentManager } from '../../kubernetes/DeploymentManager.js'
+import type { ABTestConfig, ABTestVariantStats } from '../../types/index.js'
+
+function createSource(a: ABTestVariantStats, b: ABTestVariantStats): ABTestMetricsSource {
+  return {
+    getVariantStats: async variant => (variant === 'a' ? a : b),
+  }
+}
+
+describe('ABTestEvaluator', () => {
+  const evaluator = new ABTestEvaluator(createSource({ count: 0 }, { count: 0 }))
+
+  describe('proportion metrics', () => {
+    it('should pick B when conversion lift is significant and above threshold', () => {
+      const evaluation = evaluator.analyze(
+        { metric: 'conversion', threshold: 0.1, comparison: 'greater' },
+        { count: 1000, successes: 200 },
+        { count: 1000, successes: 250 }
+      )
+
+      expect(evaluation.test).toBe('two-proportion-z-test')
+      expect(evaluation.winner).toBe('b')
+      expect(evaluation.relativeChange).toBeCloseTo(0.25)
+      expect(evaluation.pValue).toBeCloseTo(0.0074, 3)
+      expect(evaluation.variants.b.confidenceInterval.lower).toBeCloseTo(0.2232, 3)
+      expect(evaluation.differenceInterval.lower).toBeGreaterThan(0)
+    })
+
+    it('should stay inconclusive when lift is significant but below threshold', () => {
+      const evaluation = evaluator.analyze(
+        { metric: 'conversion', threshold: 0.5, comparison: 'greater' },
+        { count: 1000, successes: 200 },
+        { count: 1000, successes: 250 }
+      )
+
+      expect(evaluation.significant).toBe(true)
+      expect(evaluation.winner).toBe('inconclusive')
+      expect(evaluation.reason).toContain('below threshold')
+    })
+
+    it('should pick A when B is significantly worse', () => {
+      const evaluation = evaluator.analyze(
+        { metric: 'conversion', threshold: 0, comparison: 'greater' },
+        { count: 1000, successes: 250 },
+        { count: 1000, successes: 200 }
+      )
+
+      expect(evaluation.winner).toBe('a')
+    })
+
+    it('should require minimum samples', () => {
+      const evaluation = evaluator.analyze(
+        { metric: 'conversion', threshold: 0, comparison: 'greater', minSamples: 500 },
+        { count: 100, successes: 10 },
+        { count: 100, successes: 50 }
+      )
+
+      expect(evaluation.winner).toBe('inconclusive')
+      expect(evaluation.reason).toContain('Not enough samples')
+    })
+  })
+
+  describe('continuous metrics', () => {
+    it("should use Welch's t-test and treat lower as better for 'less'", () => {
+      const evaluation = evaluator.analyze(
+        { metric: 'latency', threshold: 0.05, comparison: 'less', type: 'continuous', minSamples: 10 },
+        { count: 200, mean: 120, variance: 400 },
+        { count: 200, mean: 100, variance: 400 }
+      )
+
+      expect(evaluation.test).toBe('welch-t-test')
+      expect(evaluation.winner).toBe('b')
+      expect(evaluation.differenceInterval.upper).toBeLessThan(0)
+    })
+
+    it('should establish equivalence for equal comparison', () => {
+      const evaluation = evaluator.analyze(
+        { metric: 'order_value', threshold: 0.05, comparison: 'equal', type: 'continuous', minSamples: 10 },
+        { count: 5000, mean: 50, variance: 25 },
+        { count: 5000, mean: 50.1, variance: 25 }
+      )
+
+      expect(evaluation.winner).toBe('b')
+      expect(evaluation.reason).toContain('equivalent')
+    })
+
+    it('should reject missing variance', () => {
+      expect(() => evaluator.analyze(
+        { metric: 'latency', threshold: 0, comparison: 'less', type: 'continuous' },
+        { count: 10, mean: 1 },
+        { count: 10, mean: 2 }
+      )).toThrow('requires mean and variance')
+    })
+  })
+
+  describe('ABTestStrategy integration', () => {
+    const executor = async (command: string) => {
+      if (command.startsWith('kubectl get deployment')) {
+        return {
+          stdout: JSON.stringify({ spec: { replicas: 1 }, status: { updatedReplicas: 1, availableReplicas: 1, readyReplicas: 1 } }),
+          stderr: '',
+        }
+      }
+      if (command.startsWith('kubectl get pods')) {
+        return {
+          stdout: JSON.stringify({ items: [{ status: { phase: 'Running', conditions: [{ type: 'Ready', status: 'True' }] } }] }),
+          stderr: '',
+        }
+      }
+      return { stdout: '', stderr: '' }
+    }
+
+    it('should wait out experiments longer than the setTimeout limit until aborted', async () => {
+      let evaluated = false
+      const strategy = new ABTestStrategy(new DeploymentManager(executor), {
+        getVariantStats: async () => {
+          evaluated = true
+          return { count: 0 }
+        },
+      })
+      const controller = new AbortController()
+      setTimeout(() => controller.abort(new Error('deployment cancelled')), 100)
+
+      const result = await strategy.deploy({
+        appName: 'shop',
+        image: 'shop',
+        versionA: '1.0.0',
+        versionB: '1.1.0',
+        trafficSplit: { a: 50, b: 50 },
+        duration: 30 * 24 * 60 * 60,
+        successCriteria: { metric: 'conversion', threshold: 0.1, comparison: 'greater' },
+        signal: controller.signal,
+      })
+
+      expect(result.success).toBe(false)
+      expect(result.message).toBe('deployment cancelled')
+      expect(evaluated).toBe(false)
+    })
+
+    it('should evaluate after the experiment and auto-promote the winner', async () => {
+      const commands: string[] = []
+      const recordingExecutor = async (command: string) => {
+        commands.push(command)
+        return executor(command)
+      }
+
+      const strategy = new ABTestStrategy(
+        new DeploymentManager(recordingExecutor),
+        createSource({ count: 1000, successes: 200 }, { count: 1000, successes: 250 })
+      )
+
+      const config: ABTestConfig = {
+        appName: 'shop',
+        image: 'shop',
+        versionA: '1.0.0',
+        versionB: '1.1.0',
+        trafficSplit: { a: 50, b: 50 },
+        duration: 0,
+        successCriteria: { metric: 'conversion', threshold: 0.1, comparison: 'greater' },
+        autoPromote: true,
+      }
+
+      const result = await strategy.deploy(config)
+
+      expect(result.success).toBe(true)
+      expect(result.details.evaluation.winner).toBe('b')
+      expect(result.details.promoted).toBe('b')
+      // 版本 B 部署 + 初始分流 + 胜出版本切换
+      expect(commands.filter(c => c.startsWith('kubectl apply'))).toHaveLength(3)
+    })
+
+    it('should fail when version A wins', async () => {
+      const strategy = new ABTestStrategy(
+        new DeploymentManager(executor),
+        createSource({ count: 1000, successes: 250 }, { count: 1000, successes: 200 })
+      )
+
+      const result = await strategy.deploy({
+        appName: 'shop',
+        image: 'shop',
+        versionA: '1.0.0',
+        versionB: '1.1.0',
+        trafficSplit: { a: 50, b: 50 },
+        duration: 0,
+        successCriteria: { metric: 'conversion', threshold: 0, comparison: 'greater' },
+        autoPromote: true,
+      })
+
+      expect(result.success).toBe(false)
+      expect(result.message).toContain('A/B test failed')
+      expect(result.details.promoted).toBe('a')
+    })
+
+    it('should roll routing back and remove version B when the traffic split fails', async () => {
+      const commands: string[] = []
+      let applies = 0
+      const failingExecutor = async (command: string) => {
+        commands.push(command)
+        if (command.startsWith('kubectl apply') && ++applies === 2) {
+          throw new Error('VirtualService rejected')
+        }
+        return executor(command)
+      }
+
+      const result = await new ABTestStrategy(new DeploymentManager(failingExecutor)).deploy({
+        appName: 'shop',
+        image: 'shop',
+        namespace: 'prod',
+        versionA: '1.0.0',
+        versionB: '1.1.0',
+        trafficSplit: { a: 50, b: 50 },
+      })
+
+      expect(result.success).toBe(false)
+      // 版本 B 部署 + 失败的分流 + 切回版本 A
+      expect(applies).toBe(3)
+      expect(commands).toContain('kubectl delete deployment shop-b -n prod')
+    })
+
+    it('should match user rules by the configured header prefix', () => {
+      const strategy = new ABTestStrategy(new DeploymentManager(executor))
+      const rule = { type: 'user' as const, key: 'id', value: '42', operator: 'equals' as const, version: 'b' as const }
+      const config: ABTestConfig = {
+        appName: 'shop',
+        image: 'shop',
+        versionA: '1.0.0',
+        versionB: '1.1.0',
+        trafficSplit: { a: 100, b: 0 },
+        targetingRules: [rule],
+      }
+
+      expect(strategy.buildTrafficConfig(config).routing[0].match).toEqual([{ headers: { 'x-user-id': { exact: '42' } } }])
+      expect(strategy.buildTrafficConfig({ ...config, userHeaderPrefix: 'x-auth-' }).routing[0].match)
+        .toEqual([{ headers: { 'x-auth-id': { exact: '42' } } }])
+    })
+  })
+})
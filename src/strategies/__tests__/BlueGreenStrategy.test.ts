@@ -0,0 +1,245 @@
+/**
+ * BlueGreenStrategy 切换测试（使用伪 kubectl 执行器）
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtempSync, readFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { BlueGreenStrategy } from '../BlueGreenStrategy.js'
+import { PromotionStore } from '../PromotionStore.js'
+import { DeploymentManager } from '../../kubernetes/DeploymentManager.js'
+import { ConfigManager } from '../../core/ConfigManager.js'
+import { SecretManager } from '../../security/SecretManager.js'
+import type { BlueGreenDeployConfig } from '../../types/index.js'
+
+function createFakeKubectl() {
+  const commands: string[] = []
+
+  const executor = async (command: string) => {
+    commands.push(command)
+
+    if (command.startsWith('kubectl get deployment')) {
+      return {
+        stdout: JSON.stringify({
+          spec: { replicas: 2 },
+          status: { replicas: 2, updatedReplicas: 2, availableReplicas: 2, readyReplicas: 2 },
+        }),
+        stderr: '',
+      }
+    }
+
+    if (command.startsWith('kubectl get pods')) {
+      return {
+        stdout: JSON.stringify({
+          items: [{ status: { phase: 'Running', conditions: [{ type: 'Ready', status: 'True' }] } }],
+        }),
+        stderr: '',
+      }
+    }
+
+    return { stdout: '', stderr: '' }
+  }
+
+  return { commands, executor }
+}
+
+describe('BlueGreenStrategy', () => {
+  let dir: string
+  let store: PromotionStore
+  let kubectl: ReturnType<typeof createFakeKubectl>
+  let strategy: BlueGreenStrategy
+
+  const baseConfig: BlueGreenDeployConfig = {
+    appName: 'shop',
+    image: 'registry.example.com/shop',
+    platform: 'kubernetes',
+    namespace: 'prod',
+    blueVersion: '1.0.0',
+    greenVersion: '1.1.0',
+    activeColor: 'blue',
+    trafficSwitch: {},
+    stabilityPeriod: 0,
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'bluegreen-'))
+    store = new PromotionStore(join(dir, 'promotions.json'))
+    kubectl = createFakeKubectl()
+    strategy = new BlueGreenStrategy(new DeploymentManager(kubectl.executor), store)
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should switch immediately and remove the preview service', async () => {
+    const result = await strategy.deploy({ ...baseConfig, trafficSwitch: { immediate: true } })
+
+    expect(result.success).toBe(true)
+    expect(result.details.activeColor).toBe('green')
+    expect(kubectl.commands).toContain('kubectl delete service shop-preview -n prod')
+    expect(await store.list()).toHaveLength(0)
+  })
+
+  it('should persist a pending promotion for manual switch', async () => {
+    const result = await strategy.deploy({ ...baseConfig, trafficSwitch: { manual: true } })
+
+    expect(result.success).toBe(true)
+    expect(result.pending).toBe(true)
+    expect(result.message).toContain('awaiting manual promotion')
+
+    const pending = await store.get('shop', 'prod')
+    expect(pending).toMatchObject({
+      mode: 'manual',
+      activeColor: 'blue',
+      targetColor: 'green',
+      targetVersion: '1.1.0',
+      previewService: 'shop-preview',
+    })
+    expect(kubectl.commands.some(c => c.includes('delete service'))).toBe(false)
+  })
+
+  it('should promote a pending release', async () => {
+    await strategy.deploy({ ...baseConfig, trafficSwitch: { manual: true } })
+
+    const result = await strategy.promote('shop', 'prod')
+
+    expect(result.success).toBe(true)
+    expect(result.message).toBe('Traffic switched to green')
+    expect(kubectl.commands).toContain('kubectl delete service shop-preview -n prod')
+    expect(await store.get('shop', 'prod')).toBeNull()
+  })
+
+  it('should abort a pending release and delete the new environment', async () => {
+    await strategy.deploy({ ...baseConfig, trafficSwitch: { manual: true } })
+
+    const result = await strategy.abort('shop', 'prod')
+
+    expect(result.message).toContain('traffic stays on blue')
+    expect(kubectl.commands).toContain('kubectl delete deployment shop-green -n prod')
+    expect(await store.list()).toHaveLength(0)
+  })
+
+  it('should keep secret values out of the pending promotion file', async () => {
+    const secretManager = new SecretManager(join(dir, '.deployer-secrets.json'))
+    secretManager.initMasterKey('test-master-password')
+    await secretManager.storeSecret('db-password', 'pw-5a4b3c2d')
+    const configManager = new ConfigManager({ workDir: dir, secretManager })
+    const { env } = await configManager.resolveReferences({ env: { DB_PASSWORD: '${secret:db-password}' } })
+    strategy = new BlueGreenStrategy(new DeploymentManager(kubectl.executor), store, undefined, configManager)
+
+    await strategy.deploy({ ...baseConfig, env, trafficSwitch: { manual: true } })
+
+    const saved = readFileSync(join(dir, 'promotions.json'), 'utf-8')
+    expect(saved).not.toContain('pw-5a4b3c2d')
+    expect(saved).toContain('${secret:db-password}')
+
+    const resolve = vi.spyOn(configManager, 'resolveReferences')
+    await strategy.promote('shop', 'prod')
+    expect(await resolve.mock.results[0].value).toMatchObject({ env: { DB_PASSWORD: 'pw-5a4b3c2d' } })
+  })
+
+  it('should restore the original service selector when the first migration fails', async () => {
+    const applied: string[] = []
+    const executor = async (command: string) => {
+      if (command.startsWith('kubectl get service shop ')) {
+        // 迁移前的 Service 只按 app 选择 Pod，还没有蓝绿的 environment 标签
+        return { stdout: JSON.stringify({ spec: { selector: { app: 'shop', tier: 'web' } } }), stderr: '' }
+      }
+      if (command.startsWith('kubectl get pods')) {
+        return { stdout: JSON.stringify({ items: [{ status: { phase: 'Pending', conditions: [] } }] }), stderr: '' }
+      }
+      if (command.startsWith('kubectl apply -f ')) {
+        applied.push(readFileSync(command.split(' ')[3], 'utf-8'))
+      }
+      return kubectl.executor(command)
+    }
+    strategy = new BlueGreenStrategy(new DeploymentManager(executor), store)
+
+    const result = await strategy.deploy({ ...baseConfig, trafficSwitch: { immediate: true }, rollbackOnError: true })
+
+    expect(result.success).toBe(false)
+    const service = applied.find(manifest => manifest.includes('kind: Service'))!
+    expect(service).toContain('  selector:\n    app: "shop"\n    tier: "web"\n  ports:')
+    expect(service).not.toContain('environment')
+    expect(kubectl.commands).toContain('kubectl delete deployment shop-green -n prod')
+  })
+
+  it('should keep env, secrets and resources in the promoted environment', async () => {
+    const applied: string[] = []
+    const executor = async (command: string) => {
+      if (command.startsWith('kubectl apply -f ')) {
+        applied.push(readFileSync(command.split(' ')[3], 'utf-8'))
+      }
+      return kubectl.executor(command)
+    }
+    strategy = new BlueGreenStrategy(new DeploymentManager(executor), store)
+
+    const result = await strategy.deploy({
+      ...baseConfig,
+      trafficSwitch: { immediate: true },
+      env: { LOG_LEVEL: 'info', DB_PASSWORD: 'pw-5a4b3c2d' },
+      resources: { limits: { cpu: '2', memory: '2Gi' } },
+    })
+
+    expect(result.success).toBe(true)
+    const green = applied.find(manifest => manifest.includes('name: shop-green'))!
+    expect(green).toContain('            name: DB_PASSWORD\n            value: pw-5a4b3c2d\n')
+    expect(green).toContain('            name: LOG_LEVEL\n            value: info\n')
+    expect(green).toContain('          limits:\n            cpu: "2"\n            memory: 2Gi\n')
+    expect(green).not.toContain('500m')
+  })
+
+  it('should deploy to blue when green is active', async () => {
+    await strategy.deploy({ ...baseConfig, activeColor: 'green', trafficSwitch: { manual: true } })
+
+    const pending = await store.get('shop', 'prod')
+    expect(pending?.targetColor).toBe('blue')
+    expect(pending?.targetVersion).toBe('1.0.0')
+  })
+
+  it('should switch immediately when the scheduled time has passed', async () => {
+    const time = new Date(Date.now() - 1000).toISOString()
+
+    const result = await strategy.deploy({ ...baseConfig, trafficSwitch: { scheduled: { time } } })
+
+    expect(result.success).toBe(true)
+    expect(result.pending).toBeUndefined()
+    expect(result.details.activeColor).toBe('green')
+    expect(await store.list()).toHaveLength(0)
+  })
+
+  it('should leave future scheduled switches to run-scheduled without waiting', async () => {
+    const time = new Date(Date.now() + 100).toISOString()
+
+    const result = await strategy.deploy({ ...baseConfig, trafficSwitch: { scheduled: { time } } })
+
+    expect(result).toMatchObject({ success: true, pending: true })
+    expect(kubectl.commands.some(c => c.includes('delete service'))).toBe(false)
+    expect(await strategy.runScheduled()).toEqual([])
+    expect(await store.get('shop', 'prod')).toMatchObject({ mode: 'scheduled' })
+
+    const results = await strategy.runScheduled({ wait: true })
+
+    expect(results).toHaveLength(1)
+    expect(results[0]).toMatchObject({ success: true, message: 'Traffic switched to green' })
+    expect(await store.list()).toHaveLength(0)
+  })
+
+  it('should skip the scheduled switch when aborted while waiting', async () => {
+    const time = new Date(Date.now() + 1000).toISOString()
+    await strategy.deploy({ ...baseConfig, trafficSwitch: { scheduled: { time } } })
+
+    const running = strategy.runScheduled({ wait: true })
+    await strategy.abort('shop', 'prod')
+
+    const [result] = await running
+    expect(result.success).toBe(false)
+    expect(result.message).toContain('aborted or already promoted')
+  })
+
+  it('should reject promote without a pending release', async () => {
+    await expect(strategy.promote('shop', 'prod')).rejects.toThrow('No pending blue-green promotion')
+  })
+})
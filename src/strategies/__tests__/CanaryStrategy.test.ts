@@ -0,0 +1,340 @@
+/**
+ * CanaryStrategy 指标分析测试（使用本地 Prometheus 桩服务）
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest'
+import { createServer, type Server } from 'http'
+import type { AddressInfo } from 'net'
+import { readFileSync } from 'fs'
+import { CanaryStrategy } from '../CanaryStrategy.js'
+import { DeploymentManager } from '../../kubernetes/DeploymentManager.js'
+import { PrometheusClient } from '../../monitoring/PrometheusClient.js'
+import type { CanaryDeployConfig } from '../../types/index.js'
+
+/**
+ * 桩服务返回值：按查询内容匹配
+ */
+interface StubValues {
+  requests: number
+  errorRate: number
+  latencySeconds: number
+  custom: number
+  /** 区间查询的延迟序列（秒），按 version 标签区分 */
+  range: Record<string, number[]>
+  /** 区间查询的 5xx 错误率序列，按 version 标签区分；缺省表示该版本没有 5xx 序列 */
+  errorRange: Record<string, number[]>
+}
+
+describe('CanaryStrategy', () => {
+  let server: Server
+  let url: string
+  let values: StubValues
+  const queries: string[] = []
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const requestUrl = new URL(req.url || '/', 'http://localhost')
+      const query = requestUrl.searchParams.get('query') || ''
+      queries.push(query)
+      res.setHeader('Content-Type', 'application/json')
+
+      if (query.includes('slow_metric')) {
+        setTimeout(() => res.end(JSON.stringify({ status: 'success', data: { resultType: 'vector', result: [] } })), 2000)
+        return
+      }
+
+      if (requestUrl.pathname === '/api/v1/query_range') {
+        const version = /version="([^"]+)"/.exec(query)?.[1] || ''
+        let series: number[] | undefined = [0, 0, 0, 0, 0, 0]
+        if (query.includes('histogram_quantile')) {
+          series = values.range[version] || []
+        } else if (query.includes(' / ')) {
+          // 与 Prometheus 一致：没有 5xx 序列时分子为空向量，只有 `or vector(0)` 能补成 0
+          series = values.errorRange[version] || (query.includes('or vector(0)') ? [0, 0, 0, 0, 0, 0] : undefined)
+        }
+        res.end(JSON.stringify({
+          status: 'success',
+          data: {
+            resultType: 'matrix',
+            result: series
+              ? [{ metric: {}, values: series.map((v, i) => [1700000000 + i * 10, String(v)]) }]
+              : [],
+          },
+        }))
+        return
+      }
+
+      let value: number
+      if (query.includes('histogram_quantile')) {
+        value = values.latencySeconds
+      } else if (query.includes(' / ')) {
+        value = values.errorRate
+      } else if (query.includes('queue_depth')) {
+        value = values.custom
+      } else {
+        value = values.requests
+      }
+
+      res.end(JSON.stringify({
+        status: 'success',
+        data: {
+          resultType: 'vector',
+          result: [{ metric: {}, value: [Date.now() / 1000, String(value)] }],
+        },
+      }))
+    })
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  beforeEach(() => {
+    queries.length = 0
+    values = { requests: 50, errorRate: 0.001, latencySeconds: 0.2, custom: 3, range: {}, errorRange: {} }
+  })
+
+  const createConfig = (threshold: NonNullable<CanaryDeployConfig['analysis']>['threshold']): CanaryDeployConfig => ({
+    appName: 'shop',
+    image: 'shop',
+    baselineVersion: '1.0.0',
+    canaryVersion: '1.1.0',
+    steps: [
+      { weight: 10, duration: 0 },
+      { weight: 50, duration: 0 },
+    ],
+    analysis: {
+      interval: 60,
+      threshold,
+      prometheus: { url },
+    },
+  })
+
+  describe('PrometheusClient', () => {
+    it('should collect deployment metrics for the canary selector', async () => {
+      const client = new PrometheusClient({ url })
+      const metrics = await client.collectDeploymentMetrics({ app: 'shop', version: '1.1.0' }, 60)
+
+      expect(metrics.requestRate).toBe(50)
+      expect(metrics.errorRate).toBe(0.001)
+      expect(metrics.availability).toBeCloseTo(0.999)
+      expect(metrics.latency.p95).toBe(200)
+      expect(queries.some(q => q.includes('{app="shop",version="1.1.0",status=~"5.."}'))).toBe(true)
+      expect(queries.some(q => q.includes('[60s]'))).toBe(true)
+    })
+
+    it('should report no data instead of a zero error rate without traffic', async () => {
+      values.requests = 0
+      values.errorRate = NaN
+
+      const metrics = await new PrometheusClient({ url }).collectDeploymentMetrics({ app: 'shop' }, 60)
+
+      expect(metrics.noData).toBe(true)
+      expect(metrics.requestRate).toBe(0)
+    })
+
+    it('should abort running queries with the deployment signal', async () => {
+      const controller = new AbortController()
+      const reason = new Error('Deployment cancelled')
+      setTimeout(() => controller.abort(reason), 50)
+
+      const started = Date.now()
+      await expect(new PrometheusClient({ url }).queryValue('slow_metric', controller.signal)).rejects.toBe(reason)
+      expect(Date.now() - started).toBeLessThan(1000)
+    })
+
+    it('should throw NetworkError when the endpoint is unreachable', async () => {
+      const client = new PrometheusClient({ url: 'http://127.0.0.1:1', timeout: 1000 })
+
+      await expect(client.queryValue('up')).rejects.toThrow('Prometheus request failed')
+    })
+  })
+
+  describe('deploy', () => {
+    it('should promote when metrics stay within thresholds', async () => {
+      const result = await new CanaryStrategy().deploy(createConfig({
+        successRate: 0.99,
+        errorRate: 0.01,
+        latency: 500,
+      }))
+
+      expect(result.success).toBe(true)
+      expect(result.details.analyses).toHaveLength(2)
+      expect(result.details.analyses[0].metrics.latency.p95).toBe(200)
+    })
+
+    it('should fail when error rate exceeds the threshold', async () => {
+      values.errorRate = 0.05
+
+      const result = await new CanaryStrategy().deploy(createConfig({ errorRate: 0.01 }))
+
+      expect(result.success).toBe(false)
+      expect(result.message).toContain('Error rate 0.05 above threshold 0.01')
+      expect(result.details.analyses).toHaveLength(1)
+    })
+
+    it('should fail when the canary receives no traffic', async () => {
+      values.requests = 0
+      values.errorRate = NaN
+
+      const result = await new CanaryStrategy().deploy(createConfig({ errorRate: 0.01 }))
+
+      expect(result.success).toBe(false)
+      expect(result.message).toContain('No canary traffic observed in the last 60s')
+    })
+
+    it('should fail when P95 latency exceeds the threshold', async () => {
+      values.latencySeconds = 1.5
+
+      const result = await new CanaryStrategy().deploy(createConfig({ latency: 1000 }))
+
+      expect(result.success).toBe(false)
+      expect(result.message).toContain('P95 latency 1500ms')
+    })
+
+    it('should evaluate named custom queries with selector placeholders', async () => {
+      const config = createConfig({})
+      config.analysis!.metrics = ['queue']
+      config.analysis!.queries = {
+        queue: { query: 'max(queue_depth{{selector}})', max: 5 },
+      }
+
+      const passed = await new CanaryStrategy().deploy(config)
+      expect(passed.success).toBe(true)
+      expect(queries).toContain('max(queue_depth{app="shop",version="1.1.0"})')
+
+      values.custom = 8
+      const failed = await new CanaryStrategy().deploy(config)
+      expect(failed.success).toBe(false)
+      expect(failed.message).toContain('Metric queue 8 above maximum 5')
+    })
+  })
+
+  describe('baseline comparison', () => {
+    const baseline = [0.2, 0.21, 0.19, 0.2, 0.22, 0.2, 0.19, 0.21]
+
+    const createComparisonConfig = (): CanaryDeployConfig => {
+      const config = createConfig({})
+      config.steps = [{ weight: 20, duration: 0 }]
+      config.analysis!.comparison = {
+        metrics: { latencyP95: 0.1 },
+      }
+      return config
+    }
+
+    it('should pass when canary latency stays within the allowed increase', async () => {
+      values.range = {
+        '1.0.0': baseline,
+        '1.1.0': baseline.map(v => v * 1.05),
+      }
+
+      const result = await new CanaryStrategy().deploy(createComparisonConfig())
+      const [verdict] = result.details.analyses[0].comparison
+
+      expect(result.success).toBe(true)
+      expect(verdict.metric).toBe('latencyP95')
+      expect(verdict.verdict).toBe('pass')
+      expect(verdict.baselineMedian).toBe(200)
+      expect(verdict.samples).toEqual({ baseline: 8, canary: 8 })
+    })
+
+    it('should fail when canary latency is significantly worse than baseline', async () => {
+      values.range = {
+        '1.0.0': baseline,
+        '1.1.0': baseline.map(v => v * 1.5),
+      }
+
+      const result = await new CanaryStrategy().deploy(createComparisonConfig())
+      const [verdict] = result.details.analyses[0].comparison
+
+      expect(result.success).toBe(false)
+      expect(result.message).toContain('Canary degraded compared to baseline: latencyP95 50.0% above baseline')
+      expect(verdict.verdict).toBe('fail')
+      expect(verdict.pValue).toBeLessThan(0.05)
+    })
+
+    it('should be inconclusive with too few samples', async () => {
+      values.range = {
+        '1.0.0': [0.2, 0.2],
+        '1.1.0': [0.9, 0.9],
+      }
+
+      const result = await new CanaryStrategy().deploy(createComparisonConfig())
+
+      expect(result.success).toBe(true)
+      expect(result.details.analyses[0].comparison[0].verdict).toBe('inconclusive')
+    })
+
+    it('should fail when the baseline has no 5xx series and the canary has many errors', async () => {
+      const config = createComparisonConfig()
+      config.analysis!.comparison = { metrics: { errorRate: 0.1 } }
+      values.errorRange = { '1.1.0': [0.3, 0.25, 0.35, 0.3, 0.28, 0.32] }
+
+      const result = await new CanaryStrategy().deploy(config)
+      const [verdict] = result.details.analyses[0].comparison
+
+      expect(queries.some(q => q.includes('or vector(0)) / sum(rate('))).toBe(true)
+      expect(verdict).toMatchObject({ metric: 'errorRate', verdict: 'fail', baselineMedian: 0, relativeChange: null })
+      expect(verdict.samples).toEqual({ baseline: 6, canary: 6 })
+      expect(result.success).toBe(false)
+      expect(result.message).toContain('errorRate 0.3 above zero baseline')
+    })
+
+    it('should fail when the error rate comparison is inconclusive', async () => {
+      const config = createComparisonConfig()
+      config.analysis!.comparison = { metrics: { errorRate: 0.1 } }
+      values.errorRange = { '1.1.0': [0.3, 0.3] }
+
+      const result = await new CanaryStrategy().deploy(config)
+
+      expect(result.success).toBe(false)
+      expect(result.message).toContain('errorRate inconclusive (samples: baseline=6, canary=2)')
+    })
+  })
+  describe('kubernetes', () => {
+    it('should keep env, secrets, resources and probes when promoting the canary', async () => {
+      const applied: string[] = []
+      const executor = async (command: string) => {
+        if (command.startsWith('kubectl apply -f ')) {
+          applied.push(readFileSync(command.split(' ')[3], 'utf-8'))
+        }
+        if (command.startsWith('kubectl get deployment')) {
+          return {
+            stdout: JSON.stringify({ spec: { replicas: 1 }, status: { replicas: 1, updatedReplicas: 1, availableReplicas: 1, readyReplicas: 1 } }),
+            stderr: '',
+          }
+        }
+        if (command.startsWith('kubectl get pods')) {
+          return {
+            stdout: JSON.stringify({ items: [{ status: { phase: 'Running', conditions: [{ type: 'Ready', status: 'True' }] } }] }),
+            stderr: '',
+          }
+        }
+        return { stdout: '', stderr: '' }
+      }
+
+      const result = await new CanaryStrategy(new DeploymentManager(executor)).deploy({
+        appName: 'shop',
+        image: 'shop',
+        platform: 'kubernetes',
+        baselineVersion: '1.0.0',
+        canaryVersion: '1.1.0',
+        steps: [{ weight: 50, duration: 0 }],
+        env: { LOG_LEVEL: 'info', DB_PASSWORD: 's3cr3t' },
+        resources: { requests: { cpu: '250m', memory: '256Mi' }, limits: { cpu: '1', memory: '1Gi' } },
+        startupProbe: { httpGet: { path: '/started', port: 8080 }, failureThreshold: 30 },
+      })
+
+      expect(result.success).toBe(true)
+      const production = applied.find(manifest => manifest.includes('name: shop\n'))!
+      expect(production).toContain('            name: DB_PASSWORD\n            value: s3cr3t\n')
+      expect(production).toContain('            name: LOG_LEVEL\n            value: info\n')
+      expect(production).toContain('          limits:\n            cpu: "1"\n            memory: 1Gi\n')
+      expect(production).toContain('        startupProbe:\n          httpGet:\n            path: /started\n')
+      expect(production).not.toContain('500m')
+    })
+  })
+})
@@ -0,0 +1,169 @@
+/**
+ * RollingStrategy 测试（使用伪 kubectl 执行器）
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { RollingStrategy } from '../RollingStrategy.js'
+import { DeploymentManager } from '../../kubernetes/DeploymentManager.js'
+import type { RollingUpdateConfig } from '../../types/index.js'
+
+/**
+ * 模拟一个 Deployment：每次查询状态时，未暂停则多更新一个副本
+ */
+function createFakeCluster(desired: number) {
+  const state = {
+    commands: [] as string[],
+    updated: 0,
+    paused: false,
+    failingPod: undefined as string | undefined,
+    failSetImage: false,
+    /** 故障出现时机：更新到第 2 个副本后，或批次暂停期间 */
+    failWhen: 'updating' as 'updating' | 'paused',
+  }
+
+  const executor = async (command: string) => {
+    state.commands.push(command)
+
+    if (command.includes('rollout pause')) state.paused = true
+    if (command.includes('rollout resume')) state.paused = false
+    if (state.failSetImage && command.includes(' set image ')) {
+      throw new Error('deployments.apps "shop" not found')
+    }
+
+    if (command.startsWith('kubectl get deployment')) {
+      if (!state.paused && state.updated < desired) {
+        state.updated++
+      }
+      return {
+        stdout: JSON.stringify({
+          metadata: { generation: 2 },
+          spec: { replicas: desired },
+          status: {
+            observedGeneration: 2,
+            replicas: desired,
+            updatedReplicas: state.updated,
+            readyReplicas: state.updated === desired ? desired : desired - 1,
+            availableReplicas: state.updated === desired ? desired : desired - 1,
+          },
+        }),
+        stderr: '',
+      }
+    }
+
+    if (command.startsWith('kubectl get pods')) {
+      const failing = state.failWhen === 'paused' ? state.paused : state.updated >= 2
+      const waiting = state.failingPod && failing
+        ? { waiting: { reason: state.failingPod } }
+        : { running: {} }
+      return {
+        stdout: JSON.stringify({
+          items: [{
+            metadata: { name: 'shop-abc' },
+            status: { phase: 'Running', containerStatuses: [{ state: waiting }] },
+          }],
+        }),
+        stderr: '',
+      }
+    }
+
+    return { stdout: '', stderr: '' }
+  }
+
+  return { state, executor }
+}
+
+describe('RollingStrategy', () => {
+  let cluster: ReturnType<typeof createFakeCluster>
+  let strategy: RollingStrategy
+
+  const config: RollingUpdateConfig = {
+    appName: 'shop',
+    image: 'registry.example.com/shop',
+    version: '1.1.0',
+    namespace: 'prod',
+    maxSurge: 1,
+    maxUnavailable: 0,
+    healthCheckInterval: 0,
+  }
+
+  beforeEach(() => {
+    cluster = createFakeCluster(4)
+    strategy = new RollingStrategy(new DeploymentManager(cluster.executor))
+  })
+
+  it('should patch rolling update settings and set the new image', async () => {
+    const result = await strategy.deploy(config)
+
+    expect(result.success).toBe(true)
+    expect(cluster.state.commands[0]).toBe(
+      'kubectl patch deployment shop --type=strategic -p \'{"spec":{"strategy":{"type":"RollingUpdate","rollingUpdate":{"maxSurge":1,"maxUnavailable":0}}}}\' -n prod'
+    )
+    expect(cluster.state.commands).toContain(
+      'kubectl set image deployment/shop shop=registry.example.com/shop:1.1.0 -n prod'
+    )
+    expect(cluster.state.commands.some(c => c.includes('rollout pause'))).toBe(false)
+  })
+
+  it('should deploy the pinned image instead of the tag', async () => {
+    const pinnedImage = `registry.example.com/shop@sha256:${'ab'.repeat(32)}`
+
+    await strategy.deploy({ ...config, pinnedImage })
+
+    expect(cluster.state.commands).toContain(`kubectl set image deployment/shop shop=${pinnedImage} -n prod`)
+  })
+
+  it('should pause and resume between batches', async () => {
+    const result = await strategy.deploy({ ...config, maxSurge: '50%', pauseBetweenBatches: 0.01 })
+
+    expect(result.success).toBe(true)
+    expect(result.details.batches).toHaveLength(1)
+    expect(result.details.batches[0]).toMatchObject({ batch: 1, updatedReplicas: 2, desiredReplicas: 4 })
+
+    const rolloutCommands = cluster.state.commands
+      .filter(c => c.includes(' rollout ') || c.includes(' set image '))
+      .map(c => c.split(' ').slice(1, 3).join(' '))
+    expect(rolloutCommands).toEqual([
+      'rollout pause',
+      'set image',
+      'rollout resume',
+      'rollout pause',
+      'rollout resume',
+    ])
+  })
+
+  it('should undo the rollout when pods become unhealthy', async () => {
+    cluster.state.failingPod = 'CrashLoopBackOff'
+
+    const result = await strategy.deploy(config)
+
+    expect(result.success).toBe(false)
+    expect(result.message).toContain('shop-abc (CrashLoopBackOff)')
+    expect(result.details.rolledBack).toBe(true)
+    expect(cluster.state.commands[cluster.state.commands.length - 1]).toBe('kubectl rollout undo deployment/shop -n prod')
+  })
+
+  it('should resume the paused deployment when setting the image fails', async () => {
+    cluster.state.failSetImage = true
+
+    const result = await strategy.deploy({ ...config, pauseBetweenBatches: 0.05 })
+
+    expect(result.success).toBe(false)
+    expect(result.details.rolledBack).toBe(false)
+    expect(cluster.state.paused).toBe(false)
+    expect(cluster.state.commands[cluster.state.commands.length - 1]).toBe('kubectl rollout resume deployment/shop -n prod')
+  })
+
+  it('should resume a paused rollout before undoing it', async () => {
+    cluster.state.failingPod = 'ImagePullBackOff'
+    cluster.state.failWhen = 'paused'
+
+    const result = await strategy.deploy({ ...config, maxSurge: 2, pauseBetweenBatches: 0.05 })
+
+    expect(result.success).toBe(false)
+    const tail = cluster.state.commands.slice(-2)
+    expect(tail).toEqual([
+      'kubectl rollout resume deployment/shop -n prod',
+      'kubectl rollout undo deployment/shop -n prod',
+    ])
+  })
+})
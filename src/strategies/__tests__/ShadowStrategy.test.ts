@@ -0,0 +1,211 @@
+/**
+ * ShadowStrategy 测试（使用伪 kubectl 执行器和本地 Prometheus 桩服务）
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest'
+import { createServer, type Server } from 'http'
+import type { AddressInfo } from 'net'
+import { ShadowStrategy } from '../ShadowStrategy.js'
+import { DeploymentManager } from '../../kubernetes/DeploymentManager.js'
+import type { ShadowDeployConfig } from '../../types/index.js'
+
+/**
+ * 按 version 标签返回的指标
+ */
+interface VersionValues {
+  requests: number
+  errorRate: number
+  latencySeconds: number
+}
+
+describe('ShadowStrategy', () => {
+  let server: Server
+  let url: string
+  let values: Record<string, VersionValues>
+  let commands: string[]
+  let queries: string[]
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const query = new URL(req.url || '/', 'http://localhost').searchParams.get('query') || ''
+      queries.push(query)
+      const version = /version="([^"]+)"/.exec(query)?.[1] || ''
+      const current = values[version]
+
+      let value: number
+      if (query.includes('histogram_quantile')) {
+        value = current.latencySeconds
+      } else if (query.includes(' / ')) {
+        value = current.errorRate
+      } else {
+        value = current.requests
+      }
+
+      res.setHeader('Content-Type', 'application/json')
+      res.end(JSON.stringify({
+        status: 'success',
+        data: {
+          resultType: 'vector',
+          result: [{ metric: {}, value: [Date.now() / 1000, String(value)] }],
+        },
+      }))
+    })
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  beforeEach(() => {
+    commands = []
+    queries = []
+    values = {
+      '1.0.0': { requests: 100, errorRate: 0.002, latencySeconds: 0.2 },
+      '1.1.0': { requests: 100, errorRate: 0.003, latencySeconds: 0.21 },
+    }
+  })
+
+  const createStrategy = () => new ShadowStrategy(new DeploymentManager(async (command: string) => {
+    commands.push(command)
+    if (command.startsWith('kubectl get deployment')) {
+      return {
+        stdout: JSON.stringify({ spec: { replicas: 1 }, status: { updatedReplicas: 1, availableReplicas: 1, readyReplicas: 1 } }),
+        stderr: '',
+      }
+    }
+    if (command.startsWith('kubectl get pods')) {
+      return {
+        stdout: JSON.stringify({ items: [{ status: { phase: 'Running', conditions: [{ type: 'Ready', status: 'True' }] } }] }),
+        stderr: '',
+      }
+    }
+    return { stdout: '', stderr: '' }
+  }))
+
+  const createConfig = (overrides: Partial<ShadowDeployConfig> = {}): ShadowDeployConfig => ({
+    appName: 'shop',
+    image: 'shop',
+    namespace: 'prod',
+    productionVersion: '1.0.0',
+    shadowVersion: '1.1.0',
+    duration: 0,
+    analysis: { prometheus: { url } },
+    ...overrides,
+  })
+
+  it('should report safe to promote when shadow matches production', async () => {
+    const result = await createStrategy().deploy(createConfig())
+
+    expect(result.success).toBe(true)
+    expect(result.strategy).toBe('shadow')
+    expect(result.details.safeToPromote).toBe(true)
+    expect(result.details.checks.every((check: any) => check.passed)).toBe(true)
+  })
+
+  it('should report degraded latency', async () => {
+    values['1.1.0'].latencySeconds = 0.3
+
+    const result = await createStrategy().deploy(createConfig())
+
+    expect(result.success).toBe(false)
+    expect(result.details.safeToPromote).toBe(false)
+    expect(result.message).toContain('latencyP95 300ms (production 200ms, limit 220ms)')
+  })
+
+  it('should report an error rate increase above the allowed delta', async () => {
+    values['1.1.0'].errorRate = 0.05
+
+    const result = await createStrategy().deploy(createConfig({
+      analysis: { prometheus: { url }, maxErrorRateIncrease: 0.01 },
+    }))
+
+    expect(result.success).toBe(false)
+    expect(result.message).toContain('errorRate 5.00%')
+  })
+
+  it('should not promote when the shadow received no traffic', async () => {
+    values['1.1.0'].requests = 0
+
+    const result = await createStrategy().deploy(createConfig())
+
+    expect(result.success).toBe(false)
+    expect(result.message).toBe('Shadow received no mirrored traffic')
+  })
+
+  it('should mirror traffic and clean up the shadow afterwards', async () => {
+    await createStrategy().deploy(createConfig({ mirrorPercentage: 25 }))
+
+    const applies = commands.filter(c => c.startsWith('kubectl apply'))
+    // 影子版本 + 开启镜像 + 撤销镜像
+    expect(applies).toHaveLength(3)
+    expect(commands).toContain('kubectl delete deployment shop-shadow -n prod')
+    expect(commands).toContain('kubectl delete service shop-shadow -n prod')
+    expect(commands).not.toContain('kubectl delete service shop-production -n prod')
+  })
+
+  it('should stop observing and clean up when aborted', async () => {
+    const controller = new AbortController()
+    setTimeout(() => controller.abort(), 50)
+
+    const start = Date.now()
+    const result = await createStrategy().deploy(createConfig({ duration: 60, signal: controller.signal }))
+
+    expect(Date.now() - start).toBeLessThan(2000)
+    expect(result.success).toBe(false)
+    expect(commands).toContain('kubectl delete deployment shop-shadow -n prod')
+  })
+
+  it('should delete the per-destination Services created for NGINX', async () => {
+    await createStrategy().deploy(createConfig({ provider: 'nginx' }))
+
+    expect(commands).toContain('kubectl delete service shop-shadow -n prod')
+    expect(commands).toContain('kubectl delete service shop-production -n prod')
+  })
+
+  it('should keep shadow pods out of the production selector', () => {
+    const manifest = createStrategy().buildShadowManifest(createConfig())
+    const podLabels = manifest.split('template:')[1]
+
+    expect(podLabels).toContain('app: shop-shadow')
+    expect(podLabels).toContain('track: shadow')
+    expect(podLabels).not.toMatch(/app: shop$/m)
+    expect(manifest).toContain('kind: Service')
+  })
+
+  it('should select shadow metrics by the shadow app label when custom labels are set', async () => {
+    await createStrategy().analyze(createConfig({
+      analysis: { prometheus: { url, labels: { app: 'shop', namespace: 'prod' } } },
+    }))
+
+    expect(queries.some(query => query.includes('app="shop-shadow"') && query.includes('version="1.1.0"'))).toBe(true)
+    expect(queries.some(query => query.includes('app="shop"') && query.includes('version="1.0.0"'))).toBe(true)
+    expect(queries.every(query => !(query.includes('app="shop"') && query.includes('version="1.1.0"')))).toBe(true)
+  })
+
+  it('should run the shadow with the production env and the pinned image', () => {
+    const manifest = createStrategy().buildShadowManifest(createConfig({
+      pinnedImage: 'shop@sha256:abc',
+      env: { DB_PASSWORD: 's3cr3t', PORT: '8080' },
+    }))
+
+    expect(manifest).toContain('image: "shop@sha256:abc"')
+    expect(manifest).toContain('        env:\n          -\n            name: DB_PASSWORD\n            value: s3cr3t\n')
+    expect(manifest).toContain('            name: PORT\n            value: "8080"\n')
+  })
+
+  it('should keep the shadow when cleanup is disabled', async () => {
+    await createStrategy().deploy(createConfig({ cleanup: false }))
+
+    expect(commands.some(c => c.startsWith('kubectl delete'))).toBe(false)
+  })
+
+  it('should build a mirror-only traffic config', () => {
+    const traffic = createStrategy().buildTrafficConfig(createConfig({ mirrorPercentage: 10 }), true)
+
+    expect(traffic.routing).toEqual([{ destination: 'production', weight: 100 }])
+    expect(traffic.mirror).toEqual({ enabled: true, destination: 'shadow', percentage: 10 })
+  })
+})
@@ -0,0 +1,174 @@
+/**
+ * StrategyDispatcher 测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import { StrategyDispatcher } from '../StrategyDispatcher.js'
+import { DeploymentManager } from '../../kubernetes/DeploymentManager.js'
+import type { DeployConfig, DeploymentStrategy } from '../../types/index.js'
+
+function createConfig(strategy?: DeploymentStrategy): DeployConfig {
+  return {
+    name: 'shop',
+    version: '1.1.0',
+    environment: 'production',
+    platform: 'kubernetes',
+    projectType: 'node',
+    docker: { image: 'shop', registry: 'registry.example.com' },
+    kubernetes: {
+      namespace: 'prod',
+      deployment: { replicas: 4, strategy },
+      service: { targetPort: 3000 },
+    },
+  }
+}
+
+describe('StrategyDispatcher', () => {
+  const dispatcher = new StrategyDispatcher()
+
+  describe('resolve', () => {
+    it('should map config strategy types', () => {
+      expect(StrategyDispatcher.resolve(createConfig({ type: 'Canary' }))).toBe('canary')
+      expect(StrategyDispatcher.resolve(createConfig({ type: 'BlueGreen' }))).toBe('bluegreen')
+      expect(StrategyDispatcher.resolve(createConfig({ type: 'RollingUpdate' }))).toBe('rolling')
+      expect(StrategyDispatcher.resolve(createConfig({ type: 'Recreate' }))).toBeUndefined()
+      expect(StrategyDispatcher.resolve(createConfig())).toBeUndefined()
+    })
+
+    it('should prefer the --strategy override', () => {
+      expect(StrategyDispatcher.resolve(createConfig({ type: 'Canary' }), 'bluegreen')).toBe('bluegreen')
+    })
+
+    it('should reject unknown strategies', () => {
+      expect(() => StrategyDispatcher.resolve(createConfig(), 'shadow')).toThrow('Unsupported deployment strategy')
+    })
+
+    it('should read docker.strategy on container platforms', () => {
+      const config: DeployConfig = {
+        ...createConfig(),
+        platform: 'docker-compose',
+        docker: { image: 'shop', strategy: { type: 'Canary', canary: { steps: [{ weight: 50 }] } } },
+      }
+
+      expect(StrategyDispatcher.resolve(config)).toBe('canary')
+      expect(() => StrategyDispatcher.resolve(config, 'rolling')).toThrow('not supported on platform docker-compose')
+    })
+  })
+
+  describe('toCanaryConfig', () => {
+    it('should map steps, thresholds and baseline version', () => {
+      const canary = dispatcher.toCanaryConfig(createConfig({
+        type: 'Canary',
+        canary: {
+          steps: [{ weight: 20, pause: 120 }, { weight: 100 }],
+          analysis: { successRate: 99, errorRate: 0.01, latency: 500, prometheus: { url: 'http://prometheus:9090' } },
+        },
+      }), { previousVersion: '1.0.0' })
+
+      expect(canary).toMatchObject({
+        appName: 'shop',
+        image: 'registry.example.com/shop',
+        namespace: 'prod',
+        replicas: 4,
+        port: 3000,
+        baselineVersion: '1.0.0',
+        canaryVersion: '1.1.0',
+        steps: [{ weight: 20, duration: 120 }, { weight: 100, duration: 0 }],
+        autoRollback: true,
+      })
+      expect(canary.analysis).toMatchObject({
+        interval: 60,
+        threshold: { successRate: 0.99, errorRate: 0.01, latency: 500 },
+        prometheus: { url: 'http://prometheus:9090' },
+      })
+    })
+
+    it('should pin the canary image by digest', () => {
+      const digest = `sha256:${'ab'.repeat(32)}`
+      const config = createConfig({ type: 'Canary', canary: { steps: [{ weight: 100 }] } })
+      config.docker = { ...config.docker!, digest }
+
+      const canary = dispatcher.toCanaryConfig(config, { previousVersion: '1.0.0' })
+
+      expect(canary.image).toBe('registry.example.com/shop')
+      expect(canary.pinnedImage).toBe(`registry.example.com/shop@${digest}`)
+    })
+
+    it('should carry env, secrets, resources and probes of the Kubernetes deployment', () => {
+      const config = createConfig({ type: 'Canary', canary: { steps: [{ weight: 100 }] } })
+      config.env = [{ name: 'LOG_LEVEL', value: 'info' }]
+      config.secrets = [{ name: 'DB_PASSWORD', value: 's3cr3t' }]
+      config.kubernetes!.deployment = {
+        ...config.kubernetes!.deployment,
+        resources: { limits: { cpu: '1' } },
+        readinessProbe: { httpGet: { path: '/ready', port: 3000 } },
+      }
+
+      const canary = dispatcher.toCanaryConfig(config, { previousVersion: '1.0.0' })
+
+      expect(canary.env).toEqual({ LOG_LEVEL: 'info', DB_PASSWORD: 's3cr3t' })
+      expect(canary.resources).toEqual({ limits: { cpu: '1' } })
+      expect(canary.readinessProbe).toEqual({ httpGet: { path: '/ready', port: 3000 } })
+    })
+
+    it('should require a baseline version', () => {
+      expect(() => dispatcher.toCanaryConfig(createConfig({
+        type: 'Canary',
+        canary: { steps: [{ weight: 100 }] },
+      }))).toThrow('previous successful deployment')
+    })
+  })
+
+  describe('toBlueGreenConfig', () => {
+    const blueGreen = (options: Partial<NonNullable<DeploymentStrategy['blueGreen']>> = {}) => createConfig({
+      type: 'BlueGreen',
+      blueGreen: { activeService: 'shop-active', ...options },
+    })
+
+    it('should deploy the new version to the inactive color', () => {
+      const config = dispatcher.toBlueGreenConfig(blueGreen(), { previousVersion: '1.0.0', activeColor: 'green' })
+
+      expect(config).toMatchObject({
+        activeColor: 'green',
+        greenVersion: '1.0.0',
+        blueVersion: '1.1.0',
+        activeService: 'shop-active',
+        trafficSwitch: { immediate: true },
+      })
+    })
+
+    it('should map promotion settings', () => {
+      expect(dispatcher.toBlueGreenConfig(blueGreen({ autoPromote: false })).trafficSwitch).toEqual({ manual: true })
+      expect(dispatcher.toBlueGreenConfig(blueGreen({ autoPromoteSeconds: 600 })).trafficSwitch.scheduled).toBeDefined()
+    })
+  })
+
+  describe('detectActiveColor', () => {
+    it('should read the active color from the live service selector', async () => {
+      const commands: string[] = []
+      const executor = async (command: string) => {
+        commands.push(command)
+        return { stdout: JSON.stringify({ spec: { selector: { app: 'shop', environment: 'green' } } }), stderr: '' }
+      }
+
+      const color = await new StrategyDispatcher(new DeploymentManager(executor)).detectActiveColor(
+        createConfig({ type: 'BlueGreen', blueGreen: { activeService: 'shop-active' } })
+      )
+
+      expect(color).toBe('green')
+      expect(commands).toEqual(['kubectl get service shop-active -o json -n prod'])
+    })
+
+    it('should default to blue when the service does not exist', async () => {
+      const executor = async () => {
+        throw new Error('NotFound')
+      }
+
+      const color = await new StrategyDispatcher(new DeploymentManager(executor)).detectActiveColor(
+        createConfig({ type: 'BlueGreen', blueGreen: { activeService: 'shop-active' } })
+      )
+
+      expect(color).toBe('blue')
+    })
+  })
+})
@@ -6,7 +6,11 @@ export * from './BlueGreenStrategy.js'
 export * from './CanaryStrategy.js'
 export * from './RollingStrategy.js'
 export * from './ABTestStrategy.js'
+export * from './ABTestEvaluator.js'
+export * from './PromotionStore.js'
 
 
 
 
+export * from './ShadowStrategy.js'
+export * from './StrategyDispatcher.js'
@@ -5,7 +5,7 @@
  * @description 管理和提供预定义的部署配置模板
  */
 
-import type { DeployConfig } from '../types/index.js';
+import type { DeployConfig, Platform } from '../types/index.js';
 
 /**
  * 模板元数据接口
@@ -19,8 +19,8 @@ export interface TemplateMetadata {
   description: string;
   /** 项目类型 */
   projectType: 'node' | 'static' | 'spa' | 'ssr' | 'fullstack';
-  /** 部署平台 */
-  platform: 'docker' | 'kubernetes' | 'docker-compose';
+  /** 部署平台（插件模板可以使用插件注册的平台） */
+  platform: Platform;
   /** 技术栈标签 */
   tags: string[];
   /** 作者 */
@@ -0,0 +1,97 @@
+/**
+ * 部署审批相关类型定义
+ */
+
+import type { Environment } from './config.js'
+
+/**
+ * 环境审批策略
+ */
+export interface ApprovalPolicy {
+  /** 必须全部批准的审批人 */
+  requiredApprovers?: string[]
+  /** 可以审批的组（见 ApprovalConfig.groups），未指定且没有 requiredApprovers 时任何人都可以审批 */
+  groups?: string[]
+  /** 最少批准人数，默认为 requiredApprovers 的人数（至少 1） */
+  minApprovals?: number
+  /** 审批请求的有效期（小时），默认 24 */
+  expiresIn?: number
+  /** 是否允许发起人批准自己的部署，默认 false */
+  allowSelfApproval?: boolean
+}
+
+/**
+ * 审批请求存储
+ * - file: 工作目录下的 .deploy-approvals/（默认）
+ * - s3: S3 兼容对象存储，多台机器共享
+ */
+export interface ApprovalStoreConfig {
+  backend?: 'file' | 's3'
+  /** 文件存储目录，默认 <workDir>/.deploy-approvals */
+  dir?: string
+  s3?: {
+    bucket: string
+    /** 对象键前缀，默认 ldesign-deployer/approvals/ */
+    prefix?: string
+    region?: string
+    endpoint?: string
+  }
+}
+
+/**
+ * 部署审批配置
+ */
+export interface ApprovalConfig {
+  /** 需要审批的环境及其策略 */
+  environments: Partial<Record<Environment, ApprovalPolicy>>
+  /** 审批组成员 */
+  groups?: Record<string, string[]>
+  /**
+   * 用户 -> 审批令牌的 SHA-256 摘要（由 approvals:token 生成）。
+   * 当前用户由 DEPLOYER_APPROVAL_TOKEN 与这里的摘要匹配得出，无法验证的身份不能发起或审批部署
+   */
+  identities?: Record<string, string>
+  store?: ApprovalStoreConfig
+}
+
+/**
+ * 审批状态
+ * - used: 已批准并用于一次成功的部署，不能再次使用
+ */
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'expired' | 'used'
+
+/**
+ * 审批决定
+ */
+export interface ApprovalDecision {
+  user: string
+  decision: 'approve' | 'reject'
+  comment?: string
+  at: string
+}
+
+/**
+ * 审批请求
+ */
+export interface ApprovalRequest {
+  id: string
+  name: string
+  version: string
+  environment: Environment
+  /** 部署配置的哈希（密钥值已遮蔽），配置变化后批准失效 */
+  configHash: string
+  /** 应用或服务名称 -> 镜像摘要，批准只对这些镜像有效 */
+  digests: Record<string, string>
+  requestedBy: string
+  requestedAt: string
+  expiresAt: string
+  status: ApprovalStatus
+  /** 创建请求时的策略快照，仅供记录；审批判定使用当前配置 */
+  policy: ApprovalPolicy
+  /** 可以审批的用户（由当前配置的 requiredApprovers 与组成员展开），未设置时任何人都可以审批 */
+  eligibleApprovers?: string[]
+  decisions: ApprovalDecision[]
+  /** 使用该审批完成的部署 */
+  deploymentId?: string
+  usedAt?: string
+}
@@ -0,0 +1,57 @@
+/**
+ * 部署窗口与冻结期相关类型定义
+ */
+
+import type { Environment } from './config.js'
+
+/**
+ * 违反部署窗口或冻结期时的处理方式
+ * - block: 中止部署（可通过紧急覆盖并填写原因继续）
+ * - warn: 仅警告
+ */
+export type CalendarEnforcement = 'block' | 'warn'
+
+/**
+ * 允许部署的时间窗口
+ */
+export interface DeployWindow {
+  name?: string
+  /**
+   * cron 表达式（分 时 日 月 周），匹配的每一分钟都允许部署，
+   * 例如 "* 9-17 * * mon-fri" 表示工作日 9:00-17:59
+   */
+  cron: string
+  /** 适用的环境，未指定时适用于所有环境 */
+  environments?: Environment[]
+  /** 时区，默认使用 deployWindows.timezone */
+  timezone?: string
+}
+
+/**
+ * 部署窗口配置，配置了窗口的环境只能在窗口内部署
+ */
+export interface DeployWindowsConfig {
+  /** IANA 时区（如 Asia/Shanghai），默认使用系统时区 */
+  timezone?: string
+  /** 在窗口外部署时的处理方式，默认 block */
+  enforcement?: CalendarEnforcement
+  windows: DeployWindow[]
+}
+
+/**
+ * 冻结期：该时间段内禁止部署
+ */
+export interface FreezePeriod {
+  name: string
+  /** 开始时间，YYYY-MM-DD 或 YYYY-MM-DDTHH:mm（冻结期时区的本地时间） */
+  start: string
+  /** 结束时间，只有日期时包含当天 */
+  end: string
+  reason?: string
+  /** 适用的环境，未指定时适用于所有环境 */
+  environments?: Environment[]
+  /** 时区，默认使用 deployWindows.timezone */
+  timezone?: string
+  /** 处理方式，默认 block */
+  enforcement?: CalendarEnforcement
+}
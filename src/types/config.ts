@@ -2,15 +2,29 @@
  * @ldesign/deployer 类型定义
  */
 
+import type { PrometheusSourceConfig, StrategyResult } from './strategies.js'
+import type { ContainerProxyConfig } from './docker.js'
+import type { PipelineConfig, PipelineResult } from './pipeline.js'
+import type { LockConfig } from './lock.js'
+import type { ApprovalConfig } from './approval.js'
+import type { DeployWindowsConfig, FreezePeriod } from './calendar.js'
+import type { PolicyConfig } from './policy.js'
+import type { PluginSpec } from './plugin.js'
+
 /**
  * 环境类型
  */
 export type Environment = 'development' | 'test' | 'staging' | 'production'
 
 /**
- * 部署平台
+ * 内置部署平台
+ */
+export type BuiltinPlatform = 'docker' | 'kubernetes' | 'docker-compose'
+
+/**
+ * 部署平台，插件可以注册新的平台
  */
-export type Platform = 'docker' | 'kubernetes' | 'docker-compose'
+export type Platform = BuiltinPlatform | (string & {})
 
 /**
  * 项目类型
@@ -94,16 +108,125 @@ export interface DeployConfig {
 
   // 钩子
   hooks?: HookConfig
+
+  // 流水线（配置后替代默认的 部署 → 健康检查 流程）
+  pipeline?: PipelineConfig
+
+  // 多服务应用（按 dependsOn 顺序部署）
+  services?: Record<string, DeployServiceConfig>
+
+  // 部署锁（按应用与环境加锁）
+  lock?: LockConfig
+
+  // 部署审批（按环境配置审批策略）
+  approvals?: ApprovalConfig
+
+  // 部署窗口（只允许在窗口内部署）
+  deployWindows?: DeployWindowsConfig
+
+  // 冻结期（禁止部署的时间段）
+  freezes?: FreezePeriod[]
+
+  // 部署策略（policy-as-code）
+  policy?: PolicyConfig
+
+  // 插件（包名或模块路径）
+  plugins?: PluginSpec[]
 }
 
+/**
+ * 多服务应用中的单个服务
+ *
+ * @description docker / kubernetes / healthCheck 覆盖应用级配置（按顶层字段合并），
+ * 服务名称为 <name>-<服务键>，未指定 docker.image 时镜像名与服务名称相同
+ */
+export interface DeployServiceConfig {
+  docker?: Partial<DockerConfig>
+  kubernetes?: KubernetesConfig
+  healthCheck?: HealthCheckConfig
+  /** 需要先部署并通过健康检查的服务 */
+  dependsOn?: string[]
+}
+
+/**
+ * 函数式配置的上下文
+ */
+export interface ConfigContext {
+  /** 目标环境 */
+  environment: Environment
+  /** 当前仓库的 Git 信息（不在 Git 仓库中时为空对象） */
+  git: {
+    commit?: string
+    branch?: string
+    tag?: string
+  }
+  /** 进程环境变量 */
+  env: Record<string, string | undefined>
+}
+
+/**
+ * 函数式配置：根据上下文动态生成配置
+ */
+export type ConfigFactory = (ctx: ConfigContext) => DeployConfig | Promise<DeployConfig>
+
+/**
+ * 钩子类型
+ */
+export type HookType = 'preDeploy' | 'postDeploy' | 'preRollback' | 'postRollback'
+
+/**
+ * 钩子执行条件，同时设置时需全部满足
+ */
+export interface HookCondition {
+  /** 仅在这些环境执行 */
+  environments?: Environment[]
+  /** 仅在这些平台执行 */
+  platforms?: Platform[]
+}
+
+/**
+ * 结构化钩子
+ *
+ * @description 命令通过 shell 执行，环境变量中包含部署上下文：
+ * DEPLOY_HOOK、DEPLOY_APP、DEPLOY_VERSION、DEPLOY_ENVIRONMENT、DEPLOY_PLATFORM、
+ * DEPLOY_IMAGE、DEPLOY_IMAGE_DIGEST（已知时），回滚钩子另有 DEPLOY_ROLLBACK_FROM
+ */
+export interface HookDefinition {
+  /** 名称，默认为命令 */
+  name?: string
+  /** 执行的命令 */
+  run: string
+  /** 工作目录（相对部署器的工作目录） */
+  cwd?: string
+  /** 额外的环境变量 */
+  env?: Record<string, string>
+  /** 单次执行超时（秒），超时后终止进程 */
+  timeout?: number
+  /** 失败后重试次数，默认 0 */
+  retries?: number
+  /** 重试间隔（秒），默认 5 */
+  retryDelay?: number
+  /** 失败时只记录警告，不中止部署 */
+  continueOnError?: boolean
+  /** 执行条件 */
+  when?: HookCondition
+  /** 执行命令的 shell，默认 /bin/sh（Windows 为 cmd.exe） */
+  shell?: string
+}
+
+/**
+ * 钩子：命令字符串（等同于 { run: 命令 }）或结构化钩子
+ */
+export type HookEntry = string | HookDefinition
+
 /**
  * 钩子配置
  */
 export interface HookConfig {
-  preDeploy?: string[]
-  postDeploy?: string[]
-  preRollback?: string[]
-  postRollback?: string[]
+  preDeploy?: HookEntry[]
+  postDeploy?: HookEntry[]
+  preRollback?: HookEntry[]
+  postRollback?: HookEntry[]
 }
 
 /**
@@ -119,6 +242,8 @@ export interface DockerConfig {
   image: string
   tag?: string
   registry?: string
+  /** 不可变的镜像摘要（sha256:...，本地镜像为镜像 ID），设置时按摘要部署而不是可变的标签，晋升时自动设置 */
+  digest?: string
 
   // 构建选项
   multiStage?: boolean
@@ -128,6 +253,10 @@ export interface DockerConfig {
 
   // Compose
   compose?: DockerComposeConfig
+
+  // 渐进式发布（docker / docker-compose 平台）
+  strategy?: DeploymentStrategy
+  proxy?: ContainerProxyConfig
 }
 
 /**
@@ -257,9 +386,18 @@ export interface CanaryStep {
  * 分析配置
  */
 export interface AnalysisConfig {
+  /** 最低成功率，0-1 或百分比（大于 1 时按百分比处理） */
   successRate?: number
+  /** 最高错误率，0-1 或百分比（大于 1 时按百分比处理） */
   errorRate?: number
+  /** P95 延迟上限（毫秒） */
   latency?: number
+  /** 分析间隔（秒），默认 60 */
+  interval?: number
+  /** 允许的失败检查次数，达到后回滚（Flagger analysis.threshold），默认 5 */
+  failureThreshold?: number
+  /** Prometheus 数据源，未配置时只做健康检查 */
+  prometheus?: PrometheusSourceConfig
 }
 
 /**
@@ -343,6 +481,57 @@ export interface DeployResult {
   timestamp: string
   environment: Environment
   platform: Platform
+  /** 发布等待手动或定时切换，切换完成前不记录部署历史、不使用批准 */
+  pending?: boolean
+  /** 通过发布策略部署时的策略执行结果 */
+  strategy?: StrategyResult
+  /** 通过流水线部署时的各阶段结果 */
+  pipeline?: PipelineResult
+  /** 多服务应用中各服务的部署结果（按部署顺序） */
+  services?: ServiceDeployResult[]
+  /** 部署的镜像与摘要；通过 promote 部署时包含制品来源 */
+  provenance?: DeploymentProvenance
+}
+
+/**
+ * 制品来源：部署的镜像摘要，晋升部署还记录复用的源环境部署与镜像
+ */
+export interface DeploymentProvenance {
+  /** 源部署 ID（DeploymentHistory.id），仅晋升部署 */
+  sourceDeploymentId?: string
+  /** 源环境，仅晋升部署 */
+  sourceEnvironment?: Environment
+  /** 源环境部署的镜像，仅晋升部署 */
+  sourceImage?: string
+  /** 部署的镜像（晋升时与源镜像相同或为其新标签） */
+  image: string
+  /** 镜像摘要（sha256:...），未推送到镜像仓库时为本地镜像 ID */
+  digest: string
+}
+
+/**
+ * 服务部署状态
+ */
+export type ServiceDeployStatus = 'success' | 'failed' | 'skipped' | 'rolledBack'
+
+/**
+ * 单个服务的部署结果
+ */
+export interface ServiceDeployResult {
+  /** 服务键 */
+  name: string
+  status: ServiceDeployStatus
+  /** 耗时（毫秒） */
+  duration: number
+  result?: DeployResult
+  error?: string
+  /** 跳过原因 */
+  reason?: string
+  /** 后续服务失败后的回滚结果 */
+  rollback?: {
+    success: boolean
+    message: string
+  }
 }
 
 /**
@@ -350,6 +539,10 @@ export interface DeployResult {
  */
 export interface RollbackConfig {
   version?: string
+  /** 已解析的目标部署记录，设置时不再按版本号在全部历史中查找 */
+  target?: DeploymentHistory
+  /** 被回滚的版本，默认为历史中最近一次成功的部署 */
+  rollbackFrom?: string
   revision?: number
   auto?: boolean
   timeout?: number
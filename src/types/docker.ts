@@ -32,6 +32,8 @@ export interface BuildOptions {
   pull?: boolean
   noCache?: boolean
   progress?: 'auto' | 'plain' | 'tty'
+  /** 中止信号，触发时终止 docker build 进程 */
+  signal?: AbortSignal
 }
 
 /**
@@ -45,6 +47,8 @@ export interface PushOptions {
     username: string
     password: string
   }
+  /** 中止信号，触发时终止 docker push 进程 */
+  signal?: AbortSignal
 }
 
 /**
@@ -53,6 +57,8 @@ export interface PushOptions {
 export interface ImageInfo {
   id: string
   tags: string[]
+  /** 推送后的仓库摘要（sha256:...），未推送时为 undefined */
+  digest?: string
   size: number
   created: string
 }
@@ -80,6 +86,7 @@ export interface ComposeService {
   container_name?: string
   ports?: string[]
   environment?: Record<string, string> | string[]
+  env_file?: string[]
   volumes?: string[]
   depends_on?: string[]
   restart?: 'no' | 'always' | 'on-failure' | 'unless-stopped'
@@ -110,6 +117,41 @@ export interface ComposeConfig {
   }>
 }
 
+/**
+ * 容器平台渐进式发布使用的反向代理实现
+ *
+ * - nginx: upstream 加权 server，修改配置后 nginx -s reload
+ * - traefik: 文件 provider 的 weighted service，修改配置后自动生效
+ */
+export type ContainerProxyProvider = 'nginx' | 'traefik'
 
+/**
+ * 容器平台（docker / docker-compose）反向代理配置
+ */
+export interface ContainerProxyConfig {
+  /** 代理实现，默认 nginx */
+  provider?: ContainerProxyProvider
+  /** 对外发布的端口，默认 80 */
+  port?: number
+  /** 预览端口，蓝绿切换前可通过该端口访问新环境；未设置时不开放 */
+  previewPort?: number
+  /** Docker 网络名称，默认 <appName>-net（docker-compose 平台使用项目默认网络） */
+  network?: string
+  /** 代理配置与 compose 文件所在目录，默认 .deployer/proxy/<appName> */
+  configDir?: string
+  /** 代理镜像，默认 nginx:alpine / traefik:v3.0 */
+  image?: string
+}
 
-
+/**
+ * 代理后端
+ */
+export interface ProxyBackend {
+  /** 后端名称（如 blue、green 或版本号） */
+  name: string
+  /** 容器主机名 */
+  host: string
+  port: number
+  /** 权重（0-100），为 0 时不接收流量 */
+  weight: number
+}
@@ -6,7 +6,12 @@ export * from './config.js'
 export * from './docker.js'
 export * from './kubernetes.js'
 export * from './strategies.js'
-
+export * from './pipeline.js'
+export * from './lock.js'
+export * from './approval.js'
+export * from './calendar.js'
+export * from './policy.js'
+export * from './plugin.js'
 
 
 
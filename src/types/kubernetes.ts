@@ -7,6 +7,11 @@
  */
 export type K8sResourceType = 'Deployment' | 'Service' | 'Ingress' | 'ConfigMap' | 'Secret' | 'HPA' | 'VPA'
 
+/**
+ * 渐进式发布控制器（Canary / BlueGreen 策略的清单输出）
+ */
+export type ProgressiveDeliveryProvider = 'argo' | 'flagger'
+
 /**
  * K8s 部署选项
  */
@@ -16,6 +21,8 @@ export interface K8sDeployOptions {
   dryRun?: boolean
   wait?: boolean
   timeout?: number
+  /** 中止信号，触发时终止正在执行的 kubectl 命令 */
+  signal?: AbortSignal
 }
 
 /**
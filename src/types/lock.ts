@@ -0,0 +1,46 @@
+/**
+ * 部署锁相关类型定义
+ */
+
+/**
+ * 锁后端类型
+ * - file: 工作目录下的锁文件（默认，仅能协调同一台机器）
+ * - kubernetes: coordination.k8s.io/v1 Lease 对象
+ * - redis: SET NX PX，附带单调递增的 fencing token
+ * - s3: S3 兼容对象存储的条件写入（If-None-Match / If-Match）
+ */
+export type LockBackendType = 'file' | 'kubernetes' | 'redis' | 's3'
+
+/**
+ * 部署锁配置
+ */
+export interface LockConfig {
+  /** 锁后端，默认 file */
+  backend?: LockBackendType
+  /** 锁的有效期（毫秒），持有者停止续期后超过该时间视为过期，默认 60000 */
+  ttl?: number
+  /** 续期间隔（毫秒），默认为 ttl 的三分之一 */
+  heartbeatInterval?: number
+  file?: {
+    /** 锁文件目录，默认 <workDir>/.deploy-locks */
+    dir?: string
+  }
+  kubernetes?: {
+    namespace?: string
+    context?: string
+  }
+  redis?: {
+    /** redis://[user:password@]host:port[/db]，默认 redis://127.0.0.1:6379 */
+    url?: string
+    /** 键前缀，默认 ldesign-deployer:lock: */
+    keyPrefix?: string
+  }
+  s3?: {
+    bucket: string
+    /** 对象键前缀，默认 ldesign-deployer/locks/ */
+    prefix?: string
+    region?: string
+    /** S3 兼容存储的地址（MinIO、R2 等） */
+    endpoint?: string
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * 部署流水线相关类型定义
+ */
+
+import type { Environment } from './config.js'
+
+/**
+ * 内置阶段类型
+ *
+ * @description deploy 执行平台部署，verify 执行健康检查；
+ * 其余类型（以及配置了 commands 的 deploy/verify）依次执行 commands
+ */
+export type PipelineStageType = 'build' | 'test' | 'migrate' | 'deploy' | 'verify' | 'notify' | 'custom'
+
+/**
+ * 阶段执行条件
+ */
+export interface PipelineCondition {
+  /** 仅在这些环境执行 */
+  environments?: Environment[]
+  /**
+   * 依赖阶段状态要求
+   * - success: 所有依赖成功（默认）
+   * - failure: 任一依赖失败，用于失败通知、清理
+   * - always: 依赖结束后总是执行
+   */
+  status?: 'success' | 'failure' | 'always'
+  /** 这些环境变量均已设置且非空时执行 */
+  env?: string[]
+}
+
+/**
+ * 流水线阶段配置
+ */
+export interface PipelineStageConfig {
+  /** 阶段名称（唯一） */
+  name: string
+  /** 阶段类型，默认取名称对应的内置类型，否则为 custom */
+  type?: PipelineStageType
+  /** 执行的命令 */
+  commands?: string[]
+  /** 依赖的阶段名称 */
+  dependsOn?: string[]
+  /** 执行条件 */
+  when?: PipelineCondition
+  /** 失败后重试次数，默认 0 */
+  retries?: number
+  /** 重试间隔（秒），默认 5 */
+  retryDelay?: number
+  /** 单次执行超时（秒） */
+  timeout?: number
+  /** 失败时不影响流水线结果 */
+  continueOnError?: boolean
+}
+
+/**
+ * 流水线配置
+ */
+export interface PipelineConfig {
+  stages: PipelineStageConfig[]
+  /** 最大并行阶段数，默认不限制 */
+  concurrency?: number
+  /** 阶段失败后不再启动新阶段（status 为 failure/always 的阶段除外），默认 true */
+  failFast?: boolean
+}
+
+/**
+ * 阶段状态
+ */
+export type PipelineStageStatus = 'pending' | 'running' | 'success' | 'failed' | 'skipped'
+
+/**
+ * 阶段执行结果
+ */
+export interface PipelineStageResult {
+  name: string
+  type: PipelineStageType
+  status: PipelineStageStatus
+  /** 执行次数（含重试） */
+  attempts: number
+  /** 耗时（毫秒） */
+  duration: number
+  error?: string
+  /** 跳过原因 */
+  reason?: string
+  startedAt?: string
+  finishedAt?: string
+}
+
+/**
+ * 流水线执行结果
+ */
+export interface PipelineResult {
+  success: boolean
+  stages: PipelineStageResult[]
+  /** 耗时（毫秒） */
+  duration: number
+}
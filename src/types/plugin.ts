@@ -0,0 +1,166 @@
+/**
+ * 插件系统相关类型定义
+ */
+
+import type { BaseNotifier } from '../notifications/BaseNotifier.js'
+import type { ConfigTemplate } from '../templates/TemplateRegistry.js'
+import type { DeployConfig, DeployResult } from './config.js'
+
+/**
+ * 配置中的插件：包名或相对工作目录的模块路径，可以附带插件选项
+ *
+ * @example
+ * ```json
+ * { "plugins": ["@acme/deployer-plugin-x", ["./plugins/slack.js", { "channel": "#deploy" }]] }
+ * ```
+ */
+export type PluginSpec = string | [string, Record<string, any>]
+
+/**
+ * 构建钩子上下文
+ */
+export interface PluginBuildContext {
+  config: DeployConfig
+  /** 镜像，如 shop:1.2.0 */
+  image: string
+  /** 构建上下文目录 */
+  context: string
+}
+
+/**
+ * 部署钩子上下文
+ */
+export interface PluginDeployContext {
+  config: DeployConfig
+  dryRun: boolean
+}
+
+/**
+ * 部署完成钩子上下文
+ */
+export interface PluginDeployResultContext extends PluginDeployContext {
+  result: DeployResult
+  /** 部署耗时（毫秒） */
+  duration: number
+}
+
+/**
+ * 回滚钩子上下文
+ */
+export interface PluginRollbackContext {
+  /** 回滚的目标版本，未知时为 undefined */
+  version?: string
+  result: DeployResult
+  config?: DeployConfig
+}
+
+/**
+ * 错误钩子上下文
+ */
+export interface PluginErrorContext {
+  error: Error
+  /** 出错时已解析的配置 */
+  config?: DeployConfig
+}
+
+/**
+ * 生命周期钩子，钩子抛出的错误只记录警告，不影响部署
+ */
+export interface PluginHooks {
+  /** 配置加载并验证后调用，配置只读 */
+  configResolved?: (config: Readonly<DeployConfig>) => void | Promise<void>
+  /** 构建镜像前调用 */
+  beforeBuild?: (context: PluginBuildContext) => void | Promise<void>
+  /** 构建镜像后调用 */
+  afterBuild?: (context: PluginBuildContext) => void | Promise<void>
+  /** 执行部署前调用（在 preDeploy 钩子脚本之前） */
+  beforeDeploy?: (context: PluginDeployContext) => void | Promise<void>
+  /** 部署结束后调用，部署失败时 result.success 为 false */
+  afterDeploy?: (context: PluginDeployResultContext) => void | Promise<void>
+  /** 回滚后调用 */
+  onRollback?: (context: PluginRollbackContext) => void | Promise<void>
+  /** 部署过程抛出错误时调用 */
+  onError?: (context: PluginErrorContext) => void | Promise<void>
+}
+
+/**
+ * 生命周期钩子名称
+ */
+export type PluginHookName = keyof PluginHooks
+
+/**
+ * 插件注册的 CLI 命令选项
+ */
+export interface PluginCommandOption {
+  /** 选项定义，如 '--channel <name>' */
+  name: string
+  description: string
+  default?: any
+}
+
+/**
+ * 插件注册的 CLI 命令
+ */
+export interface PluginCommand {
+  /** 命令定义，如 'slack:test [message]' */
+  name: string
+  description: string
+  options?: PluginCommandOption[]
+  /** 参数依次为命令参数与选项对象 */
+  action: (...args: any[]) => void | Promise<void>
+}
+
+/**
+ * 插件提供的部署平台，配置中 platform 为其 name 时由插件执行部署
+ */
+export interface PlatformProvider {
+  name: string
+  /** signal 为部署的中止信号，触发时应尽快停止并拒绝 */
+  deploy: (config: DeployConfig, options: { dryRun?: boolean; skipBuild?: boolean; signal?: AbortSignal }) => Promise<DeployResult>
+  /** 回滚到历史部署的配置，未提供时该平台不支持回滚 */
+  rollback?: (config: DeployConfig) => Promise<void>
+}
+
+/**
+ * setup 阶段插件可用的注册接口
+ */
+export interface PluginContext {
+  /** 工作目录 */
+  workDir: string
+  registerCommand: (command: PluginCommand) => void
+  registerNotifier: (notifier: BaseNotifier) => void
+  registerTemplate: (template: ConfigTemplate) => void
+  registerPlatform: (platform: PlatformProvider) => void
+}
+
+/**
+ * 部署器插件
+ *
+ * @example
+ * ```typescript
+ * export default (options: { channel: string }): DeployerPlugin => ({
+ *   name: 'deployer-plugin-slack',
+ *   setup(ctx) {
+ *     ctx.registerNotifier(new SlackNotifier({ channel: options.channel }))
+ *   },
+ *   afterDeploy({ config, result }) {
+ *     console.log(`${config.name}: ${result.message}`)
+ *   },
+ * })
+ * ```
+ */
+export interface DeployerPlugin extends PluginHooks {
+  name: string
+  /** 加载插件时调用，用于注册命令、通知器、模板与平台 */
+  setup?: (context: PluginContext) => void | Promise<void>
+}
+
+/**
+ * 插件加载或钩子执行失败的记录
+ */
+export interface PluginFailure {
+  plugin: string
+  /** 失败的钩子，加载失败时为 'load'，setup 失败时为 'setup' */
+  hook: PluginHookName | 'load' | 'setup'
+  error: string
+}
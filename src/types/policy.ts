@@ -0,0 +1,124 @@
+/**
+ * 部署策略（policy-as-code）相关类型定义
+ */
+
+import type { DeployConfig, Environment } from './config.js'
+
+/**
+ * 策略严重程度，error 级别的违反会阻止部署
+ */
+export type PolicySeverity = 'error' | 'warning' | 'info'
+
+/**
+ * 断言：对路径上的值做检查，同时设置多个条件时需全部满足
+ *
+ * @description 路径使用点号与下标，`[*]` 匹配数组的每个元素，
+ * 例如 `spec.template.spec.containers[*].resources.limits`
+ */
+export interface PolicyAssertion {
+  path: string
+  /** 值是否存在（不为 undefined / null） */
+  exists?: boolean
+  equals?: any
+  notEquals?: any
+  oneOf?: any[]
+  notOneOf?: any[]
+  /** 正则表达式 */
+  matches?: string
+  notMatches?: string
+  /** 数值下限（含） */
+  min?: number
+  /** 数值上限（含） */
+  max?: number
+}
+
+/**
+ * 策略检查上下文
+ */
+export interface PolicyContext {
+  /** 解析后的部署配置 */
+  config: DeployConfig
+  environment: Environment
+  /** 生成的 Kubernetes 清单（平台为 kubernetes 时） */
+  manifests: Record<string, any>[]
+}
+
+/**
+ * JS 规则返回的违反项
+ */
+export interface PolicyFinding {
+  message: string
+  /** 值的路径 */
+  path?: string
+  /** 清单资源，如 Deployment/shop */
+  resource?: string
+}
+
+/**
+ * 规则定义：声明式规则使用 assert，JS 规则模块可以提供 evaluate 函数
+ */
+export interface PolicyRuleDefinition {
+  id: string
+  description?: string
+  /** 默认 error */
+  severity?: PolicySeverity
+  /** 适用的环境，未指定时适用于所有环境 */
+  environments?: Environment[]
+  /** 检查对象，默认 config */
+  target?: 'config' | 'manifest'
+  /** target 为 manifest 时只检查这些 kind 的资源 */
+  kind?: string | string[]
+  /** 前置条件，不满足时跳过该规则 */
+  when?: PolicyAssertion | PolicyAssertion[]
+  assert?: PolicyAssertion | PolicyAssertion[]
+  /** 自定义违反信息 */
+  message?: string
+  /**
+   * 自定义检查：返回 true / undefined 表示通过，false 或字符串表示违反，
+   * 也可以返回多个违反项
+   */
+  evaluate?: (
+    context: PolicyContext
+  ) => boolean | string | void | Array<string | PolicyFinding> | Promise<boolean | string | void | Array<string | PolicyFinding>>
+}
+
+/**
+ * 策略文件内容（JSON / YAML / TOML 或 JS、TS 模块的默认导出）
+ */
+export interface PolicyFile {
+  rules: PolicyRuleDefinition[]
+}
+
+/**
+ * 部署策略配置
+ */
+export interface PolicyConfig {
+  /** 策略文件，默认读取工作目录下的 deploy.policy.* */
+  files?: string[]
+  /** 禁用的规则 ID */
+  disabled?: string[]
+}
+
+/**
+ * 策略违反
+ */
+export interface PolicyViolation {
+  ruleId: string
+  severity: PolicySeverity
+  message: string
+  path?: string
+  resource?: string
+  /** 规则所在的策略文件 */
+  source?: string
+}
+
+/**
+ * 策略检查报告
+ */
+export interface PolicyReport {
+  /** 没有 error 级别的违反 */
+  passed: boolean
+  environment: Environment
+  rules: Array<Pick<PolicyRuleDefinition, 'id' | 'description' | 'severity'> & { source?: string }>
+  violations: PolicyViolation[]
+}
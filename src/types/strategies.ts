@@ -2,10 +2,20 @@
  * 部署策略相关类型定义
  */
 
+import type {
+  DeployConfig,
+  DeploymentProvenance,
+  HealthCheckConfig,
+  Platform,
+  ProbeConfig,
+  ResourceConfig,
+} from './config.js'
+import type { ContainerProxyConfig } from './docker.js'
+
 /**
  * 部署策略类型
  */
-export type StrategyType = 'rolling' | 'bluegreen' | 'canary' | 'abtest'
+export type StrategyType = 'rolling' | 'bluegreen' | 'canary' | 'abtest' | 'shadow'
 
 /**
  * 策略执行结果
@@ -14,59 +24,244 @@ export interface StrategyResult {
   success: boolean
   strategy: StrategyType
   message: string
+  /** 新版本已部署，流量切换等待 bluegreen:promote 或 bluegreen:run-scheduled 完成 */
+  pending?: boolean
   details?: any
   timestamp: string
 }
 
+/**
+ * 策略部署目标
+ */
+export interface StrategyTargetConfig {
+  appName: string
+  image: string
+  /** 新版本的不可变镜像引用（image@sha256:...），设置时新版本使用它而不是 image:<version> */
+  pinnedImage?: string
+  platform?: Platform
+  namespace?: string
+  replicas?: number
+  port?: number
+  healthCheck?: HealthCheckConfig
+  /** 应用容器的环境变量（含 secrets） */
+  env?: Record<string, string>
+  /** Kubernetes 容器资源（kubernetes.deployment.resources） */
+  resources?: ResourceConfig
+  /** Kubernetes 容器探针，未设置存活、就绪探针时按 healthCheck.path 检查 */
+  livenessProbe?: ProbeConfig
+  readinessProbe?: ProbeConfig
+  startupProbe?: ProbeConfig
+  /** docker / docker-compose 平台的反向代理配置 */
+  proxy?: ContainerProxyConfig
+  /** 中止信号，触发时中断发布过程（回滚不受影响） */
+  signal?: AbortSignal
+}
+
 /**
  * 滚动更新配置
  */
-export interface RollingUpdateConfig {
+export interface RollingUpdateConfig extends StrategyTargetConfig {
+  /** 镜像标签，未设置时直接使用 image */
+  version?: string
+  /** 需要更新的容器名称，默认 appName */
+  container?: string
   maxSurge: number | string
   maxUnavailable: number | string
+  /** 每批更新完成后暂停的时间（秒） */
   pauseBetweenBatches?: number
+  /** 健康检查间隔（秒），默认 5 */
   healthCheckInterval?: number
+  /** 整体超时（秒），默认 600 */
+  timeout?: number
 }
 
 /**
  * 蓝绿部署配置
  */
-export interface BlueGreenDeployConfig {
+export interface BlueGreenDeployConfig extends StrategyTargetConfig {
   blueVersion: string
   greenVersion: string
-  activeColor: 'blue' | 'green'
+  /** 当前承载流量的环境，新版本部署到另一侧 */
+  activeColor: BlueGreenColor
   trafficSwitch: {
     immediate?: boolean
     scheduled?: {
+      /** 切换时间（ISO 8601） */
       time: string
     }
     manual?: boolean
   }
   rollbackOnError?: boolean
   healthCheckTimeout?: number
+  /** 健康检查稳定期（秒），默认 30 */
+  stabilityPeriod?: number
   previewMode?: boolean
+  /** 承载线上流量的 Service 名称，默认 appName */
+  activeService?: string
+  /** 预览 Service 名称，默认 <appName>-preview */
+  previewService?: string
+}
+
+/**
+ * 蓝绿环境颜色
+ */
+export type BlueGreenColor = 'blue' | 'green'
+
+/**
+ * 待切换的蓝绿发布
+ *
+ * @description 手动/定时切换时持久化，供 bluegreen:status / promote / abort 使用
+ */
+export interface PendingPromotion {
+  appName: string
+  namespace: string
+  mode: 'manual' | 'scheduled'
+  /** 当前承载流量的环境 */
+  activeColor: BlueGreenColor
+  /** 等待切换的新环境 */
+  targetColor: BlueGreenColor
+  targetVersion: string
+  /** 预览 Service 名称 */
+  previewService: string
+  /** 定时切换时间（ISO 8601） */
+  scheduledAt?: string
+  createdAt: string
+  config: BlueGreenDeployConfig
+  /** 发起发布的部署，切换完成时据此记录部署历史并使用批准 */
+  deployment?: PendingDeployment
+}
+
+/**
+ * 等待切换完成的部署
+ */
+export interface PendingDeployment {
+  deploymentId: string
+  /** 部署开始时间（ISO 8601） */
+  startedAt: string
+  /** 部署配置，密钥值保存为 ${secret:name} 引用 */
+  config: DeployConfig
+  /** 部署使用的批准，切换完成后标记为已使用 */
+  approvalId?: string
+  provenance?: DeploymentProvenance
 }
 
 /**
  * 金丝雀发布配置
  */
-export interface CanaryDeployConfig {
+export interface CanaryDeployConfig extends StrategyTargetConfig {
   baselineVersion: string
   canaryVersion: string
   steps: CanaryDeployStep[]
-  analysis?: {
-    interval: number
-    threshold: {
-      successRate?: number
-      errorRate?: number
-      latency?: number
-    }
-    metrics?: string[]
-  }
+  analysis?: CanaryAnalysisConfig
   autoPromote?: boolean
   autoRollback?: boolean
 }
 
+/**
+ * 金丝雀指标分析配置
+ */
+export interface CanaryAnalysisConfig {
+  /** 分析间隔（秒），同时作为 PromQL rate 窗口 */
+  interval: number
+  threshold: {
+    /** 最低成功率（0-1） */
+    successRate?: number
+    /** 最高错误率（0-1） */
+    errorRate?: number
+    /** P95 延迟上限（毫秒） */
+    latency?: number
+    /** P99 延迟上限（毫秒） */
+    latencyP99?: number
+  }
+  /** 需要额外评估的自定义查询名称（对应 queries 中的键） */
+  metrics?: string[]
+  /** 自定义命名查询 */
+  queries?: Record<string, CanaryMetricQuery>
+  /** Prometheus 数据源 */
+  prometheus?: PrometheusSourceConfig
+  /** 基线对比分析 */
+  comparison?: CanaryComparisonConfig
+}
+
+/**
+ * 可用于基线对比的指标
+ */
+export type CanaryComparisonMetric = 'errorRate' | 'latencyP50' | 'latencyP95' | 'latencyP99'
+
+/**
+ * 基线 vs 金丝雀对比配置
+ *
+ * @description 在分析窗口内按 step 采样两组时间序列，使用 Mann-Whitney U 检验
+ * 判断金丝雀是否显著劣于「基线 ×（1 + 允许增幅）」与「基线 + 绝对容差」中的较大者
+ */
+export interface CanaryComparisonConfig {
+  /** 指标 -> 允许的相对增幅（0.1 表示不超过基线 10%），默认 { latencyP95: 0.1, errorRate: 0.1 } */
+  metrics?: Partial<Record<CanaryComparisonMetric, number>>
+  /**
+   * 指标 -> 允许的绝对增量（延迟单位为毫秒，错误率为比例），
+   * 基线接近 0 时相对增幅失效，由它兜底；默认 { latencyP95: 10, errorRate: 0.01 }
+   */
+  tolerances?: Partial<Record<CanaryComparisonMetric, number>>
+  /** 置信度，默认 0.95 */
+  confidence?: number
+  /** 采样间隔（秒），默认 10 */
+  step?: number
+  /** 每组最少样本数，不足时判定为 inconclusive，默认 5 */
+  minSamples?: number
+  /** 覆盖基线的标签选择器（默认 app + baselineVersion） */
+  baselineLabels?: Record<string, string>
+}
+
+/**
+ * 单个指标的对比结论
+ */
+export interface CanaryMetricVerdict {
+  metric: CanaryComparisonMetric
+  verdict: 'pass' | 'fail' | 'inconclusive'
+  baselineMedian: number
+  canaryMedian: number
+  /** 中位数相对变化（0.1 表示金丝雀高 10%），基线中位数为 0 而金丝雀大于 0 时为 null */
+  relativeChange: number | null
+  maxIncrease: number
+  /** 允许的绝对增量 */
+  tolerance: number
+  pValue: number
+  samples: {
+    baseline: number
+    canary: number
+  }
+}
+
+/**
+ * 自定义指标查询
+ *
+ * @description query 中可使用 {{selector}}（如 {app="shop",version="1.1.0"}）
+ * 和 {{interval}}（如 60s）占位符
+ */
+export interface CanaryMetricQuery {
+  query: string
+  min?: number
+  max?: number
+}
+
+/**
+ * Prometheus 数据源配置
+ */
+export interface PrometheusSourceConfig {
+  url: string
+  headers?: Record<string, string>
+  /** 请求超时（毫秒） */
+  timeout?: number
+  /** 覆盖默认的标签选择器（默认 app + version） */
+  labels?: Record<string, string>
+  /** 请求计数指标，默认 http_requests_total */
+  requestMetric?: string
+  /** 延迟直方图指标，默认 http_request_duration_seconds_bucket */
+  latencyMetric?: string
+  /** 状态码标签名，默认 status */
+  statusLabel?: string
+}
+
 /**
  * 金丝雀步骤
  */
@@ -76,10 +271,69 @@ export interface CanaryDeployStep {
   pause?: boolean
 }
 
+/**
+ * 影子发布配置
+ *
+ * @description 部署不接收用户流量的影子版本，将生产流量按比例镜像过去，
+ * 影子版本的响应会被丢弃，只用于对比错误率与延迟
+ */
+export interface ShadowDeployConfig extends StrategyTargetConfig {
+  productionVersion: string
+  shadowVersion: string
+  /** 镜像到影子版本的请求比例（0-100），默认 100；NGINX 只支持全量镜像 */
+  mirrorPercentage?: number
+  /** 观察时长（秒） */
+  duration: number
+  analysis: ShadowAnalysisConfig
+  /** 分析结束后撤销镜像并删除影子版本，默认 true */
+  cleanup?: boolean
+  provider?: TrafficProvider
+  host?: string
+  gateways?: string[]
+  ingressClassName?: string
+}
+
+/**
+ * 影子版本分析配置
+ */
+export interface ShadowAnalysisConfig {
+  prometheus: PrometheusSourceConfig
+  /** 影子版本错误率相对生产的最大绝对增量，默认 0.01 */
+  maxErrorRateIncrease?: number
+  /** 影子版本 P95/P99 延迟相对生产的最大相对增幅，默认 0.1 */
+  maxLatencyIncrease?: number
+  /** 基于时间序列的统计对比（影子版本作为候选，生产作为基线） */
+  comparison?: CanaryComparisonConfig
+}
+
+/**
+ * 影子版本单项检查结果
+ */
+export interface ShadowCheck {
+  metric: 'requestRate' | 'errorRate' | 'latencyP95' | 'latencyP99'
+  production: number
+  shadow: number
+  /** 影子版本允许的上限（requestRate 为下限） */
+  limit: number
+  passed: boolean
+}
+
+/**
+ * 影子发布分析报告
+ */
+export interface ShadowReport {
+  safeToPromote: boolean
+  reason: string
+  production: DeploymentMetrics
+  shadow: DeploymentMetrics
+  checks: ShadowCheck[]
+  comparison?: CanaryMetricVerdict[]
+}
+
 /**
  * A/B 测试配置
  */
-export interface ABTestConfig {
+export interface ABTestConfig extends StrategyTargetConfig {
   versionA: string
   versionB: string
   trafficSplit: {
@@ -87,18 +341,109 @@ export interface ABTestConfig {
     b: number
   }
   targetingRules?: ABTestRule[]
+  /** user 定向规则匹配的请求头前缀，默认 x-user-（key 为 id 时匹配 x-user-id） */
+  userHeaderPrefix?: string
+  /** 实验持续时间（秒），结束后评估 successCriteria */
   duration?: number
-  successCriteria?: {
-    metric: string
-    threshold: number
-    comparison: 'greater' | 'less' | 'equal'
+  successCriteria?: ABTestSuccessCriteria
+  /** 指标数据源 */
+  metrics?: ABTestMetricsConfig
+  /** 评估出胜出版本后自动将全部流量切到该版本 */
+  autoPromote?: boolean
+  provider?: TrafficProvider
+  host?: string
+  gateways?: string[]
+  ingressClassName?: string
+}
+
+/**
+ * A/B 测试成功标准
+ *
+ * @description comparison 表示 B 相对 A 的期望方向：
+ * - greater: B 显著高于 A，且相对提升不低于 threshold（如转化率）
+ * - less: B 显著低于 A，且相对降幅不低于 threshold（如延迟）
+ * - equal: 差值置信区间落在 ±threshold（相对 A）之内，即 B 不劣于 A
+ */
+export interface ABTestSuccessCriteria {
+  metric: string
+  /** 相对变化阈值（0.05 表示 5%） */
+  threshold: number
+  comparison: 'greater' | 'less' | 'equal'
+  /** 指标类型：proportion 使用两比例 z 检验，continuous 使用 Welch t 检验，默认 proportion */
+  type?: 'proportion' | 'continuous'
+  /** 置信度，默认 0.95 */
+  confidence?: number
+  /** 每组最少样本数，默认 100 */
+  minSamples?: number
+}
+
+/**
+ * A/B 测试指标数据源
+ *
+ * @description 查询中可使用 {{selector}}（如 {app="shop",version="1.1.0"}）
+ * 和 {{duration}}（如 3600s）占位符，分别对两个版本执行
+ */
+export interface ABTestMetricsConfig {
+  prometheus: PrometheusSourceConfig
+  queries: {
+    /** 样本数（如请求数、访问数） */
+    count: string
+    /** 成功数（proportion 类型必填，如转化数） */
+    successes?: string
+    /** 均值（continuous 类型必填） */
+    mean?: string
+    /** 方差（continuous 类型必填） */
+    variance?: string
   }
 }
 
+/**
+ * 单个版本的指标汇总
+ */
+export interface ABTestVariantStats {
+  count: number
+  /** 比例型指标的成功数 */
+  successes?: number
+  /** 连续型指标的均值 */
+  mean?: number
+  /** 连续型指标的方差 */
+  variance?: number
+}
+
+/**
+ * A/B 测试评估结果
+ */
+export interface ABTestEvaluation {
+  metric: string
+  type: 'proportion' | 'continuous'
+  test: 'two-proportion-z-test' | 'welch-t-test'
+  variants: Record<'a' | 'b', ABTestVariantStats & {
+    /** 比例或均值 */
+    value: number
+    confidenceInterval: { lower: number; upper: number }
+  }>
+  /** B - A */
+  difference: number
+  /** 差值的置信区间 */
+  differenceInterval: { lower: number; upper: number }
+  /** 相对 A 的变化 */
+  relativeChange: number
+  statistic: number
+  pValue: number
+  confidence: number
+  significant: boolean
+  winner: 'a' | 'b' | 'inconclusive'
+  reason: string
+}
+
 /**
  * A/B 测试规则
  */
 export interface ABTestRule {
+  /**
+   * 匹配对象：header / cookie / query 按 key 匹配同名字段；ip 匹配 X-Forwarded-For；
+   * user 匹配网关注入的用户请求头 `<userHeaderPrefix><key>`（默认 x-user-<key>）
+   */
   type: 'header' | 'cookie' | 'query' | 'ip' | 'user'
   key: string
   value: string
@@ -129,17 +474,34 @@ export interface TrafficRoute {
 
 /**
  * 流量匹配规则
+ *
+ * @description 字符串值表示精确匹配；同一条规则内的各字段需同时满足
  */
 export interface TrafficMatch {
-  headers?: Record<string, string>
-  uri?: {
-    prefix?: string
-    exact?: string
-    regex?: string
-  }
+  headers?: Record<string, string | TrafficStringMatch>
+  cookies?: Record<string, string | TrafficStringMatch>
+  queryParams?: Record<string, string | TrafficStringMatch>
+  uri?: TrafficStringMatch
   method?: string
 }
 
+/**
+ * 字符串匹配方式
+ */
+export interface TrafficStringMatch {
+  prefix?: string
+  exact?: string
+  regex?: string
+}
+
+/**
+ * 流量路由实现
+ *
+ * - istio: VirtualService + DestinationRule
+ * - nginx: NGINX Ingress canary 注解
+ */
+export type TrafficProvider = 'istio' | 'nginx'
+
 /**
  * 部署状态
  */
@@ -150,6 +512,7 @@ export type DeploymentStatus = 'pending' | 'progressing' | 'available' | 'failed
  */
 export interface DeploymentMetrics {
   requestRate: number
+  /** 没有请求时无法计算，为 0 且 noData 为 true */
   errorRate: number
   latency: {
     p50: number
@@ -157,6 +520,8 @@ export interface DeploymentMetrics {
     p99: number
   }
   availability: number
+  /** 窗口期内没有请求，错误率与可用性没有意义，分析不能据此判定通过 */
+  noData?: boolean
   timestamp: string
 }
 
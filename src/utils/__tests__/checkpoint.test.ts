@@ -0,0 +1,81 @@
+/**
+ * DeploymentCheckpoint 测试
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { DeploymentCheckpoint, type CheckpointInfo } from '../checkpoint.js'
+import type { Environment } from '../../types/index.js'
+
+function createCheckpoint(deploymentId: string, name: string, environment: Environment): CheckpointInfo {
+  const now = new Date().toISOString()
+  return {
+    deploymentId,
+    name,
+    version: '1.0.0',
+    environment,
+    platform: 'kubernetes',
+    pid: process.pid,
+    status: 'failed',
+    phases: [],
+    options: {},
+    createdAt: now,
+    updatedAt: now,
+  }
+}
+
+describe('DeploymentCheckpoint', () => {
+  let workDir: string
+
+  beforeEach(async () => {
+    workDir = await mkdtemp(join(tmpdir(), 'deployer-checkpoint-'))
+    vi.spyOn(process, 'cwd').mockReturnValue(workDir)
+  })
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    await rm(workDir, { recursive: true, force: true })
+  })
+
+  it('should keep checkpoints of different apps and environments apart', async () => {
+    await DeploymentCheckpoint.save(createCheckpoint('deploy-1', 'shop', 'production'))
+    await DeploymentCheckpoint.save(createCheckpoint('deploy-2', 'shop', 'staging'))
+    await DeploymentCheckpoint.save(createCheckpoint('deploy-3', 'billing', 'production'))
+
+    expect(await DeploymentCheckpoint.load('deploy-1')).toMatchObject({ name: 'shop', environment: 'production' })
+    expect(await DeploymentCheckpoint.load('deploy-3')).toMatchObject({ name: 'billing', environment: 'production' })
+    expect(DeploymentCheckpoint.getPath('shop', 'staging')).toBe(join(workDir, '.deploy-state', 'shop_staging.json'))
+
+    await DeploymentCheckpoint.clear(createCheckpoint('deploy-2', 'shop', 'staging'))
+    expect(await DeploymentCheckpoint.get('shop', 'staging')).toBeNull()
+    expect((await DeploymentCheckpoint.list()).map(checkpoint => checkpoint.deploymentId).sort()).toEqual(['deploy-1', 'deploy-3'])
+  })
+
+  it('should read and write checkpoints under the given workDir', async () => {
+    const otherDir = await mkdtemp(join(tmpdir(), 'deployer-checkpoint-other-'))
+
+    try {
+      await DeploymentCheckpoint.save(createCheckpoint('deploy-1', 'shop', 'production'), otherDir)
+
+      expect(DeploymentCheckpoint.getPath('shop', 'production', otherDir)).toBe(join(otherDir, '.deploy-state', 'shop_production.json'))
+      await expect(DeploymentCheckpoint.load('deploy-1', otherDir)).resolves.toMatchObject({ deploymentId: 'deploy-1' })
+      expect(await DeploymentCheckpoint.list()).toEqual([])
+
+      await DeploymentCheckpoint.clear(createCheckpoint('deploy-1', 'shop', 'production'), otherDir)
+      expect(await DeploymentCheckpoint.list(otherDir)).toEqual([])
+    } finally {
+      await rm(otherDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should only clear the checkpoint of the same deployment', async () => {
+    await DeploymentCheckpoint.save(createCheckpoint('deploy-1', 'shop', 'production'))
+
+    await DeploymentCheckpoint.clear(createCheckpoint('deploy-9', 'shop', 'production'))
+
+    await expect(DeploymentCheckpoint.load('deploy-1')).resolves.toMatchObject({ deploymentId: 'deploy-1' })
+    await expect(DeploymentCheckpoint.load('deploy-9')).rejects.toThrow('No checkpoint found for deployment deploy-9')
+  })
+})
@@ -0,0 +1,229 @@
+/**
+ * 配置文件格式测试
+ */
+
+import { describe, it, expect, afterEach } from 'vitest'
+import { parseConfig, stringifyConfig, getConfigFormat, readConfigDocument, writeConfigDocument } from '../config-format.js'
+import { parseYaml, stringifyYaml } from '../yaml.js'
+import { parseToml, stringifyToml } from '../toml.js'
+import { ConfigError } from '../errors.js'
+import { writeFile, readFile, removeFile } from '../file-system.js'
+
+const yamlConfig = `# Deployment configuration
+name: shop
+version: "1.2.0"
+platform: kubernetes # target platform
+
+docker:
+  image: shop
+  buildArgs: { NODE_ENV: production, PORT: 3000 }
+env:
+  # Verbose logs outside production
+  - name: LOG_LEVEL
+    value: debug
+  - name: GREETING
+    value: 'it''s "quoted"'
+hooks:
+  preDeploy:
+  - npm test
+  - npm run lint
+notes: |
+  first line
+  second line
+summary: >-
+  folded
+  text
+`
+
+const tomlConfig = `# Deployment configuration
+name = "shop"
+version = "1.2.0"
+platform = "kubernetes" # target platform
+
+[docker]
+image = "shop"
+buildArgs = { NODE_ENV = "production", PORT = 3_000 }
+
+# Verbose logs outside production
+[[env]]
+name = "LOG_LEVEL"
+value = 'debug'
+
+[[env]]
+name = "GREETING"
+value = "multi\\nline"
+
+[hooks]
+preDeploy = [
+  "npm test", # unit tests
+  "npm run lint",
+]
+`
+
+describe('config-format', () => {
+  describe('YAML', () => {
+    it('should parse block and flow collections, quoted strings and block scalars', () => {
+      const { data } = parseYaml(yamlConfig)
+
+      expect(data).toEqual({
+        name: 'shop',
+        version: '1.2.0',
+        platform: 'kubernetes',
+        docker: { image: 'shop', buildArgs: { NODE_ENV: 'production', PORT: 3000 } },
+        env: [
+          { name: 'LOG_LEVEL', value: 'debug' },
+          { name: 'GREETING', value: `it's "quoted"` },
+        ],
+        hooks: { preDeploy: ['npm test', 'npm run lint'] },
+        notes: 'first line\nsecond line\n',
+        summary: 'folded text',
+      })
+    })
+
+    it('should resolve core schema scalars', () => {
+      const { data } = parseYaml('a: true\nb: ~\nc: 0x1F\nd: 1.5e3\ne: "42"\nf: yes\ng: []\nh: {}\n')
+
+      expect(data).toEqual({ a: true, b: null, c: 31, d: 1500, e: '42', f: 'yes', g: [], h: {} })
+    })
+
+    it('should report syntax errors with line and column', () => {
+      const parse = (content: string) => {
+        try {
+          parseYaml(content, 'deploy.config.yaml')
+        } catch (error) {
+          return error as ConfigError
+        }
+        throw new Error('Expected a parse error')
+      }
+
+      expect(parse('name: shop\n    version: 1\n').details).toMatchObject({ line: 2, column: 5, path: 'deploy.config.yaml' })
+      expect(parse('name: shop\nname: other\n').message).toContain('Duplicate key "name"')
+      expect(parse('docker:\n  tag: "1.0\n').details).toMatchObject({ line: 2, column: 8 })
+      expect(parse('base: &base\n  image: shop\n').message).toContain('Anchors, aliases and tags are not supported')
+      expect(parse('name: shop\n---\nname: other\n')).toBeInstanceOf(ConfigError)
+    })
+
+    it('should reject anchors, aliases and merge keys anywhere instead of misreading them', () => {
+      const message = (content: string) => {
+        try {
+          parseYaml(content)
+        } catch (error) {
+          return (error as ConfigError).message
+        }
+        throw new Error('Expected a parse error')
+      }
+
+      expect(message('hooks: [*common, npm test]\n')).toContain('Anchors, aliases and tags are not supported')
+      expect(message('docker: {image: *image}\n')).toContain('Anchors, aliases and tags are not supported')
+      expect(message('ports: [!!str 80]\n')).toContain('Anchors, aliases and tags are not supported')
+      expect(message('docker:\n  <<: {image: shop}\n')).toContain('Merge keys (<<) are not supported')
+      expect(message('docker: {<<: {image: shop}}\n')).toContain('Merge keys (<<) are not supported')
+
+      // 引号中的 << 与普通标量中的 & 仍是普通内容
+      expect(parseYaml('"<<": merge\nquery: a &b\nlabels: {"<<": x}\n').data).toEqual({
+        '<<': 'merge',
+        query: 'a &b',
+        labels: { '<<': 'x' },
+      })
+    })
+
+    it('should preserve comments on round-trip', () => {
+      const { data, comments } = parseYaml(yamlConfig)
+      data.docker.registry = 'registry.example.com'
+      data.env[0].value = 'info'
+
+      const output = stringifyYaml(data, comments)
+
+      expect(output).toContain('# Deployment configuration\nname: shop\n')
+      expect(output).toContain('platform: kubernetes # target platform\n\ndocker:')
+      expect(output).toContain('env:\n  # Verbose logs outside production\n  - name: LOG_LEVEL\n    value: info\n')
+      expect(output).toContain('  registry: registry.example.com\n')
+      expect(parseYaml(output).data).toEqual(data)
+    })
+  })
+
+  describe('TOML', () => {
+    it('should parse tables, arrays of tables, inline tables and strings', () => {
+      const { data } = parseToml(tomlConfig)
+
+      expect(data).toEqual({
+        name: 'shop',
+        version: '1.2.0',
+        platform: 'kubernetes',
+        docker: { image: 'shop', buildArgs: { NODE_ENV: 'production', PORT: 3000 } },
+        env: [
+          { name: 'LOG_LEVEL', value: 'debug' },
+          { name: 'GREETING', value: 'multi\nline' },
+        ],
+        hooks: { preDeploy: ['npm test', 'npm run lint'] },
+      })
+    })
+
+    it('should report syntax errors with line and column', () => {
+      const parse = (content: string) => {
+        try {
+          parseToml(content, 'deploy.config.toml')
+        } catch (error) {
+          return error as ConfigError
+        }
+        throw new Error('Expected a parse error')
+      }
+
+      expect(parse('name = "shop"\nversion = \n').details).toMatchObject({ line: 2, column: 11, path: 'deploy.config.toml' })
+      expect(parse('[docker]\nimage = "a"\n[docker]\n').message).toContain('Table "docker" is already defined')
+      expect(parse('name = "a"\nname = "b"\n').message).toContain('Duplicate key "name"')
+    })
+
+    it('should reject date-time literals and round-trip quoted date-times unchanged', () => {
+      expect(() => parseToml('time = 2026-01-01T00:00:00Z\n')).toThrow('Date-time values are not supported')
+      expect(() => parseToml('window = { start = 09:00:00 }\n')).toThrow('Date-time values are not supported')
+
+      const content = 'time = "2026-01-01T00:00:00Z"\n'
+      const { data, comments } = parseToml(content)
+      expect(data).toEqual({ time: '2026-01-01T00:00:00Z' })
+      expect(stringifyToml(data, comments)).toBe(content)
+    })
+
+    it('should preserve comments on round-trip', () => {
+      const { data, comments } = parseToml(tomlConfig)
+      data.docker.tag = '1.2.0'
+
+      const output = stringifyToml(data, comments)
+
+      expect(output).toContain('# Deployment configuration\nname = "shop"\n')
+      expect(output).toContain('platform = "kubernetes" # target platform\n')
+      expect(output).toContain('\n# Verbose logs outside production\n[[env]]\n')
+      expect(output).toContain('tag = "1.2.0"')
+      expect(parseToml(output).data).toEqual(data)
+    })
+  })
+
+  describe('documents', () => {
+    const file = 'test-format.config.yaml'
+
+    afterEach(async () => {
+      await removeFile(file)
+    })
+
+    it('should detect formats by extension', () => {
+      expect(getConfigFormat('deploy.config.yml')).toBe('yaml')
+      expect(getConfigFormat('deploy.config.toml')).toBe('toml')
+      expect(getConfigFormat('deploy.config.mjs')).toBe('module')
+      expect(() => getConfigFormat('deploy.config.ini')).toThrow(ConfigError)
+    })
+
+    it('should report JSON syntax errors with line and column', () => {
+      expect(() => parseConfig('{\n  "name": "shop",\n}', 'json', 'deploy.config.json')).toThrow(/line 3, column 1/)
+    })
+
+    it('should keep the comments of an existing file when writing', async () => {
+      await writeFile(file, '# Managed by the platform team\nname: shop # app name\nversion: 1.0.0\n')
+
+      const document = await readConfigDocument(file)
+      await writeConfigDocument(file, { ...document.data, version: '1.1.0' })
+
+      expect(await readFile(file)).toBe('# Managed by the platform team\nname: shop # app name\nversion: 1.1.0\n')
+      expect(stringifyConfig({ name: 'shop' }, 'json')).toBe('{\n  "name": "shop"\n}\n')
+    })
+  })
+})
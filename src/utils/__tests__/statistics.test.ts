@@ -0,0 +1,135 @@
+/**
+ * 统计检验工具测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  mannWhitneyUTest,
+  median,
+  mean,
+  normalCdf,
+  normalQuantile,
+  studentTCdf,
+  studentTQuantile,
+  twoProportionZTest,
+  welchTTest,
+  proportionConfidenceInterval,
+  meanConfidenceInterval,
+} from '../statistics.js'
+
+describe('statistics', () => {
+  describe('median / mean', () => {
+    it('should compute median for odd and even samples', () => {
+      expect(median([3, 1, 2])).toBe(2)
+      expect(median([4, 1, 3, 2])).toBe(2.5)
+      expect(median([])).toBeNaN()
+    })
+
+    it('should compute mean', () => {
+      expect(mean([1, 2, 3, 4])).toBe(2.5)
+    })
+  })
+
+  describe('normalCdf', () => {
+    it('should match standard normal values', () => {
+      expect(normalCdf(0)).toBeCloseTo(0.5, 6)
+      expect(normalCdf(1.96)).toBeCloseTo(0.975, 3)
+      expect(normalCdf(-1.645)).toBeCloseTo(0.05, 3)
+    })
+  })
+
+  describe('mannWhitneyUTest', () => {
+    const baseline = [100, 102, 98, 101, 99, 103, 97, 100, 101, 99]
+
+    it('should detect a clearly greater sample', () => {
+      const canary = baseline.map(v => v * 1.5)
+      const result = mannWhitneyUTest(canary, baseline, 'greater')
+
+      expect(result.statistic).toBe(100)
+      expect(result.pValue).toBeLessThan(0.001)
+    })
+
+    it('should not reject for equivalent samples', () => {
+      const canary = [101, 99, 100, 102, 98, 100, 103, 97, 99, 101]
+      const result = mannWhitneyUTest(canary, baseline, 'greater')
+
+      expect(result.pValue).toBeGreaterThan(0.3)
+    })
+
+    it('should compute the two-sided p value', () => {
+      // U = 4, n1 = n2 = 5，连续性校正后正态近似双侧 p ≈ 0.095
+      const result = mannWhitneyUTest([1, 2, 3, 6, 7], [4, 5, 8, 9, 10])
+
+      expect(result.statistic).toBe(4)
+      expect(result.pValue).toBeCloseTo(0.0947, 3)
+    })
+
+    it('should return p = 1 when all values are tied', () => {
+      expect(mannWhitneyUTest([1, 1, 1], [1, 1, 1], 'greater').pValue).toBe(1)
+    })
+
+    it('should reject empty samples', () => {
+      expect(() => mannWhitneyUTest([], [1])).toThrow('non-empty')
+    })
+  })
+
+  describe('distributions', () => {
+    it('should invert the normal distribution', () => {
+      expect(normalQuantile(0.975)).toBeCloseTo(1.959964, 5)
+      expect(normalQuantile(0.01)).toBeCloseTo(-2.326348, 5)
+    })
+
+    it('should match Student t reference values', () => {
+      expect(studentTCdf(2, 10)).toBeCloseTo(0.96330, 4)
+      expect(studentTCdf(-1, 5)).toBeCloseTo(0.18161, 4)
+      expect(studentTQuantile(0.975, 10)).toBeCloseTo(2.228139, 4)
+    })
+  })
+
+  describe('twoProportionZTest', () => {
+    it('should detect a significant conversion lift', () => {
+      const result = twoProportionZTest(200, 1000, 250, 1000)
+
+      expect(result.z).toBeCloseTo(2.677, 2)
+      expect(result.pValue).toBeCloseTo(0.0074, 3)
+    })
+
+    it('should support one-sided alternatives', () => {
+      const greater = twoProportionZTest(200, 1000, 250, 1000, 'greater')
+      const less = twoProportionZTest(200, 1000, 250, 1000, 'less')
+
+      expect(greater.pValue).toBeCloseTo(0.0037, 3)
+      expect(less.pValue).toBeGreaterThan(0.99)
+    })
+  })
+
+  describe('welchTTest', () => {
+    it('should compute t statistic and Welch-Satterthwaite degrees of freedom', () => {
+      const result = welchTTest(10, 4, 30, 11, 9, 40)
+
+      expect(result.statistic).toBeCloseTo(1.6706, 3)
+      expect(result.df).toBeCloseTo(67.19, 1)
+      expect(result.pValue).toBeCloseTo(0.0994, 2)
+    })
+
+    it('should require at least two samples per group', () => {
+      expect(() => welchTTest(1, 1, 1, 2, 1, 10)).toThrow('at least two samples')
+    })
+  })
+
+  describe('confidence intervals', () => {
+    it('should compute a proportion interval', () => {
+      const ci = proportionConfidenceInterval(250, 1000)
+
+      expect(ci.lower).toBeCloseTo(0.2232, 3)
+      expect(ci.upper).toBeCloseTo(0.2768, 3)
+    })
+
+    it('should compute a mean interval', () => {
+      const ci = meanConfidenceInterval(10, 4, 11)
+
+      // t(0.975, 10) * 2 / sqrt(11)
+      expect(ci.upper - 10).toBeCloseTo(1.3436, 3)
+    })
+  })
+})
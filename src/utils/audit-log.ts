@@ -4,7 +4,7 @@
 
 import { appendFile } from 'fs/promises'
 import { join } from 'path'
-import { logger } from './logger.js'
+import { logger, maskSecretValues } from './logger.js'
 import { fileExists, ensureDir } from './file-system.js'
 
 export interface AuditLog {
@@ -44,7 +44,7 @@ export class AuditLogger {
       await ensureDir(this.logDir)
 
       // 写入 JSONL 格式（每行一个 JSON）
-      await appendFile(this.logFile, JSON.stringify(log) + '\n')
+      await appendFile(this.logFile, JSON.stringify(maskSecretValues(log)) + '\n')
 
       logger.debug(`Audit log recorded: ${log.action} on ${log.resource}`)
     } catch (error) {
@@ -139,6 +139,161 @@ export class AuditLogger {
     })
   }
 
+  /**
+   * 记录环境晋升
+   */
+  async logPromotion(promotion: {
+    name: string
+    version: string
+    from: string
+    to: string
+    sourceDeploymentId: string
+    image: string
+    digest: string
+    duration: number
+    result: 'success' | 'failure'
+    error?: string
+  }): Promise<void> {
+    await this.log({
+      user: this.getCurrentUser(),
+      action: 'promotion',
+      resource: `${promotion.name}@${promotion.version}`,
+      environment: promotion.to,
+      details: {
+        from: promotion.from,
+        to: promotion.to,
+        sourceDeploymentId: promotion.sourceDeploymentId,
+        image: promotion.image,
+        digest: promotion.digest,
+        error: promotion.error,
+      },
+      result: promotion.result,
+      duration: promotion.duration,
+    })
+  }
+
+  /**
+   * 记录流水线阶段结果
+   */
+  async logPipelineStage(stage: {
+    name: string
+    version: string
+    environment: string
+    stage: string
+    status: 'success' | 'failed' | 'skipped'
+    attempts: number
+    duration: number
+    error?: string
+    reason?: string
+  }): Promise<void> {
+    await this.log({
+      user: this.getCurrentUser(),
+      action: `pipeline.stage.${stage.status}`,
+      resource: `${stage.name}@${stage.version}`,
+      environment: stage.environment,
+      details: {
+        stage: stage.stage,
+        attempts: stage.attempts,
+        error: stage.error,
+        reason: stage.reason,
+      },
+      result: stage.status === 'failed' ? 'failure' : 'success',
+      duration: stage.duration,
+    })
+  }
+
+  /**
+   * 记录钩子执行结果（包含命令输出）
+   */
+  async logHook(hook: {
+    name: string
+    version: string
+    environment: string
+    type: string
+    hook: string
+    command: string
+    status: 'success' | 'failed'
+    attempts: number
+    duration: number
+    exitCode?: number
+    stdout?: string
+    stderr?: string
+    error?: string
+  }): Promise<void> {
+    await this.log({
+      user: this.getCurrentUser(),
+      action: `hook.${hook.status}`,
+      resource: `${hook.name}@${hook.version}`,
+      environment: hook.environment,
+      details: {
+        type: hook.type,
+        hook: hook.hook,
+        command: hook.command,
+        attempts: hook.attempts,
+        exitCode: hook.exitCode,
+        stdout: hook.stdout,
+        stderr: hook.stderr,
+        error: hook.error,
+      },
+      result: hook.status === 'failed' ? 'failure' : 'success',
+      duration: hook.duration,
+    })
+  }
+
+  /**
+   * 记录审批事件（请求、批准、拒绝、使用）
+   */
+  async logApproval(approval: {
+    name: string
+    version: string
+    environment: string
+    requestId: string
+    event: 'requested' | 'approved' | 'rejected' | 'used'
+    user: string
+    status: string
+    comment?: string
+    deploymentId?: string
+  }): Promise<void> {
+    await this.log({
+      user: approval.user,
+      action: `approval.${approval.event}`,
+      resource: `${approval.name}@${approval.version}`,
+      environment: approval.environment,
+      details: {
+        requestId: approval.requestId,
+        status: approval.status,
+        comment: approval.comment,
+        deploymentId: approval.deploymentId,
+      },
+      result: approval.event === 'rejected' ? 'failure' : 'success',
+      duration: 0,
+    })
+  }
+
+  /**
+   * 记录紧急覆盖（在冻结期或部署窗口外部署）
+   */
+  async logEmergencyOverride(override: {
+    name: string
+    version: string
+    environment: string
+    reason: string
+    violations: string[]
+  }): Promise<void> {
+    await this.log({
+      user: this.getCurrentUser(),
+      action: 'calendar.override',
+      resource: `${override.name}@${override.version}`,
+      environment: override.environment,
+      details: {
+        reason: override.reason,
+        violations: override.violations,
+      },
+      result: 'success',
+      duration: 0,
+    })
+  }
+
   /**
    * 查询审计日志
    */
@@ -0,0 +1,152 @@
+/**
+ * 部署检查点
+ *
+ * @description 每完成一个部署阶段就把进度写入工作目录 .deploy-state/ 下该应用与环境的检查点文件，
+ * 进程崩溃或被中断后可以通过 deploy --resume <deploymentId> 跳过已完成的阶段继续部署
+ */
+
+import { readJSON, writeJSON, fileExists, removeFile, listDir } from './file-system.js'
+import { DeploymentError } from './errors.js'
+import { logger } from './logger.js'
+import { ConfigInterpolator } from '../core/ConfigInterpolator.js'
+import { getLockKey } from '../lock/LockBackend.js'
+import type { DeploymentPhase } from './progress.js'
+import type { Environment, Platform } from '../types/index.js'
+import { join } from 'path'
+
+export type CheckpointStatus = 'running' | 'interrupted' | 'failed'
+
+/**
+ * 已完成阶段的记录
+ */
+export interface PhaseCheckpoint {
+  phase: DeploymentPhase
+  /** 阶段所属的应用或服务名称 */
+  target: string
+  completedAt: string
+  /** 阶段返回值（如 deploy 阶段的部署结果），恢复时直接复用 */
+  output?: any
+  /** 阶段产物（镜像 ID、镜像摘要、已应用的资源等），恢复时用于校验 */
+  artifacts?: Record<string, string>
+}
+
+/**
+ * 恢复时沿用的部署选项
+ */
+export interface ResumableDeployOptions {
+  environment?: Environment
+  region?: string
+  configFile?: string
+  strategy?: string
+  skipHealthCheck?: boolean
+  skipHooks?: boolean
+  skipPreCheck?: boolean
+}
+
+export interface CheckpointInfo {
+  deploymentId: string
+  name: string
+  version: string
+  environment: Environment
+  platform: Platform
+  pid: number
+  status: CheckpointStatus
+  /** 正在执行的阶段 */
+  currentPhase?: DeploymentPhase
+  phases: PhaseCheckpoint[]
+  options: ResumableDeployOptions
+  error?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export class DeploymentCheckpoint {
+  private static stateDir = '.deploy-state'
+
+  /**
+   * 保存检查点，其中的密钥值换回 ${secret:name} 引用
+   */
+  static async save(checkpoint: CheckpointInfo, workDir?: string): Promise<void> {
+    checkpoint.updatedAt = new Date().toISOString()
+    await writeJSON(this.getPath(checkpoint.name, checkpoint.environment, workDir), ConfigInterpolator.toReferences(checkpoint))
+    logger.debug(`Checkpoint saved: ${checkpoint.deploymentId}`)
+  }
+
+  /**
+   * 读取应用在指定环境中的检查点
+   */
+  static async get(name: string, environment: Environment, workDir?: string): Promise<CheckpointInfo | null> {
+    return this.read(this.getPath(name, environment, workDir))
+  }
+
+  /**
+   * 列出所有应用与环境的检查点
+   */
+  static async list(workDir: string = process.cwd()): Promise<CheckpointInfo[]> {
+    const dir = join(workDir, this.stateDir)
+    const checkpoints = await Promise.all(
+      (await listDir(dir)).filter(file => file.endsWith('.json')).map(file => this.read(join(dir, file)))
+    )
+
+    return checkpoints.filter((checkpoint): checkpoint is CheckpointInfo => checkpoint !== null)
+  }
+
+  /**
+   * 读取指定部署的检查点
+   *
+   * @throws {DeploymentError} 检查点不存在时抛出
+   */
+  static async load(deploymentId: string, workDir?: string): Promise<CheckpointInfo> {
+    const checkpoints = await this.list(workDir)
+    const checkpoint = checkpoints.find(item => item.deploymentId === deploymentId)
+
+    if (!checkpoint) {
+      throw new DeploymentError(
+        `No checkpoint found for deployment ${deploymentId}`,
+        'resume',
+        {
+          suggestion: checkpoints.length > 0
+            ? `Resumable deployments: ${checkpoints.map(item => `${item.deploymentId} (${item.name}/${item.environment})`).join(', ')}`
+            : 'Checkpoints are removed once a deployment succeeds',
+        }
+      )
+    }
+
+    return checkpoint
+  }
+
+  /**
+   * 删除检查点（只删除属于该部署的检查点）
+   */
+  static async clear(
+    checkpoint: Pick<CheckpointInfo, 'deploymentId' | 'name' | 'environment'>,
+    workDir?: string
+  ): Promise<void> {
+    const current = await this.get(checkpoint.name, checkpoint.environment, workDir)
+
+    if (current?.deploymentId === checkpoint.deploymentId) {
+      await removeFile(this.getPath(checkpoint.name, checkpoint.environment, workDir))
+      logger.debug(`Checkpoint cleared: ${checkpoint.deploymentId}`)
+    }
+  }
+
+  /**
+   * 获取检查点文件路径：.deploy-state/<应用>_<环境>.json，与部署锁一样按应用与环境隔离
+   */
+  static getPath(name: string, environment: Environment, workDir: string = process.cwd()): string {
+    const key = getLockKey({ app: name, environment }).replace(/[^a-zA-Z0-9._-]/g, '_')
+    return join(workDir, this.stateDir, `${key}.json`)
+  }
+
+  private static async read(statePath: string): Promise<CheckpointInfo | null> {
+    if (!fileExists(statePath)) {
+      return null
+    }
+
+    try {
+      return await readJSON<CheckpointInfo>(statePath)
+    } catch {
+      return null
+    }
+  }
+}
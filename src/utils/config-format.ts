@@ -0,0 +1,254 @@
+/**
+ * 配置文件格式
+ *
+ * @description 按扩展名识别 JSON / YAML / TOML / JS、TS 模块配置。解析错误以 ConfigError 报告行列号；
+ * YAML、TOML 解析时收集注释，写回时按值的路径还原，CLI 修改配置文件不会丢失注释
+ */
+
+import { extname, resolve } from 'path'
+import { pathToFileURL } from 'url'
+import { readFile, writeFile, fileExists, removeFile } from './file-system.js'
+import { ConfigError } from './errors.js'
+import { parseYaml, stringifyYaml } from './yaml.js'
+import { parseToml, stringifyToml } from './toml.js'
+
+/**
+ * 配置文件格式
+ */
+export type ConfigFormat = 'json' | 'yaml' | 'toml' | 'module'
+
+/**
+ * 配置文件注释，键为值的路径（如 docker.image、env[0]）
+ */
+export interface ConfigComments {
+  /** 值之前的注释行，空字符串表示空行 */
+  leading: Record<string, string[]>
+  /** 值所在行的行尾注释 */
+  trailing: Record<string, string>
+  /** 文件末尾的注释 */
+  footer: string[]
+}
+
+/**
+ * 配置文档
+ */
+export interface ConfigDocument {
+  format: ConfigFormat
+  data: any
+  comments: ConfigComments
+}
+
+/**
+ * 扩展名到配置格式的映射
+ */
+export const CONFIG_FORMAT_EXTENSIONS: Record<string, ConfigFormat> = {
+  '.json': 'json',
+  '.yaml': 'yaml',
+  '.yml': 'yaml',
+  '.toml': 'toml',
+  '.js': 'module',
+  '.mjs': 'module',
+  '.ts': 'module',
+  '.mts': 'module',
+}
+
+/**
+ * 需要先转译再导入的 TypeScript 配置扩展名
+ */
+const TYPESCRIPT_EXTENSIONS = ['.ts', '.mts']
+
+/**
+ * 创建空的注释集合
+ */
+export function createConfigComments(): ConfigComments {
+  return { leading: {}, trailing: {}, footer: [] }
+}
+
+/**
+ * 根据扩展名获取配置格式
+ *
+ * @throws {ConfigError} 不支持的扩展名
+ */
+export function getConfigFormat(path: string): ConfigFormat {
+  const format = CONFIG_FORMAT_EXTENSIONS[extname(path).toLowerCase()]
+
+  if (!format) {
+    throw new ConfigError(`不支持的配置文件格式`, {
+      details: { path },
+      suggestion: `支持的格式: ${Object.keys(CONFIG_FORMAT_EXTENSIONS).join(', ')}`,
+    })
+  }
+
+  return format
+}
+
+/**
+ * 解析配置内容
+ *
+ * @param path - 文件路径，仅用于错误信息
+ * @throws {ConfigError} 语法错误，details 包含 line 与 column
+ */
+export function parseConfig(content: string, format: Exclude<ConfigFormat, 'module'>, path?: string): ConfigDocument {
+  if (format === 'yaml') {
+    return { format, ...parseYaml(content, path) }
+  }
+
+  if (format === 'toml') {
+    return { format, ...parseToml(content, path) }
+  }
+
+  try {
+    return { format, data: JSON.parse(content), comments: createConfigComments() }
+  } catch (error: any) {
+    const { line, column } = getJsonErrorLocation(content, error.message)
+
+    throw new ConfigError(`配置文件 JSON 解析失败 (line ${line}, column ${column})`, {
+      details: { path, line, column, error: error.message },
+      suggestion: '请检查 JSON 格式是否正确',
+      cause: error,
+    })
+  }
+}
+
+/**
+ * 序列化配置
+ */
+export function stringifyConfig(data: any, format: Exclude<ConfigFormat, 'module'>, comments?: ConfigComments): string {
+  if (format === 'yaml') {
+    return stringifyYaml(data, comments)
+  }
+
+  if (format === 'toml') {
+    return stringifyToml(data, comments)
+  }
+
+  return `${JSON.stringify(data, null, 2)}\n`
+}
+
+/**
+ * 读取配置文件
+ */
+export async function readConfigDocument(path: string): Promise<ConfigDocument> {
+  const format = getConfigFormat(path)
+
+  if (format === 'module') {
+    const module = await importConfigModule(resolve(path))
+    return { format, data: module.default || module, comments: createConfigComments() }
+  }
+
+  return parseConfig(await readFile(path), format, path)
+}
+
+/**
+ * 写入配置文件
+ *
+ * @description 未传入注释时沿用目标文件中已有的注释
+ * @throws {ConfigError} 目标为 JS 模块配置
+ */
+export async function writeConfigDocument(path: string, data: any, comments?: ConfigComments): Promise<void> {
+  const format = getConfigFormat(path)
+
+  if (format === 'module') {
+    throw new ConfigError('无法写入 JS/TS 模块配置文件', {
+      details: { path },
+      suggestion: '请使用 .json、.yaml 或 .toml 配置文件',
+    })
+  }
+
+  if (!comments && format !== 'json' && fileExists(path)) {
+    comments = await readConfigDocument(path).then(
+      document => document.comments,
+      () => undefined
+    )
+  }
+
+  await writeFile(path, stringifyConfig(data, format, comments))
+}
+
+/**
+ * 导入 JS/TS 配置模块
+ *
+ * @description TS 配置用 esbuild 打包为 ESM（依赖包保持外部引用），
+ * 写入配置文件所在目录的临时文件后导入，相对导入与 node_modules 解析不受影响
+ */
+async function importConfigModule(path: string): Promise<any> {
+  if (!TYPESCRIPT_EXTENSIONS.includes(extname(path).toLowerCase())) {
+    return import(pathToFileURL(path).href)
+  }
+
+  const code = await transpileTypeScriptConfig(path)
+  const output = `${path}.timestamp-${Date.now()}.mjs`
+
+  await writeFile(output, code)
+
+  try {
+    return await import(pathToFileURL(output).href)
+  } finally {
+    await removeFile(output)
+  }
+}
+
+/**
+ * 编译 TS 配置
+ *
+ * @throws {ConfigError} 未安装 esbuild 或编译失败，details 包含 line 与 column
+ */
+async function transpileTypeScriptConfig(path: string): Promise<string> {
+  let esbuild: typeof import('esbuild')
+
+  try {
+    esbuild = await import('esbuild')
+  } catch (error: any) {
+    throw new ConfigError('加载 TypeScript 配置需要 esbuild', {
+      details: { path },
+      suggestion: '请安装 esbuild: pnpm add -D esbuild',
+      cause: error,
+    })
+  }
+
+  try {
+    const result = await esbuild.build({
+      entryPoints: [path],
+      bundle: true,
+      packages: 'external',
+      platform: 'node',
+      format: 'esm',
+      target: 'node18',
+      sourcemap: 'inline',
+      write: false,
+      logLevel: 'silent',
+    })
+
+    return result.outputFiles[0].text
+  } catch (error: any) {
+    const message = error.errors?.[0]
+    const location = message?.location
+
+    throw new ConfigError(
+      location
+        ? `TypeScript 配置编译失败 (line ${location.line}, column ${location.column + 1}): ${message.text}`
+        : `TypeScript 配置编译失败: ${message?.text || error.message}`,
+      {
+        details: { path: location?.file || path, line: location?.line, column: location ? location.column + 1 : undefined },
+        suggestion: '请检查配置文件的 TypeScript 语法',
+        cause: error,
+      }
+    )
+  }
+}
+
+/**
+ * 从 JSON.parse 的错误信息中获取行列号
+ */
+function getJsonErrorLocation(content: string, message: string): { line: number; column: number } {
+  const lineColumn = /line (\d+) column (\d+)/.exec(message)
+  if (lineColumn) {
+    return { line: Number(lineColumn[1]), column: Number(lineColumn[2]) }
+  }
+
+  const position = /position (\d+)/.exec(message)
+  const offset = position ? Number(position[1]) : content.length
+  const before = content.slice(0, offset).split('\n')
+
+  return { line: before.length, column: before[before.length - 1].length + 1 }
+}
@@ -0,0 +1,219 @@
+/**
+ * cron 表达式与时区时间
+ *
+ * @description 无依赖实现，支持标准 5 段 cron（分 时 日 月 周）：`*`、列表、范围、步长，
+ * 月份与星期的英文缩写（jan、mon 等），星期 0 和 7 都表示周日。
+ * 与 cron 相同，日与星期同时受限时满足其一即匹配
+ */
+
+import { ConfigError } from './errors.js'
+
+/**
+ * 某一时区下的本地时间
+ */
+export interface ZonedTime {
+  year: number
+  month: number
+  day: number
+  hour: number
+  minute: number
+  /** 星期，0 表示周日 */
+  weekday: number
+}
+
+interface CronField {
+  name: string
+  min: number
+  max: number
+  names?: string[]
+}
+
+const FIELDS: CronField[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day', min: 1, max: 31 },
+  {
+    name: 'month',
+    min: 1,
+    max: 12,
+    names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'],
+  },
+  { name: 'weekday', min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] },
+]
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+/**
+ * cron 表达式
+ *
+ * @example
+ * ```typescript
+ * const cron = new CronExpression('* 9-17 * * mon-fri');
+ * cron.matches(toZonedTime(new Date(), 'Asia/Shanghai'));
+ * ```
+ */
+export class CronExpression {
+  readonly source: string
+  private fields: Set<number>[]
+  private dayRestricted: boolean
+  private weekdayRestricted: boolean
+
+  /**
+   * @throws {ConfigError} 表达式无效
+   */
+  constructor(source: string) {
+    this.source = source
+    const parts = source.trim().split(/\s+/)
+
+    if (parts.length !== FIELDS.length) {
+      throw new ConfigError(`无效的 cron 表达式 "${source}"：需要 5 段（分 时 日 月 周）`)
+    }
+
+    this.fields = parts.map((part, index) => this.parseField(part, FIELDS[index]))
+    this.dayRestricted = parts[2] !== '*'
+    this.weekdayRestricted = parts[4] !== '*'
+
+    // 7 与 0 都表示周日
+    if (this.fields[4].delete(7)) {
+      this.fields[4].add(0)
+    }
+  }
+
+  /**
+   * 判断本地时间是否匹配
+   */
+  matches(time: ZonedTime): boolean {
+    const [minutes, hours, days, months, weekdays] = this.fields
+
+    if (!minutes.has(time.minute) || !hours.has(time.hour) || !months.has(time.month)) {
+      return false
+    }
+
+    const dayMatches = days.has(time.day)
+    const weekdayMatches = weekdays.has(time.weekday)
+
+    if (this.dayRestricted && this.weekdayRestricted) {
+      return dayMatches || weekdayMatches
+    }
+    return dayMatches && weekdayMatches
+  }
+
+  private parseField(part: string, field: CronField): Set<number> {
+    const values = new Set<number>()
+
+    for (const item of part.toLowerCase().split(',')) {
+      const [range, stepText] = item.split('/')
+      const step = stepText === undefined ? 1 : Number(stepText)
+
+      if (!Number.isInteger(step) || step < 1) {
+        throw this.error(field, item)
+      }
+
+      let start = field.min
+      let end = field.max
+
+      if (range !== '*') {
+        const [from, to] = range.split('-')
+        start = this.parseValue(from, field, item)
+        end = to === undefined ? (stepText === undefined ? start : field.max) : this.parseValue(to, field, item)
+      }
+
+      if (start > end) {
+        throw this.error(field, item)
+      }
+
+      for (let value = start; value <= end; value += step) {
+        values.add(value)
+      }
+    }
+
+    return values
+  }
+
+  private parseValue(text: string, field: CronField, item: string): number {
+    const named = field.names?.indexOf(text) ?? -1
+    const value = named >= 0 ? named + field.min : /^\d+$/.test(text) ? Number(text) : NaN
+
+    if (!Number.isInteger(value) || value < field.min || value > field.max) {
+      throw this.error(field, item)
+    }
+    return value
+  }
+
+  private error(field: CronField, item: string): ConfigError {
+    return new ConfigError(`无效的 cron 表达式 "${this.source}"：${field.name} 字段 "${item}" 无效`, {
+      details: { expression: this.source, field: field.name },
+    })
+  }
+}
+
+/**
+ * 获取时间在指定时区的本地时间
+ *
+ * @param timeZone - IANA 时区，未指定时使用系统时区
+ * @throws {ConfigError} 时区无效
+ */
+export function toZonedTime(date: Date, timeZone?: string): ZonedTime {
+  const parts: Record<string, string> = {}
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value
+  }
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour) % 24,
+    minute: Number(parts.minute),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  }
+}
+
+/**
+ * 格式化本地时间为 YYYY-MM-DDTHH:mm，按字符串比较即按时间先后
+ */
+export function formatZonedTime(time: ZonedTime): string {
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `${time.year}-${pad(time.month)}-${pad(time.day)}T${pad(time.hour)}:${pad(time.minute)}`
+}
+
+/**
+ * 判断时区是否有效
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone)
+    return true
+  } catch {
+    return false
+  }
+}
+
+function getFormatter(timeZone?: string): Intl.DateTimeFormat {
+  const key = timeZone || ''
+  let formatter = formatters.get(key)
+
+  if (!formatter) {
+    try {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        weekday: 'short',
+      })
+    } catch {
+      throw new ConfigError(`无效的时区: ${timeZone}`, {
+        suggestion: '请使用 IANA 时区名称，例如 Asia/Shanghai、Europe/Berlin',
+      })
+    }
+    formatters.set(key, formatter)
+  }
+
+  return formatter
+}
@@ -379,6 +379,56 @@ export class LockError extends DeployerError {
   }
 }
 
+/**
+ * 审批错误：部署需要审批但尚未获得有效的批准
+ */
+export class ApprovalError extends DeployerError {
+  constructor(
+    message: string,
+    options?: {
+      requestId?: string
+      details?: any
+      suggestion?: string
+      cause?: Error
+    }
+  ) {
+    super(message, 'APPROVAL_REQUIRED', {
+      details: { requestId: options?.requestId, ...options?.details },
+      recoverable: true,
+      suggestion: options?.suggestion || '等待审批通过后重新部署',
+      cause: options?.cause,
+    })
+    this.name = 'ApprovalError'
+  }
+}
+
+/**
+ * 将中止信号的原因转换为部署取消错误（阶段为 cancelled）
+ *
+ * @param reason - AbortSignal.reason，部署超时时为 TimeoutError
+ */
+export function createCancellationError(reason: unknown): DeploymentError {
+  if (isCancellationError(reason)) {
+    return reason
+  }
+
+  const timedOut = reason instanceof Error && reason.name === 'TimeoutError'
+  const detail = reason instanceof Error ? reason.message : reason !== undefined ? String(reason) : undefined
+
+  return new DeploymentError(detail ? `Deployment cancelled: ${detail}` : 'Deployment cancelled', 'cancelled', {
+    details: { reason: detail, timedOut },
+    suggestion: timedOut ? '增加 deploymentTimeout，或开启 rollbackOnTimeout 在超时后自动回滚' : undefined,
+    cause: reason instanceof Error ? reason : undefined,
+  })
+}
+
+/**
+ * 判断错误是否为部署取消错误
+ */
+export function isCancellationError(error: unknown): error is DeploymentError {
+  return error instanceof DeploymentError && error.phase === 'cancelled'
+}
+
 /**
  * 判断错误是否可恢复
  */
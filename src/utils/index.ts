@@ -8,12 +8,18 @@ export * from './validator.js'
 export * from './file-batch.js'
 export * from './performance.js'
 export * from './template-engine.js'
+export * from './yaml.js'
+export * from './toml.js'
+export * from './cron.js'
+export * from './config-format.js'
 export * from './errors.js'
 export * from './schema.js'
 export * from './cache.js'
 export * from './retry.js'
 export * from './lock.js'
+export * from './checkpoint.js'
 export * from './graceful-shutdown.js'
 export * from './progress.js'
 export * from './audit-log.js'
 
+export * from './statistics.js'
@@ -1,162 +1,300 @@
 /**
  * 部署锁机制
+ *
+ * @description 锁按应用与环境隔离（<app>/<environment>），存储在可插拔的锁后端中
+ * （本地文件、Kubernetes Lease、Redis、S3）。持有期间按心跳续期，进程崩溃后锁在有效期过后自动失效；
+ * 锁丢失时通知持有者中止部署，写入前通过 verify 校验持有者与 fencing token
  */
 
-import { readJSON, writeJSON, fileExists, removeFile } from './file-system.js'
-import { DeploymentError } from './errors.js'
+import { hostname } from 'os'
+import { LockError } from './errors.js'
 import { logger } from './logger.js'
-import { join } from 'path'
-
-export interface LockInfo {
-  id: string
-  pid: number
-  timestamp: number
-  operation: string
-  user?: string
+import { FileLockBackend } from '../lock/FileLockBackend.js'
+import { KubernetesLeaseLockBackend } from '../lock/KubernetesLeaseLockBackend.js'
+import { RedisLockBackend } from '../lock/RedisLockBackend.js'
+import { S3LockBackend } from '../lock/S3LockBackend.js'
+import { getLockKey, isLockExpired, formatLockOwner } from '../lock/LockBackend.js'
+import type { LockBackend, LockInfo, LockScope } from '../lock/LockBackend.js'
+import type { LockConfig } from '../types/index.js'
+import { join, resolve } from 'path'
+
+export type { LockInfo, LockScope } from '../lock/LockBackend.js'
+
+/**
+ * 锁目标：作用范围与锁后端配置
+ */
+export interface LockTarget {
+  /** 作用范围，未指定时使用 default 键 */
+  scope?: LockScope
+  /** 锁后端配置（DeployConfig.lock），未指定时使用默认后端 */
+  config?: LockConfig
+  /** 工作目录，文件锁默认存放在 <workDir>/.deploy-locks */
+  workDir?: string
+}
+
+interface HeldLock {
+  lock: LockInfo
+  backend: LockBackend
+  heartbeat: NodeJS.Timeout
+  /** 进行中的续期 */
+  renewal?: Promise<void>
+  onLost?: (error: LockError) => void
+}
+
+/**
+ * 根据配置创建锁后端
+ */
+export function createLockBackend(config: LockConfig = {}, workDir: string = process.cwd()): LockBackend {
+  switch (config.backend || 'file') {
+    case 'kubernetes':
+      return new KubernetesLeaseLockBackend(config.kubernetes)
+    case 'redis':
+      return new RedisLockBackend(config.redis)
+    case 's3':
+      if (!config.s3) {
+        throw new LockError('s3 锁后端需要配置 lock.s3.bucket')
+      }
+      return new S3LockBackend(config.s3)
+    default:
+      return new FileLockBackend({
+        dir: config.file?.dir ? resolve(workDir, config.file.dir) : join(workDir, '.deploy-locks'),
+      })
+  }
 }
 
 export class DeploymentLock {
-  private static lockFile = '.deploy.lock'
-  private static locks = new Map<string, LockInfo>()
-  private static lockTimeout = 3600000 // 1小时默认超时
+  private static defaultBackend?: LockBackend
+  private static locks = new Map<string, HeldLock>()
+  private static lockTimeout = 60000 // 1 分钟有效期，持有期间按心跳续期
 
   /**
    * 获取锁
+   *
+   * @param onLost - 锁丢失（被其他进程接管或释放）时调用，用于中止正在进行的部署
+   * @throws {LockError} 锁已被其他部署持有
    */
-  static async acquire(id: string, operation = 'deploy'): Promise<void> {
+  static async acquire(
+    id: string,
+    operation = 'deploy',
+    target: LockTarget = {},
+    onLost?: (error: LockError) => void
+  ): Promise<LockInfo> {
     // 检查内存锁
     if (this.locks.has(id)) {
-      throw new DeploymentError(
-        'Deployment already in progress',
-        'deploy',
-        { lockId: id }
-      )
+      throw new LockError('Deployment already in progress', { lockId: id })
     }
 
-    // 检查文件锁
-    const lockPath = join(process.cwd(), this.lockFile)
-
-    if (fileExists(lockPath)) {
-      const lockData = await readJSON<LockInfo>(lockPath)
-
-      // 检查锁是否过期
-      const age = Date.now() - lockData.timestamp
-      if (age < this.lockTimeout) {
-        throw new DeploymentError(
-          `Another deployment is in progress (PID: ${lockData.pid})`,
-          operation,
-          {
-            existingLock: lockData,
-            age: Math.round(age / 1000),
-          }
-        )
-      }
+    const backend = this.getBackend(target)
+    const ttl = target.config?.ttl || this.lockTimeout
+    const now = Date.now()
 
-      // 锁已过期，清理它
-      logger.warn('Found expired lock, removing...')
-      await removeFile(lockPath)
-    }
-
-    // 创建新锁
-    const lockInfo: LockInfo = {
+    const lock = await backend.tryAcquire({
       id,
+      key: getLockKey(target.scope),
+      app: target.scope?.app,
+      environment: target.scope?.environment,
       pid: process.pid,
-      timestamp: Date.now(),
-      operation,
+      host: hostname(),
       user: process.env.USER || process.env.USERNAME,
+      operation,
+      timestamp: now,
+      renewedAt: now,
+      expiresAt: now + ttl,
+    })
+
+    if (!lock) {
+      const holder = await backend.get(getLockKey(target.scope))
+
+      throw new LockError(
+        `Another deployment of ${getLockKey(target.scope)} is in progress` +
+          (holder ? ` (${holder.operation} by ${formatLockOwner(holder)})` : ''),
+        {
+          lockId: holder?.id,
+          details: {
+            backend: backend.name,
+            existingLock: holder,
+            age: holder ? Math.round((now - holder.timestamp) / 1000) : undefined,
+          },
+        }
+      )
     }
 
-    await writeJSON(lockPath, lockInfo)
-    this.locks.set(id, lockInfo)
+    const held: HeldLock = {
+      lock,
+      backend,
+      heartbeat: setInterval(
+        () => this.renew(id, ttl),
+        target.config?.heartbeatInterval || Math.max(100, Math.floor(ttl / 3))
+      ),
+      onLost,
+    }
+    held.heartbeat.unref()
+    this.locks.set(id, held)
 
-    logger.debug(`Lock acquired: ${id}`)
+    logger.debug(`Lock acquired: ${lock.key} (${backend.name}${lock.token !== undefined ? `, token ${lock.token}` : ''})`)
+    return lock
+  }
+
+  /**
+   * 校验锁仍由该持有者持有，在写入部署状态或应用变更前调用
+   *
+   * @description 重新读取后端中的锁，持有者、fencing token（Redis、S3、Kubernetes 后端）变化或锁已过期时视为丢失
+   * @throws {LockError} 锁已丢失时抛出
+   */
+  static async verify(id: string): Promise<void> {
+    const held = this.locks.get(id)
+    if (!held) {
+      throw new LockError(`Deployment lock ${id} is no longer held`, { lockId: id })
+    }
+
+    const current = await held.backend.get(held.lock.key)
+    if (!current || current.id !== held.lock.id || current.token !== held.lock.token || isLockExpired(current)) {
+      throw this.lose(id, held)
+    }
   }
 
   /**
    * 释放锁
    */
   static async release(id: string): Promise<void> {
+    const held = this.locks.get(id)
+    if (!held) {
+      return
+    }
+
     // 移除内存锁
+    clearInterval(held.heartbeat)
     this.locks.delete(id)
 
-    // 移除文件锁
-    const lockPath = join(process.cwd(), this.lockFile)
-
-    if (fileExists(lockPath)) {
-      try {
-        const lockData = await readJSON<LockInfo>(lockPath)
-
-        // 只有相同 ID 才能释放
-        if (lockData.id === id) {
-          await removeFile(lockPath)
-          logger.debug(`Lock released: ${id}`)
-        }
-      } catch (error) {
-        logger.warn('Failed to release lock:', error)
-      }
+    try {
+      // 等待进行中的续期完成，避免释放后又被续期写回
+      await held.renewal
+      await held.backend.release(held.lock)
+      logger.debug(`Lock released: ${held.lock.key}`)
+    } catch (error) {
+      logger.warn('Failed to release lock:', error)
     }
   }
 
   /**
-   * 强制释放锁（危险操作）
+   * 强制释放锁（危险操作），未指定作用范围时释放后端中的所有锁
    */
-  static async forceRelease(): Promise<void> {
-    const lockPath = join(process.cwd(), this.lockFile)
+  static async forceRelease(target: LockTarget = {}): Promise<void> {
+    const backend = this.getBackend(target)
+    const keys = target.scope
+      ? [getLockKey(target.scope)]
+      : (await backend.list()).map(lock => lock.key)
 
-    if (fileExists(lockPath)) {
-      await removeFile(lockPath)
-      logger.warn('Lock forcefully released')
+    for (const key of keys) {
+      await backend.forceRelease(key)
     }
 
-    this.locks.clear()
+    for (const [id, held] of this.locks) {
+      if (keys.includes(held.lock.key)) {
+        clearInterval(held.heartbeat)
+        this.locks.delete(id)
+      }
+    }
+
+    if (keys.length > 0) {
+      logger.warn('Lock forcefully released')
+    }
   }
 
   /**
    * 检查是否有锁
    */
-  static async isLocked(): Promise<boolean> {
-    const lockPath = join(process.cwd(), this.lockFile)
+  static async isLocked(target: LockTarget = {}): Promise<boolean> {
+    return (await this.getLockInfo(target)) !== null
+  }
 
-    if (!fileExists(lockPath)) {
-      return false
+  /**
+   * 获取锁信息，未指定作用范围时返回任一有效的锁
+   */
+  static async getLockInfo(target: LockTarget = {}): Promise<LockInfo | null> {
+    if (!target.scope) {
+      return (await this.listLocks(target))[0] || null
     }
 
-    try {
-      const lockData = await readJSON<LockInfo>(lockPath)
-      const age = Date.now() - lockData.timestamp
+    const lock = await this.getBackend(target).get(getLockKey(target.scope))
+    return lock && !isLockExpired(lock) ? lock : null
+  }
 
-      // 如果锁已过期，视为未锁定
-      return age < this.lockTimeout
-    } catch {
-      return false
-    }
+  /**
+   * 列出所有有效的锁
+   */
+  static async listLocks(target: LockTarget = {}): Promise<LockInfo[]> {
+    const locks = await this.getBackend(target).list()
+    return locks.filter(lock => !isLockExpired(lock))
   }
 
   /**
-   * 获取锁信息
+   * 设置默认锁后端（未在 LockTarget 中提供配置时使用）
    */
-  static async getLockInfo(): Promise<LockInfo | null> {
-    const lockPath = join(process.cwd(), this.lockFile)
+  static setBackend(backend: LockBackend): void {
+    this.defaultBackend = backend
+  }
 
-    if (!fileExists(lockPath)) {
-      return null
-    }
+  /**
+   * 设置锁有效期
+   */
+  static setTimeout(timeoutMs: number): void {
+    this.lockTimeout = timeoutMs
+  }
 
-    try {
-      return await readJSON<LockInfo>(lockPath)
-    } catch {
-      return null
+  private static getBackend(target: LockTarget): LockBackend {
+    if (!target.config && this.defaultBackend) {
+      return this.defaultBackend
     }
+    return createLockBackend(target.config, target.workDir)
   }
 
   /**
-   * 设置锁超时时间
+   * 心跳续期，锁被他人接管或已失效时停止续期
    */
-  static setTimeout(timeoutMs: number): void {
-    this.lockTimeout = timeoutMs
+  private static renew(id: string, ttl: number): void {
+    const held = this.locks.get(id)
+    if (!held || held.renewal) {
+      return
+    }
+
+    held.renewal = this.renewLock(id, held, ttl).finally(() => {
+      held.renewal = undefined
+    })
   }
-}
 
+  private static async renewLock(id: string, held: HeldLock, ttl: number): Promise<void> {
+    const now = Date.now()
+
+    try {
+      const renewed = await held.backend.renew({ ...held.lock, renewedAt: now, expiresAt: now + ttl })
+
+      if (renewed) {
+        held.lock = renewed
+      } else if (this.locks.get(id) === held) {
+        this.lose(id, held)
+      }
+    } catch (error: any) {
+      logger.warn(`Failed to renew deployment lock ${held.lock.key}: ${error.message}`)
+    }
+  }
 
+  /**
+   * 锁丢失：停止续期并通知持有者
+   */
+  private static lose(id: string, held: HeldLock): LockError {
+    const error = new LockError(
+      `Deployment lock ${held.lock.key} was lost (taken over or released by another process)`,
+      { lockId: id, details: { token: held.lock.token } }
+    )
 
+    if (this.locks.get(id) === held) {
+      clearInterval(held.heartbeat)
+      this.locks.delete(id)
+      logger.error(error.message)
+      held.onLost?.(error)
+    }
 
+    return error
+  }
+}
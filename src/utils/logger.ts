@@ -22,6 +22,48 @@ const COLORS = {
   gray: '\x1b[90m',
 }
 
+/**
+ * 需要在日志中遮蔽的敏感值（所有 Logger 实例共享）
+ */
+const maskedValues = new Set<string>()
+
+/**
+ * 登记敏感值，之后所有日志输出中的该值都会被替换为 ******
+ */
+export function maskInLogs(value: string): void {
+  if (value) {
+    maskedValues.add(value)
+  }
+}
+
+/**
+ * 将文本中登记的敏感值替换为 ******（用于写入日志以外的输出，如审计日志）
+ */
+export function maskSecrets(text: string): string {
+  for (const value of maskedValues) {
+    text = text.split(value).join('******')
+  }
+  return text
+}
+
+/**
+ * 返回所有字符串中登记的敏感值均被遮蔽的副本（用于写入部署历史、审计日志与检查点）
+ */
+export function maskSecretValues<T>(value: T): T {
+  if (typeof value === 'string') {
+    return maskSecrets(value) as T
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => maskSecretValues(item)) as T
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, maskSecretValues(item)])
+    ) as T
+  }
+  return value
+}
+
 const LOG_LEVELS: Record<LogLevel, number> = {
   debug: 0,
   info: 1,
@@ -83,7 +125,11 @@ export class Logger {
       ).join(' ')
     }
 
-    return output
+    return this.mask(output)
+  }
+
+  private mask(output: string): string {
+    return maskSecrets(output)
   }
 
   debug(message: string, ...args: any[]): void {
@@ -16,6 +16,7 @@ export enum DeploymentPhase {
   DEPLOY = 'deploy',
   HEALTH_CHECK = 'healthCheck',
   POST_HOOKS = 'postHooks',
+  STAGE = 'stage',
   COMPLETE = 'complete',
   FAILED = 'failed',
 }
@@ -251,6 +252,7 @@ export class ProgressTracker {
       [DeploymentPhase.DEPLOY]: '🚢',
       [DeploymentPhase.HEALTH_CHECK]: '🏥',
       [DeploymentPhase.POST_HOOKS]: '🔧',
+      [DeploymentPhase.STAGE]: '▶️',
       [DeploymentPhase.COMPLETE]: '✅',
       [DeploymentPhase.FAILED]: '❌',
     }
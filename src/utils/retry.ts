@@ -12,6 +12,8 @@ export interface RetryOptions {
   timeout?: number
   onRetry?: (attempt: number, error: Error) => void
   shouldRetry?: (error: Error) => boolean
+  /** 中止信号，触发后不再重试并中断重试等待 */
+  signal?: AbortSignal
 }
 
 /**
@@ -28,11 +30,14 @@ export async function withRetry<T>(
     timeout,
     onRetry,
     shouldRetry = () => true,
+    signal,
   } = options
 
   let lastError: Error
 
   for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    signal?.throwIfAborted()
+
     try {
       // 如果设置了超时，使用超时包装
       if (timeout) {
@@ -43,8 +48,8 @@ export async function withRetry<T>(
     } catch (error) {
       lastError = error as Error
 
-      // 如果是最后一次尝试，直接抛出
-      if (attempt === maxAttempts) {
+      // 如果是最后一次尝试或已中止，直接抛出
+      if (attempt === maxAttempts || signal?.aborted) {
         throw error
       }
 
@@ -62,7 +67,7 @@ export async function withRetry<T>(
 
       // 计算等待时间（指数退避）
       const waitTime = delay * Math.pow(backoff, attempt - 1)
-      await sleep(waitTime)
+      await sleep(waitTime, signal)
     }
   }
 
@@ -89,10 +94,26 @@ export function withTimeout<T>(
 }
 
 /**
- * 睡眠函数
+ * 睡眠函数，中止信号触发时以信号的原因拒绝
  */
-export function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms))
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal!.reason)
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
 }
 
 /**
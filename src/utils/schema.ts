@@ -4,6 +4,7 @@
  */
 
 import { z } from 'zod'
+import { CronExpression, isValidTimeZone } from './cron.js'
 
 /**
  * 环境类型 Schema
@@ -119,11 +120,22 @@ export const DockerConfigSchema = z.object({
   image: z.string().min(1, 'Docker 镜像名称不能为空'),
   tag: z.string().optional(),
   registry: z.string().url('无效的镜像仓库 URL').or(z.string().regex(/^[a-zA-Z0-9.-]+$/)).optional(),
+  digest: z.string().regex(/^sha256:[a-f0-9]{64}$/, '无效的镜像摘要').optional(),
   multiStage: z.boolean().optional(),
   target: z.string().optional(),
   platform: z.string().optional(),
   cache: z.boolean().optional(),
   compose: DockerComposeConfigSchema.optional(),
+  // 渐进式发布（DeploymentStrategySchema 在下方定义）
+  strategy: z.lazy(() => DeploymentStrategySchema).optional(),
+  proxy: z.object({
+    provider: z.enum(['nginx', 'traefik']).optional(),
+    port: z.number().int().min(1).max(65535).optional(),
+    previewPort: z.number().int().min(1).max(65535).optional(),
+    network: z.string().optional(),
+    configDir: z.string().optional(),
+    image: z.string().optional(),
+  }).optional(),
 })
 
 /**
@@ -168,6 +180,17 @@ export const AnalysisConfigSchema = z.object({
   successRate: z.number().min(0).max(100).optional(),
   errorRate: z.number().min(0).max(100).optional(),
   latency: z.number().min(0).optional(),
+  interval: z.number().int().min(1).optional(),
+  failureThreshold: z.number().int().min(1).optional(),
+  prometheus: z.object({
+    url: z.string().url(),
+    headers: z.record(z.string()).optional(),
+    timeout: z.number().int().min(1).optional(),
+    labels: z.record(z.string()).optional(),
+    requestMetric: z.string().optional(),
+    latencyMetric: z.string().optional(),
+    statusLabel: z.string().optional(),
+  }).optional(),
 })
 
 /**
@@ -263,16 +286,215 @@ export const KubernetesConfigSchema = z.object({
   helm: HelmConfigSchema.optional(),
 })
 
+/**
+ * 结构化钩子 Schema
+ */
+export const HookDefinitionSchema = z.object({
+  name: z.string().min(1).optional(),
+  run: z.string().min(1, '钩子命令不能为空'),
+  cwd: z.string().optional(),
+  env: z.record(z.string()).optional(),
+  timeout: z.number().positive('超时时间必须大于 0').optional(),
+  retries: z.number().int().nonnegative().optional(),
+  retryDelay: z.number().nonnegative().optional(),
+  continueOnError: z.boolean().optional(),
+  when: z.object({
+    environments: z.array(EnvironmentSchema).optional(),
+    platforms: z.array(z.string().min(1)).optional(),
+  }).optional(),
+  shell: z.string().min(1).optional(),
+})
+
+const HookEntrySchema = z.union([z.string().min(1, '钩子命令不能为空'), HookDefinitionSchema])
+
 /**
  * 钩子配置 Schema
  */
 export const HookConfigSchema = z.object({
-  preDeploy: z.array(z.string()).optional(),
-  postDeploy: z.array(z.string()).optional(),
-  preRollback: z.array(z.string()).optional(),
-  postRollback: z.array(z.string()).optional(),
+  preDeploy: z.array(HookEntrySchema).optional(),
+  postDeploy: z.array(HookEntrySchema).optional(),
+  preRollback: z.array(HookEntrySchema).optional(),
+  postRollback: z.array(HookEntrySchema).optional(),
+})
+
+/**
+ * 流水线阶段 Schema
+ */
+export const PipelineStageSchema = z.object({
+  name: z.string().min(1, '阶段名称不能为空'),
+  type: z.enum(['build', 'test', 'migrate', 'deploy', 'verify', 'notify', 'custom']).optional(),
+  commands: z.array(z.string()).optional(),
+  dependsOn: z.array(z.string()).optional(),
+  when: z.object({
+    environments: z.array(EnvironmentSchema).optional(),
+    status: z.enum(['success', 'failure', 'always']).optional(),
+    env: z.array(z.string()).optional(),
+  }).optional(),
+  retries: z.number().int().min(0).optional(),
+  retryDelay: z.number().min(0).optional(),
+  timeout: z.number().int().min(1).optional(),
+  continueOnError: z.boolean().optional(),
+})
+
+/**
+ * 流水线配置 Schema
+ */
+export const PipelineConfigSchema = z.object({
+  stages: z.array(PipelineStageSchema).min(1, '流水线至少需要一个阶段'),
+  concurrency: z.number().int().min(1).optional(),
+  failFast: z.boolean().optional(),
+})
+
+/**
+ * 多服务应用的服务 Schema
+ */
+export const DeployServiceConfigSchema = z.object({
+  docker: DockerConfigSchema.partial().optional(),
+  kubernetes: KubernetesConfigSchema.optional(),
+  healthCheck: HealthCheckConfigSchema.optional(),
+  dependsOn: z.array(z.string()).optional(),
+})
+
+/**
+ * 部署锁配置 Schema
+ */
+export const LockConfigSchema = z.object({
+  backend: z.enum(['file', 'kubernetes', 'redis', 's3']).optional(),
+  ttl: z.number().int().min(1000, '锁有效期至少为 1000 毫秒').optional(),
+  heartbeatInterval: z.number().int().min(100).optional(),
+  file: z.object({
+    dir: z.string().optional(),
+  }).optional(),
+  kubernetes: z.object({
+    namespace: z.string().optional(),
+    context: z.string().optional(),
+  }).optional(),
+  redis: z.object({
+    url: z.string().optional(),
+    keyPrefix: z.string().optional(),
+  }).optional(),
+  s3: z.object({
+    bucket: z.string().min(1, 'S3 存储桶不能为空'),
+    prefix: z.string().optional(),
+    region: z.string().optional(),
+    endpoint: z.string().url('无效的 S3 endpoint').optional(),
+  }).optional(),
+}).refine(lock => lock.backend !== 's3' || lock.s3, {
+  message: 's3 锁后端需要配置 lock.s3.bucket',
+  path: ['s3'],
 })
 
+/**
+ * 审批策略 Schema
+ */
+export const ApprovalPolicySchema = z.object({
+  requiredApprovers: z.array(z.string().min(1)).optional(),
+  groups: z.array(z.string().min(1)).optional(),
+  minApprovals: z.number().int().min(1, '最少批准人数至少为 1').optional(),
+  expiresIn: z.number().positive('审批有效期必须大于 0').optional(),
+  allowSelfApproval: z.boolean().optional(),
+})
+
+/**
+ * 部署审批配置 Schema
+ */
+export const ApprovalConfigSchema = z.object({
+  environments: z.object({
+    development: ApprovalPolicySchema.optional(),
+    test: ApprovalPolicySchema.optional(),
+    staging: ApprovalPolicySchema.optional(),
+    production: ApprovalPolicySchema.optional(),
+  }),
+  groups: z.record(z.array(z.string().min(1))).optional(),
+  identities: z.record(z.string().regex(/^[a-f0-9]{64}$/, '审批身份必须是令牌的 SHA-256 摘要（64 位十六进制）')).optional(),
+  store: z.object({
+    backend: z.enum(['file', 's3']).optional(),
+    dir: z.string().optional(),
+    s3: z.object({
+      bucket: z.string().min(1, 'S3 存储桶不能为空'),
+      prefix: z.string().optional(),
+      region: z.string().optional(),
+      endpoint: z.string().url('无效的 S3 endpoint').optional(),
+    }).optional(),
+  }).refine(store => store.backend !== 's3' || store.s3, {
+    message: 's3 审批存储需要配置 approvals.store.s3.bucket',
+    path: ['s3'],
+  }).optional(),
+}).superRefine((approvals, ctx) => {
+  for (const [environment, policy] of Object.entries(approvals.environments)) {
+    for (const group of policy?.groups || []) {
+      if (!approvals.groups?.[group]) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `审批组 ${group} 未在 approvals.groups 中定义`,
+          path: ['environments', environment, 'groups'],
+        })
+      }
+    }
+  }
+})
+
+/**
+ * 时区 Schema（IANA 时区名称）
+ */
+const TimeZoneSchema = z.string().refine(isValidTimeZone, value => ({
+  message: `无效的时区: ${value}，例如 Asia/Shanghai`,
+}))
+
+/**
+ * 部署窗口配置 Schema
+ */
+export const DeployWindowsConfigSchema = z.object({
+  timezone: TimeZoneSchema.optional(),
+  enforcement: z.enum(['block', 'warn']).optional(),
+  windows: z.array(z.object({
+    name: z.string().optional(),
+    cron: z.string().superRefine((cron, ctx) => {
+      try {
+        new CronExpression(cron)
+      } catch (error: any) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: error.message })
+      }
+    }),
+    environments: z.array(EnvironmentSchema).optional(),
+    timezone: TimeZoneSchema.optional(),
+  })),
+})
+
+const LOCAL_DATE_TIME = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2})?$/
+
+/**
+ * 冻结期 Schema
+ */
+export const FreezePeriodSchema = z.object({
+  name: z.string().min(1, '冻结期名称不能为空'),
+  start: z.string().regex(LOCAL_DATE_TIME, '开始时间格式应为 YYYY-MM-DD 或 YYYY-MM-DDTHH:mm'),
+  end: z.string().regex(LOCAL_DATE_TIME, '结束时间格式应为 YYYY-MM-DD 或 YYYY-MM-DDTHH:mm'),
+  reason: z.string().optional(),
+  environments: z.array(EnvironmentSchema).optional(),
+  timezone: TimeZoneSchema.optional(),
+  enforcement: z.enum(['block', 'warn']).optional(),
+}).refine(freeze => freeze.start.padEnd(16, 'T00:00') < freeze.end.padEnd(16, 'T24:00'), {
+  message: '冻结期的结束时间不能早于开始时间',
+  path: ['end'],
+})
+
+/**
+ * 部署策略配置 Schema
+ */
+export const PolicyConfigSchema = z.object({
+  files: z.array(z.string().min(1)).optional(),
+  disabled: z.array(z.string().min(1)).optional(),
+})
+
+/**
+ * 插件 Schema：包名或模块路径，可以附带插件选项
+ */
+export const PluginSpecSchema = z.union([
+  z.string().min(1, '插件名称不能为空'),
+  z.tuple([z.string().min(1, '插件名称不能为空'), z.record(z.any())]),
+])
+
 /**
  * 部署配置 Schema
  */
@@ -281,7 +503,7 @@ export const DeployConfigSchema = z.object({
   name: z.string().min(1, '应用名称不能为空'),
   version: z.string().regex(/^\d+\.\d+\.\d+(-[a-zA-Z0-9.-]+)?$/, '无效的语义化版本，例如: 1.0.0, 1.0.0-beta.1'),
   environment: EnvironmentSchema,
-  platform: PlatformSchema,
+  platform: z.string().min(1, '部署平台不能为空'),
   projectType: ProjectTypeSchema,
 
   // 路径配置
@@ -303,7 +525,32 @@ export const DeployConfigSchema = z.object({
 
   // 钩子
   hooks: HookConfigSchema.optional(),
-})
+
+  // 流水线
+  pipeline: PipelineConfigSchema.optional(),
+
+  // 多服务应用
+  services: z.record(DeployServiceConfigSchema).optional(),
+
+  // 部署锁
+  lock: LockConfigSchema.optional(),
+
+  // 部署审批
+  approvals: ApprovalConfigSchema.optional(),
+
+  // 部署窗口与冻结期
+  deployWindows: DeployWindowsConfigSchema.optional(),
+  freezes: z.array(FreezePeriodSchema).optional(),
+
+  // 部署策略
+  policy: PolicyConfigSchema.optional(),
+
+  // 插件
+  plugins: z.array(PluginSpecSchema).optional(),
+}).refine(config => PlatformSchema.safeParse(config.platform).success || (config.plugins?.length ?? 0) > 0, config => ({
+  message: `未知的部署平台: ${config.platform}，自定义平台需要由 plugins 中的插件提供`,
+  path: ['platform'],
+}))
 
 /**
  * 验证部署配置
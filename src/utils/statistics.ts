@@ -0,0 +1,403 @@
+/**
+ * 统计检验工具
+ */
+
+/**
+ * 备择假设方向
+ * - greater: x 随机大于 y
+ * - less: x 随机小于 y
+ */
+export type TestAlternative = 'greater' | 'less' | 'two-sided'
+
+/**
+ * 检验结果
+ */
+export interface StatisticalTestResult {
+  /** 检验统计量 */
+  statistic: number
+  /** 标准化后的 z 值 */
+  z: number
+  pValue: number
+  /** 自由度（t 检验） */
+  df?: number
+}
+
+/**
+ * 置信区间
+ */
+export interface ConfidenceInterval {
+  lower: number
+  upper: number
+  confidence: number
+}
+
+/**
+ * 计算中位数
+ */
+export function median(values: number[]): number {
+  if (values.length === 0) return NaN
+
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle]
+}
+
+/**
+ * 计算平均值
+ */
+export function mean(values: number[]): number {
+  if (values.length === 0) return NaN
+  return values.reduce((sum, v) => sum + v, 0) / values.length
+}
+
+/**
+ * 计算样本方差（n - 1）
+ */
+export function variance(values: number[]): number {
+  if (values.length < 2) return 0
+  const m = mean(values)
+  return values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1)
+}
+
+/**
+ * 标准正态分布累积分布函数
+ */
+export function normalCdf(z: number): number {
+  return 0.5 * (1 + erf(z / Math.SQRT2))
+}
+
+/**
+ * 标准正态分布分位数（Acklam 有理近似，相对误差 < 1.2e-9）
+ */
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity
+  if (p >= 1) return Infinity
+
+  const a = [-3.969683028665376e+01, 2.209460984245205e+02, -2.759285104469687e+02, 1.383577518672690e+02, -3.066479806614716e+01, 2.506628277459239e+00]
+  const b = [-5.447609879822406e+01, 1.615858368580409e+02, -1.556989798598866e+02, 6.680131188771972e+01, -1.328068155288572e+01]
+  const c = [-7.784894002430293e-03, -3.223964580411365e-01, -2.400758277161838e+00, -2.549732539343734e+00, 4.374664141464968e+00, 2.938163982698783e+00]
+  const d = [7.784695709041462e-03, 3.224671290700398e-01, 2.445134137142996e+00, 3.754408661907416e+00]
+  const low = 0.02425
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p))
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1)
+  }
+
+  if (p > 1 - low) {
+    return -normalQuantile(1 - p)
+  }
+
+  const q = p - 0.5
+  const r = q * q
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1)
+}
+
+/**
+ * Student t 分布累积分布函数
+ */
+export function studentTCdf(t: number, df: number): number {
+  if (!Number.isFinite(df) || df > 1e7) {
+    return normalCdf(t)
+  }
+
+  const x = df / (df + t * t)
+  const tail = 0.5 * incompleteBeta(x, df / 2, 0.5)
+
+  return t >= 0 ? 1 - tail : tail
+}
+
+/**
+ * Student t 分布分位数（二分法求解）
+ */
+export function studentTQuantile(p: number, df: number): number {
+  if (p <= 0) return -Infinity
+  if (p >= 1) return Infinity
+
+  let low = -1e4
+  let high = 1e4
+
+  for (let i = 0; i < 200 && high - low > 1e-10; i++) {
+    const mid = (low + high) / 2
+    if (studentTCdf(mid, df) < p) {
+      low = mid
+    } else {
+      high = mid
+    }
+  }
+
+  return (low + high) / 2
+}
+
+/**
+ * 两比例 z 检验（合并方差）
+ *
+ * @description 适用于转化率等比例型指标；alternative 描述 b 相对 a 的方向
+ *
+ * @param successA - a 组成功数
+ * @param totalA - a 组样本数
+ * @param successB - b 组成功数
+ * @param totalB - b 组样本数
+ * @param alternative - greater 表示检验 pB > pA
+ */
+export function twoProportionZTest(
+  successA: number,
+  totalA: number,
+  successB: number,
+  totalB: number,
+  alternative: TestAlternative = 'two-sided'
+): StatisticalTestResult {
+  if (totalA <= 0 || totalB <= 0) {
+    throw new Error('Two-proportion z-test requires non-empty samples')
+  }
+
+  const pA = successA / totalA
+  const pB = successB / totalB
+  const pooled = (successA + successB) / (totalA + totalB)
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / totalA + 1 / totalB))
+
+  if (se === 0) {
+    return { statistic: 0, z: 0, pValue: 1 }
+  }
+
+  const z = (pB - pA) / se
+  return { statistic: z, z, pValue: pValueFromCdf(normalCdf(z), alternative) }
+}
+
+/**
+ * Welch t 检验（不假设方差相等）
+ *
+ * @description 适用于均值型连续指标；alternative 描述 b 相对 a 的方向
+ */
+export function welchTTest(
+  meanA: number,
+  varianceA: number,
+  countA: number,
+  meanB: number,
+  varianceB: number,
+  countB: number,
+  alternative: TestAlternative = 'two-sided'
+): StatisticalTestResult {
+  if (countA < 2 || countB < 2) {
+    throw new Error("Welch's t-test requires at least two samples per group")
+  }
+
+  const seA = varianceA / countA
+  const seB = varianceB / countB
+  const se = Math.sqrt(seA + seB)
+
+  if (se === 0) {
+    return { statistic: 0, z: 0, pValue: meanA === meanB ? 1 : 0, df: countA + countB - 2 }
+  }
+
+  const t = (meanB - meanA) / se
+  const df = (seA + seB) ** 2 / ((seA ** 2) / (countA - 1) + (seB ** 2) / (countB - 1))
+
+  return {
+    statistic: t,
+    z: normalQuantile(studentTCdf(t, df)),
+    pValue: pValueFromCdf(studentTCdf(t, df), alternative),
+    df,
+  }
+}
+
+/**
+ * 比例的 Wald 置信区间（截断到 [0, 1]）
+ */
+export function proportionConfidenceInterval(success: number, total: number, confidence = 0.95): ConfidenceInterval {
+  const p = total > 0 ? success / total : 0
+  const margin = normalQuantile(1 - (1 - confidence) / 2) * Math.sqrt(total > 0 ? p * (1 - p) / total : 0)
+
+  return { lower: Math.max(0, p - margin), upper: Math.min(1, p + margin), confidence }
+}
+
+/**
+ * 均值的 t 置信区间
+ */
+export function meanConfidenceInterval(m: number, v: number, count: number, confidence = 0.95): ConfidenceInterval {
+  if (count < 2) {
+    return { lower: m, upper: m, confidence }
+  }
+
+  const margin = studentTQuantile(1 - (1 - confidence) / 2, count - 1) * Math.sqrt(v / count)
+  return { lower: m - margin, upper: m + margin, confidence }
+}
+
+/**
+ * Mann-Whitney U 检验（正态近似，含并列校正与连续性校正）
+ *
+ * @description 非参数检验，不要求样本服从正态分布，适合延迟等长尾指标
+ *
+ * @param x - 样本 x（如金丝雀）
+ * @param y - 样本 y（如基线）
+ * @param alternative - 备择假设方向，默认双侧
+ *
+ * @example
+ * ```typescript
+ * const { pValue } = mannWhitneyUTest(canaryLatency, baselineLatency, 'greater');
+ * if (pValue < 0.05) console.log('金丝雀延迟显著高于基线');
+ * ```
+ */
+export function mannWhitneyUTest(x: number[], y: number[], alternative: TestAlternative = 'two-sided'): StatisticalTestResult {
+  const n1 = x.length
+  const n2 = y.length
+
+  if (n1 === 0 || n2 === 0) {
+    throw new Error('Mann-Whitney U test requires non-empty samples')
+  }
+
+  // 合并排序并计算秩（并列取平均秩）
+  const combined = [
+    ...x.map(value => ({ value, group: 0 })),
+    ...y.map(value => ({ value, group: 1 })),
+  ].sort((a, b) => a.value - b.value)
+
+  const ranks = new Array<number>(combined.length)
+  let tieCorrection = 0
+
+  for (let i = 0; i < combined.length;) {
+    let j = i
+    while (j + 1 < combined.length && combined[j + 1].value === combined[i].value) {
+      j++
+    }
+
+    const rank = (i + j) / 2 + 1
+    for (let k = i; k <= j; k++) {
+      ranks[k] = rank
+    }
+
+    const tied = j - i + 1
+    tieCorrection += tied ** 3 - tied
+    i = j + 1
+  }
+
+  const rankSumX = combined.reduce((sum, item, index) => sum + (item.group === 0 ? ranks[index] : 0), 0)
+  const u = rankSumX - (n1 * (n1 + 1)) / 2
+
+  const n = n1 + n2
+  const meanU = (n1 * n2) / 2
+  const varianceU = (n1 * n2 / 12) * ((n + 1) - tieCorrection / (n * (n - 1)))
+
+  // 所有值完全相同时无法区分
+  if (varianceU <= 0) {
+    return { statistic: u, z: 0, pValue: 1 }
+  }
+
+  const sd = Math.sqrt(varianceU)
+
+  switch (alternative) {
+    case 'greater': {
+      const z = (u - meanU - 0.5) / sd
+      return { statistic: u, z, pValue: 1 - normalCdf(z) }
+    }
+    case 'less': {
+      const z = (u - meanU + 0.5) / sd
+      return { statistic: u, z, pValue: normalCdf(z) }
+    }
+    default: {
+      const z = (u - meanU - Math.sign(u - meanU) * 0.5) / sd
+      return { statistic: u, z, pValue: Math.min(1, 2 * (1 - normalCdf(Math.abs(z)))) }
+    }
+  }
+}
+
+/**
+ * 由统计量的累积概率计算 p 值
+ */
+function pValueFromCdf(cdf: number, alternative: TestAlternative): number {
+  switch (alternative) {
+    case 'greater':
+      return 1 - cdf
+    case 'less':
+      return cdf
+    default:
+      return Math.min(1, 2 * Math.min(cdf, 1 - cdf))
+  }
+}
+
+/**
+ * 正则化不完全 Beta 函数 I_x(a, b)
+ */
+function incompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0
+  if (x >= 1) return 1
+
+  const front = Math.exp(
+    logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x)
+  )
+
+  // 连分式在 x < (a + 1) / (a + b + 2) 时收敛较快，否则使用对称关系
+  return x < (a + 1) / (a + b + 2)
+    ? front * betaContinuedFraction(x, a, b) / a
+    : 1 - front * betaContinuedFraction(1 - x, b, a) / b
+}
+
+/**
+ * 不完全 Beta 函数的连分式展开（Lentz 算法）
+ */
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const tiny = 1e-300
+  let c = 1
+  let d = 1 - (a + b) * x / (a + 1)
+  d = 1 / (Math.abs(d) < tiny ? tiny : d)
+  let h = d
+
+  for (let m = 1; m <= 300; m++) {
+    const m2 = 2 * m
+
+    let aa = m * (b - m) * x / ((a + m2 - 1) * (a + m2))
+    d = 1 + aa * d
+    d = 1 / (Math.abs(d) < tiny ? tiny : d)
+    c = 1 + aa / c
+    c = Math.abs(c) < tiny ? tiny : c
+    h *= d * c
+
+    aa = -(a + m) * (a + b + m) * x / ((a + m2) * (a + m2 + 1))
+    d = 1 + aa * d
+    d = 1 / (Math.abs(d) < tiny ? tiny : d)
+    c = 1 + aa / c
+    c = Math.abs(c) < tiny ? tiny : c
+    const delta = d * c
+    h *= delta
+
+    if (Math.abs(delta - 1) < 1e-12) break
+  }
+
+  return h
+}
+
+/**
+ * ln Γ(x)（Lanczos 近似）
+ */
+function logGamma(x: number): number {
+  const coefficients = [
+    76.18009172947146, -86.50532032941677, 24.01409824083091,
+    -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5,
+  ]
+
+  let y = x
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5)
+  let series = 1.000000000190015
+
+  for (const coefficient of coefficients) {
+    series += coefficient / ++y
+  }
+
+  return -tmp + Math.log(2.5066282746310005 * series / x)
+}
+
+/**
+ * 误差函数（Abramowitz-Stegun 7.1.26 近似，误差 < 1.5e-7）
+ */
+function erf(x: number): number {
+  const sign = x < 0 ? -1 : 1
+  const t = 1 / (1 + 0.3275911 * Math.abs(x))
+  const y = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x)
+
+  return sign * y
+}
@@ -80,8 +80,16 @@ function getNestedValue(obj: any, path: string): any {
  * 转义特殊字符（用于 YAML/JSON）
  */
 export function escapeYaml(value: string): string {
-  if (value.includes(':') || value.includes('#') || value.includes('\n')) {
-    return `"${value.replace(/"/g, '\\"')}"`
+  // 含特殊字符、首字符为 YAML 指示符或会被解析为布尔/数字/null 的字符串需要加引号
+  if (
+    value === '' ||
+    /[:#\n"'\\]/.test(value) ||
+    /^[\s\-?\[\]{},&*!|>%@`]/.test(value) ||
+    /\s$/.test(value) ||
+    /^(true|false|yes|no|on|off|null|~)$/i.test(value) ||
+    /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(value)
+  ) {
+    return JSON.stringify(value)
   }
   return value
 }
@@ -121,7 +129,7 @@ export function toYaml(obj: any, level = 0): string {
       if (typeof item === 'object' && item !== null) {
         result += `${indent}-\n${toYaml(item, level + 1)}`
       } else {
-        result += `${indent}- ${item}\n`
+        result += `${indent}- ${typeof item === 'string' ? escapeYaml(item) : item}\n`
       }
     }
   } else if (typeof obj === 'object' && obj !== null) {
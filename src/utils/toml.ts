@@ -0,0 +1,607 @@
+/**
+ * TOML 解析与序列化
+ *
+ * @description 无依赖实现，覆盖 TOML 1.0：表、表数组、点分键、行内表、数组、
+ * 基本/字面量字符串（含多行）、整数（十六/八/二进制与下划线分隔）、浮点数、布尔值。
+ * 日期时间字面量无法原样写回，解析时报错，需写成带引号的字符串
+ */
+
+import { ConfigError } from './errors.js'
+import type { ConfigComments } from './config-format.js'
+
+/**
+ * 解析结果
+ */
+export interface ParsedToml {
+  data: Record<string, any>
+  comments: ConfigComments
+}
+
+const BASIC_ESCAPES: Record<string, string> = {
+  b: '\b',
+  t: '\t',
+  n: '\n',
+  f: '\f',
+  r: '\r',
+  '"': '"',
+  '\\': '\\',
+}
+
+const DATE_TIME = /^(\d{4}-\d{2}-\d{2}([Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?)?([Zz]|[+-]\d{2}:\d{2})?|\d{2}:\d{2}:\d{2}(\.\d+)?)/
+const BARE_KEY = /^[A-Za-z0-9_-]+$/
+
+/**
+ * 解析 TOML
+ *
+ * @param path - 文件路径，仅用于错误信息
+ * @throws {ConfigError} 语法错误，details 包含 line 与 column
+ */
+export function parseToml(content: string, path?: string): ParsedToml {
+  return new TomlParser(content, path).parse()
+}
+
+/**
+ * 序列化为 TOML，按路径写回注释；null 值在 TOML 中无法表示，会被省略
+ */
+export function stringifyToml(value: Record<string, any>, comments?: ConfigComments): string {
+  return new TomlWriter(comments || { leading: {}, trailing: {}, footer: [] }).write(value)
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isTableArray(value: unknown): value is Record<string, any>[] {
+  return Array.isArray(value) && value.length > 0 && value.every(isPlainObject)
+}
+
+class TomlParser {
+  private pos = 0
+  private root: Record<string, any> = {}
+  private table: Record<string, any> = this.root
+  private tablePath = ''
+  /** 已显式定义的表（[table]） */
+  private definedTables = new WeakSet<object>()
+  /** 行内表与数组字面量，定义后不可扩展 */
+  private sealed = new WeakSet<object>()
+  private pending: string[] = []
+  private comments: ConfigComments = { leading: {}, trailing: {}, footer: [] }
+
+  constructor(private source: string, private path?: string) {
+    this.source = source.replace(/^\uFEFF/, '')
+  }
+
+  parse(): ParsedToml {
+    while (this.pos < this.source.length) {
+      this.skipSpaces()
+      const char = this.source[this.pos]
+
+      if (char === '\n' || char === '\r') {
+        this.pending.push('')
+        this.skipNewline()
+        continue
+      }
+
+      if (char === '#') {
+        this.pending.push(this.readComment())
+        this.skipNewline()
+        continue
+      }
+
+      const path = char === '[' ? this.parseTableHeader() : this.parseKeyValue(this.table, this.tablePath)
+      this.skipSpaces()
+
+      if (this.source[this.pos] === '#') {
+        this.comments.trailing[path] = this.readComment()
+      }
+
+      if (this.pos < this.source.length && !this.skipNewline()) {
+        throw this.error('Expected a newline after the value')
+      }
+    }
+
+    this.comments.footer = this.pending
+    return { data: this.root, comments: this.comments }
+  }
+
+  private parseTableHeader(): string {
+    const isArray = this.source.startsWith('[[', this.pos)
+    this.pos += isArray ? 2 : 1
+    this.skipSpaces()
+
+    const keys = this.parseKey()
+    this.skipSpaces()
+
+    if (!this.source.startsWith(isArray ? ']]' : ']', this.pos)) {
+      throw this.error(`Expected "${isArray ? ']]' : ']'}" to close the table header`)
+    }
+    this.pos += isArray ? 2 : 1
+
+    let parent = this.root
+    let path = ''
+
+    for (const key of keys.slice(0, -1)) {
+      const existing = parent[key]
+      path = path ? `${path}.${key}` : key
+
+      if (existing === undefined) {
+        parent = parent[key] = {}
+      } else if (isTableArray(existing) && !this.sealed.has(existing)) {
+        path = `${path}[${existing.length - 1}]`
+        parent = existing[existing.length - 1]
+      } else if (isPlainObject(existing) && !this.sealed.has(existing)) {
+        parent = existing
+      } else {
+        throw this.error(`Key "${key}" is not a table`)
+      }
+    }
+
+    const key = keys[keys.length - 1]
+    const existing = parent[key]
+    path = path ? `${path}.${key}` : key
+
+    if (isArray) {
+      if (existing === undefined) {
+        parent[key] = []
+      } else if (!Array.isArray(existing) || this.sealed.has(existing)) {
+        throw this.error(`Key "${key}" is not an array of tables`)
+      }
+
+      this.table = {}
+      path = `${path}[${parent[key].length}]`
+      parent[key].push(this.table)
+    } else {
+      if (existing === undefined) {
+        parent[key] = {}
+      } else if (!isPlainObject(existing) || this.definedTables.has(existing) || this.sealed.has(existing)) {
+        throw this.error(`Table "${keys.join('.')}" is already defined`)
+      }
+
+      this.table = parent[key]
+    }
+
+    this.definedTables.add(this.table)
+    this.tablePath = path
+    this.takeComments(path)
+    return path
+  }
+
+  /**
+   * 解析 key = value，返回值的路径
+   */
+  private parseKeyValue(table: Record<string, any>, tablePath: string): string {
+    const keys = this.parseKey()
+    this.skipSpaces()
+
+    if (this.source[this.pos] !== '=') {
+      throw this.error('Expected "=" after key')
+    }
+    this.pos++
+    this.skipSpaces()
+
+    let parent = table
+    let path = tablePath
+
+    for (const key of keys.slice(0, -1)) {
+      path = path ? `${path}.${key}` : key
+
+      if (parent[key] === undefined) {
+        parent[key] = {}
+      } else if (!isPlainObject(parent[key]) || this.sealed.has(parent[key]) || this.definedTables.has(parent[key])) {
+        throw this.error(`Key "${key}" is already defined`)
+      }
+
+      parent = parent[key]
+    }
+
+    const key = keys[keys.length - 1]
+    path = path ? `${path}.${key}` : key
+
+    if (Object.prototype.hasOwnProperty.call(parent, key)) {
+      throw this.error(`Duplicate key "${keys.join('.')}"`)
+    }
+
+    this.takeComments(path)
+    parent[key] = this.parseValue()
+    return path
+  }
+
+  private parseKey(): string[] {
+    const keys: string[] = []
+
+    while (true) {
+      this.skipSpaces()
+      const char = this.source[this.pos]
+
+      if (char === '"') {
+        keys.push(this.parseBasicString())
+      } else if (char === "'") {
+        keys.push(this.parseLiteralString())
+      } else {
+        const match = /^[A-Za-z0-9_-]+/.exec(this.source.slice(this.pos))
+        if (!match) {
+          throw this.error('Expected a key')
+        }
+        keys.push(match[0])
+        this.pos += match[0].length
+      }
+
+      this.skipSpaces()
+      if (this.source[this.pos] !== '.') {
+        return keys
+      }
+      this.pos++
+    }
+  }
+
+  private parseValue(): any {
+    const rest = this.source.slice(this.pos, this.pos + 64)
+
+    if (rest.startsWith('"""')) return this.parseMultilineString('"""')
+    if (rest.startsWith("'''")) return this.parseMultilineString("'''")
+    if (rest.startsWith('"')) return this.parseBasicString()
+    if (rest.startsWith("'")) return this.parseLiteralString()
+    if (rest.startsWith('[')) return this.parseArray()
+    if (rest.startsWith('{')) return this.parseInlineTable()
+
+    const boolean = /^(true|false)(?![A-Za-z0-9_-])/.exec(rest)
+    if (boolean) {
+      this.pos += boolean[0].length
+      return boolean[1] === 'true'
+    }
+
+    if (DATE_TIME.test(rest)) {
+      throw this.error(
+        'Date-time values are not supported',
+        '请把日期时间写成带引号的字符串，例如 time = "2026-01-01T00:00:00Z"'
+      )
+    }
+
+    const special = /^([+-]?)(inf|nan)(?![A-Za-z0-9_])/.exec(rest)
+    if (special) {
+      this.pos += special[0].length
+      return special[2] === 'nan' ? NaN : special[1] === '-' ? -Infinity : Infinity
+    }
+
+    const radix = /^0([xob])([0-9A-Fa-f_]+)/.exec(rest)
+    if (radix) {
+      this.pos += radix[0].length
+      return parseInt(radix[2].replace(/_/g, ''), { x: 16, o: 8, b: 2 }[radix[1]])
+    }
+
+    const number = /^[+-]?\d[\d_]*(\.\d[\d_]*)?([eE][+-]?\d[\d_]*)?/.exec(rest)
+    if (number) {
+      this.pos += number[0].length
+      return Number(number[0].replace(/_/g, ''))
+    }
+
+    throw this.error('Invalid value')
+  }
+
+  private parseArray(): any[] {
+    const items: any[] = []
+    this.pos++
+
+    while (true) {
+      this.skipWhitespaceAndComments()
+
+      if (this.source[this.pos] === ']') {
+        this.pos++
+        this.sealed.add(items)
+        return items
+      }
+
+      items.push(this.parseValue())
+      this.skipWhitespaceAndComments()
+
+      if (this.source[this.pos] === ',') {
+        this.pos++
+      } else if (this.source[this.pos] !== ']') {
+        throw this.error('Expected "," or "]" in array')
+      }
+    }
+  }
+
+  private parseInlineTable(): Record<string, any> {
+    const table: Record<string, any> = {}
+    this.pos++
+    this.skipSpaces()
+
+    if (this.source[this.pos] === '}') {
+      this.pos++
+      this.sealed.add(table)
+      return table
+    }
+
+    while (true) {
+      this.parseKeyValue(table, '')
+      this.skipSpaces()
+
+      const char = this.source[this.pos]
+      this.pos++
+
+      if (char === '}') {
+        this.sealed.add(table)
+        return table
+      }
+
+      if (char !== ',') {
+        this.pos--
+        throw this.error('Expected "," or "}" in inline table')
+      }
+    }
+  }
+
+  private parseBasicString(): string {
+    let value = ''
+    this.pos++
+
+    while (this.pos < this.source.length) {
+      const char = this.source[this.pos]
+
+      if (char === '"') {
+        this.pos++
+        return value
+      }
+
+      if (char === '\n') {
+        break
+      }
+
+      if (char === '\\') {
+        value += this.parseEscape()
+        continue
+      }
+
+      value += char
+      this.pos++
+    }
+
+    throw this.error('Unterminated string')
+  }
+
+  private parseLiteralString(): string {
+    const end = this.source.indexOf("'", this.pos + 1)
+    const newline = this.source.indexOf('\n', this.pos + 1)
+
+    if (end < 0 || (newline >= 0 && newline < end)) {
+      throw this.error('Unterminated string')
+    }
+
+    const value = this.source.slice(this.pos + 1, end)
+    this.pos = end + 1
+    return value
+  }
+
+  private parseMultilineString(delimiter: string): string {
+    const start = this.pos
+    this.pos += 3
+
+    // 紧跟分隔符的换行不计入内容
+    if (this.source[this.pos] === '\r') this.pos++
+    if (this.source[this.pos] === '\n') this.pos++
+
+    let value = ''
+
+    while (this.pos < this.source.length) {
+      if (this.source.startsWith(delimiter, this.pos)) {
+        // 分隔符前最多允许两个引号属于内容
+        let extra = 0
+        while (extra < 2 && this.source[this.pos + 3 + extra] === delimiter[0]) extra++
+        value += delimiter[0].repeat(extra)
+        this.pos += 3 + extra
+        return value
+      }
+
+      const char = this.source[this.pos]
+
+      if (char === '\\' && delimiter === '"""') {
+        const lineEnding = /^\\[ \t]*\r?\n[\s]*/.exec(this.source.slice(this.pos))
+        if (lineEnding) {
+          this.pos += lineEnding[0].length
+        } else {
+          value += this.parseEscape()
+        }
+        continue
+      }
+
+      value += char
+      this.pos++
+    }
+
+    this.pos = start
+    throw this.error('Unterminated multi-line string')
+  }
+
+  private parseEscape(): string {
+    const escape = this.source[this.pos + 1]
+
+    if (escape === 'u' || escape === 'U') {
+      const length = escape === 'u' ? 4 : 8
+      const hex = this.source.slice(this.pos + 2, this.pos + 2 + length)
+
+      if (!new RegExp(`^[0-9a-fA-F]{${length}}$`).test(hex)) {
+        throw this.error(`Invalid unicode escape "\\${escape}${hex}"`)
+      }
+
+      this.pos += 2 + length
+      return String.fromCodePoint(parseInt(hex, 16))
+    }
+
+    if (!(escape in BASIC_ESCAPES)) {
+      throw this.error(`Invalid escape sequence "\\${escape ?? ''}"`)
+    }
+
+    this.pos += 2
+    return BASIC_ESCAPES[escape]
+  }
+
+  private takeComments(path: string): void {
+    if (this.pending.length > 0) {
+      this.comments.leading[path] = this.pending
+      this.pending = []
+    }
+  }
+
+  private readComment(): string {
+    const end = this.source.slice(this.pos).search(/\r?\n/)
+    const comment = end < 0 ? this.source.slice(this.pos) : this.source.slice(this.pos, this.pos + end)
+    this.pos += comment.length
+    return comment.trimEnd()
+  }
+
+  private skipSpaces(): void {
+    while (this.source[this.pos] === ' ' || this.source[this.pos] === '\t') {
+      this.pos++
+    }
+  }
+
+  private skipNewline(): boolean {
+    if (this.source.startsWith('\r\n', this.pos)) {
+      this.pos += 2
+      return true
+    }
+
+    if (this.source[this.pos] === '\n') {
+      this.pos++
+      return true
+    }
+
+    return false
+  }
+
+  private skipWhitespaceAndComments(): void {
+    while (this.pos < this.source.length) {
+      this.skipSpaces()
+
+      if (this.source[this.pos] === '#') {
+        this.readComment()
+      } else if (!this.skipNewline()) {
+        return
+      }
+    }
+  }
+
+  private error(message: string, suggestion = '请检查 TOML 语法（键、引号与表头）'): ConfigError {
+    const before = this.source.slice(0, this.pos).split('\n')
+    const line = before.length
+    const column = before[before.length - 1].length + 1
+
+    return new ConfigError(`TOML 解析失败 (line ${line}, column ${column}): ${message}`, {
+      details: { path: this.path, line, column },
+      suggestion,
+    })
+  }
+}
+
+class TomlWriter {
+  private lines: string[] = []
+
+  constructor(private comments: ConfigComments) {}
+
+  write(value: Record<string, any>): string {
+    this.writeTable(value, '')
+    this.lines.push(...this.comments.footer)
+
+    while (this.lines.length > 0 && this.lines[this.lines.length - 1] === '') {
+      this.lines.pop()
+    }
+
+    return `${this.lines.join('\n')}\n`
+  }
+
+  private writeTable(table: Record<string, any>, path: string): void {
+    const entries = Object.entries(table).filter(([, value]) => value !== undefined && value !== null)
+
+    // 先写键值对，再写子表与表数组
+    for (const [key, value] of entries) {
+      if (isPlainObject(value) || isTableArray(value)) continue
+
+      const childPath = this.join(path, key)
+      this.writeLeading(childPath)
+      this.push(`${this.key(key)} = ${this.value(value)}`, childPath)
+    }
+
+    for (const [key, value] of entries) {
+      const childPath = this.join(path, key)
+
+      if (isPlainObject(value)) {
+        // 只包含子表的上级表可以省略表头
+        const hasValues = Object.values(value).some(
+          item => item !== undefined && item !== null && !isPlainObject(item) && !isTableArray(item)
+        )
+        if (hasValues || Object.keys(value).length === 0 || this.comments.leading[childPath] || this.comments.trailing[childPath]) {
+          this.writeHeader(`[${this.headerKey(childPath)}]`, childPath)
+        }
+        this.writeTable(value, childPath)
+      } else if (isTableArray(value)) {
+        value.forEach((item, index) => {
+          const itemPath = `${childPath}[${index}]`
+          this.writeHeader(`[[${this.headerKey(childPath)}]]`, itemPath)
+          this.writeTable(item, itemPath)
+        })
+      }
+    }
+  }
+
+  private writeHeader(header: string, path: string): void {
+    const leading = this.comments.leading[path]
+
+    if (this.lines.length > 0 && leading?.[0] !== '') {
+      this.lines.push('')
+    }
+
+    this.writeLeading(path)
+    this.push(header, path)
+  }
+
+  private writeLeading(path: string): void {
+    const leading = this.comments.leading[path]
+    if (leading) {
+      this.lines.push(...leading)
+    }
+  }
+
+  private push(line: string, path: string): void {
+    const trailing = this.comments.trailing[path]
+    this.lines.push(trailing ? `${line} ${trailing}` : line)
+  }
+
+  private value(value: any): string {
+    if (typeof value === 'string') return JSON.stringify(value)
+    if (typeof value === 'number') {
+      if (Number.isNaN(value)) return 'nan'
+      if (!Number.isFinite(value)) return value > 0 ? 'inf' : '-inf'
+      return String(value)
+    }
+    if (Array.isArray(value)) {
+      return `[${value.filter(item => item !== null && item !== undefined).map(item => this.value(item)).join(', ')}]`
+    }
+    if (isPlainObject(value)) {
+      const entries = Object.entries(value).filter(([, item]) => item !== null && item !== undefined)
+      return entries.length > 0
+        ? `{ ${entries.map(([key, item]) => `${this.key(key)} = ${this.value(item)}`).join(', ')} }`
+        : '{}'
+    }
+    return String(value)
+  }
+
+  private key(key: string): string {
+    return BARE_KEY.test(key) ? key : JSON.stringify(key)
+  }
+
+  /**
+   * 表头中的键路径：去掉数组下标并按需加引号
+   */
+  private headerKey(path: string): string {
+    return this.splitPath(path).map(key => this.key(key)).join('.')
+  }
+
+  private splitPath(path: string): string[] {
+    return path.replace(/\[\d+\]/g, '').split('.')
+  }
+
+  private join(path: string, key: string): string {
+    return path ? `${path}.${key}` : key
+  }
+}
@@ -3,7 +3,7 @@
  * @module utils/validator
  */
 
-import type { DeployConfig, Environment, Platform, ProjectType } from '../types/index.js'
+import type { DeployConfig, Environment, BuiltinPlatform, ProjectType } from '../types/index.js'
 import { ValidationError } from './errors.js'
 
 /**
@@ -114,7 +114,7 @@ export function isValidEnvironment(env: string): env is Environment {
  * isValidPlatform('heroku'); // false
  * ```
  */
-export function isValidPlatform(platform: string): platform is Platform {
+export function isValidPlatform(platform: string): platform is BuiltinPlatform {
   return ['docker', 'kubernetes', 'docker-compose'].includes(platform)
 }
 
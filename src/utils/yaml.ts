@@ -0,0 +1,763 @@
+/**
+ * YAML 解析与序列化
+ *
+ * @description 无依赖实现，覆盖配置文件常用的 YAML 子集：块映射与序列（含 `- key: value` 紧凑写法）、
+ * 流式集合、单/双引号字符串、块标量（| 与 >）以及 YAML 1.2 核心类型。
+ * 不支持锚点、别名、合并键（<<）、标签与多文档，遇到时（包括流式集合中）报错而不是静默忽略
+ */
+
+import { ConfigError } from './errors.js'
+import { escapeYaml } from './template-engine.js'
+import type { ConfigComments } from './config-format.js'
+
+/**
+ * 解析结果
+ */
+export interface ParsedYaml {
+  data: any
+  comments: ConfigComments
+}
+
+/**
+ * 内容行（已去除行尾注释）
+ */
+interface YamlLine {
+  /** 行号（从 1 开始） */
+  number: number
+  indent: number
+  text: string
+  comment?: string
+}
+
+const UNSUPPORTED_SUGGESTION = '不支持 YAML 锚点、别名、合并键与标签，请展开重复的内容或改用 JSON/TOML 配置'
+
+const DOUBLE_QUOTE_ESCAPES: Record<string, string> = {
+  '0': '\0',
+  a: '\x07',
+  b: '\b',
+  t: '\t',
+  '\t': '\t',
+  n: '\n',
+  v: '\v',
+  f: '\f',
+  r: '\r',
+  e: '\x1b',
+  ' ': ' ',
+  '"': '"',
+  '/': '/',
+  '\\': '\\',
+  N: '\x85',
+  _: '\xa0',
+}
+
+/**
+ * 解析 YAML
+ *
+ * @param path - 文件路径，仅用于错误信息
+ * @throws {ConfigError} 语法错误，details 包含 line 与 column
+ */
+export function parseYaml(content: string, path?: string): ParsedYaml {
+  return new YamlParser(content, path).parse()
+}
+
+/**
+ * 序列化为 YAML，按路径写回注释
+ */
+export function stringifyYaml(value: any, comments?: ConfigComments): string {
+  return new YamlWriter(comments || { leading: {}, trailing: {}, footer: [] }).write(value)
+}
+
+/**
+ * 解析普通标量（YAML 1.2 核心模式）
+ */
+export function resolveYamlScalar(text: string): any {
+  if (/^(~|null|Null|NULL)?$/.test(text)) return null
+  if (/^(true|True|TRUE)$/.test(text)) return true
+  if (/^(false|False|FALSE)$/.test(text)) return false
+  if (/^[-+]?[0-9]+$/.test(text)) return parseInt(text, 10)
+  if (/^0x[0-9a-fA-F]+$/.test(text)) return parseInt(text.slice(2), 16)
+  if (/^0o[0-7]+$/.test(text)) return parseInt(text.slice(2), 8)
+  if (/^[-+]?(\.[0-9]+|[0-9]+(\.[0-9]*)?)([eE][-+]?[0-9]+)?$/.test(text)) return parseFloat(text)
+  if (/^[-+]?\.(inf|Inf|INF)$/.test(text)) return text.startsWith('-') ? -Infinity : Infinity
+  if (/^\.(nan|NaN|NAN)$/.test(text)) return NaN
+  return text
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isSequenceItem(text: string): boolean {
+  return text === '-' || text.startsWith('- ')
+}
+
+class YamlParser {
+  private lines: string[]
+  private index = 0
+  private pending: string[] = []
+  private comments: ConfigComments = { leading: {}, trailing: {}, footer: [] }
+
+  constructor(content: string, private path?: string) {
+    this.lines = content.replace(/^\uFEFF/, '').split(/\r?\n/)
+  }
+
+  parse(): ParsedYaml {
+    let line = this.peek()
+
+    while (line && (line.text.startsWith('%') || line.text === '---')) {
+      this.index++
+      line = this.peek()
+    }
+
+    const data = line ? this.parseBlock(line.indent, '') : {}
+    const rest = this.peek()
+
+    if (rest) {
+      if (rest.text === '---' || rest.text.startsWith('--- ')) {
+        throw this.error('Multiple YAML documents are not supported', rest.number, rest.indent)
+      }
+      if (rest.text !== '...') {
+        throw this.error(rest.indent > 0 ? 'Unexpected indentation' : 'Unexpected content', rest.number, rest.indent)
+      }
+    }
+
+    this.comments.footer = this.pending
+    return { data, comments: this.comments }
+  }
+
+  /**
+   * 跳过空行与注释行（收集为待分配的注释），返回下一内容行
+   */
+  private peek(): YamlLine | null {
+    while (this.index < this.lines.length) {
+      const raw = this.lines[this.index]
+      const trimmed = raw.trim()
+
+      if (trimmed === '') {
+        this.pending.push('')
+      } else if (trimmed.startsWith('#')) {
+        this.pending.push(trimmed)
+      } else {
+        const indent = raw.length - raw.trimStart().length
+        if (raw.slice(0, indent).includes('\t')) {
+          throw this.error('Tabs are not allowed for indentation', this.index + 1, 0)
+        }
+
+        const { text, comment } = this.stripComment(raw.slice(indent))
+        return { number: this.index + 1, indent, text, comment }
+      }
+
+      this.index++
+    }
+
+    return null
+  }
+
+  private takeComments(path: string): void {
+    if (this.pending.length > 0) {
+      this.comments.leading[path] = this.pending
+      this.pending = []
+    }
+  }
+
+  private parseBlock(indent: number, path: string): any {
+    const line = this.peek()!
+
+    if (isSequenceItem(line.text)) {
+      return this.parseSequence(indent, path)
+    }
+
+    if (this.splitKey(line.text, line)) {
+      return this.parseMapping(indent, path)
+    }
+
+    this.index++
+    return this.parseInline(line, line.text, line.indent, indent, path)
+  }
+
+  private parseMapping(indent: number, path: string): Record<string, any> {
+    const result: Record<string, any> = {}
+    let line = this.peek()
+
+    while (line && line.indent === indent) {
+      const entry = this.splitKey(line.text, line)
+      if (!entry) {
+        throw this.error('Expected a mapping key', line.number, line.indent)
+      }
+
+      if (entry.key === '<<' && !/^["']/.test(line.text)) {
+        throw this.error('Merge keys (<<) are not supported', line.number, line.indent, UNSUPPORTED_SUGGESTION)
+      }
+
+      if (Object.prototype.hasOwnProperty.call(result, entry.key)) {
+        throw this.error(`Duplicate key "${entry.key}"`, line.number, line.indent)
+      }
+
+      const childPath = joinPath(path, entry.key)
+      this.takeComments(childPath)
+      this.index++
+      result[entry.key] = this.parseValue(line, entry.rest, line.indent + entry.offset, indent, childPath, true)
+      line = this.peek()
+    }
+
+    this.assertDedent(line, indent)
+    return result
+  }
+
+  private parseSequence(indent: number, path: string): any[] {
+    const result: any[] = []
+    let line = this.peek()
+
+    while (line && line.indent === indent && isSequenceItem(line.text)) {
+      const itemPath = `${path}[${result.length}]`
+      const rest = line.text.slice(1).trimStart()
+      const column = indent + line.text.length - rest.length
+
+      this.takeComments(itemPath)
+
+      if (rest !== '' && (isSequenceItem(rest) || this.splitKey(rest, line))) {
+        // 紧凑写法：把 "-" 换成空格，按条目内容所在的列解析
+        const raw = this.lines[this.index]
+        this.lines[this.index] = `${raw.slice(0, indent)} ${raw.slice(indent + 1)}`
+        result.push(this.parseBlock(column, itemPath))
+      } else {
+        this.index++
+        result.push(this.parseValue(line, rest, column, indent, itemPath, false))
+      }
+
+      line = this.peek()
+    }
+
+    this.assertDedent(line, indent)
+    return result
+  }
+
+  /**
+   * 解析键或序列项之后的值
+   */
+  private parseValue(
+    line: YamlLine,
+    rest: string,
+    column: number,
+    parentIndent: number,
+    path: string,
+    allowSequenceAtSameIndent: boolean
+  ): any {
+    if (line.comment) {
+      this.comments.trailing[path] = line.comment
+    }
+
+    if (rest === '') {
+      const next = this.peek()
+
+      if (next && next.indent > parentIndent) {
+        return this.parseBlock(next.indent, path)
+      }
+
+      if (next && allowSequenceAtSameIndent && next.indent === parentIndent && isSequenceItem(next.text)) {
+        return this.parseSequence(next.indent, path)
+      }
+
+      return null
+    }
+
+    return this.parseInline(line, rest, column, parentIndent, path)
+  }
+
+  /**
+   * 解析同一行内的值：块标量、流式集合或标量
+   */
+  private parseInline(line: YamlLine, text: string, column: number, parentIndent: number, path: string): any {
+    if (text.startsWith('|') || text.startsWith('>')) {
+      return this.parseBlockScalar(line, text, column, parentIndent)
+    }
+
+    if (text.startsWith('[') || text.startsWith('{')) {
+      return this.parseFlow(line, text, column)
+    }
+
+    if (/^[&*!]/.test(text)) {
+      throw this.error('Anchors, aliases and tags are not supported', line.number, column, UNSUPPORTED_SUGGESTION)
+    }
+
+    if (/^[@`]/.test(text)) {
+      throw this.error(`Plain scalars cannot start with "${text[0]}"`, line.number, column)
+    }
+
+    if (text.startsWith('"') || text.startsWith("'")) {
+      const { value, end } = this.readQuoted(text, 0, line.number, column)
+      if (text.slice(end).trim() !== '') {
+        throw this.error('Unexpected content after quoted string', line.number, column + end)
+      }
+      return value
+    }
+
+    const next = this.peek()
+    if (next && next.indent > parentIndent && !this.splitKey(next.text, next) && !isSequenceItem(next.text)) {
+      throw this.error(`Multi-line plain scalars are not supported at ${path || 'root'}`, next.number, next.indent)
+    }
+
+    return resolveYamlScalar(text)
+  }
+
+  private parseBlockScalar(line: YamlLine, header: string, column: number, parentIndent: number): string {
+    const match = /^([|>])([-+]?)([1-9]?)([-+]?)$/.exec(header)
+    if (!match) {
+      throw this.error(`Invalid block scalar header "${header}"`, line.number, column)
+    }
+
+    const folded = match[1] === '>'
+    const chomping = match[2] || match[4]
+    const explicitIndent = match[3] ? parentIndent + Number(match[3]) : -1
+    const body: string[] = []
+    let contentIndent = explicitIndent
+
+    while (this.index < this.lines.length) {
+      const raw = this.lines[this.index]
+
+      if (raw.trim() === '') {
+        body.push('')
+        this.index++
+        continue
+      }
+
+      const indent = raw.length - raw.trimStart().length
+      if (contentIndent < 0) {
+        if (indent <= parentIndent) break
+        contentIndent = indent
+      }
+      if (indent < contentIndent) break
+
+      body.push(raw.slice(contentIndent))
+      this.index++
+    }
+
+    let trailing = 0
+    while (body.length > 0 && body[body.length - 1] === '') {
+      body.pop()
+      trailing++
+    }
+
+    // 除保留（+）外，块标量之后的空行归还给注释收集
+    if (chomping !== '+') {
+      this.index -= trailing
+    }
+
+    if (body.length === 0) {
+      return ''
+    }
+
+    let text = body[0]
+    for (let i = 1; i < body.length; i++) {
+      const previous = body[i - 1]
+      const current = body[i]
+
+      if (!folded) {
+        text += `\n${current}`
+      } else if (current === '') {
+        text += '\n'
+      } else if (previous === '') {
+        text += current
+      } else {
+        text += (current.startsWith(' ') || previous.startsWith(' ') ? '\n' : ' ') + current
+      }
+    }
+
+    if (chomping === '-') return text
+    if (chomping === '+') return `${text}\n${'\n'.repeat(trailing)}`
+    return `${text}\n`
+  }
+
+  /**
+   * 解析流式集合，未闭合时拼接后续行
+   */
+  private parseFlow(line: YamlLine, text: string, column: number): any {
+    let source = text
+
+    while (!this.isFlowClosed(source)) {
+      if (this.index >= this.lines.length) {
+        throw this.error('Unterminated flow collection', line.number, column)
+      }
+      source += ` ${this.stripComment(this.lines[this.index].trim()).text}`
+      this.index++
+    }
+
+    const state = { pos: 0 }
+    const value = this.readFlowNode(source, state, line.number, column)
+    this.skipSpaces(source, state)
+
+    if (state.pos < source.length) {
+      throw this.error('Unexpected content after flow collection', line.number, column + state.pos)
+    }
+
+    return value
+  }
+
+  private readFlowNode(source: string, state: { pos: number }, number: number, column: number): any {
+    this.skipSpaces(source, state)
+    const char = source[state.pos]
+
+    if (char === '[') {
+      state.pos++
+      const items: any[] = []
+
+      while (true) {
+        this.skipSpaces(source, state)
+        if (source[state.pos] === ']') {
+          state.pos++
+          return items
+        }
+
+        items.push(this.readFlowNode(source, state, number, column))
+        this.skipSpaces(source, state)
+
+        if (source[state.pos] === ',') {
+          state.pos++
+        } else if (source[state.pos] !== ']') {
+          throw this.error('Expected "," or "]" in flow sequence', number, column + state.pos)
+        }
+      }
+    }
+
+    if (char === '{') {
+      state.pos++
+      const result: Record<string, any> = {}
+
+      while (true) {
+        this.skipSpaces(source, state)
+        if (source[state.pos] === '}') {
+          state.pos++
+          return result
+        }
+
+        const quoted = /^["']/.test(source[state.pos])
+        const key = String(this.readFlowScalar(source, state, number, column, true))
+        this.skipSpaces(source, state)
+
+        if (key === '<<' && !quoted) {
+          throw this.error('Merge keys (<<) are not supported', number, column + state.pos, UNSUPPORTED_SUGGESTION)
+        }
+
+        if (source[state.pos] === ':') {
+          state.pos++
+          this.skipSpaces(source, state)
+          result[key] = /^[,}]/.test(source[state.pos] || '') ? null : this.readFlowNode(source, state, number, column)
+        } else {
+          result[key] = null
+        }
+
+        this.skipSpaces(source, state)
+
+        if (source[state.pos] === ',') {
+          state.pos++
+        } else if (source[state.pos] !== '}') {
+          throw this.error('Expected "," or "}" in flow mapping', number, column + state.pos)
+        }
+      }
+    }
+
+    return this.readFlowScalar(source, state, number, column, false)
+  }
+
+  private readFlowScalar(source: string, state: { pos: number }, number: number, column: number, isKey: boolean): any {
+    const char = source[state.pos]
+
+    if (char === '"' || char === "'") {
+      const { value, end } = this.readQuoted(source, state.pos, number, column)
+      state.pos = end
+      return value
+    }
+
+    if (char === undefined || /[\]},]/.test(char)) {
+      throw this.error('Expected a value in flow collection', number, column + state.pos)
+    }
+
+    if (/[&*!]/.test(char)) {
+      throw this.error('Anchors, aliases and tags are not supported', number, column + state.pos, UNSUPPORTED_SUGGESTION)
+    }
+
+    const start = state.pos
+    while (state.pos < source.length) {
+      const current = source[state.pos]
+      const next = source[state.pos + 1]
+
+      if (/[,\]}\[{]/.test(current)) break
+      if (current === ':' && (isKey || next === undefined || /[\s,\]}]/.test(next))) break
+      state.pos++
+    }
+
+    const text = source.slice(start, state.pos).trim()
+    return isKey ? text : resolveYamlScalar(text)
+  }
+
+  private readQuoted(text: string, start: number, number: number, column: number): { value: string; end: number } {
+    const quote = text[start]
+    let value = ''
+    let pos = start + 1
+
+    while (pos < text.length) {
+      const char = text[pos]
+
+      if (quote === "'") {
+        if (char === "'") {
+          if (text[pos + 1] === "'") {
+            value += "'"
+            pos += 2
+            continue
+          }
+          return { value, end: pos + 1 }
+        }
+      } else if (char === '"') {
+        return { value, end: pos + 1 }
+      } else if (char === '\\') {
+        const escape = text[pos + 1]
+        const hexLength = escape === 'x' ? 2 : escape === 'u' ? 4 : escape === 'U' ? 8 : 0
+
+        if (hexLength > 0) {
+          const hex = text.slice(pos + 2, pos + 2 + hexLength)
+          if (!new RegExp(`^[0-9a-fA-F]{${hexLength}}$`).test(hex)) {
+            throw this.error(`Invalid escape sequence "\\${escape}${hex}"`, number, column + pos)
+          }
+          value += String.fromCodePoint(parseInt(hex, 16))
+          pos += 2 + hexLength
+          continue
+        }
+
+        if (!(escape in DOUBLE_QUOTE_ESCAPES)) {
+          throw this.error(`Invalid escape sequence "\\${escape ?? ''}"`, number, column + pos)
+        }
+
+        value += DOUBLE_QUOTE_ESCAPES[escape]
+        pos += 2
+        continue
+      }
+
+      value += char
+      pos++
+    }
+
+    throw this.error('Unterminated quoted string', number, column + start)
+  }
+
+  /**
+   * 拆分 "key: value"，不是映射条目时返回 null
+   */
+  private splitKey(text: string, line: YamlLine): { key: string; rest: string; offset: number } | null {
+    if (text.startsWith('"') || text.startsWith("'")) {
+      const { value, end } = this.readQuoted(text, 0, line.number, line.indent)
+      const separator = /^\s*:(\s+|$)/.exec(text.slice(end))
+      if (!separator) return null
+
+      const offset = end + separator[0].length
+      return { key: value, rest: text.slice(offset), offset }
+    }
+
+    if (/^[\[\]{},#&*!|>%@`]/.test(text) || isSequenceItem(text)) {
+      return null
+    }
+
+    const match = /^(.+?)\s*:(\s+|$)/.exec(text)
+    if (!match) return null
+
+    return { key: match[1], rest: text.slice(match[0].length), offset: match[0].length }
+  }
+
+  /**
+   * 分离行尾注释（引号内的 # 不视为注释）
+   */
+  private stripComment(text: string): { text: string; comment?: string } {
+    let quote: string | null = null
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i]
+      const previous = i > 0 ? text[i - 1] : ' '
+
+      if (quote) {
+        if (char === '\\' && quote === '"') {
+          i++
+        } else if (char === quote) {
+          quote = null
+        }
+      } else if ((char === '"' || char === "'") && /[\s\[{,:-]/.test(previous)) {
+        quote = char
+      } else if (char === '#' && /\s/.test(previous)) {
+        return { text: text.slice(0, i).trimEnd(), comment: text.slice(i).trimEnd() }
+      }
+    }
+
+    return { text: text.trimEnd() }
+  }
+
+  private isFlowClosed(source: string): boolean {
+    let depth = 0
+    let quote: string | null = null
+
+    for (let i = 0; i < source.length; i++) {
+      const char = source[i]
+
+      if (quote) {
+        if (char === '\\' && quote === '"') i++
+        else if (char === quote) quote = null
+      } else if (char === '"' || char === "'") {
+        quote = char
+      } else if (char === '[' || char === '{') {
+        depth++
+      } else if (char === ']' || char === '}') {
+        depth--
+      }
+    }
+
+    return depth <= 0
+  }
+
+  private skipSpaces(source: string, state: { pos: number }): void {
+    while (state.pos < source.length && /\s/.test(source[state.pos])) {
+      state.pos++
+    }
+  }
+
+  private assertDedent(line: YamlLine | null, indent: number): void {
+    if (line && line.indent > indent) {
+      throw this.error('Unexpected indentation', line.number, line.indent)
+    }
+  }
+
+  private error(
+    message: string,
+    line: number,
+    column: number,
+    suggestion = '请检查 YAML 语法（缩进、引号与冒号）'
+  ): ConfigError {
+    return new ConfigError(`YAML 解析失败 (line ${line}, column ${column + 1}): ${message}`, {
+      details: { path: this.path, line, column: column + 1 },
+      suggestion,
+    })
+  }
+}
+
+class YamlWriter {
+  private lines: string[] = []
+
+  constructor(private comments: ConfigComments) {}
+
+  write(value: any): string {
+    if (isPlainObject(value) && Object.keys(value).length > 0) {
+      this.writeMapping(value, 0, '')
+    } else if (Array.isArray(value) && value.length > 0) {
+      this.writeSequence(value, 0, '')
+    } else {
+      this.lines.push(this.scalar(value))
+    }
+
+    this.lines.push(...this.comments.footer)
+
+    while (this.lines.length > 1 && this.lines[this.lines.length - 1] === '') {
+      this.lines.pop()
+    }
+
+    return `${this.lines.join('\n')}\n`
+  }
+
+  /**
+   * @param firstPrefix - 第一个键所在行的前缀（序列项中的 "- "）
+   */
+  private writeMapping(value: Record<string, any>, indent: number, path: string, firstPrefix?: string): void {
+    let first = true
+
+    for (const [key, child] of Object.entries(value)) {
+      if (child === undefined) continue
+
+      const childPath = joinPath(path, key)
+      let prefix = ' '.repeat(indent)
+
+      if (first && firstPrefix !== undefined) {
+        prefix = firstPrefix
+      } else {
+        this.writeLeading(childPath, indent)
+      }
+
+      first = false
+      this.writeEntry(`${prefix}${this.scalar(key)}:`, child, indent, childPath)
+    }
+  }
+
+  /**
+   * @param firstPrefix - 第一项所在行的前缀（嵌套序列中的 "- "）
+   */
+  private writeSequence(value: any[], indent: number, path: string, firstPrefix?: string): void {
+    const pad = ' '.repeat(indent)
+
+    value.forEach((item, index) => {
+      const itemPath = `${path}[${index}]`
+      const prefix = index === 0 && firstPrefix !== undefined ? `${firstPrefix}- ` : `${pad}- `
+
+      if (index > 0 || firstPrefix === undefined) {
+        this.writeLeading(itemPath, indent)
+      }
+
+      if (isPlainObject(item) && Object.values(item).some(child => child !== undefined)) {
+        const firstKey = Object.keys(item).find(key => item[key] !== undefined)!
+        this.writeLeading(joinPath(itemPath, firstKey), indent)
+        this.writeMapping(item, indent + 2, itemPath, prefix)
+      } else if (Array.isArray(item) && item.length > 0) {
+        this.writeLeading(`${itemPath}[0]`, indent)
+        this.writeSequence(item, indent + 2, itemPath, prefix)
+      } else {
+        this.writeEntry(prefix.trimEnd(), item, indent, itemPath)
+      }
+    })
+  }
+
+  private writeEntry(head: string, value: any, indent: number, path: string): void {
+    if (isPlainObject(value) && Object.values(value).some(child => child !== undefined)) {
+      this.push(head, path)
+      this.writeMapping(value, indent + 2, path)
+    } else if (Array.isArray(value) && value.length > 0) {
+      this.push(head, path)
+      this.writeSequence(value, indent + 2, path)
+    } else if (typeof value === 'string' && value.includes('\n') && !value.startsWith(' ')) {
+      const body = value.replace(/\n+$/, '')
+      const trailing = value.length - body.length
+      const chomping = trailing === 0 ? '-' : trailing === 1 ? '' : '+'
+      const pad = ' '.repeat(indent + 2)
+
+      this.push(`${head} |${chomping}`, path)
+      this.lines.push(...body.split('\n').map(line => (line ? pad + line : '')))
+      this.lines.push(...Array(Math.max(0, trailing - 1)).fill(''))
+    } else {
+      this.push(`${head} ${this.scalar(value)}`, path)
+    }
+  }
+
+  private writeLeading(path: string, indent: number): void {
+    const leading = this.comments.leading[path]
+    if (!leading) return
+
+    const pad = ' '.repeat(indent)
+    this.lines.push(...leading.map(line => (line ? pad + line : '')))
+  }
+
+  private push(line: string, path: string): void {
+    const trailing = this.comments.trailing[path]
+    this.lines.push(trailing ? `${line} ${trailing}` : line)
+  }
+
+  private scalar(value: any): string {
+    if (value === null || value === undefined) return 'null'
+    if (Array.isArray(value)) return '[]'
+    if (typeof value === 'object') return '{}'
+    if (typeof value === 'number') {
+      if (Number.isNaN(value)) return '.nan'
+      if (!Number.isFinite(value)) return value > 0 ? '.inf' : '-.inf'
+      return String(value)
+    }
+    if (typeof value !== 'string') return String(value)
+
+    const escaped = escapeYaml(value)
+    return escaped === value && resolveYamlScalar(value) !== value ? JSON.stringify(value) : escaped
+  }
+}